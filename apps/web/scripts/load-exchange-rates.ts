@@ -0,0 +1,53 @@
+#!/usr/bin/env tsx
+/**
+ * Script to load a household's exchange rates from a local file
+ * Accepts CSV (date,currency,baseCurrency,rate) or a JSON array with the same fields
+ *
+ * Run with: pnpm --filter @sfam/web tsx scripts/load-exchange-rates.ts ./rates.csv <household-id>
+ */
+
+import { readFileSync } from 'node:fs';
+import { prisma } from '@sfam/db';
+import { parseExchangeRateFile } from '@sfam/domain';
+
+async function main() {
+  const [filePath, householdId] = process.argv.slice(2);
+  if (!filePath || !householdId) {
+    console.error('Usage: tsx scripts/load-exchange-rates.ts <rates-file> <household-id>');
+    process.exit(1);
+  }
+
+  const { rates, errors } = parseExchangeRateFile(readFileSync(filePath, 'utf8'));
+
+  for (const error of errors) {
+    console.warn(`⚠️  Row ${error.row}: ${error.reason} (${error.raw})`);
+  }
+
+  console.log(`💱 Loading ${rates.length} exchange rates...`);
+
+  for (const rate of rates) {
+    await prisma.exchangeRate.upsert({
+      where: {
+        householdId_currency_baseCurrency_date: {
+          householdId,
+          currency: rate.currency,
+          baseCurrency: rate.baseCurrency,
+          date: rate.date,
+        },
+      },
+      create: { ...rate, householdId, source: 'file' },
+      update: { rate: rate.rate, source: 'file' },
+    });
+  }
+
+  console.log(`✅ Loaded ${rates.length} rates (${errors.length} rows skipped)`);
+}
+
+main()
+  .catch((e) => {
+    console.error('❌ Failed to load exchange rates:', e);
+    process.exit(1);
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
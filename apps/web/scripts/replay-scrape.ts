@@ -0,0 +1,52 @@
+#!/usr/bin/env tsx
+/**
+ * Script to dry-run a recorded scrape
+ * Fixtures are written by syncs running with SCRAPER_FIXTURE_DIR set; replaying one maps
+ * its accounts and transactions the way a real sync would and prints what would be imported.
+ * Nothing is written to the database and no AI provider is called.
+ *
+ * Run with: pnpm --filter @sfam/web tsx scripts/replay-scrape.ts <fixture.json>
+ */
+
+import { readFileSync } from 'node:fs';
+import { parseScrapeFixture } from '@sfam/scraper';
+import { replayScrapeFixture } from '../src/lib/sync-service';
+
+async function main() {
+  const [filePath] = process.argv.slice(2);
+  if (!filePath) {
+    console.error('Usage: tsx scripts/replay-scrape.ts <fixture.json>');
+    process.exit(1);
+  }
+
+  const fixture = parseScrapeFixture(readFileSync(filePath, 'utf8'));
+  console.log(`🔁 Replaying ${fixture.provider} scrape recorded at ${fixture.recordedAt}...`);
+
+  const { result, transactions, balances } = await replayScrapeFixture(fixture);
+
+  if (!result.success) {
+    console.error(`❌ Replay failed (${result.errorType}): ${result.errorMessage}`);
+    process.exitCode = 1;
+    return;
+  }
+
+  for (const txn of transactions) {
+    const date = txn.date.toISOString().split('T')[0];
+    const pending = txn.isPending ? ' (pending)' : '';
+    console.log(
+      `  ${date}  ${txn.direction.padEnd(7)} ${txn.amount.toFixed(2).padStart(10)}  ${txn.description}${pending}  [${txn.externalAccountId}]`
+    );
+  }
+  for (const balance of balances) {
+    console.log(`  Balance [${balance.externalAccountId}]: ${balance.balance}`);
+  }
+
+  console.log(
+    `✅ Would import ${result.transactionsNew} of ${result.transactionsFound} transactions`
+  );
+}
+
+main().catch((e) => {
+  console.error('❌ Failed to replay scrape:', e);
+  process.exit(1);
+});
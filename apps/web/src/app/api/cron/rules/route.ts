@@ -0,0 +1,98 @@
+import { NextResponse } from 'next/server';
+
+/**
+ * Vercel Cron Job endpoint for learning rules from user corrections
+ *
+ * Runs after the daily bank sync (configured in vercel.json) and queues rule proposals
+ * for the user to approve on the rules page. Nothing is changed without approval.
+ * Security: Validates CRON_SECRET header to prevent unauthorized access
+ *
+ * NOTE: rule-learning is dynamically imported to avoid Prisma initialization during build
+ */
+export const maxDuration = 300;
+export const dynamic = 'force-dynamic';
+
+// Type definition for the response (avoiding build-time import)
+interface CronRuleLearningResult {
+  success: boolean;
+  message: string;
+  households: number;
+  proposalsQueued: number;
+  errors: string[];
+  duration?: number;
+}
+
+export async function GET(request: Request): Promise<NextResponse<CronRuleLearningResult>> {
+  const startTime = Date.now();
+
+  const authHeader = request.headers.get('authorization');
+  const cronSecret = process.env.CRON_SECRET;
+
+  // In production, CRON_SECRET must be set
+  if (process.env.NODE_ENV === 'production' && !cronSecret) {
+    console.error('[Cron/Rules] CRON_SECRET not configured');
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Server misconfiguration: CRON_SECRET not set',
+        households: 0,
+        proposalsQueued: 0,
+        errors: ['CRON_SECRET environment variable not configured'],
+        duration: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+
+  if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+    console.warn('[Cron/Rules] Unauthorized request - invalid CRON_SECRET');
+    return NextResponse.json(
+      {
+        success: false,
+        message: 'Unauthorized',
+        households: 0,
+        proposalsQueued: 0,
+        errors: ['Invalid or missing authorization'],
+        duration: Date.now() - startTime,
+      },
+      { status: 401 }
+    );
+  }
+
+  if (process.env.DEMO_MODE === 'true') {
+    return NextResponse.json({
+      success: true,
+      message: 'Skipped: Demo mode active',
+      households: 0,
+      proposalsQueued: 0,
+      errors: [],
+      duration: Date.now() - startTime,
+    });
+  }
+
+  try {
+    // Dynamic import to avoid Prisma initialization during build
+    const { mineRuleProposalsForCron } = await import('@/lib/rule-learning');
+    const result = await mineRuleProposalsForCron();
+
+    const duration = Date.now() - startTime;
+    console.log(`[Cron/Rules] Completed in ${duration}ms: ${result.message}`);
+
+    return NextResponse.json({ ...result, duration });
+  } catch (error) {
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+    console.error('[Cron/Rules] Fatal error:', error);
+
+    return NextResponse.json(
+      {
+        success: false,
+        message: `Rule learning failed: ${errorMessage}`,
+        households: 0,
+        proposalsQueued: 0,
+        errors: [errorMessage],
+        duration: Date.now() - startTime,
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -4,9 +4,10 @@ import { NextResponse } from 'next/server';
  * Vercel Cron Job endpoint for syncing all bank connections
  *
  * This endpoint is called by Vercel's cron scheduler (configured in vercel.json)
+ * It queues a sync job per active connection and runs the queue, retries included
  * Security: Validates CRON_SECRET header to prevent unauthorized access
  *
- * NOTE: sync-service is dynamically imported to avoid Prisma initialization during build
+ * NOTE: sync-jobs is dynamically imported to avoid Prisma initialization during build
  *
  * @see https://vercel.com/docs/cron-jobs
  */
@@ -90,7 +91,7 @@ export async function GET(request: Request): Promise<NextResponse<CronSyncResult
     console.log('[Cron/Sync] Starting sync for all connections...');
 
     // Dynamic import to avoid Prisma initialization during build
-    const { syncAllConnectionsForCron } = await import('@/lib/sync-service');
+    const { syncAllConnectionsForCron } = await import('@/lib/sync-jobs');
     const result = await syncAllConnectionsForCron();
 
     const duration = Date.now() - startTime;
@@ -2,6 +2,10 @@ import { auth } from '@/lib/auth';
 import { type Context, appRouter } from '@sfam/api';
 import { prisma } from '@sfam/db';
 import { fetchRequestHandler } from '@trpc/server/adapters/fetch';
+import { after } from 'next/server';
+
+// Sync jobs started after a response run within the same limit
+export const maxDuration = 300;
 
 /**
  * Get user's primary household ID
@@ -45,6 +49,17 @@ async function getDemoHouseholdId(): Promise<string> {
   return household.id;
 }
 
+/**
+ * Run queued sync jobs once the response is sent
+ * The runner is imported lazily to keep the scrapers out of every tRPC request
+ */
+function runSyncJobsAfterResponse() {
+  after(async () => {
+    const { startSyncJobRunner } = await import('@/lib/sync-jobs');
+    await startSyncJobRunner();
+  });
+}
+
 /**
  * Create tRPC context with authentication
  * In demo mode, uses a mock demo user and household
@@ -87,6 +102,7 @@ async function createContext(_req: Request): Promise<Context> {
       name: session.user.name,
     },
     householdId,
+    runSyncJobs: runSyncJobsAfterResponse,
   };
 }
 
@@ -0,0 +1,8 @@
+import { GoalsContent } from '@/components/goals/GoalsContent';
+
+// Force dynamic rendering - database queries can't run at build time
+export const dynamic = 'force-dynamic';
+
+export default async function GoalsPage() {
+  return <GoalsContent />;
+}
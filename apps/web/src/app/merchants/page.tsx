@@ -0,0 +1,8 @@
+import { MerchantsContent } from '@/components/merchants/MerchantsContent';
+
+// Force dynamic rendering - database queries can't run at build time
+export const dynamic = 'force-dynamic';
+
+export default async function MerchantsPage() {
+  return <MerchantsContent />;
+}
@@ -17,10 +17,13 @@ export function AddBudgetDialog({ isOpen, onClose, currentMonth }: AddBudgetDial
 
   const [formData, setFormData] = useState({
     categoryId: '',
+    period: 'month' as 'month' | 'quarter' | 'year',
     plannedAmount: '',
     limitAmount: '',
     limitType: '' as '' | 'soft' | 'hard',
     alertThresholdPct: '80',
+    rollover: false,
+    rolloverCap: '',
   });
 
   const [errors, setErrors] = useState<Record<string, string>>({});
@@ -43,10 +46,13 @@ export function AddBudgetDialog({ isOpen, onClose, currentMonth }: AddBudgetDial
   const handleClose = () => {
     setFormData({
       categoryId: '',
+      period: 'month',
       plannedAmount: '',
       limitAmount: '',
       limitType: '',
       alertThresholdPct: '80',
+      rollover: false,
+      rolloverCap: '',
     });
     setErrors({});
     onClose();
@@ -89,10 +95,13 @@ export function AddBudgetDialog({ isOpen, onClose, currentMonth }: AddBudgetDial
     createMutation.mutate({
       categoryId: formData.categoryId,
       month: currentMonth,
+      period: formData.period,
       plannedAmount: Number(formData.plannedAmount),
       limitAmount: formData.limitAmount ? Number(formData.limitAmount) : undefined,
       limitType: formData.limitType || undefined,
       alertThresholdPct: Number(formData.alertThresholdPct) / 100,
+      rollover: formData.rollover,
+      rolloverCap: formData.rollover && formData.rolloverCap ? Number(formData.rolloverCap) : null,
     });
   };
 
@@ -132,6 +141,31 @@ export function AddBudgetDialog({ isOpen, onClose, currentMonth }: AddBudgetDial
             )}
           </div>
 
+          {/* Period */}
+          <div>
+            <label className="label">Period</label>
+            <select
+              value={formData.period}
+              onChange={(e) =>
+                setFormData({
+                  ...formData,
+                  period: e.target.value as 'month' | 'quarter' | 'year',
+                  rollover: e.target.value === 'month' && formData.rollover,
+                })
+              }
+              className="input"
+            >
+              <option value="month">Monthly</option>
+              <option value="quarter">Quarterly</option>
+              <option value="year">Yearly</option>
+            </select>
+            {formData.period !== 'month' && (
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                Tracked against spending for the whole {formData.period}, e.g. insurance or arnona
+              </p>
+            )}
+          </div>
+
           {/* Planned Amount */}
           <div>
             <label className="label">
@@ -247,6 +281,37 @@ export function AddBudgetDialog({ isOpen, onClose, currentMonth }: AddBudgetDial
             </p>
           </div>
 
+          {/* Rollover (monthly budgets only) */}
+          {formData.period === 'month' && (
+            <div>
+              <label className="flex items-center gap-2 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={formData.rollover}
+                  onChange={(e) => setFormData({ ...formData, rollover: e.target.checked })}
+                  className="rounded w-4 h-4"
+                />
+                <span className="text-sm text-gray-700 dark:text-gray-300">
+                  Roll over unspent or overspent amounts
+                </span>
+              </label>
+              {formData.rollover && (
+                <input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  value={formData.rolloverCap}
+                  onChange={(e) => setFormData({ ...formData, rolloverCap: e.target.value })}
+                  className="input mt-2"
+                  placeholder="Carry-over cap (optional)"
+                />
+              )}
+              <p className="text-sm text-gray-500 dark:text-gray-400 mt-1">
+                For irregular spending like clothing or car maintenance
+              </p>
+            </div>
+          )}
+
           {/* Form Error */}
           {errors.form && (
             <div className="bg-danger-50 dark:bg-danger-900/30 border border-danger-200 dark:border-danger-800 rounded p-3 text-sm text-danger-700 dark:text-danger-400">
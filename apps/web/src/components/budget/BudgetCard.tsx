@@ -1,6 +1,13 @@
 'use client';
 
-import { cn, formatCurrency, formatPercent } from '@/lib/utils';
+import {
+  cn,
+  formatBudgetPace,
+  formatCurrency,
+  formatPercent,
+  getBudgetPeriodLabel,
+  getPaceColorClass,
+} from '@/lib/utils';
 import { Edit2, Trash2 } from 'lucide-react';
 
 interface BudgetCardProps {
@@ -11,6 +18,7 @@ interface BudgetCardProps {
       plannedAmount: number;
       limitAmount?: number | null;
       limitType?: string | null;
+      rollover?: boolean;
     };
     category?: {
       id: string;
@@ -18,9 +26,14 @@ interface BudgetCardProps {
       icon?: string | null;
     } | null;
     actualAmount: number;
+    carryOver: number;
+    available: number;
     percentUsed: number;
     status: string;
     isOverLimit: boolean;
+    period?: string;
+    pace?: { spentPct: number; elapsedPct: number; status: string };
+    projectedInstallments?: number;
   };
   onEdit: () => void;
   onDelete: () => void;
@@ -41,7 +54,7 @@ function getStatusIndicator(percentUsed: number): { icon: string; color: string
 }
 
 export function BudgetCard({ evaluation, onEdit, onDelete }: BudgetCardProps) {
-  const remaining = evaluation.budget.plannedAmount - evaluation.actualAmount;
+  const remaining = evaluation.available - evaluation.actualAmount;
   const progressWidth = Math.min(evaluation.percentUsed * 100, 100);
   const status = getStatusIndicator(evaluation.percentUsed);
 
@@ -54,6 +67,11 @@ export function BudgetCard({ evaluation, onEdit, onDelete }: BudgetCardProps) {
           <div>
             <h3 className="font-medium text-gray-900 dark:text-white">
               {evaluation.category?.name || 'Unknown'}
+              {evaluation.period && evaluation.period !== 'month' && (
+                <span className="badge badge-gray text-xs ml-2">
+                  {getBudgetPeriodLabel(evaluation.period)}
+                </span>
+              )}
             </h3>
             {evaluation.budget.limitAmount && (
               <p className="text-xs text-gray-500 dark:text-gray-400">
@@ -103,7 +121,7 @@ export function BudgetCard({ evaluation, onEdit, onDelete }: BudgetCardProps) {
           </span>
           <span className="text-gray-400 dark:text-gray-500"> / </span>
           <span className="text-gray-600 dark:text-gray-300">
-            {formatCurrency(evaluation.budget.plannedAmount)}
+            {formatCurrency(evaluation.available)}
           </span>
         </div>
         <div className={cn('font-medium', remaining >= 0 ? 'text-success-600' : 'text-danger-600')}>
@@ -113,6 +131,34 @@ export function BudgetCard({ evaluation, onEdit, onDelete }: BudgetCardProps) {
         </div>
       </div>
 
+      {/* Period-to-date pace for quarterly and yearly budgets */}
+      {evaluation.period && evaluation.period !== 'month' && evaluation.pace && (
+        <p className={cn('text-xs', getPaceColorClass(evaluation.pace.status))}>
+          {formatBudgetPace(evaluation.period, evaluation.pace)}
+        </p>
+      )}
+
+      {/* Amount carried over from previous months */}
+      {evaluation.budget.rollover && evaluation.carryOver !== 0 && (
+        <p
+          className={cn(
+            'text-xs',
+            evaluation.carryOver > 0 ? 'text-success-600' : 'text-danger-600'
+          )}
+        >
+          {formatCurrency(evaluation.budget.plannedAmount)} planned{' '}
+          {evaluation.carryOver > 0 ? '+' : '−'} {formatCurrency(Math.abs(evaluation.carryOver))}{' '}
+          carried over
+        </p>
+      )}
+
+      {/* Installment payments still to be charged this month */}
+      {(evaluation.projectedInstallments ?? 0) > 0 && (
+        <p className="text-xs text-gray-500 dark:text-gray-400">
+          +{formatCurrency(evaluation.projectedInstallments ?? 0)} installments due this month
+        </p>
+      )}
+
       {/* Actions */}
       <div className="flex justify-end gap-2 pt-2 border-t border-gray-100 dark:border-gray-700">
         <button
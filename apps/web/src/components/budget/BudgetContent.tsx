@@ -5,8 +5,11 @@ import { trpc } from '@/lib/trpc/client';
 import { useMonth } from '@/lib/useMonth';
 import {
   cn,
+  formatBudgetPace,
   formatCurrency,
   formatPercent,
+  getBudgetPeriodLabel,
+  getPaceColorClass,
   getStatusBadgeClass,
   getStatusLabel,
 } from '@/lib/utils';
@@ -16,6 +19,7 @@ import { AddBudgetDialog } from './AddBudgetDialog';
 import { BudgetCard } from './BudgetCard';
 import { BudgetEmptyState } from './BudgetEmptyState';
 import { CopyBudgetsDialog } from './CopyBudgetsDialog';
+import { InstallmentPlansCard } from './InstallmentPlansCard';
 
 // Helper to get previous month in YYYY-MM format
 function getPreviousMonth(currentMonth: string): string {
@@ -38,7 +42,9 @@ export const BudgetContent = () => {
     plannedAmount: number;
     limitAmount: number | null;
     limitType: string | null;
-  }>({ plannedAmount: 0, limitAmount: null, limitType: null });
+    rollover: boolean;
+    rolloverCap: number | null;
+  }>({ plannedAmount: 0, limitAmount: null, limitType: null, rollover: false, rolloverCap: null });
   const [isCreateDialogOpen, setIsCreateDialogOpen] = useState(false);
   const [isCopyDialogOpen, setIsCopyDialogOpen] = useState(false);
 
@@ -72,21 +78,26 @@ export const BudgetContent = () => {
   });
 
   const startEditing = (evaluation: (typeof budgets)[number]) => {
-    setEditingBudget(evaluation.budget.categoryId);
+    setEditingBudget(evaluation.budget.id);
     setEditValues({
       plannedAmount: evaluation.budget.plannedAmount,
       limitAmount: evaluation.budget.limitAmount ?? null,
       limitType: evaluation.budget.limitType ?? null,
+      rollover: evaluation.budget.rollover ?? false,
+      rolloverCap: evaluation.budget.rolloverCap ?? null,
     });
   };
 
-  const saveEdit = (categoryId: string) => {
+  const saveEdit = (evaluation: (typeof budgets)[number]) => {
     upsertMutation.mutate({
-      categoryId,
-      month: currentMonth,
+      categoryId: evaluation.budget.categoryId,
+      month: evaluation.budget.month,
+      period: evaluation.period,
       plannedAmount: editValues.plannedAmount,
       limitAmount: editValues.limitAmount ?? undefined,
       limitType: (editValues.limitType as 'soft' | 'hard') ?? undefined,
+      rollover: editValues.rollover,
+      rolloverCap: editValues.rollover ? editValues.rolloverCap : null,
     });
   };
 
@@ -97,11 +108,21 @@ export const BudgetContent = () => {
   };
 
   type BudgetEvaluation = (typeof budgets)[number];
-  const totalPlanned = budgets.reduce(
+  // Totals cover monthly budgets; quarterly and yearly budgets span other months too
+  const monthlyBudgets = budgets.filter((b: BudgetEvaluation) => b.period === 'month');
+  const totalPlanned = monthlyBudgets.reduce(
     (sum: number, b: BudgetEvaluation) => sum + b.budget.plannedAmount,
     0
   );
-  const totalActual = budgets.reduce((sum: number, b: BudgetEvaluation) => sum + b.actualAmount, 0);
+  const totalCarryOver = monthlyBudgets.reduce(
+    (sum: number, b: BudgetEvaluation) => sum + b.carryOver,
+    0
+  );
+  const totalAvailable = totalPlanned + totalCarryOver;
+  const totalActual = monthlyBudgets.reduce(
+    (sum: number, b: BudgetEvaluation) => sum + b.actualAmount,
+    0
+  );
 
   return (
     <div className="space-y-6 animate-in">
@@ -150,6 +171,12 @@ export const BudgetContent = () => {
               <p className="text-2xl font-bold text-gray-900 dark:text-white">
                 {formatCurrency(totalPlanned)}
               </p>
+              {totalCarryOver !== 0 && (
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {totalCarryOver > 0 ? '+' : '−'}
+                  {formatCurrency(Math.abs(totalCarryOver))} carried over
+                </p>
+              )}
             </div>
             <div className="card">
               <p className="text-sm text-gray-500 dark:text-gray-400">Total Spent</p>
@@ -162,10 +189,10 @@ export const BudgetContent = () => {
               <p
                 className={cn(
                   'text-2xl font-bold',
-                  totalPlanned - totalActual >= 0 ? 'text-success-600' : 'text-danger-600'
+                  totalAvailable - totalActual >= 0 ? 'text-success-600' : 'text-danger-600'
                 )}
               >
-                {formatCurrency(totalPlanned - totalActual)}
+                {formatCurrency(totalAvailable - totalActual)}
               </p>
             </div>
           </div>
@@ -214,7 +241,7 @@ export const BudgetContent = () => {
               </thead>
               <tbody className="divide-y divide-gray-100 dark:divide-gray-700">
                 {budgets.map((evaluation: BudgetEvaluation) => {
-                  const isEditing = editingBudget === evaluation.budget.categoryId;
+                  const isEditing = editingBudget === evaluation.budget.id;
                   const progressWidth = Math.min(evaluation.percentUsed * 100, 100);
 
                   return (
@@ -228,25 +255,77 @@ export const BudgetContent = () => {
                           <span className="font-medium text-gray-900 dark:text-white">
                             {evaluation.category?.name || 'Unknown'}
                           </span>
+                          {evaluation.period !== 'month' && (
+                            <span className="badge badge-gray text-xs">
+                              {getBudgetPeriodLabel(evaluation.period)}
+                            </span>
+                          )}
                         </div>
                       </td>
                       <td className="px-4 py-3 text-right">
                         {isEditing ? (
-                          <input
-                            type="number"
-                            value={editValues.plannedAmount}
-                            onChange={(e) =>
-                              setEditValues({
-                                ...editValues,
-                                plannedAmount: Number(e.target.value),
-                              })
-                            }
-                            className="input text-right w-28 py-1"
-                          />
+                          <div className="flex flex-col items-end gap-1">
+                            <input
+                              type="number"
+                              value={editValues.plannedAmount}
+                              onChange={(e) =>
+                                setEditValues({
+                                  ...editValues,
+                                  plannedAmount: Number(e.target.value),
+                                })
+                              }
+                              className="input text-right w-28 py-1"
+                            />
+                            <label className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400">
+                              <input
+                                type="checkbox"
+                                checked={editValues.rollover}
+                                onChange={(e) =>
+                                  setEditValues({ ...editValues, rollover: e.target.checked })
+                                }
+                                className="rounded w-3.5 h-3.5"
+                              />
+                              Roll over
+                            </label>
+                            {editValues.rollover && (
+                              <input
+                                type="number"
+                                value={editValues.rolloverCap ?? ''}
+                                onChange={(e) =>
+                                  setEditValues({
+                                    ...editValues,
+                                    rolloverCap: e.target.value ? Number(e.target.value) : null,
+                                  })
+                                }
+                                placeholder="No cap"
+                                className="input text-right w-28 py-1 text-xs"
+                              />
+                            )}
+                          </div>
                         ) : (
-                          <span className="text-gray-900 dark:text-white">
-                            {formatCurrency(evaluation.budget.plannedAmount)}
-                          </span>
+                          <>
+                            <span className="text-gray-900 dark:text-white">
+                              {formatCurrency(evaluation.budget.plannedAmount)}
+                            </span>
+                            {evaluation.budget.rollover && (
+                              <p
+                                className={cn(
+                                  'text-xs',
+                                  evaluation.carryOver >= 0
+                                    ? 'text-gray-500 dark:text-gray-400'
+                                    : 'text-danger-600'
+                                )}
+                                title={
+                                  evaluation.budget.rolloverCap != null
+                                    ? `Carry-over capped at ${formatCurrency(evaluation.budget.rolloverCap)}`
+                                    : 'Rolls over into next month'
+                                }
+                              >
+                                {evaluation.carryOver >= 0 ? '+' : '−'}
+                                {formatCurrency(Math.abs(evaluation.carryOver))} carried over
+                              </p>
+                            )}
+                          </>
                         )}
                       </td>
                       <td className="px-4 py-3 text-right">
@@ -293,6 +372,11 @@ export const BudgetContent = () => {
                         >
                           {formatCurrency(evaluation.actualAmount)}
                         </span>
+                        {evaluation.projectedInstallments > 0 && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            +{formatCurrency(evaluation.projectedInstallments)} installments due
+                          </p>
+                        )}
                       </td>
                       <td className="px-4 py-3">
                         <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
@@ -307,6 +391,11 @@ export const BudgetContent = () => {
                         <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
                           {formatPercent(evaluation.percentUsed)} used
                         </p>
+                        {evaluation.period !== 'month' && (
+                          <p className={cn('text-xs', getPaceColorClass(evaluation.pace.status))}>
+                            {formatBudgetPace(evaluation.period, evaluation.pace)}
+                          </p>
+                        )}
                       </td>
                       <td className="px-4 py-3 text-center">
                         <span
@@ -319,7 +408,7 @@ export const BudgetContent = () => {
                         {isEditing ? (
                           <div className="flex justify-end gap-1">
                             <button
-                              onClick={() => saveEdit(evaluation.budget.categoryId)}
+                              onClick={() => saveEdit(evaluation)}
                               className="p-1 text-success-600 hover:bg-success-50 dark:hover:bg-success-900/30 rounded"
                             >
                               <Save className="h-4 w-4" />
@@ -356,6 +445,9 @@ export const BudgetContent = () => {
               </tbody>
             </table>
           </div>
+
+          {/* Installment Plans */}
+          <InstallmentPlansCard currentMonth={currentMonth} />
         </>
       )}
 
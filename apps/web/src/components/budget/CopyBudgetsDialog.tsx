@@ -88,6 +88,9 @@ export function CopyBudgetsDialog({ isOpen, onClose, fromMonth, toMonth }: CopyB
                         <span className="text-sm text-gray-700 dark:text-gray-300">
                           {budget.categoryName}
                         </span>
+                        {budget.rollover && (
+                          <span className="badge badge-gray text-xs">Rollover</span>
+                        )}
                       </div>
                       <span className="text-sm font-medium text-gray-900 dark:text-white">
                         {formatCurrency(budget.plannedAmount)}
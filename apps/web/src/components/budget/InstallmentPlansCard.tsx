@@ -0,0 +1,107 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { CreditCard, Link2 } from 'lucide-react';
+
+interface InstallmentPlansCardProps {
+  currentMonth: string;
+}
+
+export function InstallmentPlansCard({ currentMonth }: InstallmentPlansCardProps) {
+  const utils = trpc.useUtils();
+  const { data } = trpc.installments.list.useQuery();
+  const { data: projection = [] } = trpc.installments.projection.useQuery({
+    fromMonth: currentMonth,
+    months: 3,
+  });
+
+  const linkMutation = trpc.installments.linkExisting.useMutation({
+    onSuccess: (result) => {
+      utils.installments.invalidate();
+      utils.budgets.forMonth.invalidate(currentMonth);
+      alert(
+        `Linked ${result.transactionsLinked} payments into ${result.plansCreated} installment plans`
+      );
+    },
+    onError: (error) => {
+      alert(`Error: ${error.message}`);
+    },
+  });
+
+  const plans = data?.plans ?? [];
+
+  return (
+    <div className="card">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-start gap-3">
+          <div className="p-2 bg-primary-100 dark:bg-primary-900/30 rounded-lg">
+            <CreditCard className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Installments</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {data?.activeCount ?? 0} active plans ·{' '}
+              {formatCurrency(data?.remainingLiability ?? 0)} still owed
+            </p>
+          </div>
+        </div>
+        <button
+          onClick={() => linkMutation.mutate()}
+          disabled={linkMutation.isPending}
+          className="btn-secondary btn-sm"
+          title="Group older payments by their installment note"
+        >
+          <Link2 className="h-4 w-4" />
+          {linkMutation.isPending ? 'Linking...' : 'Link Older Payments'}
+        </button>
+      </div>
+
+      {/* Upcoming months */}
+      {projection.length > 0 && (
+        <div className="grid grid-cols-3 gap-3 mb-4">
+          {projection.map((month) => (
+            <div key={month.month} className="rounded-lg bg-gray-50 dark:bg-gray-800 p-3">
+              <p className="text-xs text-gray-500 dark:text-gray-400">{month.month}</p>
+              <p className="font-semibold text-gray-900 dark:text-white">
+                {formatCurrency(month.total)}
+              </p>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {month.charges.length} payments due
+              </p>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {/* Active plans */}
+      {plans.length > 0 ? (
+        <div className="divide-y divide-gray-100 dark:divide-gray-700">
+          {plans.map((plan) => (
+            <div key={plan.id} className="flex items-center justify-between py-2 text-sm">
+              <div className="min-w-0">
+                <p className="font-medium text-gray-900 dark:text-white truncate">
+                  {plan.category?.icon ?? '💳'} {plan.description}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {plan.account.name} · payment {plan.paidCount}/{plan.totalPayments}
+                  {plan.nextPaymentDate && ` · next ${formatDate(plan.nextPaymentDate)}`}
+                </p>
+              </div>
+              <div className="text-right">
+                <p className="font-medium text-gray-900 dark:text-white">
+                  {formatCurrency(plan.remainingAmount)}
+                </p>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  {plan.remainingCount} × {formatCurrency(plan.paymentAmount)}
+                </p>
+              </div>
+            </div>
+          ))}
+        </div>
+      ) : (
+        <p className="text-sm text-gray-500 dark:text-gray-400">No open installment plans</p>
+      )}
+    </div>
+  );
+}
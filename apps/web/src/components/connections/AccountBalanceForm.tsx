@@ -0,0 +1,122 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { formatCurrency, formatDate } from '@/lib/utils';
+import { Loader2 } from 'lucide-react';
+import { useState } from 'react';
+
+interface AccountBalanceFormProps {
+  accountId: string;
+  currency: string;
+  balance: number;
+  lastSyncedAt: Date | string | null;
+}
+
+const today = () => new Date().toISOString().slice(0, 10);
+
+/**
+ * An account's current balance, and a form to record one by hand
+ * For accounts no bank connection reports, like cash, pension or investments; a past
+ * date fills in the net worth history
+ */
+export function AccountBalanceForm({
+  accountId,
+  currency,
+  balance,
+  lastSyncedAt,
+}: AccountBalanceFormProps) {
+  const [isEditing, setIsEditing] = useState(false);
+  const [amount, setAmount] = useState('');
+  const [date, setDate] = useState(today);
+  const utils = trpc.useUtils();
+
+  const addSnapshotMutation = trpc.accounts.addBalanceSnapshot.useMutation({
+    onSuccess: () => {
+      utils.accounts.list.invalidate();
+      utils.dashboard.accountsSummary.invalidate();
+      utils.dashboard.netWorth.invalidate();
+      setIsEditing(false);
+      setAmount('');
+      setDate(today());
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    addSnapshotMutation.mutate({
+      accountId,
+      balance: Number(amount),
+      // Noon, so the day stays the same in any timezone
+      date: new Date(`${date}T12:00:00`),
+    });
+  };
+
+  if (!isEditing) {
+    return (
+      <div className="flex items-center justify-between gap-2 mt-2 text-sm">
+        <div className="min-w-0">
+          <span className="font-medium text-gray-900 dark:text-white">
+            {formatCurrency(balance, currency)}
+          </span>
+          {lastSyncedAt && (
+            <span className="text-xs text-gray-400 dark:text-gray-500 ml-1.5">
+              synced {formatDate(lastSyncedAt)}
+            </span>
+          )}
+        </div>
+        <button
+          onClick={() => setIsEditing(true)}
+          className="text-xs text-primary-600 hover:text-primary-700 dark:text-primary-400"
+        >
+          Update balance
+        </button>
+      </div>
+    );
+  }
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-2 space-y-2">
+      <div className="flex gap-2">
+        <input
+          type="number"
+          step="0.01"
+          value={amount}
+          onChange={(e) => setAmount(e.target.value)}
+          placeholder={`Balance (${currency})`}
+          className="input py-1 text-sm flex-1 min-w-0"
+          required
+        />
+        <input
+          type="date"
+          value={date}
+          max={today()}
+          onChange={(e) => setDate(e.target.value)}
+          className="input py-1 text-sm w-36"
+          required
+        />
+      </div>
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={addSnapshotMutation.isPending}
+          className="btn btn-sm btn-primary"
+        >
+          {addSnapshotMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Save
+        </button>
+        <button
+          type="button"
+          onClick={() => setIsEditing(false)}
+          className="btn btn-sm btn-outline"
+        >
+          Cancel
+        </button>
+      </div>
+      {addSnapshotMutation.error && (
+        <p className="text-xs text-error-600 dark:text-error-400">
+          {addSnapshotMutation.error.message}
+        </p>
+      )}
+    </form>
+  );
+}
@@ -1,7 +1,13 @@
 'use client';
 
+import { AccountBalanceForm } from '@/components/connections/AccountBalanceForm';
+import { SyncErrorNotice } from '@/components/connections/SyncErrorNotice';
+import { SyncJobProgress } from '@/components/connections/SyncJobProgress';
+import { UpdateCredentialsForm } from '@/components/connections/UpdateCredentialsForm';
 import { trpc } from '@/lib/trpc/client';
+import { isActiveSyncJob, useSyncJobs } from '@/lib/useSyncJobs';
 import { cn, formatDate } from '@/lib/utils';
+import type { BankProvider } from '@sfam/scraper';
 import {
   Banknote,
   Building2,
@@ -19,30 +25,24 @@ import {
 } from 'lucide-react';
 import { useState } from 'react';
 
-type Provider = 'onezero' | 'isracard';
 type AccountType = 'checking' | 'savings' | 'credit' | 'cash';
 
 interface AddConnectionForm {
-  provider: Provider;
+  provider: BankProvider | '';
   displayName: string;
-  // OneZero fields
-  email?: string;
-  password?: string;
-  phoneNumber?: string;
-  // Isracard fields
-  id?: string;
-  card6Digits?: string;
+  // Keyed by the provider's credential field names
+  credentials: Record<string, string>;
 }
 
+const EMPTY_FORM: AddConnectionForm = { provider: '', displayName: '', credentials: {} };
+
 export function ConnectionsContent() {
   const [showAddForm, setShowAddForm] = useState(false);
   const [twoFactorConnectionId, setTwoFactorConnectionId] = useState<string | null>(null);
   const [twoFactorSessionId, setTwoFactorSessionId] = useState<string | null>(null);
   const [otpCode, setOtpCode] = useState('');
-  const [formData, setFormData] = useState<AddConnectionForm>({
-    provider: 'isracard',
-    displayName: '',
-  });
+  const [credentialsConnectionId, setCredentialsConnectionId] = useState<string | null>(null);
+  const [formData, setFormData] = useState<AddConnectionForm>(EMPTY_FORM);
 
   const utils = trpc.useUtils();
 
@@ -50,6 +50,11 @@ export function ConnectionsContent() {
   const { data: connections, isLoading } = trpc.bankConnections.list.useQuery();
   const { data: providers } = trpc.bankConnections.providers.useQuery();
   const { data: accounts } = trpc.accounts.list.useQuery();
+  const { jobByConnection, refresh: refreshSyncJobs } = useSyncJobs();
+
+  // The form follows the selected provider's metadata
+  const selectedProvider =
+    providers?.find((p) => p.id === formData.provider) ?? providers?.[0] ?? null;
 
   // Mutations
   const createMutation = trpc.bankConnections.create.useMutation({
@@ -71,16 +76,13 @@ export function ConnectionsContent() {
     },
   });
 
+  // Syncs run in the background; the queued jobs are polled for progress
   const syncMutation = trpc.bankConnections.syncNow.useMutation({
-    onSuccess: () => {
-      utils.bankConnections.list.invalidate();
-    },
+    onSuccess: refreshSyncJobs,
   });
 
   const syncAllMutation = trpc.bankConnections.syncAll.useMutation({
-    onSuccess: () => {
-      utils.bankConnections.list.invalidate();
-    },
+    onSuccess: refreshSyncJobs,
   });
 
   const initTwoFactorMutation = trpc.bankConnections.initTwoFactor.useMutation({
@@ -111,37 +113,33 @@ export function ConnectionsContent() {
   });
 
   const resetForm = () => {
-    setFormData({
-      provider: 'isracard',
-      displayName: '',
-    });
+    setFormData(EMPTY_FORM);
     setTwoFactorSessionId(null);
   };
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault();
+    if (!selectedProvider) return;
+
+    // Only send the fields of the selected provider
+    const credentials = Object.fromEntries(
+      selectedProvider.credentialFields.map((field) => [
+        field.name,
+        formData.credentials[field.name] ?? '',
+      ])
+    );
 
-    if (formData.provider === 'onezero') {
-      createMutation.mutate({
-        provider: 'onezero',
-        displayName: formData.displayName,
-        credentials: {
-          email: formData.email!,
-          password: formData.password!,
-          phoneNumber: formData.phoneNumber!,
-        },
-      });
-    } else {
-      createMutation.mutate({
-        provider: 'isracard',
-        displayName: formData.displayName,
-        credentials: {
-          id: formData.id!,
-          card6Digits: formData.card6Digits!,
-          password: formData.password!,
-        },
-      });
-    }
+    createMutation.mutate({
+      provider: selectedProvider.id,
+      displayName: formData.displayName,
+      credentials,
+    });
+  };
+
+  const handleReauthenticate = (connectionId: string) => {
+    setTwoFactorConnectionId(connectionId);
+    setShowAddForm(true);
+    initTwoFactorMutation.mutate({ connectionId });
   };
 
   const handleCompleteTwoFactor = () => {
@@ -173,7 +171,7 @@ export function ConnectionsContent() {
   const getStatusLabel = (status: string | null) => {
     switch (status) {
       case 'auth_required':
-        return 'Re-auth required';
+        return 'Action required';
       case 'success':
         return 'Success';
       case 'error':
@@ -185,11 +183,9 @@ export function ConnectionsContent() {
     }
   };
 
-  const getProviderIcon = (provider: string) => {
-    switch (provider) {
-      case 'onezero':
-        return <Building2 className="h-5 w-5" />;
-      case 'isracard':
+  const getProviderIcon = (kind: string) => {
+    switch (kind) {
+      case 'credit_card':
         return <CreditCard className="h-5 w-5" />;
       default:
         return <Building2 className="h-5 w-5" />;
@@ -359,9 +355,13 @@ export function ConnectionsContent() {
                     Provider
                   </label>
                   <select
-                    value={formData.provider}
+                    value={selectedProvider?.id ?? ''}
                     onChange={(e) =>
-                      setFormData({ ...formData, provider: e.target.value as Provider })
+                      setFormData({
+                        ...formData,
+                        provider: e.target.value as BankProvider,
+                        credentials: {},
+                      })
                     }
                     className="input"
                   >
@@ -381,106 +381,46 @@ export function ConnectionsContent() {
                     type="text"
                     value={formData.displayName}
                     onChange={(e) => setFormData({ ...formData, displayName: e.target.value })}
-                    placeholder="e.g., My OneZero Account"
+                    placeholder={`e.g., My ${selectedProvider?.name ?? 'Bank'} Account`}
                     className="input"
                     required
                   />
                 </div>
               </div>
 
-              {formData.provider === 'onezero' ? (
-                // OneZero credentials
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                  <div>
+              {/* Credentials, rendered from the provider's metadata */}
+              <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
+                {selectedProvider?.credentialFields.map((field) => (
+                  <div key={field.name}>
                     <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
-                      Email
+                      {field.label}
                     </label>
                     <input
-                      type="email"
-                      value={formData.email || ''}
-                      onChange={(e) => setFormData({ ...formData, email: e.target.value })}
-                      className="input"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
-                      Password
-                    </label>
-                    <input
-                      type="password"
-                      value={formData.password || ''}
-                      onChange={(e) => setFormData({ ...formData, password: e.target.value })}
-                      className="input"
-                      required
-                    />
-                  </div>
-                  <div className="sm:col-span-2 lg:col-span-1">
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
-                      Phone Number
-                    </label>
-                    <input
-                      type="tel"
-                      value={formData.phoneNumber || ''}
-                      onChange={(e) => setFormData({ ...formData, phoneNumber: e.target.value })}
-                      placeholder="+972501234567"
-                      className="input"
-                      required
-                    />
-                    <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
-                      International format or local (0501234567)
-                    </p>
-                  </div>
-                </div>
-              ) : (
-                // Isracard credentials
-                <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-4">
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
-                      ID Number
-                    </label>
-                    <input
-                      type="text"
-                      value={formData.id || ''}
-                      onChange={(e) => setFormData({ ...formData, id: e.target.value })}
-                      placeholder="123456789"
-                      className="input"
-                      required
-                    />
-                  </div>
-                  <div>
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
-                      Last 6 Digits of Card
-                    </label>
-                    <input
-                      type="text"
-                      value={formData.card6Digits || ''}
-                      onChange={(e) => setFormData({ ...formData, card6Digits: e.target.value })}
-                      placeholder="123456"
-                      maxLength={6}
-                      className="input"
-                      required
-                    />
-                  </div>
-                  <div className="sm:col-span-2 lg:col-span-1">
-                    <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
-                      Password
-                    </label>
-                    <input
-                      type="password"
-                      value={formData.password || ''}
-                      onChange={(e) => setFormData({ ...formData, password: e.target.value })}
+                      type={field.type}
+                      value={formData.credentials[field.name] ?? ''}
+                      onChange={(e) =>
+                        setFormData({
+                          ...formData,
+                          credentials: { ...formData.credentials, [field.name]: e.target.value },
+                        })
+                      }
+                      placeholder={field.placeholder}
+                      maxLength={field.maxLength}
+                      autoComplete={field.type === 'password' ? 'new-password' : 'off'}
                       className="input"
                       required
                     />
+                    {field.hint && (
+                      <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">{field.hint}</p>
+                    )}
                   </div>
-                </div>
-              )}
+                ))}
+              </div>
 
-              {formData.provider === 'onezero' && (
+              {selectedProvider?.requiresTwoFactor && (
                 <div className="bg-warning-50 dark:bg-warning-900/30 text-warning-700 dark:text-warning-300 p-3 rounded-lg text-sm">
-                  <strong>Note:</strong> OneZero requires 2FA setup. After adding, you'll receive an
-                  OTP code via SMS to complete the connection.
+                  <strong>Note:</strong> {selectedProvider.name} requires 2FA setup. After adding,
+                  you'll receive an OTP code via SMS to complete the connection.
                 </div>
               )}
 
@@ -517,122 +457,146 @@ export function ConnectionsContent() {
 
       {/* Connections List */}
       <div className="space-y-3">
-        {connections?.map((connection) => (
-          <div key={connection.id} className="card">
-            <div className="flex items-start gap-3">
-              {/* Icon */}
-              <div
-                className={cn(
-                  'flex h-10 w-10 sm:h-12 sm:w-12 items-center justify-center rounded-lg flex-shrink-0',
-                  connection.isActive
-                    ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-600 dark:text-primary-400'
-                    : 'bg-gray-100 dark:bg-gray-700 text-gray-400'
-                )}
-              >
-                {getProviderIcon(connection.provider)}
-              </div>
-
-              {/* Content */}
-              <div className="flex-1 min-w-0">
-                <div className="flex items-start justify-between gap-2">
-                  <div className="min-w-0">
-                    <p className="font-medium text-gray-900 dark:text-white truncate">
-                      {connection.displayName}
-                    </p>
-                    <p className="text-xs text-gray-500 dark:text-gray-400">
-                      {connection.providerDisplayName}
-                    </p>
-                  </div>
-                  {connection.requiresTwoFactor && !connection.isActive && (
-                    <span className="badge badge-warning text-xs flex-shrink-0">2FA Required</span>
+        {connections?.map((connection) => {
+          const job = jobByConnection.get(connection.id);
+          const activeJob = job && isActiveSyncJob(job) ? job : undefined;
+          const isSyncing =
+            !!activeJob ||
+            (syncMutation.isPending && syncMutation.variables?.connectionId === connection.id);
+
+          return (
+            <div key={connection.id} className="card">
+              <div className="flex items-start gap-3">
+                {/* Icon */}
+                <div
+                  className={cn(
+                    'flex h-10 w-10 sm:h-12 sm:w-12 items-center justify-center rounded-lg flex-shrink-0',
+                    connection.isActive
+                      ? 'bg-primary-100 dark:bg-primary-900/40 text-primary-600 dark:text-primary-400'
+                      : 'bg-gray-100 dark:bg-gray-700 text-gray-400'
                   )}
+                >
+                  {getProviderIcon(connection.providerKind)}
                 </div>
 
-                {/* Status Row */}
-                <div className="flex items-center gap-4 mt-2 text-sm">
-                  <div className="flex items-center gap-1.5">
-                    {getStatusIcon(connection.lastSyncStatus)}
-                    <span
-                      className={cn(
-                        connection.lastSyncStatus === 'success' &&
-                          'text-success-600 dark:text-success-400',
-                        connection.lastSyncStatus === 'error' &&
-                          'text-error-600 dark:text-error-400',
-                        connection.lastSyncStatus === 'auth_required' &&
-                          'text-warning-600 dark:text-warning-400',
-                        !connection.lastSyncStatus && 'text-gray-400 dark:text-gray-500'
-                      )}
-                    >
-                      {getStatusLabel(connection.lastSyncStatus)}
+                {/* Content */}
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <p className="font-medium text-gray-900 dark:text-white truncate">
+                        {connection.displayName}
+                      </p>
+                      <p className="text-xs text-gray-500 dark:text-gray-400">
+                        {connection.providerDisplayName}
+                      </p>
+                    </div>
+                    {!connection.isActive &&
+                      (connection.lastSyncErrorType === 'INVALID_CREDENTIALS' ? (
+                        <span className="badge badge-warning text-xs flex-shrink-0">
+                          Sync paused
+                        </span>
+                      ) : (
+                        connection.requiresTwoFactor && (
+                          <span className="badge badge-warning text-xs flex-shrink-0">
+                            2FA Required
+                          </span>
+                        )
+                      ))}
+                  </div>
+
+                  {/* Status Row */}
+                  <div className="flex items-center gap-4 mt-2 text-sm">
+                    <div className="flex items-center gap-1.5">
+                      {getStatusIcon(connection.lastSyncStatus)}
+                      <span
+                        className={cn(
+                          connection.lastSyncStatus === 'success' &&
+                            'text-success-600 dark:text-success-400',
+                          connection.lastSyncStatus === 'error' &&
+                            'text-error-600 dark:text-error-400',
+                          connection.lastSyncStatus === 'auth_required' &&
+                            'text-warning-600 dark:text-warning-400',
+                          !connection.lastSyncStatus && 'text-gray-400 dark:text-gray-500'
+                        )}
+                      >
+                        {getStatusLabel(connection.lastSyncStatus)}
+                      </span>
+                    </div>
+                    <span className="text-gray-400 dark:text-gray-500 hidden sm:inline">•</span>
+                    <span className="text-gray-500 dark:text-gray-400 hidden sm:inline">
+                      {connection.lastSyncAt
+                        ? `Synced ${formatDate(connection.lastSyncAt)}`
+                        : 'Never synced'}
                     </span>
                   </div>
-                  <span className="text-gray-400 dark:text-gray-500 hidden sm:inline">•</span>
-                  <span className="text-gray-500 dark:text-gray-400 hidden sm:inline">
-                    {connection.lastSyncAt
-                      ? `Synced ${formatDate(connection.lastSyncAt)}`
-                      : 'Never synced'}
-                  </span>
-                </div>
+                  {activeJob && <SyncJobProgress job={activeJob} />}
+                  {!activeJob &&
+                    connection.lastSyncErrorType &&
+                    credentialsConnectionId !== connection.id && (
+                      <SyncErrorNotice
+                        errorType={connection.lastSyncErrorType}
+                        failedLoginCount={connection.failedLoginCount}
+                        isActive={connection.isActive}
+                        requiresTwoFactor={connection.requiresTwoFactor}
+                        onReauthenticate={() => handleReauthenticate(connection.id)}
+                        onUpdateCredentials={() => setCredentialsConnectionId(connection.id)}
+                        onRetry={() => syncMutation.mutate({ connectionId: connection.id })}
+                      />
+                    )}
+                  {credentialsConnectionId === connection.id && (
+                    <UpdateCredentialsForm
+                      connectionId={connection.id}
+                      fields={
+                        providers?.find((p) => p.id === connection.provider)?.credentialFields ?? []
+                      }
+                      onDone={() => setCredentialsConnectionId(null)}
+                    />
+                  )}
 
-                {/* Actions */}
-                <div className="flex items-center gap-2 mt-3 flex-wrap">
-                  {connection.lastSyncStatus === 'auth_required' &&
-                    connection.requiresTwoFactor && (
+                  {/* Actions */}
+                  <div className="flex items-center gap-2 mt-3 flex-wrap">
+                    {connection.isActive && connection.lastSyncStatus !== 'auth_required' && (
                       <button
-                        onClick={() => {
-                          setTwoFactorConnectionId(connection.id);
-                          setShowAddForm(true);
-                          initTwoFactorMutation.mutate({ connectionId: connection.id });
-                        }}
-                        className="btn btn-sm btn-warning"
+                        onClick={() => syncMutation.mutate({ connectionId: connection.id })}
+                        disabled={isSyncing}
+                        className="btn btn-sm btn-outline"
                       >
-                        <KeyRound className="h-4 w-4 sm:mr-1" />
-                        <span className="hidden sm:inline">Re-auth</span>
+                        {isSyncing ? (
+                          <Loader2 className="h-4 w-4 animate-spin" />
+                        ) : (
+                          <RefreshCw className="h-4 w-4 sm:mr-1" />
+                        )}
+                        <span className="hidden sm:inline">Sync</span>
                       </button>
                     )}
-                  {connection.isActive && connection.lastSyncStatus !== 'auth_required' && (
-                    <button
-                      onClick={() => syncMutation.mutate({ connectionId: connection.id })}
-                      disabled={syncMutation.isPending}
-                      className="btn btn-sm btn-outline"
-                    >
-                      {syncMutation.isPending ? (
-                        <Loader2 className="h-4 w-4 animate-spin" />
-                      ) : (
-                        <RefreshCw className="h-4 w-4 sm:mr-1" />
+                    {!connection.isActive &&
+                      connection.requiresTwoFactor &&
+                      !connection.lastSyncErrorType && (
+                        <button
+                          onClick={() => handleReauthenticate(connection.id)}
+                          className="btn btn-sm btn-primary"
+                        >
+                          <KeyRound className="h-4 w-4 sm:mr-1" />
+                          <span className="hidden sm:inline">Setup 2FA</span>
+                        </button>
                       )}
-                      <span className="hidden sm:inline">Sync</span>
-                    </button>
-                  )}
-                  {!connection.isActive && connection.requiresTwoFactor && (
                     <button
                       onClick={() => {
-                        setTwoFactorConnectionId(connection.id);
-                        setShowAddForm(true);
-                        initTwoFactorMutation.mutate({ connectionId: connection.id });
+                        if (confirm('Delete this connection?')) {
+                          deleteMutation.mutate(connection.id);
+                        }
                       }}
-                      className="btn btn-sm btn-primary"
+                      disabled={deleteMutation.isPending}
+                      className="btn btn-sm btn-outline text-error-600 dark:text-error-400 hover:bg-error-50 dark:hover:bg-error-900/30"
                     >
-                      <KeyRound className="h-4 w-4 sm:mr-1" />
-                      <span className="hidden sm:inline">Setup 2FA</span>
+                      <Trash2 className="h-4 w-4" />
                     </button>
-                  )}
-                  <button
-                    onClick={() => {
-                      if (confirm('Delete this connection?')) {
-                        deleteMutation.mutate(connection.id);
-                      }
-                    }}
-                    disabled={deleteMutation.isPending}
-                    className="btn btn-sm btn-outline text-error-600 dark:text-error-400 hover:bg-error-50 dark:hover:bg-error-900/30"
-                  >
-                    <Trash2 className="h-4 w-4" />
-                  </button>
+                  </div>
                 </div>
               </div>
             </div>
-          </div>
-        ))}
+          );
+        })}
 
         {(!connections || connections.length === 0) && (
           <div className="card py-12 text-center text-gray-500">
@@ -654,7 +618,7 @@ export function ConnectionsContent() {
           <div>
             <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Accounts</h2>
             <p className="text-sm text-gray-500 dark:text-gray-400">
-              Manage account types for correct dashboard calculations
+              Manage account types and balances for correct dashboard and net worth figures
             </p>
           </div>
 
@@ -695,6 +659,12 @@ export function ConnectionsContent() {
                         {account.currency}
                       </span>
                     </div>
+                    <AccountBalanceForm
+                      accountId={account.id}
+                      currency={account.currency}
+                      balance={account.balance}
+                      lastSyncedAt={account.lastSyncedAt}
+                    />
                   </div>
                 </div>
               </div>
@@ -708,10 +678,7 @@ export function ConnectionsContent() {
         <div className="fixed bottom-4 left-4 right-4 sm:left-auto sm:right-4 sm:max-w-sm bg-success-50 dark:bg-success-900/90 text-success-700 dark:text-success-200 px-4 py-3 rounded-lg shadow-lg animate-in border border-success-200 dark:border-success-800 z-50">
           <div className="flex items-center gap-2">
             <CheckCircle className="h-5 w-5 flex-shrink-0" />
-            <span className="text-sm">
-              Sync complete! {syncMutation.data.transactionsFound} found,{' '}
-              {syncMutation.data.transactionsNew} new.
-            </span>
+            <span className="text-sm">Sync queued. Progress shows on the connection.</span>
           </div>
         </div>
       )}
@@ -732,25 +699,6 @@ export function ConnectionsContent() {
             <CheckCircle className="h-5 w-5 flex-shrink-0 mt-0.5" />
             <div className="min-w-0">
               <p className="font-medium text-sm">{syncAllMutation.data.message}</p>
-              <p className="text-xs">
-                {syncAllMutation.data.totalTransactionsFound} found,{' '}
-                {syncAllMutation.data.totalTransactionsNew} new.
-              </p>
-              {syncAllMutation.data.results.some((r) => !r.success) && (
-                <div className="mt-2 text-xs text-error-600 dark:text-error-300">
-                  <p className="font-medium">Failed:</p>
-                  <ul className="list-disc list-inside">
-                    {syncAllMutation.data.results
-                      .filter((r) => !r.success)
-                      .slice(0, 2)
-                      .map((r) => (
-                        <li key={r.connectionId} className="truncate">
-                          {r.displayName}
-                        </li>
-                      ))}
-                  </ul>
-                </div>
-              )}
             </div>
           </div>
         </div>
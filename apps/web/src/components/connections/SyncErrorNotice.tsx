@@ -0,0 +1,93 @@
+'use client';
+
+import { cn, getSyncErrorLabel } from '@/lib/utils';
+import { AlertTriangle, KeyRound, RefreshCw, ShieldAlert } from 'lucide-react';
+
+interface SyncErrorNoticeProps {
+  errorType: string; // SyncErrorType
+  failedLoginCount: number;
+  isActive: boolean;
+  requiresTwoFactor: boolean;
+  onReauthenticate: () => void;
+  onUpdateCredentials: () => void;
+  onRetry: () => void;
+}
+
+/**
+ * Why a connection's last sync failed and how to recover
+ * Each error class gets its own fix: new credentials, 2FA again, a trip to the bank, or
+ * nothing but waiting for the next sync
+ */
+export function SyncErrorNotice({
+  errorType,
+  failedLoginCount,
+  isActive,
+  requiresTwoFactor,
+  onReauthenticate,
+  onUpdateCredentials,
+  onRetry,
+}: SyncErrorNoticeProps) {
+  const isLoginError = errorType !== 'TIMEOUT' && errorType !== 'GENERIC';
+
+  let description: string;
+  let action: { label: string; icon: typeof KeyRound; onClick: () => void } | null = null;
+  switch (errorType) {
+    case 'INVALID_CREDENTIALS':
+      description = isActive
+        ? "The bank rejected the saved credentials. Update them before the next sync; repeated rejected logins pause syncing so the bank doesn't block the account."
+        : `Syncing is paused after ${failedLoginCount} rejected logins, so the bank doesn't block the account. Check that you can log in on the bank's site, then update the credentials here.`;
+      action = { label: 'Update credentials', icon: KeyRound, onClick: onUpdateCredentials };
+      break;
+    case 'TOKEN_EXPIRED':
+      description = requiresTwoFactor
+        ? 'The bank asks for 2FA again. Verify with a new SMS code to resume syncing.'
+        : 'The bank ended the session. Save the credentials again to resume syncing.';
+      action = requiresTwoFactor
+        ? { label: 'Re-authenticate', icon: KeyRound, onClick: onReauthenticate }
+        : { label: 'Update credentials', icon: KeyRound, onClick: onUpdateCredentials };
+      break;
+    case 'ACCOUNT_BLOCKED':
+      description =
+        "The bank blocked online access to the account. Unblock it with the bank, then try again. Automatic syncs won't log in until then.";
+      action = { label: 'Try again', icon: RefreshCw, onClick: onRetry };
+      break;
+    case 'CHANGE_PASSWORD':
+      description =
+        "The bank requires a new password. Change it on the bank's site, then save the new one here.";
+      action = { label: 'Update credentials', icon: KeyRound, onClick: onUpdateCredentials };
+      break;
+    case 'TIMEOUT':
+      description = "The bank's site didn't respond in time. The next sync usually works.";
+      break;
+    default:
+      description =
+        "Something went wrong while fetching from the bank. If it keeps failing, the bank's site may have changed.";
+  }
+
+  const Icon = isLoginError ? ShieldAlert : AlertTriangle;
+
+  return (
+    <div
+      className={cn(
+        'mt-3 p-3 rounded-lg text-sm',
+        isLoginError
+          ? 'bg-warning-50 dark:bg-warning-900/30 text-warning-700 dark:text-warning-300'
+          : 'bg-gray-50 dark:bg-gray-700/50 text-gray-600 dark:text-gray-300'
+      )}
+    >
+      <div className="flex items-start gap-2">
+        <Icon className="h-4 w-4 flex-shrink-0 mt-0.5" />
+        <div className="min-w-0 flex-1">
+          <p className="font-medium">{getSyncErrorLabel(errorType)}</p>
+          <p className="text-xs mt-0.5">{description}</p>
+          {action && (
+            <button onClick={action.onClick} className="btn btn-sm btn-warning mt-2">
+              <action.icon className="h-4 w-4 mr-1" />
+              {action.label}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,65 @@
+'use client';
+
+import { getSyncJobStepLabel } from '@/lib/utils';
+import type { RouterOutputs } from '@sfam/api';
+import { Clock, Loader2, RotateCw } from 'lucide-react';
+
+type SyncJob = RouterOutputs['bankConnections']['syncJobs'][number];
+
+interface SyncJobProgressProps {
+  job: SyncJob;
+}
+
+const formatTime = (date: Date | string) =>
+  new Date(date).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit' });
+
+/**
+ * Progress of a connection's queued, running or retrying sync job
+ */
+export function SyncJobProgress({ job }: SyncJobProgressProps) {
+  if (job.status === 'queued') {
+    return (
+      <div className="flex items-center gap-1.5 mt-2 text-sm text-gray-500 dark:text-gray-400">
+        <Clock className="h-4 w-4" />
+        <span>Queued for sync</span>
+      </div>
+    );
+  }
+
+  if (job.status === 'retrying') {
+    return (
+      <div className="mt-2 text-sm text-warning-600 dark:text-warning-400">
+        <div className="flex items-center gap-1.5">
+          <RotateCw className="h-4 w-4" />
+          <span>
+            Retrying at {formatTime(job.runAfter)} (attempt {job.attempts + 1} of {job.maxAttempts})
+          </span>
+        </div>
+        {job.errorMessage && (
+          <p className="text-xs text-gray-500 dark:text-gray-400 truncate mt-0.5">
+            {job.errorMessage}
+          </p>
+        )}
+      </div>
+    );
+  }
+
+  return (
+    <div className="mt-2">
+      <div className="flex items-center gap-1.5 text-sm text-primary-600 dark:text-primary-400">
+        <Loader2 className="h-4 w-4 animate-spin" />
+        <span>
+          {getSyncJobStepLabel(job.progress.step)}
+          {job.progress.stepNumber > 0 &&
+            ` (${job.progress.stepNumber}/${job.progress.totalSteps})`}
+        </span>
+      </div>
+      <div className="h-1.5 mt-1.5 rounded-full bg-gray-100 dark:bg-gray-700 overflow-hidden">
+        <div
+          className="h-full rounded-full bg-primary-500 transition-all"
+          style={{ width: `${job.progress.percent}%` }}
+        />
+      </div>
+    </div>
+  );
+}
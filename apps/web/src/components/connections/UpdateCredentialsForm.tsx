@@ -0,0 +1,83 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import type { CredentialField } from '@sfam/scraper';
+import { Loader2 } from 'lucide-react';
+import { useState } from 'react';
+
+interface UpdateCredentialsFormProps {
+  connectionId: string;
+  fields: CredentialField[];
+  onDone: () => void;
+}
+
+/**
+ * Replace a connection's saved credentials, with the fields of its provider
+ */
+export function UpdateCredentialsForm({
+  connectionId,
+  fields,
+  onDone,
+}: UpdateCredentialsFormProps) {
+  const [credentials, setCredentials] = useState<Record<string, string>>({});
+  const utils = trpc.useUtils();
+
+  const updateMutation = trpc.bankConnections.updateCredentials.useMutation({
+    onSuccess: () => {
+      utils.bankConnections.list.invalidate();
+      onDone();
+    },
+  });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    updateMutation.mutate({
+      connectionId,
+      credentials: Object.fromEntries(
+        fields.map((field) => [field.name, credentials[field.name] ?? ''])
+      ),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="mt-3 space-y-3">
+      <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+        {fields.map((field) => (
+          <div key={field.name}>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              {field.label}
+            </label>
+            <input
+              type={field.type}
+              value={credentials[field.name] ?? ''}
+              onChange={(e) => setCredentials({ ...credentials, [field.name]: e.target.value })}
+              placeholder={field.placeholder}
+              maxLength={field.maxLength}
+              autoComplete={field.type === 'password' ? 'new-password' : 'off'}
+              className="input"
+              required
+            />
+          </div>
+        ))}
+      </div>
+
+      <div className="flex gap-2">
+        <button
+          type="submit"
+          disabled={updateMutation.isPending}
+          className="btn btn-sm btn-primary"
+        >
+          {updateMutation.isPending && <Loader2 className="h-4 w-4 mr-1 animate-spin" />}
+          Save credentials
+        </button>
+        <button type="button" onClick={onDone} className="btn btn-sm btn-outline">
+          Cancel
+        </button>
+      </div>
+
+      {updateMutation.error && (
+        <p className="text-sm text-error-600 dark:text-error-400">{updateMutation.error.message}</p>
+      )}
+    </form>
+  );
+}
@@ -3,10 +3,12 @@
 import { MonthSelector } from '@/components/layout/MonthSelector';
 import { trpc } from '@/lib/trpc/client';
 import { useMonth } from '@/lib/useMonth';
+import { useSyncJobs } from '@/lib/useSyncJobs';
 import {
   cn,
   formatCurrency,
   formatDate,
+  formatOriginalTotals,
   formatPercent,
   getStatusBadgeClass,
   getStatusLabel,
@@ -26,8 +28,10 @@ import {
 } from 'lucide-react';
 import Link from 'next/link';
 import { useState } from 'react';
+import { GoalsCard } from './GoalsCard';
 import { InsightCard } from './InsightCard';
 import { LargestTransactionsList } from './LargestTransactionsList';
+import { NetWorthCard } from './NetWorthCard';
 import { TopMerchantsList } from './TopMerchantsList';
 
 type DashboardData = RouterOutputs['dashboard']['getFullDashboard'];
@@ -78,29 +82,15 @@ export const DashboardClient = ({
   initialInsights,
 }: DashboardClientProps) => {
   const { currentMonth } = useMonth();
-  const [isSyncing, setIsSyncing] = useState(false);
-  const utils = trpc.useUtils();
+  const [includePending, setIncludePending] = useState(true);
 
-  // Sync all bank connections
+  // Sync all bank connections; the jobs run in the background and the hook
+  // refreshes the dashboard when they finish
+  const syncJobs = useSyncJobs();
   const syncAllMutation = trpc.bankConnections.syncAll.useMutation({
-    onMutate: () => {
-      setIsSyncing(true);
-    },
-    onSuccess: (data) => {
-      // Invalidate and refetch dashboard data after sync
-      utils.dashboard.getFullDashboard.invalidate();
-      utils.dashboard.getExpenseInsights.invalidate();
-      utils.transactions.list.invalidate();
-
-      const newCount = data.results?.reduce((sum, r) => sum + (r.transactionsNew ?? 0), 0) ?? 0;
-      if (newCount > 0) {
-        console.log(`[Sync] Added ${newCount} new transactions`);
-      }
-    },
-    onSettled: () => {
-      setIsSyncing(false);
-    },
+    onSuccess: syncJobs.refresh,
   });
+  const isSyncing = syncAllMutation.isPending || syncJobs.isSyncing;
 
   const handleSyncNow = () => {
     if (!isSyncing) {
@@ -108,31 +98,38 @@ export const DashboardClient = ({
     }
   };
 
+  // Server data was fetched for the initial month with pending charges included
+  const isInitialQuery = currentMonth === initialMonth && includePending;
+
   // Only refetch if month changes from initial
   const { data: dashboardData } = trpc.dashboard.getFullDashboard.useQuery(
     {
       month: currentMonth,
       recentLimit: 5,
+      includePending,
     },
     {
-      initialData: currentMonth === initialMonth ? initialData : undefined,
-      // Only refetch when month changes
-      enabled: currentMonth !== initialMonth,
+      initialData: isInitialQuery ? initialData : undefined,
+      // Only refetch when month or pending toggle changes
+      enabled: !isInitialQuery,
     }
   );
 
   // Fetch expense insights
   const { data: insightsData } = trpc.dashboard.getExpenseInsights.useQuery(
-    { month: currentMonth },
+    { month: currentMonth, includePending },
     {
-      initialData: currentMonth === initialMonth ? initialInsights : undefined,
-      enabled: currentMonth !== initialMonth || !initialInsights,
+      initialData: isInitialQuery ? initialInsights : undefined,
+      enabled: !isInitialQuery || !initialInsights,
     }
   );
 
   const overview = dashboardData?.overview;
   const categoryBreakdown = dashboardData?.categoryBreakdown ?? [];
   const recentTransactions = dashboardData?.recentTransactions ?? [];
+  const baseCurrency = dashboardData?.baseCurrency ?? 'ILS';
+  const missingRates = dashboardData?.missingRates ?? [];
+  const pending = dashboardData?.pending ?? { included: includePending, count: 0, total: 0 };
 
   const kpis = overview?.kpis ?? {
     totalIncome: 0,
@@ -191,6 +188,18 @@ export const DashboardClient = ({
           </div>
         </div>
         <div className="flex items-center gap-3">
+          <label
+            className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400"
+            title="Card charges that have not settled yet"
+          >
+            <input
+              type="checkbox"
+              checked={includePending}
+              onChange={(e) => setIncludePending(e.target.checked)}
+              className="rounded w-3.5 h-3.5"
+            />
+            Include pending
+          </label>
           <Link href={`/transactions?month=${currentMonth}`} className="btn-secondary btn-sm">
             View All Transactions
           </Link>
@@ -198,36 +207,69 @@ export const DashboardClient = ({
         </div>
       </div>
 
+      {/* Missing exchange rates */}
+      {missingRates.length > 0 && (
+        <div className="card border-l-4 border-warning-500 bg-warning-50 dark:bg-warning-900/30 text-sm text-warning-800 dark:text-warning-300">
+          No exchange rate for {missingRates.join(', ')} - these amounts are shown unconverted.{' '}
+          <Link href="/settings" className="underline">
+            Load rates in Settings
+          </Link>
+        </div>
+      )}
+
+      {/* Pending card charges */}
+      {pending.count > 0 && (
+        <div className="card text-sm text-gray-600 dark:text-gray-400">
+          {pending.count} pending {pending.count === 1 ? 'charge' : 'charges'} (
+          {formatCurrency(pending.total, baseCurrency)}){' '}
+          {pending.included ? 'included in' : 'excluded from'} this month's totals
+        </div>
+      )}
+
       {/* KPI Cards */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
         <KPICard
           title="Income"
-          value={formatCurrency(kpis.totalIncome)}
+          value={formatCurrency(kpis.totalIncome, baseCurrency)}
           icon={<TrendingUp className="h-5 w-5 text-success-500" />}
           trend="up"
+          subtitle={formatOriginalTotals(
+            overview?.kpis.originalCurrencyTotals.income,
+            baseCurrency
+          )}
         />
         <KPICard
           title="Expenses"
-          value={formatCurrency(kpis.totalExpenses)}
+          value={formatCurrency(kpis.totalExpenses, baseCurrency)}
           icon={<TrendingDown className="h-5 w-5 text-danger-500" />}
           trend="neutral"
+          subtitle={formatOriginalTotals(
+            overview?.kpis.originalCurrencyTotals.expenses,
+            baseCurrency
+          )}
         />
         <KPICard
           title="Net Savings"
-          value={formatCurrency(kpis.netSavings)}
+          value={formatCurrency(kpis.netSavings, baseCurrency)}
           icon={<PiggyBank className="h-5 w-5 text-primary-500" />}
           trend={kpis.netSavings >= 0 ? 'up' : 'down'}
           subtitle={`${formatPercent(kpis.savingsRate)} savings rate`}
         />
         <KPICard
           title="Varying Expenses"
-          value={formatCurrency(varyingExpenses.total)}
+          value={formatCurrency(varyingExpenses.total, baseCurrency)}
           icon={<AlertTriangle className="h-5 w-5 text-warning-500" />}
           trend="neutral"
           subtitle={`${varyingExpenses.count} transactions`}
         />
       </div>
 
+      {/* Savings Goals */}
+      <GoalsCard netSavings={kpis.netSavings} baseCurrency={baseCurrency} />
+
+      {/* Net Worth */}
+      <NetWorthCard baseCurrency={baseCurrency} />
+
       {/* Expense Insights Cards */}
       {insights && (
         <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
@@ -337,7 +379,7 @@ export const DashboardClient = ({
               .sort((a, b) => b.actualAmount - a.actualAmount)
               .slice(0, 6)
               .map((item) => (
-                <CategoryRow key={item.category.id} item={item} />
+                <CategoryRow key={item.category.id} item={item} currency={baseCurrency} />
               ))}
             {categoryBreakdown.filter((c) => c.actualAmount > 0).length === 0 && (
               <p className="text-center text-gray-500 dark:text-gray-400 py-8">
@@ -382,7 +424,10 @@ export const DashboardClient = ({
                   )}
                 >
                   {tx.direction === 'income' ? '+' : '-'}
-                  {formatCurrency(tx.amount)}
+                  {formatCurrency(tx.amount, baseCurrency, {
+                    amount: tx.originalAmount,
+                    currency: tx.originalCurrency,
+                  })}
                 </span>
               </div>
             ))}
@@ -452,7 +497,9 @@ function KPICard({
 
 function CategoryRow({
   item,
+  currency,
 }: {
+  currency: string;
   item: {
     category: { id: string; name: string; icon?: string | null; color?: string | null };
     plannedAmount: number;
@@ -472,11 +519,11 @@ function CategoryRow({
             {item.category.name}
           </span>
           <span className="text-sm text-gray-500 dark:text-gray-400">
-            {formatCurrency(item.actualAmount)}
+            {formatCurrency(item.actualAmount, currency)}
             {item.plannedAmount > 0 && (
               <span className="text-gray-400 dark:text-gray-500">
                 {' '}
-                / {formatCurrency(item.plannedAmount)}
+                / {formatCurrency(item.plannedAmount, currency)}
               </span>
             )}
           </span>
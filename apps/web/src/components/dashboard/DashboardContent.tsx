@@ -7,6 +7,7 @@ import {
   cn,
   formatCurrency,
   formatDate,
+  formatOriginalTotals,
   formatPercent,
   getStatusBadgeClass,
   getStatusLabel,
@@ -24,6 +25,8 @@ import {
   TrendingUp,
 } from 'lucide-react';
 import Link from 'next/link';
+import { useState } from 'react';
+import { GoalsCard } from './GoalsCard';
 import { InsightCard } from './InsightCard';
 import { LargestTransactionsList } from './LargestTransactionsList';
 import { TopMerchantsList } from './TopMerchantsList';
@@ -63,21 +66,27 @@ function getSyncStatusColor(date: Date | null): string {
 
 export const DashboardContent = () => {
   const { currentMonth } = useMonth();
+  const [includePending, setIncludePending] = useState(true);
 
   // Use consolidated endpoint for better performance (1 request instead of 3)
   const { data: dashboardData } = trpc.dashboard.getFullDashboard.useQuery({
     month: currentMonth,
     recentLimit: 5,
+    includePending,
   });
 
   // Fetch expense insights
   const { data: insightsData } = trpc.dashboard.getExpenseInsights.useQuery({
     month: currentMonth,
+    includePending,
   });
 
   const overview = dashboardData?.overview;
   const categoryBreakdown = dashboardData?.categoryBreakdown ?? [];
   const recentTransactions = dashboardData?.recentTransactions ?? [];
+  const baseCurrency = dashboardData?.baseCurrency ?? 'ILS';
+  const missingRates = dashboardData?.missingRates ?? [];
+  const pending = dashboardData?.pending ?? { included: includePending, count: 0, total: 0 };
 
   const kpis = overview?.kpis ?? {
     totalIncome: 0,
@@ -121,6 +130,18 @@ export const DashboardContent = () => {
           </div>
         </div>
         <div className="flex items-center gap-3">
+          <label
+            className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400"
+            title="Card charges that have not settled yet"
+          >
+            <input
+              type="checkbox"
+              checked={includePending}
+              onChange={(e) => setIncludePending(e.target.checked)}
+              className="rounded w-3.5 h-3.5"
+            />
+            Include pending
+          </label>
           <Link href={`/transactions?month=${currentMonth}`} className="btn-secondary btn-sm">
             View All Transactions
           </Link>
@@ -128,36 +149,66 @@ export const DashboardContent = () => {
         </div>
       </div>
 
+      {/* Missing exchange rates */}
+      {missingRates.length > 0 && (
+        <div className="card border-l-4 border-warning-500 bg-warning-50 dark:bg-warning-900/30 text-sm text-warning-800 dark:text-warning-300">
+          No exchange rate for {missingRates.join(', ')} - these amounts are shown unconverted.{' '}
+          <Link href="/settings" className="underline">
+            Load rates in Settings
+          </Link>
+        </div>
+      )}
+
+      {/* Pending card charges */}
+      {pending.count > 0 && (
+        <div className="card text-sm text-gray-600 dark:text-gray-400">
+          {pending.count} pending {pending.count === 1 ? 'charge' : 'charges'} (
+          {formatCurrency(pending.total, baseCurrency)}){' '}
+          {pending.included ? 'included in' : 'excluded from'} this month's totals
+        </div>
+      )}
+
       {/* KPI Cards */}
       <div className="grid grid-cols-1 gap-4 sm:grid-cols-2 lg:grid-cols-4">
         <KPICard
           title="Income"
-          value={formatCurrency(kpis.totalIncome)}
+          value={formatCurrency(kpis.totalIncome, baseCurrency)}
           icon={<TrendingUp className="h-5 w-5 text-success-500" />}
           trend="up"
+          subtitle={formatOriginalTotals(
+            overview?.kpis.originalCurrencyTotals.income,
+            baseCurrency
+          )}
         />
         <KPICard
           title="Expenses"
-          value={formatCurrency(kpis.totalExpenses)}
+          value={formatCurrency(kpis.totalExpenses, baseCurrency)}
           icon={<TrendingDown className="h-5 w-5 text-danger-500" />}
           trend="neutral"
+          subtitle={formatOriginalTotals(
+            overview?.kpis.originalCurrencyTotals.expenses,
+            baseCurrency
+          )}
         />
         <KPICard
           title="Net Savings"
-          value={formatCurrency(kpis.netSavings)}
+          value={formatCurrency(kpis.netSavings, baseCurrency)}
           icon={<PiggyBank className="h-5 w-5 text-primary-500" />}
           trend={kpis.netSavings >= 0 ? 'up' : 'down'}
           subtitle={`${formatPercent(kpis.savingsRate)} savings rate`}
         />
         <KPICard
           title="Varying Expenses"
-          value={formatCurrency(varyingExpenses.total)}
+          value={formatCurrency(varyingExpenses.total, baseCurrency)}
           icon={<AlertTriangle className="h-5 w-5 text-warning-500" />}
           trend="neutral"
           subtitle={`${varyingExpenses.count} transactions`}
         />
       </div>
 
+      {/* Savings Goals */}
+      <GoalsCard netSavings={kpis.netSavings} baseCurrency={baseCurrency} />
+
       {/* Expense Insights Cards */}
       {insights && (
         <div className="grid grid-cols-2 gap-4 sm:grid-cols-4">
@@ -267,7 +318,7 @@ export const DashboardContent = () => {
               .sort((a, b) => b.actualAmount - a.actualAmount)
               .slice(0, 6)
               .map((item) => (
-                <CategoryRow key={item.category.id} item={item} />
+                <CategoryRow key={item.category.id} item={item} currency={baseCurrency} />
               ))}
             {categoryBreakdown.filter((c) => c.actualAmount > 0).length === 0 && (
               <p className="text-center text-gray-500 dark:text-gray-400 py-8">
@@ -312,7 +363,10 @@ export const DashboardContent = () => {
                   )}
                 >
                   {tx.direction === 'income' ? '+' : '-'}
-                  {formatCurrency(tx.amount)}
+                  {formatCurrency(tx.amount, baseCurrency, {
+                    amount: tx.originalAmount,
+                    currency: tx.originalCurrency,
+                  })}
                 </span>
               </div>
             ))}
@@ -382,7 +436,9 @@ function KPICard({
 
 function CategoryRow({
   item,
+  currency,
 }: {
+  currency: string;
   item: {
     category: { id: string; name: string; icon?: string | null; color?: string | null };
     plannedAmount: number;
@@ -402,11 +458,11 @@ function CategoryRow({
             {item.category.name}
           </span>
           <span className="text-sm text-gray-500 dark:text-gray-400">
-            {formatCurrency(item.actualAmount)}
+            {formatCurrency(item.actualAmount, currency)}
             {item.plannedAmount > 0 && (
               <span className="text-gray-400 dark:text-gray-500">
                 {' '}
-                / {formatCurrency(item.plannedAmount)}
+                / {formatCurrency(item.plannedAmount, currency)}
               </span>
             )}
           </span>
@@ -0,0 +1,88 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import {
+  cn,
+  formatCurrency,
+  formatPercent,
+  getGoalStatusBadgeClass,
+  getGoalStatusLabel,
+} from '@/lib/utils';
+import { Target } from 'lucide-react';
+import Link from 'next/link';
+
+interface GoalsCardProps {
+  netSavings: number;
+  baseCurrency?: string;
+}
+
+const MAX_GOALS = 3;
+
+export function GoalsCard({ netSavings, baseCurrency }: GoalsCardProps) {
+  const { data } = trpc.goals.list.useQuery();
+
+  const goals = (data?.goals ?? []).filter((goal) => goal.status !== 'completed');
+  if (goals.length === 0) return null;
+
+  const required = data?.totalRequiredMonthly ?? 0;
+
+  return (
+    <div className="card">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-start gap-3">
+          <div className="p-2 bg-primary-100 dark:bg-primary-900/30 rounded-lg">
+            <Target className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Savings Goals</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {formatCurrency(required, baseCurrency)} needed monthly ·{' '}
+              <span
+                className={cn(
+                  netSavings >= required
+                    ? 'text-success-600 dark:text-success-400'
+                    : 'text-warning-600 dark:text-warning-400'
+                )}
+              >
+                {formatCurrency(netSavings, baseCurrency)} net savings
+              </span>
+            </p>
+          </div>
+        </div>
+        <Link href="/goals" className="text-sm text-primary-600 hover:text-primary-700">
+          View all
+        </Link>
+      </div>
+
+      <div className="space-y-3">
+        {goals.slice(0, MAX_GOALS).map((goal) => (
+          <div key={goal.id} className="space-y-1">
+            <div className="flex items-center justify-between text-sm">
+              <span className="font-medium text-gray-900 dark:text-white truncate">
+                {goal.icon || '🎯'} {goal.name}
+              </span>
+              <span className={cn('badge', getGoalStatusBadgeClass(goal.status))}>
+                {getGoalStatusLabel(goal.status)}
+              </span>
+            </div>
+            <div className="h-2 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+              <div
+                className={cn(
+                  'h-full rounded-full',
+                  goal.status === 'on_track' ? 'bg-success-500' : 'bg-warning-500'
+                )}
+                style={{ width: `${Math.min(goal.progressPct * 100, 100)}%` }}
+              />
+            </div>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {formatCurrency(goal.savedAmount, baseCurrency)} of{' '}
+              {formatCurrency(goal.targetAmount, baseCurrency)} ({formatPercent(goal.progressPct)})
+              {goal.monthsLeft > 0 &&
+                ` · ${formatCurrency(goal.requiredMonthly, baseCurrency)}/month`}
+            </p>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,102 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { cn, formatCurrency, formatMonth } from '@/lib/utils';
+import { Landmark } from 'lucide-react';
+import Link from 'next/link';
+
+interface NetWorthCardProps {
+  baseCurrency?: string;
+}
+
+const CHART_WIDTH = 300;
+const CHART_HEIGHT = 80;
+
+export function NetWorthCard({ baseCurrency }: NetWorthCardProps) {
+  const { data } = trpc.dashboard.netWorth.useQuery();
+
+  if (!data?.hasSnapshots || data.points.length < 2) return null;
+
+  const currency = data.baseCurrency ?? baseCurrency;
+  const points = data.points;
+  const current = points[points.length - 1]!;
+  const previous = points[points.length - 2]!;
+  const change = current.netWorth - previous.netWorth;
+
+  const values = points.map((point) => point.netWorth);
+  const min = Math.min(...values);
+  const range = Math.max(...values) - min || 1;
+  const path = values
+    .map((value, i) => {
+      const x = (i / (values.length - 1)) * CHART_WIDTH;
+      const y = CHART_HEIGHT - ((value - min) / range) * CHART_HEIGHT;
+      return `${i === 0 ? 'M' : 'L'}${x.toFixed(1)},${y.toFixed(1)}`;
+    })
+    .join(' ');
+
+  return (
+    <div className="card">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div className="flex items-start gap-3">
+          <div className="p-2 bg-primary-100 dark:bg-primary-900/30 rounded-lg">
+            <Landmark className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+          </div>
+          <div>
+            <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Net Worth</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {formatCurrency(current.assets, currency)} assets ·{' '}
+              {formatCurrency(current.liabilities, currency)} credit card debt
+            </p>
+          </div>
+        </div>
+        <Link href="/connections" className="text-sm text-primary-600 hover:text-primary-700">
+          Balances
+        </Link>
+      </div>
+
+      <div className="flex items-baseline gap-2 mb-3">
+        <span className="text-2xl font-bold text-gray-900 dark:text-white">
+          {formatCurrency(current.netWorth, currency)}
+        </span>
+        <span
+          className={cn(
+            'text-sm',
+            change >= 0
+              ? 'text-success-600 dark:text-success-400'
+              : 'text-error-600 dark:text-error-400'
+          )}
+        >
+          {change >= 0 ? '+' : ''}
+          {formatCurrency(change, currency)} this month
+        </span>
+      </div>
+
+      <svg
+        viewBox={`0 -4 ${CHART_WIDTH} ${CHART_HEIGHT + 8}`}
+        preserveAspectRatio="none"
+        className="w-full h-20 text-primary-500"
+        role="img"
+        aria-label="Net worth by month"
+      >
+        <path
+          d={path}
+          fill="none"
+          stroke="currentColor"
+          strokeWidth={2}
+          vectorEffect="non-scaling-stroke"
+        />
+      </svg>
+      <div className="flex justify-between text-xs text-gray-400 dark:text-gray-500 mt-1">
+        <span>{formatMonth(points[0]!.month)}</span>
+        <span>{formatMonth(current.month)}</span>
+      </div>
+
+      {data.missingRates.length > 0 && (
+        <p className="text-xs text-warning-600 dark:text-warning-400 mt-2">
+          No exchange rate for {data.missingRates.join(', ')} - these balances are counted
+          unconverted
+        </p>
+      )}
+    </div>
+  );
+}
@@ -5,6 +5,9 @@ import { Store } from 'lucide-react';
 
 interface Merchant {
   merchant: string;
+  merchantId?: string | null; // Set when grouped by a household merchant
+  icon?: string | null;
+  logoUrl?: string | null;
   total: number;
   count: number;
   formattedTotal: string;
@@ -48,12 +51,21 @@ export function TopMerchantsList({
         {merchants.map((merchant, index) => {
           const percentage = (merchant.total / maxTotal) * 100;
           return (
-            <div key={merchant.merchant} className="relative">
+            <div key={merchant.merchantId ?? merchant.merchant} className="relative">
               <div className="flex items-center justify-between mb-1">
                 <div className="flex items-center gap-2 min-w-0 flex-1">
                   <span className="text-xs font-medium text-gray-400 dark:text-gray-500 w-4">
                     {index + 1}
                   </span>
+                  {merchant.logoUrl ? (
+                    <img
+                      src={merchant.logoUrl}
+                      alt=""
+                      className="h-4 w-4 rounded-sm object-contain flex-shrink-0"
+                    />
+                  ) : (
+                    merchant.icon && <span className="text-sm">{merchant.icon}</span>
+                  )}
                   <span className="text-sm text-gray-900 dark:text-white truncate">
                     {merchant.merchant}
                   </span>
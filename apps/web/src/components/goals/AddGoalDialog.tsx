@@ -0,0 +1,240 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { Plus, Target, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface AddGoalDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+export function AddGoalDialog({ isOpen, onClose, onSuccess }: AddGoalDialogProps) {
+  const [name, setName] = useState('');
+  const [icon, setIcon] = useState('');
+  const [targetAmount, setTargetAmount] = useState('');
+  const [targetDate, setTargetDate] = useState('');
+  const [initialAmount, setInitialAmount] = useState('');
+  const [accountId, setAccountId] = useState('');
+  const [categoryId, setCategoryId] = useState('');
+
+  const { data: accounts = [] } = trpc.accounts.list.useQuery(undefined, { enabled: isOpen });
+  const { data: categories = [] } = trpc.categories.list.useQuery(undefined, {
+    enabled: isOpen,
+  });
+
+  const createMutation = trpc.goals.create.useMutation({
+    onSuccess: () => {
+      onSuccess?.();
+      handleClose();
+    },
+  });
+
+  const handleClose = () => {
+    setName('');
+    setIcon('');
+    setTargetAmount('');
+    setTargetDate('');
+    setInitialAmount('');
+    setAccountId('');
+    setCategoryId('');
+    onClose();
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (!name || !targetAmount || !targetDate) {
+      return;
+    }
+
+    createMutation.mutate({
+      name,
+      icon: icon || undefined,
+      targetAmount: Number.parseFloat(targetAmount),
+      targetDate: new Date(targetDate),
+      initialAmount: initialAmount ? Number.parseFloat(initialAmount) : 0,
+      accountId: accountId || null,
+      categoryId: categoryId || null,
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 animate-in fade-in">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <Target className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Add Savings Goal</h2>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {/* Name & Icon */}
+          <div className="grid grid-cols-4 gap-2">
+            <div className="col-span-3">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Name *
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Vacation, Emergency fund..."
+                required
+                className="input w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Icon
+              </label>
+              <input
+                type="text"
+                value={icon}
+                onChange={(e) => setIcon(e.target.value)}
+                placeholder="🏖️"
+                maxLength={10}
+                className="input w-full"
+              />
+            </div>
+          </div>
+
+          {/* Target */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Target Amount (₪) *
+              </label>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={targetAmount}
+                onChange={(e) => setTargetAmount(e.target.value)}
+                placeholder="0.00"
+                required
+                className="input w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Target Date *
+              </label>
+              <input
+                type="date"
+                value={targetDate}
+                onChange={(e) => setTargetDate(e.target.value)}
+                required
+                className="input w-full"
+              />
+            </div>
+          </div>
+
+          {/* Already saved */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Already Saved (₪)
+            </label>
+            <input
+              type="number"
+              step="0.01"
+              min="0"
+              value={initialAmount}
+              onChange={(e) => setInitialAmount(e.target.value)}
+              placeholder="0.00"
+              className="input w-full"
+            />
+          </div>
+
+          {/* Linked account */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Savings Account
+            </label>
+            <select
+              value={accountId}
+              onChange={(e) => setAccountId(e.target.value)}
+              className="input w-full"
+            >
+              <option value="">None</option>
+              {accounts.map((account) => (
+                <option key={account.id} value={account.id}>
+                  {account.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Deposits and transfers into this account count toward the goal
+            </p>
+          </div>
+
+          {/* Linked category */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Savings Category
+            </label>
+            <select
+              value={categoryId}
+              onChange={(e) => setCategoryId(e.target.value)}
+              className="input w-full"
+            >
+              <option value="">None</option>
+              {categories
+                .filter((cat) => cat.type === 'expense')
+                .map((cat) => (
+                  <option key={cat.id} value={cat.id}>
+                    {cat.icon} {cat.name}
+                  </option>
+                ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Money set aside in this category counts toward the goal. You can also tag individual
+              transactions from the transactions page.
+            </p>
+          </div>
+
+          {/* Error message */}
+          {createMutation.isError && (
+            <div className="p-3 bg-danger-50 dark:bg-danger-900/30 border border-danger-200 dark:border-danger-800 rounded-lg">
+              <p className="text-sm text-danger-700 dark:text-danger-400">
+                {createMutation.error.message}
+              </p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="btn btn-outline flex-1"
+              disabled={createMutation.isPending}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary flex-1"
+              disabled={createMutation.isPending}
+            >
+              <Plus className="h-4 w-4" />
+              {createMutation.isPending ? 'Adding...' : 'Add Goal'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,192 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import {
+  cn,
+  formatCurrency,
+  formatDate,
+  formatPercent,
+  getGoalStatusBadgeClass,
+  getGoalStatusLabel,
+} from '@/lib/utils';
+import { Archive, ArchiveRestore, Plus, Target, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { AddGoalDialog } from './AddGoalDialog';
+
+export function GoalsContent() {
+  const [showArchived, setShowArchived] = useState(false);
+  const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+
+  const utils = trpc.useUtils();
+
+  const { data } = trpc.goals.list.useQuery({ includeArchived: showArchived });
+
+  const updateMutation = trpc.goals.update.useMutation({
+    onSuccess: () => utils.goals.list.invalidate(),
+  });
+
+  const deleteMutation = trpc.goals.delete.useMutation({
+    onSuccess: () => utils.goals.list.invalidate(),
+  });
+
+  const goals = data?.goals ?? [];
+  const baseCurrency = data?.baseCurrency;
+
+  return (
+    <div className="space-y-6 animate-in">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Savings Goals</h1>
+          <p className="text-gray-500 dark:text-gray-400">Track what you are saving toward</p>
+        </div>
+        <div className="flex items-center gap-3">
+          <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={showArchived}
+              onChange={(e) => setShowArchived(e.target.checked)}
+              className="rounded"
+            />
+            Show archived
+          </label>
+          <button onClick={() => setIsAddDialogOpen(true)} className="btn btn-primary">
+            <Plus className="h-4 w-4" />
+            Add Goal
+          </button>
+        </div>
+      </div>
+
+      {/* Summary */}
+      {goals.length > 0 && (
+        <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+          <div className="card">
+            <p className="text-sm text-gray-500 dark:text-gray-400">Saved</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">
+              {formatCurrency(data?.totalSaved ?? 0, baseCurrency)}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              of {formatCurrency(data?.totalTarget ?? 0, baseCurrency)}
+            </p>
+          </div>
+          <div className="card">
+            <p className="text-sm text-gray-500 dark:text-gray-400">Needed Monthly</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">
+              {formatCurrency(data?.totalRequiredMonthly ?? 0, baseCurrency)}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">to reach every goal on time</p>
+          </div>
+          <div className="card">
+            <p className="text-sm text-gray-500 dark:text-gray-400">This Month</p>
+            <p className="text-2xl font-bold text-gray-900 dark:text-white">
+              {formatCurrency(data?.contributedThisMonth ?? 0, baseCurrency)}
+            </p>
+            <p className="text-xs text-gray-500 dark:text-gray-400">contributed so far</p>
+          </div>
+        </div>
+      )}
+
+      {/* Goals */}
+      <div className="card">
+        <div className="space-y-4">
+          {goals.map((goal) => (
+            <div
+              key={goal.id}
+              className={cn(
+                'rounded-lg border border-gray-200 dark:border-gray-700 px-4 py-3 space-y-3',
+                goal.isArchived && 'bg-gray-50 dark:bg-gray-800 opacity-60'
+              )}
+            >
+              <div className="flex items-center gap-4">
+                <div className="flex items-center gap-3 flex-1 min-w-0">
+                  <span className="text-xl">{goal.icon || '🎯'}</span>
+                  <div className="min-w-0">
+                    <p className="font-medium text-gray-900 dark:text-white truncate">
+                      {goal.name}
+                    </p>
+                    <p className="text-sm text-gray-500 dark:text-gray-400">
+                      by {formatDate(goal.targetDate)}
+                      {goal.account && ` · ${goal.account.name}`}
+                      {goal.category && ` · ${goal.category.icon ?? ''} ${goal.category.name}`}
+                    </p>
+                  </div>
+                </div>
+
+                <span className={cn('badge', getGoalStatusBadgeClass(goal.status))}>
+                  {getGoalStatusLabel(goal.status)}
+                </span>
+
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() =>
+                      updateMutation.mutate({ id: goal.id, data: { isArchived: !goal.isArchived } })
+                    }
+                    className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-gray-600 hover:bg-gray-100 rounded"
+                    title={goal.isArchived ? 'Restore' : 'Archive'}
+                  >
+                    {goal.isArchived ? (
+                      <ArchiveRestore className="h-4 w-4" />
+                    ) : (
+                      <Archive className="h-4 w-4" />
+                    )}
+                  </button>
+                  <button
+                    onClick={() => {
+                      if (confirm('Delete this goal? Tagged transactions are kept.')) {
+                        deleteMutation.mutate(goal.id);
+                      }
+                    }}
+                    className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-danger-600 hover:bg-danger-50 rounded"
+                  >
+                    <Trash2 className="h-4 w-4" />
+                  </button>
+                </div>
+              </div>
+
+              {/* Progress Bar */}
+              <div className="h-2.5 bg-gray-100 dark:bg-gray-700 rounded-full overflow-hidden">
+                <div
+                  className={cn(
+                    'h-full rounded-full transition-all duration-300',
+                    goal.status === 'behind' || goal.status === 'overdue'
+                      ? 'bg-warning-500'
+                      : 'bg-success-500'
+                  )}
+                  style={{ width: `${Math.min(goal.progressPct * 100, 100)}%` }}
+                />
+              </div>
+
+              <div className="flex items-center justify-between text-sm">
+                <span className="text-gray-600 dark:text-gray-300">
+                  {formatCurrency(goal.savedAmount, baseCurrency)} of{' '}
+                  {formatCurrency(goal.targetAmount, baseCurrency)} (
+                  {formatPercent(goal.progressPct)})
+                </span>
+                <span className="text-gray-500 dark:text-gray-400">
+                  {goal.status === 'completed'
+                    ? 'Goal reached'
+                    : goal.monthsLeft > 0
+                      ? `${formatCurrency(goal.requiredMonthly, baseCurrency)}/month for ${goal.monthsLeft} months`
+                      : `${formatCurrency(goal.remainingAmount, baseCurrency)} still missing`}
+                </span>
+              </div>
+            </div>
+          ))}
+
+          {goals.length === 0 && (
+            <div className="py-8 text-center">
+              <Target className="mx-auto h-10 w-10 text-gray-300 dark:text-gray-600" />
+              <p className="mt-2 text-gray-400 dark:text-gray-500">No savings goals yet</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      <AddGoalDialog
+        isOpen={isAddDialogOpen}
+        onClose={() => setIsAddDialogOpen(false)}
+        onSuccess={() => utils.goals.list.invalidate()}
+      />
+    </div>
+  );
+}
@@ -14,7 +14,9 @@ import {
   Repeat,
   Settings,
   Sparkles,
+  Store,
   Sun,
+  Target,
   X,
 } from 'lucide-react';
 import Link from 'next/link';
@@ -25,8 +27,10 @@ const navigation = [
   { name: 'Dashboard', href: '/', icon: LayoutDashboard, preserveMonth: true },
   { name: 'Transactions', href: '/transactions', icon: Receipt, preserveMonth: true },
   { name: 'Budget', href: '/budget', icon: PieChart, preserveMonth: true },
+  { name: 'Goals', href: '/goals', icon: Target, preserveMonth: false },
   { name: 'Categories', href: '/categories', icon: FolderTree, preserveMonth: false },
   { name: 'Rules', href: '/rules', icon: Sparkles, preserveMonth: false },
+  { name: 'Merchants', href: '/merchants', icon: Store, preserveMonth: false },
   { name: 'Recurring', href: '/recurring', icon: Repeat, preserveMonth: false },
   { name: 'Connections', href: '/connections', icon: Link2, preserveMonth: false },
 ];
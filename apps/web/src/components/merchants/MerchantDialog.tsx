@@ -0,0 +1,234 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import type { Merchant } from '@sfam/domain';
+import { Save, Store, X } from 'lucide-react';
+import { useState } from 'react';
+
+interface MerchantDialogProps {
+  merchant?: Merchant | null; // Edit this merchant; create a new one when omitted
+  initialName?: string; // Prefill for a new merchant, e.g. from an unmatched merchant text
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+// One alias or pattern per line
+const toLines = (list: string[]) => list.join('\n');
+const fromLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+/**
+ * Create or edit a household merchant
+ * Mount with a key per merchant so the form starts from its values
+ */
+export function MerchantDialog({ merchant, initialName, onClose, onSuccess }: MerchantDialogProps) {
+  const [name, setName] = useState(merchant?.name ?? initialName ?? '');
+  const [icon, setIcon] = useState(merchant?.icon ?? '');
+  const [aliases, setAliases] = useState(
+    toLines(merchant?.aliases ?? (initialName ? [initialName] : []))
+  );
+  const [patterns, setPatterns] = useState(toLines(merchant?.patterns ?? []));
+  const [defaultCategoryId, setDefaultCategoryId] = useState(merchant?.defaultCategoryId ?? '');
+  const [logoUrl, setLogoUrl] = useState(merchant?.logoUrl ?? '');
+  const [website, setWebsite] = useState(merchant?.website ?? '');
+
+  const { data: categories = [] } = trpc.categories.list.useQuery();
+
+  const mutationOptions = {
+    onSuccess: () => {
+      onSuccess?.();
+      onClose();
+    },
+  };
+  const createMutation = trpc.merchants.create.useMutation(mutationOptions);
+  const updateMutation = trpc.merchants.update.useMutation(mutationOptions);
+  const mutation = merchant ? updateMutation : createMutation;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!name.trim()) return;
+
+    const data = {
+      name: name.trim(),
+      icon: icon || null,
+      aliases: fromLines(aliases),
+      patterns: fromLines(patterns),
+      defaultCategoryId: defaultCategoryId || null,
+      logoUrl: logoUrl.trim() || null,
+      website: website.trim() || null,
+    };
+    if (merchant) {
+      updateMutation.mutate({ id: merchant.id, data });
+    } else {
+      createMutation.mutate(data);
+    }
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 animate-in fade-in">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div className="flex items-center gap-2">
+            <Store className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+              {merchant ? 'Edit Merchant' : 'Add Merchant'}
+            </h2>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {/* Name & Icon */}
+          <div className="grid grid-cols-4 gap-2">
+            <div className="col-span-3">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Name *
+              </label>
+              <input
+                type="text"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+                placeholder="e.g., Shufersal"
+                required
+                className="input w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Icon
+              </label>
+              <input
+                type="text"
+                value={icon}
+                onChange={(e) => setIcon(e.target.value)}
+                placeholder="🛒"
+                maxLength={10}
+                className="input w-full"
+              />
+            </div>
+          </div>
+
+          {/* Aliases */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Aliases
+            </label>
+            <textarea
+              value={aliases}
+              onChange={(e) => setAliases(e.target.value)}
+              rows={3}
+              placeholder={'SHUFERSAL ONLINE\nשופרסל דיל רמת גן'}
+              className="input w-full font-mono text-sm"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              One per line. Matches the whole merchant text, ignoring case, numbers and punctuation
+            </p>
+          </div>
+
+          {/* Patterns */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Patterns
+            </label>
+            <textarea
+              value={patterns}
+              onChange={(e) => setPatterns(e.target.value)}
+              rows={2}
+              placeholder="שופרסל"
+              className="input w-full font-mono text-sm"
+            />
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              One per line. Matches text anywhere in the merchant or description; the longest
+              matching pattern across merchants wins
+            </p>
+          </div>
+
+          {/* Default category */}
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Default Category
+            </label>
+            <select
+              value={defaultCategoryId}
+              onChange={(e) => setDefaultCategoryId(e.target.value)}
+              className="input w-full"
+            >
+              <option value="">None</option>
+              {categories.map((cat) => (
+                <option key={cat.id} value={cat.id}>
+                  {cat.icon} {cat.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              Used for new transactions no rule categorizes
+            </p>
+          </div>
+
+          {/* Logo & website */}
+          <div className="grid grid-cols-2 gap-2">
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Logo URL
+              </label>
+              <input
+                type="url"
+                value={logoUrl}
+                onChange={(e) => setLogoUrl(e.target.value)}
+                placeholder="https://..."
+                className="input w-full"
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Website
+              </label>
+              <input
+                type="url"
+                value={website}
+                onChange={(e) => setWebsite(e.target.value)}
+                placeholder="https://..."
+                className="input w-full"
+              />
+            </div>
+          </div>
+
+          {/* Error message */}
+          {mutation.isError && (
+            <div className="p-3 bg-danger-50 dark:bg-danger-900/30 border border-danger-200 dark:border-danger-800 rounded-lg">
+              <p className="text-sm text-danger-700 dark:text-danger-400">
+                {mutation.error?.message}
+              </p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn btn-outline flex-1"
+              disabled={mutation.isPending}
+            >
+              Cancel
+            </button>
+            <button type="submit" className="btn btn-primary flex-1" disabled={mutation.isPending}>
+              <Save className="h-4 w-4" />
+              {mutation.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
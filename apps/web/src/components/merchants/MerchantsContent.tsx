@@ -0,0 +1,170 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { formatCurrency } from '@/lib/utils';
+import type { Merchant } from '@sfam/domain';
+import { ExternalLink, Pencil, Plus, Store, Trash2 } from 'lucide-react';
+import { useState } from 'react';
+import { MerchantDialog } from './MerchantDialog';
+
+type DialogState = { merchant?: Merchant; initialName?: string } | null;
+
+export function MerchantsContent() {
+  const [dialog, setDialog] = useState<DialogState>(null);
+
+  const utils = trpc.useUtils();
+
+  const { data: merchants = [] } = trpc.merchants.list.useQuery();
+  const { data: unmatched = [] } = trpc.merchants.unmatched.useQuery();
+
+  // Merchant changes relink transactions, which regroups the dashboard and recurring patterns
+  const invalidate = () => {
+    utils.merchants.list.invalidate();
+    utils.merchants.unmatched.invalidate();
+    utils.dashboard.invalidate();
+    utils.recurring.invalidate();
+    utils.transactions.list.invalidate();
+  };
+
+  const deleteMutation = trpc.merchants.delete.useMutation({ onSuccess: invalidate });
+
+  return (
+    <div className="space-y-6 animate-in">
+      {/* Header */}
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-2xl font-bold text-gray-900 dark:text-white">Merchants</h1>
+          <p className="text-gray-500 dark:text-gray-400">
+            One name for every spelling your bank uses
+          </p>
+        </div>
+        <button onClick={() => setDialog({})} className="btn btn-primary">
+          <Plus className="h-4 w-4" />
+          Add Merchant
+        </button>
+      </div>
+
+      {/* Merchants */}
+      <div className="card">
+        <div className="space-y-3">
+          {merchants.map((merchant) => (
+            <div
+              key={merchant.id}
+              className="flex items-center gap-4 rounded-lg border border-gray-200 dark:border-gray-700 px-4 py-3"
+            >
+              <div className="flex items-center gap-3 flex-1 min-w-0">
+                {merchant.logoUrl ? (
+                  <img
+                    src={merchant.logoUrl}
+                    alt=""
+                    className="h-6 w-6 rounded-sm object-contain flex-shrink-0"
+                  />
+                ) : (
+                  <span className="text-xl">{merchant.icon || '🏪'}</span>
+                )}
+                <div className="min-w-0">
+                  <p className="font-medium text-gray-900 dark:text-white truncate flex items-center gap-1">
+                    {merchant.name}
+                    {merchant.website && (
+                      <a
+                        href={merchant.website}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="text-gray-400 hover:text-primary-600"
+                      >
+                        <ExternalLink className="h-3.5 w-3.5" />
+                      </a>
+                    )}
+                  </p>
+                  <p className="text-sm text-gray-500 dark:text-gray-400 truncate">
+                    {[...merchant.aliases, ...merchant.patterns.map((p) => `…${p}…`)].join(' · ') ||
+                      'Matches its name only'}
+                  </p>
+                </div>
+              </div>
+
+              {merchant.defaultCategory && (
+                <span className="badge badge-gray">
+                  {merchant.defaultCategory.icon} {merchant.defaultCategory.name}
+                </span>
+              )}
+
+              <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                {merchant.transactionCount} txn{merchant.transactionCount !== 1 ? 's' : ''}
+              </span>
+
+              <div className="flex items-center gap-1">
+                <button
+                  onClick={() => setDialog({ merchant })}
+                  className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-gray-600 hover:bg-gray-100 rounded"
+                  title="Edit"
+                >
+                  <Pencil className="h-4 w-4" />
+                </button>
+                <button
+                  onClick={() => {
+                    if (
+                      confirm('Delete this merchant? Its transactions keep their merchant text.')
+                    ) {
+                      deleteMutation.mutate(merchant.id);
+                    }
+                  }}
+                  className="p-1.5 text-gray-400 dark:text-gray-500 hover:text-danger-600 hover:bg-danger-50 rounded"
+                  title="Delete"
+                >
+                  <Trash2 className="h-4 w-4" />
+                </button>
+              </div>
+            </div>
+          ))}
+
+          {merchants.length === 0 && (
+            <div className="py-8 text-center">
+              <Store className="mx-auto h-10 w-10 text-gray-300 dark:text-gray-600" />
+              <p className="mt-2 text-gray-400 dark:text-gray-500">No merchants yet</p>
+            </div>
+          )}
+        </div>
+      </div>
+
+      {/* Unmatched merchant texts */}
+      {unmatched.length > 0 && (
+        <div className="card">
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white">Unmatched</h2>
+          <p className="text-sm text-gray-500 dark:text-gray-400 mb-4">
+            Frequent merchant texts not linked to any merchant yet
+          </p>
+          <div className="divide-y divide-gray-100 dark:divide-gray-700">
+            {unmatched.map((item) => (
+              <div key={item.merchant} className="flex items-center gap-4 py-2">
+                <span className="flex-1 min-w-0 truncate text-sm text-gray-900 dark:text-white">
+                  {item.merchant}
+                </span>
+                <span className="text-sm text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                  {item.count} txn{item.count !== 1 ? 's' : ''} · {formatCurrency(item.total)}
+                </span>
+                <button
+                  onClick={() => setDialog({ initialName: item.merchant })}
+                  className="btn btn-outline btn-sm"
+                >
+                  <Plus className="h-3.5 w-3.5" />
+                  Create
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {dialog && (
+        <MerchantDialog
+          key={dialog.merchant?.id ?? dialog.initialName ?? 'new'}
+          merchant={dialog.merchant}
+          initialName={dialog.initialName}
+          onClose={() => setDialog(null)}
+          onSuccess={invalidate}
+        />
+      )}
+    </div>
+  );
+}
@@ -1,7 +1,13 @@
 'use client';
 
 import { trpc } from '@/lib/trpc/client';
-import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import {
+  cn,
+  formatCurrency,
+  formatDate,
+  getRecurringStatusBadgeClass,
+  getRecurringStatusLabel,
+} from '@/lib/utils';
 import { Calendar, Play, Plus, Search, ToggleLeft, ToggleRight, Trash2 } from 'lucide-react';
 import { useState } from 'react';
 import { AddRecurringDialog } from './AddRecurringDialog';
@@ -25,6 +31,13 @@ interface Template {
   category?: { id: string; name: string; icon?: string | null } | null;
 }
 
+interface OccurrenceStatus {
+  status: string;
+  date: Date;
+  daysLate: number;
+  transactionDate: Date | null;
+}
+
 export function RecurringContent() {
   const [showInactive, setShowInactive] = useState(false);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
@@ -38,6 +51,22 @@ export function RecurringContent() {
 
   const { data: categories = [] } = trpc.categories.list.useQuery();
 
+  // This month's occurrences, reconciled with the real bank transactions
+  const now = new Date();
+  const { data: occurrences = [] } = trpc.recurring.occurrences.useQuery({
+    year: now.getFullYear(),
+    month: now.getMonth() + 1,
+  });
+
+  // Latest occurrence per template (weekly templates have several a month)
+  const statusByTemplate = new Map<string, OccurrenceStatus>();
+  for (const occ of occurrences) {
+    const current = statusByTemplate.get(occ.templateId);
+    if (!current || (occ.status !== 'upcoming' && occ.date > current.date)) {
+      statusByTemplate.set(occ.templateId, occ);
+    }
+  }
+
   const updateMutation = trpc.recurring.update.useMutation({
     onSuccess: () => utils.recurring.list.invalidate(),
   });
@@ -48,8 +77,9 @@ export function RecurringContent() {
 
   const generateMutation = trpc.recurring.generateOccurrences.useMutation({
     onSuccess: (data) => {
-      alert(`Generated ${data.created} transaction(s)`);
+      alert(`Generated ${data.created} transaction(s), linked ${data.linked} bank transaction(s)`);
       utils.recurring.list.invalidate();
+      utils.recurring.occurrences.invalidate();
     },
   });
 
@@ -121,6 +151,7 @@ export function RecurringContent() {
             <TemplateRow
               key={template.id}
               template={template}
+              occurrence={statusByTemplate.get(template.id)}
               onToggle={() => toggleActive(template)}
               onDelete={() => {
                 if (confirm('Delete this recurring transaction?')) {
@@ -154,6 +185,7 @@ export function RecurringContent() {
             <TemplateRow
               key={template.id}
               template={template}
+              occurrence={statusByTemplate.get(template.id)}
               onToggle={() => toggleActive(template)}
               onDelete={() => {
                 if (confirm('Delete this recurring transaction?')) {
@@ -188,10 +220,12 @@ export function RecurringContent() {
 
 function TemplateRow({
   template,
+  occurrence,
   onToggle,
   onDelete,
 }: {
   template: Template;
+  occurrence?: OccurrenceStatus;
   onToggle: () => void;
   onDelete: () => void;
 }) {
@@ -215,6 +249,21 @@ function TemplateRow({
         </div>
       </div>
 
+      {/* This month */}
+      {occurrence && (
+        <span
+          className={cn('badge', getRecurringStatusBadgeClass(occurrence.status))}
+          title={
+            occurrence.transactionDate
+              ? `Charged ${formatDate(occurrence.transactionDate)}, due ${formatDate(occurrence.date)}`
+              : `Due ${formatDate(occurrence.date)}`
+          }
+        >
+          {getRecurringStatusLabel(occurrence.status)}
+          {occurrence.daysLate > 0 && ` · ${occurrence.daysLate}d`}
+        </span>
+      )}
+
       {/* Amount */}
       <div className="text-right">
         <p
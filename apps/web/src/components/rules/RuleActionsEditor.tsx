@@ -0,0 +1,100 @@
+'use client';
+
+import type { RuleAction } from '@sfam/domain';
+
+interface RuleActionsEditorProps {
+  value: RuleAction[];
+  onChange: (value: RuleAction[]) => void;
+}
+
+type TextActionType = 'set_merchant' | 'set_description' | 'append_note';
+
+// Drop text actions left blank so an untouched editor saves no actions at all
+export function cleanRuleActions(value: RuleAction[]): RuleAction[] | null {
+  const cleaned = value
+    .map((action) =>
+      'value' in action && typeof action.value === 'string'
+        ? { ...action, value: action.value.trim() }
+        : action
+    )
+    .filter((action) => !('value' in action) || action.value !== '');
+  return cleaned.length > 0 ? cleaned : null;
+}
+
+export function formatRuleActions(actions: RuleAction[]): string[] {
+  return actions.map((action) => {
+    switch (action.type) {
+      case 'set_ignored':
+        return action.value ? 'Ignore' : 'Un-ignore';
+      case 'set_merchant':
+        return `Merchant → ${action.value}`;
+      case 'set_description':
+        return `Description → ${action.value}`;
+      case 'append_note':
+        return `Note: ${action.value}`;
+      case 'mark_reviewed':
+        return 'Mark reviewed';
+    }
+  });
+}
+
+export function RuleActionsEditor({ value, onChange }: RuleActionsEditorProps) {
+  const find = <T extends RuleAction['type']>(type: T) =>
+    value.find((action): action is Extract<RuleAction, { type: T }> => action.type === type);
+
+  // Each action type appears at most once; passing null removes it
+  const setAction = (type: RuleAction['type'], action: RuleAction | null) => {
+    const rest = value.filter((a) => a.type !== type);
+    onChange(action ? [...rest, action] : rest);
+  };
+
+  const textInput = (type: TextActionType, label: string, placeholder: string) => (
+    <div>
+      <label className="label">{label}</label>
+      <input
+        type="text"
+        value={find(type)?.value ?? ''}
+        onChange={(e) =>
+          setAction(type, e.target.value === '' ? null : { type, value: e.target.value })
+        }
+        placeholder={placeholder}
+        className="input w-full"
+      />
+    </div>
+  );
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-3">
+      {textInput('set_merchant', 'Rename merchant to', 'Leave unchanged')}
+      {textInput('set_description', 'Rewrite description to', 'Leave unchanged')}
+      {textInput('append_note', 'Append note', 'No note')}
+      <div className="sm:col-span-3 flex flex-wrap gap-4">
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={find('set_ignored')?.value ?? false}
+            onChange={(e) =>
+              setAction(
+                'set_ignored',
+                e.target.checked ? { type: 'set_ignored', value: true } : null
+              )
+            }
+            className="rounded"
+          />
+          Ignore the transaction
+        </label>
+        <label className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300">
+          <input
+            type="checkbox"
+            checked={!!find('mark_reviewed')}
+            onChange={(e) =>
+              setAction('mark_reviewed', e.target.checked ? { type: 'mark_reviewed' } : null)
+            }
+            className="rounded"
+          />
+          Mark as reviewed
+        </label>
+      </div>
+    </div>
+  );
+}
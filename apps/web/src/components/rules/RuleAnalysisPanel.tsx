@@ -0,0 +1,144 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { cn } from '@/lib/utils';
+import type { RuleFindingKind } from '@sfam/domain';
+import { GitMerge, Stethoscope, Trash2, X } from 'lucide-react';
+import { useState } from 'react';
+
+const KIND_LABELS: Record<RuleFindingKind, { label: string; badge: string }> = {
+  dead: { label: 'Never matches', badge: 'badge-gray' },
+  shadowed: { label: 'Shadowed', badge: 'badge-warning' },
+  duplicate: { label: 'Duplicate', badge: 'badge-primary' },
+  invalid_regex: { label: 'Invalid regex', badge: 'badge-danger' },
+  slow_regex: { label: 'Slow regex', badge: 'badge-danger' },
+};
+
+interface FindingRule {
+  type: string;
+  pattern: string;
+  category: { name: string; icon: string | null } | null;
+}
+
+function RuleLabel({ rule }: { rule: FindingRule }) {
+  return (
+    <span className="inline-flex items-center gap-1 min-w-0">
+      <code className="font-mono text-xs bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded truncate">
+        {rule.pattern || '*'}
+      </code>
+      <span className="text-gray-400">→</span>
+      <span className="truncate">
+        {rule.category ? `${rule.category.icon ?? ''} ${rule.category.name}` : 'Actions only'}
+      </span>
+    </span>
+  );
+}
+
+export function RuleAnalysisPanel({ onClose }: { onClose: () => void }) {
+  const [deadAfterMonths, setDeadAfterMonths] = useState(6);
+
+  const utils = trpc.useUtils();
+  const { data: findings = [], isLoading } = trpc.rules.analyze.useQuery({ deadAfterMonths });
+
+  const onFixed = () => {
+    utils.rules.list.invalidate();
+    utils.rules.analyze.invalidate();
+  };
+  const mergeMutation = trpc.rules.merge.useMutation({ onSuccess: onFixed });
+  const deleteMutation = trpc.rules.delete.useMutation({ onSuccess: onFixed });
+  const isFixing = mergeMutation.isPending || deleteMutation.isPending;
+
+  return (
+    <div className="card border-2 border-primary-200 dark:border-primary-800">
+      <div className="flex items-start justify-between gap-4 mb-4">
+        <div>
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+            <Stethoscope className="h-5 w-5" />
+            Rule Health
+          </h3>
+          <p className="text-sm text-gray-500 dark:text-gray-400">
+            {isLoading
+              ? 'Analyzing rules...'
+              : findings.length === 0
+                ? 'No problems found'
+                : `${findings.length} problem(s) found`}
+          </p>
+        </div>
+        <div className="flex items-center gap-2">
+          <label className="text-sm text-gray-600 dark:text-gray-300">Unused for</label>
+          <select
+            value={deadAfterMonths}
+            onChange={(e) => setDeadAfterMonths(Number(e.target.value))}
+            className="input w-auto"
+          >
+            {[3, 6, 12, 24].map((months) => (
+              <option key={months} value={months}>
+                {months} months
+              </option>
+            ))}
+          </select>
+          <button
+            onClick={onClose}
+            className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+          >
+            <X className="h-4 w-4" />
+          </button>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        {findings.map((finding) => (
+          <div
+            key={`${finding.kind}-${finding.ruleId}`}
+            className="flex flex-wrap items-center gap-3 rounded-lg border border-gray-200 dark:border-gray-700 px-4 py-3 text-sm"
+          >
+            <span className={cn('badge text-xs', KIND_LABELS[finding.kind].badge)}>
+              {KIND_LABELS[finding.kind].label}
+            </span>
+            <div className="flex-1 min-w-0 space-y-1">
+              <div className="flex flex-wrap items-center gap-2 text-gray-900 dark:text-white">
+                {finding.rule && <RuleLabel rule={finding.rule} />}
+                {finding.otherRule && (
+                  <>
+                    <span className="text-gray-400">vs</span>
+                    <RuleLabel rule={finding.otherRule} />
+                  </>
+                )}
+              </div>
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {finding.reason}
+                {finding.rule?.createdFrom === 'ai_suggestion' && ' · created by AI'}
+              </p>
+            </div>
+            <div className="flex items-center gap-1">
+              {finding.otherRuleId && (
+                <button
+                  onClick={() =>
+                    mergeMutation.mutate({
+                      keepId: finding.otherRuleId as string,
+                      removeId: finding.ruleId,
+                    })
+                  }
+                  disabled={isFixing}
+                  className="btn btn-sm btn-outline"
+                  title="Fold this rule into the other one and delete it"
+                >
+                  <GitMerge className="h-4 w-4 mr-1" />
+                  Merge
+                </button>
+              )}
+              <button
+                onClick={() => deleteMutation.mutate(finding.ruleId)}
+                disabled={isFixing}
+                className="btn btn-sm btn-danger"
+              >
+                <Trash2 className="h-4 w-4 mr-1" />
+                Delete
+              </button>
+            </div>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
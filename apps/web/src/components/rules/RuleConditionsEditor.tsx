@@ -0,0 +1,250 @@
+'use client';
+
+import { cn } from '@/lib/utils';
+import type { RuleConditions } from '@sfam/domain';
+
+interface Account {
+  id: string;
+  name: string;
+}
+
+interface Merchant {
+  id: string;
+  name: string;
+}
+
+interface RuleConditionsEditorProps {
+  value: RuleConditions;
+  onChange: (value: RuleConditions) => void;
+  accounts: Account[];
+  merchants?: Merchant[];
+}
+
+const WEEKDAYS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+// Drop unset fields so an untouched editor saves no conditions at all
+export function cleanRuleConditions(value: RuleConditions): RuleConditions | null {
+  const cleaned = Object.fromEntries(
+    Object.entries(value).filter(([, v]) => v !== undefined && !(Array.isArray(v) && !v.length))
+  ) as RuleConditions;
+  return Object.keys(cleaned).length > 0 ? cleaned : null;
+}
+
+export function formatRuleConditions(
+  conditions: RuleConditions,
+  accounts: Account[],
+  merchants: Merchant[] = []
+): string[] {
+  const parts: string[] = [];
+  const { amountMin, amountMax, dayOfMonthMin, dayOfMonthMax } = conditions;
+
+  if (amountMin !== undefined && amountMax !== undefined) {
+    parts.push(`₪${amountMin}–${amountMax}`);
+  } else if (amountMin !== undefined) {
+    parts.push(`≥ ₪${amountMin}`);
+  } else if (amountMax !== undefined) {
+    parts.push(`≤ ₪${amountMax}`);
+  }
+  if (conditions.direction) parts.push(conditions.direction);
+  if (conditions.accountIds?.length) {
+    parts.push(
+      conditions.accountIds
+        .map((id) => accounts.find((a) => a.id === id)?.name ?? 'Unknown account')
+        .join(', ')
+    );
+  }
+  if (conditions.merchantIds?.length) {
+    parts.push(
+      conditions.merchantIds
+        .map((id) => merchants.find((m) => m.id === id)?.name ?? 'Unknown merchant')
+        .join(', ')
+    );
+  }
+  if (dayOfMonthMin !== undefined || dayOfMonthMax !== undefined) {
+    parts.push(`day ${dayOfMonthMin ?? 1}–${dayOfMonthMax ?? 31}`);
+  }
+  if (conditions.weekdays?.length) {
+    parts.push(conditions.weekdays.map((day) => WEEKDAYS[day]).join('/'));
+  }
+
+  return parts;
+}
+
+export function RuleConditionsEditor({
+  value,
+  onChange,
+  accounts,
+  merchants = [],
+}: RuleConditionsEditorProps) {
+  const parseNumber = (raw: string) => (raw === '' ? undefined : Number(raw));
+
+  const toggleIn = (list: number[] | string[] | undefined, item: number | string) => {
+    const current = (list ?? []) as Array<number | string>;
+    return current.includes(item) ? current.filter((i) => i !== item) : [...current, item];
+  };
+
+  return (
+    <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+      <div>
+        <label className="label">Amount (₪)</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={value.amountMin ?? ''}
+            onChange={(e) => onChange({ ...value, amountMin: parseNumber(e.target.value) })}
+            placeholder="Min"
+            className="input w-full"
+          />
+          <input
+            type="number"
+            min="0"
+            step="0.01"
+            value={value.amountMax ?? ''}
+            onChange={(e) => onChange({ ...value, amountMax: parseNumber(e.target.value) })}
+            placeholder="Max"
+            className="input w-full"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="label">Direction</label>
+        <select
+          value={value.direction ?? ''}
+          onChange={(e) =>
+            onChange({
+              ...value,
+              direction: (e.target.value || undefined) as RuleConditions['direction'],
+            })
+          }
+          className="input w-full"
+        >
+          <option value="">Any</option>
+          <option value="expense">Expense</option>
+          <option value="income">Income</option>
+          <option value="transfer">Transfer</option>
+        </select>
+      </div>
+      <div>
+        <label className="label">Day of month</label>
+        <div className="flex items-center gap-2">
+          <input
+            type="number"
+            min="1"
+            max="31"
+            value={value.dayOfMonthMin ?? ''}
+            onChange={(e) => onChange({ ...value, dayOfMonthMin: parseNumber(e.target.value) })}
+            placeholder="From"
+            className="input w-full"
+          />
+          <input
+            type="number"
+            min="1"
+            max="31"
+            value={value.dayOfMonthMax ?? ''}
+            onChange={(e) => onChange({ ...value, dayOfMonthMax: parseNumber(e.target.value) })}
+            placeholder="To"
+            className="input w-full"
+          />
+        </div>
+      </div>
+      <div>
+        <label className="label">Weekdays</label>
+        <div className="flex flex-wrap gap-1">
+          {WEEKDAYS.map((day, index) => (
+            <button
+              key={day}
+              type="button"
+              onClick={() =>
+                onChange({ ...value, weekdays: toggleIn(value.weekdays, index) as number[] })
+              }
+              className={cn(
+                'px-2 py-1 rounded text-xs font-medium',
+                value.weekdays?.includes(index)
+                  ? 'bg-primary-500 text-white'
+                  : 'bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-200'
+              )}
+            >
+              {day}
+            </button>
+          ))}
+        </div>
+      </div>
+      {accounts.length > 0 && (
+        <div className="sm:col-span-4">
+          <label className="label">Accounts</label>
+          <div className="flex flex-wrap gap-2">
+            {accounts.map((account) => (
+              <label
+                key={account.id}
+                className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-300"
+              >
+                <input
+                  type="checkbox"
+                  checked={value.accountIds?.includes(account.id) ?? false}
+                  onChange={() =>
+                    onChange({
+                      ...value,
+                      accountIds: toggleIn(value.accountIds, account.id) as string[],
+                    })
+                  }
+                  className="rounded"
+                />
+                {account.name}
+              </label>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Leave empty to match every account. A "from" day after the "to" day wraps around the end
+            of the month.
+          </p>
+        </div>
+      )}
+      {merchants.length > 0 && (
+        <div className="sm:col-span-4">
+          <label className="label">Merchants</label>
+          <div className="flex flex-wrap items-center gap-2">
+            {value.merchantIds?.map((id) => (
+              <button
+                key={id}
+                type="button"
+                onClick={() =>
+                  onChange({ ...value, merchantIds: toggleIn(value.merchantIds, id) as string[] })
+                }
+                className="badge badge-gray text-xs"
+                title="Remove"
+              >
+                {merchants.find((m) => m.id === id)?.name ?? 'Unknown merchant'} ×
+              </button>
+            ))}
+            <select
+              value=""
+              onChange={(e) =>
+                e.target.value &&
+                onChange({
+                  ...value,
+                  merchantIds: toggleIn(value.merchantIds, e.target.value) as string[],
+                })
+              }
+              className="input w-48"
+            >
+              <option value="">Add merchant…</option>
+              {merchants
+                .filter((m) => !value.merchantIds?.includes(m.id))
+                .map((merchant) => (
+                  <option key={merchant.id} value={merchant.id}>
+                    {merchant.name}
+                  </option>
+                ))}
+            </select>
+          </div>
+          <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+            Matches every spelling of the merchant. Leave the pattern empty to match on the merchant
+            alone.
+          </p>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,163 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import type { AppRouter } from '@sfam/api';
+import type { inferRouterInputs } from '@trpc/server';
+import { History, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+type RouterInputs = inferRouterInputs<AppRouter>;
+export type RulePreviewTarget = Pick<RouterInputs['rules']['preview'], 'ruleId' | 'draft'>;
+
+interface RulePreviewPanelProps {
+  target: RulePreviewTarget;
+  onClose: () => void;
+}
+
+export function RulePreviewPanel({ target, onClose }: RulePreviewPanelProps) {
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [applied, setApplied] = useState<{ updated: number; skippedManual: number } | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data, isLoading, error } = trpc.rules.preview.useQuery(target);
+
+  const applyMutation = trpc.rules.applyRetroactive.useMutation({
+    onSuccess: (result) => {
+      setApplied(result);
+      setSelectedIds(new Set());
+      utils.rules.preview.invalidate();
+      utils.transactions.invalidate();
+    },
+  });
+
+  // Preselect what the rule would actually change: not manual, not shadowed, different category
+  useEffect(() => {
+    if (!data) return;
+    setSelectedIds(
+      new Set(
+        data.matches
+          .filter((m) => !m.isManual && !m.shadowedBy && (m.wouldChange || !data.setsCategory))
+          .map((m) => m.transaction.id)
+      )
+    );
+  }, [data]);
+
+  const toggle = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  return (
+    <div className="rounded-lg border border-primary-200 dark:border-primary-800 bg-white dark:bg-gray-800 p-4 space-y-4">
+      <div className="flex items-start justify-between gap-4">
+        <div>
+          <h4 className="flex items-center gap-2 text-sm font-semibold text-gray-900 dark:text-white">
+            <History className="h-4 w-4" />
+            Impact on past transactions
+          </h4>
+          {data && (
+            <p className="text-xs text-gray-500 dark:text-gray-400">
+              {data.totalMatches} match{data.totalMatches === 1 ? '' : 'es'} · {data.changeCount}{' '}
+              would change · {data.shadowedCount} shadowed · {data.manualCount} set by hand
+              {data.totalMatches > data.matches.length && ` · showing ${data.matches.length}`}
+            </p>
+          )}
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 rounded"
+        >
+          <X className="h-4 w-4" />
+        </button>
+      </div>
+
+      {isLoading && <p className="text-sm text-gray-500">Scanning transactions...</p>}
+      {error && <p className="text-sm text-danger-700 dark:text-danger-400">{error.message}</p>}
+
+      {data && data.matches.length === 0 && (
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          The rule matches no past transactions
+        </p>
+      )}
+
+      {data && data.matches.length > 0 && (
+        <div className="max-h-80 overflow-y-auto divide-y divide-gray-100 dark:divide-gray-700">
+          {data.matches.map(({ transaction, isManual, shadowedBy }) => (
+            <label
+              key={transaction.id}
+              className={cn(
+                'flex items-center gap-3 py-2 text-sm',
+                isManual ? 'opacity-60' : 'cursor-pointer'
+              )}
+            >
+              <input
+                type="checkbox"
+                checked={selectedIds.has(transaction.id)}
+                disabled={isManual}
+                onChange={() => toggle(transaction.id)}
+                className="rounded"
+              />
+              <span className="w-24 shrink-0 text-gray-500 dark:text-gray-400">
+                {formatDate(transaction.date)}
+              </span>
+              <span className="flex-1 min-w-0 truncate text-gray-900 dark:text-white">
+                {transaction.merchant || transaction.description}
+              </span>
+              <span className="shrink-0 text-gray-600 dark:text-gray-300">
+                {transaction.category
+                  ? `${transaction.category.icon ?? ''} ${transaction.category.name}`
+                  : 'Uncategorized'}
+              </span>
+              {isManual && <span className="badge badge-gray text-xs">Manual</span>}
+              {shadowedBy && (
+                <span
+                  className="badge badge-warning text-xs"
+                  title={`A ${shadowedBy.type} rule (priority ${shadowedBy.priority}) wins on import`}
+                >
+                  Shadowed by {shadowedBy.pattern || '*'}
+                </span>
+              )}
+              <span className="w-24 shrink-0 text-right font-medium text-gray-900 dark:text-white">
+                {formatCurrency(transaction.amount)}
+              </span>
+            </label>
+          ))}
+        </div>
+      )}
+
+      {applyMutation.isError && (
+        <p className="text-sm text-danger-700 dark:text-danger-400">
+          {applyMutation.error.message}
+        </p>
+      )}
+      {applied && (
+        <p className="text-sm text-success-600 dark:text-success-400">
+          Updated {applied.updated} transaction(s)
+          {applied.skippedManual > 0 && `, skipped ${applied.skippedManual} set by hand`}
+        </p>
+      )}
+
+      {data && data.matches.length > 0 && (
+        <div className="flex justify-end">
+          <button
+            onClick={() =>
+              applyMutation.mutate({ ...target, transactionIds: Array.from(selectedIds) })
+            }
+            disabled={selectedIds.size === 0 || applyMutation.isPending}
+            className="btn-primary"
+          >
+            {applyMutation.isPending ? 'Applying...' : `Apply to ${selectedIds.size} selected`}
+          </button>
+        </div>
+      )}
+    </div>
+  );
+}
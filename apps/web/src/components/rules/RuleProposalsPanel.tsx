@@ -0,0 +1,191 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { cn, formatCurrency, formatDate, formatPercent } from '@/lib/utils';
+import type { AppRouter } from '@sfam/api';
+import type { RuleProposalKind } from '@sfam/domain';
+import type { inferRouterOutputs } from '@trpc/server';
+import { Check, ChevronDown, ChevronRight, Lightbulb, X } from 'lucide-react';
+import { useState } from 'react';
+
+type RouterOutputs = inferRouterOutputs<AppRouter>;
+type Proposal = RouterOutputs['rules']['proposals'][number];
+
+const KIND_LABELS: Record<RuleProposalKind, { label: string; badge: string }> = {
+  create_rule: { label: 'New rule', badge: 'badge-success' },
+  lower_priority: { label: 'Lower priority', badge: 'badge-warning' },
+  deactivate: { label: 'Deactivate', badge: 'badge-danger' },
+};
+
+const categoryLabel = (category: { name: string; icon: string | null } | null) =>
+  category ? `${category.icon ?? ''} ${category.name}` : 'Uncategorized';
+
+function ProposalSummary({ proposal }: { proposal: Proposal }) {
+  const rule = proposal.payload.rule;
+  if (proposal.kind === 'create_rule' && rule) {
+    return (
+      <span className="inline-flex items-center gap-1 min-w-0">
+        <span className="text-gray-500 dark:text-gray-400">{rule.type}</span>
+        <code className="font-mono text-xs bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded truncate">
+          {rule.pattern}
+        </code>
+        <span className="text-gray-400">→</span>
+        <span className="truncate">{categoryLabel(proposal.category)}</span>
+      </span>
+    );
+  }
+
+  return (
+    <span className="inline-flex items-center gap-1 min-w-0">
+      <code className="font-mono text-xs bg-gray-100 dark:bg-gray-700 px-1.5 py-0.5 rounded truncate">
+        {proposal.rule?.pattern || '*'}
+      </code>
+      <span className="text-gray-400">→</span>
+      <span className="truncate">{categoryLabel(proposal.rule?.category ?? null)}</span>
+      {proposal.kind === 'lower_priority' && (
+        <span className="text-gray-500 dark:text-gray-400">
+          · priority {proposal.rule?.priority} → {proposal.payload.priority}
+        </span>
+      )}
+    </span>
+  );
+}
+
+/**
+ * Queue of rule changes learned from corrections, each with the corrections behind it
+ * Renders nothing while the queue is empty
+ */
+export function RuleProposalsPanel() {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: proposals = [] } = trpc.rules.proposals.useQuery();
+
+  const onResolved = () => {
+    utils.rules.proposals.invalidate();
+    utils.rules.list.invalidate();
+  };
+  const approveMutation = trpc.rules.approveProposal.useMutation({ onSuccess: onResolved });
+  const dismissMutation = trpc.rules.dismissProposal.useMutation({ onSuccess: onResolved });
+  const isResolving = approveMutation.isPending || dismissMutation.isPending;
+
+  if (proposals.length === 0) return null;
+
+  return (
+    <div className="card border-2 border-success-200 dark:border-success-800">
+      <div className="mb-4">
+        <h3 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+          <Lightbulb className="h-5 w-5" />
+          Suggested from your corrections
+        </h3>
+        <p className="text-sm text-gray-500 dark:text-gray-400">
+          {proposals.length} suggestion(s) based on transactions you recategorized by hand
+        </p>
+      </div>
+
+      {(approveMutation.isError || dismissMutation.isError) && (
+        <p className="mb-2 text-sm text-danger-700 dark:text-danger-400">
+          {approveMutation.error?.message ?? dismissMutation.error?.message}
+        </p>
+      )}
+
+      <div className="space-y-2">
+        {proposals.map((proposal) => {
+          const isExpanded = expandedId === proposal.id;
+          const evidence = proposal.evidence;
+          return (
+            <div
+              key={proposal.id}
+              className="rounded-lg border border-gray-200 dark:border-gray-700 px-4 py-3 text-sm"
+            >
+              <div className="flex flex-wrap items-center gap-3">
+                <span
+                  className={cn(
+                    'badge text-xs',
+                    KIND_LABELS[proposal.kind as RuleProposalKind]?.badge ?? 'badge-gray'
+                  )}
+                >
+                  {KIND_LABELS[proposal.kind as RuleProposalKind]?.label ?? proposal.kind}
+                </span>
+                <div className="flex-1 min-w-0 space-y-1">
+                  <div className="text-gray-900 dark:text-white">
+                    <ProposalSummary proposal={proposal} />
+                  </div>
+                  <p className="text-xs text-gray-500 dark:text-gray-400">
+                    {proposal.reason}
+                    {evidence?.overrideRate !== undefined &&
+                      ` · ${formatPercent(evidence.overrideRate)} overridden`}
+                    {proposal.topCategory &&
+                      ` · usually moved to ${categoryLabel(proposal.topCategory)}`}
+                  </p>
+                </div>
+                <div className="flex items-center gap-1">
+                  <button
+                    onClick={() => setExpandedId(isExpanded ? null : proposal.id)}
+                    className="btn btn-sm btn-outline"
+                  >
+                    {isExpanded ? (
+                      <ChevronDown className="h-4 w-4 mr-1" />
+                    ) : (
+                      <ChevronRight className="h-4 w-4 mr-1" />
+                    )}
+                    Evidence
+                  </button>
+                  <button
+                    onClick={() => approveMutation.mutate(proposal.id)}
+                    disabled={isResolving}
+                    className="btn btn-sm btn-primary"
+                  >
+                    <Check className="h-4 w-4 mr-1" />
+                    Approve
+                  </button>
+                  <button
+                    onClick={() => dismissMutation.mutate(proposal.id)}
+                    disabled={isResolving}
+                    className="btn btn-sm btn-outline"
+                    title="Dismiss; this suggestion won't be made again"
+                  >
+                    <X className="h-4 w-4 mr-1" />
+                    Dismiss
+                  </button>
+                </div>
+              </div>
+
+              {isExpanded && (
+                <div className="mt-3 divide-y divide-gray-100 dark:divide-gray-700">
+                  {proposal.transactions.length === 0 && (
+                    <p className="py-2 text-gray-500 dark:text-gray-400">
+                      {evidence?.examples.join(', ') || 'The corrected transactions were deleted'}
+                    </p>
+                  )}
+                  {proposal.transactions.map((transaction) => (
+                    <div key={transaction.id} className="flex items-center gap-3 py-2">
+                      <span className="w-24 shrink-0 text-gray-500 dark:text-gray-400">
+                        {formatDate(transaction.date)}
+                      </span>
+                      <span className="flex-1 min-w-0 truncate text-gray-900 dark:text-white">
+                        {transaction.merchant || transaction.description}
+                      </span>
+                      <span className="shrink-0 text-gray-600 dark:text-gray-300">
+                        {categoryLabel(transaction.category)}
+                      </span>
+                      <span className="w-24 shrink-0 text-right font-medium text-gray-900 dark:text-white">
+                        {formatCurrency(transaction.amount)}
+                      </span>
+                    </div>
+                  ))}
+                  {evidence && evidence.corrections > proposal.transactions.length && (
+                    <p className="pt-2 text-xs text-gray-500 dark:text-gray-400">
+                      Showing the latest {proposal.transactions.length} of {evidence.corrections}{' '}
+                      corrected transactions
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
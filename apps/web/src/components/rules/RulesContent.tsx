@@ -1,23 +1,43 @@
 'use client';
 
 import { trpc } from '@/lib/trpc/client';
-import { cn } from '@/lib/utils';
+import { cn, formatDate, formatPercent } from '@/lib/utils';
 import type { AppRouter } from '@sfam/api';
+import type { RuleAction, RuleConditions } from '@sfam/domain';
 import type { inferRouterOutputs } from '@trpc/server';
 import {
   AlertTriangle,
   Check,
+  FlaskConical,
+  History,
+  Lightbulb,
   Minus,
   Plus,
+  SlidersHorizontal,
+  Stethoscope,
   ToggleLeft,
   ToggleRight,
   Trash2,
   X,
 } from 'lucide-react';
 import { useEffect, useState } from 'react';
+import { RuleActionsEditor, cleanRuleActions, formatRuleActions } from './RuleActionsEditor';
+import { RuleAnalysisPanel } from './RuleAnalysisPanel';
+import {
+  RuleConditionsEditor,
+  cleanRuleConditions,
+  formatRuleConditions,
+} from './RuleConditionsEditor';
+import { RulePreviewPanel, type RulePreviewTarget } from './RulePreviewPanel';
+import { RuleProposalsPanel } from './RuleProposalsPanel';
 
 type RouterOutputs = inferRouterOutputs<AppRouter>;
 type Rule = RouterOutputs['rules']['list'][number];
+type RuleSort = 'priority' | 'matchCount' | 'lastMatchedAt' | 'overrideRate';
+
+// Rules overridden this often, with enough matches to tell, are flagged in the list
+const HIGH_OVERRIDE_RATE = 0.3;
+const MIN_MATCHES_FOR_RATE = 5;
 
 interface Category {
   id: string;
@@ -27,18 +47,34 @@ interface Category {
 
 export function RulesContent({ categories }: { categories: Category[] }) {
   const [showInactive, setShowInactive] = useState(false);
+  const [showAnalysis, setShowAnalysis] = useState(false);
+  const [sortBy, setSortBy] = useState<RuleSort>('priority');
   const [newRule, setNewRule] = useState<{
     type: string;
     pattern: string;
     categoryId: string;
+    conditions: RuleConditions;
+    actions: RuleAction[];
+  } | null>(null);
+  const [sample, setSample] = useState({ text: '', amount: '', date: '' });
+  const [testResult, setTestResult] = useState<{ matches: boolean; error?: string } | null>(null);
+  const [editingRule, setEditingRule] = useState<{
+    ruleId: string;
+    conditions: RuleConditions;
+    actions: RuleAction[];
   } | null>(null);
+  // Preview of a saved rule (keyed by its id) or of the new-rule draft (keyed 'new')
+  const [preview, setPreview] = useState<{ key: string; target: RulePreviewTarget } | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
 
   const utils = trpc.useUtils();
 
   const { data: rules = [] } = trpc.rules.list.useQuery({
     includeInactive: showInactive,
+    sortBy,
   });
+  const { data: accounts = [] } = trpc.accounts.list.useQuery();
+  const { data: merchants = [] } = trpc.merchants.list.useQuery();
 
   const createMutation = trpc.rules.create.useMutation({
     onSuccess: () => {
@@ -47,6 +83,13 @@ export function RulesContent({ categories }: { categories: Category[] }) {
     },
   });
 
+  const updateMutation = trpc.rules.update.useMutation({
+    onSuccess: () => {
+      utils.rules.list.invalidate();
+      setEditingRule(null);
+    },
+  });
+
   const toggleMutation = trpc.rules.toggle.useMutation({
     onSuccess: () => utils.rules.list.invalidate(),
   });
@@ -76,17 +119,71 @@ export function RulesContent({ categories }: { categories: Category[] }) {
     },
   });
 
+  const mineProposalsMutation = trpc.rules.mineProposals.useMutation({
+    onSuccess: (data) => {
+      utils.rules.proposals.invalidate();
+      if (data.pending === 0) {
+        alert('No suggestions: your corrections show no repeated patterns yet');
+      }
+    },
+  });
+
   const { data: brokenRules = [] } = trpc.rules.getBrokenRules.useQuery();
 
+  const newRuleConditions = newRule ? cleanRuleConditions(newRule.conditions) : null;
+  const newRuleActions = newRule ? cleanRuleActions(newRule.actions) : null;
+  const canCreateRule =
+    !!newRule &&
+    (!!newRule.categoryId || !!newRuleActions) &&
+    (!!newRule.pattern.trim() || !!newRuleConditions);
+
   const handleCreateRule = () => {
-    if (!newRule?.type || !newRule?.pattern || !newRule?.categoryId) return;
+    if (!newRule || !canCreateRule) return;
     createMutation.mutate({
       type: newRule.type as 'merchant' | 'keyword' | 'regex',
       pattern: newRule.pattern,
-      categoryId: newRule.categoryId,
+      categoryId: newRule.categoryId || null,
+      conditions: newRuleConditions,
+      actions: newRuleActions,
+    });
+  };
+
+  const handleTestRule = async () => {
+    if (!newRule) return;
+    const result = await utils.rules.test.fetch({
+      type: newRule.type as 'merchant' | 'keyword' | 'regex',
+      pattern: newRule.pattern,
+      conditions: newRuleConditions,
+      testText: sample.text,
+      amount: sample.amount ? Number(sample.amount) : undefined,
+      direction: newRule.conditions.direction,
+      date: sample.date ? new Date(sample.date) : undefined,
+    });
+    setTestResult(result);
+  };
+
+  const handlePreviewNewRule = () => {
+    if (!newRule || !canCreateRule) return;
+    setPreview({
+      key: 'new',
+      target: {
+        draft: {
+          type: newRule.type as 'merchant' | 'keyword' | 'regex',
+          pattern: newRule.pattern,
+          categoryId: newRule.categoryId || null,
+          conditions: newRuleConditions,
+          actions: newRuleActions,
+        },
+      },
     });
   };
 
+  const openNewRule = () => {
+    setNewRule({ type: 'merchant', pattern: '', categoryId: '', conditions: {}, actions: [] });
+    setSample({ text: '', amount: '', date: '' });
+    setTestResult(null);
+  };
+
   const toggleSelection = (id: string) => {
     setSelectedIds((prev) => {
       const next = new Set(prev);
@@ -174,6 +271,29 @@ export function RulesContent({ categories }: { categories: Category[] }) {
             />
             Show inactive
           </label>
+          <select
+            value={sortBy}
+            onChange={(e) => setSortBy(e.target.value as RuleSort)}
+            className="input w-auto"
+          >
+            <option value="priority">Sort by priority</option>
+            <option value="matchCount">Most matches</option>
+            <option value="lastMatchedAt">Recently matched</option>
+            <option value="overrideRate">Most overridden</option>
+          </select>
+          <button onClick={() => setShowAnalysis(!showAnalysis)} className="btn btn-outline">
+            <Stethoscope className="h-4 w-4 mr-2" />
+            Analyze
+          </button>
+          <button
+            onClick={() => mineProposalsMutation.mutate()}
+            disabled={mineProposalsMutation.isPending}
+            className="btn btn-outline"
+            title="Look for rules to add or tune in the transactions you recategorized"
+          >
+            <Lightbulb className="h-4 w-4 mr-2" />
+            {mineProposalsMutation.isPending ? 'Learning...' : 'Learn from corrections'}
+          </button>
           {brokenRules.length > 0 && (
             <button
               onClick={() => {
@@ -205,10 +325,7 @@ export function RulesContent({ categories }: { categories: Category[] }) {
             <AlertTriangle className="h-4 w-4 mr-2" />
             Clear All
           </button>
-          <button
-            onClick={() => setNewRule({ type: 'merchant', pattern: '', categoryId: '' })}
-            className="btn-primary"
-          >
+          <button onClick={openNewRule} className="btn-primary">
             <Plus className="h-4 w-4 mr-2" />
             Add Rule
           </button>
@@ -256,6 +373,12 @@ export function RulesContent({ categories }: { categories: Category[] }) {
         </div>
       )}
 
+      {/* Proposals learned from corrections */}
+      <RuleProposalsPanel />
+
+      {/* Rule Health */}
+      {showAnalysis && <RuleAnalysisPanel onClose={() => setShowAnalysis(false)} />}
+
       {/* New Rule Form */}
       {newRule && (
         <div className="card border-2 border-primary-200 bg-primary-50">
@@ -290,7 +413,7 @@ export function RulesContent({ categories }: { categories: Category[] }) {
                 onChange={(e) => setNewRule({ ...newRule, categoryId: e.target.value })}
                 className="input"
               >
-                <option value="">Select category...</option>
+                <option value="">No category (actions only)</option>
                 {categories.map((cat) => (
                   <option key={cat.id} value={cat.id}>
                     {cat.icon} {cat.name}
@@ -301,7 +424,7 @@ export function RulesContent({ categories }: { categories: Category[] }) {
             <div className="flex items-end gap-2">
               <button
                 onClick={handleCreateRule}
-                disabled={!newRule.pattern || !newRule.categoryId || createMutation.isPending}
+                disabled={!canCreateRule || createMutation.isPending}
                 className="btn-primary flex-1"
               >
                 {createMutation.isPending ? 'Creating...' : 'Create'}
@@ -311,6 +434,97 @@ export function RulesContent({ categories }: { categories: Category[] }) {
               </button>
             </div>
           </div>
+
+          {/* Conditions */}
+          <div className="mt-4 pt-4 border-t border-primary-200 dark:border-primary-800">
+            <h4 className="text-sm font-semibold mb-1">Conditions (optional)</h4>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Every condition you set must hold. With conditions set, the pattern can be left empty
+              to match any text.
+            </p>
+            <RuleConditionsEditor
+              value={newRule.conditions}
+              onChange={(conditions) => setNewRule({ ...newRule, conditions })}
+              accounts={accounts}
+              merchants={merchants}
+            />
+          </div>
+
+          {/* Actions */}
+          <div className="mt-4 pt-4 border-t border-primary-200 dark:border-primary-800">
+            <h4 className="text-sm font-semibold mb-1">Actions (optional)</h4>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mb-3">
+              Run on every matching transaction during import and when re-applying rules. A rule
+              needs a category, an action, or both.
+            </p>
+            <RuleActionsEditor
+              value={newRule.actions}
+              onChange={(actions) => setNewRule({ ...newRule, actions })}
+            />
+          </div>
+
+          {/* Try it */}
+          <div className="mt-4 pt-4 border-t border-primary-200 dark:border-primary-800">
+            <h4 className="text-sm font-semibold mb-3">Try it</h4>
+            <div className="grid grid-cols-1 gap-4 sm:grid-cols-4">
+              <input
+                type="text"
+                value={sample.text}
+                onChange={(e) => setSample({ ...sample, text: e.target.value })}
+                placeholder="Description or merchant"
+                className="input"
+              />
+              <input
+                type="number"
+                min="0"
+                step="0.01"
+                value={sample.amount}
+                onChange={(e) => setSample({ ...sample, amount: e.target.value })}
+                placeholder="Amount"
+                className="input"
+              />
+              <input
+                type="date"
+                value={sample.date}
+                onChange={(e) => setSample({ ...sample, date: e.target.value })}
+                className="input"
+              />
+              <div className="flex items-center gap-3">
+                <button onClick={handleTestRule} className="btn btn-outline">
+                  <FlaskConical className="h-4 w-4 mr-1" />
+                  Test
+                </button>
+                {testResult && (
+                  <span
+                    className={cn(
+                      'text-sm font-medium',
+                      testResult.matches ? 'text-success-600' : 'text-gray-500'
+                    )}
+                  >
+                    {testResult.error ?? (testResult.matches ? 'Matches' : 'No match')}
+                  </span>
+                )}
+              </div>
+            </div>
+            <div className="mt-4 flex items-center gap-3">
+              <button
+                onClick={handlePreviewNewRule}
+                disabled={!canCreateRule}
+                className="btn btn-outline"
+              >
+                <History className="h-4 w-4 mr-1" />
+                Preview on past transactions
+              </button>
+              <span className="text-xs text-gray-500 dark:text-gray-400">
+                See what the rule would match before creating it
+              </span>
+            </div>
+            {preview?.key === 'new' && (
+              <div className="mt-4">
+                <RulePreviewPanel target={preview.target} onClose={() => setPreview(null)} />
+              </div>
+            )}
+          </div>
         </div>
       )}
 
@@ -354,77 +568,198 @@ export function RulesContent({ categories }: { categories: Category[] }) {
 
             <div className="space-y-2">
               {typeRules.map((rule) => {
-                const isBroken = !rule.category;
+                const isBroken = !!rule.categoryId && !rule.category;
+                const isOftenOverridden =
+                  rule.matchCount >= MIN_MATCHES_FOR_RATE &&
+                  rule.overrideRate >= HIGH_OVERRIDE_RATE;
                 return (
-                  <div
-                    key={rule.id}
-                    className={cn(
-                      'flex items-center gap-4 rounded-lg border px-4 py-3',
-                      !rule.isActive
-                        ? 'border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 opacity-60'
-                        : isBroken
-                          ? 'border-warning-500 bg-warning-50 dark:bg-warning-900/20'
-                          : 'border-gray-200 dark:border-gray-700',
-                      selectedIds.has(rule.id) && 'ring-2 ring-primary-500'
-                    )}
-                  >
-                    <button
-                      onClick={() => toggleSelection(rule.id)}
-                      className={cn(
-                        'flex items-center justify-center w-5 h-5 rounded border-2 transition-colors',
-                        selectedIds.has(rule.id)
-                          ? 'bg-primary-500 border-primary-500 text-white'
-                          : 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
-                      )}
-                    >
-                      {selectedIds.has(rule.id) && <Check className="h-3 w-3" />}
-                    </button>
-                    <code className="flex-1 font-mono text-sm bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded text-gray-900 dark:text-gray-100">
-                      {rule.pattern}
-                    </code>
-                    <span className="text-gray-500 dark:text-gray-400">→</span>
-                    <span
+                  <div key={rule.id} className="space-y-2">
+                    <div
                       className={cn(
-                        'flex items-center gap-1 text-sm font-medium',
-                        isBroken
-                          ? 'text-warning-700 dark:text-warning-400'
-                          : 'text-gray-900 dark:text-white'
+                        'flex items-center gap-4 rounded-lg border px-4 py-3',
+                        !rule.isActive
+                          ? 'border-gray-200 dark:border-gray-700 bg-gray-50 dark:bg-gray-800 opacity-60'
+                          : isBroken
+                            ? 'border-warning-500 bg-warning-50 dark:bg-warning-900/20'
+                            : 'border-gray-200 dark:border-gray-700',
+                        selectedIds.has(rule.id) && 'ring-2 ring-primary-500'
                       )}
                     >
-                      {isBroken ? (
-                        <>
-                          <AlertTriangle className="h-4 w-4" />
-                          <span className="italic">Deleted category</span>
-                        </>
-                      ) : (
-                        <>
-                          <span>{rule.category?.icon}</span>
-                          {rule.category?.name}
-                        </>
-                      )}
-                    </span>
-                    <div className="flex items-center gap-1">
                       <button
-                        onClick={() => toggleMutation.mutate(rule.id)}
-                        className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                        onClick={() => toggleSelection(rule.id)}
+                        className={cn(
+                          'flex items-center justify-center w-5 h-5 rounded border-2 transition-colors',
+                          selectedIds.has(rule.id)
+                            ? 'bg-primary-500 border-primary-500 text-white'
+                            : 'border-gray-300 dark:border-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700'
+                        )}
+                      >
+                        {selectedIds.has(rule.id) && <Check className="h-3 w-3" />}
+                      </button>
+                      <div className="flex-1 flex flex-wrap items-center gap-2 min-w-0">
+                        <code className="font-mono text-sm bg-gray-100 dark:bg-gray-700 px-2 py-1 rounded text-gray-900 dark:text-gray-100">
+                          {rule.pattern || '*'}
+                        </code>
+                        {rule.conditions &&
+                          formatRuleConditions(rule.conditions, accounts, merchants).map((part) => (
+                            <span key={part} className="badge badge-gray text-xs">
+                              {part}
+                            </span>
+                          ))}
+                        {rule.actions &&
+                          formatRuleActions(rule.actions).map((part) => (
+                            <span key={part} className="badge badge-primary text-xs">
+                              {part}
+                            </span>
+                          ))}
+                      </div>
+                      <span
+                        className="hidden sm:block text-xs text-right text-gray-500 dark:text-gray-400"
+                        title={`${rule.overrideCount} of ${rule.matchCount} matches were recategorized by hand`}
+                      >
+                        {rule.matchCount} match{rule.matchCount === 1 ? '' : 'es'}
+                        {rule.lastMatchedAt && ` · ${formatDate(rule.lastMatchedAt)}`}
+                        {rule.overrideCount > 0 && (
+                          <span
+                            className={cn(
+                              'block',
+                              isOftenOverridden &&
+                                'font-medium text-warning-600 dark:text-warning-400'
+                            )}
+                          >
+                            {formatPercent(rule.overrideRate)} overridden
+                          </span>
+                        )}
+                      </span>
+                      <span className="text-gray-500 dark:text-gray-400">→</span>
+                      <span
+                        className={cn(
+                          'flex items-center gap-1 text-sm font-medium',
+                          isBroken
+                            ? 'text-warning-700 dark:text-warning-400'
+                            : 'text-gray-900 dark:text-white'
+                        )}
                       >
-                        {rule.isActive ? (
-                          <ToggleRight className="h-5 w-5 text-success-500" />
+                        {isBroken ? (
+                          <>
+                            <AlertTriangle className="h-4 w-4" />
+                            <span className="italic">Deleted category</span>
+                          </>
+                        ) : rule.category ? (
+                          <>
+                            <span>{rule.category.icon}</span>
+                            {rule.category.name}
+                          </>
                         ) : (
-                          <ToggleLeft className="h-5 w-5" />
+                          <span className="italic text-gray-500 dark:text-gray-400">
+                            Actions only
+                          </span>
                         )}
-                      </button>
-                      <button
-                        onClick={() => {
-                          if (confirm('Delete this rule?')) {
-                            deleteMutation.mutate(rule.id);
+                      </span>
+                      <div className="flex items-center gap-1">
+                        <button
+                          onClick={() =>
+                            setPreview(
+                              preview?.key === rule.id
+                                ? null
+                                : { key: rule.id, target: { ruleId: rule.id } }
+                            )
                           }
-                        }}
-                        className="p-1.5 text-gray-400 hover:text-danger-600 hover:bg-danger-50 rounded"
-                      >
-                        <Trash2 className="h-4 w-4" />
-                      </button>
+                          className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                          title="Preview on past transactions"
+                        >
+                          <History className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() =>
+                            setEditingRule(
+                              editingRule?.ruleId === rule.id
+                                ? null
+                                : {
+                                    ruleId: rule.id,
+                                    conditions: rule.conditions ?? {},
+                                    actions: rule.actions ?? [],
+                                  }
+                            )
+                          }
+                          className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                          title="Edit conditions and actions"
+                        >
+                          <SlidersHorizontal className="h-4 w-4" />
+                        </button>
+                        <button
+                          onClick={() => toggleMutation.mutate(rule.id)}
+                          className="p-1.5 text-gray-400 hover:text-gray-600 hover:bg-gray-100 rounded"
+                        >
+                          {rule.isActive ? (
+                            <ToggleRight className="h-5 w-5 text-success-500" />
+                          ) : (
+                            <ToggleLeft className="h-5 w-5" />
+                          )}
+                        </button>
+                        <button
+                          onClick={() => {
+                            if (confirm('Delete this rule?')) {
+                              deleteMutation.mutate(rule.id);
+                            }
+                          }}
+                          className="p-1.5 text-gray-400 hover:text-danger-600 hover:bg-danger-50 rounded"
+                        >
+                          <Trash2 className="h-4 w-4" />
+                        </button>
+                      </div>
                     </div>
+
+                    {/* Impact preview */}
+                    {preview?.key === rule.id && (
+                      <RulePreviewPanel target={preview.target} onClose={() => setPreview(null)} />
+                    )}
+
+                    {/* Conditions and actions editor */}
+                    {editingRule?.ruleId === rule.id && (
+                      <div className="rounded-lg border border-primary-200 dark:border-primary-800 bg-primary-50 dark:bg-primary-900/20 p-4 space-y-4">
+                        <RuleConditionsEditor
+                          value={editingRule.conditions}
+                          onChange={(conditions) => setEditingRule({ ...editingRule, conditions })}
+                          accounts={accounts}
+                          merchants={merchants}
+                        />
+                        <div className="pt-4 border-t border-primary-200 dark:border-primary-800">
+                          <RuleActionsEditor
+                            value={editingRule.actions}
+                            onChange={(actions) => setEditingRule({ ...editingRule, actions })}
+                          />
+                        </div>
+                        {updateMutation.isError && (
+                          <p className="text-sm text-danger-700 dark:text-danger-400">
+                            {updateMutation.error.message}
+                          </p>
+                        )}
+                        <div className="flex justify-end gap-2">
+                          <button onClick={() => setEditingRule(null)} className="btn-ghost">
+                            Cancel
+                          </button>
+                          <button
+                            onClick={() =>
+                              updateMutation.mutate({
+                                id: rule.id,
+                                data: {
+                                  conditions: cleanRuleConditions(editingRule.conditions),
+                                  actions: cleanRuleActions(editingRule.actions),
+                                },
+                              })
+                            }
+                            disabled={
+                              updateMutation.isPending ||
+                              (!rule.categoryId && !cleanRuleActions(editingRule.actions))
+                            }
+                            className="btn-primary"
+                          >
+                            {updateMutation.isPending ? 'Saving...' : 'Save'}
+                          </button>
+                        </div>
+                      </div>
+                    )}
                   </div>
                 );
               })}
@@ -0,0 +1,132 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { AlertTriangle, Coins, Upload } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+export function CurrencySettings() {
+  const [baseCurrency, setBaseCurrency] = useState('');
+  const [importResult, setImportResult] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+  const { data: settings } = trpc.currency.settings.useQuery();
+
+  useEffect(() => {
+    if (settings) setBaseCurrency(settings.baseCurrency);
+  }, [settings]);
+
+  const setBaseCurrencyMutation = trpc.currency.setBaseCurrency.useMutation({
+    onSuccess: () => {
+      utils.currency.settings.invalidate();
+      utils.dashboard.invalidate();
+      utils.budgets.invalidate();
+    },
+    onError: (error) => {
+      alert(`Error: ${error.message}`);
+    },
+  });
+
+  const importRatesMutation = trpc.currency.importRates.useMutation({
+    onSuccess: (data) => {
+      setImportResult(
+        `Loaded ${data.imported} rates${data.errors.length > 0 ? `, skipped ${data.errors.length} invalid rows` : ''}`
+      );
+      utils.currency.settings.invalidate();
+      utils.dashboard.invalidate();
+      utils.budgets.invalidate();
+    },
+    onError: (error) => {
+      setImportResult(`Error: ${error.message}`);
+    },
+  });
+
+  const handleRatesFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setImportResult(null);
+    importRatesMutation.mutate({ content: await file.text() });
+  };
+
+  const missingRates = settings?.missingRates ?? [];
+
+  return (
+    <div className="card">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="p-3 bg-primary-100 rounded-lg">
+          <Coins className="h-6 w-6 text-primary-600" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Currency</h2>
+          <p className="text-sm text-gray-600">
+            Reports and budgets are converted into the base currency using your exchange rates
+          </p>
+        </div>
+      </div>
+
+      {missingRates.length > 0 && (
+        <div className="flex items-start gap-2 mb-4 p-3 rounded-lg bg-warning-50 text-sm text-warning-800">
+          <AlertTriangle className="h-4 w-4 mt-0.5" />
+          <span>
+            No exchange rate for {missingRates.join(', ')} - amounts in these currencies are shown
+            unconverted
+          </span>
+        </div>
+      )}
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Base currency */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Base Currency</h3>
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={baseCurrency}
+              onChange={(e) => setBaseCurrency(e.target.value.toUpperCase())}
+              maxLength={3}
+              placeholder="ILS"
+              className="input w-24 uppercase"
+            />
+            <button
+              onClick={() => setBaseCurrencyMutation.mutate(baseCurrency)}
+              disabled={
+                setBaseCurrencyMutation.isPending ||
+                baseCurrency.length !== 3 ||
+                baseCurrency === settings?.baseCurrency
+              }
+              className="btn btn-outline"
+            >
+              {setBaseCurrencyMutation.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+          {settings && settings.accountCurrencies.length > 0 && (
+            <p className="text-xs text-gray-500">
+              Account currencies: {settings.accountCurrencies.join(', ')}
+            </p>
+          )}
+        </div>
+
+        {/* Exchange rates */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Exchange Rates</h3>
+          <p className="text-xs text-gray-500">
+            CSV with date,currency,baseCurrency,rate columns (or the same fields as a JSON array)
+          </p>
+          <label className="btn btn-outline cursor-pointer">
+            <Upload className="h-4 w-4" />
+            {importRatesMutation.isPending ? 'Loading...' : 'Load Rates File'}
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleRatesFile}
+              disabled={importRatesMutation.isPending}
+              className="hidden"
+            />
+          </label>
+          {importResult && <p className="text-sm text-gray-700">{importResult}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,132 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { householdBackupSchema } from '@sfam/domain/schemas';
+import { Download, HardDrive, Upload } from 'lucide-react';
+import { useState } from 'react';
+
+export function HouseholdBackup() {
+  const [includeCredentials, setIncludeCredentials] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [fileError, setFileError] = useState<string | null>(null);
+
+  const utils = trpc.useUtils();
+
+  const restoreMutation = trpc.backup.restore.useMutation({
+    onSuccess: (data) => {
+      alert(
+        `✅ Backup restored\n\n` +
+          `📊 Stats:\n` +
+          `- Categories: ${data.categories}\n` +
+          `- Accounts: ${data.accounts}\n` +
+          `- Balance history: ${data.balanceSnapshots}\n` +
+          `- Transactions: ${data.transactions} (${data.skippedTransactions} already present)\n` +
+          `- Budgets: ${data.budgets}\n` +
+          `- Rules: ${data.rules}\n` +
+          `- Goals: ${data.goals}`
+      );
+      window.location.reload();
+    },
+    onError: (error) => {
+      alert(`Error: ${error.message}`);
+    },
+  });
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    try {
+      const backup = await utils.backup.export.fetch({ includeCredentials });
+      const blob = new Blob([JSON.stringify(backup, null, 2)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `household-backup-${new Date().toISOString().split('T')[0]}.json`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      alert(`Error: ${error instanceof Error ? error.message : 'Export failed'}`);
+    } finally {
+      setIsExporting(false);
+    }
+  };
+
+  const handleRestoreFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    setFileError(null);
+    let json: unknown;
+    try {
+      json = JSON.parse(await file.text());
+    } catch {
+      setFileError('This file is not a valid JSON backup');
+      return;
+    }
+
+    const parsed = householdBackupSchema.safeParse(json);
+    if (!parsed.success) {
+      setFileError(`Invalid backup: ${parsed.error.issues[0]?.message ?? 'unknown format'}`);
+      return;
+    }
+
+    if (!confirm(`Restore ${file.name} into this household?`)) return;
+
+    restoreMutation.mutate({ backup: parsed.data, mode: 'merge' });
+  };
+
+  return (
+    <div className="card">
+      <div className="flex items-start gap-4 mb-6">
+        <div className="p-3 bg-primary-100 rounded-lg">
+          <HardDrive className="h-6 w-6 text-primary-600" />
+        </div>
+        <div className="flex-1">
+          <h2 className="text-lg font-semibold text-gray-900 mb-1">Backup & Restore</h2>
+          <p className="text-sm text-gray-600">
+            Download all household data as a JSON file, or restore one into this household
+          </p>
+        </div>
+      </div>
+
+      <div className="grid gap-6 md:grid-cols-2">
+        {/* Export */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Export</h3>
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={includeCredentials}
+              onChange={(e) => setIncludeCredentials(e.target.checked)}
+            />
+            Include bank connections (credentials stay encrypted)
+          </label>
+          <button onClick={handleExport} disabled={isExporting} className="btn btn-outline">
+            <Download className="h-4 w-4" />
+            {isExporting ? 'Exporting...' : 'Download Backup'}
+          </button>
+        </div>
+
+        {/* Restore */}
+        <div className="space-y-3">
+          <h3 className="text-sm font-semibold text-gray-900">Restore</h3>
+          <p className="text-sm text-gray-700">
+            Merged into this household: records it already has are not added again
+          </p>
+          <label className="btn btn-outline cursor-pointer">
+            <Upload className="h-4 w-4" />
+            {restoreMutation.isPending ? 'Restoring...' : 'Choose Backup File'}
+            <input
+              type="file"
+              accept=".json,application/json"
+              onChange={handleRestoreFile}
+              disabled={restoreMutation.isPending}
+              className="hidden"
+            />
+          </label>
+          {fileError && <p className="text-sm text-danger-700">{fileError}</p>}
+        </div>
+      </div>
+    </div>
+  );
+}
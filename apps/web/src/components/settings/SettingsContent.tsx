@@ -3,6 +3,8 @@
 import { trpc } from '@/lib/trpc/client';
 import { AlertTriangle, RefreshCw, Trash2 } from 'lucide-react';
 import { useState } from 'react';
+import { CurrencySettings } from './CurrencySettings';
+import { HouseholdBackup } from './HouseholdBackup';
 import { PartnerInvites } from './PartnerInvites';
 
 export function SettingsContent() {
@@ -52,6 +54,12 @@ export function SettingsContent() {
       {/* Partner Invites */}
       <PartnerInvites />
 
+      {/* Currency */}
+      <CurrencySettings />
+
+      {/* Backup & Restore */}
+      <HouseholdBackup />
+
       {/* Category Migration */}
       <div className="card border-blue-200 bg-blue-50">
         <div className="flex items-start gap-4">
@@ -5,17 +5,19 @@ interface AICategoryBadgeProps {
   source: string | null;
   confidence?: number | null;
   categoryName?: string | null;
+  reasoning?: string | null; // The model's explanation, stored with the transaction
   className?: string;
 }
 
 /**
  * Visual indicator for AI-suggested categories
- * Shows a sparkle icon and confidence score
+ * Shows a sparkle icon and confidence score; the tooltip carries the model's reasoning
  */
 export function AICategoryBadge({
   source,
   confidence,
   categoryName,
+  reasoning,
   className,
 }: AICategoryBadgeProps) {
   // Only show for AI suggestions
@@ -32,7 +34,7 @@ export function AICategoryBadge({
         'bg-purple-100 text-purple-800 border border-purple-200',
         className
       )}
-      title={`AI suggested ${categoryName || 'this category'} with ${confidencePercent}% confidence`}
+      title={`AI suggested ${categoryName || 'this category'} with ${confidencePercent}% confidence${reasoning ? `: ${reasoning}` : ''}`}
     >
       <Sparkles className="h-3 w-3" />
       <span>AI: {confidencePercent}%</span>
@@ -46,7 +48,8 @@ export function AICategoryBadge({
 export function AICategoryBadgeCompact({
   source,
   confidence,
-}: Pick<AICategoryBadgeProps, 'source' | 'confidence'>) {
+  reasoning,
+}: Pick<AICategoryBadgeProps, 'source' | 'confidence' | 'reasoning'>) {
   if (source !== 'ai_suggestion') {
     return null;
   }
@@ -56,7 +59,7 @@ export function AICategoryBadgeCompact({
   return (
     <span
       className="inline-flex items-center"
-      title={`AI suggested (${confidencePercent}% confidence)`}
+      title={`AI suggested (${confidencePercent}% confidence)${reasoning ? `: ${reasoning}` : ''}`}
     >
       <Sparkles className="h-3.5 w-3.5 text-purple-600" />
     </span>
@@ -0,0 +1,126 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { formatCurrency } from '@/lib/utils';
+import { Target, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+interface GoalTagTransaction {
+  id: string;
+  description: string;
+  amount: number;
+  goalId?: string | null;
+}
+
+interface GoalTagDialogProps {
+  transaction: GoalTagTransaction | null;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+export function GoalTagDialog({ transaction, onClose, onSuccess }: GoalTagDialogProps) {
+  const [goalId, setGoalId] = useState('');
+
+  const utils = trpc.useUtils();
+  const { data } = trpc.goals.list.useQuery(undefined, { enabled: !!transaction });
+
+  const tagMutation = trpc.goals.tagTransaction.useMutation({
+    onSuccess: () => {
+      utils.goals.list.invalidate();
+      onSuccess?.();
+      onClose();
+    },
+  });
+
+  useEffect(() => {
+    if (!transaction) return;
+    setGoalId(transaction.goalId ?? '');
+    tagMutation.reset();
+  }, [transaction]);
+
+  if (!transaction) return null;
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    tagMutation.mutate({ transactionId: transaction.id, goalId: goalId || null });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 animate-in fade-in">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-md w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <div className="flex items-center gap-2">
+              <Target className="h-5 w-5 text-primary-600 dark:text-primary-400" />
+              <h2 className="text-xl font-bold text-gray-900 dark:text-white">
+                Contribute to Goal
+              </h2>
+            </div>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {transaction.description} · {formatCurrency(transaction.amount)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+              Goal
+            </label>
+            <select
+              value={goalId}
+              onChange={(e) => setGoalId(e.target.value)}
+              className="input w-full"
+            >
+              <option value="">No goal</option>
+              {(data?.goals ?? []).map((goal) => (
+                <option key={goal.id} value={goal.id}>
+                  {goal.icon || '🎯'} {goal.name}
+                </option>
+              ))}
+            </select>
+            <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+              The full amount counts as a contribution
+            </p>
+          </div>
+
+          {/* Error message */}
+          {tagMutation.isError && (
+            <div className="p-3 bg-danger-50 dark:bg-danger-900/30 border border-danger-200 dark:border-danger-800 rounded-lg">
+              <p className="text-sm text-danger-700 dark:text-danger-400">
+                {tagMutation.error.message}
+              </p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn btn-outline flex-1"
+              disabled={tagMutation.isPending}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary flex-1"
+              disabled={tagMutation.isPending}
+            >
+              {tagMutation.isPending ? 'Saving...' : 'Save'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
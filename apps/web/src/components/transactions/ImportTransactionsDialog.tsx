@@ -0,0 +1,615 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { cn, formatCurrency, formatDate } from '@/lib/utils';
+import { FileUp, Upload, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+interface ImportTransactionsDialogProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSuccess?: (result: { imported: number; duplicates: number; errors: number }) => void;
+}
+
+type StatementFormat = 'csv' | 'ofx' | 'qif';
+type DateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+interface MappingForm {
+  delimiter: string;
+  hasHeader: boolean;
+  skipRows: string;
+  dateFormat: DateFormat;
+  date: string;
+  description: string;
+  amountMode: 'signed' | 'debitCredit';
+  amount: string;
+  debit: string;
+  credit: string;
+  memo: string;
+  invertAmounts: boolean;
+}
+
+const defaultMapping: MappingForm = {
+  delimiter: ',',
+  hasHeader: true,
+  skipRows: '0',
+  dateFormat: 'DD/MM/YYYY',
+  date: '',
+  description: '',
+  amountMode: 'signed',
+  amount: '',
+  debit: '',
+  credit: '',
+  memo: '',
+  invertAmounts: false,
+};
+
+const FORMAT_BY_EXTENSION: Record<string, StatementFormat> = {
+  csv: 'csv',
+  txt: 'csv',
+  ofx: 'ofx',
+  qfx: 'ofx',
+  qif: 'qif',
+};
+
+export function ImportTransactionsDialog({
+  isOpen,
+  onClose,
+  onSuccess,
+}: ImportTransactionsDialogProps) {
+  const [accountId, setAccountId] = useState('');
+  const [format, setFormat] = useState<StatementFormat>('csv');
+  const [fileName, setFileName] = useState('');
+  const [content, setContent] = useState('');
+  const [mapping, setMapping] = useState<MappingForm>(defaultMapping);
+  const [profileId, setProfileId] = useState('');
+  const [profileName, setProfileName] = useState('');
+
+  const utils = trpc.useUtils();
+  const { data: accounts } = trpc.accounts.list.useQuery(undefined, { enabled: isOpen });
+  const { data: profiles } = trpc.transactions.importProfiles.useQuery(undefined, {
+    enabled: isOpen,
+  });
+
+  const previewMutation = trpc.transactions.importPreview.useMutation();
+  const saveProfileMutation = trpc.transactions.saveImportProfile.useMutation({
+    onSuccess: (profile) => {
+      utils.transactions.importProfiles.invalidate();
+      setProfileId(profile.id);
+      setProfileName('');
+    },
+  });
+  const importMutation = trpc.transactions.import.useMutation({
+    onSuccess: (result) => {
+      utils.transactions.list.invalidate();
+      onSuccess?.(result);
+      handleClose();
+    },
+  });
+
+  // Any change to the inputs invalidates the current preview
+  useEffect(() => {
+    previewMutation.reset();
+  }, [accountId, format, content, mapping]);
+
+  const handleClose = () => {
+    setAccountId('');
+    setFormat('csv');
+    setFileName('');
+    setContent('');
+    setMapping(defaultMapping);
+    setProfileId('');
+    setProfileName('');
+    previewMutation.reset();
+    importMutation.reset();
+    onClose();
+  };
+
+  const updateMapping = (patch: Partial<MappingForm>) => {
+    setMapping((prev) => ({ ...prev, ...patch }));
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    const extension = file.name.split('.').pop()?.toLowerCase() ?? '';
+    const detected = FORMAT_BY_EXTENSION[extension];
+    if (detected) setFormat(detected);
+
+    setFileName(file.name);
+    setContent(await file.text());
+  };
+
+  const handleProfileChange = (id: string) => {
+    setProfileId(id);
+    const profile = profiles?.find((p) => p.id === id);
+    if (!profile) return;
+
+    setFormat(profile.format);
+    if (profile.accountId) setAccountId(profile.accountId);
+
+    const columnMapping = profile.columnMapping;
+    if (columnMapping) {
+      // Stored indexes are zero-based; the form shows column numbers
+      const toField = (column: string | number | undefined) =>
+        column === undefined ? '' : typeof column === 'number' ? String(column + 1) : column;
+
+      setMapping({
+        delimiter: columnMapping.delimiter,
+        hasHeader: columnMapping.hasHeader,
+        skipRows: String(columnMapping.skipRows),
+        dateFormat: columnMapping.dateFormat,
+        date: toField(columnMapping.date),
+        description: toField(columnMapping.description),
+        amountMode: columnMapping.amount !== undefined ? 'signed' : 'debitCredit',
+        amount: toField(columnMapping.amount),
+        debit: toField(columnMapping.debit),
+        credit: toField(columnMapping.credit),
+        memo: toField(columnMapping.memo),
+        invertAmounts: columnMapping.invertAmounts,
+      });
+    } else if (profile.dateFormat) {
+      updateMapping({ dateFormat: profile.dateFormat });
+    }
+  };
+
+  // Without a header row, columns are referenced by 1-based number
+  const toColumn = (value: string): string | number | undefined => {
+    const trimmed = value.trim();
+    if (!trimmed) return undefined;
+    if (!mapping.hasHeader && /^\d+$/.test(trimmed)) return Number(trimmed) - 1;
+    return trimmed;
+  };
+
+  const buildCsvMapping = () => ({
+    delimiter: mapping.delimiter === '\\t' ? '\t' : mapping.delimiter,
+    hasHeader: mapping.hasHeader,
+    skipRows: Number.parseInt(mapping.skipRows, 10) || 0,
+    dateFormat: mapping.dateFormat,
+    date: toColumn(mapping.date) ?? '',
+    description: toColumn(mapping.description) ?? '',
+    amount: mapping.amountMode === 'signed' ? toColumn(mapping.amount) : undefined,
+    debit: mapping.amountMode === 'debitCredit' ? toColumn(mapping.debit) : undefined,
+    credit: mapping.amountMode === 'debitCredit' ? toColumn(mapping.credit) : undefined,
+    memo: toColumn(mapping.memo),
+    invertAmounts: mapping.invertAmounts,
+  });
+
+  const buildInput = () => ({
+    accountId,
+    format,
+    content,
+    csvMapping: format === 'csv' ? buildCsvMapping() : undefined,
+    dateFormat: format === 'qif' ? mapping.dateFormat : undefined,
+  });
+
+  const canSubmit = Boolean(accountId && content);
+  const preview = previewMutation.data;
+  const error = previewMutation.error ?? importMutation.error ?? saveProfileMutation.error;
+  const isBusy = previewMutation.isPending || importMutation.isPending;
+
+  const handlePreview = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!canSubmit) return;
+    previewMutation.mutate(buildInput());
+  };
+
+  const handleSaveProfile = () => {
+    if (!profileName.trim()) return;
+    saveProfileMutation.mutate({
+      name: profileName.trim(),
+      format,
+      csvMapping: format === 'csv' ? buildCsvMapping() : undefined,
+      dateFormat: format === 'ofx' ? undefined : mapping.dateFormat,
+      accountId: accountId || undefined,
+    });
+  };
+
+  if (!isOpen) return null;
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 animate-in fade-in">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-2xl w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Import Statement</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              CSV, OFX or QIF exported from your bank
+            </p>
+          </div>
+          <button
+            onClick={handleClose}
+            className="p-2 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handlePreview} className="p-6 space-y-4">
+          {/* Saved profile */}
+          {profiles && profiles.length > 0 && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Saved profile
+              </label>
+              <select
+                value={profileId}
+                onChange={(e) => handleProfileChange(e.target.value)}
+                className="input w-full"
+              >
+                <option value="">None</option>
+                {profiles.map((profile) => (
+                  <option key={profile.id} value={profile.id}>
+                    {profile.name} ({profile.format.toUpperCase()})
+                  </option>
+                ))}
+              </select>
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-3">
+            {/* Account */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Account *
+              </label>
+              <select
+                value={accountId}
+                onChange={(e) => setAccountId(e.target.value)}
+                required
+                className="input w-full"
+              >
+                <option value="">Select account</option>
+                {accounts?.map((account) => (
+                  <option key={account.id} value={account.id}>
+                    {account.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+
+            {/* Format */}
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Format
+              </label>
+              <select
+                value={format}
+                onChange={(e) => setFormat(e.target.value as StatementFormat)}
+                className="input w-full"
+              >
+                <option value="csv">CSV</option>
+                <option value="ofx">OFX / QFX</option>
+                <option value="qif">QIF</option>
+              </select>
+            </div>
+          </div>
+
+          {/* File */}
+          <label className="flex items-center gap-3 p-4 border-2 border-dashed border-gray-300 dark:border-gray-600 rounded-lg cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50">
+            <FileUp className="h-5 w-5 text-gray-400" />
+            <span className="text-sm text-gray-600 dark:text-gray-300">
+              {fileName || 'Choose a statement file'}
+            </span>
+            <input
+              type="file"
+              accept=".csv,.txt,.ofx,.qfx,.qif"
+              onChange={handleFileChange}
+              className="hidden"
+            />
+          </label>
+
+          {/* Date format (CSV and QIF) */}
+          {format !== 'ofx' && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-200 mb-1">
+                Date format
+              </label>
+              <select
+                value={mapping.dateFormat}
+                onChange={(e) => updateMapping({ dateFormat: e.target.value as DateFormat })}
+                className="input w-full"
+              >
+                <option value="DD/MM/YYYY">DD/MM/YYYY</option>
+                <option value="MM/DD/YYYY">MM/DD/YYYY</option>
+                <option value="YYYY-MM-DD">YYYY-MM-DD</option>
+              </select>
+            </div>
+          )}
+
+          {/* CSV column mapping */}
+          {format === 'csv' && (
+            <div className="space-y-3 p-4 bg-gray-50 dark:bg-gray-900/40 rounded-lg">
+              <div className="grid grid-cols-3 gap-3">
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1">
+                    Delimiter
+                  </label>
+                  <input
+                    type="text"
+                    value={mapping.delimiter}
+                    onChange={(e) => updateMapping({ delimiter: e.target.value })}
+                    maxLength={2}
+                    className="input w-full"
+                  />
+                </div>
+                <div>
+                  <label className="block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1">
+                    Skip rows
+                  </label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={mapping.skipRows}
+                    onChange={(e) => updateMapping({ skipRows: e.target.value })}
+                    className="input w-full"
+                  />
+                </div>
+                <label className="flex items-end gap-2 pb-2 text-sm text-gray-700 dark:text-gray-200">
+                  <input
+                    type="checkbox"
+                    checked={mapping.hasHeader}
+                    onChange={(e) => updateMapping({ hasHeader: e.target.checked })}
+                  />
+                  Header row
+                </label>
+              </div>
+
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {mapping.hasHeader
+                  ? 'Enter the column names as they appear in the header row.'
+                  : 'Enter column numbers, starting from 1.'}
+              </p>
+
+              <div className="grid grid-cols-2 gap-3">
+                <MappingInput
+                  label="Date *"
+                  value={mapping.date}
+                  onChange={(date) => updateMapping({ date })}
+                />
+                <MappingInput
+                  label="Description *"
+                  value={mapping.description}
+                  onChange={(description) => updateMapping({ description })}
+                />
+              </div>
+
+              <div className="flex gap-4 text-sm text-gray-700 dark:text-gray-200">
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={mapping.amountMode === 'signed'}
+                    onChange={() => updateMapping({ amountMode: 'signed' })}
+                  />
+                  Single amount column
+                </label>
+                <label className="flex items-center gap-2">
+                  <input
+                    type="radio"
+                    checked={mapping.amountMode === 'debitCredit'}
+                    onChange={() => updateMapping({ amountMode: 'debitCredit' })}
+                  />
+                  Debit / credit columns
+                </label>
+              </div>
+
+              <div className="grid grid-cols-2 gap-3">
+                {mapping.amountMode === 'signed' ? (
+                  <MappingInput
+                    label="Amount *"
+                    value={mapping.amount}
+                    onChange={(amount) => updateMapping({ amount })}
+                  />
+                ) : (
+                  <>
+                    <MappingInput
+                      label="Debit"
+                      value={mapping.debit}
+                      onChange={(debit) => updateMapping({ debit })}
+                    />
+                    <MappingInput
+                      label="Credit"
+                      value={mapping.credit}
+                      onChange={(credit) => updateMapping({ credit })}
+                    />
+                  </>
+                )}
+                <MappingInput
+                  label="Memo"
+                  value={mapping.memo}
+                  onChange={(memo) => updateMapping({ memo })}
+                />
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-200">
+                <input
+                  type="checkbox"
+                  checked={mapping.invertAmounts}
+                  onChange={(e) => updateMapping({ invertAmounts: e.target.checked })}
+                />
+                Positive amounts are expenses (credit card exports)
+              </label>
+            </div>
+          )}
+
+          {/* Save as profile */}
+          <div className="flex gap-2">
+            <input
+              type="text"
+              value={profileName}
+              onChange={(e) => setProfileName(e.target.value)}
+              placeholder="Save these settings as… (e.g. Leumi CSV)"
+              className="input flex-1"
+            />
+            <button
+              type="button"
+              onClick={handleSaveProfile}
+              disabled={!profileName.trim() || saveProfileMutation.isPending}
+              className="btn btn-outline"
+            >
+              Save profile
+            </button>
+          </div>
+
+          {/* Preview */}
+          {preview && (
+            <div className="space-y-3">
+              <div className="grid grid-cols-3 gap-2 text-center">
+                <PreviewCount label="New" count={preview.summary.new} tone="success" />
+                <PreviewCount label="Duplicates" count={preview.summary.duplicate} tone="gray" />
+                <PreviewCount label="Unparseable" count={preview.summary.error} tone="danger" />
+              </div>
+
+              {preview.rows.length > 0 && (
+                <div className="max-h-60 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                  <table className="w-full text-sm">
+                    <tbody>
+                      {preview.rows.map((row) => (
+                        <tr
+                          key={row.externalId}
+                          className={cn(
+                            'border-b border-gray-100 dark:border-gray-700 last:border-0',
+                            row.status === 'duplicate' && 'opacity-50'
+                          )}
+                        >
+                          <td className="px-3 py-2 whitespace-nowrap text-gray-500">
+                            {formatDate(row.date)}
+                          </td>
+                          <td className="px-3 py-2 text-gray-900 dark:text-white">
+                            {row.description}
+                          </td>
+                          <td
+                            className={cn(
+                              'px-3 py-2 text-right whitespace-nowrap',
+                              row.direction === 'income' ? 'text-success-600' : 'text-danger-600'
+                            )}
+                          >
+                            {row.direction === 'income' ? '+' : '-'}
+                            {formatCurrency(row.amount)}
+                          </td>
+                          <td className="px-3 py-2 text-xs text-gray-500">
+                            {row.status === 'duplicate' ? 'Already imported' : 'New'}
+                          </td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              )}
+
+              {preview.errors.length > 0 && (
+                <div className="p-3 bg-warning-50 dark:bg-warning-900/30 border border-warning-200 dark:border-warning-800 rounded-lg space-y-1">
+                  {preview.errors.slice(0, 10).map((rowError) => (
+                    <p
+                      key={rowError.row}
+                      className="text-xs text-warning-700 dark:text-warning-400"
+                      title={rowError.raw}
+                    >
+                      Row {rowError.row}: {rowError.reason}
+                    </p>
+                  ))}
+                  {preview.errors.length > 10 && (
+                    <p className="text-xs text-warning-700 dark:text-warning-400">
+                      …and {preview.errors.length - 10} more
+                    </p>
+                  )}
+                </div>
+              )}
+            </div>
+          )}
+
+          {/* Error message */}
+          {error && (
+            <div className="p-3 bg-danger-50 dark:bg-danger-900/30 border border-danger-200 dark:border-danger-800 rounded-lg">
+              <p className="text-sm text-danger-700 dark:text-danger-400">{error.message}</p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            <button
+              type="button"
+              onClick={handleClose}
+              className="btn btn-outline flex-1"
+              disabled={importMutation.isPending}
+            >
+              Cancel
+            </button>
+            {preview ? (
+              <button
+                type="button"
+                onClick={() => importMutation.mutate(buildInput())}
+                className="btn btn-primary flex-1"
+                disabled={preview.summary.new === 0 || isBusy}
+              >
+                <Upload className="h-4 w-4" />
+                {importMutation.isPending
+                  ? 'Importing...'
+                  : `Import ${preview.summary.new} transaction${preview.summary.new === 1 ? '' : 's'}`}
+              </button>
+            ) : (
+              <button
+                type="submit"
+                className="btn btn-primary flex-1"
+                disabled={!canSubmit || isBusy}
+              >
+                {previewMutation.isPending ? 'Reading file...' : 'Preview'}
+              </button>
+            )}
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
+
+function MappingInput({
+  label,
+  value,
+  onChange,
+}: {
+  label: string;
+  value: string;
+  onChange: (value: string) => void;
+}) {
+  return (
+    <div>
+      <label className="block text-xs font-medium text-gray-600 dark:text-gray-300 mb-1">
+        {label}
+      </label>
+      <input
+        type="text"
+        value={value}
+        onChange={(e) => onChange(e.target.value)}
+        className="input w-full"
+      />
+    </div>
+  );
+}
+
+function PreviewCount({
+  label,
+  count,
+  tone,
+}: {
+  label: string;
+  count: number;
+  tone: 'success' | 'gray' | 'danger';
+}) {
+  return (
+    <div
+      className={cn(
+        'p-3 rounded-lg',
+        tone === 'success' && 'bg-success-50 dark:bg-success-900/30 text-success-700',
+        tone === 'gray' && 'bg-gray-100 dark:bg-gray-700 text-gray-600 dark:text-gray-300',
+        tone === 'danger' && 'bg-danger-50 dark:bg-danger-900/30 text-danger-700'
+      )}
+    >
+      <p className="text-2xl font-bold">{count}</p>
+      <p className="text-xs">{label}</p>
+    </div>
+  );
+}
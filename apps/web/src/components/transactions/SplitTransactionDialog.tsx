@@ -0,0 +1,225 @@
+'use client';
+
+import { trpc } from '@/lib/trpc/client';
+import { cn, formatCurrency } from '@/lib/utils';
+import { Plus, Scissors, Trash2, X } from 'lucide-react';
+import { useEffect, useState } from 'react';
+
+interface Category {
+  id: string;
+  name: string;
+  type: string;
+  icon?: string | null;
+}
+
+interface SplitTransaction {
+  id: string;
+  description: string;
+  amount: number;
+  direction: string;
+  categoryId?: string | null;
+  splits?: Array<{ categoryId: string | null; amount: number; notes: string | null }>;
+}
+
+interface SplitTransactionDialogProps {
+  categories: Category[];
+  transaction: SplitTransaction | null;
+  onClose: () => void;
+  onSuccess?: () => void;
+}
+
+type SplitRow = { categoryId: string; amount: string; notes: string };
+
+const emptyRow = (): SplitRow => ({ categoryId: '', amount: '', notes: '' });
+
+export function SplitTransactionDialog({
+  categories,
+  transaction,
+  onClose,
+  onSuccess,
+}: SplitTransactionDialogProps) {
+  const [rows, setRows] = useState<SplitRow[]>([emptyRow(), emptyRow()]);
+
+  const setSplitsMutation = trpc.transactions.setSplits.useMutation({
+    onSuccess: () => {
+      onSuccess?.();
+      onClose();
+    },
+  });
+
+  // Load existing splits (or start from the current category) when the dialog opens
+  useEffect(() => {
+    if (!transaction) return;
+    if (transaction.splits && transaction.splits.length > 0) {
+      setRows(
+        transaction.splits.map((split) => ({
+          categoryId: split.categoryId ?? '',
+          amount: String(split.amount),
+          notes: split.notes ?? '',
+        }))
+      );
+    } else {
+      setRows([
+        { categoryId: transaction.categoryId ?? '', amount: String(transaction.amount), notes: '' },
+        emptyRow(),
+      ]);
+    }
+    setSplitsMutation.reset();
+  }, [transaction]);
+
+  if (!transaction) return null;
+
+  const filteredCategories = categories.filter((cat) =>
+    transaction.direction === 'income' ? cat.type === 'income' : cat.type === 'expense'
+  );
+
+  const allocated = rows.reduce((sum, row) => sum + (Number.parseFloat(row.amount) || 0), 0);
+  const remaining = Math.round((transaction.amount - allocated) * 100) / 100;
+  const isBalanced = Math.abs(remaining) < 0.005;
+  const hasExistingSplits = (transaction.splits?.length ?? 0) > 0;
+
+  const updateRow = (index: number, patch: Partial<SplitRow>) => {
+    setRows((prev) => prev.map((row, i) => (i === index ? { ...row, ...patch } : row)));
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    setSplitsMutation.mutate({
+      transactionId: transaction.id,
+      splits: rows.map((row) => ({
+        categoryId: row.categoryId || null,
+        amount: Number.parseFloat(row.amount) || 0,
+        notes: row.notes || null,
+      })),
+    });
+  };
+
+  const handleRemoveSplit = () => {
+    setSplitsMutation.mutate({ transactionId: transaction.id, splits: [] });
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center p-4 bg-black/50 animate-in fade-in">
+      <div className="bg-white dark:bg-gray-800 rounded-lg shadow-xl max-w-lg w-full max-h-[90vh] overflow-y-auto">
+        {/* Header */}
+        <div className="flex items-center justify-between p-6 border-b border-gray-200 dark:border-gray-700">
+          <div>
+            <h2 className="text-xl font-bold text-gray-900 dark:text-white">Split Transaction</h2>
+            <p className="text-sm text-gray-500 dark:text-gray-400">
+              {transaction.description} · {formatCurrency(transaction.amount)}
+            </p>
+          </div>
+          <button
+            onClick={onClose}
+            className="p-2 text-gray-400 dark:text-gray-500 hover:text-gray-600 dark:hover:text-gray-300 rounded-lg hover:bg-gray-100 dark:hover:bg-gray-700"
+          >
+            <X className="h-5 w-5" />
+          </button>
+        </div>
+
+        {/* Form */}
+        <form onSubmit={handleSubmit} className="p-6 space-y-4">
+          {rows.map((row, index) => (
+            <div key={index} className="grid grid-cols-12 gap-2 items-start">
+              <select
+                value={row.categoryId}
+                onChange={(e) => updateRow(index, { categoryId: e.target.value })}
+                className="input col-span-5"
+              >
+                <option value="">Uncategorized</option>
+                {filteredCategories.map((cat) => (
+                  <option key={cat.id} value={cat.id}>
+                    {cat.icon} {cat.name}
+                  </option>
+                ))}
+              </select>
+              <input
+                type="number"
+                step="0.01"
+                min="0"
+                value={row.amount}
+                onChange={(e) => updateRow(index, { amount: e.target.value })}
+                placeholder="0.00"
+                className="input col-span-3"
+              />
+              <input
+                type="text"
+                value={row.notes}
+                onChange={(e) => updateRow(index, { notes: e.target.value })}
+                placeholder="Note"
+                className="input col-span-3"
+              />
+              <button
+                type="button"
+                onClick={() => setRows((prev) => prev.filter((_, i) => i !== index))}
+                disabled={rows.length <= 2}
+                className="col-span-1 p-2 text-gray-400 hover:text-danger-600 disabled:opacity-30"
+                title="Remove allocation"
+              >
+                <Trash2 className="h-4 w-4" />
+              </button>
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <button
+              type="button"
+              onClick={() => setRows((prev) => [...prev, emptyRow()])}
+              className="btn btn-sm btn-ghost"
+            >
+              <Plus className="h-4 w-4 mr-1" />
+              Add allocation
+            </button>
+            <span
+              className={cn(
+                'text-sm font-medium',
+                isBalanced ? 'text-success-600' : 'text-warning-600 dark:text-warning-400'
+              )}
+            >
+              {isBalanced ? 'Fully allocated' : `${formatCurrency(remaining)} left to allocate`}
+            </span>
+          </div>
+
+          {/* Error message */}
+          {setSplitsMutation.isError && (
+            <div className="p-3 bg-danger-50 dark:bg-danger-900/30 border border-danger-200 dark:border-danger-800 rounded-lg">
+              <p className="text-sm text-danger-700 dark:text-danger-400">
+                {setSplitsMutation.error.message}
+              </p>
+            </div>
+          )}
+
+          {/* Actions */}
+          <div className="flex gap-3 pt-4">
+            {hasExistingSplits && (
+              <button
+                type="button"
+                onClick={handleRemoveSplit}
+                className="btn btn-outline"
+                disabled={setSplitsMutation.isPending}
+              >
+                Remove split
+              </button>
+            )}
+            <button
+              type="button"
+              onClick={onClose}
+              className="btn btn-outline flex-1"
+              disabled={setSplitsMutation.isPending}
+            >
+              Cancel
+            </button>
+            <button
+              type="submit"
+              className="btn btn-primary flex-1"
+              disabled={!isBalanced || setSplitsMutation.isPending}
+            >
+              <Scissors className="h-4 w-4" />
+              {setSplitsMutation.isPending ? 'Saving...' : 'Save Split'}
+            </button>
+          </div>
+        </form>
+      </div>
+    </div>
+  );
+}
@@ -5,6 +5,7 @@ import { trpc } from '@/lib/trpc/client';
 import { cn, formatCurrency, formatDate, formatMonth } from '@/lib/utils';
 import {
   ArrowLeft,
+  ArrowLeftRight,
   BookmarkPlus,
   Check,
   CheckCheck,
@@ -18,8 +19,11 @@ import {
   Loader2,
   Minus,
   Plus,
+  Scissors,
   Search,
+  Target,
   Trash2,
+  Upload,
   Wand2,
   X,
 } from 'lucide-react';
@@ -28,7 +32,10 @@ import { toast } from 'sonner';
 import { AICategoryBadgeCompact } from './AICategoryBadge';
 import { AddTransactionDialog } from './AddTransactionDialog';
 import { CategoryGroupSummary } from './CategoryGroupSummary';
+import { GoalTagDialog } from './GoalTagDialog';
+import { ImportTransactionsDialog } from './ImportTransactionsDialog';
 import { RecurringBadgeCompact } from './RecurringBadge';
+import { SplitTransactionDialog } from './SplitTransactionDialog';
 import { TransactionSummary } from './TransactionSummary';
 
 type Category = {
@@ -57,6 +64,9 @@ export const TransactionsContent = ({
   const [selectedCategory, setSelectedCategory] = useState<string>('');
   const [editingTransaction, setEditingTransaction] = useState<string | null>(null);
   const [isAddDialogOpen, setIsAddDialogOpen] = useState(false);
+  const [isImportDialogOpen, setIsImportDialogOpen] = useState(false);
+  const [splittingTransactionId, setSplittingTransactionId] = useState<string | null>(null);
+  const [taggingTransactionId, setTaggingTransactionId] = useState<string | null>(null);
   const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
   const [batchCategoryId, setBatchCategoryId] = useState<string>('');
 
@@ -324,6 +334,32 @@ export const TransactionsContent = ({
     },
   });
 
+  const detectTransfersMutation = trpc.transactions.detectTransfers.useMutation({
+    onSuccess: (data) => {
+      refetch();
+      refetchSummary();
+      toast.success(
+        data.paired > 0 ? `Paired ${data.paired} transfer(s)` : 'No new transfers found'
+      );
+    },
+    onError: (error) => {
+      toast.error('Transfer detection failed', {
+        description: error.message,
+      });
+    },
+  });
+
+  const confirmTransferMutation = trpc.transactions.confirmTransfer.useMutation({
+    onSuccess: () => refetch(),
+  });
+
+  const breakTransferMutation = trpc.transactions.breakTransfer.useMutation({
+    onSuccess: () => {
+      refetch();
+      refetchSummary();
+    },
+  });
+
   const toggleIgnoreMutation = trpc.transactions.toggleIgnore.useMutation({
     onSuccess: () => {
       refetch();
@@ -600,6 +636,10 @@ export const TransactionsContent = ({
             <Plus className="h-4 w-4" />
             Add Transaction
           </button>
+          <button onClick={() => setIsImportDialogOpen(true)} className="btn btn-outline">
+            <Upload className="h-4 w-4" />
+            Import
+          </button>
           <div className="flex items-center gap-2">
             <button onClick={() => navigateMonth('prev')} className="btn-outline btn-sm">
               <ChevronLeft className="h-4 w-4" />
@@ -695,6 +735,16 @@ export const TransactionsContent = ({
           {applyCategorizationMutation.isPending ? 'Applying...' : 'Auto-Categorize'}
         </button>
 
+        <button
+          onClick={() => detectTransfersMutation.mutate(undefined)}
+          disabled={detectTransfersMutation.isPending}
+          className="btn btn-outline"
+          title="Pair transfers between your accounts"
+        >
+          <ArrowLeftRight className="h-4 w-4 mr-2" />
+          {detectTransfersMutation.isPending ? 'Detecting...' : 'Detect Transfers'}
+        </button>
+
         <button
           onClick={() => {
             setIsGroupByCategory(!isGroupByCategory);
@@ -968,6 +1018,26 @@ export const TransactionsContent = ({
                           Ignored
                         </span>
                       )}
+                      {tx.transferPeer && (
+                        <div className="flex items-center gap-1 mt-1 text-xs text-gray-500 dark:text-gray-400">
+                          <ArrowLeftRight className="h-3 w-3" />
+                          <span>Transfer with {tx.transferPeer.account.name}</span>
+                          {tx.transferStatus === 'detected' && (
+                            <button
+                              onClick={() => confirmTransferMutation.mutate(tx.id)}
+                              className="text-primary-600 dark:text-primary-400 hover:underline"
+                            >
+                              Confirm
+                            </button>
+                          )}
+                          <button
+                            onClick={() => breakTransferMutation.mutate(tx.id)}
+                            className="text-gray-500 hover:text-danger-600 hover:underline"
+                          >
+                            Not a transfer
+                          </button>
+                        </div>
+                      )}
                     </div>
                   </td>
                   <td className="px-4 py-3">
@@ -997,9 +1067,25 @@ export const TransactionsContent = ({
                           <span>{tx.category?.name || 'Uncategorized'}</span>
                           <ChevronDown className="h-3 w-3" />
                         </button>
+                        {tx.splits.length > 0 && (
+                          <button
+                            onClick={() => setSplittingTransactionId(tx.id)}
+                            className="badge badge-gray text-xs"
+                            title={tx.splits
+                              .map(
+                                (split) =>
+                                  `${split.category?.name ?? 'Uncategorized'}: ${formatCurrency(split.amount)}`
+                              )
+                              .join('\n')}
+                          >
+                            <Scissors className="h-3 w-3 mr-1" />
+                            Split · {tx.splits.length}
+                          </button>
+                        )}
                         <AICategoryBadgeCompact
                           source={tx.categorizationSource}
                           confidence={tx.confidence}
+                          reasoning={tx.aiReasoning}
                         />
                         <RecurringBadgeCompact recurringTemplate={tx.recurringTemplate} />
                       </div>
@@ -1020,11 +1106,19 @@ export const TransactionsContent = ({
                       )}
                     >
                       {tx.direction === 'income' ? '+' : '-'}
-                      {formatCurrency(tx.amount)}
+                      {formatCurrency(tx.amount, tx.account?.currency, {
+                        amount: tx.originalAmount,
+                        currency: tx.originalCurrency,
+                      })}
                     </span>
                   </td>
                   <td className="px-4 py-3 text-right">
                     <div className="flex items-center justify-end gap-1">
+                      {tx.isPending && (
+                        <span className="badge badge-gray text-xs mr-2" title="Not settled yet">
+                          Pending
+                        </span>
+                      )}
                       {tx.needsReview && (
                         <span className="badge badge-warning text-xs mr-2">Review</span>
                       )}
@@ -1044,6 +1138,25 @@ export const TransactionsContent = ({
                           <EyeOff className="h-4 w-4" />
                         )}
                       </button>
+                      <button
+                        onClick={() => setSplittingTransactionId(tx.id)}
+                        className="p-1.5 rounded text-gray-400 hover:text-gray-600 hover:bg-gray-100 dark:hover:bg-gray-700 transition-colors"
+                        title="Split across categories"
+                      >
+                        <Scissors className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setTaggingTransactionId(tx.id)}
+                        className={cn(
+                          'p-1.5 rounded transition-colors hover:bg-gray-100 dark:hover:bg-gray-700',
+                          tx.goalId
+                            ? 'text-primary-600 dark:text-primary-400'
+                            : 'text-gray-400 hover:text-gray-600'
+                        )}
+                        title={tx.goalId ? 'Change savings goal' : 'Contribute to a savings goal'}
+                      >
+                        <Target className="h-4 w-4" />
+                      </button>
                       <button
                         onClick={() => handleDelete(tx.id)}
                         className="p-1.5 rounded text-gray-400 hover:text-danger-600 hover:bg-danger-50 dark:hover:bg-danger-900/20 transition-colors"
@@ -1172,6 +1285,7 @@ export const TransactionsContent = ({
                   <span className="text-sm text-gray-500 dark:text-gray-400">
                     {formatDate(tx.date)}
                   </span>
+                  {tx.isPending && <span className="badge badge-gray text-xs">Pending</span>}
                   {tx.needsReview && <span className="badge badge-warning text-xs">Review</span>}
                 </div>
               </div>
@@ -1227,6 +1341,7 @@ export const TransactionsContent = ({
                     <AICategoryBadgeCompact
                       source={tx.categorizationSource}
                       confidence={tx.confidence}
+                      reasoning={tx.aiReasoning}
                     />
                     <RecurringBadgeCompact recurringTemplate={tx.recurringTemplate} />
                   </div>
@@ -1247,7 +1362,10 @@ export const TransactionsContent = ({
                   )}
                 >
                   {tx.direction === 'income' ? '+' : '-'}
-                  {formatCurrency(tx.amount)}
+                  {formatCurrency(tx.amount, tx.account?.currency, {
+                    amount: tx.originalAmount,
+                    currency: tx.originalCurrency,
+                  })}
                 </span>
               </div>
 
@@ -1346,6 +1464,38 @@ export const TransactionsContent = ({
           refetchSummary();
         }}
       />
+
+      {/* Import Statement Dialog */}
+      <ImportTransactionsDialog
+        isOpen={isImportDialogOpen}
+        onClose={() => setIsImportDialogOpen(false)}
+        onSuccess={(result) => {
+          toast.success(`Imported ${result.imported} transactions`, {
+            description:
+              result.duplicates > 0 ? `${result.duplicates} duplicates skipped` : undefined,
+          });
+          refetch();
+          refetchSummary();
+        }}
+      />
+
+      {/* Split Transaction Dialog */}
+      <SplitTransactionDialog
+        categories={categories}
+        transaction={displayTransactions.find((tx) => tx.id === splittingTransactionId) ?? null}
+        onClose={() => setSplittingTransactionId(null)}
+        onSuccess={() => {
+          refetch();
+          utils.transactions.groupedByCategory.invalidate();
+        }}
+      />
+
+      {/* Goal Tag Dialog */}
+      <GoalTagDialog
+        transaction={displayTransactions.find((tx) => tx.id === taggingTransactionId) ?? null}
+        onClose={() => setTaggingTransactionId(null)}
+        onSuccess={() => refetch()}
+      />
     </div>
   );
 };
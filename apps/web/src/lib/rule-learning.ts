@@ -0,0 +1,54 @@
+/**
+ * Rule Learning Service
+ *
+ * Mines each household's categorization corrections for rule proposals (missing rules,
+ * rules that keep being overridden). Proposals wait on the rules page for approval.
+ * Used by the Vercel cron job (/api/cron/rules); the rules page can also run it on demand.
+ */
+
+import { queueRuleProposals } from '@sfam/api';
+import { prisma } from '@sfam/db';
+
+export interface CronRuleLearningResult {
+  success: boolean;
+  message: string;
+  households: number;
+  proposalsQueued: number;
+  errors: string[];
+  duration?: number;
+}
+
+/**
+ * Queue rule proposals for every household that has corrections
+ */
+export async function mineRuleProposalsForCron(): Promise<CronRuleLearningResult> {
+  const households: { id: string }[] = await prisma.household.findMany({
+    where: { transactions: { some: { corrections: { some: {} } } } },
+    select: { id: true },
+  });
+
+  console.log(`[RuleLearning] Mining corrections for ${households.length} households`);
+
+  let proposalsQueued = 0;
+  const errors: string[] = [];
+
+  // One household at a time: each run loads all of the household's rules and corrections
+  for (const household of households) {
+    try {
+      const result = await queueRuleProposals(prisma, household.id);
+      proposalsQueued += result.queued;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      console.error(`[RuleLearning] Error mining household ${household.id}:`, error);
+      errors.push(`${household.id}: ${errorMessage}`);
+    }
+  }
+
+  return {
+    success: errors.length < households.length || households.length === 0,
+    message: `Queued ${proposalsQueued} rule proposals for ${households.length} households`,
+    households: households.length,
+    proposalsQueued,
+    errors,
+  };
+}
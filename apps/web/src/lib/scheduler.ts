@@ -4,7 +4,8 @@
  * This module provides startup sync functionality for local development.
  * In production (Vercel), syncing is handled by:
  * 1. Vercel cron jobs (/api/cron/sync) - runs daily
- * 2. On-access stale sync (checkAndSync tRPC) - runs on user activity
+ * 2. On-access stale sync (syncStaleConnections tRPC) - runs on user activity
+ * Both queue sync jobs, which the runner in sync-jobs.ts works through.
  *
  * NOTE: node-cron has been removed as it doesn't work on Vercel serverless.
  * The cron schedule "0 3 * * *" in vercel.json runs at 6 AM Israel time (UTC+3).
@@ -62,7 +63,8 @@ async function checkAndSyncAllStaleConnections(): Promise<void> {
 
   // Dynamic import to avoid build-time Prisma initialization
   const { prisma } = await import('@sfam/db');
-  const { syncStaleConnectionsForHousehold, hasStaleConnections } = await import('./sync-service');
+  const { hasStaleConnections } = await import('./sync-service');
+  const { syncStaleConnectionsForHousehold } = await import('./sync-jobs');
 
   // Get all households with active connections
   const households = await prisma.household.findMany({
@@ -0,0 +1,459 @@
+/**
+ * Bank Sync Job Runner
+ *
+ * Runs the sync jobs queued in the SyncJob table by:
+ * - Manual sync triggers (tRPC syncNow / syncAll), started right after the response
+ * - On-access stale sync (tRPC syncStaleConnections, startup sync)
+ * - Vercel cron jobs (/api/cron/sync)
+ *
+ * Features:
+ * - Per-connection lock: a job holds its connection while running, until `lockedUntil`
+ * - Transient failures retry with exponential backoff; login failures stop right away
+ * - Repeated invalid-credential failures deactivate the connection before the bank blocks it
+ * - Jobs of a runner that died (expired lock) are retried
+ * - The current step is saved on the job for the Connections page to poll
+ */
+
+import { autoSyncConnectionWhere, enqueueSyncJobs } from '@sfam/api';
+import { prisma } from '@sfam/db';
+import {
+  MAX_FAILED_LOGINS,
+  SYNC_JOB_LOCK_MS,
+  type SyncJobStep,
+  type SyncJobTrigger,
+  getNextSyncRetry,
+  isSyncAuthError,
+} from '@sfam/domain';
+import { type SyncErrorType, classifyScrapeError } from '@sfam/scraper';
+import { type ConnectionSyncResult, runConnectionSync } from './sync-service';
+
+// A run started after a request ends before the 5-minute serverless limit
+const DEFAULT_RUN_MS = 4 * 60 * 1000;
+
+// A job whose connection is locked by another job is tried again after this
+const LOCKED_CONNECTION_DELAY_MS = 15 * 1000;
+
+export interface CronSyncDetail {
+  connectionId: string;
+  displayName: string;
+  success: boolean;
+  transactionsNew?: number;
+  aiCategorized?: number;
+  error?: string;
+}
+
+export interface CronSyncResult {
+  success: boolean;
+  message: string;
+  syncedConnections: number;
+  totalTransactionsNew: number;
+  totalTransactionsFound?: number;
+  totalAICategorized?: number;
+  errors: string[];
+  duration?: number;
+  details?: Array<CronSyncDetail>;
+}
+
+export interface FinishedSyncJob {
+  jobId: string;
+  connectionId: string;
+  status: 'success' | 'retrying' | 'error';
+  result: ConnectionSyncResult;
+}
+
+type ClaimedSyncJob = NonNullable<Awaited<ReturnType<typeof claimNextSyncJob>>>;
+
+let currentRun: Promise<FinishedSyncJob[]> | null = null;
+
+/**
+ * Start the runner unless it is already running in this process
+ * Jobs queued while it runs are picked up by the same run
+ */
+export function startSyncJobRunner(): Promise<FinishedSyncJob[]> {
+  currentRun ??= processSyncJobs().finally(() => {
+    currentRun = null;
+  });
+  return currentRun;
+}
+
+/**
+ * Run due jobs one at a time until none are left or `until` passes
+ * Waits for retries that come due before `until`
+ */
+export async function processSyncJobs(options: { until?: Date } = {}): Promise<FinishedSyncJob[]> {
+  const until = options.until ?? new Date(Date.now() + DEFAULT_RUN_MS);
+  const finished: FinishedSyncJob[] = [];
+
+  await retryAbandonedSyncJobs();
+
+  while (Date.now() < until.getTime()) {
+    const job = await claimNextSyncJob();
+    if (job) {
+      finished.push(await runSyncJob(job));
+      continue;
+    }
+
+    const next = await prisma.syncJob.findFirst({
+      where: { status: { in: ['queued', 'retrying'] }, runAfter: { lt: until } },
+      orderBy: { runAfter: 'asc' },
+      select: { runAfter: true },
+    });
+    if (!next) break;
+
+    const wait = Math.max(next.runAfter.getTime() - Date.now(), 1000);
+    console.log(`[SyncJobs] Waiting ${Math.round(wait / 1000)}s for the next retry`);
+    await new Promise((resolve) => setTimeout(resolve, wait));
+  }
+
+  return finished;
+}
+
+/**
+ * Queue every active connection and run the queue
+ * Used by the cron job endpoint
+ */
+export async function syncAllConnectionsForCron(): Promise<CronSyncResult> {
+  console.log('[SyncJobs] Starting cron sync for all connections');
+
+  const connections = await prisma.bankConnection.findMany({
+    where: autoSyncConnectionWhere,
+    select: { id: true },
+  });
+
+  console.log(`[SyncJobs] Found ${connections.length} connections to sync`);
+
+  return enqueueAndRun(
+    connections.map((c) => c.id),
+    'cron',
+    'connections'
+  );
+}
+
+/**
+ * Queue the household's connections that haven't synced recently and run the queue
+ * Used by the startup sync
+ */
+export async function syncStaleConnectionsForHousehold(
+  householdId: string,
+  staleThresholdHours = 12
+): Promise<CronSyncResult> {
+  console.log(`[SyncJobs] Checking stale connections for household ${householdId}`);
+
+  const staleThreshold = new Date();
+  staleThreshold.setHours(staleThreshold.getHours() - staleThresholdHours);
+
+  const staleConnections = await prisma.bankConnection.findMany({
+    where: {
+      householdId,
+      ...autoSyncConnectionWhere,
+      AND: { OR: [{ lastSyncAt: null }, { lastSyncAt: { lt: staleThreshold } }] },
+    },
+    select: { id: true },
+  });
+
+  if (staleConnections.length === 0) {
+    console.log('[SyncJobs] No stale connections found');
+    return {
+      success: true,
+      message: 'All connections are up to date',
+      syncedConnections: 0,
+      totalTransactionsNew: 0,
+      errors: [],
+    };
+  }
+
+  return enqueueAndRun(
+    staleConnections.map((c) => c.id),
+    'stale',
+    'stale connections'
+  );
+}
+
+/**
+ * Queue jobs for the connections, run the queue and summarize how those jobs ended
+ * Jobs still retrying when the run ends are reported as failed with their last error
+ */
+async function enqueueAndRun(
+  connectionIds: string[],
+  trigger: SyncJobTrigger,
+  label: string
+): Promise<CronSyncResult> {
+  if (connectionIds.length === 0) {
+    return {
+      success: true,
+      message: 'No connections to sync',
+      syncedConnections: 0,
+      totalTransactionsNew: 0,
+      errors: [],
+      details: [],
+    };
+  }
+
+  const queued = await enqueueSyncJobs(prisma, connectionIds, { trigger });
+  const finished = await processSyncJobs();
+  const resultByJob = new Map(finished.map((f) => [f.jobId, f.result]));
+
+  const jobs = await prisma.syncJob.findMany({
+    where: { id: { in: queued.map((job) => job.id) } },
+    include: { connection: { select: { displayName: true } } },
+  });
+
+  const details: CronSyncDetail[] = jobs.map((job) => {
+    const result = resultByJob.get(job.id);
+    return {
+      connectionId: job.connectionId,
+      displayName: job.connection.displayName,
+      success: job.status === 'success',
+      transactionsNew: job.transactionsNew,
+      aiCategorized: result?.aiCategorized,
+      error:
+        job.status === 'success'
+          ? undefined
+          : job.status === 'error'
+            ? (job.errorMessage ?? 'Unknown error')
+            : `Still ${job.status}${job.errorMessage ? ` after: ${job.errorMessage}` : ''}`,
+    };
+  });
+
+  const succeeded = jobs.filter((job) => job.status === 'success');
+  const totalAICategorized = details.reduce((sum, d) => sum + (d.aiCategorized ?? 0), 0);
+
+  console.log(
+    `[SyncJobs] Completed: ${succeeded.length}/${jobs.length} successful, ${totalAICategorized} AI-categorized`
+  );
+
+  return {
+    success: succeeded.length > 0,
+    message: `Synced ${succeeded.length}/${jobs.length} ${label}`,
+    syncedConnections: succeeded.length,
+    totalTransactionsNew: succeeded.reduce((sum, job) => sum + job.transactionsNew, 0),
+    totalTransactionsFound: succeeded.reduce((sum, job) => sum + job.transactionsFound, 0),
+    totalAICategorized,
+    errors: details.filter((d) => !d.success).map((d) => `${d.displayName}: ${d.error}`),
+    details,
+  };
+}
+
+/**
+ * Claim the next due job, taking its connection's lock
+ * The claim is a conditional update, so two runners never claim the same job. A job whose
+ * connection another job is running goes back to the queue for a little while.
+ */
+async function claimNextSyncJob() {
+  const now = new Date();
+  const candidates = await prisma.syncJob.findMany({
+    where: { status: { in: ['queued', 'retrying'] }, runAfter: { lte: now } },
+    orderBy: { runAfter: 'asc' },
+    take: 10,
+  });
+
+  for (const candidate of candidates) {
+    const claimed = await prisma.syncJob.updateMany({
+      where: { id: candidate.id, status: candidate.status, attempts: candidate.attempts },
+      data: {
+        status: 'running',
+        step: null,
+        attempts: { increment: 1 },
+        lockedUntil: new Date(now.getTime() + SYNC_JOB_LOCK_MS),
+        startedAt: now,
+      },
+    });
+    if (claimed.count === 0) continue; // Another runner was faster
+
+    const holder = await prisma.syncJob.findFirst({
+      where: {
+        connectionId: candidate.connectionId,
+        id: { not: candidate.id },
+        status: 'running',
+        lockedUntil: { gt: now },
+      },
+      select: { id: true },
+    });
+    if (holder) {
+      console.log(
+        `[SyncJobs] Connection ${candidate.connectionId} is locked by job ${holder.id}, deferring job ${candidate.id}`
+      );
+      await prisma.syncJob.update({
+        where: { id: candidate.id },
+        data: {
+          status: candidate.status,
+          attempts: candidate.attempts,
+          lockedUntil: null,
+          startedAt: candidate.startedAt,
+          runAfter: new Date(now.getTime() + LOCKED_CONNECTION_DELAY_MS),
+        },
+      });
+      continue;
+    }
+
+    return prisma.syncJob.findUniqueOrThrow({
+      where: { id: candidate.id },
+      include: { connection: true },
+    });
+  }
+
+  return null;
+}
+
+/**
+ * Run a claimed job and record how it ended
+ */
+async function runSyncJob(job: ClaimedSyncJob): Promise<FinishedSyncJob> {
+  const { connection } = job;
+  console.log(
+    `[SyncJobs] Running job ${job.id} for ${connection.displayName} (attempt ${job.attempts}/${job.maxAttempts})`
+  );
+
+  let result: ConnectionSyncResult;
+  if (!connection.isActive) {
+    result = failedResult(
+      'Connection is not active. Complete 2FA setup first.',
+      (connection.lastSyncErrorType as SyncErrorType | null) ?? 'TOKEN_EXPIRED'
+    );
+  } else {
+    try {
+      result = await runConnectionSync(connection, {
+        fromDate: job.fromDate ?? undefined,
+        onStep: (step) => setSyncJobStep(job.id, step),
+      });
+    } catch (error) {
+      console.error(`[SyncJobs] Job ${job.id} threw:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      result = failedResult(message, classifyScrapeError(undefined, message));
+    }
+  }
+
+  return finishSyncJob(job, result);
+}
+
+/**
+ * Record the step a job is on, and extend its lock while it makes progress
+ */
+async function setSyncJobStep(jobId: string, step: SyncJobStep): Promise<void> {
+  await prisma.syncJob.update({
+    where: { id: jobId },
+    data: { step, lockedUntil: new Date(Date.now() + SYNC_JOB_LOCK_MS) },
+  });
+}
+
+/**
+ * Save a job's outcome: success, a retry with backoff, or a final error
+ * The connection's sync status changes only when the job is done retrying
+ */
+async function finishSyncJob(
+  job: { id: string; connectionId: string; attempts: number; maxAttempts: number },
+  result: ConnectionSyncResult
+): Promise<FinishedSyncJob> {
+  const now = new Date();
+
+  if (result.success) {
+    await prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'success',
+        completedAt: now,
+        lockedUntil: null,
+        errorType: null,
+        errorMessage: null,
+        transactionsFound: result.transactionsFound,
+        transactionsNew: result.transactionsNew,
+      },
+    });
+    await prisma.bankConnection.update({
+      where: { id: job.connectionId },
+      data: {
+        lastSyncAt: now,
+        lastSyncStatus: 'success',
+        lastSyncErrorType: null,
+        failedLoginCount: 0,
+      },
+    });
+    return { jobId: job.id, connectionId: job.connectionId, status: 'success', result };
+  }
+
+  const retryAt = getNextSyncRetry(job.attempts, result, now, { maxAttempts: job.maxAttempts });
+  if (retryAt) {
+    console.log(
+      `[SyncJobs] Job ${job.id} failed (${result.errorMessage}), retrying at ${retryAt.toISOString()}`
+    );
+    await prisma.syncJob.update({
+      where: { id: job.id },
+      data: {
+        status: 'retrying',
+        step: null,
+        lockedUntil: null,
+        runAfter: retryAt,
+        errorType: result.errorType,
+        errorMessage: result.errorMessage,
+      },
+    });
+    return { jobId: job.id, connectionId: job.connectionId, status: 'retrying', result };
+  }
+
+  console.error(`[SyncJobs] Job ${job.id} failed: ${result.errorMessage}`);
+  await prisma.syncJob.update({
+    where: { id: job.id },
+    data: {
+      status: 'error',
+      completedAt: now,
+      lockedUntil: null,
+      errorType: result.errorType,
+      errorMessage: result.errorMessage,
+    },
+  });
+  // Login errors keep the connection active and its status asks the user to fix the login,
+  // unless the bank rejected the credentials too many times in a row
+  const connection = await prisma.bankConnection.update({
+    where: { id: job.connectionId },
+    data: {
+      lastSyncAt: now,
+      lastSyncStatus: isSyncAuthError(result.errorType, result.errorMessage)
+        ? 'auth_required'
+        : 'error',
+      lastSyncErrorType: result.errorType,
+      ...(result.errorType === 'INVALID_CREDENTIALS' && { failedLoginCount: { increment: 1 } }),
+    },
+  });
+  if (connection.isActive && connection.failedLoginCount >= MAX_FAILED_LOGINS) {
+    console.warn(
+      `[SyncJobs] Deactivating ${connection.displayName} after ${connection.failedLoginCount} rejected logins`
+    );
+    await prisma.bankConnection.update({
+      where: { id: connection.id },
+      data: { isActive: false },
+    });
+  }
+  return { jobId: job.id, connectionId: job.connectionId, status: 'error', result };
+}
+
+/**
+ * Jobs left running by a runner that died (e.g. a serverless timeout) count as a failed
+ * attempt once their lock expires
+ */
+async function retryAbandonedSyncJobs(): Promise<void> {
+  const abandoned = await prisma.syncJob.findMany({
+    where: {
+      status: 'running',
+      OR: [{ lockedUntil: null }, { lockedUntil: { lt: new Date() } }],
+    },
+  });
+
+  for (const job of abandoned) {
+    console.warn(`[SyncJobs] Job ${job.id} was interrupted during ${job.step ?? 'startup'}`);
+    await finishSyncJob(job, failedResult(`Sync was interrupted during ${job.step ?? 'startup'}`));
+  }
+}
+
+function failedResult(
+  errorMessage: string,
+  errorType: SyncErrorType = 'GENERIC'
+): ConnectionSyncResult {
+  return {
+    success: false,
+    transactionsFound: 0,
+    transactionsNew: 0,
+    aiCategorized: 0,
+    errorType,
+    errorMessage,
+  };
+}
@@ -1,451 +1,260 @@
 /**
  * Bank Connection Sync Service
  *
- * Core sync logic extracted from scheduler.ts for use by:
+ * What a sync of one connection does, run by the sync job runner (sync-jobs.ts) for:
  * - Vercel cron jobs (/api/cron/sync)
- * - Manual sync triggers (tRPC syncAll)
- * - On-access stale sync (checkAndSync)
+ * - Manual sync triggers (tRPC syncNow / syncAll)
+ * - On-access stale sync (tRPC syncStaleConnections, startup sync)
  *
  * This module is stateless and can be imported in serverless environments.
  *
  * Features:
- * - Automatic AI categorization during sync (with rate limiting)
+ * - Automatic AI categorization during sync (batched, cached per merchant)
  * - Auto-creation of categorization rules from high-confidence AI suggestions
+ * - Transfer pairing between household accounts after import
+ * - Linking imported payments to the recurring occurrences they pay
+ * - Recording scrapes as sanitized fixtures (SCRAPER_FIXTURE_DIR) and dry-running them
  */
 
-import { prisma } from '@sfam/db';
-import { categorizeTransaction } from '@sfam/domain';
-import type { CategoryForCategorization } from '@sfam/domain';
-import { type BankProvider, type MappedTransaction, scraperService } from '@sfam/scraper';
-
-// AI rate limiting: Gemini allows 15 req/min, use 4.5s delay (~13 req/min to be safe)
-const AI_RATE_LIMIT_DELAY_MS = 4500;
-
-export interface CronSyncDetail {
-  connectionId: string;
-  displayName: string;
-  success: boolean;
-  transactionsNew?: number;
-  aiCategorized?: number;
-  error?: string;
-}
+import { mkdir, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
 
-export interface CronSyncResult {
-  success: boolean;
-  message: string;
-  syncedConnections: number;
-  totalTransactionsNew: number;
-  totalTransactionsFound?: number;
-  totalAICategorized?: number;
-  errors: string[];
-  duration?: number;
-  details?: Array<CronSyncDetail>;
-}
+import {
+  autoSyncConnectionWhere,
+  pairHouseholdTransfers,
+  reconcileRecurringTransactions,
+  withAICache,
+} from '@sfam/api';
+import { prisma } from '@sfam/db';
+import {
+  applyRuleActions,
+  categorizeTransaction,
+  categorizeTransactions,
+  findPendingMatch,
+  findReversedPending,
+  parseMerchantTextList,
+  parseRuleActions,
+  parseRuleConditions,
+  resolveAIProvider,
+  resolveMerchant,
+} from '@sfam/domain';
+import type {
+  AIExample,
+  CategorizationResult,
+  CategoryForCategorization,
+  Merchant,
+  SyncJobStep,
+  TransactionInput,
+} from '@sfam/domain';
+import {
+  type BankProvider,
+  type MappedTransaction,
+  type ScrapeFixture,
+  type ScrapedBalance,
+  type SyncErrorType,
+  scraperService,
+} from '@sfam/scraper';
+
+// Reviewed transactions the AI is shown as examples of the household's habits
+const AI_HISTORY_LIMIT = 1000;
+
+// Transfer legs can post a few days apart (e.g. credit card bill vs. card-side credit)
+const TRANSFER_LOOKBACK_DAYS = 7;
+
+// A recurring charge can post up to ten days after its due date
+const RECURRING_LOOKBACK_DAYS = 10;
 
 export interface ConnectionSyncResult {
   success: boolean;
   transactionsFound: number;
   transactionsNew: number;
   aiCategorized: number;
+  errorType?: SyncErrorType;
   errorMessage?: string;
 }
 
 /**
- * Sync all active bank connections across all households
- * Used by the cron job endpoint
- */
-export async function syncAllConnectionsForCron(): Promise<CronSyncResult> {
-  console.log('[SyncService] Starting cron sync for all connections');
-
-  const households: { id: string }[] = await prisma.household.findMany({
-    where: {
-      bankConnections: { some: { isActive: true } },
-    },
-    select: { id: true },
-  });
-
-  console.log(`[SyncService] Found ${households.length} households to sync`);
-
-  const results = await Promise.all(
-    households.map(async (household: { id: string }) => {
-      const connections = await prisma.bankConnection.findMany({
-        where: { isActive: true, householdId: household.id },
-        include: { household: true },
-      });
-
-      console.log(`[SyncService] Found ${connections.length} active connections to sync`);
-
-      if (connections.length === 0) {
-        return {
-          success: true,
-          message: 'No active connections to sync',
-          syncedConnections: 0,
-          totalTransactionsNew: 0,
-          errors: [],
-          details: [],
-        };
-      }
-
-      const results: CronSyncResult['details'] = [];
-      const errors: string[] = [];
-      let totalNew = 0;
-      let totalFound = 0;
-      let totalAICategorized = 0;
-      let successCount = 0;
-
-      for (const connection of connections) {
-        try {
-          console.log(
-            `[SyncService] Syncing connection ${connection.id} (${connection.displayName})`
-          );
-
-          const result = await syncSingleConnection({
-            id: connection.id,
-            householdId: connection.householdId,
-            provider: connection.provider,
-            encryptedCreds: connection.encryptedCreds,
-            longTermToken: connection.longTermToken,
-            accountMappings: connection.accountMappings,
-            lastSyncAt: connection.lastSyncAt,
-          });
-
-          if (result.success) {
-            successCount++;
-            totalNew += result.transactionsNew;
-            totalFound += result.transactionsFound;
-            totalAICategorized += result.aiCategorized;
-          } else {
-            errors.push(`${connection.displayName}: ${result.errorMessage}`);
-          }
-
-          results?.push({
-            connectionId: connection.id,
-            displayName: connection.displayName,
-            success: result.success,
-            transactionsNew: result.transactionsNew,
-            aiCategorized: result.aiCategorized,
-            error: result.errorMessage,
-          });
-        } catch (error) {
-          const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-          console.error(`[SyncService] Error syncing connection ${connection.id}:`, error);
-          errors.push(`${connection.displayName}: ${errorMessage}`);
-
-          results?.push({
-            connectionId: connection.id,
-            displayName: connection.displayName,
-            success: false,
-            error: errorMessage,
-          });
-        }
-      }
-
-      console.log(
-        `[SyncService] Completed: ${successCount}/${connections.length} successful, ${totalNew} new transactions, ${totalAICategorized} AI-categorized`
-      );
-
-      return {
-        success: successCount > 0 || connections.length === 0,
-        message: `Synced ${successCount}/${connections.length} connections`,
-        syncedConnections: successCount,
-        totalTransactionsNew: totalNew,
-        totalTransactionsFound: totalFound,
-        totalAICategorized,
-        errors,
-        details: results.map((r) => {
-          return {
-            connectionId: r.connectionId,
-            displayName: r.displayName,
-            success: r.success,
-            transactionsNew: r.transactionsNew,
-            aiCategorized: r.aiCategorized,
-            error: r.error,
-          };
-        }),
-      };
-    })
-  );
-
-  const totalConnections = results.length;
-  const totalSuccess = results.filter((r) => r.success).length;
-  const totalNew = results.reduce((sum, r) => sum + (r.totalTransactionsNew || 0), 0);
-  const totalFound = results.reduce((sum, r) => sum + (r.totalTransactionsFound || 0), 0);
-  const totalAICategorized = results.reduce((sum, r) => sum + (r.totalAICategorized || 0), 0);
-  const errors = results.filter((r) => !r.success).flatMap((r) => r.errors);
-
-  return {
-    success: totalSuccess > 0,
-    message: `Synced ${totalSuccess}/${totalConnections} connections`,
-    syncedConnections: totalSuccess,
-    totalTransactionsNew: totalNew,
-    totalTransactionsFound: totalFound,
-    totalAICategorized,
-    errors,
-    details: results.flatMap((r) => r.details),
-  };
-}
-
-/**
- * Sync connections for a specific household that haven't synced recently
- * Used for on-access stale sync
+ * Check if any connections for a household need syncing
  */
-export async function syncStaleConnectionsForHousehold(
+export async function hasStaleConnections(
   householdId: string,
   staleThresholdHours = 12
-): Promise<CronSyncResult> {
-  console.log(`[SyncService] Checking stale connections for household ${householdId}`);
-
+): Promise<boolean> {
   const staleThreshold = new Date();
   staleThreshold.setHours(staleThreshold.getHours() - staleThresholdHours);
 
-  const staleConnections = await prisma.bankConnection.findMany({
+  const count = await prisma.bankConnection.count({
     where: {
       householdId,
-      isActive: true,
-      OR: [{ lastSyncAt: null }, { lastSyncAt: { lt: staleThreshold } }],
+      ...autoSyncConnectionWhere,
+      AND: { OR: [{ lastSyncAt: null }, { lastSyncAt: { lt: staleThreshold } }] },
     },
   });
 
-  if (staleConnections.length === 0) {
-    console.log('[SyncService] No stale connections found');
-    return {
-      success: true,
-      message: 'All connections are up to date',
-      syncedConnections: 0,
-      totalTransactionsNew: 0,
-      errors: [],
-    };
-  }
-
-  console.log(`[SyncService] Found ${staleConnections.length} stale connection(s)`);
-
-  const results: CronSyncResult['details'] = [];
-  const errors: string[] = [];
-  let totalNew = 0;
-  let totalAICategorized = 0;
-  let successCount = 0;
-
-  for (const connection of staleConnections) {
-    try {
-      const result = await syncSingleConnection({
-        id: connection.id,
-        householdId: connection.householdId,
-        provider: connection.provider,
-        encryptedCreds: connection.encryptedCreds,
-        longTermToken: connection.longTermToken,
-        accountMappings: connection.accountMappings,
-        lastSyncAt: connection.lastSyncAt,
-      });
-
-      if (result.success) {
-        successCount++;
-        totalNew += result.transactionsNew;
-        totalAICategorized += result.aiCategorized;
-      } else {
-        errors.push(`${connection.displayName}: ${result.errorMessage}`);
-      }
-
-      results?.push({
-        connectionId: connection.id,
-        displayName: connection.displayName,
-        success: result.success,
-        transactionsNew: result.transactionsNew,
-        aiCategorized: result.aiCategorized,
-        error: result.errorMessage,
-      });
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      errors.push(`${connection.displayName}: ${errorMessage}`);
-    }
-  }
-
-  return {
-    success: successCount > 0,
-    message: `Synced ${successCount}/${staleConnections.length} stale connections`,
-    syncedConnections: successCount,
-    totalTransactionsNew: totalNew,
-    totalAICategorized,
-    errors,
-    details: results,
-  };
+  return count > 0;
 }
 
 /**
- * Check if any connections for a household need syncing
+ * Dry-run a recorded scrape, without logging in to the bank
+ * Maps the fixture the way a real sync would and returns what it would import; nothing is
+ * written and no AI provider is called. Fixture identifiers are hashed, so they would match
+ * neither the household's account mappings nor its existing transactions.
  */
-export async function hasStaleConnections(
-  householdId: string,
-  staleThresholdHours = 12
-): Promise<boolean> {
-  const staleThreshold = new Date();
-  staleThreshold.setHours(staleThreshold.getHours() - staleThresholdHours);
-
-  const count = await prisma.bankConnection.count({
-    where: {
-      householdId,
-      isActive: true,
-      OR: [{ lastSyncAt: null }, { lastSyncAt: { lt: staleThreshold } }],
+export function replayScrapeFixture(fixture: ScrapeFixture) {
+  return scraperService.syncConnection(
+    {
+      id: 'replay',
+      provider: fixture.provider,
+      encryptedCreds: '',
+      longTermToken: null,
     },
-  });
+    new Set(),
+    new Date(fixture.startDate),
+    { replay: fixture }
+  );
+}
 
-  return count > 0;
+/**
+ * Save a scrape as a fixture when SCRAPER_FIXTURE_DIR is set
+ */
+async function recordScrapeFixture(connectionId: string, fixture: ScrapeFixture): Promise<void> {
+  const dir = process.env.SCRAPER_FIXTURE_DIR;
+  if (!dir) return;
+
+  const stamp = fixture.recordedAt.replace(/[:.]/g, '-');
+  const filePath = join(dir, `${fixture.provider}-${connectionId}-${stamp}.json`);
+  await mkdir(dir, { recursive: true });
+  await writeFile(filePath, JSON.stringify(fixture, null, 2));
+  console.log(`[SyncService] Recorded scrape fixture ${filePath}`);
 }
 
 /**
- * Sync a single bank connection
+ * Sync a single bank connection: scrape, import, then link transfers and recurring payments
+ * Job and connection status are left to the caller (the sync job runner)
  * @param connection - The bank connection to sync
- * @param lastSyncAt - Optional date of last successful sync (for incremental fetching)
+ * @param options.fromDate - Fetch since this date instead of the last sync (minus a buffer)
+ * @param options.onStep - Called as each step starts, for progress reporting
  */
-async function syncSingleConnection(connection: {
-  id: string;
-  householdId: string;
-  provider: string;
-  encryptedCreds: string;
-  longTermToken: string | null;
-  accountMappings: string | null;
-  lastSyncAt?: Date | null;
-}): Promise<ConnectionSyncResult> {
-  // Create a sync job
-  const syncJob = await prisma.syncJob.create({
-    data: {
-      connectionId: connection.id,
-      status: 'running',
-      startedAt: new Date(),
+export async function runConnectionSync(
+  connection: {
+    id: string;
+    householdId: string;
+    provider: string;
+    encryptedCreds: string;
+    longTermToken: string | null;
+    accountMappings: string | null;
+    lastSyncAt?: Date | null;
+  },
+  options: {
+    fromDate?: Date;
+    onStep?: (step: SyncJobStep) => Promise<void>;
+  } = {}
+): Promise<ConnectionSyncResult> {
+  const onStep = options.onStep ?? (async () => {});
+
+  // Get existing external IDs for deduplication
+  const existingTransactions = await prisma.transaction.findMany({
+    where: {
+      householdId: connection.householdId,
+      externalId: { not: null },
+      isPending: false, // Pending rows are refreshed or settled by the next sync
     },
+    select: { externalId: true },
   });
+  const existingExternalIds = new Set(
+    existingTransactions.map((t) => t.externalId).filter((id): id is string => id !== null)
+  );
 
-  try {
-    // Get existing external IDs for deduplication
-    const existingTransactions = await prisma.transaction.findMany({
-      where: {
-        householdId: connection.householdId,
-        externalId: { not: null },
-      },
-      select: { externalId: true },
-    });
-    const existingExternalIds = new Set(
-      existingTransactions.map((t) => t.externalId).filter((id): id is string => id !== null)
+  // Calculate start date for fetching transactions
+  // Use lastSyncAt with a 3-day buffer to catch delayed transactions
+  // Falls back to scraper's default (90 days) if no previous sync
+  let startDate = options.fromDate;
+  if (!startDate && connection.lastSyncAt) {
+    startDate = new Date(connection.lastSyncAt);
+    startDate.setDate(startDate.getDate() - 3); // 3-day buffer for delayed transactions
+    console.log(
+      `[SyncService] Fetching transactions since ${startDate.toISOString()} (last sync: ${connection.lastSyncAt.toISOString()})`
     );
+  } else if (!startDate) {
+    console.log('[SyncService] No previous sync, using default lookback period');
+  }
 
-    // Calculate start date for fetching transactions
-    // Use lastSyncAt with a 3-day buffer to catch delayed transactions
-    // Falls back to scraper's default (90 days) if no previous sync
-    let startDate: Date | undefined;
-    if (connection.lastSyncAt) {
-      startDate = new Date(connection.lastSyncAt);
-      startDate.setDate(startDate.getDate() - 3); // 3-day buffer for delayed transactions
-      console.log(
-        `[SyncService] Fetching transactions since ${startDate.toISOString()} (last sync: ${connection.lastSyncAt.toISOString()})`
-      );
-    } else {
-      console.log('[SyncService] No previous sync, using default lookback period');
-    }
+  // Perform the sync
+  await onStep('scrape');
+  const { result, transactions, balances } = await scraperService.syncConnection(
+    {
+      id: connection.id,
+      provider: connection.provider as BankProvider,
+      encryptedCreds: connection.encryptedCreds,
+      longTermToken: connection.longTermToken,
+    },
+    existingExternalIds,
+    startDate,
+    { record: (fixture) => recordScrapeFixture(connection.id, fixture) }
+  );
 
-    // Perform the sync
-    const { result, transactions } = await scraperService.syncConnection(
-      {
-        id: connection.id,
-        provider: connection.provider as BankProvider,
-        encryptedCreds: connection.encryptedCreds,
-        longTermToken: connection.longTermToken,
-      },
-      existingExternalIds,
-      startDate
-    );
+  if (!result.success) {
+    console.error(`[SyncService] Sync failed for ${connection.id}: ${result.errorMessage}`);
+    return {
+      success: false,
+      transactionsFound: 0,
+      transactionsNew: 0,
+      aiCategorized: 0,
+      errorType: result.errorType,
+      errorMessage: result.errorMessage,
+    };
+  }
 
-    if (!result.success) {
-      // Check if this is an authentication error
-      const isAuthError =
-        result.errorType === 'AUTH_REQUIRED' ||
-        result.errorMessage?.includes('re-authenticate') ||
-        result.errorMessage?.includes('expired') ||
-        result.errorMessage?.includes('idToken');
+  if (balances.length > 0) {
+    await recordBalanceSnapshots(connection, balances);
+  }
 
-      await prisma.syncJob.update({
-        where: { id: syncJob.id },
-        data: {
-          status: 'error',
-          completedAt: new Date(),
-          errorMessage: result.errorMessage,
-        },
-      });
+  // Import new transactions with AI categorization
+  let aiCategorized = 0;
+  if (transactions.length > 0) {
+    await onStep('import');
+    const importResult = await importTransactions(connection, transactions);
+    aiCategorized = importResult.aiCategorized;
+  }
 
-      await prisma.bankConnection.update({
-        where: { id: connection.id },
-        data: {
-          lastSyncAt: new Date(),
-          lastSyncStatus: isAuthError ? 'auth_required' : 'error',
-        },
-      });
+  // Without a start date the scrape used the scraper's default lookback; a connection with
+  // pending rows has synced before, so it always has one
+  if (startDate) {
+    await removeReversedPending(connection, transactions, balances, startDate);
+  }
 
-      console.error(`[SyncService] Sync failed for ${connection.id}: ${result.errorMessage}`);
-      return {
-        success: false,
-        transactionsFound: 0,
-        transactionsNew: 0,
-        aiCategorized: 0,
-        errorMessage: result.errorMessage,
-      };
+  if (transactions.length > 0) {
+    // Pair new transactions with their other leg in another household account
+    await onStep('transfers');
+    const earliest = Math.min(...transactions.map((t) => t.date.getTime()));
+    const since = new Date(earliest);
+    since.setDate(since.getDate() - TRANSFER_LOOKBACK_DAYS);
+    const transfersPaired = await pairTransfers(connection.householdId, since);
+    if (transfersPaired > 0) {
+      console.log(`[SyncService] Paired ${transfersPaired} transfer(s) for ${connection.id}`);
     }
 
-    // Import new transactions with AI categorization
-    let aiCategorized = 0;
-    if (transactions.length > 0) {
-      const importResult = await importTransactions(connection, transactions);
-      aiCategorized = importResult.aiCategorized;
+    await onStep('recurring');
+    const dueSince = new Date(earliest);
+    dueSince.setDate(dueSince.getDate() - RECURRING_LOOKBACK_DAYS);
+    const recurringLinked = await linkRecurringPayments(connection.householdId, dueSince);
+    if (recurringLinked > 0) {
+      console.log(
+        `[SyncService] Linked ${recurringLinked} recurring payment(s) for ${connection.id}`
+      );
     }
+  }
 
-    // Update sync job and connection
-    await prisma.syncJob.update({
-      where: { id: syncJob.id },
-      data: {
-        status: 'success',
-        completedAt: new Date(),
-        transactionsFound: result.transactionsFound,
-        transactionsNew: result.transactionsNew,
-      },
-    });
-
-    await prisma.bankConnection.update({
-      where: { id: connection.id },
-      data: {
-        lastSyncAt: new Date(),
-        lastSyncStatus: 'success',
-      },
-    });
-
-    console.log(
-      `[SyncService] Sync completed for ${connection.id}: ${result.transactionsNew} new transactions, ${aiCategorized} AI-categorized`
-    );
+  console.log(
+    `[SyncService] Sync completed for ${connection.id}: ${result.transactionsNew} new transactions, ${aiCategorized} AI-categorized`
+  );
 
-    return {
-      success: true,
-      transactionsFound: result.transactionsFound,
-      transactionsNew: result.transactionsNew,
-      aiCategorized,
-    };
-  } catch (error) {
-    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-
-    await prisma.syncJob.update({
-      where: { id: syncJob.id },
-      data: {
-        status: 'error',
-        completedAt: new Date(),
-        errorMessage,
-      },
-    });
-
-    await prisma.bankConnection.update({
-      where: { id: connection.id },
-      data: {
-        lastSyncAt: new Date(),
-        lastSyncStatus: 'error',
-      },
-    });
-
-    throw error;
-  }
+  return {
+    success: true,
+    transactionsFound: result.transactionsFound,
+    transactionsNew: result.transactionsNew,
+    aiCategorized,
+  };
 }
 
 /**
@@ -466,27 +275,94 @@ function extractKeyword(description: string): string | null {
   return words.sort((a, b) => b.length - a.length)[0] ?? null;
 }
 
+async function loadAIHistory(householdId: string): Promise<AIExample[]> {
+  const rows = await prisma.transaction.findMany({
+    where: { householdId, categoryId: { not: null }, isIgnored: false, needsReview: false },
+    select: { description: true, merchant: true, amount: true, direction: true, categoryId: true },
+    orderBy: { date: 'desc' },
+    take: AI_HISTORY_LIMIT,
+  });
+  return rows.flatMap((row) =>
+    row.categoryId && (row.direction === 'income' || row.direction === 'expense')
+      ? [{ ...row, direction: row.direction, categoryId: row.categoryId }]
+      : []
+  );
+}
+
 /**
- * Helper to delay between operations
+ * Credit rule matches from one sync to their rules
  */
-const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+async function recordRuleMatches(ruleIds: string[]) {
+  const counts = new Map<string, number>();
+  for (const id of ruleIds) counts.set(id, (counts.get(id) ?? 0) + 1);
+
+  const now = new Date();
+  await Promise.all(
+    [...counts].map(([id, count]) =>
+      prisma.categoryRule.updateMany({
+        where: { id },
+        data: { matchCount: { increment: count }, lastMatchedAt: now },
+      })
+    )
+  );
+}
 
 /**
- * Import transactions into the database with auto-categorization
- * Features:
- * - Rule-based categorization (fast, no rate limiting)
- * - AI categorization for uncategorized transactions (rate-limited)
- * - Auto-creates categorization rules from high-confidence AI suggestions
+ * Find or create the installment plan a scraped payment belongs to
+ * Payments of the same purchase share a plan key (see mapTransaction)
  */
-async function importTransactions(
-  connection: {
-    householdId: string;
-    accountMappings: string | null;
-  },
-  transactions: MappedTransaction[]
-): Promise<{ aiCategorized: number }> {
-  let aiCategorizedCount = 0;
-  let aiCallCount = 0;
+async function resolveInstallmentPlan(
+  householdId: string,
+  accountId: string,
+  txn: MappedTransaction,
+  categoryId: string | null
+): Promise<string | null> {
+  if (!txn.installment) return null;
+
+  const { installment } = txn;
+  const plan = await prisma.installmentPlan.upsert({
+    where: { householdId_planKey: { householdId, planKey: installment.planKey } },
+    create: {
+      householdId,
+      accountId,
+      categoryId,
+      planKey: installment.planKey,
+      description: txn.description,
+      merchant: txn.merchant,
+      purchaseDate: installment.purchaseDate,
+      firstPaymentDate: installment.firstPaymentDate,
+      totalPayments: installment.total,
+      paymentAmount: txn.amount,
+      totalAmount: installment.totalAmount,
+    },
+    update: {},
+    select: { id: true },
+  });
+
+  return plan.id;
+}
+
+// The connection fields that decide which accounts its transactions and balances belong to
+interface ConnectionAccounts {
+  householdId: string;
+  provider: string;
+  accountMappings: string | null;
+}
+
+/**
+ * Internal account IDs for a connection's external account IDs
+ * Uses the connection's account mappings, then accounts already linked to the external ID,
+ * and creates an account for the rest
+ */
+async function resolveAccounts(
+  connection: ConnectionAccounts,
+  externalAccountIds: string[]
+): Promise<Map<string, string>> {
+  // Card issuers get credit accounts, banks get checking accounts
+  const defaultAccountType =
+    scraperService.getProviderMetadata(connection.provider as BankProvider).kind === 'credit_card'
+      ? 'credit'
+      : 'checking';
 
   // Parse account mappings
   const accountMappings: Record<string, string> = connection.accountMappings
@@ -494,10 +370,8 @@ async function importTransactions(
     : {};
 
   // Get or create accounts for unmapped external account IDs
-  const externalAccountIds = [...new Set(transactions.map((t) => t.externalAccountId))];
   const accountIdMap = new Map<string, string>();
-
-  for (const externalId of externalAccountIds) {
+  for (const externalId of new Set(externalAccountIds)) {
     if (accountMappings[externalId]) {
       accountIdMap.set(externalId, accountMappings[externalId]);
     } else {
@@ -517,7 +391,7 @@ async function importTransactions(
           data: {
             householdId: connection.householdId,
             name: `Imported Account (${externalId})`,
-            type: 'checking',
+            type: defaultAccountType,
             externalAccountId: externalId,
           },
         });
@@ -526,6 +400,56 @@ async function importTransactions(
     }
   }
 
+  return accountIdMap;
+}
+
+/**
+ * Save the balances the bank reported as snapshots, and as the accounts' current balance
+ */
+async function recordBalanceSnapshots(
+  connection: ConnectionAccounts,
+  balances: ScrapedBalance[]
+): Promise<void> {
+  const accountIdMap = await resolveAccounts(
+    connection,
+    balances.map((b) => b.externalAccountId)
+  );
+  const now = new Date();
+
+  for (const { externalAccountId, balance } of balances) {
+    const accountId = accountIdMap.get(externalAccountId);
+    if (!accountId) continue;
+
+    await prisma.$transaction([
+      prisma.accountBalanceSnapshot.create({
+        data: { accountId, date: now, balance, source: 'sync' },
+      }),
+      prisma.account.update({
+        where: { id: accountId },
+        data: { balance, lastSyncedAt: now },
+      }),
+    ]);
+  }
+}
+
+/**
+ * Import transactions into the database with auto-categorization
+ * Features:
+ * - Rule-based categorization (fast, no rate limiting)
+ * - AI categorization for uncategorized transactions (rate-limited)
+ * - Auto-creates categorization rules from high-confidence AI suggestions
+ */
+async function importTransactions(
+  connection: ConnectionAccounts,
+  transactions: MappedTransaction[]
+): Promise<{ aiCategorized: number }> {
+  let aiCategorizedCount = 0;
+
+  const accountIdMap = await resolveAccounts(
+    connection,
+    transactions.map((t) => t.externalAccountId)
+  );
+
   // Get rules for auto-categorization
   const rulesRaw = await prisma.categoryRule.findMany({
     where: { householdId: connection.householdId, isActive: true },
@@ -533,6 +457,8 @@ async function importTransactions(
   const rules = rulesRaw.map((r) => ({
     ...r,
     type: r.type as 'merchant' | 'keyword' | 'regex',
+    conditions: parseRuleConditions(r.conditions),
+    actions: parseRuleActions(r.actions),
   }));
 
   // Get categories for AI categorization
@@ -545,26 +471,125 @@ async function importTransactions(
     type: c.type as 'income' | 'expense',
   }));
 
-  // Check if AI is enabled (support both Vercel AI Gateway and legacy Gemini)
-  const aiApiKey = process.env.AI_GATEWAY_API_KEY || process.env.GEMINI_API_KEY;
-  const aiEnabled = !!aiApiKey;
+  // Household merchants: every spelling the bank uses resolves to one of them
+  const merchantsRaw = await prisma.merchant.findMany({
+    where: { householdId: connection.householdId },
+  });
+  const merchants: Merchant[] = merchantsRaw.map((m) => ({
+    ...m,
+    aliases: parseMerchantTextList(m.aliases),
+    patterns: parseMerchantTextList(m.patterns),
+  }));
+  const merchantIdByTxn = new Map(
+    transactions.map((txn) => [txn, resolveMerchant(txn, merchants)?.id ?? null])
+  );
+
+  // AI provider from the environment: OpenAI-compatible endpoint, Ollama, AI Gateway or Gemini
+  const aiProvider = resolveAIProvider(process.env);
+
+  // Pending rows a settled (or refreshed) transaction may replace
+  const pendingRows = await prisma.transaction.findMany({
+    where: {
+      householdId: connection.householdId,
+      isPending: true,
+      accountId: { in: [...accountIdMap.values()] },
+    },
+    select: {
+      id: true,
+      accountId: true,
+      externalId: true,
+      date: true,
+      amount: true,
+      direction: true,
+      description: true,
+      merchant: true,
+    },
+  });
 
-  if (aiEnabled) {
+  // Rows that will need AI (no pending row, bank category or rule) are sent up front in batches
+  const aiCandidates: Array<{ txn: MappedTransaction; txInput: TransactionInput }> = [];
+  for (const txn of transactions) {
+    const accountId = accountIdMap.get(txn.externalAccountId);
+    if (!accountId || txn.externalCategory) continue;
+    const txInput = {
+      description: txn.description,
+      merchant: txn.merchant,
+      merchantId: merchantIdByTxn.get(txn),
+      amount: txn.amount,
+      direction: txn.direction,
+      accountId,
+      date: txn.date,
+    };
+    if (
+      findPendingMatch({ ...txn, accountId, isPending: txn.isPending ?? false }, pendingRows) ||
+      applyRuleActions(txInput, rules).isIgnored
+    ) {
+      continue;
+    }
+    aiCandidates.push({ txn, txInput });
+  }
+
+  const aiResultByTxn = new Map<MappedTransaction, CategorizationResult>();
+  if (aiProvider && categories.length > 0 && aiCandidates.length > 0) {
     console.log(
-      `[SyncService] AI categorization enabled for sync (${transactions.length} transactions)`
+      `[SyncService] AI categorization with ${aiProvider.name} (${aiCandidates.length} candidates)`
     );
+    const txInputs = aiCandidates.map((c) => c.txInput);
+    const aiHistory = await loadAIHistory(connection.householdId);
+    const aiResults = await withAICache(prisma, connection.householdId, txInputs, (aiCache) =>
+      categorizeTransactions(txInputs, rules, categories, {
+        merchants,
+        enableAI: true,
+        aiProvider,
+        aiCache,
+        aiHistory,
+      })
+    );
+    for (const { txn, txInput } of aiCandidates) {
+      const result = aiResults.get(txInput);
+      if (result?.source === 'ai_suggestion') aiResultByTxn.set(txn, result);
+    }
   }
 
   // Create transactions
+  const matchedRuleIds: string[] = [];
   for (const txn of transactions) {
     const accountId = accountIdMap.get(txn.externalAccountId);
     if (!accountId) continue;
 
+    // Settle a pending row in place, keeping its category and any user edits
+    const pendingMatch = findPendingMatch(
+      { ...txn, accountId, isPending: txn.isPending ?? false },
+      pendingRows
+    );
+    if (pendingMatch) {
+      await prisma.transaction.update({
+        where: { id: pendingMatch.id },
+        data: {
+          externalId: txn.externalId,
+          date: txn.date,
+          amount: txn.amount,
+          description: txn.description,
+          merchant: txn.merchant,
+          merchantId: merchantIdByTxn.get(txn),
+          originalAmount: txn.originalAmount,
+          originalCurrency: txn.originalCurrency,
+          isPending: txn.isPending ?? false,
+        },
+      });
+      pendingRows.splice(pendingRows.indexOf(pendingMatch), 1);
+      console.log(
+        `[SyncService] ${txn.isPending ? 'Refreshed' : 'Settled'} pending transaction ${pendingMatch.id}`
+      );
+      continue;
+    }
+
     try {
       // Try to use external category first
       let validCategoryId: string | null = null;
       let categorizationSource = 'fallback';
       let confidence = 0;
+      let ruleId: string | null = null;
 
       if (txn.externalCategory) {
         // Look for existing category with this name
@@ -609,21 +634,24 @@ async function importTransactions(
         }
       }
 
-      // If no external category, try rule-based categorization first (fast, no AI)
+      // If no external category, try rules and the merchant default first (fast, no AI)
       if (!validCategoryId) {
         const ruleResult = await categorizeTransaction(
           {
             description: txn.description,
             merchant: txn.merchant,
+            merchantId: merchantIdByTxn.get(txn),
             amount: txn.amount,
             direction: txn.direction,
+            accountId,
+            date: txn.date,
           },
           rules,
           undefined, // No categories for rule-only check
-          { enableAI: false }
+          { enableAI: false, merchants }
         );
 
-        // Only accept rule-based matches (not fallback)
+        // Only accept rule and merchant matches (not fallback)
         if (ruleResult.categoryId && ruleResult.source !== 'fallback') {
           const category = await prisma.category.findFirst({
             where: {
@@ -636,31 +664,15 @@ async function importTransactions(
             validCategoryId = category.id;
             categorizationSource = ruleResult.source;
             confidence = ruleResult.confidence;
+            ruleId = ruleResult.matchedRule?.id ?? null;
           }
         }
       }
 
-      // If still no category and AI is enabled, try AI categorization (with rate limiting)
-      if (!validCategoryId && aiEnabled && categories.length > 0) {
-        // Apply rate limiting for AI calls
-        if (aiCallCount > 0) {
-          await delay(AI_RATE_LIMIT_DELAY_MS);
-        }
-        aiCallCount++;
-
-        const aiResult = await categorizeTransaction(
-          {
-            description: txn.description,
-            merchant: txn.merchant,
-            amount: txn.amount,
-            direction: txn.direction,
-          },
-          rules,
-          categories,
-          { enableAI: true, aiApiKey }
-        );
-
-        if (aiResult.categoryId && aiResult.source === 'ai_suggestion') {
+      // If still no category, use the batched AI suggestion
+      const aiResult = aiResultByTxn.get(txn);
+      if (!validCategoryId && aiResult) {
+        if (aiResult.categoryId) {
           // Validate category exists in household
           const category = await prisma.category.findFirst({
             where: {
@@ -717,23 +729,51 @@ async function importTransactions(
         }
       }
 
+      // Rule actions (ignore, rename, notes) run on the row as it was imported
+      const ruleChanges = applyRuleActions(
+        { ...txn, accountId, merchantId: merchantIdByTxn.get(txn) },
+        rules
+      );
+
+      const installmentPlanId = await resolveInstallmentPlan(
+        connection.householdId,
+        accountId,
+        txn,
+        validCategoryId
+      );
+
       await prisma.transaction.create({
         data: {
           householdId: connection.householdId,
           accountId,
           date: txn.date,
-          description: txn.description,
-          merchant: txn.merchant,
+          description: ruleChanges.description ?? txn.description,
+          merchant: ruleChanges.merchant ?? txn.merchant,
+          merchantId: merchantIdByTxn.get(txn),
           amount: txn.amount,
           direction: txn.direction,
-          notes: txn.notes,
+          notes: ruleChanges.notes ?? txn.notes,
           externalId: txn.externalId,
+          originalAmount: txn.originalAmount,
+          originalCurrency: txn.originalCurrency,
+          installmentPlanId,
+          installmentNumber: txn.installment?.number ?? null,
+          isPending: txn.isPending ?? false,
+          isIgnored: ruleChanges.isIgnored ?? false,
           categoryId: validCategoryId,
+          ruleId,
           categorizationSource: validCategoryId ? categorizationSource : 'fallback',
           confidence: validCategoryId ? confidence : 0,
-          needsReview: !validCategoryId || categorizationSource === 'ai_suggestion',
+          aiReasoning: categorizationSource === 'ai_suggestion' ? aiResult?.reasoning : undefined,
+          needsReview:
+            ruleChanges.needsReview ??
+            (!validCategoryId || categorizationSource === 'ai_suggestion'),
         },
       });
+      // The categorizing rule and every rule whose actions ran, each once per row
+      for (const id of new Set([ruleId, ...ruleChanges.ruleIds])) {
+        if (id) matchedRuleIds.push(id);
+      }
     } catch (error) {
       console.error(`[SyncService] Failed to import transaction:`, {
         externalId: txn.externalId,
@@ -743,6 +783,8 @@ async function importTransactions(
     }
   }
 
+  await recordRuleMatches(matchedRuleIds);
+
   if (aiCategorizedCount > 0) {
     console.log(
       `[SyncService] AI categorized ${aiCategorizedCount}/${transactions.length} transactions`
@@ -751,3 +793,76 @@ async function importTransactions(
 
   return { aiCategorized: aiCategorizedCount };
 }
+
+/**
+ * Delete the pending rows of the scraped accounts that the bank stopped reporting
+ * A reversed or declined authorization is never settled, so it would stay pending forever
+ */
+async function removeReversedPending(
+  connection: ConnectionAccounts & { id: string },
+  transactions: MappedTransaction[],
+  balances: ScrapedBalance[],
+  scrapedFrom: Date
+): Promise<void> {
+  const accountIdMap = await resolveAccounts(connection, [
+    ...transactions.map((t) => t.externalAccountId),
+    ...balances.map((b) => b.externalAccountId),
+  ]);
+  if (accountIdMap.size === 0) return;
+
+  const pendingRows = await prisma.transaction.findMany({
+    where: {
+      householdId: connection.householdId,
+      isPending: true,
+      accountId: { in: [...accountIdMap.values()] },
+    },
+    select: { id: true, externalId: true, date: true },
+  });
+  const reversed = findReversedPending(
+    pendingRows,
+    new Set(transactions.map((t) => t.externalId)),
+    scrapedFrom
+  );
+  if (reversed.length === 0) return;
+
+  await prisma.transaction.deleteMany({ where: { id: { in: reversed.map((row) => row.id) } } });
+  console.log(
+    `[SyncService] Removed ${reversed.length} reversed pending transaction(s) for ${connection.id}`
+  );
+}
+
+/**
+ * Detect and link transfers between the household's accounts
+ * @returns Number of pairs linked
+ */
+async function pairTransfers(householdId: string, since: Date): Promise<number> {
+  try {
+    const { paired } = await pairHouseholdTransfers(prisma, householdId, since);
+    return paired;
+  } catch (error) {
+    // Transfer pairing is best-effort - a failure should not fail the sync
+    console.warn('[SyncService] Failed to pair transfers:', error);
+    return 0;
+  }
+}
+
+/**
+ * Link imported transactions to the recurring occurrences they pay, replacing any
+ * synthetic instance generated for the same occurrence
+ * @returns Number of occurrences linked
+ */
+async function linkRecurringPayments(householdId: string, dueSince: Date): Promise<number> {
+  try {
+    const { linked } = await reconcileRecurringTransactions(
+      prisma,
+      householdId,
+      dueSince,
+      new Date()
+    );
+    return linked;
+  } catch (error) {
+    // Best-effort like transfer pairing - a failure should not fail the sync
+    console.warn('[SyncService] Failed to link recurring payments:', error);
+    return 0;
+  }
+}
@@ -0,0 +1,62 @@
+'use client';
+
+import { useEffect, useMemo, useRef } from 'react';
+import { trpc } from './trpc/client';
+
+const ACTIVE_STATUSES = ['queued', 'running', 'retrying'];
+
+/**
+ * Whether a job is still queued, running or waiting to retry
+ */
+export const isActiveSyncJob = (job: { status: string }) => ACTIVE_STATUSES.includes(job.status);
+
+// The runner saves each step as it starts, so a short interval shows them all
+const POLL_INTERVAL_MS = 2000;
+
+/**
+ * The household's sync jobs, polled while any is queued, running or retrying
+ * Refreshes the synced data when a job finishes
+ */
+export const useSyncJobs = () => {
+  const utils = trpc.useUtils();
+
+  const { data: jobs = [] } = trpc.bankConnections.syncJobs.useQuery(undefined, {
+    refetchInterval: (data) => (data?.some(isActiveSyncJob) ? POLL_INTERVAL_MS : false),
+  });
+
+  const activeJobs = useMemo(() => jobs.filter(isActiveSyncJob), [jobs]);
+
+  // Latest job per connection (jobs come newest first)
+  const jobByConnection = useMemo(() => {
+    const map = new Map<string, (typeof jobs)[number]>();
+    for (const job of jobs) {
+      if (!map.has(job.connectionId)) map.set(job.connectionId, job);
+    }
+    return map;
+  }, [jobs]);
+
+  const activeIds = activeJobs.map((job) => job.id).join(',');
+  const previousActiveIds = useRef('');
+  useEffect(() => {
+    const finished = previousActiveIds.current
+      .split(',')
+      .some((id) => id && !activeIds.split(',').includes(id));
+    previousActiveIds.current = activeIds;
+
+    if (finished) {
+      utils.bankConnections.list.invalidate();
+      utils.accounts.invalidate();
+      utils.transactions.invalidate();
+      utils.dashboard.invalidate();
+    }
+  }, [activeIds, utils]);
+
+  return {
+    jobs,
+    activeJobs,
+    jobByConnection,
+    isSyncing: activeJobs.length > 0,
+    // Start polling right after queueing
+    refresh: () => utils.bankConnections.syncJobs.invalidate(),
+  };
+};
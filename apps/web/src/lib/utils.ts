@@ -5,13 +5,40 @@ export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs));
 }
 
-export function formatCurrency(amount: number, currency = 'ILS'): string {
-  return new Intl.NumberFormat('he-IL', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 0,
-  }).format(amount);
+export function formatCurrency(
+  amount: number,
+  currency = 'ILS',
+  original?: { amount?: number | null; currency?: string | null } | null
+): string {
+  const format = (value: number, code: string) =>
+    new Intl.NumberFormat('he-IL', {
+      style: 'currency',
+      currency: code,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 0,
+    }).format(value);
+
+  // Show the original amount alongside when it was in a different currency
+  if (original?.currency && original.amount != null && original.currency !== currency) {
+    return `${format(amount, currency)} (${format(original.amount, original.currency)})`;
+  }
+  return format(amount, currency);
+}
+
+/**
+ * Describe the foreign-currency part of a total, e.g. "incl. $120 → ₪432"
+ */
+export function formatOriginalTotals(
+  totals: Array<{ currency: string; originalAmount: number; amount: number }> | undefined,
+  baseCurrency: string
+): string | undefined {
+  if (!totals || totals.length === 0) return undefined;
+  return `incl. ${totals
+    .map(
+      (t) =>
+        `${formatCurrency(t.originalAmount, t.currency)} → ${formatCurrency(t.amount, baseCurrency)}`
+    )
+    .join(', ')}`;
 }
 
 export function formatPercent(value: number): string {
@@ -69,3 +96,124 @@ export function getStatusLabel(status: string): string {
       return status;
   }
 }
+
+export function getBudgetPeriodLabel(period: string): string {
+  switch (period) {
+    case 'quarter':
+      return 'Quarterly';
+    case 'year':
+      return 'Yearly';
+    default:
+      return 'Monthly';
+  }
+}
+
+/**
+ * Describe period-to-date pace, e.g. "Spent 40% of the year's budget in 25% of the year"
+ */
+export function formatBudgetPace(
+  period: string,
+  pace: { spentPct: number; elapsedPct: number }
+): string {
+  return `Spent ${formatPercent(pace.spentPct)} of the ${period}'s budget in ${formatPercent(pace.elapsedPct)} of the ${period}`;
+}
+
+export function getPaceColorClass(status: string): string {
+  switch (status) {
+    case 'over':
+      return 'text-danger-600 dark:text-danger-400';
+    case 'under':
+      return 'text-success-600 dark:text-success-400';
+    default:
+      return 'text-gray-500 dark:text-gray-400';
+  }
+}
+
+export function getGoalStatusLabel(status: string): string {
+  switch (status) {
+    case 'completed':
+      return 'Reached';
+    case 'on_track':
+      return 'On Track';
+    case 'behind':
+      return 'Behind';
+    case 'overdue':
+      return 'Overdue';
+    default:
+      return status;
+  }
+}
+
+export function getGoalStatusBadgeClass(status: string): string {
+  switch (status) {
+    case 'completed':
+    case 'on_track':
+      return 'badge-success';
+    case 'behind':
+      return 'badge-warning';
+    case 'overdue':
+      return 'badge-danger';
+    default:
+      return 'badge-gray';
+  }
+}
+
+export function getRecurringStatusLabel(status: string): string {
+  switch (status) {
+    case 'paid':
+      return 'Paid';
+    case 'late':
+      return 'Late';
+    case 'missing':
+      return 'Missing';
+    case 'upcoming':
+      return 'Upcoming';
+    default:
+      return status;
+  }
+}
+
+export function getRecurringStatusBadgeClass(status: string): string {
+  switch (status) {
+    case 'paid':
+      return 'badge-success';
+    case 'late':
+      return 'badge-warning';
+    case 'missing':
+      return 'badge-danger';
+    default:
+      return 'badge-gray';
+  }
+}
+
+export function getSyncJobStepLabel(step: string | null): string {
+  switch (step) {
+    case 'scrape':
+      return 'Fetching from bank';
+    case 'import':
+      return 'Importing transactions';
+    case 'transfers':
+      return 'Pairing transfers';
+    case 'recurring':
+      return 'Linking recurring payments';
+    default:
+      return 'Starting';
+  }
+}
+
+export function getSyncErrorLabel(errorType: string | null): string {
+  switch (errorType) {
+    case 'INVALID_CREDENTIALS':
+      return 'Wrong username or password';
+    case 'TOKEN_EXPIRED':
+      return '2FA token expired';
+    case 'ACCOUNT_BLOCKED':
+      return 'Account blocked by the bank';
+    case 'CHANGE_PASSWORD':
+      return 'Password change required';
+    case 'TIMEOUT':
+      return "Bank's site timed out";
+    default:
+      return 'Sync failed';
+  }
+}
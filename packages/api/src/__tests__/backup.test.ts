@@ -0,0 +1,156 @@
+import type { PrismaClient } from '@sfam/db';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { backupRouter } from '../routers/backup';
+import {
+  cleanupDatabase,
+  createTestContext,
+  createTestFixtures,
+  createTestPrismaClient,
+} from './test-helpers';
+
+describe('Backup Router Integration Tests', () => {
+  let prisma: PrismaClient;
+  let testData: Awaited<ReturnType<typeof createTestFixtures>>;
+  let testContext: ReturnType<typeof createTestContext>;
+
+  beforeEach(async () => {
+    prisma = createTestPrismaClient();
+    await cleanupDatabase(prisma);
+    testData = await createTestFixtures(prisma);
+    testContext = createTestContext({
+      prisma,
+      householdId: testData.household.id,
+      userId: testData.user.id,
+    });
+  });
+
+  afterEach(async () => {
+    await cleanupDatabase(prisma);
+    await prisma.$disconnect();
+  });
+
+  describe('restore mutation (merge mode)', () => {
+    it('should not duplicate rows when the same backup is restored twice', async () => {
+      const householdId = testData.household.id;
+
+      // Manual rows have no externalId, so only the natural key can match them
+      await prisma.transaction.createMany({
+        data: [
+          {
+            householdId,
+            accountId: testData.account.id,
+            date: new Date('2024-12-05T00:00:00.000Z'),
+            description: 'Cash at the market',
+            amount: 80,
+            direction: 'expense',
+          },
+          {
+            householdId,
+            accountId: testData.account.id,
+            date: new Date('2024-12-05T00:00:00.000Z'),
+            description: 'Cash at the market',
+            amount: 80,
+            direction: 'expense',
+          },
+          {
+            householdId,
+            accountId: testData.account.id,
+            date: new Date('2024-12-06T00:00:00.000Z'),
+            description: 'Salary',
+            amount: 12000,
+            direction: 'income',
+            externalId: 'bank-1',
+          },
+        ],
+      });
+      await prisma.goal.create({
+        data: {
+          householdId,
+          name: 'Vacation',
+          targetAmount: 10000,
+          targetDate: new Date('2025-08-01T00:00:00.000Z'),
+          startDate: new Date('2024-12-01T00:00:00.000Z'),
+        },
+      });
+      await prisma.bankConnection.create({
+        data: {
+          householdId,
+          provider: 'onezero',
+          displayName: 'One Zero',
+          encryptedCreds: 'encrypted',
+        },
+      });
+      await prisma.exchangeRate.create({
+        data: {
+          householdId,
+          date: new Date('2024-12-05T00:00:00.000Z'),
+          currency: 'USD',
+          baseCurrency: 'ILS',
+          rate: 3.6,
+          source: 'file',
+        },
+      });
+      await prisma.accountBalanceSnapshot.create({
+        data: {
+          accountId: testData.account.id,
+          date: new Date('2024-12-31T00:00:00.000Z'),
+          balance: 1000,
+          source: 'manual',
+        },
+      });
+
+      const caller = backupRouter.createCaller(testContext);
+      const backup = await caller.export({ includeCredentials: true });
+
+      const countRows = async () => ({
+        transactions: await prisma.transaction.count({ where: { householdId } }),
+        goals: await prisma.goal.count({ where: { householdId } }),
+        bankConnections: await prisma.bankConnection.count({ where: { householdId } }),
+        balanceSnapshots: await prisma.accountBalanceSnapshot.count({
+          where: { account: { householdId } },
+        }),
+        exchangeRates: await prisma.exchangeRate.count({ where: { householdId } }),
+      });
+      const before = await countRows();
+
+      const first = await caller.restore({ backup, mode: 'merge' });
+      const second = await caller.restore({ backup, mode: 'merge' });
+
+      expect(await countRows()).toEqual(before);
+      for (const result of [first, second]) {
+        expect(result.transactions).toBe(0);
+        expect(result.skippedTransactions).toBe(3);
+        expect(result.goals).toBe(0);
+        expect(result.bankConnections).toBe(0);
+        expect(result.balanceSnapshots).toBe(0);
+        expect(result.exchangeRates).toBe(0);
+      }
+    });
+
+    it('should bring back exchange rates the household no longer has', async () => {
+      await prisma.exchangeRate.create({
+        data: {
+          householdId: testData.household.id,
+          date: new Date('2024-12-05T00:00:00.000Z'),
+          currency: 'USD',
+          baseCurrency: 'ILS',
+          rate: 3.6,
+          source: 'file',
+        },
+      });
+
+      const caller = backupRouter.createCaller(testContext);
+      const backup = await caller.export();
+      expect(backup.exchangeRates).toHaveLength(1);
+
+      await prisma.exchangeRate.deleteMany({ where: { householdId: testData.household.id } });
+      const result = await caller.restore({ backup, mode: 'merge' });
+
+      expect(result.exchangeRates).toBe(1);
+      const rates = await prisma.exchangeRate.findMany({
+        where: { householdId: testData.household.id },
+      });
+      expect(rates).toMatchObject([{ currency: 'USD', baseCurrency: 'ILS', rate: 3.6 }]);
+    });
+  });
+});
@@ -1,5 +1,7 @@
 import type { PrismaClient } from '@sfam/db';
+import { normalizeMerchantKey } from '@sfam/domain';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { withAICache } from '../lib/ai-cache';
 import { transactionsRouter } from '../routers/transactions';
 import {
   cleanupDatabase,
@@ -214,6 +216,40 @@ describe('Transactions Router Integration Tests', () => {
       expect(stillCategorized?.categoryId).toBe(testData.categories.expenseCategory.id);
     });
 
+    it('should credit rules that only run actions', async () => {
+      const noteRule = await prisma.categoryRule.create({
+        data: {
+          householdId: testData.household.id,
+          type: 'keyword',
+          pattern: 'Shufersal',
+          priority: 5,
+          actions: JSON.stringify([{ type: 'append_note', value: 'Groceries run' }]),
+        },
+      });
+      await prisma.transaction.create({
+        data: {
+          householdId: testData.household.id,
+          accountId: testData.account.id,
+          date: new Date(),
+          description: 'Weekly shopping at Shufersal',
+          merchant: 'Shufersal',
+          amount: 200,
+          direction: 'expense',
+        },
+      });
+
+      const caller = transactionsRouter.createCaller(testContext);
+      await caller.applyCategorization();
+
+      const [categoryRule, actionRule] = await Promise.all([
+        prisma.categoryRule.findUnique({ where: { id: testData.rule.id } }),
+        prisma.categoryRule.findUnique({ where: { id: noteRule.id } }),
+      ]);
+      expect(categoryRule?.matchCount).toBe(1);
+      expect(actionRule?.matchCount).toBe(1);
+      expect(actionRule?.lastMatchedAt).toBeInstanceOf(Date);
+    });
+
     it('should skip ignored transactions', async () => {
       // Create ignored uncategorized transaction
       const ignored = await prisma.transaction.create({
@@ -407,6 +443,156 @@ describe('Transactions Router Integration Tests', () => {
     });
   });
 
+  describe('update mutation with splits', () => {
+    const createSplitTransaction = async () => {
+      const transaction = await prisma.transaction.create({
+        data: {
+          householdId: testData.household.id,
+          accountId: testData.account.id,
+          date: new Date(),
+          description: 'Supermarket and pharmacy',
+          amount: 300,
+          direction: 'expense',
+        },
+      });
+      await prisma.transactionSplit.createMany({
+        data: [
+          {
+            transactionId: transaction.id,
+            categoryId: testData.categories.expenseCategory.id,
+            amount: 200,
+          },
+          {
+            transactionId: transaction.id,
+            categoryId: testData.categories.varyingCategory.id,
+            amount: 100,
+          },
+        ],
+      });
+      return transaction;
+    };
+
+    it('should reject an amount change without new splits', async () => {
+      const transaction = await createSplitTransaction();
+
+      const caller = transactionsRouter.createCaller(testContext);
+      await expect(caller.update({ id: transaction.id, data: { amount: 350 } })).rejects.toThrow(
+        'requires new splits'
+      );
+
+      // Nothing changed
+      const unchanged = await prisma.transaction.findUnique({
+        where: { id: transaction.id },
+        include: { splits: true },
+      });
+      expect(unchanged?.amount).toBe(300);
+      expect(unchanged?.splits).toHaveLength(2);
+    });
+
+    it('should replace the splits together with the amount', async () => {
+      const transaction = await createSplitTransaction();
+
+      const caller = transactionsRouter.createCaller(testContext);
+      const result = await caller.update({
+        id: transaction.id,
+        data: { amount: 350 },
+        splits: [
+          { categoryId: testData.categories.expenseCategory.id, amount: 250 },
+          { categoryId: testData.categories.varyingCategory.id, amount: 100 },
+        ],
+      });
+
+      expect(result.amount).toBe(350);
+      const splits = await prisma.transactionSplit.findMany({
+        where: { transactionId: transaction.id },
+        orderBy: { amount: 'desc' },
+      });
+      expect(splits.map((s) => s.amount)).toEqual([250, 100]);
+    });
+
+    it('should reject splits that do not add up to the new amount', async () => {
+      const transaction = await createSplitTransaction();
+
+      const caller = transactionsRouter.createCaller(testContext);
+      await expect(
+        caller.update({
+          id: transaction.id,
+          data: { amount: 350 },
+          splits: [
+            { categoryId: testData.categories.expenseCategory.id, amount: 200 },
+            { categoryId: testData.categories.varyingCategory.id, amount: 100 },
+          ],
+        })
+      ).rejects.toThrow();
+
+      const splits = await prisma.transactionSplit.findMany({
+        where: { transactionId: transaction.id },
+      });
+      expect(splits).toHaveLength(2);
+    });
+
+    it('should allow other edits to a split transaction', async () => {
+      const transaction = await createSplitTransaction();
+
+      const caller = transactionsRouter.createCaller(testContext);
+      const result = await caller.update({
+        id: transaction.id,
+        data: { amount: 300, notes: 'Weekly shop' },
+      });
+
+      expect(result.notes).toBe('Weekly shop');
+    });
+  });
+
+  describe('stored AI suggestions', () => {
+    it('should stop using the stored answer for a merchant the user corrects', async () => {
+      const txInput = {
+        description: 'Wolt order 1234',
+        merchant: 'Wolt',
+        amount: 85,
+        direction: 'expense' as const,
+      };
+      const transaction = await prisma.transaction.create({
+        data: {
+          ...txInput,
+          householdId: testData.household.id,
+          accountId: testData.account.id,
+          date: new Date(),
+          categoryId: testData.categories.varyingCategory.id,
+          categorizationSource: 'ai_suggestion',
+          needsReview: true,
+        },
+      });
+      await prisma.aiSuggestion.create({
+        data: {
+          householdId: testData.household.id,
+          merchantKey: normalizeMerchantKey(txInput),
+          categoryId: testData.categories.varyingCategory.id,
+          confidence: 0.8,
+          reason: 'AI: food delivery',
+        },
+      });
+
+      const readCache = () =>
+        withAICache(prisma, testData.household.id, [txInput], async (cache) =>
+          cache.get(normalizeMerchantKey(txInput))
+        );
+      expect((await readCache())?.categoryId).toBe(testData.categories.varyingCategory.id);
+
+      const caller = transactionsRouter.createCaller(testContext);
+      await caller.update({
+        id: transaction.id,
+        data: { categoryId: testData.categories.expenseCategory.id },
+      });
+
+      // The next import or sync asks the model again
+      expect(await readCache()).toBeUndefined();
+      expect(
+        await prisma.aiSuggestion.count({ where: { householdId: testData.household.id } })
+      ).toBe(0);
+    });
+  });
+
   describe('list query with categorization status', () => {
     it('should return transactions with isProcessing status', async () => {
       // Create a locked transaction
@@ -21,3 +21,10 @@ export type RouterInputs = inferRouterInputs<AppRouter>;
 
 // Individual routers (for testing/direct use)
 export * from './routers';
+
+// Background jobs
+export { queueRuleProposals } from './routers/rules';
+export { pairHouseholdTransfers } from './routers/transactions';
+export { reconcileRecurringTransactions } from './routers/recurring';
+export { autoSyncConnectionWhere, enqueueSyncJobs } from './routers/bankConnections';
+export { withAICache } from './lib/ai-cache';
@@ -0,0 +1,88 @@
+import type { PrismaClient } from '@sfam/db';
+import {
+  type AICategoryCache,
+  type CategorizationResult,
+  type TransactionInput,
+  normalizeMerchantKey,
+} from '@sfam/domain';
+
+// Stored answers older than this are asked again, so the household's changing habits and
+// categories reach the model
+const AI_SUGGESTION_MAX_AGE_DAYS = 90;
+
+/**
+ * Run AI categorization with the household's stored answers for these transactions' merchants
+ * Merchants the model has already answered are not sent again; new answers are stored for
+ * later imports and syncs.
+ */
+export async function withAICache<T>(
+  prisma: PrismaClient,
+  householdId: string,
+  transactions: TransactionInput[],
+  run: (cache: AICategoryCache) => Promise<T>
+): Promise<T> {
+  const stored = await prisma.aiSuggestion.findMany({
+    where: {
+      householdId,
+      merchantKey: { in: [...new Set(transactions.map(normalizeMerchantKey))] },
+      updatedAt: { gte: new Date(Date.now() - AI_SUGGESTION_MAX_AGE_DAYS * 24 * 60 * 60 * 1000) },
+    },
+  });
+
+  const cache = new Map<string, CategorizationResult>(
+    stored.map((row) => [
+      row.merchantKey,
+      {
+        categoryId: row.categoryId,
+        confidence: row.confidence,
+        source: 'ai_suggestion',
+        reason: row.reason,
+        reasoning: row.reasoning ?? undefined,
+        matchedRule: null,
+      },
+    ])
+  );
+  const loaded = new Map(cache);
+
+  const result = await run(cache);
+
+  const answered = [...cache].filter(
+    ([key, answer]) => answer.categoryId && loaded.get(key) !== answer
+  );
+  await Promise.all(
+    answered.map(([merchantKey, answer]) => {
+      const data = {
+        categoryId: answer.categoryId as string,
+        confidence: answer.confidence,
+        reason: answer.reason,
+        reasoning: answer.reasoning,
+      };
+      return prisma.aiSuggestion.upsert({
+        where: { householdId_merchantKey: { householdId, merchantKey } },
+        create: { householdId, merchantKey, ...data },
+        update: data,
+      });
+    })
+  );
+
+  return result;
+}
+
+/**
+ * Forget the stored answers for merchants the user has recategorized by hand
+ * The next import or sync asks the model again, with the correction among its examples
+ */
+export async function forgetAISuggestions(
+  prisma: PrismaClient,
+  householdId: string,
+  transactions: Array<{ description: string; merchant: string | null; direction: string }>
+) {
+  if (transactions.length === 0) return;
+
+  await prisma.aiSuggestion.deleteMany({
+    where: {
+      householdId,
+      merchantKey: { in: [...new Set(transactions.map(normalizeMerchantKey))] },
+    },
+  });
+}
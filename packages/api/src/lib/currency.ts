@@ -0,0 +1,103 @@
+import type { PrismaClient } from '@sfam/db';
+import { DEFAULT_BASE_CURRENCY, convertTransactionsToBase } from '@sfam/domain';
+
+export interface DateRange {
+  from: Date;
+  to: Date;
+}
+
+export type CurrencyContext = Awaited<ReturnType<typeof loadCurrencyContext>>;
+
+// Rates dated within the range, plus each pair's nearest rate before and after it, so
+// amounts dated just outside the range still convert the way they would with every rate loaded
+async function loadExchangeRates(
+  prisma: PrismaClient,
+  householdId: string,
+  currencies: string[],
+  range: DateRange
+) {
+  const pairs = {
+    householdId,
+    OR: [{ currency: { in: currencies } }, { baseCurrency: { in: currencies } }],
+  };
+
+  const [inRange, before, after] = await Promise.all([
+    prisma.exchangeRate.findMany({
+      where: { ...pairs, date: { gte: range.from, lte: range.to } },
+    }),
+    prisma.exchangeRate.groupBy({
+      by: ['currency', 'baseCurrency'],
+      where: { ...pairs, date: { lt: range.from } },
+      _max: { date: true },
+    }),
+    prisma.exchangeRate.groupBy({
+      by: ['currency', 'baseCurrency'],
+      where: { ...pairs, date: { gt: range.to } },
+      _min: { date: true },
+    }),
+  ]);
+
+  const edges = [
+    ...before.map((g) => ({
+      currency: g.currency,
+      baseCurrency: g.baseCurrency,
+      date: g._max.date,
+    })),
+    ...after.map((g) => ({
+      currency: g.currency,
+      baseCurrency: g.baseCurrency,
+      date: g._min.date,
+    })),
+  ].filter((edge): edge is { currency: string; baseCurrency: string; date: Date } => !!edge.date);
+  if (edges.length === 0) return inRange;
+
+  const edgeRates = await prisma.exchangeRate.findMany({ where: { householdId, OR: edges } });
+  return [...inRange, ...edgeRates];
+}
+
+/**
+ * Load the household's base currency and the exchange rates a report over `range` needs
+ * The returned `convert` turns transactions (amounts in their account's currency) into the
+ * base currency
+ */
+export async function loadCurrencyContext(
+  prisma: PrismaClient,
+  householdId: string,
+  range: DateRange
+) {
+  const [household, accounts] = await Promise.all([
+    prisma.household.findUnique({ where: { id: householdId }, select: { baseCurrency: true } }),
+    prisma.account.findMany({ where: { householdId }, select: { id: true, currency: true } }),
+  ]);
+
+  const baseCurrency = household?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+  const currencyByAccount = new Map(accounts.map((a) => [a.id, a.currency]));
+  const currencies = [...new Set([...currencyByAccount.values(), baseCurrency])];
+
+  // Single-currency households skip the rate lookup entirely
+  const rates =
+    currencies.length > 1 ? await loadExchangeRates(prisma, householdId, currencies, range) : [];
+
+  return {
+    baseCurrency,
+    convert<
+      T extends {
+        accountId: string;
+        amount: number;
+        date: Date;
+        originalAmount?: number | null;
+        originalCurrency?: string | null;
+        splits?: Array<{ amount: number }>;
+      },
+    >(transactions: T[]) {
+      return convertTransactionsToBase(
+        transactions.map((t) => ({
+          ...t,
+          currency: currencyByAccount.get(t.accountId) ?? baseCurrency,
+        })),
+        baseCurrency,
+        rates
+      );
+    },
+  };
+}
@@ -1,11 +1,16 @@
 import {
   accountsRouter,
+  backupRouter,
   bankConnectionsRouter,
   budgetsRouter,
   categoriesRouter,
+  currencyRouter,
   dashboardRouter,
   demoRouter,
+  goalsRouter,
+  installmentsRouter,
   invitesRouter,
+  merchantsRouter,
   performanceRouter,
   recurringRouter,
   rulesRouter,
@@ -28,6 +33,11 @@ export const appRouter = router({
   demo: demoRouter,
   performance: performanceRouter,
   invites: invitesRouter,
+  backup: backupRouter,
+  currency: currencyRouter,
+  installments: installmentsRouter,
+  goals: goalsRouter,
+  merchants: merchantsRouter,
 });
 
 /**
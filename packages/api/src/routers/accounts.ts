@@ -1,6 +1,23 @@
+import type { PrismaClient } from '@sfam/db';
+import { type BankProvider, scraperService } from '@sfam/scraper';
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { protectedProcedure, router } from '../trpc';
 
+/**
+ * Set an account's balance to its latest snapshot (0 when it has none left)
+ */
+async function refreshAccountBalance(prisma: PrismaClient, accountId: string) {
+  const latest = await prisma.accountBalanceSnapshot.findFirst({
+    where: { accountId },
+    orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+  });
+  await prisma.account.update({
+    where: { id: accountId },
+    data: { balance: latest?.balance ?? 0 },
+  });
+}
+
 export const accountsRouter = router({
   /**
    * Ensure default account exists and return all accounts
@@ -82,6 +99,12 @@ export const accountsRouter = router({
           currency: input.currency,
           balance: input.balance,
           institutionName: input.institutionName,
+          // The opening balance is the account's first snapshot
+          ...(input.balance !== 0 && {
+            balanceSnapshots: {
+              create: { date: new Date(), balance: input.balance, source: 'manual' },
+            },
+          }),
         },
       });
     }),
@@ -102,19 +125,96 @@ export const accountsRouter = router({
       })
     )
     .mutation(async ({ ctx, input }) => {
+      const { balance } = input.data;
       return ctx.prisma.account.update({
         where: {
           id: input.id,
           householdId: ctx.householdId,
         },
-        data: input.data,
+        data: {
+          ...input.data,
+          // A balance set by hand is a snapshot as of now
+          ...(balance !== undefined && {
+            balanceSnapshots: { create: { date: new Date(), balance, source: 'manual' } },
+          }),
+        },
       });
     }),
 
+  /**
+   * Balance snapshots of an account, newest first
+   */
+  balanceHistory: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.string(),
+        limit: z.number().min(1).max(500).default(50),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.prisma.accountBalanceSnapshot.findMany({
+        where: { accountId: input.accountId, account: { householdId: ctx.householdId } },
+        orderBy: [{ date: 'desc' }, { createdAt: 'desc' }],
+        take: input.limit,
+      });
+    }),
+
+  /**
+   * Record a balance by hand, e.g. for cash, pension or investment accounts no bank
+   * connection reports. Back-dated snapshots fill in the history.
+   */
+  addBalanceSnapshot: protectedProcedure
+    .input(
+      z.object({
+        accountId: z.string(),
+        balance: z.number(),
+        date: z.date().optional(),
+        note: z.string().max(200).optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const account = await ctx.prisma.account.findFirst({
+        where: { id: input.accountId, householdId: ctx.householdId },
+      });
+      if (!account) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Account not found' });
+      }
+
+      const snapshot = await ctx.prisma.accountBalanceSnapshot.create({
+        data: {
+          accountId: account.id,
+          date: input.date ?? new Date(),
+          balance: input.balance,
+          source: 'manual',
+          note: input.note,
+        },
+      });
+      await refreshAccountBalance(ctx.prisma, account.id);
+
+      return snapshot;
+    }),
+
+  /**
+   * Delete a balance snapshot; the account's balance falls back to the latest one left
+   */
+  deleteBalanceSnapshot: protectedProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    const snapshot = await ctx.prisma.accountBalanceSnapshot.findFirst({
+      where: { id: input, account: { householdId: ctx.householdId } },
+    });
+    if (!snapshot) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Snapshot not found' });
+    }
+
+    await ctx.prisma.accountBalanceSnapshot.delete({ where: { id: snapshot.id } });
+    await refreshAccountBalance(ctx.prisma, snapshot.accountId);
+
+    return { success: true };
+  }),
+
   /**
    * Fix account types based on bank connection provider
-   * - Isracard connections -> credit accounts
-   * - OneZero connections -> checking accounts
+   * - Card issuer connections (Isracard, Max, Cal) -> credit accounts
+   * - Bank connections (OneZero, Leumi, Hapoalim) -> checking accounts
    */
   fixAccountTypes: protectedProcedure.mutation(async ({ ctx }) => {
     // Get all bank connections with their account mappings
@@ -137,11 +237,12 @@ export const accountsRouter = router({
         const mappings = JSON.parse(conn.accountMappings) as Record<string, string>;
         const accountIds = Object.values(mappings);
 
-        if (conn.provider === 'isracard') {
-          // Isracard = credit card provider
+        const { kind } = scraperService.getProviderMetadata(conn.provider as BankProvider);
+        if (kind === 'credit_card') {
+          // Card issuers (Isracard, Max, Cal)
           accountIds.forEach((id) => creditAccountIds.add(id));
         } else {
-          // OneZero and others = checking/bank accounts
+          // Banks = checking accounts
           accountIds.forEach((id) => checkingAccountIds.add(id));
         }
       }
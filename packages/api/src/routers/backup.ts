@@ -0,0 +1,714 @@
+import { randomUUID } from 'node:crypto';
+import type { Prisma } from '@sfam/db';
+import { parseRuleConditions } from '@sfam/domain';
+import {
+  HOUSEHOLD_BACKUP_VERSION,
+  type HouseholdBackup,
+  restoreHouseholdSchema,
+} from '@sfam/domain/schemas';
+import { z } from 'zod';
+import { protectedProcedure, router } from '../trpc';
+
+/**
+ * Order categories so parents are created before their children
+ */
+function sortCategoriesByDepth(categories: HouseholdBackup['categories']) {
+  const byId = new Map(categories.map((cat) => [cat.id, cat]));
+
+  const depthOf = (id: string): number => {
+    let depth = 0;
+    let current = byId.get(id);
+    const seen = new Set<string>();
+    while (current?.parentCategoryId && !seen.has(current.id)) {
+      seen.add(current.id);
+      current = byId.get(current.parentCategoryId);
+      depth++;
+    }
+    return depth;
+  };
+
+  return [...categories].sort((a, b) => depthOf(a.id) - depthOf(b.id));
+}
+
+/**
+ * Merge a backup into a household, assigning new IDs to every row
+ * Categories, accounts, merchants, rules, recurring templates and goals that already exist
+ * (same name) are reused, and transactions and bank connections already present are skipped,
+ * so restoring the same backup twice adds nothing the second time
+ */
+async function restoreBackup(
+  tx: Prisma.TransactionClient,
+  householdId: string,
+  userId: string,
+  backup: HouseholdBackup
+) {
+  // 1. Categories (parents first)
+  const categoryIds = new Map<string, string>();
+  const existingCategories = await tx.category.findMany({
+    where: { householdId },
+    select: { id: true, name: true, parentCategoryId: true },
+  });
+
+  for (const cat of sortCategoriesByDepth(backup.categories)) {
+    const parentCategoryId = cat.parentCategoryId
+      ? (categoryIds.get(cat.parentCategoryId) ?? null)
+      : null;
+
+    const existing = existingCategories.find(
+      (c) => c.name === cat.name && c.parentCategoryId === parentCategoryId
+    );
+    if (existing) {
+      categoryIds.set(cat.id, existing.id);
+      continue;
+    }
+
+    const created = await tx.category.create({
+      data: {
+        householdId,
+        name: cat.name,
+        type: cat.type,
+        parentCategoryId,
+        icon: cat.icon,
+        color: cat.color,
+        isActive: cat.isActive,
+        isSystem: cat.isSystem,
+        sortOrder: cat.sortOrder,
+      },
+    });
+    categoryIds.set(cat.id, created.id);
+  }
+
+  const mapCategory = (id: string | null | undefined) =>
+    id ? (categoryIds.get(id) ?? null) : null;
+
+  // 2. Accounts
+  const accountIds = new Map<string, string>();
+  const existingAccounts = await tx.account.findMany({
+    where: { householdId },
+    select: { id: true, name: true, type: true },
+  });
+
+  for (const account of backup.accounts) {
+    const existing = existingAccounts.find(
+      (a) => a.name === account.name && a.type === account.type
+    );
+    if (existing) {
+      accountIds.set(account.id, existing.id);
+      continue;
+    }
+
+    // Backups made before balance history start the account's history at its balance
+    const hasHistory = backup.balanceSnapshots.some((s) => s.accountId === account.id);
+
+    const created = await tx.account.create({
+      data: {
+        householdId,
+        name: account.name,
+        type: account.type,
+        currency: account.currency,
+        balance: account.balance,
+        isActive: account.isActive,
+        institutionName: account.institutionName,
+        externalAccountId: account.externalAccountId,
+        lastSyncedAt: account.lastSyncedAt,
+        balanceSnapshots:
+          !hasHistory && account.balance !== 0
+            ? {
+                create: {
+                  date: account.lastSyncedAt ?? backup.exportedAt,
+                  balance: account.balance,
+                  source: 'manual',
+                },
+              }
+            : undefined,
+      },
+    });
+    accountIds.set(account.id, created.id);
+  }
+
+  // Balance history, minus snapshots a reused account already has
+  const existingSnapshots = await tx.accountBalanceSnapshot.findMany({
+    where: { accountId: { in: [...accountIds.values()] } },
+    select: { accountId: true, date: true, balance: true },
+  });
+  const snapshotKey = (s: { accountId: string; date: Date; balance: number }) =>
+    `${s.accountId}|${s.date.getTime()}|${s.balance}`;
+  const knownSnapshots = new Set(existingSnapshots.map(snapshotKey));
+
+  const balanceSnapshots = await tx.accountBalanceSnapshot.createMany({
+    data: backup.balanceSnapshots.flatMap((snapshot) => {
+      const accountId = accountIds.get(snapshot.accountId);
+      if (!accountId) return [];
+      const row = { ...snapshot, accountId };
+      if (knownSnapshots.has(snapshotKey(row))) return [];
+      knownSnapshots.add(snapshotKey(row));
+      return [row];
+    }),
+  });
+
+  // 3. Merchants (existing names are reused)
+  const merchantIds = new Map<string, string>();
+  const existingMerchants = await tx.merchant.findMany({
+    where: { householdId },
+    select: { id: true, name: true },
+  });
+
+  for (const merchant of backup.merchants) {
+    const existing = existingMerchants.find((m) => m.name === merchant.name);
+    if (existing) {
+      merchantIds.set(merchant.id, existing.id);
+      continue;
+    }
+
+    const created = await tx.merchant.create({
+      data: {
+        householdId,
+        name: merchant.name,
+        aliases: merchant.aliases ?? '[]',
+        patterns: merchant.patterns ?? '[]',
+        defaultCategoryId: mapCategory(merchant.defaultCategoryId),
+        icon: merchant.icon,
+        logoUrl: merchant.logoUrl,
+        website: merchant.website,
+      },
+    });
+    merchantIds.set(merchant.id, created.id);
+  }
+
+  // 4. Rules
+  const ruleIds = new Map<string, string>();
+  const existingRules = await tx.categoryRule.findMany({
+    where: { householdId },
+    select: {
+      id: true,
+      categoryId: true,
+      type: true,
+      pattern: true,
+      conditions: true,
+      actions: true,
+    },
+  });
+  let rulesCreated = 0;
+
+  for (const rule of backup.rules) {
+    // Action-only rules have no category; others are dropped with their category
+    const categoryId = mapCategory(rule.categoryId);
+    if (rule.categoryId && !categoryId) continue;
+
+    // Conditions scoped to accounts or merchants point at the restored ones
+    const parsedConditions = parseRuleConditions(rule.conditions);
+    const conditions = parsedConditions
+      ? JSON.stringify({
+          ...parsedConditions,
+          accountIds: parsedConditions.accountIds?.flatMap((id) => {
+            const mapped = accountIds.get(id);
+            return mapped ? [mapped] : [];
+          }),
+          merchantIds: parsedConditions.merchantIds?.flatMap((id) => {
+            const mapped = merchantIds.get(id);
+            return mapped ? [mapped] : [];
+          }),
+        })
+      : null;
+
+    const existing = existingRules.find(
+      (r) =>
+        r.categoryId === categoryId &&
+        r.type === rule.type &&
+        r.pattern === rule.pattern &&
+        r.conditions === conditions &&
+        r.actions === (rule.actions ?? null)
+    );
+    if (existing) {
+      ruleIds.set(rule.id, existing.id);
+      continue;
+    }
+
+    const created = await tx.categoryRule.create({
+      data: {
+        householdId,
+        categoryId,
+        type: rule.type,
+        pattern: rule.pattern,
+        conditions,
+        actions: rule.actions,
+        priority: rule.priority,
+        isActive: rule.isActive,
+        createdFrom: rule.createdFrom,
+        matchCount: rule.matchCount,
+        lastMatchedAt: rule.lastMatchedAt,
+      },
+    });
+    ruleIds.set(rule.id, created.id);
+    rulesCreated++;
+  }
+
+  // 5. Budgets (existing budgets for the same category, month and period win)
+  const budgets = await tx.budget.createMany({
+    data: backup.budgets.flatMap((budget) => {
+      const categoryId = mapCategory(budget.categoryId);
+      if (!categoryId) return [];
+      return [
+        {
+          householdId,
+          categoryId,
+          month: budget.month,
+          period: budget.period,
+          plannedAmount: budget.plannedAmount,
+          limitAmount: budget.limitAmount,
+          limitType: budget.limitType,
+          alertThresholdPct: budget.alertThresholdPct,
+          rollover: budget.rollover,
+          rolloverCap: budget.rolloverCap,
+        },
+      ];
+    }),
+    skipDuplicates: true,
+  });
+
+  // 6. Recurring templates with their overrides
+  const templateIds = new Map<string, string>();
+  const existingTemplates = await tx.recurringTransactionTemplate.findMany({
+    where: { householdId },
+    select: { id: true, name: true, direction: true, amount: true },
+  });
+  let templatesCreated = 0;
+
+  for (const template of backup.recurringTemplates) {
+    const existing = existingTemplates.find(
+      (t) =>
+        t.name === template.name &&
+        t.direction === template.direction &&
+        t.amount === template.amount
+    );
+    if (existing) {
+      templateIds.set(template.id, existing.id);
+      continue;
+    }
+
+    const created = await tx.recurringTransactionTemplate.create({
+      data: {
+        householdId,
+        name: template.name,
+        direction: template.direction,
+        amount: template.amount,
+        defaultCategoryId: mapCategory(template.defaultCategoryId),
+        description: template.description,
+        merchant: template.merchant,
+        accountId: template.accountId ? (accountIds.get(template.accountId) ?? null) : null,
+        frequency: template.frequency,
+        interval: template.interval,
+        byWeekday: template.byWeekday,
+        byMonthDay: template.byMonthDay,
+        startDate: template.startDate,
+        endDate: template.endDate,
+        timezone: template.timezone,
+        isActive: template.isActive,
+        nextRunAt: template.nextRunAt,
+        lastRunAt: template.lastRunAt,
+        overrides: {
+          create: template.overrides.map((override) => ({
+            instanceKey: override.instanceKey,
+            action: override.action,
+            amount: override.amount,
+            categoryId: mapCategory(override.categoryId),
+            description: override.description,
+          })),
+        },
+      },
+    });
+    templateIds.set(template.id, created.id);
+    templatesCreated++;
+  }
+
+  // 7. Installment plans (existing plan keys are reused)
+  const installmentPlanIds = new Map<string, string>();
+  for (const plan of backup.installmentPlans) {
+    const accountId = accountIds.get(plan.accountId);
+    if (!accountId) continue;
+
+    const created = await tx.installmentPlan.upsert({
+      where: { householdId_planKey: { householdId, planKey: plan.planKey } },
+      create: {
+        householdId,
+        accountId,
+        categoryId: mapCategory(plan.categoryId),
+        planKey: plan.planKey,
+        description: plan.description,
+        merchant: plan.merchant,
+        purchaseDate: plan.purchaseDate,
+        firstPaymentDate: plan.firstPaymentDate,
+        totalPayments: plan.totalPayments,
+        paymentAmount: plan.paymentAmount,
+        totalAmount: plan.totalAmount,
+      },
+      update: {},
+    });
+    installmentPlanIds.set(plan.id, created.id);
+  }
+
+  // 8. Goals (existing names are reused)
+  const goalIds = new Map<string, string>();
+  const existingGoals = await tx.goal.findMany({
+    where: { householdId },
+    select: { id: true, name: true },
+  });
+  let goalsCreated = 0;
+
+  for (const goal of backup.goals) {
+    const existing = existingGoals.find((g) => g.name === goal.name);
+    if (existing) {
+      goalIds.set(goal.id, existing.id);
+      continue;
+    }
+
+    const created = await tx.goal.create({
+      data: {
+        householdId,
+        name: goal.name,
+        icon: goal.icon,
+        targetAmount: goal.targetAmount,
+        targetDate: goal.targetDate,
+        startDate: goal.startDate,
+        initialAmount: goal.initialAmount,
+        accountId: goal.accountId ? (accountIds.get(goal.accountId) ?? null) : null,
+        categoryId: mapCategory(goal.categoryId),
+        isArchived: goal.isArchived,
+      },
+    });
+    goalIds.set(goal.id, created.id);
+    goalsCreated++;
+  }
+
+  // 9. Transactions - IDs are assigned up front so splits, corrections and
+  // transfer pairs can reference them without a lookup per row
+  const transactionIds = new Map<string, string>();
+  const transactionRows: Prisma.TransactionCreateManyInput[] = [];
+
+  // Rows without an externalId (manual entries, statement imports) are matched on account,
+  // date, amount and description; each existing row absorbs one backup row
+  const transactionKey = (t: {
+    accountId: string;
+    date: Date;
+    amount: number;
+    description: string;
+  }) => `${t.accountId}|${t.date.getTime()}|${t.amount}|${t.description}`;
+  const existingTransactions = new Map<string, number>();
+  const existingRows = await tx.transaction.findMany({
+    where: { householdId, accountId: { in: [...accountIds.values()] } },
+    select: { accountId: true, date: true, amount: true, description: true },
+  });
+  for (const row of existingRows) {
+    const key = transactionKey(row);
+    existingTransactions.set(key, (existingTransactions.get(key) ?? 0) + 1);
+  }
+
+  for (const txn of backup.transactions) {
+    const accountId = accountIds.get(txn.accountId);
+    if (!accountId) continue;
+
+    const key = transactionKey({ ...txn, accountId });
+    const remaining = existingTransactions.get(key) ?? 0;
+    if (remaining > 0) {
+      existingTransactions.set(key, remaining - 1);
+      continue;
+    }
+
+    const id = randomUUID();
+    transactionIds.set(txn.id, id);
+    transactionRows.push({
+      id,
+      householdId,
+      accountId,
+      categoryId: mapCategory(txn.categoryId),
+      date: txn.date,
+      description: txn.description,
+      merchant: txn.merchant,
+      merchantId: txn.merchantId ? (merchantIds.get(txn.merchantId) ?? null) : null,
+      amount: txn.amount,
+      direction: txn.direction,
+      categorizationSource: txn.categorizationSource,
+      confidence: txn.confidence,
+      aiReasoning: txn.aiReasoning,
+      notes: txn.notes,
+      needsReview: txn.needsReview,
+      isIgnored: txn.isIgnored,
+      isPending: txn.isPending,
+      isRecurringInstance: txn.isRecurringInstance,
+      recurringTemplateId: txn.recurringTemplateId
+        ? (templateIds.get(txn.recurringTemplateId) ?? null)
+        : null,
+      recurringInstanceKey: txn.recurringInstanceKey,
+      externalId: txn.externalId,
+      originalAmount: txn.originalAmount,
+      originalCurrency: txn.originalCurrency,
+      installmentPlanId: txn.installmentPlanId
+        ? (installmentPlanIds.get(txn.installmentPlanId) ?? null)
+        : null,
+      installmentNumber: txn.installmentNumber,
+      goalId: txn.goalId ? (goalIds.get(txn.goalId) ?? null) : null,
+      ruleId: txn.ruleId ? (ruleIds.get(txn.ruleId) ?? null) : null,
+      transferStatus: txn.transferStatus,
+      preTransferDirection: txn.preTransferDirection,
+    });
+  }
+
+  // Rows that already exist (same account + externalId, or same recurring instance) are skipped
+  await tx.transaction.createMany({ data: transactionRows, skipDuplicates: true });
+
+  const inserted = new Set(
+    (
+      await tx.transaction.findMany({
+        where: { householdId, id: { in: transactionRows.map((row) => row.id as string) } },
+        select: { id: true },
+      })
+    ).map((row) => row.id)
+  );
+  const mapInserted = (id: string) => {
+    const mapped = transactionIds.get(id);
+    return mapped && inserted.has(mapped) ? mapped : null;
+  };
+
+  // Re-link transfer pairs once both legs exist
+  for (const txn of backup.transactions) {
+    if (!txn.transferPeerId) continue;
+    const id = mapInserted(txn.id);
+    const peerId = mapInserted(txn.transferPeerId);
+    if (!id || !peerId) continue;
+
+    await tx.transaction.update({ where: { id }, data: { transferPeerId: peerId } });
+  }
+
+  // Broken pairs stay broken
+  await tx.transferRejection.createMany({
+    data: backup.transferRejections.flatMap((rejection) => {
+      const outgoingId = mapInserted(rejection.outgoingId);
+      const incomingId = mapInserted(rejection.incomingId);
+      return outgoingId && incomingId ? [{ outgoingId, incomingId }] : [];
+    }),
+    skipDuplicates: true,
+  });
+
+  // 10. Splits
+  await tx.transactionSplit.createMany({
+    data: backup.transactions.flatMap((txn) => {
+      const transactionId = mapInserted(txn.id);
+      if (!transactionId) return [];
+      return txn.splits.map((split) => ({
+        transactionId,
+        categoryId: mapCategory(split.categoryId),
+        amount: split.amount,
+        notes: split.notes,
+      }));
+    }),
+  });
+
+  // 11. Corrections are attributed to the restoring user
+  const corrections = await tx.userCorrection.createMany({
+    data: backup.corrections.flatMap((correction) => {
+      const transactionId = mapInserted(correction.transactionId);
+      const toCategoryId = mapCategory(correction.toCategoryId);
+      if (!transactionId || !toCategoryId) return [];
+      return [
+        {
+          userId,
+          transactionId,
+          fromCategoryId: mapCategory(correction.fromCategoryId),
+          toCategoryId,
+          createdRuleId: correction.createdRuleId
+            ? (ruleIds.get(correction.createdRuleId) ?? null)
+            : null,
+          ruleId: correction.ruleId ? (ruleIds.get(correction.ruleId) ?? null) : null,
+          createdAt: correction.createdAt,
+        },
+      ];
+    }),
+  });
+
+  // 12. Import profiles (existing names win)
+  await tx.importProfile.createMany({
+    data: backup.importProfiles.map((profile) => ({
+      householdId,
+      name: profile.name,
+      format: profile.format,
+      columnMapping: profile.columnMapping,
+      dateFormat: profile.dateFormat,
+      accountId: profile.accountId ? (accountIds.get(profile.accountId) ?? null) : null,
+    })),
+    skipDuplicates: true,
+  });
+
+  // 13. Exchange rates (rates the household already has for a date win)
+  const exchangeRates = await tx.exchangeRate.createMany({
+    data: backup.exchangeRates.map((rate) => ({
+      householdId,
+      date: rate.date,
+      currency: rate.currency,
+      baseCurrency: rate.baseCurrency,
+      rate: rate.rate,
+      source: rate.source,
+    })),
+    skipDuplicates: true,
+  });
+
+  // 14. Bank connections - credentials are copied as-is (still encrypted). A connection to
+  // the same provider with the same name or accounts is kept as it is
+  const existingConnections = await tx.bankConnection.findMany({
+    where: { householdId },
+    select: { provider: true, displayName: true, accountMappings: true },
+  });
+  let connectionsCreated = 0;
+  for (const connection of backup.bankConnections ?? []) {
+    const mappings: Record<string, string> = connection.accountMappings
+      ? JSON.parse(connection.accountMappings)
+      : {};
+    const remapped = Object.fromEntries(
+      Object.entries(mappings).flatMap(([externalId, accountId]) => {
+        const mapped = accountIds.get(accountId);
+        return mapped ? [[externalId, mapped]] : [];
+      })
+    );
+
+    const accountMappings = Object.keys(remapped).length > 0 ? JSON.stringify(remapped) : null;
+    const existing = existingConnections.find(
+      (c) =>
+        c.provider === connection.provider &&
+        (c.displayName === connection.displayName ||
+          (accountMappings !== null && c.accountMappings === accountMappings))
+    );
+    if (existing) continue;
+
+    await tx.bankConnection.create({
+      data: {
+        householdId,
+        provider: connection.provider,
+        displayName: connection.displayName,
+        encryptedCreds: connection.encryptedCreds,
+        longTermToken: connection.longTermToken,
+        accountMappings,
+        isActive: connection.isActive,
+      },
+    });
+    connectionsCreated++;
+  }
+
+  return {
+    categories: categoryIds.size,
+    accounts: accountIds.size,
+    balanceSnapshots: balanceSnapshots.count,
+    merchants: merchantIds.size,
+    rules: rulesCreated,
+    budgets: budgets.count,
+    recurringTemplates: templatesCreated,
+    goals: goalsCreated,
+    transactions: inserted.size,
+    skippedTransactions: backup.transactions.length - inserted.size,
+    corrections: corrections.count,
+    exchangeRates: exchangeRates.count,
+    bankConnections: connectionsCreated,
+  };
+}
+
+export const backupRouter = router({
+  /**
+   * Export every household-scoped record as a versioned JSON backup
+   * Bank credentials are only included when requested, and stay encrypted
+   */
+  export: protectedProcedure
+    .input(z.object({ includeCredentials: z.boolean().default(false) }).optional())
+    .query(async ({ ctx, input }): Promise<HouseholdBackup> => {
+      const householdId = ctx.householdId;
+
+      const [
+        household,
+        accounts,
+        balanceSnapshots,
+        categories,
+        merchants,
+        rules,
+        budgets,
+        recurringTemplates,
+        installmentPlans,
+        goals,
+        transactions,
+        transferRejections,
+        corrections,
+        importProfiles,
+        exchangeRates,
+      ] = await Promise.all([
+        ctx.prisma.household.findUniqueOrThrow({ where: { id: householdId } }),
+        ctx.prisma.account.findMany({ where: { householdId }, orderBy: { createdAt: 'asc' } }),
+        ctx.prisma.accountBalanceSnapshot.findMany({
+          where: { account: { householdId } },
+          select: { accountId: true, date: true, balance: true, source: true, note: true },
+          orderBy: { date: 'asc' },
+        }),
+        ctx.prisma.category.findMany({ where: { householdId }, orderBy: { sortOrder: 'asc' } }),
+        ctx.prisma.merchant.findMany({ where: { householdId } }),
+        ctx.prisma.categoryRule.findMany({ where: { householdId } }),
+        ctx.prisma.budget.findMany({ where: { householdId }, orderBy: { month: 'asc' } }),
+        ctx.prisma.recurringTransactionTemplate.findMany({
+          where: { householdId },
+          include: { overrides: true },
+        }),
+        ctx.prisma.installmentPlan.findMany({ where: { householdId } }),
+        ctx.prisma.goal.findMany({ where: { householdId } }),
+        ctx.prisma.transaction.findMany({
+          where: { householdId },
+          include: { splits: true },
+          orderBy: { date: 'asc' },
+        }),
+        ctx.prisma.transferRejection.findMany({
+          where: { outgoing: { householdId } },
+          select: { outgoingId: true, incomingId: true },
+        }),
+        ctx.prisma.userCorrection.findMany({ where: { transaction: { householdId } } }),
+        ctx.prisma.importProfile.findMany({ where: { householdId } }),
+        ctx.prisma.exchangeRate.findMany({
+          where: { householdId },
+          select: { date: true, currency: true, baseCurrency: true, rate: true, source: true },
+          orderBy: { date: 'asc' },
+        }),
+      ]);
+
+      const bankConnections = input?.includeCredentials
+        ? await ctx.prisma.bankConnection.findMany({ where: { householdId } })
+        : undefined;
+
+      return {
+        version: HOUSEHOLD_BACKUP_VERSION,
+        exportedAt: new Date(),
+        household: { name: household.name, baseCurrency: household.baseCurrency },
+        accounts,
+        balanceSnapshots,
+        categories,
+        merchants,
+        rules,
+        budgets,
+        recurringTemplates,
+        installmentPlans,
+        goals,
+        transactions,
+        transferRejections,
+        corrections,
+        importProfiles,
+        exchangeRates,
+        bankConnections,
+      };
+    }),
+
+  /**
+   * Restore a backup by merging it into the current household
+   * Runs in a single database transaction - a failed restore leaves nothing behind
+   */
+  restore: protectedProcedure.input(restoreHouseholdSchema).mutation(async ({ ctx, input }) => {
+    return ctx.prisma.$transaction(
+      async (tx) => {
+        const counts = await restoreBackup(tx, ctx.householdId, ctx.user.id, input.backup);
+
+        return { householdId: ctx.householdId, mode: input.mode, ...counts };
+      },
+      { timeout: 120_000 }
+    );
+  }),
+});
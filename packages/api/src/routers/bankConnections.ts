@@ -1,28 +1,82 @@
-import { categorizeTransaction } from '@sfam/domain';
-import {
-  type BankProvider,
-  type MappedTransaction,
-  israCardCredentialsSchema,
-  oneZeroCredentialsSchema,
-  scraperService,
-} from '@sfam/scraper';
+import { Prisma, type PrismaClient } from '@sfam/db';
+import { ACTIVE_SYNC_JOB_STATUSES, type SyncJobTrigger, getSyncJobProgress } from '@sfam/domain';
+import { type BankProvider, bankProviderSchema, scraperService } from '@sfam/scraper';
 import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { protectedProcedure, router } from '../trpc';
 
 // Schema for creating a new connection
-const createConnectionSchema = z.discriminatedUnion('provider', [
-  z.object({
-    provider: z.literal('onezero'),
-    displayName: z.string().min(1),
-    credentials: oneZeroCredentialsSchema,
-  }),
-  z.object({
-    provider: z.literal('isracard'),
-    displayName: z.string().min(1),
-    credentials: israCardCredentialsSchema,
-  }),
-]);
+// Credentials are checked against the provider adapter's own schema
+const createConnectionSchema = z.object({
+  provider: bankProviderSchema,
+  displayName: z.string().min(1),
+  credentials: z.record(z.string()),
+});
+
+// Finished jobs stay in `syncJobs` this long, so the page can show how they ended
+const RECENT_SYNC_JOB_MS = 10 * 60 * 1000;
+
+/**
+ * Connections synced without the user asking for them by name: "sync all", the stale sync
+ * and the cron. Connections waiting for the user to fix their login are left out, since
+ * each rejected login brings the bank closer to blocking the account.
+ */
+export const autoSyncConnectionWhere = {
+  isActive: true,
+  OR: [{ lastSyncStatus: null }, { lastSyncStatus: { not: 'auth_required' } }],
+} satisfies Prisma.BankConnectionWhereInput;
+
+/**
+ * Queue sync jobs for connections, for the sync runner to pick up
+ * A connection that already has a queued, running or retrying job keeps it instead of
+ * getting a second one; a unique index on active jobs settles concurrent triggers. A job
+ * still waiting to run is moved back to `fromDate` if that is earlier than its own.
+ * Used by the sync procedures here, and by the cron and startup syncs.
+ */
+export async function enqueueSyncJobs(
+  prisma: PrismaClient,
+  connectionIds: string[],
+  options: { trigger: SyncJobTrigger; fromDate?: Date }
+) {
+  const activeWhere = (connectionId: string) => ({
+    connectionId,
+    status: { in: ACTIVE_SYNC_JOB_STATUSES },
+  });
+
+  const jobs = [];
+  for (const connectionId of connectionIds) {
+    let job = await prisma.syncJob.findFirst({ where: activeWhere(connectionId) });
+    if (!job) {
+      try {
+        job = await prisma.syncJob.create({
+          data: {
+            connectionId,
+            status: 'queued',
+            trigger: options.trigger,
+            fromDate: options.fromDate,
+          },
+        });
+      } catch (error) {
+        // Another trigger queued one since the lookup
+        if (!(error instanceof Prisma.PrismaClientKnownRequestError && error.code === 'P2002')) {
+          throw error;
+        }
+        job = await prisma.syncJob.findFirstOrThrow({ where: activeWhere(connectionId) });
+      }
+    }
+
+    if (options.fromDate && (!job.fromDate || options.fromDate < job.fromDate)) {
+      // Conditional, so a job the runner has just claimed keeps the date it started with
+      const moved = await prisma.syncJob.updateMany({
+        where: { id: job.id, status: { in: ['queued', 'retrying'] } },
+        data: { fromDate: options.fromDate },
+      });
+      if (moved.count > 0) job = { ...job, fromDate: options.fromDate };
+    }
+    jobs.push(job);
+  }
+  return jobs;
+}
 
 export const bankConnectionsRouter = router({
   /**
@@ -37,6 +91,8 @@ export const bankConnectionsRouter = router({
         displayName: true,
         lastSyncAt: true,
         lastSyncStatus: true,
+        lastSyncErrorType: true,
+        failedLoginCount: true,
         isActive: true,
         createdAt: true,
         // Don't expose encrypted credentials
@@ -44,11 +100,15 @@ export const bankConnectionsRouter = router({
       orderBy: { createdAt: 'desc' },
     });
 
-    return connections.map((conn: (typeof connections)[number]) => ({
-      ...conn,
-      requiresTwoFactor: scraperService.requiresTwoFactor(conn.provider as BankProvider),
-      providerDisplayName: scraperService.getProviderDisplayName(conn.provider as BankProvider),
-    }));
+    return connections.map((conn: (typeof connections)[number]) => {
+      const provider = scraperService.getProviderMetadata(conn.provider as BankProvider);
+      return {
+        ...conn,
+        requiresTwoFactor: provider.requiresTwoFactor,
+        providerDisplayName: provider.name,
+        providerKind: provider.kind,
+      };
+    });
   }),
 
   /**
@@ -87,8 +147,17 @@ export const bankConnectionsRouter = router({
    * Create a new bank connection
    */
   create: protectedProcedure.input(createConnectionSchema).mutation(async ({ ctx, input }) => {
+    const credentials = scraperService.parseCredentials(input.provider, input.credentials);
+    if (!credentials.success) {
+      const issue = credentials.error.issues[0];
+      throw new TRPCError({
+        code: 'BAD_REQUEST',
+        message: issue ? `${issue.path.join('.')}: ${issue.message}` : 'Invalid credentials',
+      });
+    }
+
     // Encrypt the credentials
-    const encryptedCreds = scraperService.encryptCredentials(input.credentials);
+    const encryptedCreds = scraperService.encryptCredentials(credentials.data);
 
     // Check if provider requires 2FA setup
     const requiresTwoFactor = scraperService.requiresTwoFactor(input.provider);
@@ -99,7 +168,7 @@ export const bankConnectionsRouter = router({
         provider: input.provider as string,
         displayName: input.displayName,
         encryptedCreds,
-        isActive: !requiresTwoFactor, // Not active until 2FA is complete for OneZero
+        isActive: !requiresTwoFactor, // Not active until 2FA is complete
         lastSyncStatus: requiresTwoFactor ? 'pending' : null,
       },
     });
@@ -135,6 +204,51 @@ export const bankConnectionsRouter = router({
     return { success: true };
   }),
 
+  /**
+   * Replace a connection's saved credentials, e.g. after the bank rejected them or asked
+   * for a new password
+   * Clears the failed-login count and reactivates a connection deactivated for it; a 2FA
+   * provider without a token stays inactive until 2FA is complete
+   */
+  updateCredentials: protectedProcedure
+    .input(z.object({ connectionId: z.string(), credentials: z.record(z.string()) }))
+    .mutation(async ({ ctx, input }) => {
+      const connection = await ctx.prisma.bankConnection.findFirst({
+        where: {
+          id: input.connectionId,
+          householdId: ctx.householdId,
+        },
+      });
+
+      if (!connection) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Connection not found' });
+      }
+
+      const provider = connection.provider as BankProvider;
+      const credentials = scraperService.parseCredentials(provider, input.credentials);
+      if (!credentials.success) {
+        const issue = credentials.error.issues[0];
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: issue ? `${issue.path.join('.')}: ${issue.message}` : 'Invalid credentials',
+        });
+      }
+
+      const isActive = !scraperService.requiresTwoFactor(provider) || !!connection.longTermToken;
+      await ctx.prisma.bankConnection.update({
+        where: { id: connection.id },
+        data: {
+          encryptedCreds: scraperService.encryptCredentials(credentials.data),
+          isActive,
+          lastSyncStatus: isActive ? null : 'pending',
+          lastSyncErrorType: null,
+          failedLoginCount: 0,
+        },
+      });
+
+      return { success: true, isActive };
+    }),
+
   /**
    * Initialize 2FA flow (send OTP to user's phone)
    * Only applicable for providers that require 2FA (e.g., OneZero)
@@ -229,6 +343,8 @@ export const bankConnectionsRouter = router({
           longTermToken: encryptedToken,
           isActive: true,
           lastSyncStatus: null,
+          lastSyncErrorType: null,
+          failedLoginCount: 0,
         },
       });
 
@@ -236,7 +352,8 @@ export const bankConnectionsRouter = router({
     }),
 
   /**
-   * Trigger a manual sync for a connection
+   * Queue a manual sync for a connection
+   * Returns the queued job (or the one already queued or running); poll `syncJobs` for progress
    */
   syncNow: protectedProcedure
     .input(
@@ -264,132 +381,25 @@ export const bankConnectionsRouter = router({
         });
       }
 
-      // Create a sync job
-      const syncJob = await ctx.prisma.syncJob.create({
-        data: {
-          connectionId: connection.id,
-          status: 'running',
-          startedAt: new Date(),
-        },
+      const [job] = await enqueueSyncJobs(ctx.prisma, [connection.id], {
+        trigger: 'manual',
+        fromDate: input.startDate,
       });
+      ctx.runSyncJobs?.();
 
-      try {
-        // Get existing external IDs for deduplication
-        const existingTransactions = await ctx.prisma.transaction.findMany({
-          where: {
-            householdId: ctx.householdId,
-            externalId: { not: null },
-          },
-          select: { externalId: true },
-        });
-        const existingExternalIds = new Set<string>(
-          existingTransactions
-            .map((t: (typeof existingTransactions)[number]) => t.externalId)
-            .filter((id: string | null): id is string => id !== null)
-        );
-
-        // Perform the sync
-        const { result, transactions } = await scraperService.syncConnection(
-          {
-            id: connection.id,
-            provider: connection.provider as BankProvider,
-            encryptedCreds: connection.encryptedCreds,
-            longTermToken: connection.longTermToken,
-          },
-          existingExternalIds,
-          input.startDate
-        );
-
-        if (!result.success) {
-          // Check if this is an authentication error that requires re-authentication
-          const isAuthError =
-            result.errorType === 'AUTH_REQUIRED' ||
-            result.errorMessage?.includes('re-authenticate') ||
-            result.errorMessage?.includes('expired') ||
-            result.errorMessage?.includes('idToken') ||
-            result.errorMessage?.includes('Cannot read properties of undefined');
-
-          // Update sync job with error
-          await ctx.prisma.syncJob.update({
-            where: { id: syncJob.id },
-            data: {
-              status: 'error',
-              completedAt: new Date(),
-              errorMessage: result.errorMessage,
-            },
-          });
-
-          // If auth error, mark connection as needing re-auth but keep it active
-          // This allows users to re-authenticate without deleting and recreating
-          await ctx.prisma.bankConnection.update({
-            where: { id: connection.id },
-            data: {
-              lastSyncAt: new Date(),
-              lastSyncStatus: isAuthError ? 'auth_required' : 'error',
-              // Keep isActive true - the status indicates re-auth needed
-            },
-          });
-
-          throw new TRPCError({
-            code: isAuthError ? 'UNAUTHORIZED' : 'INTERNAL_SERVER_ERROR',
-            message: result.errorMessage || 'Sync failed',
-          });
-        }
-
-        // Import new transactions
-        if (transactions.length > 0) {
-          await importTransactions(ctx, transactions, connection);
-        }
-
-        // Update sync job and connection
-        await ctx.prisma.syncJob.update({
-          where: { id: syncJob.id },
-          data: {
-            status: 'success',
-            completedAt: new Date(),
-            transactionsFound: result.transactionsFound,
-            transactionsNew: result.transactionsNew,
-          },
-        });
-
-        await ctx.prisma.bankConnection.update({
-          where: { id: connection.id },
-          data: {
-            lastSyncAt: new Date(),
-            lastSyncStatus: 'success',
-          },
-        });
-
-        return {
-          success: true,
-          transactionsFound: result.transactionsFound,
-          transactionsNew: result.transactionsNew,
-        };
-      } catch (error) {
-        // Update sync job with error
-        await ctx.prisma.syncJob.update({
-          where: { id: syncJob.id },
-          data: {
-            status: 'error',
-            completedAt: new Date(),
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
-          },
-        });
-
-        await ctx.prisma.bankConnection.update({
-          where: { id: connection.id },
-          data: {
-            lastSyncAt: new Date(),
-            lastSyncStatus: 'error',
-          },
+      if (input.startDate && (!job!.fromDate || job!.fromDate > input.startDate)) {
+        throw new TRPCError({
+          code: 'CONFLICT',
+          message:
+            'A sync is already running for this connection. Sync again from this date when it finishes.',
         });
-
-        throw error;
       }
+
+      return job!;
     }),
 
   /**
-   * Sync all active connections for the household
+   * Queue a sync of all active connections for the household
    */
   syncAll: protectedProcedure
     .input(
@@ -403,158 +413,64 @@ export const bankConnectionsRouter = router({
       const connections = await ctx.prisma.bankConnection.findMany({
         where: {
           householdId: ctx.householdId,
-          isActive: true,
+          ...autoSyncConnectionWhere,
         },
+        select: { id: true },
       });
 
       if (connections.length === 0) {
         return {
-          success: true,
-          message: 'No active connections to sync',
-          results: [],
+          message: 'No connections ready to sync',
+          jobs: [],
         };
       }
 
-      const results: Array<{
-        connectionId: string;
-        displayName: string;
-        success: boolean;
-        transactionsFound?: number;
-        transactionsNew?: number;
-        errorMessage?: string;
-      }> = [];
-
-      for (const connection of connections) {
-        try {
-          // Create a sync job
-          const syncJob = await ctx.prisma.syncJob.create({
-            data: {
-              connectionId: connection.id,
-              status: 'running',
-              startedAt: new Date(),
-            },
-          });
-
-          // Get existing external IDs for deduplication
-          const existingTransactions = await ctx.prisma.transaction.findMany({
-            where: {
-              householdId: ctx.householdId,
-              externalId: { not: null },
-            },
-            select: { externalId: true },
-          });
-          const existingExternalIds = new Set<string>(
-            existingTransactions
-              .map((t: (typeof existingTransactions)[number]) => t.externalId)
-              .filter((id: string | null): id is string => id !== null)
-          );
-
-          // Perform the sync
-          const { result, transactions } = await scraperService.syncConnection(
-            {
-              id: connection.id,
-              provider: connection.provider as BankProvider,
-              encryptedCreds: connection.encryptedCreds,
-              longTermToken: connection.longTermToken,
-            },
-            existingExternalIds,
-            input?.startDate
-          );
-
-          if (!result.success) {
-            // Check if this is an authentication error that requires re-authentication
-            const isAuthError =
-              result.errorType === 'AUTH_REQUIRED' ||
-              result.errorMessage?.includes('re-authenticate') ||
-              result.errorMessage?.includes('expired') ||
-              result.errorMessage?.includes('idToken') ||
-              result.errorMessage?.includes('Cannot read properties of undefined');
-
-            await ctx.prisma.syncJob.update({
-              where: { id: syncJob.id },
-              data: {
-                status: 'error',
-                completedAt: new Date(),
-                errorMessage: result.errorMessage,
-              },
-            });
-
-            // If auth error, mark connection as needing re-auth but keep it active
-            await ctx.prisma.bankConnection.update({
-              where: { id: connection.id },
-              data: {
-                lastSyncAt: new Date(),
-                lastSyncStatus: isAuthError ? 'auth_required' : 'error',
-                // Keep isActive true - the status indicates re-auth needed
-              },
-            });
-
-            results.push({
-              connectionId: connection.id,
-              displayName: connection.displayName,
-              success: false,
-              errorMessage: isAuthError
-                ? `${result.errorMessage} Please re-authenticate this connection.`
-                : result.errorMessage,
-            });
-            continue;
-          }
-
-          // Import new transactions
-          if (transactions.length > 0) {
-            await importTransactions(ctx, transactions, connection);
-          }
-
-          // Update sync job and connection
-          await ctx.prisma.syncJob.update({
-            where: { id: syncJob.id },
-            data: {
-              status: 'success',
-              completedAt: new Date(),
-              transactionsFound: result.transactionsFound,
-              transactionsNew: result.transactionsNew,
-            },
-          });
-
-          await ctx.prisma.bankConnection.update({
-            where: { id: connection.id },
-            data: {
-              lastSyncAt: new Date(),
-              lastSyncStatus: 'success',
-            },
-          });
-
-          results.push({
-            connectionId: connection.id,
-            displayName: connection.displayName,
-            success: true,
-            transactionsFound: result.transactionsFound,
-            transactionsNew: result.transactionsNew,
-          });
-        } catch (error) {
-          console.error(`[SyncAll] Error syncing connection ${connection.id}:`, error);
-          results.push({
-            connectionId: connection.id,
-            displayName: connection.displayName,
-            success: false,
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
-          });
-        }
-      }
-
-      const successCount = results.filter((r) => r.success).length;
-      const totalNew = results.reduce((sum, r) => sum + (r.transactionsNew || 0), 0);
-      const totalFound = results.reduce((sum, r) => sum + (r.transactionsFound || 0), 0);
+      const jobs = await enqueueSyncJobs(
+        ctx.prisma,
+        connections.map((c) => c.id),
+        { trigger: 'all', fromDate: input?.startDate }
+      );
+      ctx.runSyncJobs?.();
 
       return {
-        success: successCount > 0,
-        message: `Synced ${successCount}/${connections.length} connections`,
-        totalTransactionsFound: totalFound,
-        totalTransactionsNew: totalNew,
-        results,
+        message: `Queued ${jobs.length} connection${jobs.length !== 1 ? 's' : ''} for sync`,
+        jobs,
       };
     }),
 
+  /**
+   * Sync jobs of the household that are queued, running or retrying, and those finished
+   * in the last few minutes, with their step progress
+   * Polled by the Connections page while a sync is in progress
+   */
+  syncJobs: protectedProcedure.query(async ({ ctx }) => {
+    const recentSince = new Date(Date.now() - RECENT_SYNC_JOB_MS);
+    const jobs = await ctx.prisma.syncJob.findMany({
+      where: {
+        connection: { householdId: ctx.householdId },
+        OR: [{ status: { in: ACTIVE_SYNC_JOB_STATUSES } }, { completedAt: { gte: recentSince } }],
+      },
+      include: { connection: { select: { displayName: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    // Due jobs nobody is running (e.g. a retry whose backoff passed): kick the runner
+    const now = new Date();
+    if (
+      jobs.some(
+        (job) => (job.status === 'queued' || job.status === 'retrying') && job.runAfter <= now
+      )
+    ) {
+      ctx.runSyncJobs?.();
+    }
+
+    return jobs.map(({ connection, ...job }) => ({
+      ...job,
+      connectionName: connection.displayName,
+      progress: getSyncJobProgress(job),
+    }));
+  }),
+
   /**
    * Get sync history for a connection
    */
@@ -635,23 +551,10 @@ export const bankConnectionsRouter = router({
     }),
 
   /**
-   * Get available providers
+   * Get available providers with the fields of their connection form
    */
   providers: protectedProcedure.query(() => {
-    return [
-      {
-        id: 'onezero' as const,
-        name: 'OneZero Bank',
-        requiresTwoFactor: true,
-        credentialFields: ['email', 'password', 'phoneNumber'],
-      },
-      {
-        id: 'isracard' as const,
-        name: 'Isracard',
-        requiresTwoFactor: false,
-        credentialFields: ['id', 'card6Digits', 'password'],
-      },
-    ];
+    return scraperService.listProviders();
   }),
 
   /**
@@ -743,8 +646,8 @@ export const bankConnectionsRouter = router({
     const staleCount = await ctx.prisma.bankConnection.count({
       where: {
         householdId: ctx.householdId,
-        isActive: true,
-        OR: [{ lastSyncAt: null }, { lastSyncAt: { lt: staleThreshold } }],
+        ...autoSyncConnectionWhere,
+        AND: { OR: [{ lastSyncAt: null }, { lastSyncAt: { lt: staleThreshold } }] },
       },
     });
 
@@ -768,12 +671,8 @@ export const bankConnectionsRouter = router({
   }),
 
   /**
-   * Sync stale connections in the background
-   * Only syncs connections that haven't been synced in the last 12 hours
-   *
-   * This is designed to be called after checkSyncStatus indicates stale connections.
-   * It runs synchronously but is meant to be called in a "fire and forget" manner
-   * by the frontend (not awaiting the result for UI purposes).
+   * Queue a sync of stale connections
+   * Only connections that haven't been synced in the last 12 hours (by default)
    */
   syncStaleConnections: protectedProcedure
     .input(
@@ -792,18 +691,16 @@ export const bankConnectionsRouter = router({
       const staleConnections = await ctx.prisma.bankConnection.findMany({
         where: {
           householdId: ctx.householdId,
-          isActive: true,
-          OR: [{ lastSyncAt: null }, { lastSyncAt: { lt: staleThreshold } }],
+          ...autoSyncConnectionWhere,
+          AND: { OR: [{ lastSyncAt: null }, { lastSyncAt: { lt: staleThreshold } }] },
         },
+        select: { id: true },
       });
 
       if (staleConnections.length === 0) {
         return {
-          success: true,
           message: 'All connections are up to date',
-          syncedCount: 0,
-          totalTransactionsNew: 0,
-          results: [],
+          jobs: [],
         };
       }
 
@@ -811,340 +708,16 @@ export const bankConnectionsRouter = router({
         `[SyncStale] Found ${staleConnections.length} stale connection(s) for household ${ctx.householdId}`
       );
 
-      const results: Array<{
-        connectionId: string;
-        displayName: string;
-        success: boolean;
-        transactionsNew?: number;
-        errorMessage?: string;
-      }> = [];
-
-      let totalNew = 0;
-      let successCount = 0;
-
-      for (const connection of staleConnections) {
-        try {
-          // Create a sync job
-          const syncJob = await ctx.prisma.syncJob.create({
-            data: {
-              connectionId: connection.id,
-              status: 'running',
-              startedAt: new Date(),
-            },
-          });
-
-          // Get existing external IDs for deduplication
-          const existingTransactions = await ctx.prisma.transaction.findMany({
-            where: {
-              householdId: ctx.householdId,
-              externalId: { not: null },
-            },
-            select: { externalId: true },
-          });
-          const existingExternalIds = new Set<string>(
-            existingTransactions
-              .map((t: (typeof existingTransactions)[number]) => t.externalId)
-              .filter((id: string | null): id is string => id !== null)
-          );
-
-          // Perform the sync
-          const { result, transactions } = await scraperService.syncConnection(
-            {
-              id: connection.id,
-              provider: connection.provider as BankProvider,
-              encryptedCreds: connection.encryptedCreds,
-              longTermToken: connection.longTermToken,
-            },
-            existingExternalIds
-          );
-
-          if (!result.success) {
-            const isAuthError =
-              result.errorType === 'AUTH_REQUIRED' ||
-              result.errorMessage?.includes('re-authenticate') ||
-              result.errorMessage?.includes('expired');
-
-            await ctx.prisma.syncJob.update({
-              where: { id: syncJob.id },
-              data: {
-                status: 'error',
-                completedAt: new Date(),
-                errorMessage: result.errorMessage,
-              },
-            });
-
-            await ctx.prisma.bankConnection.update({
-              where: { id: connection.id },
-              data: {
-                lastSyncAt: new Date(),
-                lastSyncStatus: isAuthError ? 'auth_required' : 'error',
-              },
-            });
-
-            results.push({
-              connectionId: connection.id,
-              displayName: connection.displayName,
-              success: false,
-              errorMessage: result.errorMessage,
-            });
-            continue;
-          }
-
-          // Import new transactions
-          if (transactions.length > 0) {
-            await importTransactions(ctx, transactions, connection);
-          }
-
-          // Update sync job and connection
-          await ctx.prisma.syncJob.update({
-            where: { id: syncJob.id },
-            data: {
-              status: 'success',
-              completedAt: new Date(),
-              transactionsFound: result.transactionsFound,
-              transactionsNew: result.transactionsNew,
-            },
-          });
-
-          await ctx.prisma.bankConnection.update({
-            where: { id: connection.id },
-            data: {
-              lastSyncAt: new Date(),
-              lastSyncStatus: 'success',
-            },
-          });
-
-          successCount++;
-          totalNew += result.transactionsNew;
-
-          results.push({
-            connectionId: connection.id,
-            displayName: connection.displayName,
-            success: true,
-            transactionsNew: result.transactionsNew,
-          });
-        } catch (error) {
-          console.error(`[SyncStale] Error syncing connection ${connection.id}:`, error);
-          results.push({
-            connectionId: connection.id,
-            displayName: connection.displayName,
-            success: false,
-            errorMessage: error instanceof Error ? error.message : 'Unknown error',
-          });
-        }
-      }
+      const jobs = await enqueueSyncJobs(
+        ctx.prisma,
+        staleConnections.map((c) => c.id),
+        { trigger: 'stale' }
+      );
+      ctx.runSyncJobs?.();
 
       return {
-        success: successCount > 0,
-        message: `Synced ${successCount}/${staleConnections.length} stale connections`,
-        syncedCount: successCount,
-        totalTransactionsNew: totalNew,
-        results,
+        message: `Queued ${jobs.length} stale connection${jobs.length !== 1 ? 's' : ''} for sync`,
+        jobs,
       };
     }),
 });
-
-/**
- * Import transactions into the database with auto-categorization
- */
-async function importTransactions(
-  ctx: { prisma: typeof import('@sfam/db').prisma; householdId: string },
-  transactions: MappedTransaction[],
-  connection: { id: string; accountMappings: string | null; provider: string }
-) {
-  // Determine default account type based on provider
-  // Credit card providers should create 'credit' accounts
-  const defaultAccountType = connection.provider === 'isracard' ? 'credit' : 'checking';
-  // Parse account mappings
-  const accountMappings: Record<string, string> = connection.accountMappings
-    ? JSON.parse(connection.accountMappings)
-    : {};
-
-  // Get or create accounts for unmapped external account IDs
-  const externalAccountIds = [...new Set(transactions.map((t) => t.externalAccountId))];
-  const accountIdMap = new Map<string, string>();
-
-  for (const externalId of externalAccountIds) {
-    if (accountMappings[externalId]) {
-      // Verify the mapped account exists and belongs to this household
-      const mappedAccount = await ctx.prisma.account.findFirst({
-        where: {
-          id: accountMappings[externalId],
-          householdId: ctx.householdId,
-        },
-      });
-
-      if (mappedAccount) {
-        accountIdMap.set(externalId, mappedAccount.id);
-      } else {
-        console.warn(
-          `[ImportTransactions] Mapped account ${accountMappings[externalId]} not found or doesn't belong to household, creating new account for ${externalId}`
-        );
-        // Create a new account since the mapping is invalid
-        const newAccount = await ctx.prisma.account.create({
-          data: {
-            householdId: ctx.householdId,
-            name: `Imported Account (${externalId})`,
-            type: defaultAccountType,
-            externalAccountId: externalId,
-          },
-        });
-        accountIdMap.set(externalId, newAccount.id);
-      }
-    } else {
-      // Create a new account for this external ID
-      console.log(`[ImportTransactions] Creating new account for external ID: ${externalId}`);
-      const newAccount = await ctx.prisma.account.create({
-        data: {
-          householdId: ctx.householdId,
-          name: `Imported Account (${externalId})`,
-          type: defaultAccountType,
-          externalAccountId: externalId,
-        },
-      });
-      accountIdMap.set(externalId, newAccount.id);
-    }
-  }
-
-  // Get rules for auto-categorization
-  const rulesRaw = await ctx.prisma.categoryRule.findMany({
-    where: { householdId: ctx.householdId, isActive: true },
-  });
-  const rules = rulesRaw.map((r: (typeof rulesRaw)[number]) => ({
-    ...r,
-    type: r.type as 'merchant' | 'keyword' | 'regex',
-  }));
-
-  // Create transactions
-  for (const txn of transactions) {
-    const accountId = accountIdMap.get(txn.externalAccountId);
-    if (!accountId) {
-      console.warn(
-        `[ImportTransactions] No account ID found for external account: ${txn.externalAccountId}, skipping transaction`
-      );
-      continue;
-    }
-
-    try {
-      // Try to use external category (e.g., Isracard sector) first
-      let validCategoryId: string | null = null;
-      let categorizationSource = 'fallback';
-
-      if (txn.externalCategory) {
-        console.log(
-          `[ImportTransactions] Transaction has external category: ${txn.externalCategory}`
-        );
-
-        // Look for existing category with this name
-        let category = await ctx.prisma.category.findFirst({
-          where: {
-            householdId: ctx.householdId,
-            name: txn.externalCategory,
-            type: 'expense', // External categories from bank scrapers are expenses
-          },
-        });
-
-        // If category doesn't exist, create it
-        if (!category) {
-          console.log(
-            `[ImportTransactions] Auto-creating category from external: ${txn.externalCategory}`
-          );
-
-          // Get max sort order for expense categories
-          const maxSort = await ctx.prisma.category.aggregate({
-            where: {
-              householdId: ctx.householdId,
-              type: 'expense',
-            },
-            _max: { sortOrder: true },
-          });
-
-          try {
-            category = await ctx.prisma.category.create({
-              data: {
-                householdId: ctx.householdId,
-                name: txn.externalCategory,
-                type: 'expense',
-                icon: '📦', // Default icon for auto-created categories
-                sortOrder: (maxSort._max.sortOrder ?? 0) + 1,
-                isSystem: false,
-              },
-            });
-            console.log(`[ImportTransactions] Created category: ${category.name} (${category.id})`);
-          } catch (createError) {
-            console.error(
-              `[ImportTransactions] Failed to create category "${txn.externalCategory}":`,
-              createError
-            );
-            // Fall through to use rule-based categorization
-            category = null;
-          }
-        }
-
-        if (category) {
-          validCategoryId = category.id;
-          categorizationSource = 'imported';
-        }
-      }
-
-      // If no external category or it failed, try rule-based categorization
-      if (!validCategoryId) {
-        const categorizationResult = await categorizeTransaction(
-          {
-            description: txn.description,
-            merchant: txn.merchant,
-            amount: txn.amount,
-            direction: txn.direction,
-          },
-          rules
-        );
-
-        categorizationSource = categorizationResult.source;
-
-        // Validate categoryId if present
-        if (categorizationResult.categoryId) {
-          const category = await ctx.prisma.category.findFirst({
-            where: {
-              id: categorizationResult.categoryId,
-              householdId: ctx.householdId,
-            },
-          });
-
-          if (category) {
-            validCategoryId = category.id;
-          } else {
-            console.warn(
-              `[ImportTransactions] Category ${categorizationResult.categoryId} not found or doesn't belong to household, setting to null`
-            );
-          }
-        }
-      }
-
-      await ctx.prisma.transaction.create({
-        data: {
-          householdId: ctx.householdId,
-          accountId,
-          date: txn.date,
-          description: txn.description,
-          merchant: txn.merchant,
-          amount: txn.amount,
-          direction: txn.direction,
-          notes: txn.notes,
-          externalId: txn.externalId,
-          categoryId: validCategoryId,
-          categorizationSource: validCategoryId ? categorizationSource : 'fallback',
-          confidence: validCategoryId ? 1 : 0,
-          needsReview: !validCategoryId,
-        },
-      });
-    } catch (error) {
-      console.error(`[ImportTransactions] Failed to import transaction:`, {
-        externalId: txn.externalId,
-        description: txn.description,
-        accountId,
-        error: error instanceof Error ? error.message : 'Unknown error',
-      });
-      // Continue with other transactions instead of failing completely
-    }
-  }
-}
@@ -1,12 +1,26 @@
+import type { PrismaClient } from '@sfam/db';
 import {
   type Budget,
+  type BudgetPeriod,
   type Transaction,
+  calculateBudgetPace,
+  calculateCarryOver,
   calculateCategorySpending,
   evaluateBudgetStatus,
   getAlertBudgets,
+  getBudgetPeriodMonths,
+  getBudgetPeriodRange,
+  getBudgetPeriodStart,
+  projectInstallmentCharges,
 } from '@sfam/domain';
-import { createBudgetSchema, monthSchema, updateBudgetSchema } from '@sfam/domain/schemas';
+import {
+  budgetPeriodSchema,
+  createBudgetSchema,
+  monthSchema,
+  updateBudgetSchema,
+} from '@sfam/domain/schemas';
 import { z } from 'zod';
+import { type CurrencyContext, type DateRange, loadCurrencyContext } from '../lib/currency';
 import { protectedProcedure, router } from '../trpc';
 
 // Helper to map Prisma budget to domain type
@@ -15,13 +29,17 @@ function toBudget(b: {
   householdId: string;
   categoryId: string;
   month: string;
+  period?: string;
   plannedAmount: number;
   limitAmount?: number | null;
   limitType?: string | null;
   alertThresholdPct: number;
+  rollover?: boolean;
+  rolloverCap?: number | null;
 }): Budget {
   return {
     ...b,
+    period: b.period as BudgetPeriod | undefined,
     limitType: b.limitType as 'soft' | 'hard' | null | undefined,
   };
 }
@@ -53,27 +71,147 @@ function toTransactions(
   }));
 }
 
+// Number of previous months a rollover chain can reach back
+const ROLLOVER_LOOKBACK_MONTHS = 12;
+
+// Dates a month's budget report converts amounts over: spending from `start`, and the months
+// a rollover chain reaches back, up to the end of the month
+function budgetCurrencyRange(month: string, start: Date): DateRange {
+  const [year, monthNum] = month.split('-').map(Number);
+  const rolloverStart = new Date(year!, monthNum! - 1 - ROLLOVER_LOOKBACK_MONTHS, 1);
+  return {
+    from: start < rolloverStart ? start : rolloverStart,
+    to: getBudgetPeriodRange('month', month).end,
+  };
+}
+
+// Helper to work out what each rollover budget carries into `month`
+async function loadCarryOver(
+  prisma: PrismaClient,
+  householdId: string,
+  month: string,
+  budgets: Array<{ categoryId: string; period: string; rollover: boolean }>,
+  currency: CurrencyContext
+): Promise<Map<string, number>> {
+  // Only monthly budgets roll over
+  const categoryIds = budgets
+    .filter((b) => b.rollover && b.period === 'month')
+    .map((b) => b.categoryId);
+  if (categoryIds.length === 0) return new Map();
+
+  const [year, monthNum] = month.split('-').map(Number);
+  const startDate = new Date(year!, monthNum! - 1 - ROLLOVER_LOOKBACK_MONTHS, 1);
+  const endDate = new Date(year!, monthNum! - 1, 0, 23, 59, 59, 999);
+  const fromMonth = `${startDate.getFullYear()}-${String(startDate.getMonth() + 1).padStart(2, '0')}`;
+
+  const [history, expenseTransactions] = await Promise.all([
+    prisma.budget.findMany({
+      where: {
+        householdId,
+        categoryId: { in: categoryIds },
+        period: 'month',
+        month: { gte: fromMonth, lt: month },
+      },
+    }),
+    prisma.transaction.findMany({
+      where: {
+        householdId,
+        isIgnored: false,
+        direction: 'expense',
+        date: { gte: startDate, lte: endDate },
+        OR: [
+          { categoryId: { in: categoryIds } },
+          { splits: { some: { categoryId: { in: categoryIds } } } },
+        ],
+      },
+      include: { splits: true },
+    }),
+  ]);
+
+  const domainTransactions = toTransactions(currency.convert(expenseTransactions).transactions);
+
+  return new Map(
+    categoryIds.map((categoryId) => [
+      categoryId,
+      calculateCarryOver(
+        history
+          .filter((b) => b.categoryId === categoryId)
+          .map((b) => ({
+            ...b,
+            actualAmount: calculateCategorySpending(domainTransactions, categoryId, b.month),
+          })),
+        month
+      ),
+    ])
+  );
+}
+
+// Helper to match the monthly, quarterly and yearly budgets covering `month`
+function budgetsCoveringMonth(month: string) {
+  return [
+    { period: 'month', month },
+    { period: 'quarter', month: getBudgetPeriodStart('quarter', month) },
+    { period: 'year', month: getBudgetPeriodStart('year', month) },
+  ];
+}
+
+// Helper to evaluate budgets for `month`
+// Quarterly and yearly budgets count spending from the start of their period up to `month`
+function evaluateBudgetsForMonth<
+  B extends Parameters<typeof toBudget>[0] & { period: string; categoryId: string },
+>(budgets: B[], transactions: Transaction[], month: string, carryOver: Map<string, number>) {
+  const monthEnd = getBudgetPeriodRange('month', month).end;
+  const asOf = new Date(Math.min(Date.now(), monthEnd.getTime()));
+
+  return budgets.map((budget) => {
+    const period = budget.period as BudgetPeriod;
+    const actualAmount = getBudgetPeriodMonths(period, budget.month)
+      .filter((m) => m <= month)
+      .reduce((sum, m) => sum + calculateCategorySpending(transactions, budget.categoryId, m), 0);
+    const evaluation = evaluateBudgetStatus(
+      toBudget(budget),
+      actualAmount,
+      carryOver.get(budget.categoryId) ?? 0
+    );
+
+    return {
+      ...evaluation,
+      period,
+      pace: calculateBudgetPace(
+        actualAmount,
+        evaluation.available,
+        getBudgetPeriodRange(period, budget.month),
+        asOf
+      ),
+    };
+  });
+}
+
 export const budgetsRouter = router({
   /**
    * Get budgets for a month with evaluations
+   * Includes the quarterly and yearly budgets whose period covers the month
    */
   forMonth: protectedProcedure.input(monthSchema).query(async ({ ctx, input }) => {
-    // Calculate date range
-    const [year, monthNum] = input.split('-').map(Number);
-    const startDate = new Date(year!, monthNum! - 1, 1);
-    const endDate = new Date(year!, monthNum!, 0, 23, 59, 59, 999);
+    const budgets = await ctx.prisma.budget.findMany({
+      where: {
+        householdId: ctx.householdId,
+        OR: budgetsCoveringMonth(input),
+      },
+      include: {
+        category: true,
+      },
+    });
+
+    // Spending is loaded from the start of the longest period up to the end of the month
+    const startDate = getBudgetPeriodRange(
+      'month',
+      budgets.reduce((start, b) => (b.month < start ? b.month : start), input)
+    ).start;
+    const endDate = getBudgetPeriodRange('month', input).end;
 
     // Parallelize independent database queries
-    const [budgets, transactions] = await Promise.all([
-      ctx.prisma.budget.findMany({
-        where: {
-          householdId: ctx.householdId,
-          month: input,
-        },
-        include: {
-          category: true,
-        },
-      }),
+    const [expenseTransactions, currency, installmentPlans] = await Promise.all([
       ctx.prisma.transaction.findMany({
         where: {
           householdId: ctx.householdId,
@@ -84,43 +222,72 @@ export const budgetsRouter = router({
           },
           direction: 'expense',
         },
+        include: { splits: true },
+      }),
+      loadCurrencyContext(ctx.prisma, ctx.householdId, budgetCurrencyRange(input, startDate)),
+      // Installment plans that may still have payments due this month
+      ctx.prisma.installmentPlan.findMany({
+        where: { householdId: ctx.householdId, firstPaymentDate: { lte: endDate } },
+        include: { transactions: { select: { amount: true, installmentNumber: true } } },
       }),
     ]);
 
+    // Spending is compared against budgets in the household's base currency
+    const { transactions } = currency.convert(expenseTransactions);
+    const carryOver = await loadCarryOver(ctx.prisma, ctx.householdId, input, budgets, currency);
+
+    // Installment payments due this month that have not been charged yet
+    const projectedByCategory = new Map<string, number>();
+    for (const charge of projectInstallmentCharges(
+      installmentPlans.map((plan) => ({ ...plan, payments: plan.transactions })),
+      input,
+      1
+    )) {
+      if (!charge.categoryId) continue;
+      projectedByCategory.set(
+        charge.categoryId,
+        (projectedByCategory.get(charge.categoryId) ?? 0) + charge.amount
+      );
+    }
+
     // Evaluate each budget
-    const domainTransactions = toTransactions(transactions);
-    const evaluations = budgets.map((budget: (typeof budgets)[number]) => {
-      const actualAmount = calculateCategorySpending(domainTransactions, budget.categoryId, input);
-
-      return {
-        ...evaluateBudgetStatus(toBudget(budget), actualAmount),
-        category: budget.category,
-      };
-    });
+    const evaluations = evaluateBudgetsForMonth(
+      budgets,
+      toTransactions(transactions),
+      input,
+      carryOver
+    );
 
-    return evaluations;
+    return evaluations.map((evaluation, index) => ({
+      ...evaluation,
+      category: budgets[index]!.category,
+      projectedInstallments: projectedByCategory.get(evaluation.budget.categoryId) ?? 0,
+    }));
   }),
 
   /**
    * Get alert budgets (nearing or exceeding limits)
    */
   alerts: protectedProcedure.input(monthSchema).query(async ({ ctx, input }) => {
-    // Calculate date range
-    const [year, monthNum] = input.split('-').map(Number);
-    const startDate = new Date(year!, monthNum! - 1, 1);
-    const endDate = new Date(year!, monthNum!, 0, 23, 59, 59, 999);
+    const budgets = await ctx.prisma.budget.findMany({
+      where: {
+        householdId: ctx.householdId,
+        OR: budgetsCoveringMonth(input),
+      },
+      include: {
+        category: true,
+      },
+    });
+
+    // Spending is loaded from the start of the longest period up to the end of the month
+    const startDate = getBudgetPeriodRange(
+      'month',
+      budgets.reduce((start, b) => (b.month < start ? b.month : start), input)
+    ).start;
+    const endDate = getBudgetPeriodRange('month', input).end;
 
     // Parallelize independent database queries
-    const [budgets, transactions] = await Promise.all([
-      ctx.prisma.budget.findMany({
-        where: {
-          householdId: ctx.householdId,
-          month: input,
-        },
-        include: {
-          category: true,
-        },
-      }),
+    const [expenseTransactions, currency] = await Promise.all([
       ctx.prisma.transaction.findMany({
         where: {
           householdId: ctx.householdId,
@@ -131,43 +298,47 @@ export const budgetsRouter = router({
           },
           direction: 'expense',
         },
+        include: { splits: true },
       }),
+      loadCurrencyContext(ctx.prisma, ctx.householdId, budgetCurrencyRange(input, startDate)),
     ]);
 
-    const domainTransactions = toTransactions(transactions);
-    const evaluations = budgets.map((budget: (typeof budgets)[number]) => {
-      const actualAmount = calculateCategorySpending(domainTransactions, budget.categoryId, input);
+    // Spending is compared against budgets in the household's base currency
+    const { transactions } = currency.convert(expenseTransactions);
+    const carryOver = await loadCarryOver(ctx.prisma, ctx.householdId, input, budgets, currency);
 
-      return {
-        ...evaluateBudgetStatus(toBudget(budget), actualAmount),
-        category: budget.category,
-      };
-    });
+    const evaluations = evaluateBudgetsForMonth(
+      budgets,
+      toTransactions(transactions),
+      input,
+      carryOver
+    );
 
     return getAlertBudgets(evaluations).map((e) => ({
       ...e,
-      category: budgets.find((b: (typeof budgets)[number]) => b.categoryId === e.budget.categoryId)
-        ?.category,
+      category: budgets.find((b: (typeof budgets)[number]) => b.id === e.budget.id)?.category,
     }));
   }),
 
   /**
-   * Get or create budget for a category/month
+   * Get the budget for a category, period and first month of the period
    */
   byCategory: protectedProcedure
     .input(
       z.object({
         categoryId: z.string(),
         month: monthSchema,
+        period: budgetPeriodSchema.default('month'),
       })
     )
     .query(async ({ ctx, input }) => {
       return ctx.prisma.budget.findUnique({
         where: {
-          householdId_categoryId_month: {
+          householdId_categoryId_month_period: {
             householdId: ctx.householdId,
             categoryId: input.categoryId,
-            month: input.month,
+            month: getBudgetPeriodStart(input.period, input.month),
+            period: input.period,
           },
         },
         include: {
@@ -178,30 +349,41 @@ export const budgetsRouter = router({
 
   /**
    * Create or update a budget (upsert)
+   * Quarterly and yearly budgets are stored under the first month of their period, next to
+   * any monthly budget for that month
    */
   upsert: protectedProcedure.input(createBudgetSchema).mutation(async ({ ctx, input }) => {
+    const period = input.period ?? 'month';
+    const month = getBudgetPeriodStart(period, input.month);
+
     return ctx.prisma.budget.upsert({
       where: {
-        householdId_categoryId_month: {
+        householdId_categoryId_month_period: {
           householdId: ctx.householdId,
           categoryId: input.categoryId,
-          month: input.month,
+          month,
+          period,
         },
       },
       create: {
         householdId: ctx.householdId,
         categoryId: input.categoryId,
-        month: input.month,
+        month,
+        period,
         plannedAmount: input.plannedAmount,
         limitAmount: input.limitAmount,
         limitType: input.limitType,
         alertThresholdPct: input.alertThresholdPct ?? 0.8,
+        rollover: input.rollover ?? false,
+        rolloverCap: input.rolloverCap,
       },
       update: {
         plannedAmount: input.plannedAmount,
         limitAmount: input.limitAmount,
         limitType: input.limitType,
         alertThresholdPct: input.alertThresholdPct,
+        rollover: input.rollover,
+        rolloverCap: input.rolloverCap,
       },
       include: {
         category: true,
@@ -230,38 +412,55 @@ export const budgetsRouter = router({
     }),
 
   /**
-   * Get budget summary for a month (used for copy preview)
+   * Get monthly budget summary for a month (used for copy preview)
+   * Available amounts include carry-over into rollover budgets
    */
   summaryForMonth: protectedProcedure.input(monthSchema).query(async ({ ctx, input }) => {
-    const budgets = await ctx.prisma.budget.findMany({
-      where: {
-        householdId: ctx.householdId,
-        month: input,
-      },
-      include: {
-        category: {
-          select: { id: true, name: true, icon: true },
+    const [budgets, currency] = await Promise.all([
+      ctx.prisma.budget.findMany({
+        where: {
+          householdId: ctx.householdId,
+          month: input,
+          period: 'month',
         },
-      },
-    });
+        include: {
+          category: {
+            select: { id: true, name: true, icon: true },
+          },
+        },
+      }),
+      loadCurrencyContext(
+        ctx.prisma,
+        ctx.householdId,
+        budgetCurrencyRange(input, getBudgetPeriodRange('month', input).start)
+      ),
+    ]);
+
+    const carryOver = await loadCarryOver(ctx.prisma, ctx.householdId, input, budgets, currency);
 
     const totalPlanned = budgets.reduce((sum, b) => sum + b.plannedAmount, 0);
+    const totalCarryOver = budgets.reduce((sum, b) => sum + (carryOver.get(b.categoryId) ?? 0), 0);
 
     return {
       month: input,
       count: budgets.length,
       totalPlanned,
+      totalCarryOver,
+      totalAvailable: totalPlanned + totalCarryOver,
       budgets: budgets.map((b) => ({
         categoryId: b.categoryId,
         categoryName: b.category.name,
         categoryIcon: b.category.icon,
         plannedAmount: b.plannedAmount,
+        rollover: b.rollover,
+        carryOver: carryOver.get(b.categoryId) ?? 0,
+        available: b.plannedAmount + (carryOver.get(b.categoryId) ?? 0),
       })),
     };
   }),
 
   /**
-   * Copy budgets from one month to another
+   * Copy monthly budgets from one month to another
    */
   copyMonth: protectedProcedure
     .input(
@@ -275,6 +474,7 @@ export const budgetsRouter = router({
         where: {
           householdId: ctx.householdId,
           month: input.fromMonth,
+          period: 'month',
         },
       });
 
@@ -283,20 +483,24 @@ export const budgetsRouter = router({
         sourceBudgets.map((budget: (typeof sourceBudgets)[number]) =>
           ctx.prisma.budget.upsert({
             where: {
-              householdId_categoryId_month: {
+              householdId_categoryId_month_period: {
                 householdId: ctx.householdId,
                 categoryId: budget.categoryId,
                 month: input.toMonth,
+                period: 'month',
               },
             },
             create: {
               householdId: ctx.householdId,
               categoryId: budget.categoryId,
               month: input.toMonth,
+              period: 'month',
               plannedAmount: budget.plannedAmount,
               limitAmount: budget.limitAmount,
               limitType: budget.limitType,
               alertThresholdPct: budget.alertThresholdPct,
+              rollover: budget.rollover,
+              rolloverCap: budget.rolloverCap,
             },
             update: {}, // Don't overwrite existing
           })
@@ -0,0 +1,129 @@
+import { DEFAULT_BASE_CURRENCY, findExchangeRate, parseExchangeRateFile } from '@sfam/domain';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { protectedProcedure, router } from '../trpc';
+
+const currencyCodeSchema = z
+  .string()
+  .regex(/^[A-Za-z]{3}$/, 'Use a 3-letter ISO currency code')
+  .transform((code) => code.toUpperCase());
+
+export const currencyRouter = router({
+  /**
+   * Get the household's base currency and the currencies in use
+   * Lists account currencies that have no exchange rate into the base currency
+   */
+  settings: protectedProcedure.query(async ({ ctx }) => {
+    const [household, accounts, foreignTransactions] = await Promise.all([
+      ctx.prisma.household.findUnique({
+        where: { id: ctx.householdId },
+        select: { baseCurrency: true },
+      }),
+      ctx.prisma.account.findMany({
+        where: { householdId: ctx.householdId, isActive: true },
+        select: { currency: true },
+        distinct: ['currency'],
+      }),
+      ctx.prisma.transaction.findMany({
+        where: { householdId: ctx.householdId, originalCurrency: { not: null } },
+        select: { originalCurrency: true },
+        distinct: ['originalCurrency'],
+      }),
+    ]);
+
+    const baseCurrency = household?.baseCurrency ?? DEFAULT_BASE_CURRENCY;
+    const accountCurrencies = accounts.map((a) => a.currency);
+
+    const rates = await ctx.prisma.exchangeRate.findMany({
+      where: {
+        householdId: ctx.householdId,
+        OR: [
+          { currency: { in: [...accountCurrencies, baseCurrency] } },
+          { baseCurrency: { in: [...accountCurrencies, baseCurrency] } },
+        ],
+      },
+    });
+    const missingRates = accountCurrencies.filter(
+      (currency) => findExchangeRate(rates, currency, baseCurrency, new Date()) === null
+    );
+
+    return {
+      baseCurrency,
+      accountCurrencies,
+      originalCurrencies: foreignTransactions
+        .map((t) => t.originalCurrency)
+        .filter((c): c is string => c !== null),
+      missingRates,
+    };
+  }),
+
+  /**
+   * Set the currency household reports are converted into
+   */
+  setBaseCurrency: protectedProcedure.input(currencyCodeSchema).mutation(async ({ ctx, input }) => {
+    return ctx.prisma.household.update({
+      where: { id: ctx.householdId },
+      data: { baseCurrency: input },
+      select: { id: true, baseCurrency: true },
+    });
+  }),
+
+  /**
+   * List the household's exchange rates (newest first)
+   */
+  rates: protectedProcedure
+    .input(
+      z
+        .object({
+          currency: currencyCodeSchema.optional(),
+          limit: z.number().int().positive().max(500).default(100),
+        })
+        .optional()
+    )
+    .query(async ({ ctx, input }) => {
+      return ctx.prisma.exchangeRate.findMany({
+        where: {
+          householdId: ctx.householdId,
+          ...(input?.currency ? { currency: input.currency } : {}),
+        },
+        orderBy: [{ date: 'desc' }, { currency: 'asc' }],
+        take: input?.limit ?? 100,
+      });
+    }),
+
+  /**
+   * Load exchange rates for the household from a file (CSV or JSON, see parseExchangeRateFile)
+   * Existing rates for the same pair and day are overwritten
+   */
+  importRates: protectedProcedure
+    .input(z.object({ content: z.string().min(1) }))
+    .mutation(async ({ ctx, input }) => {
+      const { rates, errors } = parseExchangeRateFile(input.content);
+
+      if (rates.length === 0) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: errors[0]?.reason ?? 'No exchange rates found in file',
+        });
+      }
+
+      await ctx.prisma.$transaction(
+        rates.map((rate) =>
+          ctx.prisma.exchangeRate.upsert({
+            where: {
+              householdId_currency_baseCurrency_date: {
+                householdId: ctx.householdId,
+                currency: rate.currency,
+                baseCurrency: rate.baseCurrency,
+                date: rate.date,
+              },
+            },
+            create: { ...rate, householdId: ctx.householdId, source: 'file' },
+            update: { rate: rate.rate, source: 'file' },
+          })
+        )
+      );
+
+      return { imported: rates.length, errors };
+    }),
+});
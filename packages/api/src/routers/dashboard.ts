@@ -1,13 +1,20 @@
+import type { PrismaClient } from '@sfam/db';
 import {
   type Budget,
   type Transaction,
   calculateCategorySpending,
   calculateMonthlyKPIs,
+  calculateNetWorth,
   evaluateBudgetStatus,
   getAlertBudgets,
+  getAmountForCategory,
+  getBalanceAt,
+  getNetWorthSeries,
+  getOriginalCurrencyTotals,
 } from '@sfam/domain';
 import { monthSchema } from '@sfam/domain/schemas';
 import { z } from 'zod';
+import { type CurrencyContext, loadCurrencyContext } from '../lib/currency';
 import { protectedProcedure, router } from '../trpc';
 
 // Helper to map Prisma budget to domain type
@@ -54,6 +61,30 @@ function toTransactions<
   }));
 }
 
+// Balance snapshots of the household's active accounts, as stored (account currency) and
+// converted to the base currency at each snapshot's date
+async function loadBalanceSnapshots(
+  prisma: PrismaClient,
+  householdId: string,
+  currency: CurrencyContext
+) {
+  const snapshots = await prisma.accountBalanceSnapshot.findMany({
+    where: { account: { householdId, isActive: true } },
+    select: { accountId: true, date: true, balance: true },
+    orderBy: { date: 'asc' },
+  });
+
+  const { transactions: converted, missingRates } = currency.convert(
+    snapshots.map((s) => ({ accountId: s.accountId, amount: s.balance, date: s.date }))
+  );
+
+  return {
+    snapshots,
+    converted: converted.map((s) => ({ accountId: s.accountId, date: s.date, balance: s.amount })),
+    missingRates,
+  };
+}
+
 export const dashboardRouter = router({
   /**
    * Get full dashboard data in a single request (consolidated for performance)
@@ -63,21 +94,24 @@ export const dashboardRouter = router({
       z.object({
         month: monthSchema,
         recentLimit: z.number().default(5),
+        includePending: z.boolean().default(true),
       })
     )
     .query(async ({ ctx, input }) => {
       const [year, monthNum] = input.month.split('-').map(Number);
       const startDate = new Date(year!, monthNum! - 1, 1);
       const endDate = new Date(year!, monthNum!, 0, 23, 59, 59, 999);
+      const pendingFilter = input.includePending ? {} : { isPending: false };
 
       // Run all dashboard queries in parallel for maximum performance
       const [
-        transactions,
+        monthTransactions,
         budgets,
         varyingCategory,
         needsReviewCount,
         categories,
-        recentTransactions,
+        recentMonthTransactions,
+        currency,
       ] = await Promise.all([
         // Transactions for the month
         ctx.prisma.transaction.findMany({
@@ -90,11 +124,12 @@ export const dashboardRouter = router({
             category: {
               select: { id: true, name: true, icon: true, color: true, type: true },
             },
+            splits: true,
           },
         }),
-        // Budgets for the month
+        // Monthly budgets (quarterly and yearly budgets are tracked on the budget page)
         ctx.prisma.budget.findMany({
-          where: { householdId: ctx.householdId, month: input.month },
+          where: { householdId: ctx.householdId, month: input.month, period: 'month' },
           include: { category: true },
         }),
         // Expense category (for uncategorized expenses)
@@ -117,7 +152,7 @@ export const dashboardRouter = router({
             type: 'expense',
           },
           include: {
-            budgets: { where: { month: input.month } },
+            budgets: { where: { month: input.month, period: 'month' } },
           },
         }),
         // Recent transactions
@@ -126,6 +161,7 @@ export const dashboardRouter = router({
             householdId: ctx.householdId,
             isIgnored: false,
             date: { gte: startDate, lte: endDate },
+            ...pendingFilter,
           },
           include: {
             category: {
@@ -138,8 +174,21 @@ export const dashboardRouter = router({
           orderBy: { date: 'desc' },
           take: input.recentLimit,
         }),
+        loadCurrencyContext(ctx.prisma, ctx.householdId, { from: startDate, to: endDate }),
       ]);
 
+      // Report everything in the household's base currency
+      const { baseCurrency } = currency;
+      const converted = currency.convert(monthTransactions);
+      const { missingRates } = converted;
+      const recentTransactions = currency.convert(recentMonthTransactions).transactions;
+
+      // Pending card charges are always reported, but only counted when requested
+      const pendingTransactions = converted.transactions.filter((t) => t.isPending);
+      const transactions = input.includePending
+        ? converted.transactions
+        : converted.transactions.filter((t) => !t.isPending);
+
       // Calculate KPIs
       const domainTransactions = toTransactions(transactions);
       const kpis = calculateMonthlyKPIs(domainTransactions, input.month);
@@ -167,12 +216,15 @@ export const dashboardRouter = router({
           (t.categoryId === varyingCategory?.id || t.categoryId === null)
       );
 
-      // Calculate category breakdown
+      // Calculate category breakdown (split transactions count per split)
       const categoryBreakdown = categories.map((category) => {
         const categoryTransactions = transactions.filter(
-          (t) => t.categoryId === category.id && t.direction === 'expense'
+          (t) => t.direction === 'expense' && getAmountForCategory(t, category.id) > 0
+        );
+        const actualAmount = categoryTransactions.reduce(
+          (sum, t) => sum + getAmountForCategory(t, category.id),
+          0
         );
-        const actualAmount = categoryTransactions.reduce((sum, t) => sum + t.amount, 0);
         const budget = category.budgets[0];
 
         let status = 'ok';
@@ -208,16 +260,22 @@ export const dashboardRouter = router({
         ...kpis,
         formattedIncome: new Intl.NumberFormat('en-US', {
           style: 'currency',
-          currency: 'USD',
+          currency: baseCurrency,
         }).format(kpis.totalIncome),
         formattedExpenses: new Intl.NumberFormat('en-US', {
           style: 'currency',
-          currency: 'USD',
+          currency: baseCurrency,
         }).format(kpis.totalExpenses),
         formattedSavings: new Intl.NumberFormat('en-US', {
           style: 'currency',
-          currency: 'USD',
+          currency: baseCurrency,
         }).format(kpis.netSavings),
+        originalCurrencyTotals: {
+          income: getOriginalCurrencyTotals(transactions.filter((t) => t.direction === 'income')),
+          expenses: getOriginalCurrencyTotals(
+            transactions.filter((t) => t.direction === 'expense')
+          ),
+        },
         formattedSavingsRate: new Intl.NumberFormat('en-US', {
           style: 'percent',
           minimumFractionDigits: 1,
@@ -230,8 +288,15 @@ export const dashboardRouter = router({
         ...tx,
         formattedAmount: new Intl.NumberFormat('en-US', {
           style: 'currency',
-          currency: 'USD',
+          currency: baseCurrency,
         }).format(Math.abs(tx.amount)),
+        formattedOriginalAmount:
+          tx.originalCurrency && tx.originalAmount != null
+            ? new Intl.NumberFormat('en-US', {
+                style: 'currency',
+                currency: tx.originalCurrency,
+              }).format(Math.abs(tx.originalAmount))
+            : null,
         formattedDate: new Intl.DateTimeFormat('en-US', {
           month: 'short',
           day: 'numeric',
@@ -240,6 +305,15 @@ export const dashboardRouter = router({
 
       return {
         month: input.month,
+        baseCurrency,
+        missingRates,
+        pending: {
+          included: input.includePending,
+          count: pendingTransactions.length,
+          total: pendingTransactions
+            .filter((t) => t.direction === 'expense')
+            .reduce((sum, t) => sum + t.amount, 0),
+        },
         overview: {
           kpis: formattedKpis,
           budgetSummary: {
@@ -260,11 +334,11 @@ export const dashboardRouter = router({
             // Format on server
             formattedActual: new Intl.NumberFormat('en-US', {
               style: 'currency',
-              currency: 'USD',
+              currency: baseCurrency,
             }).format(a.actualAmount),
             formattedPlanned: new Intl.NumberFormat('en-US', {
               style: 'currency',
-              currency: 'USD',
+              currency: baseCurrency,
             }).format(a.budget.plannedAmount),
           })),
           varyingExpenses: {
@@ -272,7 +346,7 @@ export const dashboardRouter = router({
             total: varyingExpenses.reduce((sum, t) => sum + t.amount, 0),
             formattedTotal: new Intl.NumberFormat('en-US', {
               style: 'currency',
-              currency: 'USD',
+              currency: baseCurrency,
             }).format(varyingExpenses.reduce((sum, t) => sum + t.amount, 0)),
           },
           needsReviewCount,
@@ -291,49 +365,55 @@ export const dashboardRouter = router({
     const endDate = new Date(year!, monthNum!, 0, 23, 59, 59, 999);
 
     // Parallelize all independent database queries
-    const [transactions, budgets, varyingCategory, needsReviewCount] = await Promise.all([
-      // Get all transactions for the month (excluding ignored)
-      ctx.prisma.transaction.findMany({
-        where: {
-          householdId: ctx.householdId,
-          isIgnored: false,
-          date: {
-            gte: startDate,
-            lte: endDate,
+    const [monthTransactions, budgets, varyingCategory, needsReviewCount, currency] =
+      await Promise.all([
+        // Get all transactions for the month (excluding ignored)
+        ctx.prisma.transaction.findMany({
+          where: {
+            householdId: ctx.householdId,
+            isIgnored: false,
+            date: {
+              gte: startDate,
+              lte: endDate,
+            },
           },
-        },
-        include: {
-          category: {
-            select: { id: true, name: true, icon: true, color: true, type: true },
+          include: {
+            category: {
+              select: { id: true, name: true, icon: true, color: true, type: true },
+            },
+            splits: true,
           },
-        },
-      }),
-      // Get budgets with evaluations
-      ctx.prisma.budget.findMany({
-        where: {
-          householdId: ctx.householdId,
-          month: input,
-        },
-        include: {
-          category: true,
-        },
-      }),
-      // Get expense category (for uncategorized expenses)
-      ctx.prisma.category.findFirst({
-        where: {
-          householdId: ctx.householdId,
-          type: 'expense',
-        },
-      }),
-      // Get transactions needing review count
-      ctx.prisma.transaction.count({
-        where: {
-          householdId: ctx.householdId,
-          needsReview: true,
-          isIgnored: false,
-        },
-      }),
-    ]);
+        }),
+        // Get budgets with evaluations
+        ctx.prisma.budget.findMany({
+          where: {
+            householdId: ctx.householdId,
+            month: input,
+            period: 'month',
+          },
+          include: {
+            category: true,
+          },
+        }),
+        // Get expense category (for uncategorized expenses)
+        ctx.prisma.category.findFirst({
+          where: {
+            householdId: ctx.householdId,
+            type: 'expense',
+          },
+        }),
+        // Get transactions needing review count
+        ctx.prisma.transaction.count({
+          where: {
+            householdId: ctx.householdId,
+            needsReview: true,
+            isIgnored: false,
+          },
+        }),
+        loadCurrencyContext(ctx.prisma, ctx.householdId, { from: startDate, to: endDate }),
+      ]);
+
+    const { transactions, missingRates } = currency.convert(monthTransactions);
 
     // Calculate KPIs
     const domainTransactions = toTransactions(transactions);
@@ -359,6 +439,8 @@ export const dashboardRouter = router({
 
     return {
       month: input,
+      baseCurrency: currency.baseCurrency,
+      missingRates,
       kpis,
       budgetSummary: {
         total: budgetEvaluations.length,
@@ -406,7 +488,7 @@ export const dashboardRouter = router({
     const endDate = new Date(year!, monthNum!, 0, 23, 59, 59, 999);
 
     // Parallelize independent queries
-    const [categories, transactions] = await Promise.all([
+    const [categories, expenseTransactions, currency] = await Promise.all([
       // Get categories with their budgets
       ctx.prisma.category.findMany({
         where: {
@@ -416,7 +498,7 @@ export const dashboardRouter = router({
         },
         include: {
           budgets: {
-            where: { month: input },
+            where: { month: input, period: 'month' },
           },
         },
       }),
@@ -431,15 +513,21 @@ export const dashboardRouter = router({
           },
           direction: 'expense',
         },
+        include: { splits: true },
       }),
+      loadCurrencyContext(ctx.prisma, ctx.householdId, { from: startDate, to: endDate }),
     ]);
 
+    const { transactions } = currency.convert(expenseTransactions);
+
     return categories.map((category: (typeof categories)[number]) => {
+      // Split transactions count only the splits allocated to this category
       const categoryTransactions = transactions.filter(
-        (t: (typeof transactions)[number]) => t.categoryId === category.id
+        (t: (typeof transactions)[number]) => getAmountForCategory(t, category.id) > 0
       );
       const actualAmount = categoryTransactions.reduce(
-        (sum: number, t: (typeof categoryTransactions)[number]) => sum + t.amount,
+        (sum: number, t: (typeof categoryTransactions)[number]) =>
+          sum + getAmountForCategory(t, category.id),
         0
       );
       const budget = category.budgets[0];
@@ -481,22 +569,27 @@ export const dashboardRouter = router({
     const startDate = new Date(year!, monthNum! - 1, 1);
     const endDate = new Date(year!, monthNum!, 0, 23, 59, 59, 999);
 
-    const transactions = await ctx.prisma.transaction.findMany({
-      where: {
-        householdId: ctx.householdId,
-        isIgnored: false,
-        date: {
-          gte: startDate,
-          lte: endDate,
+    const [incomeTransactions, currency] = await Promise.all([
+      ctx.prisma.transaction.findMany({
+        where: {
+          householdId: ctx.householdId,
+          isIgnored: false,
+          date: {
+            gte: startDate,
+            lte: endDate,
+          },
+          direction: 'income',
         },
-        direction: 'income',
-      },
-      include: {
-        category: {
-          select: { id: true, name: true, icon: true, color: true },
+        include: {
+          category: {
+            select: { id: true, name: true, icon: true, color: true },
+          },
         },
-      },
-    });
+      }),
+      loadCurrencyContext(ctx.prisma, ctx.householdId, { from: startDate, to: endDate }),
+    ]);
+
+    const { transactions } = currency.convert(incomeTransactions);
 
     // Group by category
     const byCategory = new Map<
@@ -574,37 +667,108 @@ export const dashboardRouter = router({
     }),
 
   /**
-   * Get accounts summary
+   * Active accounts with their latest balance and the change since the end of last month
+   * Totals are in the base currency: net worth is assets minus credit card debt
    */
   accountsSummary: protectedProcedure.query(async ({ ctx }) => {
-    const accounts = await ctx.prisma.account.findMany({
-      where: {
-        householdId: ctx.householdId,
-        isActive: true,
-      },
-      orderBy: { name: 'asc' },
-    });
+    const now = new Date();
+    const lastMonthEnd = new Date(now.getFullYear(), now.getMonth(), 0, 23, 59, 59, 999);
+    const lastMonthStart = new Date(now.getFullYear(), now.getMonth() - 1, 1);
 
-    const totalBalance = accounts.reduce(
-      (sum: number, a: (typeof accounts)[number]) => sum + a.balance,
-      0
+    const [accounts, currency] = await Promise.all([
+      ctx.prisma.account.findMany({
+        where: {
+          householdId: ctx.householdId,
+          isActive: true,
+        },
+        orderBy: { name: 'asc' },
+      }),
+      loadCurrencyContext(ctx.prisma, ctx.householdId, { from: lastMonthStart, to: now }),
+    ]);
+    const { snapshots, converted, missingRates } = await loadBalanceSnapshots(
+      ctx.prisma,
+      ctx.householdId,
+      currency
     );
 
+    // Snapshots come oldest first, so the last one per account wins
+    const latestSnapshotAt = new Map(snapshots.map((s) => [s.accountId, s.date]));
+
+    // Per-account balances stay in the account's currency
+    const summaries = accounts.map((account) => {
+      const latestBalance = getBalanceAt(snapshots, account.id, now) ?? account.balance;
+      const previousMonthBalance = getBalanceAt(snapshots, account.id, lastMonthEnd);
+      return {
+        ...account,
+        latestBalance,
+        latestSnapshotAt: latestSnapshotAt.get(account.id) ?? null,
+        previousMonthBalance,
+        monthOverMonthChange:
+          previousMonthBalance === null ? null : latestBalance - previousMonthBalance,
+      };
+    });
+
+    const current = calculateNetWorth(accounts, converted, now);
+    const previous = calculateNetWorth(accounts, converted, lastMonthEnd);
+
     return {
-      accounts,
-      totalBalance,
+      accounts: summaries,
+      totalBalance: current.netWorth,
+      assets: current.assets,
+      liabilities: current.liabilities,
+      previousMonthTotal: previous.netWorth,
+      monthOverMonthChange: current.netWorth - previous.netWorth,
+      baseCurrency: currency.baseCurrency,
+      missingRates,
     };
   }),
 
+  /**
+   * Net worth at the end of each of the last few months, in the base currency
+   */
+  netWorth: protectedProcedure
+    .input(z.object({ months: z.number().min(2).max(36).default(12) }).optional())
+    .query(async ({ ctx, input }) => {
+      const months = input?.months ?? 12;
+      const now = new Date();
+      const seriesStart = new Date(now.getFullYear(), now.getMonth() - months + 1, 1);
+
+      const [accounts, currency] = await Promise.all([
+        ctx.prisma.account.findMany({
+          where: { householdId: ctx.householdId, isActive: true },
+          select: { id: true, type: true },
+        }),
+        loadCurrencyContext(ctx.prisma, ctx.householdId, { from: seriesStart, to: now }),
+      ]);
+      const { converted, missingRates } = await loadBalanceSnapshots(
+        ctx.prisma,
+        ctx.householdId,
+        currency
+      );
+
+      const points = getNetWorthSeries(accounts, converted, months, now).map((point) => ({
+        ...point,
+        month: `${point.date.getFullYear()}-${String(point.date.getMonth() + 1).padStart(2, '0')}`,
+      }));
+
+      return {
+        points,
+        hasSnapshots: converted.length > 0,
+        baseCurrency: currency.baseCurrency,
+        missingRates,
+      };
+    }),
+
   /**
    * Get expense insights for a month (credit card, expected, recurring, comparison, top merchants, largest transactions, last sync)
    */
   getExpenseInsights: protectedProcedure
-    .input(z.object({ month: monthSchema }))
+    .input(z.object({ month: monthSchema, includePending: z.boolean().default(true) }))
     .query(async ({ ctx, input }) => {
       const [year, monthNum] = input.month.split('-').map(Number);
       const startDate = new Date(year!, monthNum! - 1, 1);
       const endDate = new Date(year!, monthNum!, 0, 23, 59, 59, 999);
+      const pendingFilter = input.includePending ? {} : { isPending: false };
 
       // Calculate previous month dates
       const prevMonthDate = new Date(year!, monthNum! - 2, 1);
@@ -616,12 +780,13 @@ export const dashboardRouter = router({
       // Run all queries in parallel for maximum performance
       const [
         creditCardAccounts,
-        currentMonthTransactions,
-        previousMonthTransactions,
+        currentMonthExpenses,
+        previousMonthExpenses,
         budgets,
         recurringTemplates,
         lastSyncConnection,
-        transactionsWithAccounts,
+        expensesWithAccounts,
+        currency,
       ] = await Promise.all([
         // Get credit card accounts
         ctx.prisma.account.findMany({
@@ -639,6 +804,7 @@ export const dashboardRouter = router({
             isIgnored: false,
             direction: 'expense',
             date: { gte: startDate, lte: endDate },
+            ...pendingFilter,
           },
           include: {
             category: {
@@ -647,6 +813,9 @@ export const dashboardRouter = router({
             account: {
               select: { id: true, name: true, type: true },
             },
+            merchantEntity: {
+              select: { id: true, name: true, icon: true, logoUrl: true },
+            },
           },
         }),
         // Previous month expense transactions (for comparison)
@@ -656,14 +825,16 @@ export const dashboardRouter = router({
             isIgnored: false,
             direction: 'expense',
             date: { gte: prevStartDate, lte: prevEndDate },
+            ...pendingFilter,
           },
-          select: { amount: true },
+          select: { amount: true, accountId: true, date: true },
         }),
         // Budgets for expected expenses
         ctx.prisma.budget.findMany({
           where: {
             householdId: ctx.householdId,
             month: input.month,
+            period: 'month',
           },
           select: { plannedAmount: true },
         }),
@@ -693,6 +864,7 @@ export const dashboardRouter = router({
             isIgnored: false,
             direction: 'expense',
             date: { gte: startDate, lte: endDate },
+            ...pendingFilter,
           },
           include: {
             account: {
@@ -700,8 +872,14 @@ export const dashboardRouter = router({
             },
           },
         }),
+        loadCurrencyContext(ctx.prisma, ctx.householdId, { from: prevStartDate, to: endDate }),
       ]);
 
+      // Totals are reported in the household's base currency
+      const currentMonthTransactions = currency.convert(currentMonthExpenses).transactions;
+      const previousMonthTransactions = currency.convert(previousMonthExpenses).transactions;
+      const transactionsWithAccounts = currency.convert(expensesWithAccounts).transactions;
+
       // Calculate credit card expenses total
       const creditCardAccountIds = new Set(creditCardAccounts.map((a) => a.id));
       const creditCardTotal = transactionsWithAccounts
@@ -722,16 +900,35 @@ export const dashboardRouter = router({
       const trend: 'up' | 'down' | 'flat' =
         percentChange > 0.02 ? 'up' : percentChange < -0.02 ? 'down' : 'flat';
 
-      // Calculate top merchants (group by merchant, sum amounts)
-      const merchantMap = new Map<string, { merchant: string; total: number; count: number }>();
+      // Calculate top merchants (group by household merchant, else merchant text; sum amounts)
+      const merchantMap = new Map<
+        string,
+        {
+          merchant: string;
+          merchantId: string | null;
+          icon: string | null;
+          logoUrl: string | null;
+          total: number;
+          count: number;
+        }
+      >();
       for (const tx of currentMonthTransactions) {
-        const merchantName = tx.merchant || tx.description.split(' ')[0] || 'Unknown';
-        const existing = merchantMap.get(merchantName);
+        const merchantName =
+          tx.merchantEntity?.name || tx.merchant || tx.description.split(' ')[0] || 'Unknown';
+        const key = tx.merchantEntity?.id ?? `text:${merchantName}`;
+        const existing = merchantMap.get(key);
         if (existing) {
           existing.total += tx.amount;
           existing.count += 1;
         } else {
-          merchantMap.set(merchantName, { merchant: merchantName, total: tx.amount, count: 1 });
+          merchantMap.set(key, {
+            merchant: merchantName,
+            merchantId: tx.merchantEntity?.id ?? null,
+            icon: tx.merchantEntity?.icon ?? null,
+            logoUrl: tx.merchantEntity?.logoUrl ?? null,
+            total: tx.amount,
+            count: 1,
+          });
         }
       }
       const topMerchants = Array.from(merchantMap.values())
@@ -782,7 +979,7 @@ export const dashboardRouter = router({
       const formatCurrency = (amount: number) =>
         new Intl.NumberFormat('he-IL', {
           style: 'currency',
-          currency: 'ILS',
+          currency: currency.baseCurrency,
           minimumFractionDigits: 0,
           maximumFractionDigits: 0,
         }).format(amount);
@@ -0,0 +1,209 @@
+import type { PrismaClient } from '@sfam/db';
+import { calculateGoalProgress, getGoalContributions } from '@sfam/domain';
+import { createGoalSchema, updateGoalSchema } from '@sfam/domain/schemas';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { loadCurrencyContext } from '../lib/currency';
+import { protectedProcedure, router } from '../trpc';
+
+// Helper to make sure a goal belongs to the household
+async function findGoal(prisma: PrismaClient, householdId: string, id: string) {
+  const goal = await prisma.goal.findFirst({ where: { id, householdId } });
+  if (!goal) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Goal not found' });
+  }
+  return goal;
+}
+
+// Linked accounts and categories must belong to the household too
+async function assertAccount(prisma: PrismaClient, householdId: string, accountId: string) {
+  const account = await prisma.account.findFirst({ where: { id: accountId, householdId } });
+  if (!account) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Account not found' });
+  }
+}
+
+async function assertCategory(prisma: PrismaClient, householdId: string, categoryId: string) {
+  const category = await prisma.category.findFirst({ where: { id: categoryId, householdId } });
+  if (!category) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Category not found' });
+  }
+}
+
+export const goalsRouter = router({
+  /**
+   * List savings goals with progress, required monthly contribution and on-track status
+   */
+  list: protectedProcedure
+    .input(z.object({ includeArchived: z.boolean().default(false) }).optional())
+    .query(async ({ ctx, input }) => {
+      const goals = await ctx.prisma.goal.findMany({
+        where: {
+          householdId: ctx.householdId,
+          ...(input?.includeArchived ? {} : { isArchived: false }),
+        },
+        include: {
+          account: { select: { id: true, name: true } },
+          category: { select: { id: true, name: true, icon: true, color: true } },
+        },
+        orderBy: { targetDate: 'asc' },
+      });
+
+      const now = new Date();
+      const earliestStart = new Date(
+        Math.min(now.getTime(), ...goals.map((g) => g.startDate.getTime()))
+      );
+      const currency = await loadCurrencyContext(ctx.prisma, ctx.householdId, {
+        from: earliestStart,
+        to: now,
+      });
+
+      if (goals.length === 0) {
+        return {
+          goals: [],
+          baseCurrency: currency.baseCurrency,
+          totalSaved: 0,
+          totalTarget: 0,
+          totalRequiredMonthly: 0,
+          contributedThisMonth: 0,
+        };
+      }
+
+      const accountIds = goals.flatMap((g) => (g.accountId ? [g.accountId] : []));
+      const categoryIds = goals.flatMap((g) => (g.categoryId ? [g.categoryId] : []));
+
+      const transactions = await ctx.prisma.transaction.findMany({
+        where: {
+          householdId: ctx.householdId,
+          isIgnored: false,
+          date: { gte: earliestStart },
+          OR: [
+            { goalId: { in: goals.map((g) => g.id) } },
+            { accountId: { in: accountIds } },
+            { categoryId: { in: categoryIds } },
+          ],
+        },
+        select: {
+          accountId: true,
+          categoryId: true,
+          goalId: true,
+          date: true,
+          amount: true,
+          direction: true,
+          preTransferDirection: true,
+          originalAmount: true,
+          originalCurrency: true,
+        },
+      });
+      const { transactions: converted } = currency.convert(transactions);
+
+      const monthStart = new Date(now.getFullYear(), now.getMonth(), 1);
+
+      const withProgress = goals.map((goal) => {
+        const contributions = getGoalContributions(goal, converted);
+        return {
+          ...goal,
+          ...calculateGoalProgress(goal, contributions, now),
+          contributedThisMonth: contributions
+            .filter((c) => c.date >= monthStart)
+            .reduce((sum, c) => sum + c.amount, 0),
+        };
+      });
+
+      // Totals cover goals still being saved for
+      const active = withProgress.filter((g) => !g.isArchived && g.status !== 'completed');
+
+      return {
+        goals: withProgress,
+        baseCurrency: currency.baseCurrency,
+        totalSaved: withProgress.reduce((sum, g) => sum + g.savedAmount, 0),
+        totalTarget: withProgress.reduce((sum, g) => sum + g.targetAmount, 0),
+        totalRequiredMonthly: active.reduce((sum, g) => sum + g.requiredMonthly, 0),
+        contributedThisMonth: active.reduce((sum, g) => sum + g.contributedThisMonth, 0),
+      };
+    }),
+
+  /**
+   * Create a savings goal
+   */
+  create: protectedProcedure.input(createGoalSchema).mutation(async ({ ctx, input }) => {
+    if (input.accountId) {
+      await assertAccount(ctx.prisma, ctx.householdId, input.accountId);
+    }
+    if (input.categoryId) {
+      await assertCategory(ctx.prisma, ctx.householdId, input.categoryId);
+    }
+
+    return ctx.prisma.goal.create({
+      data: {
+        ...input,
+        householdId: ctx.householdId,
+      },
+    });
+  }),
+
+  /**
+   * Update a savings goal
+   */
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: updateGoalSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await findGoal(ctx.prisma, ctx.householdId, input.id);
+      if (input.data.accountId) {
+        await assertAccount(ctx.prisma, ctx.householdId, input.data.accountId);
+      }
+      if (input.data.categoryId) {
+        await assertCategory(ctx.prisma, ctx.householdId, input.data.categoryId);
+      }
+
+      return ctx.prisma.goal.update({
+        where: { id: input.id },
+        data: input.data,
+      });
+    }),
+
+  /**
+   * Delete a savings goal (tagged transactions are kept and untagged)
+   */
+  delete: protectedProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    await findGoal(ctx.prisma, ctx.householdId, input);
+
+    return ctx.prisma.goal.delete({
+      where: { id: input },
+    });
+  }),
+
+  /**
+   * Tag a transaction as a contribution to a goal, or clear the tag
+   */
+  tagTransaction: protectedProcedure
+    .input(
+      z.object({
+        transactionId: z.string(),
+        goalId: z.string().nullable(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const transaction = await ctx.prisma.transaction.findFirst({
+        where: { id: input.transactionId, householdId: ctx.householdId },
+      });
+
+      if (!transaction) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Transaction not found' });
+      }
+
+      if (input.goalId) {
+        await findGoal(ctx.prisma, ctx.householdId, input.goalId);
+      }
+
+      return ctx.prisma.transaction.update({
+        where: { id: input.transactionId },
+        data: { goalId: input.goalId },
+      });
+    }),
+});
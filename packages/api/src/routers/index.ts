@@ -9,3 +9,8 @@ export { accountsRouter } from './accounts';
 export { demoRouter } from './demo';
 export { performanceRouter } from './performance';
 export { invitesRouter } from './invites';
+export { backupRouter } from './backup';
+export { currencyRouter } from './currency';
+export { installmentsRouter } from './installments';
+export { goalsRouter } from './goals';
+export { merchantsRouter } from './merchants';
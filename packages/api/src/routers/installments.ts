@@ -0,0 +1,181 @@
+import {
+  getInstallmentDueDate,
+  getInstallmentPlanStatus,
+  parseInstallmentNote,
+  projectInstallmentCharges,
+} from '@sfam/domain';
+import { monthSchema } from '@sfam/domain/schemas';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { protectedProcedure, router } from '../trpc';
+
+export const installmentsRouter = router({
+  /**
+   * List installment plans with paid/remaining payments and remaining liability
+   */
+  list: protectedProcedure
+    .input(z.object({ includeCompleted: z.boolean().default(false) }).optional())
+    .query(async ({ ctx, input }) => {
+      const plans = await ctx.prisma.installmentPlan.findMany({
+        where: { householdId: ctx.householdId },
+        include: {
+          account: { select: { id: true, name: true } },
+          category: { select: { id: true, name: true, icon: true, color: true } },
+          transactions: {
+            select: { id: true, date: true, amount: true, installmentNumber: true },
+            orderBy: { installmentNumber: 'asc' },
+          },
+        },
+      });
+
+      const withStatus = plans
+        .map((plan) => ({
+          ...plan,
+          ...getInstallmentPlanStatus(plan, plan.transactions),
+        }))
+        .filter((plan) => input?.includeCompleted || !plan.isComplete)
+        .sort(
+          (a, b) =>
+            (a.nextPaymentDate?.getTime() ?? Number.POSITIVE_INFINITY) -
+            (b.nextPaymentDate?.getTime() ?? Number.POSITIVE_INFINITY)
+        );
+
+      const active = withStatus.filter((plan) => !plan.isComplete);
+
+      return {
+        plans: withStatus,
+        activeCount: active.length,
+        remainingLiability: active.reduce((sum, plan) => sum + plan.remainingAmount, 0),
+      };
+    }),
+
+  /**
+   * Project unpaid installment payments into the months they will be charged
+   */
+  projection: protectedProcedure
+    .input(
+      z.object({
+        fromMonth: monthSchema,
+        months: z.number().int().min(1).max(60).default(12),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const plans = await ctx.prisma.installmentPlan.findMany({
+        where: { householdId: ctx.householdId },
+        include: { transactions: { select: { amount: true, installmentNumber: true } } },
+      });
+
+      const charges = projectInstallmentCharges(
+        plans.map((plan) => ({ ...plan, payments: plan.transactions })),
+        input.fromMonth,
+        input.months
+      );
+
+      // Group by month
+      const byMonth = new Map<string, { month: string; total: number; charges: typeof charges }>();
+      for (const charge of charges) {
+        const entry = byMonth.get(charge.month) ?? { month: charge.month, total: 0, charges: [] };
+        entry.total += charge.amount;
+        entry.charges.push(charge);
+        byMonth.set(charge.month, entry);
+      }
+
+      return Array.from(byMonth.values());
+    }),
+
+  /**
+   * Update a plan's description or category
+   */
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: z.object({
+          description: z.string().min(1).optional(),
+          categoryId: z.string().nullable().optional(),
+        }),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const plan = await ctx.prisma.installmentPlan.findFirst({
+        where: { id: input.id, householdId: ctx.householdId },
+      });
+
+      if (!plan) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Installment plan not found' });
+      }
+
+      return ctx.prisma.installmentPlan.update({
+        where: { id: input.id },
+        data: input.data,
+      });
+    }),
+
+  /**
+   * Link installment payments imported before plans were tracked
+   * Groups rows by their "תשלום n/N" note, purchase date, description and account
+   */
+  linkExisting: protectedProcedure.mutation(async ({ ctx }) => {
+    const transactions = await ctx.prisma.transaction.findMany({
+      where: {
+        householdId: ctx.householdId,
+        installmentPlanId: null,
+        notes: { contains: 'תשלום' },
+      },
+      orderBy: { date: 'asc' },
+    });
+
+    const groups = new Map<
+      string,
+      Array<{ tx: (typeof transactions)[number]; number: number; total: number }>
+    >();
+    for (const tx of transactions) {
+      const installment = parseInstallmentNote(tx.notes);
+      if (!installment) continue;
+
+      const day = tx.date.toISOString().slice(0, 10);
+      const key = [tx.accountId, day, tx.description, installment.total].join('|');
+      const group = groups.get(key) ?? [];
+      group.push({ tx, ...installment });
+      groups.set(key, group);
+    }
+
+    let plansCreated = 0;
+    let transactionsLinked = 0;
+
+    for (const [key, payments] of groups) {
+      const first = payments[0]!;
+      const latest = payments.reduce((a, b) => (b.number > a.number ? b : a));
+
+      const plan = await ctx.prisma.installmentPlan.upsert({
+        where: { householdId_planKey: { householdId: ctx.householdId, planKey: `note_${key}` } },
+        create: {
+          householdId: ctx.householdId,
+          accountId: first.tx.accountId,
+          categoryId: latest.tx.categoryId,
+          planKey: `note_${key}`,
+          description: first.tx.description,
+          merchant: first.tx.merchant,
+          purchaseDate: first.tx.date,
+          // Charge dates were not kept; card payments start the month after the purchase
+          firstPaymentDate: getInstallmentDueDate(first.tx.date, 2),
+          totalPayments: first.total,
+          paymentAmount: latest.tx.amount,
+          totalAmount: Math.round(latest.tx.amount * first.total * 100) / 100,
+        },
+        update: {},
+      });
+      plansCreated++;
+
+      for (const payment of payments) {
+        await ctx.prisma.transaction.update({
+          where: { id: payment.tx.id },
+          data: { installmentPlanId: plan.id, installmentNumber: payment.number },
+        });
+        transactionsLinked++;
+      }
+    }
+
+    return { plansCreated, transactionsLinked };
+  }),
+});
@@ -0,0 +1,198 @@
+import type { PrismaClient } from '@sfam/db';
+import { type Merchant, parseMerchantTextList, relinkMerchants } from '@sfam/domain';
+import { createMerchantSchema, updateMerchantSchema } from '@sfam/domain/schemas';
+import { TRPCError } from '@trpc/server';
+import { z } from 'zod';
+import { protectedProcedure, router } from '../trpc';
+
+type MerchantRow = Awaited<ReturnType<PrismaClient['merchant']['findMany']>>[number];
+
+// Merchant rows keep aliases and patterns as JSON
+function toDomainMerchant(row: MerchantRow): Merchant {
+  return {
+    ...row,
+    aliases: parseMerchantTextList(row.aliases),
+    patterns: parseMerchantTextList(row.patterns),
+  };
+}
+
+// Helper to make sure a merchant belongs to the household
+async function findMerchant(prisma: PrismaClient, householdId: string, id: string) {
+  const merchant = await prisma.merchant.findFirst({ where: { id, householdId } });
+  if (!merchant) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Merchant not found' });
+  }
+  return merchant;
+}
+
+async function assertCategory(prisma: PrismaClient, householdId: string, categoryId: string) {
+  const category = await prisma.category.findFirst({ where: { id: categoryId, householdId } });
+  if (!category) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Category not found' });
+  }
+}
+
+async function assertNameAvailable(
+  prisma: PrismaClient,
+  householdId: string,
+  name: string,
+  exceptId?: string
+) {
+  const existing = await prisma.merchant.findFirst({
+    where: { householdId, name: { equals: name, mode: 'insensitive' }, id: { not: exceptId } },
+  });
+  if (existing) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: `Merchant "${name}" already exists` });
+  }
+}
+
+/**
+ * Resolve every transaction of the household against its current merchants
+ * Runs after merchants change, so existing transactions follow new aliases and patterns
+ */
+async function relinkTransactions(prisma: PrismaClient, householdId: string) {
+  const [merchants, transactions] = await Promise.all([
+    prisma.merchant.findMany({ where: { householdId } }),
+    prisma.transaction.findMany({
+      where: { householdId },
+      select: { id: true, merchant: true, description: true, merchantId: true },
+    }),
+  ]);
+
+  const byMerchant = new Map<string | null, string[]>();
+  for (const { transaction, merchantId } of relinkMerchants(
+    transactions,
+    merchants.map(toDomainMerchant)
+  )) {
+    byMerchant.set(merchantId, [...(byMerchant.get(merchantId) ?? []), transaction.id]);
+  }
+
+  for (const [merchantId, ids] of byMerchant) {
+    await prisma.transaction.updateMany({
+      where: { id: { in: ids }, householdId },
+      data: { merchantId },
+    });
+  }
+
+  return [...byMerchant.values()].reduce((sum, ids) => sum + ids.length, 0);
+}
+
+export const merchantsRouter = router({
+  /**
+   * List the household's merchants with how many transactions resolved to each
+   */
+  list: protectedProcedure.query(async ({ ctx }) => {
+    const merchants = await ctx.prisma.merchant.findMany({
+      where: { householdId: ctx.householdId },
+      include: {
+        defaultCategory: { select: { id: true, name: true, icon: true } },
+        _count: { select: { transactions: true } },
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    return merchants.map(({ _count, ...merchant }) => ({
+      ...toDomainMerchant(merchant),
+      defaultCategory: merchant.defaultCategory,
+      transactionCount: _count.transactions,
+    }));
+  }),
+
+  /**
+   * Most frequent merchant texts not resolved to any merchant, to create merchants from
+   */
+  unmatched: protectedProcedure
+    .input(z.object({ limit: z.number().int().min(1).max(100).default(20) }).optional())
+    .query(async ({ ctx, input }) => {
+      const groups = await ctx.prisma.transaction.groupBy({
+        by: ['merchant'],
+        where: { householdId: ctx.householdId, merchantId: null, merchant: { not: null } },
+        _count: { _all: true },
+        _sum: { amount: true },
+        orderBy: { _count: { merchant: 'desc' } },
+        take: input?.limit ?? 20,
+      });
+
+      return groups.flatMap((group) =>
+        group.merchant
+          ? [
+              {
+                merchant: group.merchant,
+                count: group._count._all,
+                total: group._sum.amount ?? 0,
+              },
+            ]
+          : []
+      );
+    }),
+
+  /**
+   * Create a merchant and link the transactions it matches
+   */
+  create: protectedProcedure.input(createMerchantSchema).mutation(async ({ ctx, input }) => {
+    await assertNameAvailable(ctx.prisma, ctx.householdId, input.name);
+    if (input.defaultCategoryId) {
+      await assertCategory(ctx.prisma, ctx.householdId, input.defaultCategoryId);
+    }
+
+    const merchant = await ctx.prisma.merchant.create({
+      data: {
+        ...input,
+        householdId: ctx.householdId,
+        aliases: JSON.stringify(input.aliases),
+        patterns: JSON.stringify(input.patterns),
+      },
+    });
+    const relinked = await relinkTransactions(ctx.prisma, ctx.householdId);
+
+    return { merchant: toDomainMerchant(merchant), relinked };
+  }),
+
+  /**
+   * Update a merchant; changed aliases or patterns relink the household's transactions
+   */
+  update: protectedProcedure
+    .input(
+      z.object({
+        id: z.string(),
+        data: updateMerchantSchema,
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      await findMerchant(ctx.prisma, ctx.householdId, input.id);
+      if (input.data.name) {
+        await assertNameAvailable(ctx.prisma, ctx.householdId, input.data.name, input.id);
+      }
+      if (input.data.defaultCategoryId) {
+        await assertCategory(ctx.prisma, ctx.householdId, input.data.defaultCategoryId);
+      }
+
+      const { aliases, patterns, ...rest } = input.data;
+      const merchant = await ctx.prisma.merchant.update({
+        where: { id: input.id },
+        data: {
+          ...rest,
+          ...(aliases && { aliases: JSON.stringify(aliases) }),
+          ...(patterns && { patterns: JSON.stringify(patterns) }),
+        },
+      });
+      const relinked =
+        input.data.name || aliases || patterns
+          ? await relinkTransactions(ctx.prisma, ctx.householdId)
+          : 0;
+
+      return { merchant: toDomainMerchant(merchant), relinked };
+    }),
+
+  /**
+   * Delete a merchant; its transactions keep their merchant text and are relinked
+   */
+  delete: protectedProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    await findMerchant(ctx.prisma, ctx.householdId, input);
+
+    await ctx.prisma.merchant.delete({ where: { id: input } });
+    const relinked = await relinkTransactions(ctx.prisma, ctx.householdId);
+
+    return { relinked };
+  }),
+});
@@ -1,10 +1,13 @@
+import type { PrismaClient } from '@sfam/db';
 import {
   type RecurringOverride,
   type RecurringTransactionTemplate,
   calculateNextRunAt,
   detectRecurringPatterns,
   expandRecurringToMonth,
+  expandRecurringToRange,
   getScheduleDescription,
+  reconcileRecurringOccurrences,
 } from '@sfam/domain';
 import {
   createRecurringTemplateSchema,
@@ -74,6 +77,120 @@ function toRecurringOverrides(
   }));
 }
 
+// How far from its due date a real transaction can pay an occurrence
+const RECONCILE_DAYS_EARLY = 3;
+const RECONCILE_DAYS_LATE = 10;
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Reconcile the occurrences due between two dates with the household's real transactions
+ * Read-only: reports each occurrence's status and the transaction that paid it
+ */
+async function loadReconciliation(
+  prisma: PrismaClient,
+  householdId: string,
+  startDate: Date,
+  endDate: Date,
+  templateId?: string
+) {
+  const templates = await prisma.recurringTransactionTemplate.findMany({
+    where: { householdId, isActive: true, ...(templateId && { id: templateId }) },
+    include: { overrides: true, category: true },
+  });
+
+  const transactions = await prisma.transaction.findMany({
+    where: {
+      householdId,
+      isRecurringInstance: false,
+      isIgnored: false,
+      date: {
+        gte: new Date(startDate.getTime() - RECONCILE_DAYS_EARLY * MS_PER_DAY),
+        lte: new Date(endDate.getTime() + RECONCILE_DAYS_LATE * MS_PER_DAY),
+      },
+    },
+    select: {
+      id: true,
+      accountId: true,
+      date: true,
+      description: true,
+      merchant: true,
+      amount: true,
+      direction: true,
+      recurringTemplateId: true,
+      recurringInstanceKey: true,
+      merchantEntity: { select: { name: true } },
+    },
+  });
+
+  let candidates = transactions.map(({ merchantEntity, ...tx }) => ({
+    ...tx,
+    merchantName: merchantEntity?.name ?? null,
+    direction: tx.direction as 'income' | 'expense' | 'transfer',
+  }));
+
+  return templates.map((template) => {
+    const occurrences = reconcileRecurringOccurrences(
+      toRecurringTemplate(template),
+      expandRecurringToRange(
+        toRecurringTemplate(template),
+        startDate,
+        endDate,
+        toRecurringOverrides(template.overrides)
+      ),
+      candidates,
+      { daysEarly: RECONCILE_DAYS_EARLY, daysLate: RECONCILE_DAYS_LATE }
+    );
+
+    // A transaction pays one template only
+    const used = new Set(occurrences.map((occ) => occ.transactionId));
+    candidates = candidates.filter((tx) => !used.has(tx.id));
+
+    return { template, occurrences };
+  });
+}
+
+/**
+ * Link real transactions to the recurring occurrences they pay
+ * The real transaction takes the occurrence's instance key, and a synthetic instance
+ * generated for the same occurrence is deleted so the payment is not counted twice.
+ * Runs after bank sync and before generating missing occurrences.
+ */
+export async function reconcileRecurringTransactions(
+  prisma: PrismaClient,
+  householdId: string,
+  startDate: Date,
+  endDate: Date
+) {
+  const reconciled = await loadReconciliation(prisma, householdId, startDate, endDate);
+
+  let linked = 0;
+  let replaced = 0;
+  for (const { template, occurrences } of reconciled) {
+    for (const occ of occurrences) {
+      if (!occ.transactionId || occ.isLinked) continue;
+
+      const [deleted] = await prisma.$transaction([
+        prisma.transaction.deleteMany({
+          where: {
+            householdId,
+            isRecurringInstance: true,
+            recurringTemplateId: template.id,
+            recurringInstanceKey: occ.instanceKey,
+          },
+        }),
+        prisma.transaction.update({
+          where: { id: occ.transactionId },
+          data: { recurringTemplateId: template.id, recurringInstanceKey: occ.instanceKey },
+        }),
+      ]);
+      linked++;
+      replaced += deleted.count;
+    }
+  }
+
+  return { linked, replaced };
+}
+
 export const recurringRouter = router({
   /**
    * List all recurring templates
@@ -230,7 +347,8 @@ export const recurringRouter = router({
   }),
 
   /**
-   * Get expanded occurrences for a month
+   * Get expanded occurrences for a month, each reconciled with the real transactions:
+   * paid, late, missing or upcoming
    */
   occurrences: protectedProcedure
     .input(
@@ -241,27 +359,18 @@ export const recurringRouter = router({
       })
     )
     .query(async ({ ctx, input }) => {
-      const where: Record<string, unknown> = {
-        householdId: ctx.householdId,
-        isActive: true,
-      };
-
-      if (input.templateId) {
-        where.id = input.templateId;
-      }
-
-      const templates = await ctx.prisma.recurringTransactionTemplate.findMany({
-        where,
-        include: {
-          overrides: true,
-          category: true,
-        },
-      });
-
-      // Get existing transactions for this month
       const startDate = new Date(input.year, input.month - 1, 1);
       const endDate = new Date(input.year, input.month, 0, 23, 59, 59, 999);
 
+      const reconciled = await loadReconciliation(
+        ctx.prisma,
+        ctx.householdId,
+        startDate,
+        endDate,
+        input.templateId
+      );
+
+      // Get existing transactions for this month
       const existingTransactions = await ctx.prisma.transaction.findMany({
         where: {
           householdId: ctx.householdId,
@@ -284,22 +393,14 @@ export const recurringRouter = router({
         )
       );
 
-      // Expand all templates
-      const allOccurrences = templates.flatMap((template: (typeof templates)[number]) => {
-        const occurrences = expandRecurringToMonth(
-          toRecurringTemplate(template),
-          input.year,
-          input.month,
-          toRecurringOverrides(template.overrides)
-        );
-
-        return occurrences.map((occ) => ({
+      const allOccurrences = reconciled.flatMap(({ template, occurrences }) =>
+        occurrences.map((occ) => ({
           ...occ,
           templateName: template.name,
           category: template.category,
           isGenerated: existingKeys.has(`${template.id}_${occ.instanceKey}`),
-        }));
-      });
+        }))
+      );
 
       return allOccurrences.sort(
         (a: (typeof allOccurrences)[number], b: (typeof allOccurrences)[number]) =>
@@ -307,6 +408,25 @@ export const recurringRouter = router({
       );
     }),
 
+  /**
+   * Link real transactions to the occurrences of a month they pay
+   */
+  reconcile: protectedProcedure
+    .input(
+      z.object({
+        year: z.number(),
+        month: z.number().min(1).max(12),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      return reconcileRecurringTransactions(
+        ctx.prisma,
+        ctx.householdId,
+        new Date(input.year, input.month - 1, 1),
+        new Date(input.year, input.month, 0, 23, 59, 59, 999)
+      );
+    }),
+
   /**
    * Create an override for a specific occurrence
    */
@@ -337,6 +457,7 @@ export const recurringRouter = router({
 
   /**
    * Generate missing occurrences as actual transactions
+   * Occurrences a real transaction already paid are linked to it instead
    */
   generateOccurrences: protectedProcedure
     .input(
@@ -372,6 +493,14 @@ export const recurringRouter = router({
         throw new Error('No active account found');
       }
 
+      // Real payments take their occurrence's instance key, so no duplicate is generated
+      const { linked } = await reconcileRecurringTransactions(
+        ctx.prisma,
+        ctx.householdId,
+        new Date(input.upToDate.getFullYear(), input.upToDate.getMonth(), 1),
+        input.upToDate
+      );
+
       let createdCount = 0;
 
       for (const template of templates) {
@@ -438,7 +567,7 @@ export const recurringRouter = router({
         }
       }
 
-      return { created: createdCount };
+      return { created: createdCount, linked };
     }),
 
   /**
@@ -462,6 +591,7 @@ export const recurringRouter = router({
           direction: { in: ['income', 'expense'] },
           isRecurringInstance: false, // Exclude existing recurring instances
         },
+        include: { merchantEntity: { select: { name: true } } },
         orderBy: { date: 'desc' },
       });
 
@@ -496,6 +626,8 @@ export const recurringRouter = router({
         date: tx.date,
         description: tx.description,
         merchant: tx.merchant,
+        merchantId: tx.merchantId,
+        merchantName: tx.merchantEntity?.name ?? null,
         amount: tx.amount,
         direction: tx.direction as 'income' | 'expense' | 'transfer',
       }));
@@ -1,10 +1,161 @@
-import { createCategoryRuleSchema } from '@sfam/domain/schemas';
+import type { PrismaClient } from '@sfam/db';
+import {
+  type CategoryRule,
+  type RuleAction,
+  type TransactionDirection,
+  analyzeRules,
+  applyRuleActions,
+  matchCategoryRules,
+  mineCorrections,
+  parseRuleActions,
+  parseRuleConditions,
+  parseRuleProposalEvidence,
+  parseRuleProposalPayload,
+  previewRule,
+  ruleMatchesTransaction,
+} from '@sfam/domain';
+import {
+  createCategoryRuleSchema,
+  ruleActionsSchema,
+  ruleConditionsSchema,
+  transactionDirectionSchema,
+} from '@sfam/domain/schemas';
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
 import { protectedProcedure, router } from '../trpc';
 
+// A saved rule by id, or an unsaved draft from the rule form
+const ruleTargetSchema = z.object({
+  ruleId: z.string().optional(),
+  draft: createCategoryRuleSchema.optional(),
+});
+
+// Helper to load the household's rules in domain form, plus the rule being previewed
+async function loadRuleTarget(
+  prisma: PrismaClient,
+  householdId: string,
+  target: z.infer<typeof ruleTargetSchema>
+) {
+  const rulesRaw = await prisma.categoryRule.findMany({ where: { householdId } });
+  const rules: CategoryRule[] = rulesRaw.map((r) => ({
+    ...r,
+    type: r.type as CategoryRule['type'],
+    conditions: parseRuleConditions(r.conditions),
+    actions: parseRuleActions(r.actions),
+  }));
+
+  if (target.ruleId) {
+    const rule = rules.find((r) => r.id === target.ruleId);
+    if (!rule) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Rule not found' });
+    }
+    return { rule, rules };
+  }
+
+  if (!target.draft) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Pass a rule id or a draft rule' });
+  }
+
+  if (target.draft.categoryId) {
+    const category = await prisma.category.findFirst({
+      where: { id: target.draft.categoryId, householdId },
+    });
+    if (!category) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Category not found' });
+    }
+  }
+
+  const rule: CategoryRule = {
+    id: '',
+    householdId,
+    ...target.draft,
+    pattern: target.draft.pattern.trim(),
+    priority: target.draft.priority ?? 5,
+    isActive: true,
+  };
+  return { rule, rules };
+}
+
+/**
+ * Mine the household's corrections and queue the resulting rule proposals
+ * Pending proposals are refreshed with the latest evidence, or dropped once it no longer
+ * holds. Approved and dismissed proposals are left alone, so they are not proposed again.
+ * Runs from the daily cron and on demand from the rules page.
+ */
+export async function queueRuleProposals(prisma: PrismaClient, householdId: string) {
+  const [rulesRaw, corrections, existing] = await Promise.all([
+    prisma.categoryRule.findMany({ where: { householdId } }),
+    prisma.userCorrection.findMany({
+      where: { transaction: { householdId } },
+      include: {
+        transaction: {
+          select: {
+            description: true,
+            merchant: true,
+            merchantId: true,
+            amount: true,
+            direction: true,
+            accountId: true,
+            date: true,
+          },
+        },
+      },
+    }),
+    prisma.ruleProposal.findMany({ where: { householdId }, select: { key: true, status: true } }),
+  ]);
+
+  const proposals = mineCorrections(
+    corrections.map((c) => ({
+      ...c.transaction,
+      direction: c.transaction.direction as TransactionDirection,
+      transactionId: c.transactionId,
+      toCategoryId: c.toCategoryId,
+      ruleId: c.ruleId,
+      createdAt: c.createdAt,
+    })),
+    rulesRaw.map((r) => ({
+      ...r,
+      type: r.type as CategoryRule['type'],
+      conditions: parseRuleConditions(r.conditions),
+      actions: parseRuleActions(r.actions),
+    }))
+  );
+
+  const statusByKey = new Map(existing.map((p) => [p.key, p.status]));
+  const toSave = proposals.filter((p) => (statusByKey.get(p.key) ?? 'pending') === 'pending');
+  const stale = existing
+    .filter((p) => p.status === 'pending' && !proposals.some((proposal) => proposal.key === p.key))
+    .map((p) => p.key);
+
+  await prisma.$transaction([
+    prisma.ruleProposal.deleteMany({ where: { householdId, key: { in: stale } } }),
+    ...toSave.map((proposal) => {
+      const data = {
+        kind: proposal.kind,
+        ruleId: proposal.ruleId ?? null,
+        payload: JSON.stringify(proposal.payload),
+        evidence: JSON.stringify(proposal.evidence),
+        reason: proposal.reason,
+      };
+      return prisma.ruleProposal.upsert({
+        where: { householdId_key: { householdId, key: proposal.key } },
+        create: { householdId, key: proposal.key, ...data },
+        update: data,
+      });
+    }),
+  ]);
+
+  return {
+    queued: toSave.filter((p) => !statusByKey.has(p.key)).length,
+    pending: toSave.length,
+    removed: stale.length,
+  };
+}
+
 export const rulesRouter = router({
   /**
-   * List all rules
+   * List all rules with their hit statistics
+   * `overrideRate` is the share of the rule's matches that a user later recategorized
    */
   list: protectedProcedure
     .input(
@@ -13,6 +164,9 @@ export const rulesRouter = router({
           categoryId: z.string().optional(),
           type: z.enum(['merchant', 'keyword', 'regex']).optional(),
           includeInactive: z.boolean().default(false),
+          sortBy: z
+            .enum(['priority', 'matchCount', 'lastMatchedAt', 'overrideRate'])
+            .default('priority'),
         })
         .optional()
     )
@@ -33,13 +187,36 @@ export const rulesRouter = router({
         where.isActive = true;
       }
 
-      return ctx.prisma.categoryRule.findMany({
+      const rules = await ctx.prisma.categoryRule.findMany({
         where,
         include: {
           category: true,
+          _count: { select: { corrections: true } },
         },
         orderBy: [{ priority: 'desc' }, { createdAt: 'desc' }],
       });
+
+      const withStats = rules.map(({ _count, ...rule }) => ({
+        ...rule,
+        conditions: parseRuleConditions(rule.conditions),
+        actions: parseRuleActions(rule.actions),
+        overrideCount: _count.corrections,
+        overrideRate: rule.matchCount > 0 ? Math.min(_count.corrections / rule.matchCount, 1) : 0,
+      }));
+
+      // Database order (priority) is the default; the others are sorted high to low
+      switch (input?.sortBy) {
+        case 'matchCount':
+          return withStats.sort((a, b) => b.matchCount - a.matchCount);
+        case 'lastMatchedAt':
+          return withStats.sort(
+            (a, b) => (b.lastMatchedAt?.getTime() ?? 0) - (a.lastMatchedAt?.getTime() ?? 0)
+          );
+        case 'overrideRate':
+          return withStats.sort((a, b) => b.overrideRate - a.overrideRate);
+        default:
+          return withStats;
+      }
     }),
 
   /**
@@ -63,7 +240,9 @@ export const rulesRouter = router({
         householdId: ctx.householdId,
         categoryId: input.categoryId,
         type: input.type,
-        pattern: input.pattern,
+        pattern: input.pattern.trim(),
+        conditions: input.conditions ? JSON.stringify(input.conditions) : null,
+        actions: input.actions?.length ? JSON.stringify(input.actions) : null,
         priority: input.priority ?? 5,
         isActive: true,
         createdFrom: 'manual',
@@ -82,17 +261,29 @@ export const rulesRouter = router({
       z.object({
         id: z.string(),
         data: z.object({
-          categoryId: z.string().optional(),
+          categoryId: z.string().nullable().optional(),
           pattern: z.string().optional(),
+          conditions: ruleConditionsSchema.nullable().optional(),
+          actions: ruleActionsSchema.nullable().optional(),
           priority: z.number().optional(),
           isActive: z.boolean().optional(),
         }),
       })
     )
     .mutation(async ({ ctx, input }) => {
+      const { conditions, actions, ...data } = input.data;
+
       return ctx.prisma.categoryRule.update({
         where: { id: input.id, householdId: ctx.householdId },
-        data: input.data,
+        data: {
+          ...data,
+          ...(conditions !== undefined && {
+            conditions: conditions ? JSON.stringify(conditions) : null,
+          }),
+          ...(actions !== undefined && {
+            actions: actions?.length ? JSON.stringify(actions) : null,
+          }),
+        },
         include: {
           category: true,
         },
@@ -130,7 +321,9 @@ export const rulesRouter = router({
   }),
 
   /**
-   * Test a rule against sample text
+   * Test a rule against a sample transaction
+   * The sample text is checked as both description and merchant; the sample defaults to a
+   * 0₪ expense, and account or date conditions do not match when those are left out
    */
   test: protectedProcedure
     .input(
@@ -138,32 +331,161 @@ export const rulesRouter = router({
         type: z.enum(['merchant', 'keyword', 'regex']),
         pattern: z.string(),
         testText: z.string(),
+        conditions: ruleConditionsSchema.nullable().optional(),
+        amount: z.number().min(0).optional(),
+        direction: transactionDirectionSchema.optional(),
+        accountId: z.string().optional(),
+        date: z.coerce.date().optional(),
       })
     )
     .query(({ input }) => {
-      const textLower = input.testText.toLowerCase();
-      const patternLower = input.pattern.toLowerCase();
-
-      let matches = false;
-
-      switch (input.type) {
-        case 'merchant':
-        case 'keyword':
-          matches = textLower.includes(patternLower);
-          break;
-        case 'regex':
-          try {
-            const regex = new RegExp(input.pattern, 'i');
-            matches = regex.test(input.testText);
-          } catch {
-            return { matches: false, error: 'Invalid regex pattern' };
-          }
-          break;
+      if (input.type === 'regex') {
+        try {
+          new RegExp(input.pattern, 'i');
+        } catch {
+          return { matches: false, error: 'Invalid regex pattern' };
+        }
       }
 
+      const matches = ruleMatchesTransaction(
+        { type: input.type, pattern: input.pattern, conditions: input.conditions },
+        {
+          description: input.testText,
+          merchant: input.testText,
+          amount: input.amount ?? 0,
+          direction: input.direction ?? 'expense',
+          accountId: input.accountId,
+          date: input.date,
+        }
+      );
+
       return { matches };
     }),
 
+  /**
+   * Dry-run a saved or draft rule against the household's transactions
+   * Each match carries its current category and the rule that would shadow it, if any.
+   * Ignored transactions are left out; at most `limit` matches are returned, newest first
+   */
+  preview: protectedProcedure
+    .input(
+      ruleTargetSchema.extend({
+        since: z.coerce.date().optional(),
+        limit: z.number().int().min(1).max(1000).default(200),
+      })
+    )
+    .query(async ({ ctx, input }) => {
+      const { rule, rules } = await loadRuleTarget(ctx.prisma, ctx.householdId, input);
+
+      const transactions = await ctx.prisma.transaction.findMany({
+        where: {
+          householdId: ctx.householdId,
+          isIgnored: false,
+          ...(input.since && { date: { gte: input.since } }),
+        },
+        include: { category: true, account: { select: { id: true, name: true } } },
+        orderBy: { date: 'desc' },
+      });
+
+      const matches = previewRule(
+        rule,
+        transactions.map((t) => ({ ...t, direction: t.direction as TransactionDirection })),
+        rules
+      ).map(({ transaction, shadowedBy }) => ({
+        transaction,
+        isManual: transaction.categorizationSource === 'manual',
+        wouldChange: !!rule.categoryId && transaction.categoryId !== rule.categoryId,
+        shadowedBy: shadowedBy && {
+          id: shadowedBy.id,
+          type: shadowedBy.type,
+          pattern: shadowedBy.pattern,
+          priority: shadowedBy.priority,
+        },
+      }));
+
+      return {
+        setsCategory: !!rule.categoryId,
+        matches: matches.slice(0, input.limit),
+        totalMatches: matches.length,
+        manualCount: matches.filter((m) => m.isManual).length,
+        shadowedCount: matches.filter((m) => m.shadowedBy).length,
+        changeCount: matches.filter((m) => m.wouldChange && !m.isManual).length,
+      };
+    }),
+
+  /**
+   * Apply a saved or draft rule to chosen transactions from its preview
+   * Sets the rule's category and runs its actions. Transactions that no longer match, and
+   * anything categorized by hand, are skipped
+   */
+  applyRetroactive: protectedProcedure
+    .input(
+      ruleTargetSchema.extend({
+        transactionIds: z.array(z.string()).min(1).max(1000),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const { rule } = await loadRuleTarget(ctx.prisma, ctx.householdId, input);
+
+      const transactions = await ctx.prisma.transaction.findMany({
+        where: { id: { in: input.transactionIds }, householdId: ctx.householdId },
+      });
+
+      const updates = [];
+      let skippedManual = 0;
+      let matched = 0;
+
+      for (const transaction of transactions) {
+        if (transaction.categorizationSource === 'manual') {
+          skippedManual++;
+          continue;
+        }
+
+        const txInput = {
+          ...transaction,
+          direction: transaction.direction as TransactionDirection,
+        };
+        if (!ruleMatchesTransaction(rule, txInput)) continue;
+
+        const candidate = { ...rule, isActive: true };
+        const { ruleIds, ...ruleChanges } = applyRuleActions(txInput, [candidate]);
+        const result = rule.categoryId ? matchCategoryRules(txInput, [candidate]) : null;
+        if (result || ruleIds.length > 0) matched++;
+
+        updates.push(
+          ctx.prisma.transaction.update({
+            where: { id: transaction.id, householdId: ctx.householdId },
+            data: {
+              ...ruleChanges,
+              ...(result && {
+                categoryId: result.categoryId,
+                ruleId: rule.id || null, // Drafts aren't saved, so there is no rule to credit
+                categorizationSource: result.source,
+                confidence: result.confidence,
+                needsReview: ruleChanges.needsReview ?? false,
+              }),
+            },
+          })
+        );
+      }
+
+      await ctx.prisma.$transaction(updates);
+
+      // Action-only rules count too: running their actions is a match
+      if (rule.id && matched > 0) {
+        await ctx.prisma.categoryRule.update({
+          where: { id: rule.id },
+          data: { matchCount: { increment: matched }, lastMatchedAt: new Date() },
+        });
+      }
+
+      return {
+        updated: updates.length,
+        skippedManual,
+        skipped: transactions.length - updates.length - skippedManual,
+      };
+    }),
+
   /**
    * Clear all rules (delete all rules for the household)
    */
@@ -207,6 +529,271 @@ export const rulesRouter = router({
       return { updated: result.count };
     }),
 
+  /**
+   * Analyze active rules for dead, shadowed, duplicate, invalid and slow rules
+   * Match history covers the last `deadAfterMonths` months of non-ignored transactions
+   */
+  analyze: protectedProcedure
+    .input(z.object({ deadAfterMonths: z.number().int().min(1).max(36).default(6) }).optional())
+    .query(async ({ ctx, input }) => {
+      const deadAfterMonths = input?.deadAfterMonths ?? 6;
+      const now = new Date();
+      const since = new Date(now);
+      since.setMonth(since.getMonth() - deadAfterMonths);
+
+      const [rulesRaw, transactions] = await Promise.all([
+        ctx.prisma.categoryRule.findMany({
+          where: { householdId: ctx.householdId, isActive: true },
+          include: { category: true },
+          orderBy: [{ priority: 'desc' }, { createdAt: 'asc' }],
+        }),
+        ctx.prisma.transaction.findMany({
+          where: { householdId: ctx.householdId, isIgnored: false, date: { gte: since } },
+          select: {
+            description: true,
+            merchant: true,
+            merchantId: true,
+            amount: true,
+            direction: true,
+            accountId: true,
+            date: true,
+          },
+        }),
+      ]);
+
+      const rules = rulesRaw.map((r) => ({
+        ...r,
+        type: r.type as CategoryRule['type'],
+        conditions: parseRuleConditions(r.conditions),
+        actions: parseRuleActions(r.actions),
+      }));
+
+      const findings = analyzeRules(
+        rules,
+        transactions.map((t) => ({ ...t, direction: t.direction as TransactionDirection })),
+        now,
+        { deadAfterMonths }
+      );
+
+      const summarize = (id?: string) => {
+        const rule = rules.find((r) => r.id === id);
+        return (
+          rule && {
+            id: rule.id,
+            type: rule.type,
+            pattern: rule.pattern,
+            priority: rule.priority,
+            createdFrom: rule.createdFrom,
+            category: rule.category,
+          }
+        );
+      };
+
+      return findings.map((finding) => ({
+        ...finding,
+        rule: summarize(finding.ruleId),
+        otherRule: summarize(finding.otherRuleId) ?? null,
+      }));
+    }),
+
+  /**
+   * Merge one rule into another and delete it
+   * The kept rule keeps its pattern, conditions and category (taking the removed rule's
+   * category if it had none), gains the removed rule's actions and the higher priority.
+   * Hit statistics, matched transactions and corrections carry over to the kept rule
+   */
+  merge: protectedProcedure
+    .input(z.object({ keepId: z.string(), removeId: z.string() }))
+    .mutation(async ({ ctx, input }) => {
+      if (input.keepId === input.removeId) {
+        throw new TRPCError({ code: 'BAD_REQUEST', message: 'Cannot merge a rule into itself' });
+      }
+
+      const [keep, remove] = await Promise.all(
+        [input.keepId, input.removeId].map((id) =>
+          ctx.prisma.categoryRule.findFirst({ where: { id, householdId: ctx.householdId } })
+        )
+      );
+      if (!keep || !remove) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Rule not found' });
+      }
+
+      // Keep the kept rule's action of each type; notes are combined
+      const actions: RuleAction[] = parseRuleActions(keep.actions) ?? [];
+      for (const action of parseRuleActions(remove.actions) ?? []) {
+        const exists = actions.some((a) =>
+          action.type === 'append_note'
+            ? a.type === 'append_note' && a.value === action.value
+            : a.type === action.type
+        );
+        if (!exists) actions.push(action);
+      }
+
+      const [merged] = await ctx.prisma.$transaction([
+        ctx.prisma.categoryRule.update({
+          where: { id: keep.id },
+          data: {
+            categoryId: keep.categoryId ?? remove.categoryId,
+            actions: actions.length ? JSON.stringify(actions) : null,
+            priority: Math.max(keep.priority, remove.priority),
+            matchCount: keep.matchCount + remove.matchCount,
+            lastMatchedAt:
+              (keep.lastMatchedAt?.getTime() ?? 0) >= (remove.lastMatchedAt?.getTime() ?? 0)
+                ? keep.lastMatchedAt
+                : remove.lastMatchedAt,
+          },
+          include: { category: true },
+        }),
+        ctx.prisma.transaction.updateMany({
+          where: { ruleId: remove.id },
+          data: { ruleId: keep.id },
+        }),
+        ctx.prisma.userCorrection.updateMany({
+          where: { ruleId: remove.id },
+          data: { ruleId: keep.id },
+        }),
+        ctx.prisma.categoryRule.delete({ where: { id: remove.id } }),
+      ]);
+
+      return merged;
+    }),
+
+  /**
+   * List pending rule proposals with their evidence
+   * Example transactions and the categories involved are resolved for display
+   */
+  proposals: protectedProcedure.query(async ({ ctx }) => {
+    const proposals = await ctx.prisma.ruleProposal.findMany({
+      where: { householdId: ctx.householdId, status: 'pending' },
+      include: { rule: { include: { category: true } } },
+      orderBy: { createdAt: 'desc' },
+    });
+
+    const parsed = proposals.map(({ payload, evidence, ...proposal }) => ({
+      ...proposal,
+      payload: parseRuleProposalPayload(payload),
+      evidence: parseRuleProposalEvidence(evidence),
+    }));
+
+    const categoryIds = parsed.flatMap((p) =>
+      [p.payload.rule?.categoryId, p.evidence?.topCategoryId].filter((id): id is string => !!id)
+    );
+    const transactionIds = parsed.flatMap((p) => p.evidence?.transactionIds ?? []);
+    const [categories, transactions] = await Promise.all([
+      ctx.prisma.category.findMany({
+        where: { householdId: ctx.householdId, id: { in: categoryIds } },
+        select: { id: true, name: true, icon: true },
+      }),
+      ctx.prisma.transaction.findMany({
+        where: { householdId: ctx.householdId, id: { in: transactionIds } },
+        select: {
+          id: true,
+          date: true,
+          description: true,
+          merchant: true,
+          amount: true,
+          category: { select: { name: true, icon: true } },
+        },
+        orderBy: { date: 'desc' },
+      }),
+    ]);
+    const categoryById = new Map(categories.map((c) => [c.id, c]));
+
+    return parsed.map((proposal) => ({
+      ...proposal,
+      category: categoryById.get(proposal.payload.rule?.categoryId ?? '') ?? null,
+      topCategory: categoryById.get(proposal.evidence?.topCategoryId ?? '') ?? null,
+      transactions: transactions.filter((t) => proposal.evidence?.transactionIds.includes(t.id)),
+    }));
+  }),
+
+  /**
+   * Mine corrections for new proposals now instead of waiting for the daily job
+   */
+  mineProposals: protectedProcedure.mutation(async ({ ctx }) => {
+    return queueRuleProposals(ctx.prisma, ctx.householdId);
+  }),
+
+  /**
+   * Approve a proposal: create the rule, lower the rule's priority or deactivate it
+   */
+  approveProposal: protectedProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    const proposal = await ctx.prisma.ruleProposal.findFirst({
+      where: { id: input, householdId: ctx.householdId },
+    });
+    if (!proposal) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Proposal not found' });
+    }
+    if (proposal.status !== 'pending') {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Proposal was already resolved' });
+    }
+
+    const payload = parseRuleProposalPayload(proposal.payload);
+    const resolve = ctx.prisma.ruleProposal.update({
+      where: { id: proposal.id },
+      data: { status: 'approved', resolvedAt: new Date() },
+    });
+
+    if (proposal.kind === 'create_rule') {
+      const rule = payload.rule;
+      const category =
+        rule &&
+        (await ctx.prisma.category.findFirst({
+          where: { id: rule.categoryId, householdId: ctx.householdId },
+        }));
+      if (!rule || !category) {
+        throw new TRPCError({
+          code: 'BAD_REQUEST',
+          message: 'The proposed category no longer exists',
+        });
+      }
+
+      const [created] = await ctx.prisma.$transaction([
+        ctx.prisma.categoryRule.create({
+          data: {
+            householdId: ctx.householdId,
+            categoryId: rule.categoryId,
+            type: rule.type,
+            pattern: rule.pattern,
+            priority: 10,
+            createdFrom: 'correction',
+          },
+        }),
+        resolve,
+      ]);
+      return { ruleId: created.id };
+    }
+
+    if (!proposal.ruleId) {
+      throw new TRPCError({ code: 'BAD_REQUEST', message: 'Proposal has no rule' });
+    }
+    await ctx.prisma.$transaction([
+      ctx.prisma.categoryRule.update({
+        where: { id: proposal.ruleId, householdId: ctx.householdId },
+        data:
+          proposal.kind === 'lower_priority' && payload.priority !== undefined
+            ? { priority: payload.priority }
+            : { isActive: false },
+      }),
+      resolve,
+    ]);
+    return { ruleId: proposal.ruleId };
+  }),
+
+  /**
+   * Dismiss a proposal; the same proposal is not queued again
+   */
+  dismissProposal: protectedProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    const result = await ctx.prisma.ruleProposal.updateMany({
+      where: { id: input, householdId: ctx.householdId, status: 'pending' },
+      data: { status: 'dismissed', resolvedAt: new Date() },
+    });
+    if (result.count === 0) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Proposal not found' });
+    }
+    return { success: true };
+  }),
+
   /**
    * Get rules with broken category references (category was deleted)
    */
@@ -215,7 +802,7 @@ export const rulesRouter = router({
       where: { householdId: ctx.householdId },
       include: { category: true },
     });
-    // Filter rules where category is null (category was deleted)
-    return rules.filter((rule) => !rule.category);
+    // Filter rules whose category is gone (action-only rules have no category)
+    return rules.filter((rule) => rule.categoryId && !rule.category);
   }),
 });
@@ -1,10 +1,40 @@
-import { categorizeTransaction } from '@sfam/domain';
+import type { Prisma, PrismaClient } from '@sfam/db';
 import {
+  type AIExample,
+  type Merchant,
+  type RuleActionChanges,
+  type TransactionInput,
+  applyRuleActions,
+  categorizeTransaction,
+  categorizeTransactions,
+  detectTransferPairs,
+  parseMerchantTextList,
+  parseRuleActions,
+  parseRuleConditions,
+  resolveAIProvider,
+  resolveMerchant,
+  validateSplits,
+} from '@sfam/domain';
+import {
+  type TransactionSplitSchema,
   createTransactionSchema,
+  setTransactionSplitsSchema,
   transactionFiltersSchema,
+  transactionSplitSchema,
   updateTransactionSchema,
 } from '@sfam/domain/schemas';
+import {
+  type MappedTransaction,
+  type StatementRowError,
+  csvColumnMappingSchema,
+  generateTransactionHash,
+  parseStatement,
+  statementDateFormatSchema,
+  statementFormatSchema,
+} from '@sfam/scraper';
+import { TRPCError } from '@trpc/server';
 import { z } from 'zod';
+import { forgetAISuggestions, withAICache } from '../lib/ai-cache';
 import { protectedProcedure, router } from '../trpc';
 
 /**
@@ -25,6 +55,320 @@ const extractKeyword = (description: string): string | null => {
   return words.sort((a, b) => b.length - a.length)[0] ?? null;
 };
 
+/**
+ * Credit rule matches from one batch of categorizations to their rules
+ * Rules deleted in the meantime are skipped
+ */
+async function recordRuleMatches(prisma: PrismaClient, ruleIds: Array<string | null | undefined>) {
+  const counts = new Map<string, number>();
+  for (const id of ruleIds) {
+    if (id) counts.set(id, (counts.get(id) ?? 0) + 1);
+  }
+
+  const now = new Date();
+  await Promise.all(
+    [...counts].map(([id, count]) =>
+      prisma.categoryRule.updateMany({
+        where: { id },
+        data: { matchCount: { increment: count }, lastMatchedAt: now },
+      })
+    )
+  );
+}
+
+/**
+ * Record manual category changes as user corrections
+ * Each correction names the rule whose category was overridden, which feeds the rule's
+ * override rate. Rows already in the target category are not corrections. Stored AI answers
+ * for the corrected merchants are dropped so they are not applied again.
+ */
+async function recordCorrections(
+  prisma: PrismaClient,
+  householdId: string,
+  userId: string,
+  transactions: Array<{
+    id: string;
+    categoryId: string | null;
+    ruleId: string | null;
+    description: string;
+    merchant: string | null;
+    direction: string;
+  }>,
+  toCategoryId: string,
+  createdRuleId?: string
+) {
+  const corrected = transactions.filter((t) => t.categoryId !== toCategoryId);
+  if (corrected.length === 0) return;
+
+  await forgetAISuggestions(prisma, householdId, corrected);
+  await prisma.userCorrection.createMany({
+    data: corrected.map((t) => ({
+      userId,
+      transactionId: t.id,
+      fromCategoryId: t.categoryId,
+      toCategoryId,
+      ruleId: t.ruleId,
+      createdRuleId,
+    })),
+  });
+}
+
+/**
+ * Check splits against the amount they divide; their categories must belong to the household
+ */
+async function assertValidSplits(
+  prisma: PrismaClient,
+  householdId: string,
+  amount: number,
+  splits: TransactionSplitSchema[]
+) {
+  if (splits.length === 0) return;
+
+  const validation = validateSplits(amount, splits);
+  if (!validation.valid) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: validation.error });
+  }
+
+  const categoryIds = [
+    ...new Set(splits.map((s) => s.categoryId).filter((id): id is string => !!id)),
+  ];
+  const categoryCount = await prisma.category.count({
+    where: { id: { in: categoryIds }, householdId },
+  });
+  if (categoryCount !== categoryIds.length) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'Category not found' });
+  }
+}
+
+/**
+ * Replace a transaction's splits; an empty list removes them
+ */
+async function replaceSplits(
+  tx: Prisma.TransactionClient,
+  transactionId: string,
+  splits: TransactionSplitSchema[]
+) {
+  await tx.transactionSplit.deleteMany({ where: { transactionId } });
+
+  if (splits.length === 0) return;
+
+  await tx.transactionSplit.createMany({
+    data: splits.map((split) => ({
+      transactionId,
+      categoryId: split.categoryId ?? null,
+      amount: split.amount,
+      notes: split.notes ?? null,
+    })),
+  });
+
+  // Splitting is a manual categorization decision
+  await tx.transaction.update({
+    where: { id: transactionId },
+    data: { categorizationSource: 'manual', confidence: 1, needsReview: false },
+  });
+}
+
+const statementImportSchema = z.object({
+  accountId: z.string(),
+  format: statementFormatSchema,
+  content: z.string().min(1),
+  csvMapping: csvColumnMappingSchema.optional(),
+  dateFormat: statementDateFormatSchema.optional(),
+});
+
+// An import answers in one AI request: up to this many merchants, the rest stay in review
+// for Auto-Categorize instead of holding the request open for one model call per batch
+const IMPORT_AI_MERCHANT_LIMIT = 50;
+
+// Recent transactions the household has settled on, used as few-shot examples for the AI
+const AI_HISTORY_LIMIT = 1000;
+
+async function loadAIHistory(prisma: PrismaClient, householdId: string): Promise<AIExample[]> {
+  const rows = await prisma.transaction.findMany({
+    where: { householdId, categoryId: { not: null }, isIgnored: false, needsReview: false },
+    select: { description: true, merchant: true, amount: true, direction: true, categoryId: true },
+    orderBy: { date: 'desc' },
+    take: AI_HISTORY_LIMIT,
+  });
+  return rows.flatMap((row) =>
+    row.categoryId && (row.direction === 'income' || row.direction === 'expense')
+      ? [{ ...row, direction: row.direction, categoryId: row.categoryId }]
+      : []
+  );
+}
+
+// Household merchants, to resolve merchant text to and for their default categories
+async function loadMerchants(prisma: PrismaClient, householdId: string): Promise<Merchant[]> {
+  const rows = await prisma.merchant.findMany({ where: { householdId } });
+  return rows.map((row) => ({
+    ...row,
+    aliases: parseMerchantTextList(row.aliases),
+    patterns: parseMerchantTextList(row.patterns),
+  }));
+}
+
+/**
+ * Parse a statement file and split its rows into new, duplicate and unparseable
+ * Duplicates are detected by externalId, then by generateTransactionHash over the
+ * account's existing transactions in the file's date range
+ */
+async function classifyStatementRows(
+  ctx: { prisma: PrismaClient; householdId: string },
+  input: z.infer<typeof statementImportSchema>
+): Promise<{
+  newTransactions: MappedTransaction[];
+  duplicates: MappedTransaction[];
+  errors: StatementRowError[];
+}> {
+  const account = await ctx.prisma.account.findFirst({
+    where: { id: input.accountId, householdId: ctx.householdId },
+  });
+  if (!account) {
+    throw new TRPCError({ code: 'NOT_FOUND', message: 'Account not found' });
+  }
+
+  if (input.format === 'csv' && !input.csvMapping) {
+    throw new TRPCError({ code: 'BAD_REQUEST', message: 'CSV import requires a column mapping' });
+  }
+
+  const parsed = parseStatement(input.format, input.content, {
+    accountId: account.id,
+    csvMapping: input.csvMapping,
+    dateFormat: input.dateFormat,
+  });
+
+  if (parsed.transactions.length === 0) {
+    return { newTransactions: [], duplicates: [], errors: parsed.errors };
+  }
+
+  const times = parsed.transactions.map((t) => t.date.getTime());
+  const DAY_MS = 24 * 60 * 60 * 1000;
+  const existing = await ctx.prisma.transaction.findMany({
+    where: {
+      accountId: account.id,
+      date: {
+        gte: new Date(Math.min(...times) - DAY_MS),
+        lte: new Date(Math.max(...times) + DAY_MS),
+      },
+    },
+    select: {
+      externalId: true,
+      date: true,
+      description: true,
+      amount: true,
+      direction: true,
+      preTransferDirection: true,
+    },
+  });
+
+  const existingIds = new Set(existing.map((t) => t.externalId).filter(Boolean));
+
+  // Count existing rows per content hash so repeated identical rows are matched one-to-one
+  const existingHashes = new Map<string, number>();
+  for (const tx of existing) {
+    const hash = generateTransactionHash({
+      externalId: '',
+      date: tx.date,
+      description: tx.description,
+      merchant: null,
+      amount: tx.amount,
+      direction: (tx.preTransferDirection ?? tx.direction) as 'income' | 'expense',
+      notes: null,
+      externalAccountId: account.id,
+    });
+    existingHashes.set(hash, (existingHashes.get(hash) ?? 0) + 1);
+  }
+
+  const newTransactions: MappedTransaction[] = [];
+  const duplicates: MappedTransaction[] = [];
+
+  for (const txn of parsed.transactions) {
+    if (existingIds.has(txn.externalId)) {
+      duplicates.push(txn);
+      continue;
+    }
+
+    const hash = generateTransactionHash(txn);
+    const remaining = existingHashes.get(hash) ?? 0;
+    if (remaining > 0) {
+      existingHashes.set(hash, remaining - 1);
+      duplicates.push(txn);
+      continue;
+    }
+
+    newTransactions.push(txn);
+  }
+
+  return { newTransactions, duplicates, errors: parsed.errors };
+}
+
+/**
+ * Detect transfers between the household's accounts since a date and pair them
+ * Both legs get direction 'transfer' with status 'detected' until the user confirms them.
+ * Runs after bank sync and from `transactions.detectTransfers`.
+ */
+export async function pairHouseholdTransfers(
+  prisma: PrismaClient,
+  householdId: string,
+  since: Date
+) {
+  const candidates = await prisma.transaction.findMany({
+    where: {
+      householdId,
+      date: { gte: since },
+      direction: { in: ['income', 'expense'] },
+      isIgnored: false,
+      isRecurringInstance: false,
+      transferPeerId: null,
+    },
+    select: {
+      id: true,
+      accountId: true,
+      date: true,
+      description: true,
+      merchant: true,
+      amount: true,
+      direction: true,
+    },
+  });
+
+  // Pairs the user broke are not suggested again
+  const rejectedPairs = await prisma.transferRejection.findMany({
+    where: { outgoingId: { in: candidates.map((tx) => tx.id) } },
+    select: { outgoingId: true, incomingId: true },
+  });
+
+  const pairs = detectTransferPairs(
+    candidates.map((tx) => ({ ...tx, direction: tx.direction as 'income' | 'expense' })),
+    { rejectedPairs }
+  );
+
+  for (const pair of pairs) {
+    await prisma.$transaction([
+      prisma.transaction.update({
+        where: { id: pair.outgoingId },
+        data: {
+          direction: 'transfer',
+          preTransferDirection: 'expense',
+          transferStatus: 'detected',
+          transferPeerId: pair.incomingId,
+        },
+      }),
+      prisma.transaction.update({
+        where: { id: pair.incomingId },
+        data: {
+          direction: 'transfer',
+          preTransferDirection: 'income',
+          transferStatus: 'detected',
+          transferPeerId: pair.outgoingId,
+        },
+      }),
+    ]);
+  }
+
+  return { paired: pairs.length };
+}
+
 export const transactionsRouter = router({
   /**
    * List transactions with filters
@@ -93,11 +437,17 @@ export const transactionsRouter = router({
           select: { id: true, name: true, icon: true, color: true, type: true },
         },
         account: {
-          select: { id: true, name: true },
+          select: { id: true, name: true, currency: true },
         },
         template: {
           select: { id: true, name: true, frequency: true },
         },
+        splits: {
+          include: { category: { select: { id: true, name: true, icon: true, color: true } } },
+        },
+        transferPeer: {
+          select: { id: true, date: true, amount: true, account: { select: { name: true } } },
+        },
       },
       orderBy: [{ date: 'desc' }, { id: 'desc' }], // Secondary sort by ID for stable ordering
       take: input.limit + 1, // Fetch one extra to check if there's more
@@ -119,8 +469,21 @@ export const transactionsRouter = router({
         typeof ctx.prisma.transaction.findFirst<{
           include: {
             category: { select: { id: true; name: true; icon: true; color: true; type: true } };
-            account: { select: { id: true; name: true } };
+            account: { select: { id: true; name: true; currency: true } };
             template: { select: { id: true; name: true; frequency: true } };
+            splits: {
+              include: {
+                category: { select: { id: true; name: true; icon: true; color: true } };
+              };
+            };
+            transferPeer: {
+              select: {
+                id: true;
+                date: true;
+                amount: true;
+                account: { select: { name: true } };
+              };
+            };
           };
         }>
       >
@@ -239,6 +602,7 @@ export const transactionsRouter = router({
         category: true,
         account: true,
         template: true,
+        splits: { include: { category: true } },
       },
     });
   }),
@@ -248,7 +612,7 @@ export const transactionsRouter = router({
    */
   create: protectedProcedure.input(createTransactionSchema).mutation(async ({ ctx, input }) => {
     // Parallelize all initial database queries
-    const [account, rulesRaw, categoriesRaw] = await Promise.all([
+    const [account, rulesRaw, categoriesRaw, merchants] = await Promise.all([
       // Validate account exists and belongs to household
       ctx.prisma.account.findFirst({
         where: { id: input.accountId, householdId: ctx.householdId },
@@ -262,6 +626,7 @@ export const transactionsRouter = router({
         where: { householdId: ctx.householdId, isActive: true },
         select: { id: true, name: true, type: true },
       }),
+      loadMerchants(ctx.prisma, ctx.householdId),
     ]);
 
     if (!account) {
@@ -272,6 +637,8 @@ export const transactionsRouter = router({
     const rules = rulesRaw.map((r: (typeof rulesRaw)[number]) => ({
       ...r,
       type: r.type as 'merchant' | 'keyword' | 'regex',
+      conditions: parseRuleConditions(r.conditions),
+      actions: parseRuleActions(r.actions),
     }));
 
     const categories = categoriesRaw.map((c: (typeof categoriesRaw)[number]) => ({
@@ -279,25 +646,34 @@ export const transactionsRouter = router({
       type: c.type as 'income' | 'expense',
     }));
 
+    const merchantId = resolveMerchant(input, merchants)?.id ?? null;
+
     // Auto-categorize if no category provided
     let categoryId: string | null | undefined = input.categoryId;
     let categorizationSource = 'manual';
     let confidence = 1;
+    let ruleId: string | undefined;
+    let aiReasoning: string | undefined;
 
     if (!categoryId) {
-      const result = await categorizeTransaction(
-        {
-          description: input.description,
-          merchant: input.merchant,
-          amount: input.amount,
-          direction: input.direction,
-        },
-        rules,
-        categories,
-        {
-          enableAI: !!(process.env.AI_GATEWAY_API_KEY || process.env.GEMINI_API_KEY),
-          aiApiKey: process.env.AI_GATEWAY_API_KEY || process.env.GEMINI_API_KEY,
-        }
+      const txInput = {
+        description: input.description,
+        merchant: input.merchant,
+        merchantId,
+        amount: input.amount,
+        direction: input.direction,
+        accountId: input.accountId,
+        date: input.date,
+      };
+      const aiHistory = await loadAIHistory(ctx.prisma, ctx.householdId);
+      const result = await withAICache(ctx.prisma, ctx.householdId, [txInput], (aiCache) =>
+        categorizeTransaction(txInput, rules, categories, {
+          merchants,
+          enableAI: true,
+          aiProvider: resolveAIProvider(process.env),
+          aiCache,
+          aiHistory,
+        })
       );
 
       // If categorization returned null (fallback), find a default category from the database
@@ -319,6 +695,8 @@ export const transactionsRouter = router({
 
       categorizationSource = result.source;
       confidence = result.confidence;
+      ruleId = result.matchedRule?.id;
+      aiReasoning = result.reasoning;
 
       // Auto-create rule from AI suggestion with high confidence (≥0.75)
       // This helps the system "learn" and reduces future AI calls
@@ -359,10 +737,12 @@ export const transactionsRouter = router({
       date: input.date,
       description: input.description,
       merchant: input.merchant,
+      merchantId,
       amount: input.amount,
       direction: input.direction,
       categorizationSource,
       confidence,
+      aiReasoning,
       notes: input.notes,
       needsReview: categorizationSource === 'fallback',
     };
@@ -370,15 +750,20 @@ export const transactionsRouter = router({
     // Only set categoryId if it has a value
     if (categoryId) {
       transactionData.categoryId = categoryId;
+      transactionData.ruleId = ruleId;
     }
 
-    return ctx.prisma.transaction.create({
+    const transaction = await ctx.prisma.transaction.create({
       data: transactionData,
       include: {
         category: true,
         account: true,
       },
     });
+
+    await recordRuleMatches(ctx.prisma, [transaction.ruleId]);
+
+    return transaction;
   }),
 
   /**
@@ -389,33 +774,431 @@ export const transactionsRouter = router({
       z.object({
         id: z.string(),
         data: updateTransactionSchema,
+        // Replacement splits; required to change the amount of a split transaction
+        splits: z.array(transactionSplitSchema).optional(),
       })
     )
     .mutation(async ({ ctx, input }) => {
       const updateData: Record<string, unknown> = { ...input.data };
 
+      // Splits add up to the parent amount, so a new amount needs splits that match it
+      if (input.data.amount !== undefined || input.splits) {
+        const existing = await ctx.prisma.transaction.findFirst({
+          where: { id: input.id, householdId: ctx.householdId },
+          select: { amount: true, _count: { select: { splits: true } } },
+        });
+        if (!existing) {
+          throw new TRPCError({ code: 'NOT_FOUND', message: 'Transaction not found' });
+        }
+
+        const amount = input.data.amount ?? existing.amount;
+        if (input.splits) {
+          await assertValidSplits(ctx.prisma, ctx.householdId, amount, input.splits);
+        } else if (existing._count.splits > 0 && amount !== existing.amount) {
+          throw new TRPCError({
+            code: 'BAD_REQUEST',
+            message: 'Changing the amount of a split transaction requires new splits',
+          });
+        }
+      }
+
+      // Edited merchant text may now belong to a different household merchant
+      if (input.data.merchant !== undefined || input.data.description !== undefined) {
+        const [existing, merchants] = await Promise.all([
+          ctx.prisma.transaction.findFirst({
+            where: { id: input.id, householdId: ctx.householdId },
+            select: { merchant: true, description: true },
+          }),
+          loadMerchants(ctx.prisma, ctx.householdId),
+        ]);
+        if (existing) {
+          updateData.merchantId =
+            resolveMerchant(
+              {
+                merchant:
+                  input.data.merchant !== undefined ? input.data.merchant : existing.merchant,
+                description: input.data.description ?? existing.description,
+              },
+              merchants
+            )?.id ?? null;
+        }
+      }
+
       // If category is being changed, mark as manual and clear review
       if (input.data.categoryId !== undefined) {
         updateData.categorizationSource = 'manual';
         updateData.confidence = 1;
         updateData.needsReview = false;
+        updateData.ruleId = null;
+        updateData.aiReasoning = null;
+
+        if (input.data.categoryId) {
+          const existing = await ctx.prisma.transaction.findFirst({
+            where: { id: input.id, householdId: ctx.householdId },
+            select: {
+              id: true,
+              categoryId: true,
+              ruleId: true,
+              description: true,
+              merchant: true,
+              direction: true,
+            },
+          });
+          if (existing) {
+            await recordCorrections(
+              ctx.prisma,
+              ctx.householdId,
+              ctx.user.id,
+              [existing],
+              input.data.categoryId
+            );
+          }
+        }
       }
 
-      return ctx.prisma.transaction.update({
-        where: { id: input.id, householdId: ctx.householdId },
-        data: updateData,
+      // The amount and its splits change together or not at all
+      return ctx.prisma.$transaction(async (tx) => {
+        if (input.splits) await replaceSplits(tx, input.id, input.splits);
+
+        return tx.transaction.update({
+          where: { id: input.id, householdId: ctx.householdId },
+          data: updateData,
+          include: {
+            category: true,
+            account: true,
+          },
+        });
+      });
+    }),
+
+  /**
+   * Delete a transaction
+   */
+  delete: protectedProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    return ctx.prisma.transaction.delete({
+      where: { id: input, householdId: ctx.householdId },
+    });
+  }),
+
+  /**
+   * Split a transaction across multiple categories
+   * Replaces any existing splits; an empty list removes the split
+   */
+  setSplits: protectedProcedure
+    .input(setTransactionSplitsSchema)
+    .mutation(async ({ ctx, input }) => {
+      const transaction = await ctx.prisma.transaction.findUnique({
+        where: { id: input.transactionId, householdId: ctx.householdId },
+      });
+
+      if (!transaction) {
+        throw new TRPCError({ code: 'NOT_FOUND', message: 'Transaction not found' });
+      }
+
+      await assertValidSplits(ctx.prisma, ctx.householdId, transaction.amount, input.splits);
+
+      await ctx.prisma.$transaction((tx) => replaceSplits(tx, input.transactionId, input.splits));
+
+      return ctx.prisma.transaction.findUnique({
+        where: { id: input.transactionId },
         include: {
           category: true,
           account: true,
+          splits: { include: { category: true } },
         },
       });
     }),
 
   /**
-   * Delete a transaction
+   * Detect transfers between household accounts and pair them
+   * Paired transactions get direction 'transfer' and status 'detected' until confirmed
    */
-  delete: protectedProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
-    return ctx.prisma.transaction.delete({
+  detectTransfers: protectedProcedure
+    .input(z.object({ since: z.coerce.date().optional() }).optional())
+    .mutation(async ({ ctx, input }) => {
+      const since = input?.since ?? new Date(Date.now() - 90 * 24 * 60 * 60 * 1000);
+      return pairHouseholdTransfers(ctx.prisma, ctx.householdId, since);
+    }),
+
+  /**
+   * Confirm a detected transfer pair
+   */
+  confirmTransfer: protectedProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    const transaction = await ctx.prisma.transaction.findUnique({
+      where: { id: input, householdId: ctx.householdId },
+    });
+
+    if (!transaction?.transferPeerId) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Transfer pair not found' });
+    }
+
+    const result = await ctx.prisma.transaction.updateMany({
+      where: {
+        id: { in: [transaction.id, transaction.transferPeerId] },
+        householdId: ctx.householdId,
+      },
+      data: { transferStatus: 'confirmed', needsReview: false },
+    });
+
+    return { updated: result.count };
+  }),
+
+  /**
+   * Break a transfer pair
+   * Restores the original directions and records the pair so it is not detected again;
+   * each leg can still be paired with another transaction
+   */
+  breakTransfer: protectedProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    const transaction = await ctx.prisma.transaction.findUnique({
+      where: { id: input, householdId: ctx.householdId },
+    });
+
+    if (!transaction?.transferPeerId) {
+      throw new TRPCError({ code: 'NOT_FOUND', message: 'Transfer pair not found' });
+    }
+
+    const peer = await ctx.prisma.transaction.findUnique({
+      where: { id: transaction.transferPeerId, householdId: ctx.householdId },
+    });
+
+    const legs = [transaction, peer].filter((tx): tx is NonNullable<typeof tx> => tx !== null);
+    const outgoing = legs.find((tx) => tx.preTransferDirection === 'expense');
+    const incoming = legs.find((tx) => tx.preTransferDirection === 'income');
+
+    await ctx.prisma.$transaction([
+      ...legs.map((tx) =>
+        ctx.prisma.transaction.update({
+          where: { id: tx.id },
+          data: {
+            direction: tx.preTransferDirection ?? tx.direction,
+            preTransferDirection: null,
+            transferStatus: null,
+            transferPeerId: null,
+          },
+        })
+      ),
+      ...(outgoing && incoming
+        ? [
+            ctx.prisma.transferRejection.upsert({
+              where: {
+                outgoingId_incomingId: { outgoingId: outgoing.id, incomingId: incoming.id },
+              },
+              create: { outgoingId: outgoing.id, incomingId: incoming.id },
+              update: {},
+            }),
+          ]
+        : []),
+    ]);
+
+    return { success: true };
+  }),
+
+  /**
+   * Preview a statement file import without writing anything
+   * Shows which rows are new, already imported, or could not be parsed
+   */
+  importPreview: protectedProcedure
+    .input(statementImportSchema)
+    .mutation(async ({ ctx, input }) => {
+      const { newTransactions, duplicates, errors } = await classifyStatementRows(ctx, input);
+
+      const toRow = (txn: MappedTransaction, status: 'new' | 'duplicate') => ({
+        status,
+        externalId: txn.externalId,
+        date: txn.date,
+        description: txn.description,
+        amount: txn.amount,
+        direction: txn.direction,
+        notes: txn.notes,
+      });
+
+      return {
+        rows: [
+          ...newTransactions.map((txn) => toRow(txn, 'new')),
+          ...duplicates.map((txn) => toRow(txn, 'duplicate')),
+        ].sort((a, b) => b.date.getTime() - a.date.getTime()),
+        errors,
+        summary: {
+          new: newTransactions.length,
+          duplicate: duplicates.length,
+          error: errors.length,
+        },
+      };
+    }),
+
+  /**
+   * Import new transactions from a statement file (CSV / OFX / QIF)
+   * Duplicates and unparseable rows are skipped; new rows go through rule → AI categorization
+   */
+  import: protectedProcedure.input(statementImportSchema).mutation(async ({ ctx, input }) => {
+    const { newTransactions, duplicates, errors } = await classifyStatementRows(ctx, input);
+
+    const [rulesRaw, categoriesRaw, merchants] = await Promise.all([
+      ctx.prisma.categoryRule.findMany({
+        where: { householdId: ctx.householdId, isActive: true },
+      }),
+      ctx.prisma.category.findMany({
+        where: { householdId: ctx.householdId, isActive: true },
+        select: { id: true, name: true, type: true },
+      }),
+      loadMerchants(ctx.prisma, ctx.householdId),
+    ]);
+
+    const rules = rulesRaw.map((r) => ({
+      ...r,
+      type: r.type as 'merchant' | 'keyword' | 'regex',
+      conditions: parseRuleConditions(r.conditions),
+      actions: parseRuleActions(r.actions),
+    }));
+    const categories = categoriesRaw.map((c) => ({
+      ...c,
+      type: c.type as 'income' | 'expense',
+    }));
+    const categoryIds = new Set(categories.map((c) => c.id));
+
+    let imported = 0;
+    let categorized = 0;
+    const matchedRuleIds: string[] = [];
+
+    const rows = newTransactions.map((txn) => {
+      const txInput = {
+        description: txn.description,
+        merchant: txn.merchant,
+        merchantId: resolveMerchant(txn, merchants)?.id ?? null,
+        amount: txn.amount,
+        direction: txn.direction,
+        accountId: input.accountId,
+        date: txn.date,
+      };
+      // Rule actions (ignore, rename, notes) run on the row as imported
+      return {
+        txn,
+        txInput,
+        ruleChanges: applyRuleActions({ ...txInput, notes: txn.notes }, rules),
+      };
+    });
+
+    // Rules per row, then one AI request for what the rules left (ignored rows skip AI)
+    const toCategorize = rows.filter((row) => !row.ruleChanges.isIgnored).map((row) => row.txInput);
+    const aiHistory = await loadAIHistory(ctx.prisma, ctx.householdId);
+    const results = await withAICache(ctx.prisma, ctx.householdId, toCategorize, (aiCache) =>
+      categorizeTransactions(toCategorize, rules, categories, {
+        merchants,
+        enableAI: true,
+        aiProvider: resolveAIProvider(process.env),
+        aiCache,
+        aiHistory,
+        aiBatchSize: IMPORT_AI_MERCHANT_LIMIT,
+        aiMaxBatches: 1,
+      })
+    );
+
+    for (const { txn, txInput, ruleChanges } of rows) {
+      const result =
+        results.get(txInput) ??
+        (await categorizeTransaction(txInput, rules, categories, { enableAI: false, merchants }));
+
+      const categoryId =
+        result.categoryId && categoryIds.has(result.categoryId) ? result.categoryId : null;
+
+      try {
+        await ctx.prisma.transaction.create({
+          data: {
+            householdId: ctx.householdId,
+            accountId: input.accountId,
+            date: txn.date,
+            description: ruleChanges.description ?? txn.description,
+            merchant: ruleChanges.merchant ?? txn.merchant,
+            merchantId: txInput.merchantId,
+            amount: txn.amount,
+            direction: txn.direction,
+            notes: ruleChanges.notes ?? txn.notes,
+            externalId: txn.externalId,
+            isIgnored: ruleChanges.isIgnored ?? false,
+            categoryId,
+            ruleId: categoryId ? result.matchedRule?.id : undefined,
+            categorizationSource: categoryId ? result.source : 'fallback',
+            confidence: categoryId ? result.confidence : 0,
+            aiReasoning: categoryId ? result.reasoning : undefined,
+            needsReview:
+              ruleChanges.needsReview ?? (!categoryId || result.source === 'ai_suggestion'),
+          },
+        });
+        imported++;
+        if (categoryId) categorized++;
+        // The categorizing rule and every rule whose actions ran, each once per row
+        const categoryRuleId = categoryId ? result.matchedRule?.id : undefined;
+        for (const id of new Set([categoryRuleId, ...ruleChanges.ruleIds])) {
+          if (id) matchedRuleIds.push(id);
+        }
+      } catch (error) {
+        // Unique (accountId, externalId) violation - imported concurrently
+        console.warn('[Import] Skipping transaction:', txn.externalId, error);
+      }
+    }
+
+    await recordRuleMatches(ctx.prisma, matchedRuleIds);
+
+    return {
+      imported,
+      categorized,
+      duplicates: duplicates.length,
+      errors: errors.length,
+    };
+  }),
+
+  /**
+   * List saved statement import profiles (per-bank column mappings)
+   */
+  importProfiles: protectedProcedure.query(async ({ ctx }) => {
+    const profiles = await ctx.prisma.importProfile.findMany({
+      where: { householdId: ctx.householdId },
+      orderBy: { name: 'asc' },
+    });
+
+    return profiles.map((profile) => ({
+      ...profile,
+      format: profile.format as 'csv' | 'ofx' | 'qif',
+      columnMapping: profile.columnMapping
+        ? csvColumnMappingSchema.parse(JSON.parse(profile.columnMapping))
+        : null,
+      dateFormat: statementDateFormatSchema.nullable().parse(profile.dateFormat),
+    }));
+  }),
+
+  /**
+   * Save an import profile (upsert by name)
+   */
+  saveImportProfile: protectedProcedure
+    .input(
+      z.object({
+        name: z.string().min(1).max(50),
+        format: statementFormatSchema,
+        csvMapping: csvColumnMappingSchema.optional(),
+        dateFormat: statementDateFormatSchema.optional(),
+        accountId: z.string().optional(),
+      })
+    )
+    .mutation(async ({ ctx, input }) => {
+      const data = {
+        format: input.format,
+        columnMapping: input.csvMapping ? JSON.stringify(input.csvMapping) : null,
+        dateFormat: input.dateFormat ?? null,
+        accountId: input.accountId ?? null,
+      };
+
+      return ctx.prisma.importProfile.upsert({
+        where: { householdId_name: { householdId: ctx.householdId, name: input.name } },
+        create: { householdId: ctx.householdId, name: input.name, ...data },
+        update: data,
+      });
+    }),
+
+  /**
+   * Delete an import profile
+   */
+  deleteImportProfile: protectedProcedure.input(z.string()).mutation(async ({ ctx, input }) => {
+    return ctx.prisma.importProfile.delete({
       where: { id: input, householdId: ctx.householdId },
     });
   }),
@@ -444,13 +1227,12 @@ export const transactionsRouter = router({
 
   /**
    * Apply categorization rules to uncategorized transactions only
-   * Limited to 20 transactions per call to avoid timeouts
-   * AI calls are rate-limited to respect Gemini's 15 req/min limit
+   * Limited to 100 transactions per call to avoid timeouts
+   * Transactions no rule matches go to AI in batches, a few requests per call
    * Uses locking mechanism to prevent concurrent processing
    */
   applyCategorization: protectedProcedure.input(z.void()).mutation(async ({ ctx }) => {
-    const MAX_TRANSACTIONS = 20; // Limit per call to avoid timeouts
-    const AI_DELAY_MS = 4500; // ~13 requests/min to stay under 15 req/min limit
+    const MAX_TRANSACTIONS = 100; // Limit per call to avoid timeouts
 
     // Get uncategorized transactions only (not being processed)
     const transactions = await ctx.prisma.transaction.findMany({
@@ -490,8 +1272,8 @@ export const transactionsRouter = router({
       },
     });
 
-    // Parallelize getting rules and categories
-    const [rulesRaw, categoriesRaw] = await Promise.all([
+    // Parallelize getting rules, categories and merchants
+    const [rulesRaw, categoriesRaw, merchants] = await Promise.all([
       // Get active rules
       ctx.prisma.categoryRule.findMany({
         where: { householdId: ctx.householdId, isActive: true },
@@ -501,11 +1283,14 @@ export const transactionsRouter = router({
         where: { householdId: ctx.householdId, isActive: true },
         select: { id: true, name: true, type: true },
       }),
+      loadMerchants(ctx.prisma, ctx.householdId),
     ]);
 
     const rules = rulesRaw.map((r: (typeof rulesRaw)[number]) => ({
       ...r,
       type: r.type as 'merchant' | 'keyword' | 'regex',
+      conditions: parseRuleConditions(r.conditions),
+      actions: parseRuleActions(r.actions),
     }));
 
     const categories = categoriesRaw.map((c: (typeof categoriesRaw)[number]) => ({
@@ -514,28 +1299,46 @@ export const transactionsRouter = router({
     }));
 
     let updatedCount = 0;
-    let aiCallCount = 0;
-
-    // Helper to delay between AI calls
-    const delay = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+    const matchedRuleIds: string[] = [];
+    const needsAI: Array<{
+      tx: (typeof transactions)[number];
+      txInput: TransactionInput;
+      ruleChanges: Omit<RuleActionChanges, 'ruleIds'>;
+    }> = [];
 
     try {
       // Apply rules to each transaction
       for (const tx of transactions) {
-        // First try rule-based categorization (no AI, fast)
-        const ruleResult = await categorizeTransaction(
-          {
-            description: tx.description,
-            merchant: tx.merchant,
-            amount: tx.amount,
-            direction: tx.direction as 'income' | 'expense',
-          },
-          rules,
-          categories,
-          {
-            enableAI: false, // First pass: rules only
-          }
+        const txInput = {
+          description: tx.description,
+          merchant: tx.merchant,
+          merchantId: tx.merchantId,
+          amount: tx.amount,
+          direction: tx.direction as 'income' | 'expense',
+          accountId: tx.accountId,
+          date: tx.date,
+        };
+
+        // Rule actions (ignore, rename, notes) run before categorization
+        const { ruleIds, ...ruleChanges } = applyRuleActions(
+          { ...txInput, notes: tx.notes },
+          rules
         );
+        if (ruleIds.length > 0) {
+          await ctx.prisma.transaction.update({ where: { id: tx.id }, data: ruleChanges });
+          matchedRuleIds.push(...ruleIds);
+          if (ruleChanges.isIgnored) {
+            // Ignored rows no longer need a category
+            updatedCount++;
+            continue;
+          }
+        }
+
+        // First try rule-based categorization (no AI, fast)
+        const ruleResult = await categorizeTransaction(txInput, rules, categories, {
+          enableAI: false, // First pass: rules and merchant defaults only
+          merchants,
+        });
 
         // If rules found a match, use it
         if (ruleResult.categoryId && ruleResult.source !== 'fallback') {
@@ -547,40 +1350,42 @@ export const transactionsRouter = router({
               where: { id: tx.id },
               data: {
                 categoryId: ruleResult.categoryId,
+                ruleId: ruleResult.matchedRule?.id,
                 categorizationSource: ruleResult.source,
                 confidence: ruleResult.confidence,
                 needsReview: false,
                 isProcessing: false, // Unlock after successful categorization
               },
             });
+            const categoryRuleId = ruleResult.matchedRule?.id;
+            if (categoryRuleId && !ruleIds.includes(categoryRuleId)) {
+              matchedRuleIds.push(categoryRuleId);
+            }
             updatedCount++;
             continue;
           }
         }
 
-        // No rule match - try AI if enabled (with rate limiting)
-        const aiApiKey = process.env.AI_GATEWAY_API_KEY || process.env.GEMINI_API_KEY;
-        if (aiApiKey) {
-          // Rate limit AI calls
-          if (aiCallCount > 0) {
-            await delay(AI_DELAY_MS);
-          }
-          aiCallCount++;
-
-          const result = await categorizeTransaction(
-            {
-              description: tx.description,
-              merchant: tx.merchant,
-              amount: tx.amount,
-              direction: tx.direction as 'income' | 'expense',
-            },
-            rules,
-            categories,
-            {
-              enableAI: true,
-              aiApiKey,
-            }
-          );
+        // No rule match - left for AI, sent in batches below
+        needsAI.push({ tx, txInput, ruleChanges });
+      }
+
+      const aiProvider = resolveAIProvider(process.env);
+      if (aiProvider) {
+        const txInputs = needsAI.map((item) => item.txInput);
+        const aiHistory = await loadAIHistory(ctx.prisma, ctx.householdId);
+        const aiResults = await withAICache(ctx.prisma, ctx.householdId, txInputs, (aiCache) =>
+          categorizeTransactions(txInputs, rules, categories, {
+            enableAI: true,
+            aiProvider,
+            aiCache,
+            aiHistory,
+          })
+        );
+
+        for (const { tx, txInput, ruleChanges } of needsAI) {
+          const result = aiResults.get(txInput);
+          if (!result) continue;
 
           // Determine categoryId (handle fallback case)
           let finalCategoryId = result.categoryId;
@@ -615,7 +1420,9 @@ export const transactionsRouter = router({
                   categoryId: finalCategoryId,
                   categorizationSource: result.source,
                   confidence: result.confidence,
-                  needsReview: result.source === 'ai_suggestion', // AI suggestions should be reviewed
+                  aiReasoning: result.reasoning,
+                  // AI suggestions should be reviewed, unless a rule marked the row reviewed
+                  needsReview: ruleChanges.needsReview ?? result.source === 'ai_suggestion',
                   isProcessing: false, // Unlock after successful categorization
                 },
               });
@@ -667,6 +1474,8 @@ export const transactionsRouter = router({
       });
     }
 
+    await recordRuleMatches(ctx.prisma, matchedRuleIds);
+
     const remaining = totalNeedingCategorization - updatedCount;
     const hasMore = remaining > 0;
 
@@ -675,7 +1484,7 @@ export const transactionsRouter = router({
       remaining: hasMore ? remaining : 0,
       message: hasMore
         ? `Updated ${updatedCount} transaction(s). ${remaining} more need categorization - click again to continue.`
-        : `Updated ${updatedCount} transaction(s) with categorization rules${process.env.AI_GATEWAY_API_KEY || process.env.GEMINI_API_KEY ? ' and AI suggestions' : ''}`,
+        : `Updated ${updatedCount} transaction(s) with categorization rules${resolveAIProvider(process.env) ? ' and AI suggestions' : ''}`,
     };
   }),
 
@@ -705,6 +1514,8 @@ export const transactionsRouter = router({
         where: { id: input.transactionId, householdId: ctx.householdId },
         data: {
           categoryId: input.categoryId,
+          ruleId: null,
+          aiReasoning: null,
           categorizationSource: 'manual',
           confidence: 1,
           needsReview: false,
@@ -713,6 +1524,7 @@ export const transactionsRouter = router({
       });
 
       let ruleCreated = false;
+      let createdRuleId: string | undefined;
       let additionalUpdated = 0;
 
       // Optionally create a rule and apply it to matching transactions
@@ -732,7 +1544,7 @@ export const transactionsRouter = router({
 
           if (!existingRule) {
             // Create the new rule
-            await ctx.prisma.categoryRule.create({
+            const rule = await ctx.prisma.categoryRule.create({
               data: {
                 householdId: ctx.householdId,
                 categoryId: input.categoryId,
@@ -743,6 +1555,7 @@ export const transactionsRouter = router({
               },
             });
             ruleCreated = true;
+            createdRuleId = rule.id;
 
             // Apply the rule to all matching uncategorized transactions
             // Use case-insensitive matching
@@ -761,16 +1574,32 @@ export const transactionsRouter = router({
               },
               data: {
                 categoryId: input.categoryId,
+                ruleId: rule.id,
                 categorizationSource: 'rule',
                 confidence: ruleType === 'merchant' ? 0.95 : 0.8,
                 needsReview: false,
               },
             });
             additionalUpdated = additionalResult.count;
+            if (additionalUpdated > 0) {
+              await ctx.prisma.categoryRule.update({
+                where: { id: rule.id },
+                data: { matchCount: additionalUpdated, lastMatchedAt: new Date() },
+              });
+            }
           }
         }
       }
 
+      await recordCorrections(
+        ctx.prisma,
+        ctx.householdId,
+        ctx.user.id,
+        [transaction],
+        input.categoryId,
+        createdRuleId
+      );
+
       return {
         ...updated,
         ruleCreated,
@@ -870,7 +1699,7 @@ export const transactionsRouter = router({
       })
     )
     .mutation(async ({ ctx, input }) => {
-      let ruleCreated = false;
+      let createdRuleId: string | undefined;
       let additionalUpdated = 0;
       let pattern: string | null = null;
       let ruleType: 'merchant' | 'keyword' = 'merchant';
@@ -899,7 +1728,7 @@ export const transactionsRouter = router({
             });
 
             if (!existingRule) {
-              await ctx.prisma.categoryRule.create({
+              const rule = await ctx.prisma.categoryRule.create({
                 data: {
                   householdId: ctx.householdId,
                   categoryId: input.categoryId,
@@ -909,12 +1738,32 @@ export const transactionsRouter = router({
                   createdFrom: 'correction',
                 },
               });
-              ruleCreated = true;
+              createdRuleId = rule.id;
             }
           }
         }
       }
 
+      const selected = await ctx.prisma.transaction.findMany({
+        where: { id: { in: input.transactionIds }, householdId: ctx.householdId },
+        select: {
+          id: true,
+          categoryId: true,
+          ruleId: true,
+          description: true,
+          merchant: true,
+          direction: true,
+        },
+      });
+      await recordCorrections(
+        ctx.prisma,
+        ctx.householdId,
+        ctx.user.id,
+        selected,
+        input.categoryId,
+        createdRuleId
+      );
+
       // Update the selected transactions
       const result = await ctx.prisma.transaction.updateMany({
         where: {
@@ -923,6 +1772,8 @@ export const transactionsRouter = router({
         },
         data: {
           categoryId: input.categoryId,
+          ruleId: null,
+          aiReasoning: null,
           categorizationSource: 'manual',
           confidence: 1,
           needsReview: false,
@@ -930,7 +1781,7 @@ export const transactionsRouter = router({
       });
 
       // If a rule was created, apply it to all matching uncategorized transactions
-      if (ruleCreated && pattern) {
+      if (createdRuleId && pattern) {
         const matchCondition =
           ruleType === 'merchant'
             ? { merchant: { contains: pattern, mode: 'insensitive' as const } }
@@ -946,17 +1797,24 @@ export const transactionsRouter = router({
           },
           data: {
             categoryId: input.categoryId,
+            ruleId: createdRuleId,
             categorizationSource: 'rule',
             confidence: ruleType === 'merchant' ? 0.95 : 0.8,
             needsReview: false,
           },
         });
         additionalUpdated = additionalResult.count;
+        if (additionalUpdated > 0) {
+          await ctx.prisma.categoryRule.update({
+            where: { id: createdRuleId },
+            data: { matchCount: additionalUpdated, lastMatchedAt: new Date() },
+          });
+        }
       }
 
       return {
         updated: result.count,
-        ruleCreated,
+        ruleCreated: !!createdRuleId,
         additionalUpdated,
       };
     }),
@@ -1065,6 +1923,13 @@ export const transactionsRouter = router({
           account: {
             select: { id: true, name: true },
           },
+          splits: {
+            include: {
+              category: {
+                select: { id: true, name: true, icon: true, color: true, type: true },
+              },
+            },
+          },
         },
         orderBy: [{ date: 'desc' }, { id: 'desc' }],
       });
@@ -1076,6 +1941,7 @@ export const transactionsRouter = router({
           where: {
             householdId: ctx.householdId,
             month: input.month,
+            period: 'month',
           },
         });
         for (const budget of budgets) {
@@ -1105,25 +1971,43 @@ export const transactionsRouter = router({
         }
       >();
 
-      for (const tx of transactions) {
-        const categoryId = tx.categoryId || 'uncategorized';
+      const addToGroup = (
+        tx: (typeof transactions)[number],
+        category: (typeof transactions)[number]['category'],
+        amount: number
+      ) => {
+        const categoryId = category?.id || 'uncategorized';
         const existing = categoryGroups.get(categoryId);
 
         if (existing) {
-          existing.transactions.push(tx);
-          existing.totalAmount += tx.amount;
-          existing.transactionCount++;
+          // A transaction split twice into the same category is listed once
+          if (!existing.transactions.includes(tx)) {
+            existing.transactions.push(tx);
+            existing.transactionCount++;
+          }
+          existing.totalAmount += amount;
         } else {
-          const budget = tx.categoryId ? budgetMap.get(tx.categoryId) : null;
+          const budget = category ? budgetMap.get(category.id) : null;
           categoryGroups.set(categoryId, {
-            category: tx.category,
+            category,
             transactions: [tx],
-            totalAmount: tx.amount,
+            totalAmount: amount,
             transactionCount: 1,
             plannedAmount: budget?.plannedAmount ?? null,
             limitAmount: budget?.limitAmount ?? null,
           });
         }
+      };
+
+      for (const tx of transactions) {
+        // Split transactions are counted in each of their split categories
+        if (tx.splits.length > 0) {
+          for (const split of tx.splits) {
+            addToGroup(tx, split.category, split.amount);
+          }
+        } else {
+          addToGroup(tx, tx.category, tx.amount);
+        }
       }
 
       // Convert to array and sort by total amount (highest first)
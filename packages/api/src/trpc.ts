@@ -18,6 +18,8 @@ export interface Context {
   prisma: PrismaClient;
   user: SessionUser | null;
   householdId: string | null;
+  /** Starts the sync job runner after jobs are queued; without it, jobs wait for the cron */
+  runSyncJobs?: () => void;
 }
 
 /**
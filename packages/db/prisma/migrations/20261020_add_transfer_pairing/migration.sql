@@ -0,0 +1,10 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "transferPeerId" TEXT,
+ADD COLUMN "transferStatus" TEXT,
+ADD COLUMN "preTransferDirection" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transactions_transferPeerId_key" ON "transactions"("transferPeerId");
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_transferPeerId_fkey" FOREIGN KEY ("transferPeerId") REFERENCES "transactions"("id") ON DELETE SET NULL ON UPDATE CASCADE;
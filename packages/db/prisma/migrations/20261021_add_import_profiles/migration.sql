@@ -0,0 +1,23 @@
+-- CreateTable
+CREATE TABLE "import_profiles" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "format" TEXT NOT NULL,
+    "columnMapping" TEXT,
+    "dateFormat" TEXT,
+    "accountId" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "import_profiles_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "import_profiles_householdId_idx" ON "import_profiles"("householdId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "import_profiles_householdId_name_key" ON "import_profiles"("householdId", "name");
+
+-- AddForeignKey
+ALTER TABLE "import_profiles" ADD CONSTRAINT "import_profiles_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,26 @@
+-- AlterTable
+ALTER TABLE "households" ADD COLUMN "baseCurrency" TEXT NOT NULL DEFAULT 'ILS';
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "originalAmount" DOUBLE PRECISION,
+ADD COLUMN "originalCurrency" TEXT;
+
+-- CreateTable
+CREATE TABLE "exchange_rates" (
+    "id" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "currency" TEXT NOT NULL,
+    "baseCurrency" TEXT NOT NULL,
+    "rate" DOUBLE PRECISION NOT NULL,
+    "source" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "exchange_rates_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_currency_baseCurrency_idx" ON "exchange_rates"("currency", "baseCurrency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_currency_baseCurrency_date_key" ON "exchange_rates"("currency", "baseCurrency", "date");
@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "installmentPlanId" TEXT,
+ADD COLUMN "installmentNumber" INTEGER;
+
+-- CreateTable
+CREATE TABLE "installment_plans" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "categoryId" TEXT,
+    "planKey" TEXT NOT NULL,
+    "description" TEXT NOT NULL,
+    "merchant" TEXT,
+    "purchaseDate" TIMESTAMP(3) NOT NULL,
+    "firstPaymentDate" TIMESTAMP(3) NOT NULL,
+    "totalPayments" INTEGER NOT NULL,
+    "paymentAmount" DOUBLE PRECISION NOT NULL,
+    "totalAmount" DOUBLE PRECISION NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "installment_plans_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transactions_installmentPlanId_idx" ON "transactions"("installmentPlanId");
+
+-- CreateIndex
+CREATE INDEX "installment_plans_householdId_idx" ON "installment_plans"("householdId");
+
+-- CreateIndex
+CREATE INDEX "installment_plans_accountId_idx" ON "installment_plans"("accountId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "installment_plans_householdId_planKey_key" ON "installment_plans"("householdId", "planKey");
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_installmentPlanId_fkey" FOREIGN KEY ("installmentPlanId") REFERENCES "installment_plans"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installment_plans" ADD CONSTRAINT "installment_plans_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installment_plans" ADD CONSTRAINT "installment_plans_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "installment_plans" ADD CONSTRAINT "installment_plans_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "budgets" ADD COLUMN "rollover" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN "rolloverCap" DOUBLE PRECISION;
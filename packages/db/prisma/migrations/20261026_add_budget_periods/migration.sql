@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "budgets" ADD COLUMN "period" TEXT NOT NULL DEFAULT 'month';
+
+-- CreateIndex
+CREATE INDEX "budgets_householdId_period_idx" ON "budgets"("householdId", "period");
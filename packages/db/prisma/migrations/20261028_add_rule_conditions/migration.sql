@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "category_rules" ADD COLUMN "conditions" TEXT;
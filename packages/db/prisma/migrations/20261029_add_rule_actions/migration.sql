@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "category_rules" ADD COLUMN "actions" TEXT,
+ALTER COLUMN "categoryId" DROP NOT NULL;
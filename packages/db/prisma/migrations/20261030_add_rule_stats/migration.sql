@@ -0,0 +1,21 @@
+-- AlterTable
+ALTER TABLE "category_rules" ADD COLUMN "matchCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN "lastMatchedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "ruleId" TEXT;
+
+-- AlterTable
+ALTER TABLE "user_corrections" ADD COLUMN "ruleId" TEXT;
+
+-- CreateIndex
+CREATE INDEX "transactions_ruleId_idx" ON "transactions"("ruleId");
+
+-- CreateIndex
+CREATE INDEX "user_corrections_ruleId_idx" ON "user_corrections"("ruleId");
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "category_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "user_corrections" ADD CONSTRAINT "user_corrections_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "category_rules"("id") ON DELETE SET NULL ON UPDATE CASCADE;
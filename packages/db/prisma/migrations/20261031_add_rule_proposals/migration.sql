@@ -0,0 +1,29 @@
+-- CreateTable
+CREATE TABLE "rule_proposals" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "kind" TEXT NOT NULL,
+    "key" TEXT NOT NULL,
+    "ruleId" TEXT,
+    "payload" TEXT NOT NULL,
+    "evidence" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'pending',
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "rule_proposals_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "rule_proposals_householdId_status_idx" ON "rule_proposals"("householdId", "status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "rule_proposals_householdId_key_key" ON "rule_proposals"("householdId", "key");
+
+-- AddForeignKey
+ALTER TABLE "rule_proposals" ADD CONSTRAINT "rule_proposals_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "rule_proposals" ADD CONSTRAINT "rule_proposals_ruleId_fkey" FOREIGN KEY ("ruleId") REFERENCES "category_rules"("id") ON DELETE CASCADE ON UPDATE CASCADE;
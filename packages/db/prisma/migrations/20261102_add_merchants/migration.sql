@@ -0,0 +1,34 @@
+-- CreateTable
+CREATE TABLE "merchants" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "aliases" TEXT NOT NULL DEFAULT '[]',
+    "patterns" TEXT NOT NULL DEFAULT '[]',
+    "defaultCategoryId" TEXT,
+    "icon" TEXT,
+    "logoUrl" TEXT,
+    "website" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "merchants_pkey" PRIMARY KEY ("id")
+);
+
+-- AlterTable
+ALTER TABLE "transactions" ADD COLUMN "merchantId" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "merchants_householdId_name_key" ON "merchants"("householdId", "name");
+
+-- CreateIndex
+CREATE INDEX "transactions_merchantId_idx" ON "transactions"("merchantId");
+
+-- AddForeignKey
+ALTER TABLE "merchants" ADD CONSTRAINT "merchants_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "merchants" ADD CONSTRAINT "merchants_defaultCategoryId_fkey" FOREIGN KEY ("defaultCategoryId") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transactions" ADD CONSTRAINT "transactions_merchantId_fkey" FOREIGN KEY ("merchantId") REFERENCES "merchants"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,17 @@
+-- DropIndex
+DROP INDEX "sync_jobs_status_idx";
+
+-- AlterTable
+ALTER TABLE "sync_jobs" ADD COLUMN     "attempts" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "fromDate" TIMESTAMP(3),
+ADD COLUMN     "lockedUntil" TIMESTAMP(3),
+ADD COLUMN     "maxAttempts" INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN     "runAfter" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+ADD COLUMN     "step" TEXT,
+ADD COLUMN     "trigger" TEXT NOT NULL DEFAULT 'manual';
+
+-- Jobs the old inline sync left unfinished would hold their connection forever
+UPDATE "sync_jobs" SET "status" = 'error', "errorMessage" = 'Abandoned' WHERE "status" IN ('pending', 'running');
+
+-- CreateIndex
+CREATE INDEX "sync_jobs_status_runAfter_idx" ON "sync_jobs"("status", "runAfter");
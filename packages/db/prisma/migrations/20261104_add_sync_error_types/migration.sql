@@ -0,0 +1,9 @@
+-- AlterTable
+ALTER TABLE "bank_connections" ADD COLUMN     "failedLoginCount" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "lastSyncErrorType" TEXT;
+
+-- AlterTable
+ALTER TABLE "sync_jobs" ADD COLUMN     "errorType" TEXT;
+
+-- Connections waiting for re-authentication were all waiting for 2FA
+UPDATE "bank_connections" SET "lastSyncErrorType" = 'TOKEN_EXPIRED' WHERE "lastSyncStatus" = 'auth_required';
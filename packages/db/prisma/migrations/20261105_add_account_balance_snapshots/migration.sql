@@ -0,0 +1,22 @@
+-- CreateTable
+CREATE TABLE "account_balance_snapshots" (
+    "id" TEXT NOT NULL,
+    "accountId" TEXT NOT NULL,
+    "date" TIMESTAMP(3) NOT NULL,
+    "balance" DOUBLE PRECISION NOT NULL,
+    "source" TEXT NOT NULL,
+    "note" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "account_balance_snapshots_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "account_balance_snapshots_accountId_date_idx" ON "account_balance_snapshots"("accountId", "date");
+
+-- AddForeignKey
+ALTER TABLE "account_balance_snapshots" ADD CONSTRAINT "account_balance_snapshots_accountId_fkey" FOREIGN KEY ("accountId") REFERENCES "accounts"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Balances entered before snapshots existed become the first snapshot of their account
+INSERT INTO "account_balance_snapshots" ("id", "accountId", "date", "balance", "source")
+SELECT gen_random_uuid()::text, "id", "updatedAt", "balance", 'manual' FROM "accounts" WHERE "balance" <> 0;
@@ -0,0 +1,28 @@
+-- DropIndex
+DROP INDEX "exchange_rates_currency_baseCurrency_idx";
+
+-- DropIndex
+DROP INDEX "exchange_rates_currency_baseCurrency_date_key";
+
+-- AlterTable
+ALTER TABLE "exchange_rates" ADD COLUMN     "householdId" TEXT;
+
+-- Rates loaded so far were shared: give every household its own copy
+INSERT INTO "exchange_rates" ("id", "householdId", "date", "currency", "baseCurrency", "rate", "source", "createdAt", "updatedAt")
+SELECT gen_random_uuid()::text, h."id", r."date", r."currency", r."baseCurrency", r."rate", r."source", r."createdAt", r."updatedAt"
+FROM "exchange_rates" r
+CROSS JOIN "households" h
+WHERE r."householdId" IS NULL;
+
+DELETE FROM "exchange_rates" WHERE "householdId" IS NULL;
+
+ALTER TABLE "exchange_rates" ALTER COLUMN "householdId" SET NOT NULL;
+
+-- CreateIndex
+CREATE INDEX "exchange_rates_householdId_currency_baseCurrency_idx" ON "exchange_rates"("householdId", "currency", "baseCurrency");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "exchange_rates_householdId_currency_baseCurrency_date_key" ON "exchange_rates"("householdId", "currency", "baseCurrency", "date");
+
+-- AddForeignKey
+ALTER TABLE "exchange_rates" ADD CONSTRAINT "exchange_rates_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
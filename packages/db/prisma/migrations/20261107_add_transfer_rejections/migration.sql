@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "transfer_rejections" (
+    "id" TEXT NOT NULL,
+    "outgoingId" TEXT NOT NULL,
+    "incomingId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "transfer_rejections_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "transfer_rejections_incomingId_idx" ON "transfer_rejections"("incomingId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "transfer_rejections_outgoingId_incomingId_key" ON "transfer_rejections"("outgoingId", "incomingId");
+
+-- AddForeignKey
+ALTER TABLE "transfer_rejections" ADD CONSTRAINT "transfer_rejections_outgoingId_fkey" FOREIGN KEY ("outgoingId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "transfer_rejections" ADD CONSTRAINT "transfer_rejections_incomingId_fkey" FOREIGN KEY ("incomingId") REFERENCES "transactions"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Broken pairs used to exclude both legs from all detection. Their peers were not kept,
+-- so the legs become candidates again; breaking a pair now records just that pair
+UPDATE "transactions" SET "transferStatus" = NULL WHERE "transferStatus" = 'rejected';
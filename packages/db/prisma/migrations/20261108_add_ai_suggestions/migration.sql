@@ -0,0 +1,26 @@
+-- CreateTable
+CREATE TABLE "ai_suggestions" (
+    "id" TEXT NOT NULL,
+    "householdId" TEXT NOT NULL,
+    "merchantKey" TEXT NOT NULL,
+    "categoryId" TEXT NOT NULL,
+    "confidence" DOUBLE PRECISION NOT NULL,
+    "reason" TEXT NOT NULL,
+    "reasoning" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ai_suggestions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ai_suggestions_categoryId_idx" ON "ai_suggestions"("categoryId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ai_suggestions_householdId_merchantKey_key" ON "ai_suggestions"("householdId", "merchantKey");
+
+-- AddForeignKey
+ALTER TABLE "ai_suggestions" ADD CONSTRAINT "ai_suggestions_householdId_fkey" FOREIGN KEY ("householdId") REFERENCES "households"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ai_suggestions" ADD CONSTRAINT "ai_suggestions_categoryId_fkey" FOREIGN KEY ("categoryId") REFERENCES "categories"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- DropIndex
+DROP INDEX "budgets_householdId_categoryId_month_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "budgets_householdId_categoryId_month_period_key" ON "budgets"("householdId", "categoryId", "month", "period");
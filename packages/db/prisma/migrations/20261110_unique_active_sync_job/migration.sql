@@ -0,0 +1,14 @@
+-- Concurrent triggers could queue two active jobs for one connection; keep the oldest
+UPDATE "sync_jobs" SET "status" = 'error', "errorMessage" = 'Duplicate', "completedAt" = CURRENT_TIMESTAMP
+WHERE "status" IN ('queued', 'running', 'retrying')
+  AND EXISTS (
+    SELECT 1 FROM "sync_jobs" AS "older"
+    WHERE "older"."connectionId" = "sync_jobs"."connectionId"
+      AND "older"."status" IN ('queued', 'running', 'retrying')
+      AND ("older"."createdAt", "older"."id") < ("sync_jobs"."createdAt", "sync_jobs"."id")
+  );
+
+-- CreateIndex
+-- One queued, running or retrying job per connection. Partial indexes can't be declared in
+-- schema.prisma, so this one lives only in the migrations
+CREATE UNIQUE INDEX "sync_jobs_connectionId_active_key" ON "sync_jobs"("connectionId") WHERE "status" IN ('queued', 'running', 'retrying');
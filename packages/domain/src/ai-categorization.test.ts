@@ -0,0 +1,228 @@
+import { describe, expect, it, vi } from 'vitest';
+import {
+  type AIExample,
+  type AIProvider,
+  categorizeBatchWithAI,
+  findSimilarExamples,
+  normalizeMerchantKey,
+  resolveAIProvider,
+} from './ai-categorization';
+import { categorizeTransactions } from './categorization';
+import type { CategoryForCategorization, TransactionInput } from './types';
+
+const categories: CategoryForCategorization[] = [
+  { id: 'cat-food', name: 'Food', type: 'expense' },
+  { id: 'cat-transport', name: 'Transport', type: 'expense' },
+  { id: 'cat-salary', name: 'Salary', type: 'income' },
+];
+
+const tx = (merchant: string, direction: 'income' | 'expense' = 'expense'): TransactionInput => ({
+  description: `Payment ${merchant}`,
+  merchant,
+  amount: 42,
+  direction,
+});
+
+// Answers every numbered transaction in the prompt with the category the test picks
+function fakeProvider(pick: (line: string) => string, confidence = 0.9) {
+  const generate = vi.fn(async (prompt: string) => {
+    const lines = prompt.split('\n').filter((line) => /^\d+\. /.test(line));
+    return {
+      results: lines.map((line, i) => ({
+        index: i + 1,
+        categoryId: pick(line),
+        confidence,
+        reasoning: 'test',
+      })),
+    };
+  });
+  return { provider: { name: 'fake', generate } satisfies AIProvider, generate };
+}
+
+describe('categorizeBatchWithAI', () => {
+  it('should send each normalized merchant once and answer every transaction', async () => {
+    const { provider, generate } = fakeProvider((line) =>
+      line.includes('Gett') ? 'cat-transport' : 'cat-food'
+    );
+
+    const results = await categorizeBatchWithAI(
+      [tx('WOLT 1234'), tx('Gett'), tx('Wolt 5678')],
+      categories,
+      provider
+    );
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(generate.mock.calls[0]?.[0]).not.toContain('Wolt 5678');
+    expect(results.map((r) => r?.categoryId)).toEqual(['cat-food', 'cat-transport', 'cat-food']);
+    expect(results[0]).toMatchObject({ source: 'ai_suggestion', confidence: 0.85 });
+  });
+
+  it('should split requests into batches', async () => {
+    const { provider, generate } = fakeProvider(() => 'cat-food');
+
+    await categorizeBatchWithAI([tx('Aroma'), tx('Wolt'), tx('Cofix')], categories, provider, {
+      batchSize: 2,
+    });
+
+    expect(generate).toHaveBeenCalledTimes(2);
+  });
+
+  it('should stop after maxBatches requests and leave the rest unanswered', async () => {
+    const { provider, generate } = fakeProvider(() => 'cat-food');
+
+    const results = await categorizeBatchWithAI(
+      [tx('Aroma'), tx('Wolt'), tx('Cofix')],
+      categories,
+      provider,
+      { batchSize: 2, maxBatches: 1 }
+    );
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(results.map((r) => r?.categoryId ?? null)).toEqual(['cat-food', 'cat-food', null]);
+  });
+
+  it('should not send merchants that are already cached', async () => {
+    const cache = new Map();
+    const { provider, generate } = fakeProvider(() => 'cat-food');
+
+    await categorizeBatchWithAI([tx('Wolt')], categories, provider, { cache });
+    const results = await categorizeBatchWithAI([tx('WOLT')], categories, provider, { cache });
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(results[0]?.categoryId).toBe('cat-food');
+  });
+
+  it('should drop answers with unknown categories or an invalid shape', async () => {
+    const { provider } = fakeProvider(() => 'cat-unknown');
+    expect(await categorizeBatchWithAI([tx('Wolt')], categories, provider)).toEqual([null]);
+
+    const broken: AIProvider = { name: 'broken', generate: async () => ({ answer: 'food' }) };
+    expect(await categorizeBatchWithAI([tx('Wolt')], categories, broken)).toEqual([null]);
+  });
+
+  it('should keep the other batches when one request fails', async () => {
+    let calls = 0;
+    const flaky: AIProvider = {
+      name: 'flaky',
+      generate: async () => {
+        calls++;
+        if (calls === 1) throw new Error('timeout');
+        return { results: [{ index: 1, categoryId: 'cat-food', confidence: 0.7, reasoning: 'x' }] };
+      },
+    };
+
+    const results = await categorizeBatchWithAI([tx('Aroma'), tx('Wolt')], categories, flaky, {
+      batchSize: 1,
+    });
+
+    expect(results.map((r) => r?.categoryId ?? null)).toEqual([null, 'cat-food']);
+  });
+});
+
+describe('few-shot examples', () => {
+  const history: AIExample[] = [
+    { ...tx('Shufersal Deal'), amount: 230, categoryId: 'cat-groceries' },
+    { ...tx('Shufersal Deal'), amount: 180, categoryId: 'cat-groceries' },
+    { ...tx('Super-Pharm'), amount: 60, categoryId: 'cat-health' },
+    { ...tx('Gett'), amount: 45, categoryId: 'cat-transport' },
+    { ...tx('Salary ACME', 'income'), amount: 12000, categoryId: 'cat-salary' },
+  ];
+
+  it('should rank the same merchant first and skip unrelated transactions', () => {
+    const examples = findSimilarExamples({ ...tx('SHUFERSAL DEAL 123'), amount: 200 }, history);
+
+    expect(examples.map((e) => e.categoryId)).toEqual(['cat-groceries']);
+  });
+
+  it('should match on shared description words and ignore other directions', () => {
+    const examples = findSimilarExamples(
+      {
+        description: 'Pharm purchase',
+        merchant: 'Super-Pharm Ramat Aviv',
+        amount: 55,
+        direction: 'expense',
+      },
+      history
+    );
+
+    expect(examples[0]?.categoryId).toBe('cat-health');
+    expect(findSimilarExamples(tx('ACME', 'expense'), history)).toEqual([]);
+  });
+
+  it('should put the examples in the prompt and keep the model reasoning', async () => {
+    const categoriesWithGroceries = [
+      ...categories,
+      { id: 'cat-groceries', name: 'Groceries (מכולת)', type: 'expense' as const },
+    ];
+    const { provider, generate } = fakeProvider(() => 'cat-groceries');
+
+    const [result] = await categorizeBatchWithAI(
+      [tx('Shufersal Sheli')],
+      categoriesWithGroceries,
+      provider,
+      { history }
+    );
+
+    const prompt = generate.mock.calls[0]?.[0] ?? '';
+    expect(prompt).toContain('Shufersal Deal');
+    expect(prompt).toContain('cat-groceries (Groceries (מכולת))');
+    expect(prompt).not.toContain('Gett');
+    expect(result?.reasoning).toBe('test');
+  });
+});
+
+describe('categorizeTransactions', () => {
+  it('should only send transactions the rules did not categorize', async () => {
+    const { provider, generate } = fakeProvider(() => 'cat-food');
+    const rules = [
+      {
+        id: 'r1',
+        householdId: 'h1',
+        categoryId: 'cat-transport',
+        type: 'merchant' as const,
+        pattern: 'gett',
+        priority: 5,
+        isActive: true,
+      },
+    ];
+    const gett = tx('Gett');
+    const wolt = tx('Wolt');
+
+    const results = await categorizeTransactions([gett, wolt], rules, categories, {
+      enableAI: true,
+      aiProvider: provider,
+    });
+
+    expect(generate).toHaveBeenCalledTimes(1);
+    expect(generate.mock.calls[0]?.[0]).not.toContain('Gett');
+    expect(results.get(gett)?.source).toBe('rule_merchant');
+    expect(results.get(wolt)?.source).toBe('ai_suggestion');
+  });
+});
+
+describe('normalizeMerchantKey', () => {
+  it('should ignore case, digits and punctuation but keep the direction', () => {
+    expect(normalizeMerchantKey(tx('WOLT *1234, TLV'))).toBe(normalizeMerchantKey(tx('Wolt TLV')));
+    expect(normalizeMerchantKey(tx('Wolt', 'income'))).not.toBe(normalizeMerchantKey(tx('Wolt')));
+  });
+});
+
+describe('resolveAIProvider', () => {
+  it('should prefer a configured OpenAI-compatible endpoint, then Ollama, then cloud keys', () => {
+    expect(
+      resolveAIProvider({
+        AI_BASE_URL: 'http://llm:8000/v1',
+        AI_MODEL: 'qwen',
+        GEMINI_API_KEY: 'k',
+      })?.name
+    ).toBe('openai-compatible');
+    expect(resolveAIProvider({ OLLAMA_ENABLED: 'true', AI_GATEWAY_API_KEY: 'k' })?.name).toBe(
+      'ollama'
+    );
+    expect(resolveAIProvider({ AI_GATEWAY_API_KEY: 'k', GEMINI_API_KEY: 'k' })?.name).toBe(
+      'vercel-ai-gateway'
+    );
+    expect(resolveAIProvider({ GEMINI_API_KEY: 'k' })?.name).toBe('gemini');
+    expect(resolveAIProvider({ OLLAMA_ENABLED: 'false' })).toBeNull();
+  });
+});
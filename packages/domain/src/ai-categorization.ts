@@ -1,11 +1,18 @@
 /**
- * AI-powered category suggestion using Vercel AI SDK with AI Gateway
- * Provides reliable cloud-based AI categorization for transactions with structured output
+ * AI-powered category suggestion
+ * Transactions are sent in batches, one request per batch, and every response is validated
+ * with Zod before it is trusted.
  *
- * Uses Vercel AI Gateway for:
- * - Unified API across multiple providers (OpenAI, Anthropic, Google)
- * - Built-in rate limiting and error handling
- * - Type-safe structured output with Zod schemas
+ * Providers (see resolveAIProvider):
+ * - Any OpenAI-compatible endpoint, including a local Ollama server - no cloud key needed
+ * - Vercel AI Gateway (unified access to OpenAI, Anthropic, Google)
+ * - Google Gemini direct API (legacy)
+ *
+ * Results are cached per normalized merchant, so a merchant that appears many times in an
+ * import (or in a later one, when the caller keeps the cache) is only sent once.
+ *
+ * When the caller passes the household's categorized history, the prompt includes the most
+ * similar past transactions as examples, so the model follows the household's own habits.
  */
 
 import { z } from 'zod';
@@ -22,368 +29,457 @@ const categorizationResponseSchema = z.object({
   reasoning: z.string().describe('Brief explanation for the category selection'),
 });
 
-// Type inference for IDE support (used by generateObject at runtime)
-// eslint-disable-next-line @typescript-eslint/no-unused-vars
-type _CategorizationResponse = z.infer<typeof categorizationResponseSchema>;
+// A batch answers many transactions at once, each identified by its number in the prompt
+const batchResponseSchema = z.object({
+  results: z.array(
+    categorizationResponseSchema.extend({
+      index: z.number().int().min(1).describe('The transaction number from the list'),
+    })
+  ),
+});
+
+type CategorizationResponse = z.infer<typeof categorizationResponseSchema>;
 
 /**
- * Suggest a category for a transaction using Vercel AI SDK
- * Falls back to direct API call if AI SDK is not available
- *
- * @param tx - Transaction to categorize
- * @param categories - Available categories
- * @param apiKey - AI Gateway API key or legacy Gemini API key
- * @returns Categorization result or null if AI fails
+ * A model that turns a prompt into JSON shaped like `schema`
+ * The output is validated again by the caller, so providers may return anything parseable.
  */
-export const suggestCategoryWithAI = async (
-  tx: TransactionInput,
-  categories: CategoryForCategorization[],
-  apiKey?: string
-): Promise<BaseCategorizationResult | null> => {
-  if (!apiKey) {
-    console.warn('AI categorization skipped: No API key provided');
-    return null;
-  }
+export interface AIProvider {
+  name: string;
+  generate(prompt: string, schema: z.ZodTypeAny, options: { maxTokens: number }): Promise<unknown>;
+}
 
-  try {
-    // Try Vercel AI Gateway first (if generateObject is available)
-    const result = await categorizeWithVercelAI(tx, categories, apiKey);
-    if (result) {
-      return result;
-    }
+// Cached suggestions by normalized merchant; any Map works
+export interface AICategoryCache {
+  get(key: string): BaseCategorizationResult | undefined;
+  set(key: string, value: BaseCategorizationResult): unknown;
+}
 
-    // Fall back to direct API call (legacy Gemini)
-    return await categorizeWithDirectAPI(tx, categories, apiKey);
-  } catch (error) {
-    // Graceful degradation - log but don't fail
-    if (error instanceof Error && error.name === 'TimeoutError') {
-      console.warn('AI categorization timed out after 10s');
-    } else if (error instanceof Error && error.name === 'AbortError') {
-      console.warn('AI categorization was aborted');
-    } else {
-      console.error('AI categorization failed:', error);
-    }
-    return null; // Fall through to next categorization method
-  }
-};
+// An already-categorized transaction from the household, used as a few-shot example
+export type AIExample = TransactionInput & { categoryId: string };
+
+export interface AIBatchOptions {
+  batchSize?: number;
+  maxBatches?: number; // Requests to make at most; merchants beyond them are left unanswered
+  cache?: AICategoryCache;
+  history?: AIExample[];
+  examplesPerTransaction?: number;
+}
+
+const DEFAULT_BATCH_SIZE = 25;
+const DEFAULT_EXAMPLES_PER_TRANSACTION = 3;
+const MAX_EXAMPLES_PER_PROMPT = 30;
+const MIN_TOKEN_SIMILARITY = 0.25;
+const REQUEST_TIMEOUT_MS = 60_000;
+
+// AI suggestions are good but not perfect: never more confident than a merchant rule
+const MAX_AI_CONFIDENCE = 0.85;
+
+const DEFAULT_GATEWAY_MODEL = 'anthropic/claude-sonnet-4';
+const DEFAULT_OLLAMA_BASE_URL = 'http://localhost:11434';
+const DEFAULT_OLLAMA_MODEL = 'llama3.2:3b';
 
 /**
- * Categorize using Vercel AI SDK with generateObject for structured output
+ * Any OpenAI-compatible chat endpoint: Ollama, LM Studio, vLLM, OpenAI itself
  */
-async function categorizeWithVercelAI(
-  tx: TransactionInput,
-  categories: CategoryForCategorization[],
-  apiKey: string
-): Promise<BaseCategorizationResult | null> {
-  try {
-    // Dynamically import AI SDK to avoid build issues if not installed
-    const { generateObject } = await import('ai');
-    const { createOpenAICompatible } = await import('@ai-sdk/openai-compatible');
-
-    // Create the AI Gateway provider
-    const gateway = createOpenAICompatible({
-      name: 'vercel-ai-gateway',
-      apiKey,
-      baseURL: 'https://ai-gateway.vercel.sh/v1',
-    });
-
-    // Build the prompt
-    const prompt = buildPromptForVercel(tx, categories);
+export function createOpenAICompatibleProvider(options: {
+  baseURL: string;
+  model: string;
+  apiKey?: string;
+  name?: string;
+}): AIProvider {
+  const name = options.name ?? 'openai-compatible';
+  return {
+    name,
+    async generate(prompt, schema, { maxTokens }) {
+      // Dynamically import AI SDK to avoid build issues if not installed
+      const { generateObject } = await import('ai');
+      const { createOpenAICompatible } = await import('@ai-sdk/openai-compatible');
+
+      const provider = createOpenAICompatible({
+        name,
+        apiKey: options.apiKey,
+        baseURL: options.baseURL,
+      });
+      const { object } = await generateObject({
+        model: provider(options.model),
+        schema,
+        prompt,
+        maxTokens,
+        abortSignal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+      });
+      return object;
+    },
+  };
+}
 
-    // Generate structured output
-    const { object } = await generateObject({
-      model: gateway('anthropic/claude-sonnet-4'),
-      schema: categorizationResponseSchema,
-      prompt,
-      maxTokens: 256,
-    });
+/**
+ * Vercel AI Gateway with structured output
+ */
+export function createGatewayProvider(apiKey: string, model = DEFAULT_GATEWAY_MODEL): AIProvider {
+  return createOpenAICompatibleProvider({
+    name: 'vercel-ai-gateway',
+    baseURL: 'https://ai-gateway.vercel.sh/v1',
+    apiKey,
+    model,
+  });
+}
 
-    // Validate that the category ID exists in our list
-    const validCategory = categories.find((c) => c.id === object.categoryId);
-
-    if (!validCategory) {
-      console.warn(`AI returned invalid category ID: ${object.categoryId}`);
-      // Try partial match
-      const partialMatch = categories.find(
-        (c) =>
-          c.id.includes(object.categoryId) ||
-          object.categoryId.includes(c.id) ||
-          c.name.toLowerCase().includes(object.reasoning.toLowerCase())
+/**
+ * Google Gemini direct API (legacy); asks for JSON in the prompt and parses the text
+ */
+export function createGeminiProvider(apiKey: string): AIProvider {
+  return {
+    name: 'gemini',
+    async generate(prompt, _schema, { maxTokens }) {
+      const response = await fetch(
+        `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
+        {
+          method: 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({
+            contents: [{ parts: [{ text: prompt }] }],
+            generationConfig: {
+              temperature: 0.1, // Very low for consistent categorization
+              maxOutputTokens: maxTokens,
+              responseMimeType: 'application/json',
+            },
+          }),
+          signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+        }
       );
 
-      if (partialMatch) {
-        return {
-          categoryId: partialMatch.id,
-          confidence: Math.min(object.confidence * 0.8, 0.7),
-          source: 'ai_suggestion',
-          reason: `AI (partial match): ${object.reasoning}`,
-          matchedRule: null,
-        };
+      if (!response.ok) {
+        throw new Error(`Gemini API returned status ${response.status}: ${await response.text()}`);
       }
-      return null;
-    }
 
-    // Cap confidence at 0.85 (AI suggestions are good but not perfect)
-    const cappedConfidence = Math.min(object.confidence, 0.85);
+      type GeminiResponse = {
+        candidates?: Array<{ content?: { parts?: Array<{ text?: string }> } }>;
+        error?: { message: string };
+      };
+      const data = (await response.json()) as GeminiResponse;
+      if (data.error) {
+        throw new Error(`Gemini API error: ${data.error.message}`);
+      }
 
-    return {
-      categoryId: object.categoryId,
-      confidence: cappedConfidence,
-      source: 'ai_suggestion',
-      reason: `AI: ${object.reasoning}`,
-      matchedRule: null,
-    };
-  } catch (error) {
-    // If AI SDK is not available or fails, return null to try fallback
-    if (
-      error instanceof Error &&
-      (error.message.includes('Cannot find module') || error.message.includes('MODULE_NOT_FOUND'))
-    ) {
-      console.info('Vercel AI SDK not available, using direct API fallback');
-      return null;
-    }
-    throw error;
+      return parseJsonText(data.candidates?.[0]?.content?.parts?.[0]?.text ?? '');
+    },
+  };
+}
+
+/**
+ * Pick the AI provider from environment variables, or null when AI is not configured
+ *
+ * 1. AI_BASE_URL + AI_MODEL (+ AI_API_KEY): any OpenAI-compatible endpoint
+ * 2. OLLAMA_ENABLED=true: local Ollama (OLLAMA_BASE_URL, OLLAMA_MODEL)
+ * 3. AI_GATEWAY_API_KEY: Vercel AI Gateway (AI_MODEL overrides the model)
+ * 4. GEMINI_API_KEY: Google Gemini direct API
+ */
+export function resolveAIProvider(env: Record<string, string | undefined>): AIProvider | null {
+  if (env.AI_BASE_URL && env.AI_MODEL) {
+    return createOpenAICompatibleProvider({
+      baseURL: env.AI_BASE_URL,
+      model: env.AI_MODEL,
+      apiKey: env.AI_API_KEY,
+    });
   }
+  if (env.OLLAMA_ENABLED === 'true') {
+    const baseURL = (env.OLLAMA_BASE_URL || DEFAULT_OLLAMA_BASE_URL).replace(/\/+$/, '');
+    return createOpenAICompatibleProvider({
+      name: 'ollama',
+      baseURL: `${baseURL}/v1`,
+      model: env.OLLAMA_MODEL || DEFAULT_OLLAMA_MODEL,
+    });
+  }
+  if (env.AI_GATEWAY_API_KEY) {
+    return createGatewayProvider(env.AI_GATEWAY_API_KEY, env.AI_MODEL || undefined);
+  }
+  if (env.GEMINI_API_KEY) {
+    return createGeminiProvider(env.GEMINI_API_KEY);
+  }
+  return null;
 }
 
 /**
- * Build prompt for Vercel AI SDK
+ * Cache key for a transaction: its merchant (or description) without digits, punctuation
+ * and extra spaces, so "WOLT 1234 TLV" and "Wolt 5678 TLV" share a suggestion
  */
-function buildPromptForVercel(
-  tx: TransactionInput,
-  categories: CategoryForCategorization[]
+export function normalizeMerchantKey(
+  tx: Pick<TransactionInput, 'description' | 'merchant'> & { direction: string }
 ): string {
-  // Group categories by type for better context
-  const incomeCategories = categories.filter((c) => c.type === 'income');
-  const expenseCategories = categories.filter((c) => c.type === 'expense');
-
-  const relevantCategories = tx.direction === 'income' ? incomeCategories : expenseCategories;
-
-  const categoryList = relevantCategories.map((c) => `- ${c.id}: ${c.name}`).join('\n');
+  const text = (tx.merchant || tx.description)
+    .toLowerCase()
+    .replace(/[\d\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+  return `${tx.direction}:${text}`;
+}
 
-  return `You are a financial transaction categorization assistant for a Hebrew/Israeli user. Categorize this transaction.
+function textTokens(tx: TransactionInput): Set<string> {
+  return new Set(
+    `${tx.merchant ?? ''} ${tx.description}`
+      .toLowerCase()
+      .split(/[^\p{L}]+/u)
+      .filter((word) => word.length >= 3)
+  );
+}
 
-Transaction:
-- Description: ${tx.description}
-- Merchant: ${tx.merchant || 'Unknown'}
-- Amount: ₪${tx.amount}
-- Type: ${tx.direction}
+/**
+ * How alike two transactions are: same normalized merchant, shared description words and
+ * closeness in amount. Words are weighted by `weight` so common ones ("payment") count little;
+ * pairs with a different merchant and too few meaningful shared words score 0.
+ */
+function similarity(
+  a: TransactionInput,
+  b: TransactionInput,
+  weight: (token: string) => number
+): number {
+  if (a.direction !== b.direction) return 0;
+
+  const sameMerchant = normalizeMerchantKey(a) === normalizeMerchantKey(b);
+  const tokensA = textTokens(a);
+  const tokensB = textTokens(b);
+  let shared = 0;
+  let union = 0;
+  for (const token of new Set([...tokensA, ...tokensB])) {
+    union += weight(token);
+    if (tokensA.has(token) && tokensB.has(token)) shared += weight(token);
+  }
+  const tokenScore = union > 0 ? shared / union : 0;
+  if (!sameMerchant && tokenScore < MIN_TOKEN_SIMILARITY) return 0;
 
-Available Categories (choose from these EXACT IDs):
-${categoryList}
+  const largest = Math.max(Math.abs(a.amount), Math.abs(b.amount), 1);
+  const amountScore = 1 - Math.min(Math.abs(Math.abs(a.amount) - Math.abs(b.amount)) / largest, 1);
 
-IMPORTANT: The categoryId MUST be one of the exact IDs listed above (e.g., "cm123abc..."). 
-Hebrew text in descriptions is common - understand them contextually.
-Provide a confidence score (0.0-1.0) and brief reasoning in English.`;
+  return (sameMerchant ? 2 : 0) + tokenScore * 2 + amountScore * 0.5;
 }
 
 /**
- * Fallback: Direct API call to Gemini (legacy method)
+ * The household's past transactions most similar to `tx`, best first
+ * Only one example per merchant and category, so a frequent merchant doesn't crowd out the rest.
  */
-async function categorizeWithDirectAPI(
+export function findSimilarExamples(
   tx: TransactionInput,
-  categories: CategoryForCategorization[],
-  apiKey: string
-): Promise<BaseCategorizationResult | null> {
-  const prompt = buildLegacyPrompt(tx, categories);
-
-  const response = await fetch(
-    `https://generativelanguage.googleapis.com/v1beta/models/gemini-2.0-flash:generateContent?key=${apiKey}`,
-    {
-      method: 'POST',
-      headers: { 'Content-Type': 'application/json' },
-      body: JSON.stringify({
-        contents: [
-          {
-            parts: [{ text: prompt }],
-          },
-        ],
-        generationConfig: {
-          temperature: 0.1, // Very low for consistent categorization
-          maxOutputTokens: 256,
-        },
-      }),
-      signal: AbortSignal.timeout(10000), // 10 second timeout
+  history: AIExample[],
+  limit = DEFAULT_EXAMPLES_PER_TRANSACTION
+): AIExample[] {
+  // Inverse document frequency over the history: rare words say more about a transaction
+  const documentFrequency = new Map<string, number>();
+  for (const example of history) {
+    for (const token of textTokens(example)) {
+      documentFrequency.set(token, (documentFrequency.get(token) ?? 0) + 1);
     }
+  }
+  const weight = (token: string) =>
+    Math.log(1 + history.length / (documentFrequency.get(token) ?? 1));
+
+  const best = new Map<string, { example: AIExample; score: number }>();
+  for (const example of history) {
+    const score = similarity(tx, example, weight);
+    if (score === 0) continue;
+    const key = `${normalizeMerchantKey(example)}:${example.categoryId}`;
+    const current = best.get(key);
+    if (!current || score > current.score) best.set(key, { example, score });
+  }
+  return [...best.values()]
+    .sort((a, b) => b.score - a.score)
+    .slice(0, limit)
+    .map((entry) => entry.example);
+}
+
+/**
+ * Categorize many transactions with as few AI requests as possible
+ * Transactions sharing a normalized merchant are sent once; cached merchants are not sent.
+ * A failed batch leaves its transactions null rather than failing the others, as do merchants
+ * past `maxBatches` requests.
+ *
+ * @returns One result per input transaction, in order; null where AI had no valid answer
+ */
+export async function categorizeBatchWithAI(
+  transactions: TransactionInput[],
+  categories: CategoryForCategorization[],
+  provider: AIProvider,
+  options: AIBatchOptions = {}
+): Promise<Array<BaseCategorizationResult | null>> {
+  const cache = options.cache ?? new Map<string, BaseCategorizationResult>();
+  const batchSize = Math.max(1, options.batchSize ?? DEFAULT_BATCH_SIZE);
+  const keys = transactions.map(normalizeMerchantKey);
+
+  // One representative transaction per merchant that still needs an answer
+  const pending = new Map<string, TransactionInput>();
+  transactions.forEach((tx, i) => {
+    const key = keys[i] as string;
+    const cached = cache.get(key);
+    if (cached?.categoryId && categories.some((c) => c.id === cached.categoryId)) return;
+    if (!pending.has(key)) pending.set(key, tx);
+  });
+
+  const entries = [...pending.entries()].slice(
+    0,
+    options.maxBatches === undefined ? undefined : options.maxBatches * batchSize
   );
+  for (let start = 0; start < entries.length; start += batchSize) {
+    const batch = entries.slice(start, start + batchSize);
+    try {
+      const batchTransactions = batch.map(([, tx]) => tx);
+      const examples = selectExamples(batchTransactions, options);
+      const raw = await provider.generate(
+        buildBatchPrompt(batchTransactions, categories, examples),
+        batchResponseSchema,
+        { maxTokens: 200 + batch.length * 120 }
+      );
+      const parsed = batchResponseSchema.safeParse(raw);
+      if (!parsed.success) {
+        console.warn(`AI (${provider.name}) returned an invalid batch response`, parsed.error);
+        continue;
+      }
 
-  if (!response.ok) {
-    const errorText = await response.text();
-    console.warn(`Gemini API returned status ${response.status}: ${errorText}`);
-    return null;
+      for (const answer of parsed.data.results) {
+        const [key] = batch[answer.index - 1] ?? [];
+        const result = key && toCategorizationResult(answer, categories);
+        if (key && result) cache.set(key, result);
+      }
+    } catch (error) {
+      // Graceful degradation - log but don't fail the other batches
+      console.error(`AI categorization batch failed (${provider.name}):`, error);
+    }
   }
 
-  type GeminiResponse = {
-    candidates?: Array<{
-      content?: {
-        parts?: Array<{
-          text?: string;
-        }>;
-      };
-    }>;
-    error?: {
-      message: string;
-    };
-  };
+  return keys.map((key) => {
+    const cached = cache.get(key);
+    return cached && categories.some((c) => c.id === cached.categoryId) ? cached : null;
+  });
+}
 
-  const data = (await response.json()) as GeminiResponse;
+/**
+ * Suggest a category for a single transaction (a batch of one)
+ *
+ * @returns Categorization result or null if AI fails
+ */
+export const suggestCategoryWithAI = async (
+  tx: TransactionInput,
+  categories: CategoryForCategorization[],
+  provider: AIProvider,
+  options: AIBatchOptions = {}
+): Promise<BaseCategorizationResult | null> => {
+  const [result] = await categorizeBatchWithAI([tx], categories, provider, options);
+  return result ?? null;
+};
 
-  if (data.error) {
-    console.warn(`Gemini API error: ${data.error.message}`);
-    return null;
+// Examples for a whole batch: the best matches for each transaction, without repeats
+function selectExamples(transactions: TransactionInput[], options: AIBatchOptions): AIExample[] {
+  if (!options.history?.length) return [];
+  const perTransaction = options.examplesPerTransaction ?? DEFAULT_EXAMPLES_PER_TRANSACTION;
+  const selected = new Set<AIExample>();
+  for (const tx of transactions) {
+    for (const example of findSimilarExamples(tx, options.history, perTransaction)) {
+      selected.add(example);
+    }
   }
+  return [...selected].slice(0, MAX_EXAMPLES_PER_PROMPT);
+}
 
-  const responseText = data.candidates?.[0]?.content?.parts?.[0]?.text;
-  if (!responseText) {
-    console.warn('Gemini returned empty response');
-    return null;
+/**
+ * Check the answer's category against the household's categories
+ * The model sometimes returns a truncated or padded ID; those get reduced confidence
+ */
+function toCategorizationResult(
+  answer: CategorizationResponse,
+  categories: CategoryForCategorization[]
+): BaseCategorizationResult | null {
+  if (categories.some((c) => c.id === answer.categoryId)) {
+    return {
+      categoryId: answer.categoryId,
+      confidence: Math.min(answer.confidence, MAX_AI_CONFIDENCE),
+      source: 'ai_suggestion',
+      reason: `AI: ${answer.reasoning}`,
+      reasoning: answer.reasoning,
+      matchedRule: null,
+    };
   }
 
-  const result = parseLegacyResponse(responseText, categories);
-
-  if (!result.categoryId) {
-    console.warn('AI did not return a valid category ID');
+  const partialMatch = answer.categoryId
+    ? categories.find((c) => c.id.includes(answer.categoryId) || answer.categoryId.includes(c.id))
+    : undefined;
+  if (!partialMatch) {
+    console.warn(`AI returned invalid category ID: ${answer.categoryId}`);
     return null;
   }
-
-  // Cap confidence at 0.85 (AI suggestions are good but not perfect)
-  const cappedConfidence = Math.min(result.confidence, 0.85);
-
   return {
-    categoryId: result.categoryId,
-    confidence: cappedConfidence,
+    categoryId: partialMatch.id,
+    confidence: Math.min(answer.confidence * 0.8, 0.7),
     source: 'ai_suggestion',
-    reason: `AI: ${result.reasoning}`,
+    reason: `AI (partial match): ${answer.reasoning}`,
+    reasoning: answer.reasoning,
     matchedRule: null,
   };
 }
 
-/**
- * Build a prompt for legacy direct API call
- */
-function buildLegacyPrompt(tx: TransactionInput, categories: CategoryForCategorization[]): string {
-  // Group categories by type for better context
-  const incomeCategories = categories.filter((c) => c.type === 'income');
-  const expenseCategories = categories.filter((c) => c.type === 'expense');
-
-  const relevantCategories = tx.direction === 'income' ? incomeCategories : expenseCategories;
-
-  const categoryList = relevantCategories.map((c) => `- ${c.id}: ${c.name}`).join('\n');
-
-  return `You are a financial transaction categorization assistant for a Hebrew/Israeli user. Categorize this transaction into one of the available categories.
-
-Transaction:
-- Description: ${tx.description}
-- Merchant: ${tx.merchant || 'Unknown'}
-- Amount: ₪${tx.amount}
-- Type: ${tx.direction}
-
-Available Categories:
-${categoryList}
+function buildBatchPrompt(
+  transactions: TransactionInput[],
+  categories: CategoryForCategorization[],
+  examples: AIExample[] = []
+): string {
+  const list = (type: 'income' | 'expense') =>
+    categories
+      .filter((c) => c.type === type)
+      .map((c) => `- ${c.id}: ${c.name}`)
+      .join('\n');
+
+  const rows = transactions
+    .map(
+      (tx, i) =>
+        `${i + 1}. ${tx.direction} ₪${tx.amount} | Description: ${tx.description} | Merchant: ${tx.merchant || 'Unknown'}`
+    )
+    .join('\n');
+
+  const categoryNames = new Map(categories.map((c) => [c.id, c.name]));
+  const exampleRows = examples
+    .filter((example) => categoryNames.has(example.categoryId))
+    .map(
+      (example) =>
+        `- ${example.direction} ₪${example.amount} | Description: ${example.description} | Merchant: ${example.merchant || 'Unknown'} → ${example.categoryId} (${categoryNames.get(example.categoryId)})`
+    )
+    .join('\n');
+  const examplesSection = exampleRows
+    ? `
+How this household categorized similar transactions before (follow these habits):
+${exampleRows}
+`
+    : '';
+
+  return `You are a financial transaction categorization assistant for a Hebrew/Israeli user. Categorize each transaction below.
+
+Transactions:
+${rows}
+${examplesSection}
+Expense categories (for expense transactions):
+${list('expense')}
+
+Income categories (for income transactions):
+${list('income')}
 
 Instructions:
-1. Choose the MOST appropriate category ID from the list above
-2. Provide a confidence score between 0.0 and 1.0
-3. Explain your reasoning briefly (in English)
-4. Hebrew text in descriptions is common - understand them contextually
+1. Return one result per transaction, with "index" set to the transaction's number
+2. The categoryId MUST be one of the exact IDs listed above, of the transaction's type
+3. Give a confidence score between 0.0 and 1.0 and a one-sentence reasoning in English
+4. Hebrew text in descriptions is common - understand it contextually
 
-Respond ONLY with valid JSON in this exact format (no other text, no markdown):
-{"categoryId": "<exact category ID from list>", "confidence": <number between 0.0 and 1.0>, "reasoning": "<brief explanation in 1 sentence>"}`;
+Respond ONLY with JSON in this exact format (no other text, no markdown):
+{"results": [{"index": 1, "categoryId": "<exact category ID>", "confidence": <0.0-1.0>, "reasoning": "<brief explanation>"}]}`;
 }
 
-type ParsedAIResponse = {
-  categoryId: string | null;
-  confidence: number;
-  reasoning: string;
-};
-
 /**
- * Parse legacy API response and validate the category ID
- * Handles various malformed JSON cases from AI responses
+ * Parse JSON out of a text completion, tolerating markdown fences and extra text
  */
-function parseLegacyResponse(
-  response: string,
-  categories: CategoryForCategorization[]
-): ParsedAIResponse {
-  try {
-    // Clean up response - remove markdown code blocks if present
-    const cleaned = response
-      .replace(/```json?\s*/gi, '')
-      .replace(/```\s*/g, '')
-      .trim();
-
-    // Extract JSON from response (AI might add extra text)
-    const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
-    if (!jsonMatch) {
-      return { categoryId: null, confidence: 0, reasoning: 'No JSON found' };
-    }
-
-    let jsonStr = jsonMatch[0];
-
-    // Try to fix common JSON issues from truncated responses
-    // Fix unterminated strings by finding incomplete string at end
-    const lastQuoteIndex = jsonStr.lastIndexOf('"');
-    const lastColonIndex = jsonStr.lastIndexOf(':');
-
-    // If JSON ends abruptly, try to close it properly
-    if (!jsonStr.endsWith('}')) {
-      // Check if we're in the middle of a string value
-      const openBraces = (jsonStr.match(/\{/g) || []).length;
-      const closeBraces = (jsonStr.match(/\}/g) || []).length;
-
-      if (openBraces > closeBraces) {
-        // Try to salvage: close any open string and object
-        if (lastQuoteIndex > lastColonIndex) {
-          // We're likely in a string value, close it
-          jsonStr = jsonStr + '"}';
-        } else {
-          // After a colon, incomplete value
-          jsonStr = jsonStr + '""' + '}'.repeat(openBraces - closeBraces);
-        }
-      }
-    }
-
-    const parsed = JSON.parse(jsonStr) as {
-      categoryId?: string;
-      confidence?: number;
-      reasoning?: string;
-    };
-
-    // Validate that the category ID exists in our list
-    const isValidCategory = categories.some((c) => c.id === parsed.categoryId);
-
-    if (!isValidCategory) {
-      // Try to find a partial match (AI might return slightly different ID)
-      const partialMatch = categories.find(
-        (c) => c.id.includes(parsed.categoryId || '') || (parsed.categoryId || '').includes(c.id)
-      );
-      if (partialMatch) {
-        return {
-          categoryId: partialMatch.id,
-          confidence: Math.min((parsed.confidence || 0.5) * 0.8, 0.7), // Lower confidence for partial match
-          reasoning: parsed.reasoning || 'Partial match',
-        };
-      }
-
-      return {
-        categoryId: null,
-        confidence: 0,
-        reasoning: 'Invalid category ID returned',
-      };
-    }
-
-    return {
-      categoryId: parsed.categoryId || null,
-      confidence:
-        typeof parsed.confidence === 'number' ? Math.max(0, Math.min(1, parsed.confidence)) : 0,
-      reasoning: parsed.reasoning || 'No reasoning provided',
-    };
-  } catch (error) {
-    console.warn('Failed to parse AI response:', error);
-    return {
-      categoryId: null,
-      confidence: 0,
-      reasoning: 'Parse error',
-    };
+function parseJsonText(text: string): unknown {
+  const cleaned = text
+    .replace(/```json?\s*/gi, '')
+    .replace(/```\s*/g, '')
+    .trim();
+  const jsonMatch = cleaned.match(/\{[\s\S]*\}/);
+  if (!jsonMatch) {
+    throw new Error('AI response contained no JSON');
   }
+  return JSON.parse(jsonMatch[0]);
 }
@@ -1,9 +1,14 @@
 import { describe, expect, it } from 'vitest';
 import {
+  calculateBudgetPace,
+  calculateCarryOver,
   calculateCategorySpending,
   calculateMonthlyKPIs,
   evaluateBudgetStatus,
   getAlertBudgets,
+  getBudgetPeriodMonths,
+  getBudgetPeriodRange,
+  getBudgetPeriodStart,
 } from './budget';
 import type { Budget, Transaction } from './types';
 
@@ -83,6 +88,103 @@ describe('evaluateBudgetStatus', () => {
 
     expect(result.percentUsed).toBe(0);
   });
+
+  it('should add carry-over to the planned amount and limit', () => {
+    const result = evaluateBudgetStatus(baseBudget, 1300, 400);
+
+    expect(result.carryOver).toBe(400);
+    expect(result.available).toBe(1400);
+    expect(result.remaining).toBe(100);
+    expect(result.isOverPlanned).toBe(false);
+    // 1300 of a 1600 limit
+    expect(result.status).toBe('nearing_limit');
+  });
+
+  it('should reduce the available amount after overspending', () => {
+    const result = evaluateBudgetStatus({ ...baseBudget, limitAmount: null }, 800, -300);
+
+    expect(result.available).toBe(700);
+    expect(result.status).toBe('exceeded_soft');
+  });
+});
+
+describe('calculateCarryOver', () => {
+  const period = { plannedAmount: 500, rollover: true, rolloverCap: null };
+
+  it('should accumulate unspent and overspent amounts', () => {
+    const history = [
+      { ...period, month: '2024-10', actualAmount: 200 },
+      { ...period, month: '2024-11', actualAmount: 650 },
+    ];
+
+    expect(calculateCarryOver(history, '2024-12')).toBe(150);
+  });
+
+  it('should clamp each month to its cap', () => {
+    const history = [
+      { ...period, month: '2024-10', actualAmount: 0, rolloverCap: 300 },
+      { ...period, month: '2024-11', actualAmount: 0, rolloverCap: 300 },
+      { ...period, month: '2024-12', actualAmount: 1500, rolloverCap: 300 },
+    ];
+
+    expect(calculateCarryOver(history.slice(0, 2), '2024-12')).toBe(300);
+    expect(calculateCarryOver(history, '2025-01')).toBe(-300);
+  });
+
+  it('should restart after a month without rollover or a missing month', () => {
+    expect(
+      calculateCarryOver(
+        [
+          { ...period, month: '2024-10', actualAmount: 0 },
+          { ...period, month: '2024-11', actualAmount: 0, rollover: false },
+        ],
+        '2024-12'
+      )
+    ).toBe(0);
+    expect(calculateCarryOver([{ ...period, month: '2024-10', actualAmount: 0 }], '2024-12')).toBe(
+      0
+    );
+  });
+});
+
+describe('budget periods', () => {
+  it('should find the start of the containing period', () => {
+    expect(getBudgetPeriodStart('month', '2024-08')).toBe('2024-08');
+    expect(getBudgetPeriodStart('quarter', '2024-08')).toBe('2024-07');
+    expect(getBudgetPeriodStart('quarter', '2024-12')).toBe('2024-10');
+    expect(getBudgetPeriodStart('year', '2024-08')).toBe('2024-01');
+  });
+
+  it('should list the months and range of a period', () => {
+    expect(getBudgetPeriodMonths('quarter', '2024-10')).toEqual(['2024-10', '2024-11', '2024-12']);
+    expect(getBudgetPeriodMonths('year', '2024-01')).toHaveLength(12);
+
+    const range = getBudgetPeriodRange('quarter', '2024-10');
+    expect(range.start).toEqual(new Date(2024, 9, 1));
+    expect(range.end).toEqual(new Date(2024, 11, 31, 23, 59, 59, 999));
+  });
+});
+
+describe('calculateBudgetPace', () => {
+  const year = getBudgetPeriodRange('year', '2024-01');
+
+  it('should flag spending ahead of the period', () => {
+    // 40% spent a quarter of the way through the year
+    const pace = calculateBudgetPace(4000, 10000, year, new Date(2024, 3, 1));
+
+    expect(pace.spentPct).toBe(0.4);
+    expect(pace.elapsedPct).toBeCloseTo(0.25, 1);
+    expect(pace.status).toBe('over');
+  });
+
+  it('should report on pace and under pace spending', () => {
+    expect(calculateBudgetPace(5000, 10000, year, new Date(2024, 6, 1)).status).toBe('on_pace');
+    expect(calculateBudgetPace(1000, 10000, year, new Date(2024, 6, 1)).status).toBe('under');
+  });
+
+  it('should treat a finished period as fully elapsed', () => {
+    expect(calculateBudgetPace(9000, 10000, year, new Date(2025, 5, 1)).elapsedPct).toBe(1);
+  });
 });
 
 describe('calculateCategorySpending', () => {
@@ -164,6 +266,30 @@ describe('calculateCategorySpending', () => {
 
     expect(spending).toBe(0);
   });
+
+  it('should count splits instead of the parent transaction', () => {
+    const splitTransaction: Transaction = {
+      id: 't5',
+      householdId: 'h1',
+      accountId: 'a1',
+      categoryId: 'cat-food',
+      date: new Date('2024-12-20'),
+      description: 'Supermarket receipt',
+      amount: 500,
+      direction: 'expense',
+      needsReview: false,
+      isRecurringInstance: false,
+      isIgnored: false,
+      splits: [
+        { categoryId: 'cat-food', amount: 300 },
+        { categoryId: 'cat-pharmacy', amount: 200 },
+      ],
+    };
+    const transactions = [...mockTransactions, splitTransaction];
+
+    expect(calculateCategorySpending(transactions, 'cat-food', '2024-12')).toBe(650); // 200 + 150 + 300
+    expect(calculateCategorySpending(transactions, 'cat-pharmacy', '2024-12')).toBe(200);
+  });
 });
 
 describe('calculateMonthlyKPIs', () => {
@@ -234,6 +360,8 @@ describe('getAlertBudgets', () => {
       {
         budget: {} as Budget,
         actualAmount: 500,
+        carryOver: 0,
+        available: 1000,
         percentUsed: 0.5,
         status: 'ok' as const,
         remaining: 500,
@@ -243,6 +371,8 @@ describe('getAlertBudgets', () => {
       {
         budget: {} as Budget,
         actualAmount: 850,
+        carryOver: 0,
+        available: 1000,
         percentUsed: 0.85,
         status: 'nearing_limit' as const,
         remaining: 150,
@@ -252,6 +382,8 @@ describe('getAlertBudgets', () => {
       {
         budget: {} as Budget,
         actualAmount: 1100,
+        carryOver: 0,
+        available: 1000,
         percentUsed: 1.1,
         status: 'exceeded_soft' as const,
         remaining: -100,
@@ -261,6 +393,8 @@ describe('getAlertBudgets', () => {
       {
         budget: {} as Budget,
         actualAmount: 1300,
+        carryOver: 0,
+        available: 1000,
         percentUsed: 1.3,
         status: 'exceeded_hard' as const,
         remaining: -300,
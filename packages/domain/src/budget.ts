@@ -1,7 +1,18 @@
-import type { Budget, BudgetEvaluation, BudgetStatus, Category, Transaction } from './types';
+import { getAmountForCategory } from './splits';
+import type {
+  Budget,
+  BudgetEvaluation,
+  BudgetPace,
+  BudgetPeriod,
+  BudgetPeriodResult,
+  BudgetStatus,
+  Category,
+  Transaction,
+} from './types';
 
 /**
  * Evaluates the status of a budget based on actual spending
+ * A carry-over from previous months raises (or lowers) both the planned amount and the limit
  *
  * Status levels:
  * - ok: Under alert threshold
@@ -9,18 +20,27 @@ import type { Budget, BudgetEvaluation, BudgetStatus, Category, Transaction } fr
  * - exceeded_soft: Over soft limit
  * - exceeded_hard: Over hard limit
  */
-export function evaluateBudgetStatus(budget: Budget, actualAmount: number): BudgetEvaluation {
-  const percentUsed = budget.plannedAmount > 0 ? actualAmount / budget.plannedAmount : 0;
-  const remaining = budget.plannedAmount - actualAmount;
-  const isOverPlanned = actualAmount > budget.plannedAmount;
+export function evaluateBudgetStatus(
+  budget: Budget,
+  actualAmount: number,
+  carryOver = 0
+): BudgetEvaluation {
+  const available = budget.plannedAmount + carryOver;
+  const percentUsed = available > 0 ? actualAmount / available : 0;
+  const remaining = available - actualAmount;
+  const isOverPlanned = actualAmount > available;
+  const limitAmount =
+    budget.limitAmount !== null && budget.limitAmount !== undefined
+      ? budget.limitAmount + carryOver
+      : null;
 
   let status: BudgetStatus = 'ok';
   let isOverLimit = false;
 
-  if (budget.limitAmount !== null && budget.limitAmount !== undefined) {
-    const limitPercentUsed = actualAmount / budget.limitAmount;
+  if (limitAmount !== null) {
+    const limitPercentUsed = actualAmount / limitAmount;
 
-    if (actualAmount >= budget.limitAmount) {
+    if (actualAmount >= limitAmount) {
       if (budget.limitType === 'hard') {
         status = 'exceeded_hard';
       } else {
@@ -40,6 +60,8 @@ export function evaluateBudgetStatus(budget: Budget, actualAmount: number): Budg
   return {
     budget,
     actualAmount,
+    carryOver,
+    available,
     percentUsed,
     status,
     remaining,
@@ -48,8 +70,133 @@ export function evaluateBudgetStatus(budget: Budget, actualAmount: number): Budg
   };
 }
 
+/**
+ * Calculates the amount a rollover budget carries into `month`
+ *
+ * Walks the category's previous months in order: each rollover month passes on its
+ * unspent amount (or overspend) plus what it received, clamped to its cap. A month
+ * without a budget, or with rollover off, starts the chain again from zero.
+ *
+ * @param history - Budget results for the category's previous months
+ * @param month - Month receiving the carry-over (YYYY-MM)
+ */
+export function calculateCarryOver(history: BudgetPeriodResult[], month: string): number {
+  const toIndex = (m: string) => {
+    const [year, monthNum] = m.split('-').map(Number);
+    return (year ?? 0) * 12 + (monthNum ?? 1) - 1;
+  };
+  const target = toIndex(month);
+
+  const previous = history
+    .filter((period) => toIndex(period.month) < target)
+    .sort((a, b) => toIndex(a.month) - toIndex(b.month));
+
+  let carryOver = 0;
+  let expectedIndex: number | null = null;
+
+  for (const period of previous) {
+    const index = toIndex(period.month);
+    if (expectedIndex !== null && index !== expectedIndex) carryOver = 0;
+    expectedIndex = index + 1;
+
+    if (!period.rollover) {
+      carryOver = 0;
+      continue;
+    }
+
+    carryOver += period.plannedAmount - period.actualAmount;
+    if (period.rolloverCap !== null && period.rolloverCap !== undefined) {
+      carryOver = Math.max(-period.rolloverCap, Math.min(period.rolloverCap, carryOver));
+    }
+  }
+
+  // The chain must reach the month right before the target
+  if (expectedIndex !== target) return 0;
+
+  return Math.round(carryOver * 100) / 100;
+}
+
+const PERIOD_MONTHS: Record<BudgetPeriod, number> = { month: 1, quarter: 3, year: 12 };
+
+/**
+ * Gets the first month (YYYY-MM) of the period containing `month`
+ * Quarters start in January, April, July and October; years in January
+ */
+export function getBudgetPeriodStart(period: BudgetPeriod, month: string): string {
+  const [year, monthNum] = month.split('-').map(Number);
+  if (year === undefined || monthNum === undefined) {
+    throw new Error(`Invalid month format: ${month}`);
+  }
+
+  const length = PERIOD_MONTHS[period];
+  const startMonth = Math.floor((monthNum - 1) / length) * length + 1;
+  return `${year}-${String(startMonth).padStart(2, '0')}`;
+}
+
+/**
+ * Lists the months (YYYY-MM) of the period starting at `startMonth`
+ */
+export function getBudgetPeriodMonths(period: BudgetPeriod, startMonth: string): string[] {
+  const [year, monthNum] = startMonth.split('-').map(Number);
+  if (year === undefined || monthNum === undefined) {
+    throw new Error(`Invalid month format: ${startMonth}`);
+  }
+
+  return Array.from({ length: PERIOD_MONTHS[period] }, (_, i) => {
+    const date = new Date(year, monthNum - 1 + i, 1);
+    return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+  });
+}
+
+/**
+ * Gets the first and last moment of the period starting at `startMonth`
+ */
+export function getBudgetPeriodRange(
+  period: BudgetPeriod,
+  startMonth: string
+): { start: Date; end: Date } {
+  const [year, monthNum] = startMonth.split('-').map(Number);
+  if (year === undefined || monthNum === undefined) {
+    throw new Error(`Invalid month format: ${startMonth}`);
+  }
+
+  return {
+    start: new Date(year, monthNum - 1, 1),
+    end: new Date(year, monthNum - 1 + PERIOD_MONTHS[period], 0, 23, 59, 59, 999),
+  };
+}
+
+/**
+ * Compares how much of a budget is spent with how much of its period has passed
+ * ("spent 40% of the year's budget in 25% of the year")
+ *
+ * @param tolerance - How far spending may run ahead of or behind time before it is flagged
+ */
+export function calculateBudgetPace(
+  actualAmount: number,
+  plannedAmount: number,
+  range: { start: Date; end: Date },
+  asOf: Date,
+  tolerance = 0.1
+): BudgetPace {
+  const total = range.end.getTime() - range.start.getTime();
+  const elapsed = Math.min(Math.max(asOf.getTime() - range.start.getTime(), 0), total);
+  const elapsedPct = total > 0 ? elapsed / total : 1;
+  const spentPct = plannedAmount > 0 ? actualAmount / plannedAmount : 0;
+
+  let status: BudgetPace['status'] = 'on_pace';
+  if (spentPct > elapsedPct + tolerance) {
+    status = 'over';
+  } else if (spentPct < elapsedPct - tolerance) {
+    status = 'under';
+  }
+
+  return { elapsedPct, spentPct, status };
+}
+
 /**
  * Calculates actual spending for a category in a given month
+ * Split transactions count only the splits allocated to the category
  */
 export function calculateCategorySpending(
   transactions: Transaction[],
@@ -63,13 +210,12 @@ export function calculateCategorySpending(
 
   return transactions
     .filter((tx) => {
-      if (tx.categoryId !== categoryId) return false;
       if (tx.direction !== 'expense') return false;
 
       const txDate = new Date(tx.date);
       return txDate.getFullYear() === year && txDate.getMonth() + 1 === monthNum;
     })
-    .reduce((sum, tx) => sum + tx.amount, 0);
+    .reduce((sum, tx) => sum + getAmountForCategory(tx, categoryId), 0);
 }
 
 /**
@@ -87,13 +233,12 @@ export function calculateCategoryIncome(
 
   return transactions
     .filter((tx) => {
-      if (tx.categoryId !== categoryId) return false;
       if (tx.direction !== 'income') return false;
 
       const txDate = new Date(tx.date);
       return txDate.getFullYear() === year && txDate.getMonth() + 1 === monthNum;
     })
-    .reduce((sum, tx) => sum + tx.amount, 0);
+    .reduce((sum, tx) => sum + getAmountForCategory(tx, categoryId), 0);
 }
 
 /**
@@ -186,7 +331,9 @@ export function getCategorySummaries(
       evaluation = evaluateBudgetStatus(budget, actualAmount);
     }
 
-    const transactionCount = transactions.filter((tx) => tx.categoryId === category.id).length;
+    const transactionCount = transactions.filter(
+      (tx) => getAmountForCategory(tx, category.id) > 0
+    ).length;
 
     return {
       category,
@@ -1,5 +1,14 @@
 import { describe, expect, it } from 'vitest';
-import { categorizeTransaction, suggestRuleFromCorrection } from './categorization';
+import {
+  applyRuleActions,
+  categorizeTransaction,
+  matchesRuleConditions,
+  parseRuleActions,
+  parseRuleConditions,
+  previewRule,
+  ruleMatchesTransaction,
+  suggestRuleFromCorrection,
+} from './categorization';
 import type { CategoryRule, TransactionInput } from './types';
 
 describe('categorizeTransaction', () => {
@@ -162,6 +171,289 @@ describe('categorizeTransaction', () => {
   });
 });
 
+describe('compound rule conditions', () => {
+  const pazRules: CategoryRule[] = [
+    {
+      id: 'paz-coffee',
+      householdId: 'h1',
+      categoryId: 'cat-coffee',
+      type: 'merchant',
+      pattern: 'Paz',
+      conditions: { amountMax: 100 },
+      priority: 5,
+      isActive: true,
+    },
+    {
+      id: 'paz-fuel',
+      householdId: 'h1',
+      categoryId: 'cat-fuel',
+      type: 'merchant',
+      pattern: 'Paz',
+      priority: 5,
+      isActive: true,
+    },
+  ];
+
+  it('should split one merchant by amount', async () => {
+    const small = await categorizeTransaction(
+      { description: 'PAZ YELLOW', merchant: 'Paz Yellow', amount: 18, direction: 'expense' },
+      pazRules
+    );
+    const large = await categorizeTransaction(
+      { description: 'PAZ YELLOW', merchant: 'Paz Yellow', amount: 320, direction: 'expense' },
+      pazRules
+    );
+
+    // The conditional rule is more specific, so it is tried first at equal priority
+    expect(small.categoryId).toBe('cat-coffee');
+    expect(large.categoryId).toBe('cat-fuel');
+  });
+
+  it('should scope a rule to direction and account', () => {
+    const rule = {
+      type: 'keyword' as const,
+      pattern: 'ACME LTD',
+      conditions: { direction: 'income' as const, accountIds: ['savings'] },
+    };
+    const tx: TransactionInput = {
+      description: 'ACME LTD transfer',
+      amount: 1000,
+      direction: 'income',
+      accountId: 'savings',
+    };
+
+    expect(ruleMatchesTransaction(rule, tx)).toBe(true);
+    expect(ruleMatchesTransaction(rule, { ...tx, accountId: 'checking' })).toBe(false);
+    expect(ruleMatchesTransaction(rule, { ...tx, accountId: undefined })).toBe(false);
+    expect(ruleMatchesTransaction(rule, { ...tx, direction: 'expense' })).toBe(false);
+  });
+
+  it('should match day-of-month ranges, wrapping around the month end', () => {
+    const tx: TransactionInput = { description: 'x', amount: 1, direction: 'income' };
+    const wrap = { dayOfMonthMin: 25, dayOfMonthMax: 5 };
+
+    expect(matchesRuleConditions({ ...tx, date: new Date(2024, 0, 28) }, wrap)).toBe(true);
+    expect(matchesRuleConditions({ ...tx, date: new Date(2024, 0, 3) }, wrap)).toBe(true);
+    expect(matchesRuleConditions({ ...tx, date: new Date(2024, 0, 15) }, wrap)).toBe(false);
+    expect(matchesRuleConditions(tx, wrap)).toBe(false);
+    expect(
+      matchesRuleConditions({ ...tx, date: new Date(2024, 0, 10) }, { dayOfMonthMax: 10 })
+    ).toBe(true);
+  });
+
+  it('should match weekdays', () => {
+    const tx: TransactionInput = { description: 'x', amount: 1, direction: 'expense' };
+    const weekend = { weekdays: [5, 6] };
+
+    expect(matchesRuleConditions({ ...tx, date: new Date(2024, 0, 5) }, weekend)).toBe(true); // Friday
+    expect(matchesRuleConditions({ ...tx, date: new Date(2024, 0, 7) }, weekend)).toBe(false); // Sunday
+  });
+
+  it('should read the day and weekday in Israel time', () => {
+    const tx: TransactionInput = { description: 'x', amount: 1, direction: 'expense' };
+    // Midnight in Israel, stored as the previous evening in UTC (winter +02:00, summer +03:00)
+    const winter = new Date('2024-12-09T22:00:00.000Z'); // Tuesday 10 December
+    const summer = new Date('2024-07-09T21:00:00.000Z'); // Wednesday 10 July
+
+    for (const date of [winter, summer]) {
+      expect(matchesRuleConditions({ ...tx, date }, { dayOfMonthMin: 10, dayOfMonthMax: 10 })).toBe(
+        true
+      );
+    }
+    expect(matchesRuleConditions({ ...tx, date: winter }, { weekdays: [2] })).toBe(true);
+    expect(matchesRuleConditions({ ...tx, date: summer }, { weekdays: [3] })).toBe(true);
+    expect(matchesRuleConditions({ ...tx, date: winter }, { weekdays: [1] })).toBe(false);
+  });
+
+  it('should let an empty pattern match any text when conditions are set', () => {
+    expect(
+      ruleMatchesTransaction(
+        { type: 'keyword', pattern: '', conditions: { amountMin: 5000, direction: 'income' } },
+        { description: 'Salary', amount: 12000, direction: 'income' }
+      )
+    ).toBe(true);
+  });
+
+  it('should ignore malformed stored conditions', () => {
+    expect(parseRuleConditions(null)).toBeNull();
+    expect(parseRuleConditions('not json')).toBeNull();
+    expect(parseRuleConditions('{"weekdays":[9]}')).toBeNull();
+    expect(parseRuleConditions('{"amountMin":10,"amountMax":50}')).toEqual({
+      amountMin: 10,
+      amountMax: 50,
+    });
+  });
+});
+
+describe('applyRuleActions', () => {
+  const baseRule = { householdId: 'h1', isActive: true, priority: 5 };
+  const rules: CategoryRule[] = [
+    {
+      ...baseRule,
+      id: 'netflix',
+      categoryId: 'cat-streaming',
+      type: 'merchant',
+      pattern: 'PAYPAL *NETFLIX',
+      actions: [
+        { type: 'set_merchant', value: 'Netflix' },
+        { type: 'append_note', value: 'Family plan' },
+        { type: 'mark_reviewed' },
+      ],
+    },
+    {
+      ...baseRule,
+      id: 'settlement',
+      categoryId: null,
+      type: 'keyword',
+      pattern: 'card settlement',
+      actions: [{ type: 'set_ignored', value: true }],
+    },
+    {
+      ...baseRule,
+      id: 'paypal',
+      categoryId: null,
+      type: 'keyword',
+      pattern: 'PAYPAL',
+      priority: 1,
+      actions: [
+        { type: 'set_merchant', value: 'PayPal' },
+        { type: 'append_note', value: 'Paid via PayPal' },
+      ],
+    },
+  ];
+
+  it('should rewrite the merchant, append notes and clear review', () => {
+    const changes = applyRuleActions(
+      {
+        description: 'PAYPAL *NETFLIX 4029357733',
+        merchant: 'PAYPAL *NETFLIX 4029357733',
+        amount: 55,
+        direction: 'expense',
+      },
+      rules
+    );
+
+    // The higher-priority rule's merchant wins; both notes are kept
+    expect(changes.merchant).toBe('Netflix');
+    expect(changes.notes).toBe('Family plan\nPaid via PayPal');
+    expect(changes.needsReview).toBe(false);
+    expect(changes.ruleIds).toEqual(['netflix', 'paypal']);
+  });
+
+  it('should ignore rows and leave untouched fields unset', () => {
+    const changes = applyRuleActions(
+      { description: 'Card settlement 03/24', amount: 4200, direction: 'expense' },
+      rules
+    );
+
+    expect(changes).toEqual({ isIgnored: true, ruleIds: ['settlement'] });
+  });
+
+  it('should not append a note twice', () => {
+    const changes = applyRuleActions(
+      {
+        description: 'PAYPAL *NETFLIX',
+        merchant: 'PAYPAL *NETFLIX',
+        amount: 55,
+        direction: 'expense',
+        notes: 'Family plan\nPaid via PayPal',
+      },
+      rules
+    );
+
+    expect(changes.notes).toBeUndefined();
+  });
+
+  it('should not categorize with action-only rules', async () => {
+    const result = await categorizeTransaction(
+      { description: 'Card settlement 03/24', amount: 4200, direction: 'expense' },
+      rules
+    );
+
+    expect(result.source).toBe('fallback');
+  });
+
+  it('should parse stored actions', () => {
+    expect(parseRuleActions('[{"type":"mark_reviewed"}]')).toEqual([{ type: 'mark_reviewed' }]);
+    expect(parseRuleActions('[]')).toBeNull();
+    expect(parseRuleActions('[{"type":"delete"}]')).toBeNull();
+  });
+});
+
+describe('previewRule', () => {
+  const baseRule = { householdId: 'h1', isActive: true, priority: 5, conditions: null };
+  const marketRule: CategoryRule = {
+    ...baseRule,
+    id: 'market',
+    categoryId: 'cat-groceries',
+    type: 'keyword',
+    pattern: 'market',
+    priority: 10,
+  };
+  const existing: CategoryRule[] = [
+    { ...baseRule, id: 'wolt', categoryId: 'cat-food', type: 'merchant', pattern: 'Wolt' },
+    marketRule,
+  ];
+  const transactions = [
+    { id: 't1', description: 'Wolt market order', merchant: 'Wolt', amount: 80 },
+    { id: 't2', description: 'Super market', merchant: 'Shufersal', amount: 300 },
+    { id: 't3', description: 'Fuel', merchant: 'Paz', amount: 250 },
+  ].map((tx) => ({ ...tx, direction: 'expense' as const }));
+
+  it('should return only matching transactions', () => {
+    const draft: CategoryRule = {
+      ...baseRule,
+      id: '',
+      categoryId: 'cat-shopping',
+      type: 'keyword',
+      pattern: 'market',
+      priority: 20,
+    };
+
+    const matches = previewRule(draft, transactions, existing);
+
+    expect(matches.map((m) => m.transaction.id)).toEqual(['t1', 't2']);
+  });
+
+  it('should report the rule that shadows a match', () => {
+    const draft: CategoryRule = {
+      ...baseRule,
+      id: '',
+      categoryId: 'cat-shopping',
+      type: 'keyword',
+      pattern: 'market',
+      priority: 20,
+    };
+
+    const matches = previewRule(draft, transactions, existing);
+
+    // Merchant rules win over keyword rules regardless of priority
+    expect(matches[0]?.shadowedBy?.id).toBe('wolt');
+    expect(matches[1]?.shadowedBy).toBeNull();
+  });
+
+  it('should not let an existing rule shadow itself', () => {
+    const matches = previewRule(marketRule, transactions, existing);
+
+    expect(matches.find((m) => m.transaction.id === 't2')?.shadowedBy).toBeNull();
+  });
+
+  it('should never shadow action-only rules', () => {
+    const draft: CategoryRule = {
+      ...baseRule,
+      id: '',
+      categoryId: null,
+      type: 'merchant',
+      pattern: 'Wolt',
+      actions: [{ type: 'mark_reviewed' }],
+    };
+
+    expect(previewRule(draft, transactions, existing)).toEqual([
+      { transaction: transactions[0], shadowedBy: null },
+    ]);
+  });
+});
+
 describe('suggestRuleFromCorrection', () => {
   it('should suggest merchant rule when merchant is available', () => {
     const tx: TransactionInput = {
@@ -1,9 +1,19 @@
-import { suggestCategoryWithAI } from './ai-categorization';
+import {
+  type AICategoryCache,
+  type AIExample,
+  type AIProvider,
+  categorizeBatchWithAI,
+  suggestCategoryWithAI,
+} from './ai-categorization';
+import { ruleActionsSchema, ruleConditionsSchema } from './schemas';
 import type {
   CategorizationResult,
   CategorizationSource,
   CategoryForCategorization,
   CategoryRule,
+  Merchant,
+  RuleAction,
+  RuleConditions,
   TransactionInput,
 } from './types';
 
@@ -20,8 +30,9 @@ import type {
  * 2. Merchant rule match → confidence=0.95
  * 3. Keyword rule match → confidence=0.80
  * 4. Regex rule match → confidence=0.75
- * 5. AI suggestion (if enabled) → confidence=~0.85
- * 6. Fallback (uncategorized) → confidence=0.50
+ * 5. Default category of the transaction's merchant → confidence=0.85
+ * 6. AI suggestion (if enabled) → confidence=~0.85
+ * 7. Fallback (uncategorized) → confidence=0.50
  */
 export async function categorizeTransaction(
   tx: TransactionInput,
@@ -29,7 +40,10 @@ export async function categorizeTransaction(
   categories?: CategoryForCategorization[],
   options?: {
     enableAI?: boolean;
-    aiApiKey?: string;
+    aiProvider?: AIProvider | null;
+    aiCache?: AICategoryCache;
+    aiHistory?: AIExample[]; // Categorized transactions to draw few-shot examples from
+    merchants?: Merchant[]; // Household merchants, for the default category of tx.merchantId
   }
 ): Promise<CategorizationResult> {
   // 1. If category is already set, return as manual
@@ -43,34 +57,25 @@ export async function categorizeTransaction(
     };
   }
 
-  // Filter to active rules only and sort by priority (higher first)
-  const activeRules = rules.filter((r) => r.isActive).sort((a, b) => b.priority - a.priority);
-
-  // 2. Try merchant rules first (highest confidence)
-  const merchantRules = activeRules.filter((r) => r.type === 'merchant');
-  const merchantMatch = matchMerchantRule(tx, merchantRules);
-  if (merchantMatch) {
-    return merchantMatch;
-  }
-
-  // 3. Try keyword rules
-  const keywordRules = activeRules.filter((r) => r.type === 'keyword');
-  const keywordMatch = matchKeywordRule(tx, keywordRules);
-  if (keywordMatch) {
-    return keywordMatch;
+  // 2-4. Try merchant, keyword and regex rules
+  const ruleMatch = matchCategoryRules(tx, rules);
+  if (ruleMatch) {
+    return ruleMatch;
   }
 
-  // 4. Try regex rules
-  const regexRules = activeRules.filter((r) => r.type === 'regex');
-  const regexMatch = matchRegexRule(tx, regexRules);
-  if (regexMatch) {
-    return regexMatch;
+  // 5. Merchant default category
+  const merchantDefault = matchMerchantDefault(tx, options?.merchants);
+  if (merchantDefault) {
+    return merchantDefault;
   }
 
-  // 5. Try AI suggestion (if enabled and categories provided)
-  if (options?.enableAI && options?.aiApiKey && categories && categories.length > 0) {
+  // 6. Try AI suggestion (if enabled and categories provided)
+  if (options?.enableAI && options?.aiProvider && categories && categories.length > 0) {
     try {
-      const aiResult = await suggestCategoryWithAI(tx, categories, options.aiApiKey);
+      const aiResult = await suggestCategoryWithAI(tx, categories, options.aiProvider, {
+        cache: options.aiCache,
+        history: options.aiHistory,
+      });
       if (aiResult) {
         return aiResult;
       }
@@ -80,10 +85,251 @@ export async function categorizeTransaction(
     }
   }
 
-  // 6. Fallback based on direction
+  // 7. Fallback based on direction
   return getFallbackCategory(tx.direction);
 }
 
+/**
+ * Find the rule that would categorize a transaction, without AI or fallback
+ * Merchant rules are tried before keyword rules, and keyword rules before regex rules
+ */
+export function matchCategoryRules(
+  tx: TransactionInput,
+  rules: CategoryRule[]
+): CategorizationResult | null {
+  // Filter to active rules that set a category and whose conditions hold, and sort by
+  // priority (higher first). At equal priority, rules with conditions are more specific.
+  const activeRules = rules
+    .filter((r) => r.isActive && r.categoryId && matchesRuleConditions(tx, r.conditions))
+    .sort((a, b) => b.priority - a.priority || Number(!!b.conditions) - Number(!!a.conditions));
+
+  return (
+    matchMerchantRule(
+      tx,
+      activeRules.filter((r) => r.type === 'merchant')
+    ) ??
+    matchKeywordRule(
+      tx,
+      activeRules.filter((r) => r.type === 'keyword')
+    ) ??
+    matchRegexRule(
+      tx,
+      activeRules.filter((r) => r.type === 'regex')
+    )
+  );
+}
+
+/**
+ * Parse the conditions stored with a rule (JSON string column)
+ * Missing or malformed conditions are treated as no conditions
+ */
+export function parseRuleConditions(value: string | null | undefined): RuleConditions | null {
+  if (!value) return null;
+  try {
+    const result = ruleConditionsSchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+const WEEKDAY_NAMES = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const israelCalendar = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'Asia/Jerusalem',
+  day: 'numeric',
+  weekday: 'short',
+});
+
+/**
+ * Day of month and weekday (0 = Sunday) of a date in Israel
+ * Transaction dates are stored at midnight Israel time, which is still the previous day in
+ * UTC, so reading them in the server's timezone would be off by one
+ */
+function getIsraelCalendarDay(date: Date): { day: number; weekday: number } {
+  const parts = israelCalendar.formatToParts(date);
+  const part = (type: Intl.DateTimeFormatPartTypes) =>
+    parts.find((p) => p.type === type)?.value ?? '';
+  return { day: Number(part('day')), weekday: WEEKDAY_NAMES.indexOf(part('weekday')) };
+}
+
+/**
+ * Check a transaction against a rule's conditions
+ *
+ * - Amount bounds are inclusive
+ * - A day-of-month range whose min is after its max wraps around the month end
+ *   (e.g. 25-5 for a salary paid around the turn of the month)
+ * - Day-of-month and weekday conditions use the calendar day in Israel
+ * - Account, merchant and date conditions never match a transaction missing that field
+ */
+export function matchesRuleConditions(
+  tx: TransactionInput,
+  conditions: RuleConditions | null | undefined
+): boolean {
+  if (!conditions) return true;
+
+  if (conditions.amountMin !== undefined && tx.amount < conditions.amountMin) return false;
+  if (conditions.amountMax !== undefined && tx.amount > conditions.amountMax) return false;
+  if (conditions.direction && tx.direction !== conditions.direction) return false;
+
+  if (conditions.accountIds?.length) {
+    if (!tx.accountId || !conditions.accountIds.includes(tx.accountId)) return false;
+  }
+
+  if (conditions.merchantIds?.length) {
+    if (!tx.merchantId || !conditions.merchantIds.includes(tx.merchantId)) return false;
+  }
+
+  const { dayOfMonthMin: dayMin, dayOfMonthMax: dayMax } = conditions;
+  if (dayMin !== undefined || dayMax !== undefined || conditions.weekdays?.length) {
+    if (!tx.date) return false;
+
+    const { day, weekday } = getIsraelCalendarDay(tx.date);
+    if (dayMin !== undefined && dayMax !== undefined && dayMin > dayMax) {
+      if (day < dayMin && day > dayMax) return false;
+    } else {
+      if (dayMin !== undefined && day < dayMin) return false;
+      if (dayMax !== undefined && day > dayMax) return false;
+    }
+
+    if (conditions.weekdays?.length && !conditions.weekdays.includes(weekday)) {
+      return false;
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Check whether a single rule matches a transaction (pattern and conditions)
+ * Does not look at isActive, so rules can be tried out before they are saved
+ */
+export function ruleMatchesTransaction(
+  rule: Pick<CategoryRule, 'type' | 'pattern' | 'conditions'>,
+  tx: TransactionInput
+): boolean {
+  if (!matchesRuleConditions(tx, rule.conditions)) return false;
+
+  const candidate = {
+    id: '',
+    householdId: '',
+    categoryId: '',
+    priority: 0,
+    isActive: true,
+    ...rule,
+  };
+  switch (rule.type) {
+    case 'merchant':
+      return matchMerchantRule(tx, [candidate]) !== null;
+    case 'keyword':
+      return matchKeywordRule(tx, [candidate]) !== null;
+    case 'regex':
+      return matchRegexRule(tx, [candidate]) !== null;
+    default:
+      return false;
+  }
+}
+
+/**
+ * Parse the actions stored with a rule (JSON string column)
+ * Missing or malformed actions are treated as no actions
+ */
+export function parseRuleActions(value: string | null | undefined): RuleAction[] | null {
+  if (!value) return null;
+  try {
+    const result = ruleActionsSchema.safeParse(JSON.parse(value));
+    return result.success && result.data.length > 0 ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+export interface RuleActionChanges {
+  isIgnored?: boolean;
+  merchant?: string;
+  description?: string;
+  notes?: string; // Existing notes with the appended lines
+  needsReview?: false;
+  ruleIds: string[]; // Rules whose actions ran
+}
+
+/**
+ * Run the actions of every active rule matching a transaction
+ *
+ * Rules are matched against the transaction as imported, in priority order. When two
+ * rules set the same field the higher-priority rule wins; notes from every rule are
+ * appended, each at most once.
+ */
+export function applyRuleActions(
+  tx: TransactionInput & { notes?: string | null },
+  rules: CategoryRule[]
+): RuleActionChanges {
+  const changes: RuleActionChanges = { ruleIds: [] };
+  const notes = tx.notes ? [tx.notes] : [];
+
+  const matching = rules
+    .filter((r) => r.isActive && r.actions?.length && ruleMatchesTransaction(r, tx))
+    .sort((a, b) => b.priority - a.priority);
+
+  for (const rule of matching) {
+    changes.ruleIds.push(rule.id);
+
+    for (const action of rule.actions ?? []) {
+      switch (action.type) {
+        case 'set_ignored':
+          changes.isIgnored ??= action.value;
+          break;
+        case 'set_merchant':
+          changes.merchant ??= action.value;
+          break;
+        case 'set_description':
+          changes.description ??= action.value;
+          break;
+        case 'append_note':
+          if (!notes.some((line) => line.includes(action.value))) notes.push(action.value);
+          break;
+        case 'mark_reviewed':
+          changes.needsReview = false;
+          break;
+      }
+    }
+  }
+
+  const joined = notes.join('\n');
+  if (joined !== (tx.notes ?? '')) changes.notes = joined;
+
+  return changes;
+}
+
+export interface RulePreviewMatch<T extends TransactionInput> {
+  transaction: T;
+  shadowedBy: CategoryRule | null; // Rule that would set the category instead
+}
+
+/**
+ * Dry-run a rule against existing transactions
+ *
+ * Returns every transaction the rule matches. A match is shadowed when, with the rule in
+ * place among the household's other rules, a different rule would still categorize it.
+ * Action-only rules set no category and are never shadowed.
+ */
+export function previewRule<T extends TransactionInput>(
+  rule: CategoryRule,
+  transactions: T[],
+  otherRules: CategoryRule[]
+): RulePreviewMatch<T>[] {
+  const candidate = { ...rule, isActive: true };
+  const ruleSet = [...otherRules.filter((r) => r.id !== rule.id), candidate];
+
+  return transactions
+    .filter((tx) => ruleMatchesTransaction(rule, tx))
+    .map((tx) => {
+      if (!rule.categoryId) return { transaction: tx, shadowedBy: null };
+      const winner = matchCategoryRules(tx, ruleSet)?.matchedRule ?? null;
+      return { transaction: tx, shadowedBy: winner && winner !== candidate ? winner : null };
+    });
+}
+
 /**
  * Match against merchant rules (case-insensitive contains)
  */
@@ -163,6 +409,27 @@ function matchRegexRule(tx: TransactionInput, rules: CategoryRule[]): Categoriza
   return null;
 }
 
+/**
+ * Use the default category of the merchant the transaction was resolved to
+ */
+function matchMerchantDefault(
+  tx: TransactionInput,
+  merchants: Merchant[] | undefined
+): CategorizationResult | null {
+  if (!tx.merchantId) return null;
+
+  const merchant = merchants?.find((m) => m.id === tx.merchantId);
+  if (!merchant?.defaultCategoryId) return null;
+
+  return {
+    categoryId: merchant.defaultCategoryId,
+    confidence: 0.85,
+    source: 'merchant_default',
+    reason: `Default category of merchant "${merchant.name}"`,
+    matchedRule: null,
+  };
+}
+
 /**
  * Get fallback category based on transaction direction
  * Returns null categoryId - the API layer will determine the actual category from the database
@@ -220,6 +487,8 @@ export function suggestRuleFromCorrection(
 
 /**
  * Batch categorize multiple transactions
+ * Rules run per transaction; whatever they leave uncategorized goes to AI in batches
+ * (see categorizeBatchWithAI) rather than one request per transaction.
  */
 export async function categorizeTransactions(
   transactions: TransactionInput[],
@@ -227,16 +496,38 @@ export async function categorizeTransactions(
   categories?: CategoryForCategorization[],
   options?: {
     enableAI?: boolean;
-    aiApiKey?: string;
+    aiProvider?: AIProvider | null;
+    aiCache?: AICategoryCache;
+    aiHistory?: AIExample[]; // Categorized transactions to draw few-shot examples from
+    aiBatchSize?: number;
+    aiMaxBatches?: number; // Cap on AI requests; transactions past it keep their fallback result
+    merchants?: Merchant[]; // Household merchants, for the default category of tx.merchantId
   }
 ): Promise<Map<TransactionInput, CategorizationResult>> {
   const results = new Map<TransactionInput, CategorizationResult>();
 
   for (const tx of transactions) {
-    const result = await categorizeTransaction(tx, rules, categories, options);
+    const result = await categorizeTransaction(tx, rules, categories, {
+      enableAI: false,
+      merchants: options?.merchants,
+    });
     results.set(tx, result);
   }
 
+  const needsAI = transactions.filter((tx) => results.get(tx)?.source === 'fallback');
+  if (options?.enableAI && options.aiProvider && categories?.length && needsAI.length > 0) {
+    const aiResults = await categorizeBatchWithAI(needsAI, categories, options.aiProvider, {
+      cache: options.aiCache,
+      history: options.aiHistory,
+      batchSize: options.aiBatchSize,
+      maxBatches: options.aiMaxBatches,
+    });
+    needsAI.forEach((tx, i) => {
+      const aiResult = aiResults[i];
+      if (aiResult) results.set(tx, aiResult);
+    });
+  }
+
   return results;
 }
 
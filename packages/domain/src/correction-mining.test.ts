@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+import { type MinableCorrection, type MinableRule, mineCorrections } from './correction-mining';
+
+const baseRule = { householdId: 'h1', isActive: true, priority: 5, conditions: null };
+
+let nextId = 0;
+const correction = (
+  merchant: string | null,
+  toCategoryId: string,
+  overrides: Partial<MinableCorrection> = {}
+): MinableCorrection => {
+  nextId++;
+  return {
+    transactionId: `tx-${nextId}`,
+    description: merchant ?? 'Bank transfer',
+    merchant,
+    amount: 50,
+    direction: 'expense',
+    toCategoryId,
+    createdAt: new Date(2025, 0, nextId),
+    ...overrides,
+  };
+};
+
+describe('mineCorrections', () => {
+  it('should propose a rule for a merchant repeatedly moved to the same category', () => {
+    const corrections = [
+      correction('Holmes Place', 'cat-sport'),
+      correction('Holmes Place', 'cat-sport'),
+      correction('HOLMES PLACE', 'cat-sport'),
+      correction('Wolt', 'cat-food'),
+    ];
+
+    const proposals = mineCorrections(corrections, []);
+
+    expect(proposals).toHaveLength(1);
+    expect(proposals[0]).toMatchObject({
+      kind: 'create_rule',
+      payload: { rule: { type: 'merchant', categoryId: 'cat-sport' } },
+      evidence: { corrections: 3 },
+    });
+    expect(proposals[0]?.evidence.transactionIds).toHaveLength(3);
+  });
+
+  it('should count each transaction once, with its final category', () => {
+    const corrections = [
+      correction('Holmes Place', 'cat-sport', { transactionId: 'tx-a' }),
+      correction('Holmes Place', 'cat-health', { transactionId: 'tx-a' }),
+      correction('Holmes Place', 'cat-sport'),
+      correction('Holmes Place', 'cat-sport'),
+    ];
+
+    expect(mineCorrections(corrections, [])).toEqual([]);
+  });
+
+  it('should not propose a rule when corrections disagree on the category', () => {
+    const corrections = [
+      ...[1, 2, 3].map(() => correction('Super Pharm', 'cat-health')),
+      correction('Super Pharm', 'cat-shopping'),
+    ];
+
+    expect(mineCorrections(corrections, [])).toEqual([]);
+    expect(mineCorrections(corrections, [], { minAgreement: 0.7 })).toHaveLength(1);
+  });
+
+  it('should skip merchants an existing rule already covers', () => {
+    const rules: MinableRule[] = [
+      {
+        ...baseRule,
+        id: 'gym',
+        categoryId: 'cat-sport',
+        type: 'merchant',
+        pattern: 'holmes',
+        matchCount: 0,
+      },
+    ];
+    const corrections = [1, 2, 3].map(() => correction('Holmes Place', 'cat-sport'));
+
+    expect(mineCorrections(corrections, rules)).toEqual([]);
+  });
+
+  it('should propose deactivating a rule that is usually overridden', () => {
+    const rules: MinableRule[] = [
+      {
+        ...baseRule,
+        id: 'amazon',
+        categoryId: 'cat-books',
+        type: 'merchant',
+        pattern: 'Amazon',
+        matchCount: 5,
+      },
+    ];
+    const corrections = [
+      correction('Amazon', 'cat-electronics', { ruleId: 'amazon' }),
+      correction('Amazon', 'cat-electronics', { ruleId: 'amazon' }),
+      correction('Amazon', 'cat-home', { ruleId: 'amazon' }),
+    ];
+
+    const proposals = mineCorrections(corrections, rules);
+
+    expect(proposals).toEqual([
+      expect.objectContaining({
+        kind: 'deactivate',
+        ruleId: 'amazon',
+        evidence: expect.objectContaining({
+          corrections: 3,
+          matches: 5,
+          overrideRate: 0.6,
+          topCategoryId: 'cat-electronics',
+        }),
+      }),
+    ]);
+  });
+
+  it('should propose a lower priority for a rule that is sometimes overridden', () => {
+    const rules: MinableRule[] = [
+      {
+        ...baseRule,
+        id: 'amazon',
+        categoryId: 'cat-books',
+        type: 'merchant',
+        pattern: 'Amazon',
+        matchCount: 10,
+      },
+    ];
+    const corrections = [1, 2, 3, 4].map(() =>
+      correction('Amazon', 'cat-electronics', { ruleId: 'amazon' })
+    );
+
+    const [proposal] = mineCorrections(corrections, rules, { minCorrections: 5 });
+
+    expect(proposal).toMatchObject({ kind: 'lower_priority', payload: { priority: 4 } });
+  });
+
+  it('should ignore rules with too few matches to judge', () => {
+    const rules: MinableRule[] = [
+      {
+        ...baseRule,
+        id: 'amazon',
+        categoryId: 'cat-books',
+        type: 'merchant',
+        pattern: 'Amazon',
+        matchCount: 2,
+      },
+    ];
+    const corrections = [correction('Amazon', 'cat-electronics', { ruleId: 'amazon' })];
+
+    expect(mineCorrections(corrections, rules)).toEqual([]);
+  });
+});
@@ -0,0 +1,227 @@
+/**
+ * Correction mining
+ * Every manual recategorization is stored as a UserCorrection. Looking at them together shows
+ * merchants that keep being moved to the same category (a rule is missing) and rules that
+ * keep being overridden (the rule is wrong). The results are proposals for the user to approve.
+ */
+
+import { matchCategoryRules, suggestRuleFromCorrection } from './categorization';
+import { ruleProposalEvidenceSchema, ruleProposalPayloadSchema } from './schemas';
+import type { CategoryRule, TransactionInput } from './types';
+
+export type RuleProposalKind = 'create_rule' | 'lower_priority' | 'deactivate';
+
+// A correction together with the transaction it was made on
+export interface MinableCorrection extends TransactionInput {
+  transactionId: string;
+  toCategoryId: string;
+  ruleId?: string | null; // Rule whose category was overridden
+  createdAt: Date;
+}
+
+export interface MinableRule extends CategoryRule {
+  matchCount: number;
+}
+
+export interface RuleProposalPayload {
+  rule?: { type: 'merchant' | 'keyword'; pattern: string; categoryId: string }; // create_rule
+  priority?: number; // lower_priority
+}
+
+export interface RuleProposalEvidence {
+  corrections: number; // Distinct transactions corrected
+  matches?: number; // How many transactions the rule has categorized
+  overrideRate?: number;
+  topCategoryId?: string; // Where users moved the rule's transactions most often
+  transactionIds: string[]; // Most recent examples
+  examples: string[];
+}
+
+export interface RuleProposal {
+  kind: RuleProposalKind;
+  key: string; // Same proposal across runs, so a dismissed one is not queued again
+  ruleId?: string;
+  payload: RuleProposalPayload;
+  evidence: RuleProposalEvidence;
+  reason: string;
+}
+
+export interface CorrectionMiningConfig {
+  minCorrections: number; // Corrections needed before proposing a rule
+  minAgreement: number; // Share of a merchant's corrections that must agree on the category
+  minMatches: number; // Matches a rule needs before its override rate means anything
+  lowerPriorityRate: number;
+  deactivateRate: number;
+  maxExamples: number;
+}
+
+const DEFAULT_CONFIG: CorrectionMiningConfig = {
+  minCorrections: 3,
+  minAgreement: 0.8,
+  minMatches: 5,
+  lowerPriorityRate: 0.3,
+  deactivateRate: 0.6,
+  maxExamples: 5,
+};
+
+export function parseRuleProposalPayload(value: string | null | undefined): RuleProposalPayload {
+  if (!value) return {};
+  try {
+    const result = ruleProposalPayloadSchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : {};
+  } catch {
+    return {};
+  }
+}
+
+export function parseRuleProposalEvidence(
+  value: string | null | undefined
+): RuleProposalEvidence | null {
+  if (!value) return null;
+  try {
+    const result = ruleProposalEvidenceSchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : null;
+  } catch {
+    return null;
+  }
+}
+
+// A transaction corrected twice counts once, with the category it ended up in
+function latestPerTransaction(corrections: MinableCorrection[]): MinableCorrection[] {
+  const latest = new Map<string, MinableCorrection>();
+  for (const correction of corrections) {
+    const current = latest.get(correction.transactionId);
+    if (!current || correction.createdAt >= current.createdAt) {
+      latest.set(correction.transactionId, correction);
+    }
+  }
+  return [...latest.values()].sort((a, b) => b.createdAt.getTime() - a.createdAt.getTime());
+}
+
+function describe(corrections: MinableCorrection[], maxExamples: number) {
+  const sample = corrections.slice(0, maxExamples);
+  return {
+    transactionIds: sample.map((c) => c.transactionId),
+    examples: sample.map((c) => c.merchant || c.description),
+  };
+}
+
+/**
+ * Mine a household's corrections for rule proposals
+ *
+ * - create_rule: the same merchant (or description keyword, for transactions without one)
+ *   was moved to the same category at least `minCorrections` times, and the current rules
+ *   would not already put it there
+ * - deactivate / lower_priority: a rule with at least `minMatches` matches whose
+ *   transactions were recategorized at `deactivateRate` / `lowerPriorityRate` or more
+ *
+ * Proposals are sorted by the number of corrections behind them.
+ */
+export function mineCorrections(
+  corrections: MinableCorrection[],
+  rules: MinableRule[],
+  config: Partial<CorrectionMiningConfig> = {}
+): RuleProposal[] {
+  const {
+    minCorrections,
+    minAgreement,
+    minMatches,
+    lowerPriorityRate,
+    deactivateRate,
+    maxExamples,
+  } = { ...DEFAULT_CONFIG, ...config };
+
+  const latest = latestPerTransaction(corrections);
+  const active = rules.filter((r) => r.isActive);
+  const proposals: RuleProposal[] = [];
+
+  // Missing rules: group corrections by the rule each one would suggest
+  const byPattern = new Map<string, Map<string, MinableCorrection[]>>(); // pattern → category → corrections
+  const suggestions = new Map<string, NonNullable<RuleProposalPayload['rule']>>();
+  for (const correction of latest) {
+    const suggestion = suggestRuleFromCorrection(correction, correction.toCategoryId);
+    if (!suggestion) continue;
+
+    const patternKey = `${suggestion.type}:${suggestion.pattern.trim().toLowerCase()}`;
+    const byCategory = byPattern.get(patternKey) ?? new Map<string, MinableCorrection[]>();
+    byCategory.set(correction.toCategoryId, [
+      ...(byCategory.get(correction.toCategoryId) ?? []),
+      correction,
+    ]);
+    byPattern.set(patternKey, byCategory);
+    suggestions.set(`${patternKey}:${correction.toCategoryId}`, {
+      ...suggestion,
+      pattern: suggestion.pattern.trim(),
+    });
+  }
+
+  for (const [patternKey, byCategory] of byPattern) {
+    const total = [...byCategory.values()].reduce((sum, list) => sum + list.length, 0);
+
+    for (const [categoryId, group] of byCategory) {
+      if (group.length < minCorrections || group.length / total < minAgreement) continue;
+
+      const rule = suggestions.get(`${patternKey}:${categoryId}`);
+      if (!rule) continue;
+
+      // Already covered: an existing rule (even a disabled one) or the rules that run on import
+      const exists = rules.some(
+        (r) =>
+          r.type === rule.type &&
+          r.categoryId === categoryId &&
+          r.pattern.trim().toLowerCase() === rule.pattern.toLowerCase()
+      );
+      const newest = group[0];
+      if (exists || (newest && matchCategoryRules(newest, active)?.categoryId === categoryId)) {
+        continue;
+      }
+
+      proposals.push({
+        kind: 'create_rule',
+        key: `create_rule:${patternKey}:${categoryId}`,
+        payload: { rule },
+        evidence: { corrections: group.length, ...describe(group, maxExamples) },
+        reason: `${group.length} transactions matching "${rule.pattern}" were moved to the same category`,
+      });
+    }
+  }
+
+  // Overridden rules: corrections that undid the rule's category
+  for (const rule of active) {
+    if (rule.matchCount < minMatches) continue;
+
+    // Later corrections of the same transaction no longer carry the rule, so match on ids
+    const overridden = new Set(
+      corrections.filter((c) => c.ruleId === rule.id).map((c) => c.transactionId)
+    );
+    const overrides = latest.filter((c) => overridden.has(c.transactionId));
+    const overrideRate = Math.min(overrides.length / rule.matchCount, 1);
+    if (overrideRate < lowerPriorityRate) continue;
+
+    const kind: RuleProposalKind =
+      overrideRate >= deactivateRate || rule.priority <= 0 ? 'deactivate' : 'lower_priority';
+
+    const categoryCounts = new Map<string, number>();
+    for (const c of overrides) {
+      categoryCounts.set(c.toCategoryId, (categoryCounts.get(c.toCategoryId) ?? 0) + 1);
+    }
+    const [topCategoryId] = [...categoryCounts.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+
+    proposals.push({
+      kind,
+      key: `${kind}:${rule.id}`,
+      ruleId: rule.id,
+      payload: kind === 'lower_priority' ? { priority: rule.priority - 1 } : {},
+      evidence: {
+        corrections: overrides.length,
+        matches: rule.matchCount,
+        overrideRate,
+        topCategoryId,
+        ...describe(overrides, maxExamples),
+      },
+      reason: `${Math.round(overrideRate * 100)}% of the ${rule.matchCount} transactions it categorized were changed by hand`,
+    });
+  }
+
+  return proposals.sort((a, b) => b.evidence.corrections - a.evidence.corrections);
+}
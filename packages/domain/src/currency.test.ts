@@ -0,0 +1,133 @@
+import { describe, expect, it } from 'vitest';
+import {
+  type ExchangeRate,
+  convertAmount,
+  convertTransactionsToBase,
+  findExchangeRate,
+  getOriginalCurrencyTotals,
+  parseExchangeRateFile,
+} from './currency';
+
+const rates: ExchangeRate[] = [
+  { date: new Date('2024-12-01'), currency: 'USD', baseCurrency: 'ILS', rate: 3.6 },
+  { date: new Date('2024-12-10'), currency: 'USD', baseCurrency: 'ILS', rate: 3.7 },
+  { date: new Date('2024-12-01'), currency: 'EUR', baseCurrency: 'ILS', rate: 4.0 },
+];
+
+describe('findExchangeRate', () => {
+  it('should return 1 for the same currency', () => {
+    expect(findExchangeRate([], 'ILS', 'ILS', new Date())).toBe(1);
+  });
+
+  it('should use the latest rate on or before the date', () => {
+    expect(findExchangeRate(rates, 'USD', 'ILS', new Date('2024-12-05'))).toBe(3.6);
+    expect(findExchangeRate(rates, 'USD', 'ILS', new Date('2024-12-15'))).toBe(3.7);
+  });
+
+  it('should fall back to the earliest later rate', () => {
+    expect(findExchangeRate(rates, 'USD', 'ILS', new Date('2024-11-01'))).toBe(3.6);
+  });
+
+  it('should use inverse and cross rates', () => {
+    expect(findExchangeRate(rates, 'ILS', 'EUR', new Date('2024-12-05'))).toBe(0.25);
+    expect(findExchangeRate(rates, 'EUR', 'USD', new Date('2024-12-05'))).toBeCloseTo(4 / 3.6);
+  });
+
+  it('should return null when no rate exists', () => {
+    expect(findExchangeRate(rates, 'GBP', 'ILS', new Date('2024-12-05'))).toBeNull();
+    expect(convertAmount(100, 'GBP', 'ILS', new Date('2024-12-05'), rates)).toBeNull();
+  });
+});
+
+describe('convertTransactionsToBase', () => {
+  it('should convert foreign account transactions and keep the original amount', () => {
+    const { transactions, missingRates } = convertTransactionsToBase(
+      [
+        { amount: 100, currency: 'USD', date: new Date('2024-12-05') },
+        { amount: 50, currency: 'ILS', date: new Date('2024-12-05') },
+      ],
+      'ILS',
+      rates
+    );
+
+    expect(missingRates).toEqual([]);
+    expect(transactions[0]).toMatchObject({
+      amount: 360,
+      currency: 'ILS',
+      originalAmount: 100,
+      originalCurrency: 'USD',
+    });
+    expect(transactions[1]?.amount).toBe(50);
+  });
+
+  it('should scale splits with the parent', () => {
+    const { transactions } = convertTransactionsToBase(
+      [
+        {
+          amount: 100,
+          currency: 'EUR',
+          date: new Date('2024-12-05'),
+          splits: [{ amount: 60 }, { amount: 40 }],
+        },
+      ],
+      'ILS',
+      rates
+    );
+
+    expect(transactions[0]?.splits?.map((s) => s.amount)).toEqual([240, 160]);
+  });
+
+  it('should report currencies without a rate', () => {
+    const { transactions, missingRates } = convertTransactionsToBase(
+      [{ amount: 10, currency: 'GBP', date: new Date('2024-12-05') }],
+      'ILS',
+      rates
+    );
+
+    expect(transactions[0]?.amount).toBe(10);
+    expect(missingRates).toEqual(['GBP']);
+  });
+});
+
+describe('getOriginalCurrencyTotals', () => {
+  it('should sum foreign amounts per currency with their converted totals', () => {
+    const totals = getOriginalCurrencyTotals([
+      { amount: 360, originalAmount: 100, originalCurrency: 'USD' },
+      { amount: 72, originalAmount: 20, originalCurrency: 'USD' },
+      { amount: 40, originalAmount: 10, originalCurrency: 'EUR' },
+      { amount: 500 },
+    ]);
+
+    expect(totals).toEqual([
+      { currency: 'USD', originalAmount: 120, amount: 432 },
+      { currency: 'EUR', originalAmount: 10, amount: 40 },
+    ]);
+  });
+});
+
+describe('parseExchangeRateFile', () => {
+  it('should parse CSV with a header row', () => {
+    const result = parseExchangeRateFile(
+      'date,currency,baseCurrency,rate\n2024-12-01,usd,ILS,3.6\n2024-12-02,EUR,ILS,4.01'
+    );
+
+    expect(result.errors).toEqual([]);
+    expect(result.rates).toHaveLength(2);
+    expect(result.rates[0]).toMatchObject({ currency: 'USD', baseCurrency: 'ILS', rate: 3.6 });
+  });
+
+  it('should parse a JSON array', () => {
+    const result = parseExchangeRateFile(
+      JSON.stringify([{ date: '2024-12-01', currency: 'USD', baseCurrency: 'ILS', rate: 3.6 }])
+    );
+
+    expect(result.rates).toHaveLength(1);
+  });
+
+  it('should report invalid rows', () => {
+    const result = parseExchangeRateFile('2024-12-01,USD,ILS,abc\nnot-a-date,USD,ILS,3.6');
+
+    expect(result.rates).toHaveLength(0);
+    expect(result.errors.map((e) => e.row)).toEqual([1, 2]);
+  });
+});
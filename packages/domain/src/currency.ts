@@ -0,0 +1,245 @@
+/**
+ * Multi-currency support
+ * Converts amounts into the household's base currency using a table of
+ * exchange rates (one rate per currency pair per day)
+ */
+
+export interface ExchangeRate {
+  date: Date;
+  currency: string; // Currency being priced, e.g. USD
+  baseCurrency: string; // Currency the rate is quoted in, e.g. ILS
+  rate: number; // Units of baseCurrency for 1 unit of currency
+}
+
+export interface ExchangeRateParseResult {
+  rates: ExchangeRate[];
+  errors: Array<{ row: number; raw: string; reason: string }>;
+}
+
+export interface ConvertibleTransaction {
+  amount: number;
+  date: Date;
+  currency: string; // Currency of `amount` (the account currency)
+  originalAmount?: number | null;
+  originalCurrency?: string | null;
+  splits?: Array<{ amount: number }>;
+}
+
+export const DEFAULT_BASE_CURRENCY = 'ILS';
+
+/**
+ * Find the best rate for a currency pair on a date
+ * Uses the latest rate on or before the date, falling back to the earliest rate after it
+ */
+function findDirectRate(
+  rates: ExchangeRate[],
+  currency: string,
+  baseCurrency: string,
+  date: Date
+): number | null {
+  let before: ExchangeRate | null = null;
+  let after: ExchangeRate | null = null;
+  const time = date.getTime();
+
+  for (const rate of rates) {
+    if (rate.currency !== currency || rate.baseCurrency !== baseCurrency) continue;
+
+    const rateTime = rate.date.getTime();
+    if (rateTime <= time) {
+      if (!before || rateTime > before.date.getTime()) before = rate;
+    } else if (!after || rateTime < after.date.getTime()) {
+      after = rate;
+    }
+  }
+
+  return (before ?? after)?.rate ?? null;
+}
+
+/**
+ * Get the rate to convert 1 unit of `from` into `to` on a date
+ * Tries the direct pair, the inverse pair, then a cross rate through a shared base currency
+ * Returns null when no rate is available
+ */
+export function findExchangeRate(
+  rates: ExchangeRate[],
+  from: string,
+  to: string,
+  date: Date
+): number | null {
+  if (from === to) return 1;
+
+  const direct = findDirectRate(rates, from, to, date);
+  if (direct !== null) return direct;
+
+  const inverse = findDirectRate(rates, to, from, date);
+  if (inverse !== null && inverse !== 0) return 1 / inverse;
+
+  const bases = new Set(rates.filter((r) => r.currency === from).map((r) => r.baseCurrency));
+  for (const base of bases) {
+    const fromRate = findDirectRate(rates, from, base, date);
+    const toRate = findDirectRate(rates, to, base, date);
+    if (fromRate !== null && toRate) return fromRate / toRate;
+  }
+
+  return null;
+}
+
+/**
+ * Convert an amount between currencies, rounded to 2 decimals
+ * Returns null when no rate is available
+ */
+export function convertAmount(
+  amount: number,
+  from: string,
+  to: string,
+  date: Date,
+  rates: ExchangeRate[]
+): number | null {
+  const rate = findExchangeRate(rates, from, to, date);
+  if (rate === null) return null;
+  return Math.round(amount * rate * 100) / 100;
+}
+
+/**
+ * Convert transactions into the base currency for household reports
+ *
+ * - Transactions already in the base currency are returned unchanged
+ * - Converted transactions keep their account-currency amount as originalAmount/originalCurrency
+ *   (unless they already carry a foreign original, e.g. a card charge abroad)
+ * - Splits are scaled by the same rate so they still add up to the parent
+ * - Transactions without a rate keep their amount, and their currency is reported in missingRates
+ */
+export function convertTransactionsToBase<T extends ConvertibleTransaction>(
+  transactions: T[],
+  baseCurrency: string,
+  rates: ExchangeRate[]
+): { transactions: T[]; missingRates: string[] } {
+  const missing = new Set<string>();
+
+  const converted = transactions.map((tx) => {
+    if (tx.currency === baseCurrency) return tx;
+
+    const rate = findExchangeRate(rates, tx.currency, baseCurrency, tx.date);
+    if (rate === null) {
+      missing.add(tx.currency);
+      return tx;
+    }
+
+    const keepOriginal = tx.originalCurrency && tx.originalCurrency !== baseCurrency;
+    return {
+      ...tx,
+      amount: Math.round(tx.amount * rate * 100) / 100,
+      currency: baseCurrency,
+      originalAmount: keepOriginal ? tx.originalAmount : tx.amount,
+      originalCurrency: keepOriginal ? tx.originalCurrency : tx.currency,
+      splits: tx.splits?.map((split) => ({
+        ...split,
+        amount: Math.round(split.amount * rate * 100) / 100,
+      })),
+    };
+  });
+
+  return { transactions: converted, missingRates: [...missing].sort() };
+}
+
+/**
+ * Sum amounts per original currency, alongside their converted total
+ * Used to show e.g. "$120 → ₪432" next to a KPI
+ */
+export function getOriginalCurrencyTotals(
+  transactions: Array<{
+    amount: number;
+    originalAmount?: number | null;
+    originalCurrency?: string | null;
+  }>
+): Array<{ currency: string; originalAmount: number; amount: number }> {
+  const totals = new Map<string, { currency: string; originalAmount: number; amount: number }>();
+
+  for (const tx of transactions) {
+    if (!tx.originalCurrency || tx.originalAmount == null) continue;
+    const total = totals.get(tx.originalCurrency) ?? {
+      currency: tx.originalCurrency,
+      originalAmount: 0,
+      amount: 0,
+    };
+    total.originalAmount += tx.originalAmount;
+    total.amount += tx.amount;
+    totals.set(tx.originalCurrency, total);
+  }
+
+  return [...totals.values()]
+    .map((t) => ({
+      ...t,
+      originalAmount: Math.round(t.originalAmount * 100) / 100,
+      amount: Math.round(t.amount * 100) / 100,
+    }))
+    .sort((a, b) => b.amount - a.amount);
+}
+
+/**
+ * Parse an exchange rate file
+ *
+ * Accepts either a JSON array of { date, currency, baseCurrency, rate } objects, or CSV with
+ * the columns date,currency,baseCurrency,rate (header row optional, dates as YYYY-MM-DD)
+ */
+export function parseExchangeRateFile(content: string): ExchangeRateParseResult {
+  const trimmed = content.replace(/^\uFEFF/, '').trim();
+  const rates: ExchangeRate[] = [];
+  const errors: ExchangeRateParseResult['errors'] = [];
+
+  const pushRate = (row: number, raw: string, fields: unknown[]) => {
+    const [date, currency, baseCurrency, rate] = fields;
+    // Midnight Israel time, matching how transaction dates are stored
+    const parsedDate = new Date(`${String(date).slice(0, 10)}T00:00:00+02:00`);
+    const parsedRate = typeof rate === 'number' ? rate : Number.parseFloat(String(rate));
+    const from = String(currency ?? '')
+      .trim()
+      .toUpperCase();
+    const to = String(baseCurrency ?? '')
+      .trim()
+      .toUpperCase();
+
+    if (Number.isNaN(parsedDate.getTime())) {
+      errors.push({ row, raw, reason: `Invalid date "${date}"` });
+    } else if (!/^[A-Z]{3}$/.test(from) || !/^[A-Z]{3}$/.test(to)) {
+      errors.push({ row, raw, reason: 'Currencies must be 3-letter ISO codes' });
+    } else if (!Number.isFinite(parsedRate) || parsedRate <= 0) {
+      errors.push({ row, raw, reason: `Invalid rate "${rate}"` });
+    } else {
+      rates.push({ date: parsedDate, currency: from, baseCurrency: to, rate: parsedRate });
+    }
+  };
+
+  if (trimmed.startsWith('[')) {
+    let rows: unknown;
+    try {
+      rows = JSON.parse(trimmed);
+    } catch {
+      return { rates, errors: [{ row: 0, raw: '', reason: 'Invalid JSON' }] };
+    }
+    if (!Array.isArray(rows)) {
+      return { rates, errors: [{ row: 0, raw: '', reason: 'Expected a JSON array' }] };
+    }
+    rows.forEach((item, index) => {
+      const entry = (item ?? {}) as Record<string, unknown>;
+      pushRate(index + 1, JSON.stringify(item), [
+        entry.date,
+        entry.currency,
+        entry.baseCurrency,
+        entry.rate,
+      ]);
+    });
+    return { rates, errors };
+  }
+
+  const lines = trimmed.split(/\r?\n/);
+  lines.forEach((line, index) => {
+    if (!line.trim()) return;
+    const fields = line.split(/[,;\t]/).map((field) => field.trim().replace(/^"|"$/g, ''));
+    // Skip a header row
+    if (index === 0 && fields[0]?.toLowerCase() === 'date') return;
+    pushRate(index + 1, line, fields);
+  });
+
+  return { rates, errors };
+}
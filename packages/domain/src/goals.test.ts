@@ -0,0 +1,103 @@
+import { describe, expect, it } from 'vitest';
+import { calculateGoalProgress, getGoalContributions } from './goals';
+
+const goal = {
+  id: 'g1',
+  targetAmount: 15000,
+  targetDate: new Date(2025, 6, 1),
+  startDate: new Date(2025, 0, 1),
+  initialAmount: 0,
+  accountId: 'savings',
+  categoryId: 'cat-vacation',
+};
+
+describe('getGoalContributions', () => {
+  it('should count tagged transactions, linked account movements and linked category spending', () => {
+    const contributions = getGoalContributions(goal, [
+      // Tagged transfer out of checking
+      {
+        accountId: 'checking',
+        goalId: 'g1',
+        date: new Date(2025, 1, 1),
+        amount: 1000,
+        direction: 'transfer',
+      },
+      // Transfer leg arriving in the savings account
+      {
+        accountId: 'savings',
+        date: new Date(2025, 1, 2),
+        amount: 2000,
+        direction: 'transfer',
+        preTransferDirection: 'income',
+      },
+      // Withdrawal from the savings account
+      {
+        accountId: 'savings',
+        date: new Date(2025, 1, 10),
+        amount: 500,
+        direction: 'expense',
+      },
+      // Money set aside in the linked category
+      {
+        accountId: 'checking',
+        categoryId: 'cat-vacation',
+        date: new Date(2025, 2, 1),
+        amount: 300,
+        direction: 'expense',
+      },
+      // Unrelated
+      {
+        accountId: 'checking',
+        categoryId: 'cat-food',
+        date: new Date(2025, 2, 1),
+        amount: 80,
+        direction: 'expense',
+      },
+    ]);
+
+    expect(contributions.map((c) => c.amount)).toEqual([1000, 2000, -500, 300]);
+  });
+
+  it('should ignore transactions before the start date', () => {
+    const contributions = getGoalContributions(goal, [
+      { accountId: 'savings', date: new Date(2024, 11, 1), amount: 5000, direction: 'income' },
+    ]);
+
+    expect(contributions).toHaveLength(0);
+  });
+});
+
+describe('calculateGoalProgress', () => {
+  it('should report progress and the required monthly contribution', () => {
+    const progress = calculateGoalProgress(
+      goal,
+      [{ date: new Date(2025, 1, 1), amount: 7500 }],
+      new Date(2025, 3, 1)
+    );
+
+    expect(progress.savedAmount).toBe(7500);
+    expect(progress.progressPct).toBe(0.5);
+    expect(progress.remainingAmount).toBe(7500);
+    // April, May and June remain
+    expect(progress.monthsLeft).toBe(3);
+    expect(progress.requiredMonthly).toBe(2500);
+    expect(progress.status).toBe('on_track');
+  });
+
+  it('should flag goals that fall behind', () => {
+    const progress = calculateGoalProgress(
+      goal,
+      [{ date: new Date(2025, 1, 1), amount: 2000 }],
+      new Date(2025, 4, 1)
+    );
+
+    expect(progress.status).toBe('behind');
+  });
+
+  it('should count the initial amount and report completed and overdue goals', () => {
+    expect(
+      calculateGoalProgress({ ...goal, initialAmount: 15000 }, [], new Date(2025, 3, 1)).status
+    ).toBe('completed');
+    expect(calculateGoalProgress(goal, [], new Date(2025, 7, 1)).status).toBe('overdue');
+  });
+});
@@ -0,0 +1,115 @@
+/**
+ * Savings goals
+ * Tracks contributions toward a target amount and whether the household is on track
+ */
+
+import type { Goal, GoalProgress, GoalStatus } from './types';
+
+export interface GoalTransaction {
+  accountId: string;
+  categoryId?: string | null;
+  goalId?: string | null;
+  date: Date;
+  amount: number;
+  direction: string;
+  preTransferDirection?: string | null;
+}
+
+export interface GoalContribution {
+  date: Date;
+  amount: number; // Negative for withdrawals
+}
+
+/**
+ * Pick out the transactions that contribute to a goal
+ *
+ * - A transaction tagged with the goal always counts as a contribution
+ * - Money moving into the linked account counts, money leaving it is a withdrawal
+ *   (transfers use their direction from before they were paired)
+ * - Spending in the linked category counts (money set aside), refunds are withdrawals
+ *
+ * Only transactions from the goal's start date are considered.
+ */
+export function getGoalContributions(
+  goal: Pick<Goal, 'id' | 'startDate' | 'accountId' | 'categoryId'>,
+  transactions: GoalTransaction[]
+): GoalContribution[] {
+  const contributions: GoalContribution[] = [];
+
+  for (const tx of transactions) {
+    if (tx.date < goal.startDate) continue;
+
+    if (tx.goalId === goal.id) {
+      contributions.push({ date: tx.date, amount: tx.amount });
+      continue;
+    }
+
+    if (goal.accountId && tx.accountId === goal.accountId) {
+      const direction = tx.preTransferDirection ?? tx.direction;
+      if (direction === 'income') contributions.push({ date: tx.date, amount: tx.amount });
+      if (direction === 'expense') contributions.push({ date: tx.date, amount: -tx.amount });
+      continue;
+    }
+
+    if (goal.categoryId && tx.categoryId === goal.categoryId) {
+      contributions.push({
+        date: tx.date,
+        amount: tx.direction === 'income' ? -tx.amount : tx.amount,
+      });
+    }
+  }
+
+  return contributions;
+}
+
+/**
+ * Calendar months from the month of `from` up to (not including) the month of `to`
+ */
+function monthsBetween(from: Date, to: Date): number {
+  return (to.getFullYear() - from.getFullYear()) * 12 + (to.getMonth() - from.getMonth());
+}
+
+/**
+ * Calculate progress toward a goal
+ *
+ * The goal is on track when savings are at least 95% of where steady monthly
+ * contributions from the start date would be by now.
+ */
+export function calculateGoalProgress(
+  goal: Pick<Goal, 'targetAmount' | 'targetDate' | 'startDate' | 'initialAmount'>,
+  contributions: GoalContribution[],
+  asOf: Date = new Date()
+): GoalProgress {
+  const savedAmount =
+    Math.round((goal.initialAmount + contributions.reduce((sum, c) => sum + c.amount, 0)) * 100) /
+    100;
+  const remainingAmount = Math.max(goal.targetAmount - savedAmount, 0);
+  const monthsLeft = asOf > goal.targetDate ? 0 : Math.max(monthsBetween(asOf, goal.targetDate), 1);
+
+  const total = goal.targetDate.getTime() - goal.startDate.getTime();
+  const elapsed = Math.min(Math.max(asOf.getTime() - goal.startDate.getTime(), 0), total);
+  const elapsedPct = total > 0 ? elapsed / total : 1;
+  const expectedAmount = goal.initialAmount + (goal.targetAmount - goal.initialAmount) * elapsedPct;
+
+  let status: GoalStatus;
+  if (savedAmount >= goal.targetAmount) {
+    status = 'completed';
+  } else if (monthsLeft === 0) {
+    status = 'overdue';
+  } else if (savedAmount >= expectedAmount * 0.95) {
+    status = 'on_track';
+  } else {
+    status = 'behind';
+  }
+
+  return {
+    savedAmount,
+    progressPct: goal.targetAmount > 0 ? savedAmount / goal.targetAmount : 0,
+    remainingAmount,
+    monthsLeft,
+    requiredMonthly:
+      monthsLeft > 0 ? Math.round((remainingAmount / monthsLeft) * 100) / 100 : remainingAmount,
+    expectedAmount: Math.round(expectedAmount * 100) / 100,
+    status,
+  };
+}
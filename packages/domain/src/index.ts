@@ -3,22 +3,91 @@ export * from './types';
 
 // Categorization logic
 export {
+  applyRuleActions,
   categorizeTransaction,
   categorizeTransactions,
+  matchCategoryRules,
+  matchesRuleConditions,
+  parseRuleActions,
+  parseRuleConditions,
+  previewRule,
+  ruleMatchesTransaction,
   suggestRuleFromCorrection,
 } from './categorization';
+export type { RuleActionChanges, RulePreviewMatch } from './categorization';
+
+// Rule conflict, overlap and dead-rule analysis
+export { analyzeRules, isSlowRegex } from './rule-analysis';
+export type {
+  AnalyzableRule,
+  RuleAnalysisConfig,
+  RuleFinding,
+  RuleFindingKind,
+} from './rule-analysis';
+
+// Rule proposals mined from user corrections
+export {
+  mineCorrections,
+  parseRuleProposalEvidence,
+  parseRuleProposalPayload,
+} from './correction-mining';
+export type {
+  CorrectionMiningConfig,
+  MinableCorrection,
+  MinableRule,
+  RuleProposal,
+  RuleProposalEvidence,
+  RuleProposalKind,
+  RuleProposalPayload,
+} from './correction-mining';
+
+// Household merchants: canonical names for the many spellings banks use
+export {
+  normalizeMerchantText,
+  parseMerchantTextList,
+  relinkMerchants,
+  resolveMerchant,
+} from './merchants';
 
 // AI-powered categorization
-export { suggestCategoryWithAI } from './ai-categorization';
+export {
+  categorizeBatchWithAI,
+  createGatewayProvider,
+  createGeminiProvider,
+  createOpenAICompatibleProvider,
+  findSimilarExamples,
+  normalizeMerchantKey,
+  resolveAIProvider,
+  suggestCategoryWithAI,
+} from './ai-categorization';
+export type {
+  AIBatchOptions,
+  AICategoryCache,
+  AIExample,
+  AIProvider,
+} from './ai-categorization';
 
 // Pattern detection for recurring transactions
 export { detectRecurringPatterns } from './pattern-detection';
 export type { TransactionPattern, PatternDetectionConfig } from './pattern-detection';
 
+// Transfer detection between household accounts
+export { detectTransferPairs, TRANSFER_HINTS } from './transfer-detection';
+export type {
+  TransferCandidate,
+  TransferPair,
+  TransferDetectionConfig,
+} from './transfer-detection';
+
 // Budget evaluation logic
 export {
   evaluateBudgetStatus,
   evaluateMonthlyBudgets,
+  calculateCarryOver,
+  calculateBudgetPace,
+  getBudgetPeriodStart,
+  getBudgetPeriodMonths,
+  getBudgetPeriodRange,
   calculateCategorySpending,
   calculateCategoryIncome,
   calculateMonthlyKPIs,
@@ -28,6 +97,56 @@ export {
   getBudgetStatusLabel,
 } from './budget';
 
+// Split transaction logic
+export {
+  validateSplits,
+  hasSplits,
+  getCategoryAllocations,
+  getAmountForCategory,
+} from './splits';
+export type { SplitValidationResult, CategoryAllocation } from './splits';
+
+// Savings goals
+export { getGoalContributions, calculateGoalProgress } from './goals';
+export type { GoalTransaction, GoalContribution } from './goals';
+
+// Net worth from account balance snapshots
+export {
+  isLiabilityAccount,
+  getBalanceAt,
+  calculateNetWorth,
+  getNetWorthSeries,
+} from './net-worth';
+export type { BalanceSnapshot, NetWorthAccount, NetWorthPoint } from './net-worth';
+
+// Pending transaction reconciliation
+export { findPendingMatch, findReversedPending } from './pending';
+export type { PendingMatchCandidate, IncomingTransaction, PendingMatchConfig } from './pending';
+
+// Multi-currency conversion
+export {
+  convertAmount,
+  convertTransactionsToBase,
+  findExchangeRate,
+  getOriginalCurrencyTotals,
+  parseExchangeRateFile,
+  DEFAULT_BASE_CURRENCY,
+} from './currency';
+export type { ExchangeRate, ExchangeRateParseResult, ConvertibleTransaction } from './currency';
+
+// Installment plans
+export {
+  parseInstallmentNote,
+  getInstallmentDueDate,
+  getInstallmentPlanStatus,
+  projectInstallmentCharges,
+} from './installments';
+export type {
+  InstallmentPayment,
+  InstallmentPlanStatus,
+  ProjectedInstallmentCharge,
+} from './installments';
+
 // Recurring transaction logic
 export {
   expandRecurringToRange,
@@ -38,6 +157,37 @@ export {
   getScheduleDescription,
 } from './recurring';
 
+// Recurring reconciliation: expected occurrences vs. the real bank transactions
+export {
+  matchesRecurringTemplate,
+  reconcileRecurringOccurrences,
+} from './recurring-reconciliation';
+export type {
+  RecurringCandidate,
+  RecurringOccurrenceStatus,
+  ReconciledOccurrence,
+  RecurringReconciliationConfig,
+} from './recurring-reconciliation';
+
+// Bank sync job queue: states, retry backoff and step progress
+export {
+  ACTIVE_SYNC_JOB_STATUSES,
+  SYNC_JOB_STEPS,
+  SYNC_JOB_LOCK_MS,
+  MAX_FAILED_LOGINS,
+  isSyncAuthError,
+  getSyncRetryDelay,
+  getNextSyncRetry,
+  getSyncJobProgress,
+} from './sync-jobs';
+export type {
+  SyncJobStatus,
+  SyncJobTrigger,
+  SyncJobStep,
+  SyncJobProgress,
+  SyncRetryConfig,
+} from './sync-jobs';
+
 // Category hierarchy logic
 export {
   wouldCreateCycle,
@@ -54,13 +204,24 @@ export {
 } from './category';
 
 // Utility functions
-export function formatCurrency(amount: number, currency = 'ILS'): string {
-  return new Intl.NumberFormat('he-IL', {
-    style: 'currency',
-    currency,
-    minimumFractionDigits: 0,
-    maximumFractionDigits: 2,
-  }).format(amount);
+export function formatCurrency(
+  amount: number,
+  currency = 'ILS',
+  original?: { amount?: number | null; currency?: string | null } | null
+): string {
+  const format = (value: number, code: string) =>
+    new Intl.NumberFormat('he-IL', {
+      style: 'currency',
+      currency: code,
+      minimumFractionDigits: 0,
+      maximumFractionDigits: 2,
+    }).format(value);
+
+  // Show the original amount alongside when it was in a different currency
+  if (original?.currency && original.amount != null && original.currency !== currency) {
+    return `${format(amount, currency)} (${format(original.amount, original.currency)})`;
+  }
+  return format(amount, currency);
 }
 
 export function formatMonth(month: string): string {
@@ -0,0 +1,105 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getInstallmentDueDate,
+  getInstallmentPlanStatus,
+  parseInstallmentNote,
+  projectInstallmentCharges,
+} from './installments';
+
+const plan = {
+  id: 'plan-1',
+  categoryId: 'cat-electronics',
+  description: 'KSP',
+  firstPaymentDate: new Date(2024, 10, 10), // 2024-11-10
+  totalPayments: 12,
+  paymentAmount: 250,
+};
+
+describe('parseInstallmentNote', () => {
+  it('should parse the payment number and total', () => {
+    expect(parseInstallmentNote('תשלום 3/12')).toEqual({ number: 3, total: 12 });
+    expect(parseInstallmentNote('תשלום 1/3 | memo')).toEqual({ number: 1, total: 3 });
+  });
+
+  it('should ignore notes without installment info', () => {
+    expect(parseInstallmentNote(null)).toBeNull();
+    expect(parseInstallmentNote('regular purchase')).toBeNull();
+    expect(parseInstallmentNote('תשלום 13/12')).toBeNull();
+  });
+});
+
+describe('getInstallmentDueDate', () => {
+  it('should add one month per payment', () => {
+    expect(getInstallmentDueDate(plan.firstPaymentDate, 1)).toEqual(new Date(2024, 10, 10));
+    expect(getInstallmentDueDate(plan.firstPaymentDate, 3)).toEqual(new Date(2025, 0, 10));
+  });
+
+  it('should clamp to the end of shorter months', () => {
+    expect(getInstallmentDueDate(new Date(2025, 0, 31), 2)).toEqual(new Date(2025, 1, 28));
+  });
+});
+
+describe('getInstallmentPlanStatus', () => {
+  it('should report remaining payments and liability', () => {
+    const status = getInstallmentPlanStatus(plan, [
+      { installmentNumber: 1, amount: 250 },
+      { installmentNumber: 2, amount: 250 },
+      { installmentNumber: 3, amount: 250 },
+    ]);
+
+    expect(status).toMatchObject({
+      paidCount: 3,
+      remainingCount: 9,
+      remainingAmount: 2250,
+      isComplete: false,
+    });
+    expect(status.nextPaymentDate).toEqual(new Date(2025, 1, 10));
+    expect(status.lastPaymentDate).toEqual(new Date(2025, 9, 10));
+  });
+
+  it('should count earlier payments that were never imported', () => {
+    const status = getInstallmentPlanStatus(plan, [{ installmentNumber: 5, amount: 250 }]);
+
+    expect(status.paidCount).toBe(5);
+    expect(status.remainingCount).toBe(7);
+  });
+
+  it('should mark a fully paid plan complete', () => {
+    const status = getInstallmentPlanStatus(plan, [{ installmentNumber: 12, amount: 250 }]);
+
+    expect(status.isComplete).toBe(true);
+    expect(status.nextPaymentDate).toBeNull();
+    expect(status.remainingAmount).toBe(0);
+  });
+});
+
+describe('projectInstallmentCharges', () => {
+  it('should project unpaid payments into the months they fall in', () => {
+    const charges = projectInstallmentCharges(
+      [{ ...plan, payments: [{ installmentNumber: 3, amount: 250 }] }],
+      '2025-02',
+      3
+    );
+
+    expect(charges.map((c) => [c.month, c.number])).toEqual([
+      ['2025-02', 4],
+      ['2025-03', 5],
+      ['2025-04', 6],
+    ]);
+    expect(charges[0]).toMatchObject({ categoryId: 'cat-electronics', amount: 250 });
+  });
+
+  it('should skip months before the start and completed plans', () => {
+    const charges = projectInstallmentCharges(
+      [
+        { ...plan, payments: [{ installmentNumber: 1, amount: 250 }] },
+        { ...plan, id: 'plan-2', payments: [{ installmentNumber: 12, amount: 250 }] },
+      ],
+      '2025-10',
+      6
+    );
+
+    expect(charges).toHaveLength(1);
+    expect(charges[0]).toMatchObject({ planId: 'plan-1', month: '2025-10', number: 12 });
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Installment plans (תשלומים)
+ * Tracks purchases split into monthly payments and projects the payments still to come
+ */
+
+import type { InstallmentPlan } from './types';
+
+export interface InstallmentPayment {
+  installmentNumber?: number | null;
+  amount: number;
+}
+
+export interface InstallmentPlanStatus {
+  paidCount: number;
+  remainingCount: number;
+  remainingAmount: number;
+  nextPaymentDate: Date | null;
+  lastPaymentDate: Date;
+  isComplete: boolean;
+}
+
+export interface ProjectedInstallmentCharge {
+  planId: string;
+  categoryId: string | null;
+  description: string;
+  month: string; // YYYY-MM
+  number: number;
+  totalPayments: number;
+  amount: number;
+}
+
+/**
+ * Parse installment info from a note like "תשלום 3/12"
+ * Used to link rows imported before plans were tracked
+ */
+export function parseInstallmentNote(
+  notes: string | null | undefined
+): { number: number; total: number } | null {
+  const match = notes?.match(/תשלום\s+(\d+)\/(\d+)/);
+  if (!match) return null;
+
+  const number = Number.parseInt(match[1]!, 10);
+  const total = Number.parseInt(match[2]!, 10);
+  if (number < 1 || total < 2 || number > total) return null;
+
+  return { number, total };
+}
+
+/**
+ * Get the date payment `number` (1-based) is due
+ * Keeps the day of month of the first payment, clamped to the end of shorter months
+ */
+export function getInstallmentDueDate(firstPaymentDate: Date, number: number): Date {
+  const first = new Date(firstPaymentDate);
+  const due = new Date(first.getFullYear(), first.getMonth() + number - 1, 1);
+  const lastDay = new Date(due.getFullYear(), due.getMonth() + 1, 0).getDate();
+  due.setDate(Math.min(first.getDate(), lastDay));
+  due.setHours(first.getHours(), first.getMinutes(), 0, 0);
+  return due;
+}
+
+/**
+ * Work out how much of a plan is paid and what is still owed
+ * Paid count comes from the highest payment number seen, so payments charged before
+ * the account was connected still count as paid
+ */
+export function getInstallmentPlanStatus(
+  plan: Pick<InstallmentPlan, 'firstPaymentDate' | 'totalPayments' | 'paymentAmount'>,
+  payments: InstallmentPayment[]
+): InstallmentPlanStatus {
+  const highestNumber = payments.reduce(
+    (max, payment) => Math.max(max, payment.installmentNumber ?? 0),
+    0
+  );
+  const paidCount = Math.min(Math.max(highestNumber, payments.length), plan.totalPayments);
+  const remainingCount = plan.totalPayments - paidCount;
+
+  return {
+    paidCount,
+    remainingCount,
+    remainingAmount: Math.round(remainingCount * plan.paymentAmount * 100) / 100,
+    nextPaymentDate:
+      remainingCount > 0 ? getInstallmentDueDate(plan.firstPaymentDate, paidCount + 1) : null,
+    lastPaymentDate: getInstallmentDueDate(plan.firstPaymentDate, plan.totalPayments),
+    isComplete: remainingCount === 0,
+  };
+}
+
+/**
+ * Project the unpaid payments of each plan into the months they will be charged
+ *
+ * @param plans - Plans with the payments charged so far
+ * @param fromMonth - First month to include (YYYY-MM)
+ * @param months - Number of months to project
+ */
+export function projectInstallmentCharges(
+  plans: Array<
+    Pick<
+      InstallmentPlan,
+      'id' | 'categoryId' | 'description' | 'firstPaymentDate' | 'totalPayments' | 'paymentAmount'
+    > & { payments: InstallmentPayment[] }
+  >,
+  fromMonth: string,
+  months = 12
+): ProjectedInstallmentCharge[] {
+  const [year, monthNum] = fromMonth.split('-').map(Number);
+  if (year === undefined || monthNum === undefined) {
+    throw new Error(`Invalid month format: ${fromMonth}`);
+  }
+  const start = year * 12 + (monthNum - 1);
+  const end = start + months;
+
+  const charges: ProjectedInstallmentCharge[] = [];
+
+  for (const plan of plans) {
+    const { paidCount } = getInstallmentPlanStatus(plan, plan.payments);
+
+    for (let number = paidCount + 1; number <= plan.totalPayments; number++) {
+      const due = getInstallmentDueDate(plan.firstPaymentDate, number);
+      const index = due.getFullYear() * 12 + due.getMonth();
+      if (index < start) continue;
+      if (index >= end) break;
+
+      charges.push({
+        planId: plan.id,
+        categoryId: plan.categoryId ?? null,
+        description: plan.description,
+        month: `${due.getFullYear()}-${String(due.getMonth() + 1).padStart(2, '0')}`,
+        number,
+        totalPayments: plan.totalPayments,
+        amount: plan.paymentAmount,
+      });
+    }
+  }
+
+  return charges.sort((a, b) => a.month.localeCompare(b.month) || b.amount - a.amount);
+}
@@ -0,0 +1,90 @@
+import { describe, expect, it } from 'vitest';
+import { categorizeTransaction, ruleMatchesTransaction } from './categorization';
+import { parseMerchantTextList, relinkMerchants, resolveMerchant } from './merchants';
+import type { Merchant } from './types';
+
+const merchant = (id: string, overrides: Partial<Merchant> = {}): Merchant => ({
+  id,
+  householdId: 'h1',
+  name: id,
+  aliases: [],
+  patterns: [],
+  ...overrides,
+});
+
+const shufersal = merchant('shufersal', {
+  name: 'Shufersal',
+  aliases: ['SHUFERSAL ONLINE'],
+  patterns: ['שופרסל'],
+  defaultCategoryId: 'cat-groceries',
+});
+const shufersalExpress = merchant('shufersal-express', {
+  name: 'Shufersal Express',
+  patterns: ['שופרסל אקספרס'],
+});
+const merchants = [shufersal, shufersalExpress];
+
+describe('resolveMerchant', () => {
+  it('should match aliases ignoring case, digits and punctuation', () => {
+    const tx = { merchant: 'Shufersal-Online 0423', description: 'x' };
+
+    expect(resolveMerchant(tx, merchants)?.id).toBe('shufersal');
+  });
+
+  it('should match patterns in the merchant or description, longest first', () => {
+    expect(
+      resolveMerchant({ merchant: 'שופרסל דיל רמת גן', description: 'x' }, merchants)?.id
+    ).toBe('shufersal');
+    expect(
+      resolveMerchant({ merchant: null, description: 'שופרסל אקספרס 12' }, merchants)?.id
+    ).toBe('shufersal-express');
+    expect(resolveMerchant({ merchant: 'Rami Levy', description: 'x' }, merchants)).toBeNull();
+  });
+
+  it('should report only transactions whose merchant changes', () => {
+    const changes = relinkMerchants(
+      [
+        { merchant: 'SHUFERSAL ONLINE', description: 'x', merchantId: 'shufersal' },
+        { merchant: 'שופרסל אקספרס', description: 'x', merchantId: 'shufersal' },
+        { merchant: 'Rami Levy', description: 'x', merchantId: 'shufersal' },
+      ],
+      merchants
+    );
+
+    expect(changes.map((c) => c.merchantId)).toEqual(['shufersal-express', null]);
+  });
+
+  it('should ignore malformed stored lists', () => {
+    expect(parseMerchantTextList(null)).toEqual([]);
+    expect(parseMerchantTextList('not json')).toEqual([]);
+    expect(parseMerchantTextList('["a", 1]')).toEqual([]);
+    expect(parseMerchantTextList('["SHUFERSAL ONLINE"]')).toEqual(['SHUFERSAL ONLINE']);
+  });
+});
+
+describe('merchants in categorization', () => {
+  const tx = {
+    description: 'שופרסל דיל',
+    amount: 240,
+    direction: 'expense' as const,
+    merchantId: 'shufersal',
+  };
+
+  it('should fall back to the merchant default category when no rule matches', async () => {
+    const result = await categorizeTransaction(tx, [], undefined, { merchants });
+
+    expect(result).toMatchObject({ categoryId: 'cat-groceries', source: 'merchant_default' });
+  });
+
+  it('should let rules target a merchant whatever its text', () => {
+    const rule = {
+      type: 'keyword' as const,
+      pattern: '',
+      conditions: { merchantIds: ['shufersal'] },
+    };
+
+    expect(ruleMatchesTransaction(rule, tx)).toBe(true);
+    expect(ruleMatchesTransaction(rule, { ...tx, merchantId: 'shufersal-express' })).toBe(false);
+    expect(ruleMatchesTransaction(rule, { ...tx, merchantId: null })).toBe(false);
+  });
+});
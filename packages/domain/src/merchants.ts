@@ -0,0 +1,84 @@
+/**
+ * Merchant resolution
+ * The merchant text on a transaction is whatever the bank printed, so one business shows up
+ * as "שופרסל דיל רמת גן", "SHUFERSAL ONLINE" and "שופרסל אקספרס". A household Merchant
+ * gathers them under one canonical name:
+ * - an alias matches the whole merchant text ("SHUFERSAL ONLINE")
+ * - a pattern matches part of the merchant text or description ("שופרסל")
+ */
+
+import { merchantTextListSchema } from './schemas';
+import type { Merchant, TransactionInput } from './types';
+
+/**
+ * Parse the aliases or patterns stored with a merchant (JSON string column)
+ * Missing or malformed lists are treated as empty
+ */
+export function parseMerchantTextList(value: string | null | undefined): string[] {
+  if (!value) return [];
+  try {
+    const result = merchantTextListSchema.safeParse(JSON.parse(value));
+    return result.success ? result.data : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Normalize merchant text for comparison
+ * Case, digits (branch and terminal numbers), punctuation and extra spaces are ignored
+ */
+export function normalizeMerchantText(text: string): string {
+  return text
+    .toLowerCase()
+    .replace(/[\d\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+/**
+ * Find the household merchant a transaction belongs to
+ *
+ * An exact match of the normalized merchant text against a merchant's name or aliases wins.
+ * Otherwise the longest pattern contained in the merchant text or description decides, so
+ * "שופרסל אקספרס" can belong to a different merchant than "שופרסל".
+ */
+export function resolveMerchant<M extends Merchant>(
+  tx: Pick<TransactionInput, 'merchant' | 'description'>,
+  merchants: M[]
+): M | null {
+  const merchantText = tx.merchant ? normalizeMerchantText(tx.merchant) : '';
+  if (merchantText) {
+    const exact = merchants.find((m) =>
+      [m.name, ...m.aliases].some((alias) => normalizeMerchantText(alias) === merchantText)
+    );
+    if (exact) return exact;
+  }
+
+  const searchText = normalizeMerchantText(`${tx.merchant ?? ''} ${tx.description}`);
+  let best: { merchant: M; length: number } | null = null;
+  for (const merchant of merchants) {
+    for (const pattern of merchant.patterns) {
+      const normalized = normalizeMerchantText(pattern);
+      if (!normalized || !searchText.includes(normalized)) continue;
+      if (!best || normalized.length > best.length) {
+        best = { merchant, length: normalized.length };
+      }
+    }
+  }
+  return best?.merchant ?? null;
+}
+
+/**
+ * Resolve every transaction and return the ones whose merchant changes
+ * Used to relink a household's transactions after its merchants are edited
+ */
+export function relinkMerchants<T extends Pick<TransactionInput, 'merchant' | 'description'>>(
+  transactions: Array<T & { merchantId?: string | null }>,
+  merchants: Merchant[]
+): Array<{ transaction: T; merchantId: string | null }> {
+  return transactions.flatMap((transaction) => {
+    const merchantId = resolveMerchant(transaction, merchants)?.id ?? null;
+    return merchantId === (transaction.merchantId ?? null) ? [] : [{ transaction, merchantId }];
+  });
+}
@@ -0,0 +1,53 @@
+import { describe, expect, it } from 'vitest';
+import { calculateNetWorth, getBalanceAt, getNetWorthSeries } from './net-worth';
+
+const accounts = [
+  { id: 'checking', type: 'checking' },
+  { id: 'pension', type: 'savings' },
+  { id: 'card', type: 'credit' },
+];
+
+const snapshots = [
+  { accountId: 'checking', date: new Date('2024-09-15'), balance: 10000 },
+  { accountId: 'checking', date: new Date('2024-10-20'), balance: 12000 },
+  { accountId: 'checking', date: new Date('2024-10-05'), balance: 11000 },
+  { accountId: 'pension', date: new Date('2024-10-01'), balance: 200000 },
+  { accountId: 'card', date: new Date('2024-09-30'), balance: -3000 },
+  { accountId: 'card', date: new Date('2024-10-31'), balance: 2500 },
+];
+
+describe('getBalanceAt', () => {
+  it('should use the latest snapshot on or before the date', () => {
+    expect(getBalanceAt(snapshots, 'checking', new Date('2024-10-10'))).toBe(11000);
+    expect(getBalanceAt(snapshots, 'checking', new Date('2024-10-20'))).toBe(12000);
+    expect(getBalanceAt(snapshots, 'pension', new Date('2024-09-30'))).toBeNull();
+  });
+});
+
+describe('calculateNetWorth', () => {
+  it('should subtract credit card debt from assets', () => {
+    expect(calculateNetWorth(accounts, snapshots, new Date('2024-10-31'))).toMatchObject({
+      assets: 212000,
+      liabilities: 2500,
+      netWorth: 209500,
+    });
+  });
+
+  it('should count card debt whichever sign the bank reports it with', () => {
+    expect(calculateNetWorth(accounts, snapshots, new Date('2024-09-30')).liabilities).toBe(3000);
+  });
+});
+
+describe('getNetWorthSeries', () => {
+  it('should report the end of each month, oldest first', () => {
+    const now = new Date(2024, 10, 12);
+    const series = getNetWorthSeries(accounts, snapshots, 3, now);
+
+    expect(series.map((point) => point.date)).toEqual([
+      new Date(2024, 8, 30, 23, 59, 59, 999),
+      new Date(2024, 9, 31, 23, 59, 59, 999),
+      now,
+    ]);
+    expect(series.map((point) => point.netWorth)).toEqual([7000, 209500, 209500]);
+  });
+});
@@ -0,0 +1,91 @@
+/**
+ * Net worth
+ * Account balances over time from balance snapshots, taken on every bank sync or entered
+ * by hand. Net worth is assets minus credit card debt.
+ */
+
+export interface BalanceSnapshot {
+  accountId: string;
+  date: Date;
+  balance: number; // In the currency the caller sums in
+}
+
+export interface NetWorthAccount {
+  id: string;
+  type: string; // checking | savings | credit | cash
+}
+
+export interface NetWorthPoint {
+  date: Date;
+  assets: number;
+  liabilities: number; // Credit card debt, as a positive amount
+  netWorth: number;
+}
+
+/**
+ * Credit card balances are debt; every other account type is an asset
+ */
+export function isLiabilityAccount(type: string): boolean {
+  return type === 'credit';
+}
+
+/**
+ * An account's balance as of `date`: its latest snapshot on or before that date
+ * Returns null when the account has no snapshot yet
+ */
+export function getBalanceAt(
+  snapshots: BalanceSnapshot[],
+  accountId: string,
+  date: Date
+): number | null {
+  let latest: BalanceSnapshot | null = null;
+  for (const snapshot of snapshots) {
+    if (snapshot.accountId !== accountId || snapshot.date > date) continue;
+    if (!latest || snapshot.date >= latest.date) latest = snapshot;
+  }
+  return latest ? latest.balance : null;
+}
+
+/**
+ * Net worth as of `date`
+ * Accounts without a snapshot by then don't count. A card's balance counts as debt
+ * whichever sign the bank reports it with.
+ */
+export function calculateNetWorth(
+  accounts: NetWorthAccount[],
+  snapshots: BalanceSnapshot[],
+  date: Date
+): NetWorthPoint {
+  let assets = 0;
+  let liabilities = 0;
+
+  for (const account of accounts) {
+    const balance = getBalanceAt(snapshots, account.id, date);
+    if (balance === null) continue;
+    if (isLiabilityAccount(account.type)) liabilities += Math.abs(balance);
+    else assets += balance;
+  }
+
+  return { date, assets, liabilities, netWorth: assets - liabilities };
+}
+
+/**
+ * Net worth at the end of each of the last `months` months, the current month as of `now`
+ * Oldest first
+ */
+export function getNetWorthSeries(
+  accounts: NetWorthAccount[],
+  snapshots: BalanceSnapshot[],
+  months: number,
+  now: Date = new Date()
+): NetWorthPoint[] {
+  const points: NetWorthPoint[] = [];
+  for (let offset = months - 1; offset >= 0; offset--) {
+    const monthEnd =
+      offset === 0
+        ? now
+        : new Date(now.getFullYear(), now.getMonth() - offset + 1, 0, 23, 59, 59, 999);
+    points.push(calculateNetWorth(accounts, snapshots, monthEnd));
+  }
+  return points;
+}
@@ -10,12 +10,15 @@ export interface Transaction {
   date: Date;
   description: string;
   merchant: string | null;
+  merchantId?: string | null; // Household merchant; groups every spelling of it together
+  merchantName?: string | null; // Its canonical name
   amount: number;
   direction: 'income' | 'expense' | 'transfer';
 }
 
 export interface TransactionPattern {
   merchant: string;
+  merchantId: string | null;
   normalizedMerchant: string;
   averageAmount: number;
   amountStdDev: number;
@@ -126,7 +129,8 @@ export function detectRecurringPatterns(
     const amountStdDev = calculateStdDev(amounts);
 
     patterns.push({
-      merchant: txs[0]!.merchant || normalizedMerchant,
+      merchant: txs[0]!.merchantName || txs[0]!.merchant || normalizedMerchant,
+      merchantId: txs[0]!.merchantId ?? null,
       normalizedMerchant,
       averageAmount,
       amountStdDev,
@@ -148,6 +152,7 @@ export function detectRecurringPatterns(
 /**
  * Group transactions by normalized merchant name AND direction
  * This ensures income and expense patterns are detected separately
+ * Transactions resolved to a household merchant are grouped under its canonical name
  */
 function groupByMerchantAndDirection(
   transactions: Transaction[]
@@ -158,7 +163,7 @@ function groupByMerchantAndDirection(
   for (const tx of transactions) {
     if (tx.direction === 'transfer') continue; // Skip transfers
 
-    const normalized = normalizeMerchantName(tx.merchant || tx.description);
+    const normalized = normalizeMerchantName(tx.merchantName || tx.merchant || tx.description);
     const key = `${normalized}__${tx.direction}`;
 
     if (!groups[key]) {
@@ -0,0 +1,82 @@
+import { describe, expect, it } from 'vitest';
+import { type PendingMatchCandidate, findPendingMatch, findReversedPending } from './pending';
+
+const pending: PendingMatchCandidate[] = [
+  {
+    id: 'p1',
+    accountId: 'card',
+    externalId: 'card_aaa',
+    date: new Date('2024-12-10'),
+    amount: 100,
+    direction: 'expense',
+    description: 'WOLT TEL AVIV',
+    merchant: 'WOLT TEL AVIV',
+  },
+  {
+    id: 'p2',
+    accountId: 'card',
+    externalId: 'card_bbb',
+    date: new Date('2024-12-11'),
+    amount: 45,
+    direction: 'expense',
+    description: 'ארומה',
+    merchant: 'ארומה',
+  },
+];
+
+const settled = {
+  accountId: 'card',
+  externalId: 'card_zzz',
+  date: new Date('2024-12-12'),
+  amount: 108,
+  direction: 'expense',
+  description: 'WOLT TEL AVIV',
+  merchant: 'WOLT TEL AVIV',
+  isPending: false,
+};
+
+describe('findPendingMatch', () => {
+  it('should match a settled charge with a changed amount and date', () => {
+    expect(findPendingMatch(settled, pending)?.id).toBe('p1');
+  });
+
+  it('should match the same external ID even while still pending', () => {
+    expect(
+      findPendingMatch({ ...settled, externalId: 'card_bbb', isPending: true }, pending)?.id
+    ).toBe('p2');
+  });
+
+  it('should not let a new pending charge replace another', () => {
+    expect(findPendingMatch({ ...settled, isPending: true }, pending)).toBeNull();
+  });
+
+  it('should not match other accounts, merchants or far-off amounts and dates', () => {
+    expect(findPendingMatch({ ...settled, accountId: 'checking' }, pending)).toBeNull();
+    expect(
+      findPendingMatch({ ...settled, description: 'Shufersal', merchant: 'Shufersal' }, pending)
+    ).toBeNull();
+    expect(findPendingMatch({ ...settled, amount: 150 }, pending)).toBeNull();
+    expect(findPendingMatch({ ...settled, date: new Date('2024-12-20') }, pending)).toBeNull();
+  });
+
+  it('should prefer the closest amount', () => {
+    const match = findPendingMatch({ ...settled, amount: 101 }, [
+      { ...pending[0]!, id: 'far', amount: 110 },
+      { ...pending[0]!, id: 'close', amount: 100 },
+    ]);
+
+    expect(match?.id).toBe('close');
+  });
+});
+
+describe('findReversedPending', () => {
+  it('should find rows the scrape no longer reports', () => {
+    const reversed = findReversedPending(pending, new Set(['card_bbb']), new Date('2024-12-01'));
+
+    expect(reversed.map((row) => row.id)).toEqual(['p1']);
+  });
+
+  it('should keep rows dated before the scrape started', () => {
+    expect(findReversedPending(pending, new Set(), new Date('2024-12-11'))).toEqual([pending[1]]);
+  });
+});
@@ -0,0 +1,130 @@
+/**
+ * Pending transaction reconciliation
+ * Card charges are first reported as pending and later settle, often with a different
+ * amount (tips, FX) or date. Settled rows replace their pending version instead of
+ * being imported as a second transaction. Authorizations the bank reverses are never
+ * settled; they just stop being reported.
+ */
+
+export interface PendingMatchCandidate {
+  id: string;
+  accountId: string;
+  externalId?: string | null;
+  date: Date;
+  amount: number;
+  direction: string;
+  description: string;
+  merchant?: string | null;
+}
+
+export interface IncomingTransaction {
+  accountId: string;
+  externalId?: string | null;
+  date: Date;
+  amount: number;
+  direction: string;
+  description: string;
+  merchant?: string | null;
+  isPending: boolean;
+}
+
+export interface PendingMatchConfig {
+  maxDateDriftDays: number; // How far the settled date may move from the pending date
+  amountTolerance: number; // Relative amount change allowed (0.15 = 15%)
+}
+
+const DEFAULT_CONFIG: PendingMatchConfig = {
+  maxDateDriftDays: 5,
+  amountTolerance: 0.15,
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Normalize a description for comparison (case, digits, punctuation, spacing)
+ */
+function normalizeDescription(description: string): string {
+  return description
+    .toLowerCase()
+    .replace(/[\d\p{P}\p{S}]+/gu, ' ')
+    .replace(/\s+/g, ' ')
+    .trim();
+}
+
+function isSameMerchant(a: IncomingTransaction, b: PendingMatchCandidate): boolean {
+  if (a.merchant && b.merchant && a.merchant.toLowerCase() === b.merchant.toLowerCase()) {
+    return true;
+  }
+
+  const left = normalizeDescription(a.description);
+  const right = normalizeDescription(b.description);
+  if (!left || !right) return false;
+  return left === right || left.startsWith(right) || right.startsWith(left);
+}
+
+/**
+ * Find the pending row an incoming transaction replaces
+ *
+ * - A row with the same external ID (same account) always matches
+ * - Otherwise only settled transactions match, against pending rows in the same account
+ *   with the same direction and merchant, a nearby date and a similar amount
+ * - The closest amount wins, then the closest date
+ */
+export function findPendingMatch<T extends PendingMatchCandidate>(
+  incoming: IncomingTransaction,
+  pending: T[],
+  config: Partial<PendingMatchConfig> = {}
+): T | null {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+
+  if (incoming.externalId) {
+    const sameId = pending.find(
+      (p) => p.accountId === incoming.accountId && p.externalId === incoming.externalId
+    );
+    if (sameId) return sameId;
+  }
+
+  // A new pending charge never replaces another pending charge
+  if (incoming.isPending) return null;
+
+  let best: { candidate: T; amountDiff: number; dateDiff: number } | null = null;
+
+  for (const candidate of pending) {
+    if (candidate.accountId !== incoming.accountId) continue;
+    if (candidate.direction !== incoming.direction) continue;
+
+    const dateDiff = Math.abs(incoming.date.getTime() - candidate.date.getTime());
+    if (dateDiff > cfg.maxDateDriftDays * DAY_MS) continue;
+
+    const amountDiff = Math.abs(incoming.amount - candidate.amount);
+    if (amountDiff > Math.max(candidate.amount, incoming.amount) * cfg.amountTolerance) continue;
+
+    if (!isSameMerchant(incoming, candidate)) continue;
+
+    if (
+      !best ||
+      amountDiff < best.amountDiff ||
+      (amountDiff === best.amountDiff && dateDiff < best.dateDiff)
+    ) {
+      best = { candidate, amountDiff, dateDiff };
+    }
+  }
+
+  return best?.candidate ?? null;
+}
+
+/**
+ * Find the pending rows a scrape shows were reversed
+ * Rows dated on or after the scrape's start that it no longer reports are gone. Older rows
+ * were outside the scrape and are kept. Call after the scrape's rows have settled or
+ * refreshed their pending versions, so the rows left pending carry the bank's latest IDs.
+ */
+export function findReversedPending<T extends Pick<PendingMatchCandidate, 'externalId' | 'date'>>(
+  pending: T[],
+  reportedExternalIds: Set<string>,
+  scrapedFrom: Date
+): T[] {
+  return pending.filter(
+    (row) => row.date >= scrapedFrom && !(row.externalId && reportedExternalIds.has(row.externalId))
+  );
+}
@@ -0,0 +1,153 @@
+import { describe, expect, it } from 'vitest';
+import { expandRecurringToRange } from './recurring';
+import {
+  type RecurringCandidate,
+  matchesRecurringTemplate,
+  reconcileRecurringOccurrences,
+} from './recurring-reconciliation';
+import type { RecurringTransactionTemplate } from './types';
+
+describe('reconcileRecurringOccurrences', () => {
+  const netflix: RecurringTransactionTemplate = {
+    id: 'template-netflix',
+    householdId: 'h1',
+    name: 'Netflix',
+    direction: 'expense',
+    amount: 55,
+    merchant: 'Netflix',
+    frequency: 'monthly',
+    interval: 1,
+    byMonthDay: 5,
+    startDate: new Date('2024-10-05'),
+    timezone: 'Asia/Jerusalem',
+    isActive: true,
+  };
+
+  // October, November and December 2024
+  const occurrences = expandRecurringToRange(
+    netflix,
+    new Date('2024-10-01'),
+    new Date('2024-12-31')
+  );
+
+  const charge = (id: string, date: string, amount = 55): RecurringCandidate => ({
+    id,
+    date: new Date(date),
+    description: 'NETFLIX.COM',
+    merchant: 'NETFLIX.COM 866-579-7172',
+    amount,
+    direction: 'expense',
+  });
+
+  const today = new Date('2024-12-09');
+
+  it('should mark occurrences paid, late, upcoming or missing', () => {
+    const result = reconcileRecurringOccurrences(
+      netflix,
+      occurrences,
+      [charge('tx-oct', '2024-10-06'), charge('tx-nov', '2024-11-12', 59)],
+      { today }
+    );
+
+    expect(result.map((o) => [o.instanceKey, o.status, o.transactionId, o.daysLate])).toEqual([
+      ['2024-10-05', 'paid', 'tx-oct', 0],
+      ['2024-11-05', 'late', 'tx-nov', 7],
+      ['2024-12-05', 'late', null, 4],
+    ]);
+
+    const later = reconcileRecurringOccurrences(netflix, occurrences, [], {
+      today: new Date('2024-12-20'),
+    });
+    expect(later.map((o) => o.status)).toEqual(['missing', 'missing', 'missing']);
+
+    const early = reconcileRecurringOccurrences(netflix, occurrences, [], {
+      today: new Date('2024-12-06'),
+    });
+    expect(early[2]?.status).toBe('upcoming');
+  });
+
+  it('should ignore transactions outside the amount or date tolerance', () => {
+    const result = reconcileRecurringOccurrences(
+      netflix,
+      occurrences,
+      [charge('tx-price', '2024-10-05', 70), charge('tx-far', '2024-11-20')],
+      { today }
+    );
+
+    expect(result.map((o) => o.transactionId)).toEqual([null, null, null]);
+  });
+
+  it('should use each transaction once, closest first', () => {
+    const result = reconcileRecurringOccurrences(
+      netflix,
+      occurrences,
+      [charge('tx-a', '2024-11-04'), charge('tx-b', '2024-11-05')],
+      { today }
+    );
+
+    expect(result[1]?.transactionId).toBe('tx-b');
+    expect(result.filter((o) => o.transactionId === 'tx-a')).toHaveLength(0);
+  });
+
+  it('should keep existing links and skip transactions linked elsewhere', () => {
+    const result = reconcileRecurringOccurrences(
+      netflix,
+      occurrences,
+      [
+        {
+          ...charge('tx-linked', '2024-10-20'),
+          recurringTemplateId: netflix.id,
+          recurringInstanceKey: '2024-10-05',
+        },
+        { ...charge('tx-other', '2024-11-05'), recurringTemplateId: 'template-other' },
+      ],
+      { today }
+    );
+
+    expect(result[0]).toMatchObject({ transactionId: 'tx-linked', isLinked: true });
+    expect(result[1]?.transactionId).toBeNull();
+  });
+});
+
+describe('matchesRecurringTemplate', () => {
+  const rent: RecurringTransactionTemplate = {
+    id: 'template-rent',
+    householdId: 'h1',
+    name: 'Rent',
+    direction: 'expense',
+    amount: 5000,
+    merchant: 'Landlord',
+    accountId: 'acc-checking',
+    frequency: 'monthly',
+    interval: 1,
+    startDate: new Date('2024-01-01'),
+    timezone: 'Asia/Jerusalem',
+    isActive: true,
+  };
+
+  const payment: RecurringCandidate = {
+    id: 'tx-1',
+    accountId: 'acc-checking',
+    date: new Date('2024-12-01'),
+    description: 'Rent December',
+    amount: 5000,
+    direction: 'expense',
+  };
+
+  it('should match on name, merchant or canonical merchant', () => {
+    expect(matchesRecurringTemplate(rent, payment)).toBe(true);
+    expect(
+      matchesRecurringTemplate(rent, {
+        ...payment,
+        description: 'העברה',
+        merchantName: 'Landlord',
+      })
+    ).toBe(true);
+    expect(matchesRecurringTemplate(rent, { ...payment, description: 'Groceries' })).toBe(false);
+  });
+
+  it('should require the same direction and account', () => {
+    expect(matchesRecurringTemplate(rent, { ...payment, direction: 'income' })).toBe(false);
+    expect(matchesRecurringTemplate(rent, { ...payment, accountId: 'acc-card' })).toBe(false);
+  });
+});
@@ -0,0 +1,173 @@
+/**
+ * Recurring reconciliation
+ * Links each expected occurrence of a recurring template to the real transaction that
+ * paid it (e.g. the Netflix charge imported from the card), and reports which
+ * occurrences are paid, late or missing
+ */
+
+import { normalizeMerchantText } from './merchants';
+import type { RecurringOccurrence, RecurringTransactionTemplate } from './types';
+
+export interface RecurringCandidate {
+  id: string;
+  accountId?: string | null;
+  date: Date;
+  description: string;
+  merchant?: string | null;
+  merchantName?: string | null; // Canonical household merchant, when resolved
+  amount: number;
+  direction: 'income' | 'expense' | 'transfer';
+  recurringTemplateId?: string | null;
+  recurringInstanceKey?: string | null;
+}
+
+/**
+ * - paid: the real transaction arrived by the due date (plus grace days)
+ * - late: it arrived after that, or has not arrived yet while the match window is open
+ * - missing: the match window closed without a transaction
+ * - upcoming: not due yet, or due within the grace days
+ */
+export type RecurringOccurrenceStatus = 'paid' | 'late' | 'missing' | 'upcoming';
+
+export interface ReconciledOccurrence extends RecurringOccurrence {
+  status: RecurringOccurrenceStatus;
+  transactionId: string | null;
+  transactionDate: Date | null;
+  daysLate: number; // Days past the due date; 0 when paid or upcoming
+  isLinked: boolean; // The transaction already carries this occurrence's instance key
+}
+
+export interface RecurringReconciliationConfig {
+  amountTolerance?: number; // Default: 0.1 (10% of the expected amount)
+  daysEarly?: number; // Default: 3
+  daysLate?: number; // Default: 10
+  graceDays?: number; // Default: 2
+  today?: Date; // Default: now
+}
+
+const DEFAULT_CONFIG: Required<Omit<RecurringReconciliationConfig, 'today'>> = {
+  amountTolerance: 0.1,
+  daysEarly: 3,
+  daysLate: 10,
+  graceDays: 2,
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+// Too short to tell one payee from another when matched by containment
+const MIN_MATCH_TEXT_LENGTH = 3;
+
+function daysBetween(from: Date, to: Date): number {
+  return Math.round((to.getTime() - from.getTime()) / MS_PER_DAY);
+}
+
+/**
+ * Check whether a transaction looks like a payment of the template:
+ * same direction, same account when the template has one, and the template's merchant,
+ * name or description appears in the transaction's merchant or description (or vice versa)
+ */
+export function matchesRecurringTemplate(
+  template: RecurringTransactionTemplate,
+  tx: RecurringCandidate
+): boolean {
+  if (tx.direction !== template.direction) return false;
+  if (template.accountId && tx.accountId && tx.accountId !== template.accountId) return false;
+
+  const keys = [template.merchant, template.name, template.description]
+    .map((text) => (text ? normalizeMerchantText(text) : ''))
+    .filter((text) => text.length >= MIN_MATCH_TEXT_LENGTH);
+  const texts = [tx.merchant, tx.merchantName, tx.description]
+    .map((text) => (text ? normalizeMerchantText(text) : ''))
+    .filter((text) => text.length >= MIN_MATCH_TEXT_LENGTH);
+
+  return keys.some((key) => texts.some((text) => text.includes(key) || key.includes(text)));
+}
+
+/**
+ * Reconcile a template's expected occurrences with real transactions
+ *
+ * A transaction already linked to an occurrence (by template and instance key) keeps it.
+ * Otherwise candidates must match the template (`matchesRecurringTemplate`), be within
+ * `amountTolerance` of the expected amount and fall between `daysEarly` before and
+ * `daysLate` after the due date. Pairs are chosen greedily, closest date and amount first,
+ * so each transaction pays at most one occurrence.
+ *
+ * Transactions linked to another template or occurrence are never matched.
+ */
+export function reconcileRecurringOccurrences(
+  template: RecurringTransactionTemplate,
+  occurrences: RecurringOccurrence[],
+  transactions: RecurringCandidate[],
+  config?: RecurringReconciliationConfig
+): ReconciledOccurrence[] {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+  const today = config?.today ?? new Date();
+
+  const matches = new Map<string, { tx: RecurringCandidate; isLinked: boolean }>();
+  const used = new Set<string>();
+
+  // Links made earlier win
+  for (const occ of occurrences) {
+    const linked = transactions.find(
+      (tx) => tx.recurringTemplateId === template.id && tx.recurringInstanceKey === occ.instanceKey
+    );
+    if (linked) {
+      matches.set(occ.instanceKey, { tx: linked, isLinked: true });
+      used.add(linked.id);
+    }
+  }
+
+  const free = transactions.filter(
+    (tx) => !used.has(tx.id) && !tx.recurringTemplateId && matchesRecurringTemplate(template, tx)
+  );
+
+  const pairs: Array<{ occ: RecurringOccurrence; tx: RecurringCandidate; score: number }> = [];
+  for (const occ of occurrences) {
+    if (matches.has(occ.instanceKey)) continue;
+    for (const tx of free) {
+      const days = daysBetween(occ.date, tx.date);
+      if (days < -cfg.daysEarly || days > cfg.daysLate) continue;
+
+      const amountDiff = Math.abs(Math.abs(tx.amount) - Math.abs(occ.amount));
+      const relativeDiff = occ.amount === 0 ? amountDiff : amountDiff / Math.abs(occ.amount);
+      if (relativeDiff > cfg.amountTolerance) continue;
+
+      // A day off weighs about as much as a 10% amount difference
+      pairs.push({ occ, tx, score: Math.abs(days) + relativeDiff * 10 });
+    }
+  }
+
+  pairs.sort((a, b) => a.score - b.score);
+  for (const { occ, tx } of pairs) {
+    if (matches.has(occ.instanceKey) || used.has(tx.id)) continue;
+    matches.set(occ.instanceKey, { tx, isLinked: false });
+    used.add(tx.id);
+  }
+
+  return occurrences.map((occ) => {
+    const match = matches.get(occ.instanceKey);
+    if (match) {
+      const daysLate = Math.max(0, daysBetween(occ.date, match.tx.date));
+      return {
+        ...occ,
+        status: daysLate > cfg.graceDays ? 'late' : 'paid',
+        transactionId: match.tx.id,
+        transactionDate: match.tx.date,
+        daysLate: daysLate > cfg.graceDays ? daysLate : 0,
+        isLinked: match.isLinked,
+      };
+    }
+
+    const daysOverdue = daysBetween(occ.date, today);
+    const status: RecurringOccurrenceStatus =
+      daysOverdue <= cfg.graceDays ? 'upcoming' : daysOverdue <= cfg.daysLate ? 'late' : 'missing';
+    return {
+      ...occ,
+      status,
+      transactionId: null,
+      transactionDate: null,
+      daysLate: status === 'upcoming' ? 0 : daysOverdue,
+      isLinked: false,
+    };
+  });
+}
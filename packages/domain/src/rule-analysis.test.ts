@@ -0,0 +1,188 @@
+import { describe, expect, it } from 'vitest';
+import { type AnalyzableRule, analyzeRules, isSlowRegex } from './rule-analysis';
+
+const baseRule = { householdId: 'h1', isActive: true, priority: 5, conditions: null };
+const now = new Date('2025-06-15');
+
+const tx = (description: string, merchant: string, date = '2025-05-01') => ({
+  description,
+  merchant,
+  amount: 50,
+  direction: 'expense' as const,
+  date: new Date(date),
+});
+
+const transactions = [
+  tx('Wolt order', 'WOLT TEL AVIV'),
+  tx('Super market', 'Shufersal Deal'),
+  tx('Coffee', 'Aroma Espresso Bar'),
+];
+
+describe('analyzeRules', () => {
+  it('should report rules with no recent matches as dead', () => {
+    const rules: AnalyzableRule[] = [
+      { ...baseRule, id: 'wolt', categoryId: 'cat-food', type: 'merchant', pattern: 'wolt' },
+      {
+        ...baseRule,
+        id: 'gym',
+        categoryId: 'cat-sport',
+        type: 'merchant',
+        pattern: 'Holmes Place',
+      },
+    ];
+
+    const findings = analyzeRules(rules, transactions, now);
+
+    expect(findings).toEqual([expect.objectContaining({ kind: 'dead', ruleId: 'gym' })]);
+  });
+
+  it('should not report rules created inside the window as dead', () => {
+    const rules: AnalyzableRule[] = [
+      {
+        ...baseRule,
+        id: 'gym',
+        categoryId: 'cat-sport',
+        type: 'merchant',
+        pattern: 'Holmes Place',
+        createdAt: new Date('2025-06-01'),
+      },
+    ];
+
+    expect(analyzeRules(rules, transactions, now)).toEqual([]);
+  });
+
+  it('should ignore matches older than the window', () => {
+    const rules: AnalyzableRule[] = [
+      { ...baseRule, id: 'wolt', categoryId: 'cat-food', type: 'merchant', pattern: 'wolt' },
+    ];
+
+    const findings = analyzeRules(rules, [tx('Wolt', 'WOLT', '2024-01-01')], now, {
+      deadAfterMonths: 3,
+    });
+
+    expect(findings[0]?.kind).toBe('dead');
+  });
+
+  it('should report a pattern contained in an earlier rule with another category', () => {
+    const rules: AnalyzableRule[] = [
+      {
+        ...baseRule,
+        id: 'shufersal',
+        categoryId: 'cat-groceries',
+        type: 'merchant',
+        pattern: 'Shufersal',
+      },
+      {
+        ...baseRule,
+        id: 'deal',
+        categoryId: 'cat-household',
+        type: 'merchant',
+        pattern: 'Shufersal Deal',
+      },
+    ];
+
+    const findings = analyzeRules(rules, transactions, now);
+
+    expect(findings).toEqual([
+      expect.objectContaining({ kind: 'shadowed', ruleId: 'deal', otherRuleId: 'shufersal' }),
+    ]);
+  });
+
+  it('should not report a more specific rule that is tried first', () => {
+    const rules: AnalyzableRule[] = [
+      {
+        ...baseRule,
+        id: 'shufersal',
+        categoryId: 'cat-groceries',
+        type: 'merchant',
+        pattern: 'Shufersal',
+      },
+      {
+        ...baseRule,
+        id: 'deal',
+        categoryId: 'cat-household',
+        type: 'merchant',
+        pattern: 'Shufersal Deal',
+        priority: 10,
+      },
+    ];
+
+    const findings = analyzeRules(
+      rules,
+      [...transactions, tx('Groceries', 'Shufersal Sheli')],
+      now
+    );
+
+    expect(findings.filter((f) => f.kind === 'shadowed')).toEqual([]);
+  });
+
+  it('should report regex rules that always lose to another rule', () => {
+    const rules: AnalyzableRule[] = [
+      { ...baseRule, id: 'aroma', categoryId: 'cat-coffee', type: 'merchant', pattern: 'Aroma' },
+      { ...baseRule, id: 'bar', categoryId: 'cat-going-out', type: 'regex', pattern: 'bar$' },
+    ];
+
+    const findings = analyzeRules(rules, transactions, now);
+
+    expect(findings).toEqual([
+      expect.objectContaining({ kind: 'shadowed', ruleId: 'bar', otherRuleId: 'aroma' }),
+    ]);
+  });
+
+  it('should report duplicate patterns with the same category', () => {
+    const rules: AnalyzableRule[] = [
+      { ...baseRule, id: 'wolt', categoryId: 'cat-food', type: 'merchant', pattern: 'Wolt' },
+      { ...baseRule, id: 'wolt-ai', categoryId: 'cat-food', type: 'merchant', pattern: 'wolt ' },
+    ];
+
+    const findings = analyzeRules(rules, transactions, now);
+
+    expect(findings).toEqual([
+      expect.objectContaining({ kind: 'duplicate', ruleId: 'wolt-ai', otherRuleId: 'wolt' }),
+    ]);
+  });
+
+  it('should report invalid and slow regexes', () => {
+    const rules: AnalyzableRule[] = [
+      { ...baseRule, id: 'broken', categoryId: 'cat-food', type: 'regex', pattern: '(wolt' },
+      { ...baseRule, id: 'slow', categoryId: 'cat-food', type: 'regex', pattern: '(a+)+$' },
+    ];
+
+    const kinds = analyzeRules(rules, transactions, now).map((f) => [f.ruleId, f.kind]);
+
+    expect(kinds).toEqual([
+      ['broken', 'invalid_regex'],
+      ['slow', 'slow_regex'],
+    ]);
+  });
+
+  it('should skip inactive rules', () => {
+    const rules: AnalyzableRule[] = [
+      {
+        ...baseRule,
+        id: 'gym',
+        categoryId: 'cat-sport',
+        type: 'merchant',
+        pattern: 'Holmes Place',
+        isActive: false,
+      },
+    ];
+
+    expect(analyzeRules(rules, transactions, now)).toEqual([]);
+  });
+});
+
+describe('isSlowRegex', () => {
+  it('should flag nested quantifiers', () => {
+    expect(isSlowRegex('(a+)+')).toBe(true);
+    expect(isSlowRegex('^(\\w+\\s?)*$')).toBe(true);
+    expect(isSlowRegex('(x{2,})*')).toBe(true);
+  });
+
+  it('should accept ordinary patterns', () => {
+    expect(isSlowRegex('^salary.*$')).toBe(false);
+    expect(isSlowRegex('(netflix|spotify)+')).toBe(false);
+    expect(isSlowRegex('[(a+)]+')).toBe(false);
+    expect(isSlowRegex('\\(a+\\)+')).toBe(false);
+  });
+});
@@ -0,0 +1,238 @@
+/**
+ * Rule analysis
+ * Rules accumulate over time (auto-created AI rules especially) and start to overlap.
+ * The analyzer reports rules that no longer do anything useful so they can be merged
+ * or deleted.
+ */
+
+import { matchCategoryRules, ruleMatchesTransaction } from './categorization';
+import type { CategoryRule, TransactionInput } from './types';
+
+export type RuleFindingKind = 'dead' | 'shadowed' | 'duplicate' | 'invalid_regex' | 'slow_regex';
+
+export interface RuleFinding {
+  kind: RuleFindingKind;
+  ruleId: string; // The rule to fix (merge away or delete)
+  otherRuleId?: string; // The rule that shadows or duplicates it, kept when merging
+  reason: string;
+}
+
+export interface AnalyzableRule extends CategoryRule {
+  createdAt?: Date;
+}
+
+export interface RuleAnalysisConfig {
+  deadAfterMonths: number; // Rules with no match in this window are dead
+}
+
+const DEFAULT_CONFIG: RuleAnalysisConfig = {
+  deadAfterMonths: 6,
+};
+
+const TYPE_RANK = { merchant: 0, keyword: 1, regex: 2 } as const;
+
+/**
+ * Sort rules the way categorization tries them: by type, then priority, then specificity
+ * The sort is stable, so ties keep the order the rules were passed in
+ */
+function evaluationOrder<T extends CategoryRule>(rules: T[]): T[] {
+  return [...rules].sort(
+    (a, b) =>
+      TYPE_RANK[a.type] - TYPE_RANK[b.type] ||
+      b.priority - a.priority ||
+      Number(!!b.conditions) - Number(!!a.conditions)
+  );
+}
+
+function sameConditions(a: CategoryRule, b: CategoryRule): boolean {
+  return JSON.stringify(a.conditions ?? null) === JSON.stringify(b.conditions ?? null);
+}
+
+function normalizePattern(pattern: string): string {
+  return pattern.trim().toLowerCase();
+}
+
+function isValidRegex(pattern: string): boolean {
+  try {
+    new RegExp(pattern, 'i');
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Detect nested quantifiers such as `(a+)+` or `(.*)*`, the usual cause of catastrophic
+ * backtracking. Regexes can't be interrupted once running, so this is a static check.
+ */
+export function isSlowRegex(pattern: string): boolean {
+  const groups: boolean[] = []; // Per open group: does it contain a quantifier?
+  let justClosedQuantified = false;
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i];
+    const isQuantifier =
+      char === '*' || char === '+' || (char === '{' && /^\{\d*,/.test(pattern.slice(i)));
+
+    if (char === '\\') {
+      i++;
+      justClosedQuantified = false;
+      continue;
+    }
+    if (char === '[') {
+      // Skip character classes; quantifier characters inside them are literals
+      const end = pattern.indexOf(']', i + 1);
+      i = end === -1 ? pattern.length : end;
+      justClosedQuantified = false;
+      continue;
+    }
+
+    if (isQuantifier && justClosedQuantified) return true;
+    justClosedQuantified = false;
+
+    if (char === '(') {
+      groups.push(false);
+    } else if (char === ')') {
+      justClosedQuantified = groups.pop() ?? false;
+      if (justClosedQuantified && groups.length > 0) groups[groups.length - 1] = true;
+    } else if (isQuantifier && groups.length > 0) {
+      groups[groups.length - 1] = true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Whether rule `a` wins every transaction rule `b` matches, judged from the patterns alone
+ * Only plain substring rules can be compared this way; regexes are left to the history check.
+ */
+function patternShadows(a: CategoryRule, b: CategoryRule): boolean {
+  if (a.type !== b.type || !sameConditions(a, b)) return false;
+  if (a.type === 'regex') return a.pattern === b.pattern;
+  return normalizePattern(b.pattern).includes(normalizePattern(a.pattern));
+}
+
+/**
+ * Analyze a household's rules for problems
+ *
+ * - dead: active rules that matched none of the given transactions, which should cover the
+ *   last `deadAfterMonths` months. Rules created inside that window are not reported.
+ * - shadowed: a rule whose matches always go to an earlier rule with a different category,
+ *   either because its pattern is contained in the other one's or, failing that, because
+ *   that is what happened to every transaction it matched
+ * - duplicate: same type, pattern, conditions and category as an earlier rule
+ * - invalid_regex / slow_regex: regexes that don't compile or can backtrack catastrophically
+ */
+export function analyzeRules(
+  rules: AnalyzableRule[],
+  transactions: Array<TransactionInput & { date: Date }>,
+  now: Date = new Date(),
+  config: Partial<RuleAnalysisConfig> = {}
+): RuleFinding[] {
+  const { deadAfterMonths } = { ...DEFAULT_CONFIG, ...config };
+  const windowStart = new Date(now);
+  windowStart.setMonth(windowStart.getMonth() - deadAfterMonths);
+
+  const findings: RuleFinding[] = [];
+  const flagged = new Set<string>();
+  const add = (finding: RuleFinding) => {
+    findings.push(finding);
+    flagged.add(finding.ruleId);
+  };
+
+  const active = rules.filter((r) => r.isActive);
+
+  // Broken regexes first: the other checks would only report them as dead
+  for (const rule of active.filter((r) => r.type === 'regex')) {
+    if (!isValidRegex(rule.pattern)) {
+      add({ kind: 'invalid_regex', ruleId: rule.id, reason: 'The pattern is not a valid regex' });
+    } else if (isSlowRegex(rule.pattern)) {
+      add({
+        kind: 'slow_regex',
+        ruleId: rule.id,
+        reason: 'Nested quantifiers can make matching take exponential time',
+      });
+    }
+  }
+
+  const ordered = evaluationOrder(active.filter((r) => !flagged.has(r.id)));
+
+  // Duplicates and pattern-level shadowing, comparing each rule with the ones tried before it
+  ordered.forEach((rule, index) => {
+    for (const earlier of ordered.slice(0, index)) {
+      if (!patternShadows(earlier, rule)) continue;
+
+      if (
+        normalizePattern(earlier.pattern) === normalizePattern(rule.pattern) &&
+        earlier.categoryId === rule.categoryId
+      ) {
+        add({
+          kind: 'duplicate',
+          ruleId: rule.id,
+          otherRuleId: earlier.id,
+          reason: `Same ${rule.type} pattern "${rule.pattern}" as another rule`,
+        });
+        return;
+      }
+      if (earlier.categoryId && rule.categoryId && earlier.categoryId !== rule.categoryId) {
+        add({
+          kind: 'shadowed',
+          ruleId: rule.id,
+          otherRuleId: earlier.id,
+          reason: `"${earlier.pattern}" is tried first and matches everything "${rule.pattern}" does`,
+        });
+        return;
+      }
+    }
+  });
+
+  // Match history: which rules matched, and which rule actually won each transaction
+  const recent = transactions.filter((tx) => tx.date >= windowStart);
+  const matchCounts = new Map<string, number>();
+  const winsByRule = new Map<string, Map<string, number>>(); // rule → winner → count
+
+  for (const tx of recent) {
+    const winner = matchCategoryRules(tx, ordered)?.matchedRule;
+    for (const rule of ordered) {
+      if (!ruleMatchesTransaction(rule, tx)) continue;
+      matchCounts.set(rule.id, (matchCounts.get(rule.id) ?? 0) + 1);
+      if (winner && rule.categoryId) {
+        const wins = winsByRule.get(rule.id) ?? new Map<string, number>();
+        wins.set(winner.id, (wins.get(winner.id) ?? 0) + 1);
+        winsByRule.set(rule.id, wins);
+      }
+    }
+  }
+
+  for (const rule of ordered) {
+    if (flagged.has(rule.id)) continue;
+
+    if (!matchCounts.has(rule.id)) {
+      if (!rule.createdAt || rule.createdAt < windowStart) {
+        add({
+          kind: 'dead',
+          ruleId: rule.id,
+          reason: `No matching transactions in the last ${deadAfterMonths} months`,
+        });
+      }
+      continue;
+    }
+
+    const wins = winsByRule.get(rule.id);
+    if (!wins || wins.has(rule.id)) continue;
+
+    const [topWinnerId] = [...wins.entries()].sort((a, b) => b[1] - a[1])[0] ?? [];
+    const topWinner = ordered.find((r) => r.id === topWinnerId);
+    if (topWinner && topWinner.categoryId !== rule.categoryId) {
+      add({
+        kind: 'shadowed',
+        ruleId: rule.id,
+        otherRuleId: topWinner.id,
+        reason: `Every match in the last ${deadAfterMonths} months went to "${topWinner.pattern}"`,
+      });
+    }
+  }
+
+  return findings;
+}
@@ -1,5 +1,11 @@
 import { describe, expect, it } from 'vitest';
-import { categoryTypeSchema, createCategorySchema, updateCategorySchema } from './schemas';
+import {
+  HOUSEHOLD_BACKUP_VERSION,
+  categoryTypeSchema,
+  createCategorySchema,
+  householdBackupSchema,
+  updateCategorySchema,
+} from './schemas';
 
 describe('categoryTypeSchema', () => {
   it('should accept valid category types', () => {
@@ -222,3 +228,63 @@ describe('updateCategorySchema', () => {
     }
   });
 });
+
+describe('householdBackupSchema', () => {
+  const backup = {
+    version: HOUSEHOLD_BACKUP_VERSION,
+    exportedAt: '2024-12-31T10:00:00.000Z',
+    household: { name: 'Cohen Family' },
+    accounts: [{ id: 'acc-1', name: 'Checking', type: 'checking' }],
+    balanceSnapshots: [
+      { accountId: 'acc-1', date: '2024-12-01T00:00:00.000Z', balance: 8200, source: 'sync' },
+      { accountId: 'acc-1', date: '2024-12-31T00:00:00.000Z', balance: 7950 },
+    ],
+    categories: [
+      { id: 'cat-food', name: 'Food', type: 'expense' },
+      { id: 'cat-groceries', name: 'Groceries', type: 'expense', parentCategoryId: 'cat-food' },
+    ],
+    transactions: [
+      {
+        id: 'tx-1',
+        accountId: 'acc-1',
+        categoryId: 'cat-groceries',
+        date: '2024-12-05T00:00:00.000Z',
+        description: 'Supermarket',
+        amount: 250,
+        direction: 'expense',
+      },
+    ],
+  };
+
+  it('should accept a minimal backup and fill defaults', () => {
+    const result = householdBackupSchema.safeParse(backup);
+
+    expect(result.success).toBe(true);
+    if (result.success) {
+      expect(result.data.exportedAt).toBeInstanceOf(Date);
+      expect(result.data.transactions[0]?.date).toBeInstanceOf(Date);
+      expect(result.data.transactions[0]?.splits).toEqual([]);
+      expect(result.data.rules).toEqual([]);
+      expect(result.data.transferRejections).toEqual([]);
+      expect(result.data.exchangeRates).toEqual([]);
+      expect(result.data.balanceSnapshots[0]?.date).toBeInstanceOf(Date);
+      expect(result.data.balanceSnapshots[1]?.source).toBe('manual');
+      expect(result.data.bankConnections).toBeUndefined();
+    }
+  });
+
+  it('should reject an unknown version', () => {
+    const result = householdBackupSchema.safeParse({ ...backup, version: 99 });
+
+    expect(result.success).toBe(false);
+  });
+
+  it('should reject malformed rows', () => {
+    const result = householdBackupSchema.safeParse({
+      ...backup,
+      budgets: [{ categoryId: 'cat-food', month: 'December', plannedAmount: 100 }],
+    });
+
+    expect(result.success).toBe(false);
+  });
+});
@@ -17,6 +17,7 @@ export const categorizationSourceSchema = z.enum([
 export const ruleTypeSchema = z.enum(['merchant', 'keyword', 'regex']);
 export const recurringFrequencySchema = z.enum(['daily', 'weekly', 'monthly', 'yearly']);
 export const budgetStatusSchema = z.enum(['ok', 'nearing_limit', 'exceeded_soft', 'exceeded_hard']);
+export const budgetPeriodSchema = z.enum(['month', 'quarter', 'year']);
 
 // ============================================
 // Transaction Schemas
@@ -64,6 +65,18 @@ export const updateTransactionSchema = z.object({
   isIgnored: z.boolean().optional(),
 });
 
+export const transactionSplitSchema = z.object({
+  categoryId: z.string().nullable().optional(),
+  amount: z.number().positive(),
+  notes: z.string().nullable().optional(),
+});
+
+export const setTransactionSplitsSchema = z.object({
+  transactionId: z.string(),
+  // An empty list removes the splits
+  splits: z.array(transactionSplitSchema),
+});
+
 // ============================================
 // Category Schemas
 // ============================================
@@ -104,21 +117,81 @@ export const updateCategorySchema = z.object({
 // Category Rule Schemas
 // ============================================
 
+export const ruleConditionsSchema = z
+  .object({
+    amountMin: z.number().min(0).optional(),
+    amountMax: z.number().min(0).optional(),
+    direction: transactionDirectionSchema.optional(),
+    accountIds: z.array(z.string()).min(1).optional(),
+    merchantIds: z.array(z.string()).min(1).optional(),
+    dayOfMonthMin: z.number().int().min(1).max(31).optional(),
+    dayOfMonthMax: z.number().int().min(1).max(31).optional(),
+    weekdays: z.array(z.number().int().min(0).max(6)).min(1).optional(),
+  })
+  .refine(
+    (c) => c.amountMin === undefined || c.amountMax === undefined || c.amountMin <= c.amountMax,
+    { message: 'Minimum amount must not exceed maximum amount', path: ['amountMax'] }
+  );
+
+export const ruleActionSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('set_ignored'), value: z.boolean() }),
+  z.object({ type: z.literal('set_merchant'), value: z.string().trim().min(1).max(200) }),
+  z.object({ type: z.literal('set_description'), value: z.string().trim().min(1).max(500) }),
+  z.object({ type: z.literal('append_note'), value: z.string().trim().min(1).max(500) }),
+  z.object({ type: z.literal('mark_reviewed') }),
+]);
+
+export const ruleActionsSchema = z.array(ruleActionSchema).max(10);
+
 export const categoryRuleSchema = z.object({
   id: z.string(),
   householdId: z.string(),
-  categoryId: z.string(),
+  categoryId: z.string().nullable(),
   type: ruleTypeSchema,
-  pattern: z.string().min(1),
+  pattern: z.string(),
+  conditions: ruleConditionsSchema.nullable().optional(),
+  actions: ruleActionsSchema.nullable().optional(),
   priority: z.number().default(0),
   isActive: z.boolean().default(true),
 });
 
-export const createCategoryRuleSchema = z.object({
-  categoryId: z.string(),
-  type: ruleTypeSchema,
-  pattern: z.string().min(1),
-  priority: z.number().optional(),
+export const createCategoryRuleSchema = z
+  .object({
+    categoryId: z.string().nullable(),
+    type: ruleTypeSchema,
+    pattern: z.string(),
+    conditions: ruleConditionsSchema.nullable().optional(),
+    actions: ruleActionsSchema.nullable().optional(),
+    priority: z.number().optional(),
+  })
+  .refine((rule) => rule.pattern.trim().length > 0 || !!rule.conditions, {
+    message: 'A rule needs a pattern or at least one condition',
+    path: ['pattern'],
+  })
+  .refine((rule) => !!rule.categoryId || !!rule.actions?.length, {
+    message: 'A rule needs a category or at least one action',
+    path: ['categoryId'],
+  });
+
+// Rule proposals mined from corrections (see correction-mining.ts), stored as JSON
+export const ruleProposalPayloadSchema = z.object({
+  rule: z
+    .object({
+      type: z.enum(['merchant', 'keyword']),
+      pattern: z.string().min(1),
+      categoryId: z.string(),
+    })
+    .optional(),
+  priority: z.number().int().optional(),
+});
+
+export const ruleProposalEvidenceSchema = z.object({
+  corrections: z.number().int(),
+  matches: z.number().int().optional(),
+  overrideRate: z.number().optional(),
+  topCategoryId: z.string().optional(),
+  transactionIds: z.array(z.string()),
+  examples: z.array(z.string()),
 });
 
 // ============================================
@@ -130,19 +203,25 @@ export const budgetSchema = z.object({
   householdId: z.string(),
   categoryId: z.string(),
   month: z.string().regex(/^\d{4}-\d{2}$/),
+  period: budgetPeriodSchema.default('month'),
   plannedAmount: z.number().min(0),
   limitAmount: z.number().min(0).nullable().optional(),
   limitType: limitTypeSchema.nullable().optional(),
   alertThresholdPct: z.number().min(0).max(1).default(0.8),
+  rollover: z.boolean().default(false),
+  rolloverCap: z.number().min(0).nullable().optional(),
 });
 
 export const createBudgetSchema = z.object({
   categoryId: z.string(),
   month: z.string().regex(/^\d{4}-\d{2}$/),
+  period: budgetPeriodSchema.optional(),
   plannedAmount: z.number().min(0),
   limitAmount: z.number().min(0).optional(),
   limitType: limitTypeSchema.optional(),
   alertThresholdPct: z.number().min(0).max(1).optional(),
+  rollover: z.boolean().optional(),
+  rolloverCap: z.number().min(0).nullable().optional(),
 });
 
 export const updateBudgetSchema = z.object({
@@ -150,6 +229,46 @@ export const updateBudgetSchema = z.object({
   limitAmount: z.number().min(0).nullable().optional(),
   limitType: limitTypeSchema.nullable().optional(),
   alertThresholdPct: z.number().min(0).max(1).optional(),
+  rollover: z.boolean().optional(),
+  rolloverCap: z.number().min(0).nullable().optional(),
+});
+
+// ============================================
+// Merchant Schemas
+// ============================================
+
+// Aliases and patterns, stored as a JSON array of strings
+export const merchantTextListSchema = z.array(z.string().trim().min(1).max(200)).max(50);
+
+export const createMerchantSchema = z.object({
+  name: z.string().trim().min(1).max(100),
+  aliases: merchantTextListSchema.default([]),
+  patterns: merchantTextListSchema.default([]),
+  defaultCategoryId: z.string().nullish(),
+  icon: z.string().max(10).nullish(),
+  logoUrl: z.string().url().nullish(),
+  website: z.string().url().nullish(),
+});
+
+export const updateMerchantSchema = createMerchantSchema.partial();
+
+// ============================================
+// Goal Schemas
+// ============================================
+
+export const createGoalSchema = z.object({
+  name: z.string().min(1).max(100),
+  icon: z.string().max(10).optional(),
+  targetAmount: z.number().positive(),
+  targetDate: z.coerce.date(),
+  startDate: z.coerce.date().optional(),
+  initialAmount: z.number().min(0).default(0),
+  accountId: z.string().nullish(),
+  categoryId: z.string().nullish(),
+});
+
+export const updateGoalSchema = createGoalSchema.partial().extend({
+  isArchived: z.boolean().optional(),
 });
 
 // ============================================
@@ -237,10 +356,256 @@ export const transactionFiltersSchema = z.object({
 
 export const monthSchema = z.string().regex(/^\d{4}-\d{2}$/);
 
+// ============================================
+// Household Backup Schemas
+// ============================================
+
+export const HOUSEHOLD_BACKUP_VERSION = 1;
+
+// Rows keep their original IDs so references can be remapped on restore.
+// String-typed columns stay loose (z.string()) to accept any value the database holds.
+
+const backupAccountSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  type: z.string(),
+  currency: z.string().default('ILS'),
+  balance: z.number().default(0),
+  isActive: z.boolean().default(true),
+  institutionName: z.string().nullish(),
+  externalAccountId: z.string().nullish(),
+  lastSyncedAt: z.coerce.date().nullish(),
+});
+
+const backupBalanceSnapshotSchema = z.object({
+  accountId: z.string(),
+  date: z.coerce.date(),
+  balance: z.number(),
+  source: z.string().default('manual'),
+  note: z.string().nullish(),
+});
+
+const backupExchangeRateSchema = z.object({
+  date: z.coerce.date(),
+  currency: z.string(),
+  baseCurrency: z.string(),
+  rate: z.number().positive(),
+  source: z.string().nullish(),
+});
+
+const backupCategorySchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  type: z.string(),
+  parentCategoryId: z.string().nullish(),
+  icon: z.string().nullish(),
+  color: z.string().nullish(),
+  isActive: z.boolean().default(true),
+  isSystem: z.boolean().default(false),
+  sortOrder: z.number().int().default(0),
+});
+
+const backupRuleSchema = z.object({
+  id: z.string(),
+  categoryId: z.string().nullish(),
+  type: z.string(),
+  pattern: z.string(),
+  conditions: z.string().nullish(), // JSON, see ruleConditionsSchema
+  actions: z.string().nullish(), // JSON, see ruleActionsSchema
+  priority: z.number().int().default(0),
+  isActive: z.boolean().default(true),
+  createdFrom: z.string().nullish(),
+  matchCount: z.number().int().default(0),
+  lastMatchedAt: z.coerce.date().nullish(),
+});
+
+const backupMerchantSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  aliases: z.string().nullish(), // JSON, see merchantTextListSchema
+  patterns: z.string().nullish(),
+  defaultCategoryId: z.string().nullish(),
+  icon: z.string().nullish(),
+  logoUrl: z.string().nullish(),
+  website: z.string().nullish(),
+});
+
+const backupBudgetSchema = z.object({
+  categoryId: z.string(),
+  month: monthSchema,
+  period: z.string().default('month'),
+  plannedAmount: z.number().min(0),
+  limitAmount: z.number().min(0).nullish(),
+  limitType: z.string().nullish(),
+  alertThresholdPct: z.number().min(0).max(1).default(0.8),
+  rollover: z.boolean().default(false),
+  rolloverCap: z.number().min(0).nullish(),
+});
+
+const backupRecurringOverrideSchema = z.object({
+  instanceKey: z.string(),
+  action: z.string(),
+  amount: z.number().nullish(),
+  categoryId: z.string().nullish(),
+  description: z.string().nullish(),
+});
+
+const backupRecurringTemplateSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  direction: z.string(),
+  amount: z.number(),
+  defaultCategoryId: z.string().nullish(),
+  description: z.string().nullish(),
+  merchant: z.string().nullish(),
+  accountId: z.string().nullish(),
+  frequency: z.string(),
+  interval: z.number().int().positive().default(1),
+  byWeekday: z.string().nullish(),
+  byMonthDay: z.number().int().nullish(),
+  startDate: z.coerce.date(),
+  endDate: z.coerce.date().nullish(),
+  timezone: z.string().default('Asia/Jerusalem'),
+  isActive: z.boolean().default(true),
+  nextRunAt: z.coerce.date().nullish(),
+  lastRunAt: z.coerce.date().nullish(),
+  overrides: z.array(backupRecurringOverrideSchema).default([]),
+});
+
+const backupTransactionSchema = z.object({
+  id: z.string(),
+  accountId: z.string(),
+  categoryId: z.string().nullish(),
+  date: z.coerce.date(),
+  description: z.string(),
+  merchant: z.string().nullish(),
+  merchantId: z.string().nullish(),
+  amount: z.number(),
+  direction: z.string(),
+  categorizationSource: z.string().nullish(),
+  confidence: z.number().nullish(),
+  aiReasoning: z.string().nullish(),
+  notes: z.string().nullish(),
+  needsReview: z.boolean().default(false),
+  isIgnored: z.boolean().default(false),
+  isPending: z.boolean().default(false),
+  isRecurringInstance: z.boolean().default(false),
+  recurringTemplateId: z.string().nullish(),
+  recurringInstanceKey: z.string().nullish(),
+  externalId: z.string().nullish(),
+  originalAmount: z.number().nullish(),
+  originalCurrency: z.string().nullish(),
+  installmentPlanId: z.string().nullish(),
+  installmentNumber: z.number().int().nullish(),
+  goalId: z.string().nullish(),
+  ruleId: z.string().nullish(),
+  transferPeerId: z.string().nullish(),
+  transferStatus: z.string().nullish(),
+  preTransferDirection: z.string().nullish(),
+  splits: z
+    .array(
+      z.object({
+        categoryId: z.string().nullish(),
+        amount: z.number(),
+        notes: z.string().nullish(),
+      })
+    )
+    .default([]),
+});
+
+const backupTransferRejectionSchema = z.object({
+  outgoingId: z.string(),
+  incomingId: z.string(),
+});
+
+const backupCorrectionSchema = z.object({
+  transactionId: z.string(),
+  fromCategoryId: z.string().nullish(),
+  toCategoryId: z.string(),
+  createdRuleId: z.string().nullish(),
+  ruleId: z.string().nullish(),
+  createdAt: z.coerce.date().optional(),
+});
+
+const backupInstallmentPlanSchema = z.object({
+  id: z.string(),
+  accountId: z.string(),
+  categoryId: z.string().nullish(),
+  planKey: z.string(),
+  description: z.string(),
+  merchant: z.string().nullish(),
+  purchaseDate: z.coerce.date(),
+  firstPaymentDate: z.coerce.date(),
+  totalPayments: z.number().int(),
+  paymentAmount: z.number(),
+  totalAmount: z.number(),
+});
+
+const backupGoalSchema = z.object({
+  id: z.string(),
+  name: z.string().min(1),
+  icon: z.string().nullish(),
+  targetAmount: z.number(),
+  targetDate: z.coerce.date(),
+  startDate: z.coerce.date(),
+  initialAmount: z.number().default(0),
+  accountId: z.string().nullish(),
+  categoryId: z.string().nullish(),
+  isArchived: z.boolean().default(false),
+});
+
+const backupImportProfileSchema = z.object({
+  name: z.string().min(1),
+  format: z.string(),
+  columnMapping: z.string().nullish(),
+  dateFormat: z.string().nullish(),
+  accountId: z.string().nullish(),
+});
+
+const backupBankConnectionSchema = z.object({
+  provider: z.string(),
+  displayName: z.string(),
+  encryptedCreds: z.string(), // Still encrypted with the server's ENCRYPTION_KEY
+  longTermToken: z.string().nullish(),
+  accountMappings: z.string().nullish(),
+  isActive: z.boolean().default(true),
+});
+
+export const householdBackupSchema = z.object({
+  version: z.literal(HOUSEHOLD_BACKUP_VERSION),
+  exportedAt: z.coerce.date(),
+  household: z.object({ name: z.string().min(1), baseCurrency: z.string().nullish() }),
+  accounts: z.array(backupAccountSchema),
+  balanceSnapshots: z.array(backupBalanceSnapshotSchema).default([]),
+  categories: z.array(backupCategorySchema),
+  merchants: z.array(backupMerchantSchema).default([]),
+  rules: z.array(backupRuleSchema).default([]),
+  budgets: z.array(backupBudgetSchema).default([]),
+  recurringTemplates: z.array(backupRecurringTemplateSchema).default([]),
+  installmentPlans: z.array(backupInstallmentPlanSchema).default([]),
+  goals: z.array(backupGoalSchema).default([]),
+  transactions: z.array(backupTransactionSchema).default([]),
+  transferRejections: z.array(backupTransferRejectionSchema).default([]),
+  corrections: z.array(backupCorrectionSchema).default([]),
+  importProfiles: z.array(backupImportProfileSchema).default([]),
+  exchangeRates: z.array(backupExchangeRateSchema).default([]),
+  // Only present when the export was made with credentials included
+  bankConnections: z.array(backupBankConnectionSchema).optional(),
+});
+
+export const restoreHouseholdSchema = z.object({
+  backup: householdBackupSchema,
+  // merge: add into the current household, reusing categories/accounts with the same name
+  // (the only mode until users can switch between households)
+  mode: z.enum(['merge']),
+});
+
 // Type exports
 export type TransactionSchema = z.infer<typeof transactionSchema>;
 export type CreateTransactionSchema = z.infer<typeof createTransactionSchema>;
 export type UpdateTransactionSchema = z.infer<typeof updateTransactionSchema>;
+export type TransactionSplitSchema = z.infer<typeof transactionSplitSchema>;
+export type SetTransactionSplitsSchema = z.infer<typeof setTransactionSplitsSchema>;
 export type CategorySchema = z.infer<typeof categorySchema>;
 export type CreateCategorySchema = z.infer<typeof createCategorySchema>;
 export type UpdateCategorySchema = z.infer<typeof updateCategorySchema>;
@@ -249,8 +614,15 @@ export type CreateCategoryRuleSchema = z.infer<typeof createCategoryRuleSchema>;
 export type BudgetSchema = z.infer<typeof budgetSchema>;
 export type CreateBudgetSchema = z.infer<typeof createBudgetSchema>;
 export type UpdateBudgetSchema = z.infer<typeof updateBudgetSchema>;
+export type CreateMerchantSchema = z.infer<typeof createMerchantSchema>;
+export type UpdateMerchantSchema = z.infer<typeof updateMerchantSchema>;
+export type CreateGoalSchema = z.infer<typeof createGoalSchema>;
+export type UpdateGoalSchema = z.infer<typeof updateGoalSchema>;
 export type RecurringTemplateSchema = z.infer<typeof recurringTemplateSchema>;
 export type CreateRecurringTemplateSchema = z.infer<typeof createRecurringTemplateSchema>;
 export type UpdateRecurringTemplateSchema = z.infer<typeof updateRecurringTemplateSchema>;
 export type RecurringOverrideSchema = z.infer<typeof recurringOverrideSchema>;
 export type TransactionFiltersSchema = z.infer<typeof transactionFiltersSchema>;
+export type HouseholdBackup = z.infer<typeof householdBackupSchema>;
+export type HouseholdBackupInput = z.input<typeof householdBackupSchema>;
+export type RestoreHouseholdSchema = z.infer<typeof restoreHouseholdSchema>;
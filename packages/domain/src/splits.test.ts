@@ -0,0 +1,91 @@
+import { describe, expect, it } from 'vitest';
+import { getAmountForCategory, getCategoryAllocations, hasSplits, validateSplits } from './splits';
+
+describe('validateSplits', () => {
+  it('should accept splits that add up to the parent amount', () => {
+    const result = validateSplits(350, [{ amount: 200 }, { amount: 100 }, { amount: 50 }]);
+
+    expect(result.valid).toBe(true);
+    expect(result.difference).toBe(0);
+  });
+
+  it('should tolerate floating point rounding', () => {
+    const result = validateSplits(0.3, [{ amount: 0.1 }, { amount: 0.2 }]);
+
+    expect(result.valid).toBe(true);
+  });
+
+  it('should reject splits that do not add up', () => {
+    const result = validateSplits(350, [{ amount: 200 }, { amount: 100 }]);
+
+    expect(result.valid).toBe(false);
+    expect(result.difference).toBe(50);
+    expect(result.error).toContain('add up');
+  });
+
+  it('should reject a single allocation', () => {
+    const result = validateSplits(100, [{ amount: 100 }]);
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('at least two');
+  });
+
+  it('should reject non-positive amounts', () => {
+    const result = validateSplits(100, [{ amount: 150 }, { amount: -50 }]);
+
+    expect(result.valid).toBe(false);
+    expect(result.error).toContain('positive');
+  });
+});
+
+describe('getCategoryAllocations', () => {
+  it('should return the parent as a single allocation when not split', () => {
+    const allocations = getCategoryAllocations({ categoryId: 'cat-food', amount: 120 });
+
+    expect(allocations).toEqual([{ categoryId: 'cat-food', amount: 120, isSplit: false }]);
+  });
+
+  it('should return the splits instead of the parent', () => {
+    const allocations = getCategoryAllocations({
+      categoryId: 'cat-food',
+      amount: 300,
+      splits: [
+        { categoryId: 'cat-food', amount: 200 },
+        { categoryId: 'cat-pharmacy', amount: 100, notes: 'Vitamins' },
+      ],
+    });
+
+    expect(allocations).toHaveLength(2);
+    expect(allocations[1]).toEqual({
+      categoryId: 'cat-pharmacy',
+      amount: 100,
+      notes: 'Vitamins',
+      isSplit: true,
+    });
+  });
+});
+
+describe('getAmountForCategory', () => {
+  const tx = {
+    categoryId: 'cat-food',
+    amount: 300,
+    splits: [
+      { categoryId: 'cat-food', amount: 200 },
+      { categoryId: 'cat-household', amount: 60 },
+      { categoryId: null, amount: 40 },
+    ],
+  };
+
+  it('should sum only the splits allocated to the category', () => {
+    expect(getAmountForCategory(tx, 'cat-food')).toBe(200);
+    expect(getAmountForCategory(tx, 'cat-household')).toBe(60);
+    expect(getAmountForCategory(tx, null)).toBe(40);
+    expect(getAmountForCategory(tx, 'cat-other')).toBe(0);
+  });
+
+  it('should report whether a transaction is split', () => {
+    expect(hasSplits(tx)).toBe(true);
+    expect(hasSplits({ splits: [] })).toBe(false);
+    expect(hasSplits({})).toBe(false);
+  });
+});
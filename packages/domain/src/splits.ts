@@ -0,0 +1,92 @@
+import type { Transaction, TransactionSplit } from './types';
+
+/**
+ * Amounts are stored as floats, so sums are compared within half an agora
+ */
+const SPLIT_TOLERANCE = 0.005;
+
+export interface SplitValidationResult {
+  valid: boolean;
+  error?: string;
+  /** Parent amount minus the sum of the splits */
+  difference: number;
+}
+
+export interface CategoryAllocation {
+  categoryId: string | null;
+  amount: number;
+  notes?: string | null;
+  isSplit: boolean;
+}
+
+/**
+ * Validates that splits are a proper division of the parent amount
+ *
+ * Rules:
+ * - At least two allocations (a single allocation is just a recategorization)
+ * - Every allocation amount is positive
+ * - Allocations add up to the parent amount
+ */
+export function validateSplits(
+  parentAmount: number,
+  splits: Pick<TransactionSplit, 'amount'>[]
+): SplitValidationResult {
+  const total = splits.reduce((sum, split) => sum + split.amount, 0);
+  const difference = Math.round((parentAmount - total) * 100) / 100;
+
+  if (splits.length < 2) {
+    return { valid: false, error: 'A split needs at least two allocations', difference };
+  }
+
+  if (splits.some((split) => split.amount <= 0)) {
+    return { valid: false, error: 'Split amounts must be positive', difference };
+  }
+
+  if (Math.abs(parentAmount - total) > SPLIT_TOLERANCE) {
+    return {
+      valid: false,
+      error: `Split amounts add up to ${total.toFixed(2)} but the transaction is ${parentAmount.toFixed(2)}`,
+      difference,
+    };
+  }
+
+  return { valid: true, difference: 0 };
+}
+
+/**
+ * Checks whether a transaction is divided into splits
+ */
+export function hasSplits(tx: Pick<Transaction, 'splits'>): boolean {
+  return (tx.splits?.length ?? 0) > 0;
+}
+
+/**
+ * Returns the category allocations of a transaction.
+ * Split transactions contribute their splits; others contribute the parent as a whole.
+ */
+export function getCategoryAllocations(
+  tx: Pick<Transaction, 'categoryId' | 'amount' | 'splits'>
+): CategoryAllocation[] {
+  if (tx.splits && tx.splits.length > 0) {
+    return tx.splits.map((split) => ({
+      categoryId: split.categoryId ?? null,
+      amount: split.amount,
+      notes: split.notes,
+      isSplit: true,
+    }));
+  }
+
+  return [{ categoryId: tx.categoryId ?? null, amount: tx.amount, isSplit: false }];
+}
+
+/**
+ * Returns the amount of a transaction allocated to a category (0 if none)
+ */
+export function getAmountForCategory(
+  tx: Pick<Transaction, 'categoryId' | 'amount' | 'splits'>,
+  categoryId: string | null
+): number {
+  return getCategoryAllocations(tx)
+    .filter((allocation) => allocation.categoryId === categoryId)
+    .reduce((sum, allocation) => sum + allocation.amount, 0);
+}
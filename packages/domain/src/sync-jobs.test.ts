@@ -0,0 +1,68 @@
+import { describe, expect, it } from 'vitest';
+import {
+  getNextSyncRetry,
+  getSyncJobProgress,
+  getSyncRetryDelay,
+  isSyncAuthError,
+} from './sync-jobs';
+
+describe('getSyncRetryDelay', () => {
+  it('should double the delay with each attempt up to the cap', () => {
+    const config = { baseDelayMs: 1000, maxDelayMs: 5000 };
+
+    expect([1, 2, 3, 4].map((attempt) => getSyncRetryDelay(attempt, config))).toEqual([
+      1000, 2000, 4000, 5000,
+    ]);
+  });
+});
+
+describe('getNextSyncRetry', () => {
+  const now = new Date('2024-11-20T03:00:00Z');
+  const networkError = { errorType: 'GENERIC', errorMessage: 'net::ERR_CONNECTION_RESET' };
+
+  it('should retry transient errors with backoff', () => {
+    expect(getNextSyncRetry(1, networkError, now)).toEqual(new Date('2024-11-20T03:00:30Z'));
+    expect(getNextSyncRetry(2, networkError, now)).toEqual(new Date('2024-11-20T03:01:00Z'));
+  });
+
+  it('should give up after the last attempt', () => {
+    expect(getNextSyncRetry(3, networkError, now)).toBeNull();
+    expect(getNextSyncRetry(3, networkError, now, { maxAttempts: 5 })).not.toBeNull();
+  });
+
+  it('should not retry errors that need the user to log in again', () => {
+    expect(getNextSyncRetry(1, { errorType: 'AUTH_REQUIRED' }, now)).toBeNull();
+    expect(getNextSyncRetry(1, { errorType: 'INVALID_CREDENTIALS' }, now)).toBeNull();
+    expect(getNextSyncRetry(1, { errorType: 'TIMEOUT' }, now)).not.toBeNull();
+    expect(
+      getNextSyncRetry(1, { errorMessage: 'Token expired, please re-authenticate' }, now)
+    ).toBeNull();
+  });
+});
+
+describe('isSyncAuthError', () => {
+  it('should detect auth errors by type or message', () => {
+    expect(isSyncAuthError('AUTH_REQUIRED')).toBe(true);
+    expect(isSyncAuthError('INVALID_CREDENTIALS')).toBe(true);
+    expect(isSyncAuthError('ACCOUNT_BLOCKED')).toBe(true);
+    expect(isSyncAuthError(undefined, 'idToken missing')).toBe(true);
+    expect(isSyncAuthError('TIMEOUT', 'Navigation timeout of 30000 ms exceeded')).toBe(false);
+  });
+});
+
+describe('getSyncJobProgress', () => {
+  it('should report the running step', () => {
+    expect(getSyncJobProgress({ status: 'running', step: 'import' })).toEqual({
+      step: 'import',
+      stepNumber: 2,
+      totalSteps: 4,
+      percent: 38,
+    });
+  });
+
+  it('should report finished and waiting jobs', () => {
+    expect(getSyncJobProgress({ status: 'success', step: 'recurring' }).percent).toBe(100);
+    expect(getSyncJobProgress({ status: 'queued' })).toMatchObject({ stepNumber: 0, percent: 0 });
+    expect(getSyncJobProgress({ status: 'retrying', step: 'scrape' }).step).toBeNull();
+  });
+});
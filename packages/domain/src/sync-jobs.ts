@@ -0,0 +1,135 @@
+/**
+ * Bank sync job queue
+ * States, retry backoff and step progress of the background jobs that sync bank connections.
+ * The queue itself lives in the SyncJob table; these rules decide what happens to a job.
+ */
+
+/**
+ * - queued: waiting for the runner
+ * - running: claimed by a runner, which holds the connection's lock until `lockedUntil`
+ * - retrying: failed with a transient error, runs again at `runAfter`
+ * - success / error: finished
+ */
+export type SyncJobStatus = 'queued' | 'running' | 'retrying' | 'success' | 'error';
+
+/**
+ * Jobs that still hold their connection: at most one per connection
+ */
+export const ACTIVE_SYNC_JOB_STATUSES: SyncJobStatus[] = ['queued', 'running', 'retrying'];
+
+/**
+ * What queued the job
+ */
+export type SyncJobTrigger = 'manual' | 'all' | 'stale' | 'cron';
+
+/**
+ * Steps of a sync, in order
+ * - scrape: log in to the bank and fetch transactions
+ * - import: categorize and save the new transactions
+ * - transfers: pair transfers between household accounts
+ * - recurring: link payments to their recurring occurrences
+ */
+export const SYNC_JOB_STEPS = ['scrape', 'import', 'transfers', 'recurring'] as const;
+
+export type SyncJobStep = (typeof SYNC_JOB_STEPS)[number];
+
+export interface SyncJobProgress {
+  step: SyncJobStep | null;
+  stepNumber: number; // 1-based; 0 before the first step starts
+  totalSteps: number;
+  percent: number; // 0-100
+}
+
+export interface SyncRetryConfig {
+  maxAttempts?: number; // Default: 3
+  baseDelayMs?: number; // Default: 30 seconds
+  maxDelayMs?: number; // Default: 10 minutes
+}
+
+const DEFAULT_RETRY_CONFIG: Required<SyncRetryConfig> = {
+  maxAttempts: 3,
+  baseDelayMs: 30 * 1000,
+  maxDelayMs: 10 * 60 * 1000,
+};
+
+/**
+ * How long a runner may hold a connection before its job counts as abandoned
+ * Longer than the longest serverless run (5 minutes), so a live run is never taken over
+ */
+export const SYNC_JOB_LOCK_MS = 10 * 60 * 1000;
+
+// Sync error types (the scraper's `SyncErrorType`) where the bank refused the login;
+// AUTH_REQUIRED is the type jobs recorded before errors were classified
+const LOGIN_SYNC_ERROR_TYPES = [
+  'INVALID_CREDENTIALS',
+  'TOKEN_EXPIRED',
+  'ACCOUNT_BLOCKED',
+  'CHANGE_PASSWORD',
+  'AUTH_REQUIRED',
+];
+
+/**
+ * Invalid-credential failures in a row after which a connection stops syncing
+ * Banks block an account after a few wrong passwords, so we stop before they do
+ */
+export const MAX_FAILED_LOGINS = 2;
+
+/**
+ * Whether a failed sync needs the user to fix the login rather than a retry
+ */
+export function isSyncAuthError(errorType?: string | null, errorMessage?: string | null): boolean {
+  if (errorType && LOGIN_SYNC_ERROR_TYPES.includes(errorType)) return true;
+  if (!errorMessage) return false;
+  return ['re-authenticate', 'expired', 'idToken'].some((hint) => errorMessage.includes(hint));
+}
+
+/**
+ * Delay before retry number `attempt` (1-based): doubles from `baseDelayMs` up to `maxDelayMs`
+ */
+export function getSyncRetryDelay(attempt: number, config?: SyncRetryConfig): number {
+  const cfg = { ...DEFAULT_RETRY_CONFIG, ...config };
+  return Math.min(cfg.baseDelayMs * 2 ** Math.max(0, attempt - 1), cfg.maxDelayMs);
+}
+
+/**
+ * When a job that failed on its `attempts`-th attempt should run again
+ * Returns null when it should not: auth errors never recover on their own, and
+ * transient errors give up after `maxAttempts`
+ */
+export function getNextSyncRetry(
+  attempts: number,
+  error: { errorType?: string | null; errorMessage?: string | null },
+  now: Date = new Date(),
+  config?: SyncRetryConfig
+): Date | null {
+  const cfg = { ...DEFAULT_RETRY_CONFIG, ...config };
+  if (isSyncAuthError(error.errorType, error.errorMessage)) return null;
+  if (attempts >= cfg.maxAttempts) return null;
+  return new Date(now.getTime() + getSyncRetryDelay(attempts, cfg));
+}
+
+/**
+ * Progress of a job from its status and current step
+ */
+export function getSyncJobProgress(job: {
+  status: string;
+  step?: string | null;
+}): SyncJobProgress {
+  const totalSteps = SYNC_JOB_STEPS.length;
+  if (job.status === 'success') {
+    return { step: null, stepNumber: totalSteps, totalSteps, percent: 100 };
+  }
+
+  const index = SYNC_JOB_STEPS.indexOf(job.step as SyncJobStep);
+  if (index === -1 || job.status !== 'running') {
+    return { step: null, stepNumber: 0, totalSteps, percent: 0 };
+  }
+
+  // A running step counts as half done
+  return {
+    step: SYNC_JOB_STEPS[index]!,
+    stepNumber: index + 1,
+    totalSteps,
+    percent: Math.round(((index + 0.5) / totalSteps) * 100),
+  };
+}
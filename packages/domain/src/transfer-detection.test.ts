@@ -0,0 +1,119 @@
+import { describe, expect, it } from 'vitest';
+import { type TransferCandidate, detectTransferPairs } from './transfer-detection';
+
+describe('detectTransferPairs', () => {
+  const checkingPayment: TransferCandidate = {
+    id: 'tx-out',
+    accountId: 'acc-checking',
+    date: new Date('2024-12-10'),
+    description: 'ישראכרט חיוב חודשי',
+    amount: 4200,
+    direction: 'expense',
+  };
+
+  const cardCredit: TransferCandidate = {
+    id: 'tx-in',
+    accountId: 'acc-card',
+    date: new Date('2024-12-11'),
+    description: 'Payment received',
+    amount: 4200,
+    direction: 'income',
+  };
+
+  it('should pair matching outgoing and incoming transactions across accounts', () => {
+    const pairs = detectTransferPairs([checkingPayment, cardCredit]);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]?.outgoingId).toBe('tx-out');
+    expect(pairs[0]?.incomingId).toBe('tx-in');
+    expect(pairs[0]?.daysApart).toBe(1);
+    expect(pairs[0]?.hasHint).toBe(true);
+  });
+
+  it('should not pair transactions in the same account', () => {
+    const pairs = detectTransferPairs([
+      checkingPayment,
+      { ...cardCredit, accountId: 'acc-checking' },
+    ]);
+
+    expect(pairs).toHaveLength(0);
+  });
+
+  it('should not pair different amounts', () => {
+    const pairs = detectTransferPairs([checkingPayment, { ...cardCredit, amount: 4100 }]);
+
+    expect(pairs).toHaveLength(0);
+  });
+
+  it('should not pair transactions outside the date window', () => {
+    const pairs = detectTransferPairs([
+      checkingPayment,
+      { ...cardCredit, date: new Date('2024-12-20') },
+    ]);
+
+    expect(pairs).toHaveLength(0);
+  });
+
+  it('should require a description hint', () => {
+    const plainOut = { ...checkingPayment, description: 'Purchase' };
+
+    expect(detectTransferPairs([plainOut, cardCredit])).toHaveLength(0);
+    expect(
+      detectTransferPairs([plainOut, { ...cardCredit, date: new Date('2024-12-10') }])
+    ).toHaveLength(0);
+    expect(
+      detectTransferPairs([plainOut, { ...cardCredit, date: new Date('2024-12-10') }], {
+        minScore: 0.5,
+      })
+    ).toHaveLength(1);
+  });
+
+  it('should not pair a same-day purchase and refund of the same amount', () => {
+    const purchase: TransferCandidate = {
+      id: 'tx-purchase',
+      accountId: 'acc-card',
+      date: new Date('2024-12-10'),
+      description: 'שופרסל דיל',
+      amount: 189.9,
+      direction: 'expense',
+    };
+    const refund: TransferCandidate = {
+      id: 'tx-refund',
+      accountId: 'acc-checking',
+      date: new Date('2024-12-10'),
+      description: 'זיכוי - החזר',
+      amount: 189.9,
+      direction: 'income',
+    };
+
+    expect(detectTransferPairs([purchase, refund])).toHaveLength(0);
+  });
+
+  it('should skip rejected pairs but still pair their legs elsewhere', () => {
+    const laterCredit: TransferCandidate = {
+      ...cardCredit,
+      id: 'tx-in-later',
+      date: new Date('2024-12-13'),
+    };
+
+    const pairs = detectTransferPairs([checkingPayment, cardCredit, laterCredit], {
+      rejectedPairs: [{ outgoingId: 'tx-out', incomingId: 'tx-in' }],
+    });
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]?.incomingId).toBe('tx-in-later');
+  });
+
+  it('should use each transaction at most once, preferring the closest date', () => {
+    const laterCredit: TransferCandidate = {
+      ...cardCredit,
+      id: 'tx-in-later',
+      date: new Date('2024-12-13'),
+    };
+
+    const pairs = detectTransferPairs([checkingPayment, laterCredit, cardCredit]);
+
+    expect(pairs).toHaveLength(1);
+    expect(pairs[0]?.incomingId).toBe('tx-in');
+  });
+});
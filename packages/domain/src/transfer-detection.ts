@@ -0,0 +1,139 @@
+/**
+ * Transfer detection between household accounts
+ * Pairs an outgoing transaction in one account with an incoming transaction
+ * in another (e.g. paying the credit card bill from the checking account)
+ */
+
+export interface TransferCandidate {
+  id: string;
+  accountId: string;
+  date: Date;
+  description: string;
+  merchant?: string | null;
+  amount: number;
+  direction: 'income' | 'expense' | 'transfer';
+}
+
+export interface TransferPair {
+  outgoingId: string;
+  incomingId: string;
+  daysApart: number;
+  hasHint: boolean;
+  score: number; // 0-1
+}
+
+export interface TransferDetectionConfig {
+  maxDaysApart?: number; // Default: 3
+  amountTolerance?: number; // Default: 0.01
+  minScore?: number; // Default: 0.6, above what a pair without a hint can score
+  hints?: string[]; // Default: TRANSFER_HINTS
+  rejectedPairs?: Array<{ outgoingId: string; incomingId: string }>; // Pairs the user broke
+}
+
+/**
+ * Description fragments that suggest money moving between own accounts
+ */
+export const TRANSFER_HINTS = [
+  'העברה',
+  'העברת',
+  'ישראכרט',
+  'כרטיס אשראי',
+  'כרטיסי אשראי',
+  'חיוב כרטיס',
+  'מקס איט',
+  'כאל',
+  'ויזה',
+  'transfer',
+  'isracard',
+  'credit card',
+  'card payment',
+  'max it',
+  'visa cal',
+];
+
+const DEFAULT_CONFIG: Required<TransferDetectionConfig> = {
+  maxDaysApart: 3,
+  amountTolerance: 0.01,
+  minScore: 0.6,
+  hints: TRANSFER_HINTS,
+  rejectedPairs: [],
+};
+
+const MS_PER_DAY = 24 * 60 * 60 * 1000;
+
+/**
+ * Detect transfer pairs between different accounts
+ *
+ * A pair needs an expense and an income in different accounts with the same
+ * amount. Scoring:
+ * - Up to 0.5 for date proximity (same day = 0.5)
+ * - 0.5 when either description contains a transfer hint
+ *
+ * A same-amount expense and income without a hint (a refund next to a purchase, salary
+ * and rent) tops out at 0.5, below the default `minScore`, so it is never paired.
+ *
+ * Pairs are chosen greedily by score, so each transaction is used at most once.
+ * `rejectedPairs` are never proposed again, but each of their legs can still pair with
+ * another transaction.
+ */
+export function detectTransferPairs(
+  transactions: TransferCandidate[],
+  config?: TransferDetectionConfig
+): TransferPair[] {
+  const cfg = { ...DEFAULT_CONFIG, ...config };
+
+  const outgoing = transactions.filter((tx) => tx.direction === 'expense');
+  const incoming = transactions.filter((tx) => tx.direction === 'income');
+
+  const candidates: TransferPair[] = [];
+  const rejected = new Set(cfg.rejectedPairs.map((p) => `${p.outgoingId}:${p.incomingId}`));
+
+  for (const out of outgoing) {
+    for (const inc of incoming) {
+      if (out.accountId === inc.accountId) continue;
+      if (rejected.has(`${out.id}:${inc.id}`)) continue;
+      if (Math.abs(out.amount - inc.amount) > cfg.amountTolerance) continue;
+
+      const daysApart = Math.round(
+        Math.abs(new Date(out.date).getTime() - new Date(inc.date).getTime()) / MS_PER_DAY
+      );
+      if (daysApart > cfg.maxDaysApart) continue;
+
+      const hasHint = hasTransferHint(out, cfg.hints) || hasTransferHint(inc, cfg.hints);
+      const score = 0.5 * (1 - daysApart / (cfg.maxDaysApart + 1)) + (hasHint ? 0.5 : 0);
+
+      if (score < cfg.minScore) continue;
+
+      candidates.push({
+        outgoingId: out.id,
+        incomingId: inc.id,
+        daysApart,
+        hasHint,
+        score: Math.round(score * 100) / 100,
+      });
+    }
+  }
+
+  // Best matches first; closer dates break ties
+  candidates.sort((a, b) => b.score - a.score || a.daysApart - b.daysApart);
+
+  const used = new Set<string>();
+  const pairs: TransferPair[] = [];
+
+  for (const candidate of candidates) {
+    if (used.has(candidate.outgoingId) || used.has(candidate.incomingId)) continue;
+    used.add(candidate.outgoingId);
+    used.add(candidate.incomingId);
+    pairs.push(candidate);
+  }
+
+  return pairs;
+}
+
+/**
+ * Check whether a transaction's description or merchant contains a transfer hint
+ */
+function hasTransferHint(tx: TransferCandidate, hints: string[]): boolean {
+  const text = `${tx.description} ${tx.merchant ?? ''}`.toLowerCase();
+  return hints.some((hint) => text.includes(hint.toLowerCase()));
+}
@@ -10,11 +10,15 @@ export type CategorizationSource =
   | 'rule_merchant'
   | 'rule_keyword'
   | 'rule_regex'
+  | 'merchant_default'
   | 'ai_suggestion'
   | 'fallback';
 export type RuleType = 'merchant' | 'keyword' | 'regex';
 export type RecurringFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly';
 export type BudgetStatus = 'ok' | 'nearing_limit' | 'exceeded_soft' | 'exceeded_hard';
+export type BudgetPeriod = 'month' | 'quarter' | 'year';
+export type BudgetPaceStatus = 'under' | 'on_pace' | 'over';
+export type GoalStatus = 'completed' | 'on_track' | 'behind' | 'overdue';
 
 // ============================================
 // Transaction Types
@@ -29,6 +33,7 @@ export interface Transaction {
   date: Date;
   description: string;
   merchant?: string | null;
+  merchantId?: string | null;
   amount: number;
   direction: TransactionDirection;
   categorizationSource?: CategorizationSource | null;
@@ -36,17 +41,39 @@ export interface Transaction {
   notes?: string | null;
   needsReview: boolean;
   isIgnored: boolean;
+  isPending?: boolean;
   isRecurringInstance: boolean;
   recurringTemplateId?: string | null;
   recurringInstanceKey?: string | null;
+  originalAmount?: number | null; // Amount in the merchant's currency, when it differs
+  originalCurrency?: string | null;
+  installmentPlanId?: string | null;
+  installmentNumber?: number | null;
+  splits?: TransactionSplit[];
+  transferPeerId?: string | null;
+  goalId?: string | null; // Tagged as a contribution to a savings goal
+}
+
+/**
+ * A child allocation of a transaction to a category.
+ * Split amounts of a transaction must add up to the parent amount.
+ */
+export interface TransactionSplit {
+  id?: string;
+  categoryId?: string | null;
+  amount: number;
+  notes?: string | null;
 }
 
 export interface TransactionInput {
   description: string;
   merchant?: string | null;
+  merchantId?: string | null; // Resolved household Merchant
   amount: number;
   direction: TransactionDirection;
   categoryId?: string | null;
+  accountId?: string | null;
+  date?: Date;
 }
 
 // ============================================
@@ -80,16 +107,116 @@ export interface CategoryForCategorization {
   type: CategoryType;
 }
 
+// ============================================
+// Installment Types
+// ============================================
+
+/**
+ * A purchase paid in monthly installments
+ * Payment n is due n-1 months after firstPaymentDate
+ */
+export interface InstallmentPlan {
+  id: string;
+  householdId: string;
+  accountId: string;
+  categoryId?: string | null;
+  description: string;
+  merchant?: string | null;
+  purchaseDate: Date;
+  firstPaymentDate: Date;
+  totalPayments: number;
+  paymentAmount: number;
+  totalAmount: number;
+}
+
+// ============================================
+// Goal Types
+// ============================================
+
+/**
+ * A savings goal, e.g. "vacation fund 15,000 by July"
+ * Contributions come from tagged transactions, money moved into the linked account,
+ * or spending categorized to the linked category
+ */
+export interface Goal {
+  id: string;
+  householdId: string;
+  name: string;
+  targetAmount: number;
+  targetDate: Date;
+  startDate: Date;
+  initialAmount: number; // Already saved when the goal was created
+  accountId?: string | null;
+  categoryId?: string | null;
+}
+
+export interface GoalProgress {
+  savedAmount: number;
+  progressPct: number;
+  remainingAmount: number;
+  monthsLeft: number;
+  requiredMonthly: number; // Contribution needed each remaining month
+  expectedAmount: number; // Where a steady saver would be by now
+  status: GoalStatus;
+}
+
+// ============================================
+// Merchant Types
+// ============================================
+
+/**
+ * A business as the household knows it, e.g. "Shufersal"
+ * Banks spell the same merchant many ways; aliases and patterns map them all to this one
+ */
+export interface Merchant {
+  id: string;
+  householdId: string;
+  name: string; // Canonical name
+  aliases: string[]; // Whole merchant texts, compared after normalization
+  patterns: string[]; // Text contained in the merchant or description
+  defaultCategoryId?: string | null;
+  icon?: string | null;
+  logoUrl?: string | null;
+  website?: string | null;
+}
+
 // ============================================
 // Category Rule Types
 // ============================================
 
+/**
+ * Extra conditions a rule checks on top of its text pattern
+ * Every condition that is set must hold; unset conditions match anything
+ */
+export interface RuleConditions {
+  amountMin?: number;
+  amountMax?: number;
+  direction?: TransactionDirection;
+  accountIds?: string[];
+  merchantIds?: string[]; // Household merchants, whatever text the bank used for them
+  dayOfMonthMin?: number; // 1-31
+  dayOfMonthMax?: number; // 1-31
+  weekdays?: number[]; // 0 = Sunday
+}
+
+/**
+ * Changes a rule makes to a matching transaction besides setting its category
+ */
+export type RuleAction =
+  | { type: 'set_ignored'; value: boolean }
+  | { type: 'set_merchant'; value: string }
+  | { type: 'set_description'; value: string }
+  | { type: 'append_note'; value: string }
+  | { type: 'mark_reviewed' };
+
 export interface CategoryRule {
   id: string;
   householdId: string;
-  categoryId: string;
+  categoryId: string | null; // null for rules that only run actions
   type: RuleType;
-  pattern: string;
+  pattern: string; // Empty pattern matches any text when conditions are set
+  conditions?: RuleConditions | null;
+  actions?: RuleAction[] | null;
   priority: number;
   isActive: boolean;
 }
@@ -102,16 +229,21 @@ export interface Budget {
   id: string;
   householdId: string;
   categoryId: string;
-  month: string; // YYYY-MM
+  month: string; // YYYY-MM (first month of the period)
+  period?: BudgetPeriod; // Defaults to month
   plannedAmount: number;
   limitAmount?: number | null;
   limitType?: LimitType | null;
   alertThresholdPct: number;
+  rollover?: boolean; // Carry unspent or overspent amount into the next month
+  rolloverCap?: number | null; // Max carry-over in either direction
 }
 
 export interface BudgetEvaluation {
   budget: Budget;
   actualAmount: number;
+  carryOver: number; // Amount carried in from previous months (negative = overspent)
+  available: number; // plannedAmount + carryOver
   percentUsed: number;
   status: BudgetStatus;
   remaining: number;
@@ -119,6 +251,20 @@ export interface BudgetEvaluation {
   isOverLimit: boolean;
 }
 
+export interface BudgetPace {
+  elapsedPct: number; // Share of the period that has passed (0.0-1.0)
+  spentPct: number; // Share of the budget spent so far
+  status: BudgetPaceStatus;
+}
+
+export interface BudgetPeriodResult {
+  month: string; // YYYY-MM
+  plannedAmount: number;
+  actualAmount: number;
+  rollover?: boolean;
+  rolloverCap?: number | null;
+}
+
 // ============================================
 // Recurring Transaction Types
 // ============================================
@@ -177,6 +323,7 @@ export interface CategorizationResult {
   confidence: number;
   source: CategorizationSource;
   reason: string;
+  reasoning?: string; // The AI model's own explanation, for AI suggestions
   matchedRule?: CategoryRule | null;
 }
 
@@ -0,0 +1,54 @@
+import { describe, expect, it, vi } from 'vitest';
+import { getAdapter, getProviderMetadata, listProviders } from '../../adapters';
+
+// Mock the israeli-bank-scrapers library
+vi.mock('israeli-bank-scrapers', () => ({
+  createScraper: vi.fn(),
+  CompanyTypes: {
+    isracard: 'isracard',
+    oneZero: 'oneZero',
+    leumi: 'leumi',
+    hapoalim: 'hapoalim',
+    max: 'max',
+    visaCal: 'visaCal',
+  },
+}));
+
+describe('adapter registry', () => {
+  it('should list every registered provider by name', () => {
+    const providers = listProviders();
+
+    expect(providers.map((p) => [p.id, p.kind])).toEqual([
+      ['hapoalim', 'bank'],
+      ['leumi', 'bank'],
+      ['isracard', 'credit_card'],
+      ['max', 'credit_card'],
+      ['onezero', 'bank'],
+      ['cal', 'credit_card'],
+    ]);
+  });
+
+  it('should describe the credential fields each provider needs', () => {
+    expect(getProviderMetadata(getAdapter('hapoalim')).credentialFields.map((f) => f.name)).toEqual(
+      ['userCode', 'password']
+    );
+    expect(getProviderMetadata(getAdapter('onezero'))).toMatchObject({
+      name: 'OneZero Bank',
+      requiresTwoFactor: true,
+    });
+  });
+
+  it('should validate credentials against the provider schema', () => {
+    const leumi = getAdapter('leumi');
+
+    expect(leumi.credentialsSchema.safeParse({ username: 'u', password: 'p' }).success).toBe(true);
+    expect(leumi.credentialsSchema.safeParse({ username: 'u' }).success).toBe(false);
+
+    // The form asks for exactly the fields the schema requires
+    for (const provider of listProviders()) {
+      const result = getAdapter(provider.id).credentialsSchema.safeParse({});
+      const required = result.success ? [] : result.error.issues.map((issue) => issue.path[0]);
+      expect(required).toEqual(provider.credentialFields.map((f) => f.name));
+    }
+  });
+});
@@ -268,10 +268,23 @@ describe('ScraperService', () => {
       const { result, transactions } = await service.syncConnection(connection, new Set());
 
       expect(result.success).toBe(false);
+      expect(result.errorType).toBe('GENERIC');
       expect(result.errorMessage).toBe('Invalid credentials');
       expect(result.transactionsFound).toBe(0);
       expect(transactions).toHaveLength(0);
     });
+
+    it('should classify the scraper error type', async () => {
+      mockAdapter.scrape.mockResolvedValue({
+        success: false,
+        errorType: 'INVALID_PASSWORD',
+        errorMessage: 'Wrong password',
+      });
+
+      const { result } = await service.syncConnection(connection, new Set());
+
+      expect(result.errorType).toBe('INVALID_CREDENTIALS');
+    });
   });
 
   describe('initTwoFactor', () => {
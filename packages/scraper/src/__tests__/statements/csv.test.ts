@@ -0,0 +1,114 @@
+import { describe, expect, it } from 'vitest';
+import { parseCsvRows, parseCsvStatement } from '../../statements/csv';
+import { csvColumnMappingSchema } from '../../types';
+
+describe('parseCsvRows', () => {
+  it('should handle quoted fields with delimiters, quotes and newlines', () => {
+    const rows = parseCsvRows('a,"b, c","say ""hi"""\r\n1,"multi\nline",3');
+
+    expect(rows).toEqual([
+      ['a', 'b, c', 'say "hi"'],
+      ['1', 'multi\nline', '3'],
+    ]);
+  });
+
+  it('should strip a UTF-8 BOM', () => {
+    expect(parseCsvRows('﻿date,amount')[0]?.[0]).toBe('date');
+  });
+});
+
+describe('parseCsvStatement', () => {
+  const mapping = csvColumnMappingSchema.parse({
+    date: 'Date',
+    description: 'Description',
+    amount: 'Amount',
+    memo: 'Notes',
+  });
+
+  it('should map rows using header names', () => {
+    const csv = [
+      'Date,Description,Amount,Notes',
+      '15/01/2024,Shufersal Deal,-350.50,weekly',
+      '01/02/2024,Salary,"12,000.00",',
+    ].join('\n');
+
+    const result = parseCsvStatement(csv, mapping, 'acc-1');
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({
+      description: 'Shufersal Deal',
+      amount: 350.5,
+      direction: 'expense',
+      notes: 'weekly',
+      externalAccountId: 'acc-1',
+    });
+    expect(result.transactions[0]?.date.toISOString()).toBe('2024-01-14T22:00:00.000Z');
+    expect(result.transactions[1]).toMatchObject({ amount: 12000, direction: 'income' });
+  });
+
+  it('should report unparseable rows without failing the file', () => {
+    const csv = [
+      'Date,Description,Amount,Notes',
+      'not-a-date,Coffee,-12,',
+      '15/01/2024,Coffee,abc,',
+      '16/01/2024,Coffee,-12,',
+    ].join('\n');
+
+    const result = parseCsvStatement(csv, mapping, 'acc-1');
+
+    expect(result.transactions).toHaveLength(1);
+    expect(result.errors.map((e) => e.row)).toEqual([2, 3]);
+  });
+
+  it('should support debit/credit columns, index mapping and inverted amounts', () => {
+    const csv = ['Bank export', '15.01.24;Rami Levy;120,90;', '16.01.24;Refund;;50'].join('\n');
+    const debitCredit = csvColumnMappingSchema.parse({
+      delimiter: ';',
+      hasHeader: false,
+      skipRows: 1,
+      date: 0,
+      description: 1,
+      debit: 2,
+      credit: 3,
+    });
+
+    const result = parseCsvStatement(csv, debitCredit, 'acc-1');
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.transactions.map((t) => [t.amount, t.direction])).toEqual([
+      [120.9, 'expense'],
+      [50, 'income'],
+    ]);
+
+    const inverted = parseCsvStatement(
+      'Date,Description,Amount\n15/01/2024,Card charge,99',
+      { ...mapping, invertAmounts: true },
+      'acc-1'
+    );
+    expect(inverted.transactions[0]?.direction).toBe('expense');
+  });
+
+  it('should report a missing mapped column', () => {
+    const result = parseCsvStatement('When,What,Sum\n15/01/2024,Coffee,-12', mapping, 'acc-1');
+
+    expect(result.transactions).toHaveLength(0);
+    expect(result.errors[0]?.reason).toContain('date');
+  });
+
+  it('should generate stable external IDs and keep identical rows apart', () => {
+    const csv = [
+      'Date,Description,Amount,Notes',
+      '15/01/2024,Coffee,-12,',
+      '15/01/2024,Coffee,-12,',
+    ].join('\n');
+
+    const first = parseCsvStatement(csv, mapping, 'acc-1');
+    const second = parseCsvStatement(csv, mapping, 'acc-1');
+
+    const ids = first.transactions.map((t) => t.externalId);
+    expect(new Set(ids).size).toBe(2);
+    expect(ids[0]).toMatch(/^acc-1_/);
+    expect(second.transactions.map((t) => t.externalId)).toEqual(ids);
+  });
+});
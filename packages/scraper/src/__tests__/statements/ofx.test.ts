@@ -0,0 +1,72 @@
+import { describe, expect, it } from 'vitest';
+import { parseOfxStatement } from '../../statements/ofx';
+
+describe('parseOfxStatement', () => {
+  const sgml = `OFXHEADER:100
+DATA:OFXSGML
+
+<OFX>
+<BANKMSGSRSV1><STMTTRNRS><STMTRS>
+<BANKTRANLIST>
+<STMTTRN>
+<TRNTYPE>DEBIT
+<DTPOSTED>20240115120000[+2:IST]
+<TRNAMT>-350.50
+<FITID>T-1001
+<NAME>SHUFERSAL &amp; CO
+<MEMO>Card 1234
+<STMTTRN>
+<TRNTYPE>CREDIT
+<DTPOSTED>20240201
+<TRNAMT>12000.00
+<FITID>T-1002
+<NAME>SALARY
+</BANKTRANLIST>
+</STMTRS></STMTTRNRS></BANKMSGSRSV1>
+</OFX>`;
+
+  it('should parse SGML statements without closing tags', () => {
+    const result = parseOfxStatement(sgml, 'acc-1');
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({
+      externalId: 'acc-1_T-1001',
+      description: 'SHUFERSAL & CO',
+      notes: 'Card 1234',
+      amount: 350.5,
+      direction: 'expense',
+    });
+    expect(result.transactions[1]).toMatchObject({ amount: 12000, direction: 'income' });
+  });
+
+  it('should parse XML statements', () => {
+    const xml = `<?xml version="1.0"?><OFX><BANKTRANLIST>
+      <STMTTRN><DTPOSTED>20240115</DTPOSTED><TRNAMT>-20</TRNAMT><NAME>Cafe</NAME></STMTTRN>
+    </BANKTRANLIST></OFX>`;
+
+    const result = parseOfxStatement(xml, 'acc-1');
+
+    expect(result.transactions).toHaveLength(1);
+    // No FITID - falls back to a content hash
+    expect(result.transactions[0]?.externalId).toMatch(/^acc-1_[0-9a-f]{16}$/);
+  });
+
+  it('should report entries with missing fields', () => {
+    const xml = `<OFX><BANKTRANLIST>
+      <STMTTRN><DTPOSTED>bad</DTPOSTED><TRNAMT>-20</TRNAMT><NAME>Cafe</NAME></STMTTRN>
+      <STMTTRN><DTPOSTED>20240115</DTPOSTED><NAME>Cafe</NAME></STMTTRN>
+    </BANKTRANLIST></OFX>`;
+
+    const result = parseOfxStatement(xml, 'acc-1');
+
+    expect(result.transactions).toHaveLength(0);
+    expect(result.errors).toHaveLength(2);
+  });
+
+  it('should report files without transactions', () => {
+    const result = parseOfxStatement('<OFX></OFX>', 'acc-1');
+
+    expect(result.errors[0]?.reason).toContain('No transactions');
+  });
+});
@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { parseQifStatement } from '../../statements/qif';
+
+describe('parseQifStatement', () => {
+  const qif = [
+    '!Type:Bank',
+    'D15/01/2024',
+    'T-1,350.50',
+    'PSuper-Pharm',
+    'MVitamins',
+    '^',
+    "D01/02'24",
+    'U12,000.00',
+    'PSalary',
+    '^',
+  ].join('\n');
+
+  it('should parse records', () => {
+    const result = parseQifStatement(qif, 'acc-1');
+
+    expect(result.errors).toHaveLength(0);
+    expect(result.transactions).toHaveLength(2);
+    expect(result.transactions[0]).toMatchObject({
+      description: 'Super-Pharm',
+      notes: 'Vitamins',
+      amount: 1350.5,
+      direction: 'expense',
+    });
+    expect(result.transactions[1]?.date.toISOString()).toBe('2024-01-31T22:00:00.000Z');
+  });
+
+  it('should respect the date format', () => {
+    const result = parseQifStatement('D02/01/2024\nT-5\nPCafe\n^', 'acc-1', 'MM/DD/YYYY');
+
+    expect(result.transactions[0]?.date.toISOString()).toBe('2024-01-31T22:00:00.000Z');
+  });
+
+  it('should accept a last record without a terminator and report bad records', () => {
+    const result = parseQifStatement('DXX\nT-5\nPCafe\n^\nD03/01/2024\nT-7\nPBakery', 'acc-1');
+
+    expect(result.transactions).toHaveLength(1);
+    expect(result.transactions[0]?.description).toBe('Bakery');
+    expect(result.errors).toHaveLength(1);
+    expect(result.errors[0]?.row).toBe(1);
+  });
+});
@@ -0,0 +1,34 @@
+import { describe, expect, it } from 'vitest';
+import { parseIsraelDay, toIsraelDate } from '../../utils/dates';
+
+describe('dates', () => {
+  describe('toIsraelDate', () => {
+    it('should use +02:00 in winter', () => {
+      expect(toIsraelDate(2024, 1, 15)?.toISOString()).toBe('2024-01-14T22:00:00.000Z');
+    });
+
+    it('should use +03:00 during daylight saving time', () => {
+      expect(toIsraelDate(2024, 7, 10)?.toISOString()).toBe('2024-07-09T21:00:00.000Z');
+    });
+
+    it('should use the offset in force at midnight on clock change days', () => {
+      // Clocks moved forward at 02:00 on 2024-03-29 and back at 02:00 on 2024-10-27
+      expect(toIsraelDate(2024, 3, 29)?.toISOString()).toBe('2024-03-28T22:00:00.000Z');
+      expect(toIsraelDate(2024, 3, 30)?.toISOString()).toBe('2024-03-29T21:00:00.000Z');
+      expect(toIsraelDate(2024, 10, 27)?.toISOString()).toBe('2024-10-26T21:00:00.000Z');
+      expect(toIsraelDate(2024, 10, 28)?.toISOString()).toBe('2024-10-27T22:00:00.000Z');
+    });
+
+    it('should return null for an invalid day', () => {
+      expect(toIsraelDate(Number.NaN, 1, 1)).toBeNull();
+    });
+  });
+
+  describe('parseIsraelDay', () => {
+    it('should ignore the time part', () => {
+      expect(parseIsraelDay('2024-08-01T13:45:00.000Z').toISOString()).toBe(
+        '2024-07-31T21:00:00.000Z'
+      );
+    });
+  });
+});
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { classifyScrapeError } from '../../utils/errors';
+
+describe('classifyScrapeError', () => {
+  it('should map the scraper error types', () => {
+    expect(classifyScrapeError('INVALID_PASSWORD')).toBe('INVALID_CREDENTIALS');
+    expect(classifyScrapeError('CHANGE_PASSWORD')).toBe('CHANGE_PASSWORD');
+    expect(classifyScrapeError('ACCOUNT_BLOCKED')).toBe('ACCOUNT_BLOCKED');
+    expect(classifyScrapeError('TIMEOUT')).toBe('TIMEOUT');
+    expect(classifyScrapeError('AUTH_REQUIRED', 'No long-term token available')).toBe(
+      'TOKEN_EXPIRED'
+    );
+  });
+
+  it('should prefer the error type over hints in the message', () => {
+    expect(classifyScrapeError('INVALID_PASSWORD', 'Your 2FA token appears to be expired')).toBe(
+      'INVALID_CREDENTIALS'
+    );
+  });
+
+  it('should classify generic errors and exceptions by their message', () => {
+    expect(
+      classifyScrapeError('EXCEPTION', "Cannot read properties of undefined (reading 'idToken')")
+    ).toBe('TOKEN_EXPIRED');
+    expect(classifyScrapeError('GENERIC', 'Navigation timeout of 30000 ms exceeded')).toBe(
+      'TIMEOUT'
+    );
+    expect(classifyScrapeError('GENERAL_ERROR', 'waiting for selector `#login` failed')).toBe(
+      'GENERIC'
+    );
+    expect(classifyScrapeError()).toBe('GENERIC');
+  });
+});
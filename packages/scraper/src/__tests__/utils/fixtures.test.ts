@@ -0,0 +1,155 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { createScraper } from 'israeli-bank-scrapers';
+import { describe, expect, it, vi } from 'vitest';
+import { ScraperService } from '../../service';
+import type { ScrapeResult } from '../../types';
+import {
+  createScrapeFixture,
+  parseScrapeFixture,
+  sanitizeScrapeResult,
+} from '../../utils/fixtures';
+
+// Mock the israeli-bank-scrapers library; a replay never calls it
+vi.mock('israeli-bank-scrapers', () => ({
+  createScraper: vi.fn(),
+  CompanyTypes: {
+    isracard: 'isracard',
+    oneZero: 'oneZero',
+    leumi: 'leumi',
+    hapoalim: 'hapoalim',
+    max: 'max',
+    visaCal: 'visaCal',
+  },
+}));
+
+const loadFixture = (name: string) =>
+  parseScrapeFixture(readFileSync(join(__dirname, '../fixtures', name), 'utf8'));
+
+const result: ScrapeResult = {
+  success: true,
+  accounts: [
+    {
+      accountNumber: '1234',
+      balance: -500,
+      txns: [
+        {
+          type: 'normal',
+          identifier: 998877,
+          date: '2024-11-03T00:00:00.000Z',
+          processedDate: '2024-12-02T00:00:00.000Z',
+          originalAmount: -100,
+          originalCurrency: 'ILS',
+          chargedAmount: -100,
+          description: 'שופרסל דיל',
+          status: 'completed',
+        },
+      ],
+    },
+  ],
+};
+
+describe('sanitizeScrapeResult', () => {
+  it('should hash account numbers and identifiers but keep amounts and descriptions', () => {
+    const sanitized = sanitizeScrapeResult(result);
+    const account = sanitized.accounts![0]!;
+    const txn = account.txns[0]!;
+
+    expect(account.accountNumber).not.toContain('1234');
+    expect(txn.identifier).not.toBe(998877);
+    expect(JSON.stringify(sanitized)).not.toContain('998877');
+    expect(account.balance).toBe(-500);
+    expect(txn).toMatchObject({ chargedAmount: -100, description: 'שופרסל דיל' });
+  });
+
+  it('should hash the same identifier the same way', () => {
+    expect(sanitizeScrapeResult(result)).toEqual(sanitizeScrapeResult(result));
+  });
+
+  it('should round-trip a recorded fixture through JSON', () => {
+    const fixture = createScrapeFixture(
+      'isracard',
+      new Date('2024-10-21'),
+      result,
+      new Date('2024-11-20')
+    );
+
+    expect(parseScrapeFixture(JSON.stringify(fixture))).toEqual(fixture);
+    expect(() => parseScrapeFixture('{"version":2}')).toThrow();
+  });
+});
+
+describe('ScraperService replay', () => {
+  const service = new ScraperService();
+  const connection = {
+    id: 'conn-1',
+    provider: 'isracard' as const,
+    encryptedCreds: 'not-decrypted-on-replay',
+    longTermToken: null,
+  };
+
+  it('should map and deduplicate a recorded scrape offline', async () => {
+    const fixture = loadFixture('isracard-sample.json');
+
+    const { result, transactions, balances } = await service.syncConnection(
+      connection,
+      new Set(['5d1f0e9a2b7c_a83c41d09b2e']),
+      new Date(fixture.startDate),
+      { replay: fixture }
+    );
+
+    expect(result).toEqual({ success: true, transactionsFound: 5, transactionsNew: 4 });
+    expect(balances).toEqual([{ externalAccountId: '5d1f0e9a2b7c', balance: -3120.4 }]);
+    expect(transactions.map((t) => [t.description, t.amount, t.direction])).toEqual([
+      ['KSP מחשבים', 300, 'expense'],
+      ['NETFLIX.COM', 59.62, 'expense'],
+      ['פז אפליקציה', 48, 'expense'],
+      ['זיכוי - ZARA', 120, 'income'],
+    ]);
+
+    const netflix = transactions.find((t) => t.description === 'NETFLIX.COM');
+    expect(netflix).toMatchObject({ originalAmount: 15.99, originalCurrency: 'USD' });
+    expect(transactions.find((t) => t.installment)?.installment).toMatchObject({
+      number: 3,
+      total: 12,
+    });
+  });
+
+  it('should record each scrape as a sanitized fixture', async () => {
+    process.env.AUTH_SECRET = 'test-secret';
+    vi.mocked(createScraper).mockReturnValue({
+      scrape: vi.fn().mockResolvedValue(result),
+    } as any);
+    const record = vi.fn();
+
+    await service.syncConnection(
+      {
+        ...connection,
+        encryptedCreds: service.encryptCredentials({
+          id: '123456789',
+          card6Digits: '123456',
+          password: 'secret',
+        }),
+      },
+      new Set(),
+      new Date('2024-10-21'),
+      { record }
+    );
+
+    expect(record).toHaveBeenCalledOnce();
+    const fixture = record.mock.calls[0]![0];
+    expect(fixture).toMatchObject({ provider: 'isracard', startDate: '2024-10-21T00:00:00.000Z' });
+    expect(fixture.result).toEqual(sanitizeScrapeResult(result));
+  });
+
+  it('should not record replays again', async () => {
+    const record = vi.fn();
+
+    await service.syncConnection(connection, new Set(), undefined, {
+      replay: loadFixture('isracard-sample.json'),
+      record,
+    });
+
+    expect(record).not.toHaveBeenCalled();
+  });
+});
@@ -68,9 +68,49 @@ describe('transaction-mapper', () => {
 
       expect(result.notes).toContain('תשלום 1/3');
       expect(result.amount).toBe(100);
+      expect(result.installment).toMatchObject({ number: 1, total: 3, totalAmount: 300 });
     });
 
-    it('should include foreign currency info in notes', () => {
+    it('should attach every payment of a purchase to the same plan', () => {
+      const payment = (number: number, processedDate: string): ScrapedTransaction => ({
+        type: 'installments',
+        date: '2024-01-15',
+        processedDate,
+        originalAmount: -1200,
+        originalCurrency: 'ILS',
+        chargedAmount: -100,
+        installments: { number, total: 12 },
+        description: 'KSP',
+        status: 'completed',
+      });
+
+      const second = mapTransaction(payment(2, '2024-03-02'), 'ACC123');
+      const third = mapTransaction(payment(3, '2024-04-02'), 'ACC123');
+
+      expect(second.installment?.planKey).toBe(third.installment?.planKey);
+      expect(second.externalId).not.toBe(third.externalId);
+      expect(second.installment?.firstPaymentDate).toEqual(new Date('2024-02-02T00:00:00+02:00'));
+    });
+
+    it('should not attach a plan to normal transactions', () => {
+      const result = mapTransaction(
+        {
+          type: 'normal',
+          date: '2024-01-15',
+          processedDate: '2024-01-16',
+          originalAmount: -100,
+          originalCurrency: 'ILS',
+          chargedAmount: -100,
+          description: 'Shufersal',
+          status: 'completed',
+        },
+        'ACC123'
+      );
+
+      expect(result.installment).toBeNull();
+    });
+
+    it('should keep the foreign amount and currency', () => {
       const txn: ScrapedTransaction = {
         type: 'normal',
         date: '2024-01-15',
@@ -85,7 +125,10 @@ describe('transaction-mapper', () => {
 
       const result = mapTransaction(txn, 'ACC123');
 
-      expect(result.notes).toContain('-50 USD');
+      expect(result.amount).toBe(180);
+      expect(result.originalAmount).toBe(50);
+      expect(result.originalCurrency).toBe('USD');
+      expect(result.notes).toBeNull();
     });
 
     it('should generate hash-based external ID when no identifier provided', () => {
@@ -168,7 +211,7 @@ describe('transaction-mapper', () => {
       expect(result[1]!.externalAccountId).toBe('ACC2');
     });
 
-    it('should skip pending transactions', () => {
+    it('should keep pending transactions and flag them', () => {
       const accounts: ScrapedAccount[] = [
         {
           accountNumber: 'ACC1',
@@ -201,8 +244,10 @@ describe('transaction-mapper', () => {
 
       const result = mapAccountTransactions(accounts);
 
-      expect(result).toHaveLength(1);
-      expect(result[0]!.description).toBe('Completed');
+      expect(result).toHaveLength(2);
+      expect(result[0]!.isPending).toBe(false);
+      expect(result[1]!.description).toBe('Pending');
+      expect(result[1]!.isPending).toBe(true);
     });
 
     it('should return empty array for empty accounts', () => {
@@ -1,5 +1,10 @@
+import type { z } from 'zod';
 import type {
   BankProvider,
+  CredentialField,
+  ProviderCredentials,
+  ProviderKind,
+  ProviderMetadata,
   ScrapeResult,
   TwoFactorCompleteResult,
   TwoFactorInitResult,
@@ -15,9 +20,18 @@ export interface ScraperAdapter {
   /** Human-readable provider name */
   readonly displayName: string;
 
+  /** Bank accounts or credit cards */
+  readonly kind: ProviderKind;
+
   /** Whether this provider requires 2FA setup */
   readonly requiresTwoFactor: boolean;
 
+  /** Validates the credentials entered for a new connection */
+  readonly credentialsSchema: z.ZodType<ProviderCredentials>;
+
+  /** Inputs of the connection form, one per credential */
+  readonly credentialFields: CredentialField[];
+
   /**
    * Scrape transactions from the provider
    * @param startDate - Start date for transaction fetch
@@ -68,3 +82,25 @@ export function getAdapter(provider: BankProvider): ScraperAdapter {
   }
   return adapter;
 }
+
+/**
+ * Describe a provider for listing and for rendering its connection form
+ */
+export function getProviderMetadata(adapter: ScraperAdapter): ProviderMetadata {
+  return {
+    id: adapter.provider,
+    name: adapter.displayName,
+    kind: adapter.kind,
+    requiresTwoFactor: adapter.requiresTwoFactor,
+    credentialFields: adapter.credentialFields,
+  };
+}
+
+/**
+ * Metadata of every registered provider, sorted by name
+ */
+export function listProviders(): ProviderMetadata[] {
+  return [...scraperAdapters.values()]
+    .map(getProviderMetadata)
+    .sort((a, b) => a.name.localeCompare(b.name));
+}
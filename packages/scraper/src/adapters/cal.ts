@@ -0,0 +1,39 @@
+import { CompanyTypes } from 'israeli-bank-scrapers';
+import {
+  type CalCredentials,
+  type CredentialField,
+  type ScrapeResult,
+  calCredentialsSchema,
+} from '../types';
+import type { ScraperAdapter } from './base';
+import { registerAdapter } from './base';
+import { scrapeCompany } from './company-scraper';
+
+/**
+ * Visa Cal Credit Card Adapter
+ * Uses the Cal website username + password
+ */
+class CalAdapter implements ScraperAdapter {
+  readonly provider = 'cal' as const;
+  readonly displayName = 'Visa Cal';
+  readonly kind = 'credit_card' as const;
+  readonly requiresTwoFactor = false;
+  readonly credentialsSchema = calCredentialsSchema;
+  readonly credentialFields: CredentialField[] = [
+    { name: 'username', label: 'Username', type: 'text' },
+    { name: 'password', label: 'Password', type: 'password' },
+  ];
+
+  async scrape(startDate: Date, credentials: object): Promise<ScrapeResult> {
+    const creds = credentials as CalCredentials;
+    return scrapeCompany(CompanyTypes.visaCal, 'Visa Cal', startDate, {
+      username: creds.username,
+      password: creds.password,
+    });
+  }
+}
+
+// Register the adapter
+registerAdapter(new CalAdapter());
+
+export { CalAdapter };
@@ -0,0 +1,81 @@
+import { type CompanyTypes, createScraper } from 'israeli-bank-scrapers';
+import { getScraperBrowserOptions } from '../chromium-config';
+import type { ScrapeResult, ScrapedAccount } from '../types';
+
+type LoginOptions = Parameters<ReturnType<typeof createScraper>['scrape']>[0];
+
+/**
+ * Scrape a company that logs in with its credentials alone (no 2FA)
+ * Shared by the bank and card adapters that only differ in company and login fields
+ * @param label - Name used in log lines and error messages
+ */
+export async function scrapeCompany(
+  companyId: CompanyTypes,
+  label: string,
+  startDate: Date,
+  loginOptions: LoginOptions
+): Promise<ScrapeResult> {
+  console.log(`[${label}] Starting scrape with startDate:`, startDate.toISOString());
+
+  try {
+    // Get browser options optimized for Vercel/serverless environments
+    const browserOptions = await getScraperBrowserOptions();
+
+    const scraper = createScraper({
+      companyId,
+      startDate,
+      combineInstallments: false,
+      showBrowser: browserOptions.showBrowser ?? false,
+      executablePath: browserOptions.executablePath,
+      args: browserOptions.args,
+    });
+
+    const result = await scraper.scrape(loginOptions);
+
+    if (!result.success) {
+      console.error(`[${label}] Scrape failed:`, result.errorType, result.errorMessage);
+      return {
+        success: false,
+        errorType: result.errorType,
+        errorMessage: result.errorMessage || `Scrape failed: ${result.errorType}`,
+      };
+    }
+
+    console.log(`[${label}] Scrape successful, accounts:`, result.accounts?.length || 0);
+
+    // Map the accounts to our format
+    const accounts: ScrapedAccount[] = (result.accounts || []).map((acc) => ({
+      accountNumber: acc.accountNumber,
+      balance: acc.balance,
+      txns: acc.txns.map((txn) => ({
+        type: txn.type === 'installments' ? 'installments' : 'normal',
+        identifier: txn.identifier,
+        date: txn.date,
+        processedDate: txn.processedDate,
+        originalAmount: txn.originalAmount,
+        originalCurrency: txn.originalCurrency,
+        chargedAmount: txn.chargedAmount,
+        chargedCurrency: txn.chargedCurrency,
+        description: txn.description,
+        memo: txn.memo,
+        category: txn.category, // Card issuers report the merchant's sector
+        installments: txn.installments,
+        status: txn.status === 'pending' ? 'pending' : 'completed',
+      })),
+    }));
+
+    return {
+      success: true,
+      accounts,
+    };
+  } catch (error) {
+    console.error(`[${label}] Scrape exception:`, error);
+    const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+
+    return {
+      success: false,
+      errorType: 'EXCEPTION',
+      errorMessage: `${label} scrape failed: ${errorMessage}`,
+    };
+  }
+}
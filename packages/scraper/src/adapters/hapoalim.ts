@@ -0,0 +1,39 @@
+import { CompanyTypes } from 'israeli-bank-scrapers';
+import {
+  type CredentialField,
+  type HapoalimCredentials,
+  type ScrapeResult,
+  hapoalimCredentialsSchema,
+} from '../types';
+import type { ScraperAdapter } from './base';
+import { registerAdapter } from './base';
+import { scrapeCompany } from './company-scraper';
+
+/**
+ * Bank Hapoalim Adapter
+ * Uses the online banking user code + password
+ */
+class HapoalimAdapter implements ScraperAdapter {
+  readonly provider = 'hapoalim' as const;
+  readonly displayName = 'Bank Hapoalim';
+  readonly kind = 'bank' as const;
+  readonly requiresTwoFactor = false;
+  readonly credentialsSchema = hapoalimCredentialsSchema;
+  readonly credentialFields: CredentialField[] = [
+    { name: 'userCode', label: 'User Code', type: 'text', placeholder: 'AB12345' },
+    { name: 'password', label: 'Password', type: 'password' },
+  ];
+
+  async scrape(startDate: Date, credentials: object): Promise<ScrapeResult> {
+    const creds = credentials as HapoalimCredentials;
+    return scrapeCompany(CompanyTypes.hapoalim, 'Bank Hapoalim', startDate, {
+      userCode: creds.userCode,
+      password: creds.password,
+    });
+  }
+}
+
+// Register the adapter
+registerAdapter(new HapoalimAdapter());
+
+export { HapoalimAdapter };
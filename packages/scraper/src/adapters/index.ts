@@ -4,12 +4,25 @@ export {
   scraperAdapters,
   registerAdapter,
   getAdapter,
+  getProviderMetadata,
+  listProviders,
 } from './base';
 
 // Import adapters to register them
 import './onezero';
 import './isracard';
+import './leumi';
+import './hapoalim';
+import './max';
+import './cal';
 
 // Export adapter classes for direct use if needed
 export { OneZeroAdapter } from './onezero';
 export { IsracardAdapter } from './isracard';
+export { LeumiAdapter } from './leumi';
+export { HapoalimAdapter } from './hapoalim';
+export { MaxAdapter } from './max';
+export { CalAdapter } from './cal';
+
+// Not registered: replays a recorded scrape when passed to a sync
+export { ReplayAdapter } from './replay';
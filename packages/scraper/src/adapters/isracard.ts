@@ -1,6 +1,12 @@
 import { CompanyTypes, createScraper } from 'israeli-bank-scrapers';
 import { getScraperBrowserOptions } from '../chromium-config';
-import type { IsraCardCredentials, ScrapeResult, ScrapedAccount } from '../types';
+import {
+  type CredentialField,
+  type IsraCardCredentials,
+  type ScrapeResult,
+  type ScrapedAccount,
+  israCardCredentialsSchema,
+} from '../types';
 import type { ScraperAdapter } from './base';
 import { registerAdapter } from './base';
 
@@ -11,7 +17,20 @@ import { registerAdapter } from './base';
 class IsracardAdapter implements ScraperAdapter {
   readonly provider = 'isracard' as const;
   readonly displayName = 'Isracard';
+  readonly kind = 'credit_card' as const;
   readonly requiresTwoFactor = false;
+  readonly credentialsSchema = israCardCredentialsSchema;
+  readonly credentialFields: CredentialField[] = [
+    { name: 'id', label: 'ID Number', type: 'text', placeholder: '123456789' },
+    {
+      name: 'card6Digits',
+      label: 'Last 6 Digits of Card',
+      type: 'text',
+      placeholder: '123456',
+      maxLength: 6,
+    },
+    { name: 'password', label: 'Password', type: 'password' },
+  ];
 
   async scrape(startDate: Date, credentials: object): Promise<ScrapeResult> {
     const creds = credentials as IsraCardCredentials;
@@ -0,0 +1,39 @@
+import { CompanyTypes } from 'israeli-bank-scrapers';
+import {
+  type CredentialField,
+  type LeumiCredentials,
+  type ScrapeResult,
+  leumiCredentialsSchema,
+} from '../types';
+import type { ScraperAdapter } from './base';
+import { registerAdapter } from './base';
+import { scrapeCompany } from './company-scraper';
+
+/**
+ * Bank Leumi Adapter
+ * Uses the online banking username + password
+ */
+class LeumiAdapter implements ScraperAdapter {
+  readonly provider = 'leumi' as const;
+  readonly displayName = 'Bank Leumi';
+  readonly kind = 'bank' as const;
+  readonly requiresTwoFactor = false;
+  readonly credentialsSchema = leumiCredentialsSchema;
+  readonly credentialFields: CredentialField[] = [
+    { name: 'username', label: 'Username', type: 'text' },
+    { name: 'password', label: 'Password', type: 'password' },
+  ];
+
+  async scrape(startDate: Date, credentials: object): Promise<ScrapeResult> {
+    const creds = credentials as LeumiCredentials;
+    return scrapeCompany(CompanyTypes.leumi, 'Bank Leumi', startDate, {
+      username: creds.username,
+      password: creds.password,
+    });
+  }
+}
+
+// Register the adapter
+registerAdapter(new LeumiAdapter());
+
+export { LeumiAdapter };
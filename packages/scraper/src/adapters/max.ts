@@ -0,0 +1,39 @@
+import { CompanyTypes } from 'israeli-bank-scrapers';
+import {
+  type CredentialField,
+  type MaxCredentials,
+  type ScrapeResult,
+  maxCredentialsSchema,
+} from '../types';
+import type { ScraperAdapter } from './base';
+import { registerAdapter } from './base';
+import { scrapeCompany } from './company-scraper';
+
+/**
+ * Max Credit Card Adapter (formerly Leumi Card)
+ * Uses the Max website username + password
+ */
+class MaxAdapter implements ScraperAdapter {
+  readonly provider = 'max' as const;
+  readonly displayName = 'Max';
+  readonly kind = 'credit_card' as const;
+  readonly requiresTwoFactor = false;
+  readonly credentialsSchema = maxCredentialsSchema;
+  readonly credentialFields: CredentialField[] = [
+    { name: 'username', label: 'Username', type: 'text' },
+    { name: 'password', label: 'Password', type: 'password' },
+  ];
+
+  async scrape(startDate: Date, credentials: object): Promise<ScrapeResult> {
+    const creds = credentials as MaxCredentials;
+    return scrapeCompany(CompanyTypes.max, 'Max', startDate, {
+      username: creds.username,
+      password: creds.password,
+    });
+  }
+}
+
+// Register the adapter
+registerAdapter(new MaxAdapter());
+
+export { MaxAdapter };
@@ -1,11 +1,13 @@
 import { CompanyTypes, createScraper } from 'israeli-bank-scrapers';
 import { getScraperBrowserOptions } from '../chromium-config';
-import type {
-  OneZeroCredentials,
-  ScrapeResult,
-  ScrapedAccount,
-  TwoFactorCompleteResult,
-  TwoFactorInitResult,
+import {
+  type CredentialField,
+  type OneZeroCredentials,
+  type ScrapeResult,
+  type ScrapedAccount,
+  type TwoFactorCompleteResult,
+  type TwoFactorInitResult,
+  oneZeroCredentialsSchema,
 } from '../types';
 import type { ScraperAdapter } from './base';
 import { registerAdapter } from './base';
@@ -81,7 +83,20 @@ const validateToken = (token: string): { valid: boolean; reason?: string } => {
 class OneZeroAdapter implements ScraperAdapter {
   readonly provider = 'onezero' as const;
   readonly displayName = 'OneZero Bank';
+  readonly kind = 'bank' as const;
   readonly requiresTwoFactor = true;
+  readonly credentialsSchema = oneZeroCredentialsSchema;
+  readonly credentialFields: CredentialField[] = [
+    { name: 'email', label: 'Email', type: 'email' },
+    { name: 'password', label: 'Password', type: 'password' },
+    {
+      name: 'phoneNumber',
+      label: 'Phone Number',
+      type: 'tel',
+      placeholder: '+972501234567',
+      hint: 'International format or local (0501234567)',
+    },
+  ];
 
   async scrape(
     startDate: Date,
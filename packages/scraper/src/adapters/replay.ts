@@ -0,0 +1,49 @@
+import type { ScrapeFixture, ScrapeResult } from '../types';
+import type { ScraperAdapter } from './base';
+import { getAdapter } from './base';
+
+/**
+ * Replay Adapter
+ * Returns a recorded scrape instead of logging in, so a sync can be reproduced offline.
+ * Not registered: it is passed to a sync explicitly. Metadata comes from the adapter of
+ * the recorded provider, so the replayed sync imports into the same kind of accounts.
+ */
+class ReplayAdapter implements ScraperAdapter {
+  constructor(private readonly fixture: ScrapeFixture) {}
+
+  private get recorded(): ScraperAdapter {
+    return getAdapter(this.fixture.provider);
+  }
+
+  get provider() {
+    return this.fixture.provider;
+  }
+
+  get displayName() {
+    return `${this.recorded.displayName} (replay)`;
+  }
+
+  get kind() {
+    return this.recorded.kind;
+  }
+
+  // Nothing to log in to
+  readonly requiresTwoFactor = false;
+
+  get credentialsSchema() {
+    return this.recorded.credentialsSchema;
+  }
+
+  get credentialFields() {
+    return this.recorded.credentialFields;
+  }
+
+  async scrape(startDate: Date): Promise<ScrapeResult> {
+    console.log(
+      `[Replay] Replaying ${this.fixture.provider} scrape recorded at ${this.fixture.recordedAt} (requested from ${startDate.toISOString()})`
+    );
+    return this.fixture.result;
+  }
+}
+
+export { ReplayAdapter };
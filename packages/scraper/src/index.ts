@@ -1,27 +1,52 @@
 // Main service
 export { ScraperService, scraperService } from './service';
-export type { BankConnectionData, ScraperServiceConfig } from './service';
+export type { BankConnectionData, ScraperServiceConfig, SyncConnectionOptions } from './service';
 
 // Types
 export type {
   BankProvider,
   OneZeroCredentials,
   IsraCardCredentials,
+  LeumiCredentials,
+  HapoalimCredentials,
+  MaxCredentials,
+  CalCredentials,
   ProviderCredentials,
+  ProviderKind,
+  ProviderMetadata,
+  CredentialField,
   ScrapedTransaction,
   ScrapedAccount,
   ScrapeResult,
   MappedTransaction,
+  ScrapedBalance,
   SyncStatus,
+  SyncErrorType,
   SyncResult,
   TwoFactorInitResult,
   TwoFactorCompleteResult,
+  StatementFormat,
+  StatementDateFormat,
+  CsvColumnMapping,
+  StatementParseOptions,
+  StatementParseResult,
+  StatementRowError,
+  ScrapeFixture,
 } from './types';
 
 export {
   bankProviderSchema,
   oneZeroCredentialsSchema,
   israCardCredentialsSchema,
+  leumiCredentialsSchema,
+  hapoalimCredentialsSchema,
+  maxCredentialsSchema,
+  calCredentialsSchema,
+  statementFormatSchema,
+  statementDateFormatSchema,
+  csvColumnMappingSchema,
+  scrapeFixtureSchema,
+  SYNC_ERROR_TYPES,
 } from './types';
 
 // Encryption utilities
@@ -33,14 +58,34 @@ export {
 } from './encryption';
 
 // Adapters (registers them on import)
-export { getAdapter, scraperAdapters } from './adapters';
+export {
+  getAdapter,
+  getProviderMetadata,
+  listProviders,
+  scraperAdapters,
+  ReplayAdapter,
+} from './adapters';
 export type { ScraperAdapter } from './adapters';
 
 // Utilities
 export {
   mapTransaction,
   mapAccountTransactions,
+  mapAccountBalances,
   generateTransactionHash,
   filterNewTransactions,
   groupByAccount,
+  sanitizeScrapeResult,
+  createScrapeFixture,
+  parseScrapeFixture,
+  classifyScrapeError,
 } from './utils';
+
+// Statement file import (CSV / OFX / QIF)
+export {
+  parseStatement,
+  parseCsvRows,
+  parseCsvStatement,
+  parseOfxStatement,
+  parseQifStatement,
+} from './statements';
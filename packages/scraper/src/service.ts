@@ -1,15 +1,21 @@
-import { getAdapter } from './adapters';
+import { ReplayAdapter, getAdapter, getProviderMetadata, listProviders } from './adapters';
 import { decryptCredentials, decryptToken, encryptCredentials, encryptToken } from './encryption';
 import type {
   BankProvider,
   MappedTransaction,
   ProviderCredentials,
+  ProviderMetadata,
+  ScrapeFixture,
+  ScrapeResult,
+  ScrapedBalance,
   SyncResult,
   TwoFactorCompleteResult,
   TwoFactorInitResult,
 } from './types';
 import { filterNewTransactions } from './utils/deduplication';
-import { mapAccountTransactions } from './utils/transaction-mapper';
+import { classifyScrapeError } from './utils/errors';
+import { createScrapeFixture } from './utils/fixtures';
+import { mapAccountBalances, mapAccountTransactions } from './utils/transaction-mapper';
 
 export interface BankConnectionData {
   id: string;
@@ -18,6 +24,13 @@ export interface BankConnectionData {
   longTermToken: string | null;
 }
 
+export interface SyncConnectionOptions {
+  /** Receives every scrape as a sanitized fixture, failed ones included */
+  record?: (fixture: ScrapeFixture) => void | Promise<void>;
+  /** Replay this fixture instead of scraping; credentials are not decrypted */
+  replay?: ScrapeFixture;
+}
+
 export interface ScraperServiceConfig {
   /** Default number of days to look back for transactions */
   defaultLookbackDays?: number;
@@ -68,37 +81,59 @@ export class ScraperService {
    * @param connection - The bank connection data
    * @param existingExternalIds - Set of external IDs already in the database
    * @param startDate - Optional start date (defaults to lookback days)
+   * @param options - Record the scrape as a fixture, or replay one instead of scraping
    */
   async syncConnection(
     connection: BankConnectionData,
     existingExternalIds: Set<string>,
-    startDate?: Date
-  ): Promise<{ result: SyncResult; transactions: MappedTransaction[] }> {
+    startDate?: Date,
+    options: SyncConnectionOptions = {}
+  ): Promise<{
+    result: SyncResult;
+    transactions: MappedTransaction[];
+    balances: ScrapedBalance[];
+  }> {
     console.log(
       `[ScraperService] Starting sync for connection ${connection.id} (${connection.provider})`
     );
 
-    const adapter = getAdapter(connection.provider);
-    const credentials = this.decryptCredentials(connection.encryptedCreds);
-
     const effectiveStartDate = startDate ?? this.getDefaultStartDate();
     console.log(`[ScraperService] Effective start date: ${effectiveStartDate.toISOString()}`);
 
-    // Decrypt long-term token if present
-    const longTermToken = connection.longTermToken
-      ? this.decryptToken(connection.longTermToken)
-      : undefined;
+    let scrapeResult: ScrapeResult;
+    if (options.replay) {
+      scrapeResult = await new ReplayAdapter(options.replay).scrape(effectiveStartDate);
+    } else {
+      const adapter = getAdapter(connection.provider);
+      const credentials = this.decryptCredentials(connection.encryptedCreds);
+
+      // Decrypt long-term token if present
+      const longTermToken = connection.longTermToken
+        ? this.decryptToken(connection.longTermToken)
+        : undefined;
 
-    console.log(`[ScraperService] Has long-term token: ${!!longTermToken}`);
+      console.log(`[ScraperService] Has long-term token: ${!!longTermToken}`);
 
-    // Perform the scrape
-    console.log('[ScraperService] Calling adapter.scrape()...');
-    const scrapeResult = await adapter.scrape(effectiveStartDate, credentials, longTermToken);
+      // Perform the scrape
+      console.log('[ScraperService] Calling adapter.scrape()...');
+      scrapeResult = await adapter.scrape(effectiveStartDate, credentials, longTermToken);
+    }
 
     console.log(
       `[ScraperService] Scrape result: success=${scrapeResult.success}, accounts=${scrapeResult.accounts?.length || 0}`
     );
 
+    // A failed recording must not fail the sync
+    if (options.record && !options.replay) {
+      try {
+        await options.record(
+          createScrapeFixture(connection.provider, effectiveStartDate, scrapeResult)
+        );
+      } catch (error) {
+        console.error('[ScraperService] Failed to record scrape fixture:', error);
+      }
+    }
+
     if (!scrapeResult.success || !scrapeResult.accounts) {
       console.error(
         `[ScraperService] Scrape failed: ${scrapeResult.errorMessage} (type: ${scrapeResult.errorType})`
@@ -108,10 +143,11 @@ export class ScraperService {
           success: false,
           transactionsFound: 0,
           transactionsNew: 0,
-          errorType: scrapeResult.errorType,
+          errorType: classifyScrapeError(scrapeResult.errorType, scrapeResult.errorMessage),
           errorMessage: scrapeResult.errorMessage || 'Unknown scrape error',
         },
         transactions: [],
+        balances: [],
       };
     }
 
@@ -158,6 +194,7 @@ export class ScraperService {
         transactionsNew: newTransactions.length,
       },
       transactions: newTransactions,
+      balances: mapAccountBalances(scrapeResult.accounts),
     };
   }
 
@@ -218,6 +255,27 @@ export class ScraperService {
     return adapter.displayName;
   }
 
+  /**
+   * List the registered providers with their connection form fields
+   */
+  listProviders(): ProviderMetadata[] {
+    return listProviders();
+  }
+
+  /**
+   * Get a provider's metadata (name, kind, 2FA, credential fields)
+   */
+  getProviderMetadata(provider: BankProvider): ProviderMetadata {
+    return getProviderMetadata(getAdapter(provider));
+  }
+
+  /**
+   * Validate credentials entered for a provider against its adapter's schema
+   */
+  parseCredentials(provider: BankProvider, credentials: unknown) {
+    return getAdapter(provider).credentialsSchema.safeParse(credentials);
+  }
+
   /**
    * Get the default start date based on lookback days
    */
@@ -0,0 +1,128 @@
+import type { MappedTransaction, StatementDateFormat } from '../types';
+import { toIsraelDate } from '../utils/dates';
+import { generateTransactionHash } from '../utils/deduplication';
+import { extractMerchant } from '../utils/transaction-mapper';
+
+/**
+ * Parse an amount as written in bank statements
+ * Handles currency symbols, thousands separators, "(100)" and trailing-minus negatives
+ * @returns Signed amount, or null if the value is not a number
+ */
+export function parseStatementAmount(raw: string): number | null {
+  let value = raw
+    .trim()
+    .replace(/[₪$€£\s]/g, '')
+    .replace(/ILS|NIS|USD|EUR/gi, '');
+  if (!value) return null;
+
+  let negative = false;
+  if (/^\(.*\)$/.test(value)) {
+    negative = true;
+    value = value.slice(1, -1);
+  }
+  if (value.endsWith('-')) {
+    negative = true;
+    value = value.slice(0, -1);
+  }
+  value = value.replace(/^−/, '-'); // Unicode minus sign
+
+  // "1.234,56" (European) vs "1,234.56" - the last separator is the decimal point
+  if (value.includes(',') && value.includes('.')) {
+    value =
+      value.lastIndexOf(',') > value.lastIndexOf('.')
+        ? value.replace(/\./g, '').replace(',', '.')
+        : value.replace(/,/g, '');
+  } else if (/,\d{1,2}$/.test(value)) {
+    value = value.replace(',', '.');
+  } else {
+    value = value.replace(/,/g, '');
+  }
+
+  if (!/^[-+]?\d+(\.\d+)?$/.test(value)) return null;
+
+  const amount = Number.parseFloat(value);
+  return negative ? -Math.abs(amount) : amount;
+}
+
+/**
+ * Parse a statement date in the given field order
+ * Accepts "/", "-", "." or "'" as separators and 2-digit years
+ * Dates are created at midnight Israel time, matching scraped transactions
+ */
+export function parseStatementDate(raw: string, format: StatementDateFormat): Date | null {
+  const parts = raw
+    .trim()
+    .split(/[/\-.' ]+/)
+    .filter(Boolean);
+  if (parts.length < 3) return null;
+
+  const [a, b, c] = parts.map((p) => Number.parseInt(p, 10)) as [number, number, number];
+  if ([a, b, c].some((n) => Number.isNaN(n))) return null;
+
+  let year: number;
+  let month: number;
+  let day: number;
+  if (format === 'YYYY-MM-DD' || parts[0]!.length === 4) {
+    [year, month, day] = [a, b, c];
+  } else if (format === 'MM/DD/YYYY') {
+    [month, day, year] = [a, b, c];
+  } else {
+    [day, month, year] = [a, b, c];
+  }
+  if (year < 100) year += 2000;
+
+  if (month < 1 || month > 12 || day < 1 || day > 31) return null;
+
+  return toIsraelDate(year, month, day);
+}
+
+/**
+ * Build a mapped transaction from a parsed statement row
+ * @param signedAmount - Negative for money going out
+ * @param fileId - Identifier from the file itself (e.g. OFX FITID), if any
+ */
+export function buildStatementTransaction(row: {
+  accountId: string;
+  date: Date;
+  signedAmount: number;
+  description: string;
+  memo?: string | null;
+  fileId?: string | null;
+}): MappedTransaction {
+  const description = row.description.trim();
+  return {
+    externalId: row.fileId ? `${row.accountId}_${row.fileId}` : '',
+    date: row.date,
+    description,
+    merchant: extractMerchant(description),
+    amount: Math.abs(row.signedAmount),
+    direction: row.signedAmount >= 0 ? 'income' : 'expense',
+    notes: row.memo?.trim() || null,
+    externalAccountId: row.accountId,
+  };
+}
+
+/**
+ * Fill in external IDs for rows the file did not identify
+ * Uses generateTransactionHash; identical rows within the same file get an occurrence
+ * suffix so both are kept, while re-importing the same file still yields the same IDs
+ */
+export function assignStatementExternalIds(transactions: MappedTransaction[]): MappedTransaction[] {
+  const occurrences = new Map<string, number>();
+
+  return transactions.map((txn) => {
+    if (txn.externalId) return txn;
+
+    const hash = generateTransactionHash(txn);
+    const count = (occurrences.get(hash) ?? 0) + 1;
+    occurrences.set(hash, count);
+
+    return {
+      ...txn,
+      externalId:
+        count === 1
+          ? `${txn.externalAccountId}_${hash}`
+          : `${txn.externalAccountId}_${hash}_${count}`,
+    };
+  });
+}
@@ -0,0 +1,169 @@
+import type {
+  CsvColumnMapping,
+  MappedTransaction,
+  StatementParseResult,
+  StatementRowError,
+} from '../types';
+import {
+  assignStatementExternalIds,
+  buildStatementTransaction,
+  parseStatementAmount,
+  parseStatementDate,
+} from './common';
+
+/**
+ * Split CSV content into rows of fields
+ * Supports quoted fields with embedded delimiters, newlines and "" escapes
+ */
+export function parseCsvRows(content: string, delimiter = ','): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let inQuotes = false;
+
+  // Strip the BOM that Excel adds to UTF-8 exports
+  const text = content.replace(/^﻿/, '');
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (inQuotes) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        field += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = '';
+    } else if (char === '\n' || char === '\r') {
+      if (char === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += char;
+    }
+  }
+
+  if (field !== '' || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows;
+}
+
+/**
+ * Parse a CSV bank statement using a column mapping
+ */
+export function parseCsvStatement(
+  content: string,
+  mapping: CsvColumnMapping,
+  accountId: string
+): StatementParseResult {
+  const rows = parseCsvRows(content, mapping.delimiter).slice(mapping.skipRows);
+  const errors: StatementRowError[] = [];
+
+  let headers: string[] = [];
+  let firstDataRow = 0;
+  if (mapping.hasHeader) {
+    headers = (rows[0] ?? []).map((h) => h.trim());
+    firstDataRow = 1;
+  }
+
+  // Resolve mapped columns to indexes
+  const resolve = (column: string | number | undefined): number | undefined => {
+    if (column === undefined) return undefined;
+    if (typeof column === 'number') return column;
+    const index = headers.indexOf(column.trim());
+    return index >= 0 ? index : undefined;
+  };
+
+  const columns = {
+    date: resolve(mapping.date),
+    description: resolve(mapping.description),
+    amount: resolve(mapping.amount),
+    debit: resolve(mapping.debit),
+    credit: resolve(mapping.credit),
+    memo: resolve(mapping.memo),
+  };
+
+  const missing: string[] = [];
+  if (columns.date === undefined) missing.push('date');
+  if (columns.description === undefined) missing.push('description');
+  if (columns.amount === undefined && columns.debit === undefined && columns.credit === undefined) {
+    missing.push('amount');
+  }
+  if (missing.length > 0) {
+    errors.push({
+      row: mapping.skipRows + 1,
+      raw: headers.join(mapping.delimiter),
+      reason: `Mapped column(s) not found in file: ${missing.join(', ')}`,
+    });
+    return { transactions: [], errors };
+  }
+
+  const transactions: MappedTransaction[] = [];
+
+  for (let i = firstDataRow; i < rows.length; i++) {
+    const fields = rows[i]!;
+    const lineNumber = mapping.skipRows + i + 1;
+    const raw = fields.join(mapping.delimiter);
+
+    // Skip blank lines and summary rows that have no date
+    if (fields.every((f) => f.trim() === '')) continue;
+
+    const get = (index: number | undefined) => (index === undefined ? '' : (fields[index] ?? ''));
+
+    const date = parseStatementDate(get(columns.date), mapping.dateFormat);
+    if (!date) {
+      errors.push({ row: lineNumber, raw, reason: `Invalid date "${get(columns.date)}"` });
+      continue;
+    }
+
+    let signedAmount: number | null;
+    if (columns.amount !== undefined) {
+      signedAmount = parseStatementAmount(get(columns.amount));
+    } else {
+      // Separate debit/credit columns: one of them is filled per row
+      const debit = parseStatementAmount(get(columns.debit));
+      const credit = parseStatementAmount(get(columns.credit));
+      signedAmount =
+        debit === null && credit === null ? null : (credit ?? 0) - Math.abs(debit ?? 0);
+    }
+
+    if (signedAmount === null || signedAmount === 0) {
+      errors.push({ row: lineNumber, raw, reason: 'Missing or invalid amount' });
+      continue;
+    }
+    if (mapping.invertAmounts) signedAmount = -signedAmount;
+
+    const description = get(columns.description).trim();
+    if (!description) {
+      errors.push({ row: lineNumber, raw, reason: 'Missing description' });
+      continue;
+    }
+
+    transactions.push(
+      buildStatementTransaction({
+        accountId,
+        date,
+        signedAmount,
+        description,
+        memo: get(columns.memo),
+      })
+    );
+  }
+
+  return { transactions: assignStatementExternalIds(transactions), errors };
+}
@@ -0,0 +1,31 @@
+import type { StatementFormat, StatementParseOptions, StatementParseResult } from '../types';
+import { parseCsvStatement } from './csv';
+import { parseOfxStatement } from './ofx';
+import { parseQifStatement } from './qif';
+
+export { parseCsvRows, parseCsvStatement } from './csv';
+export { parseOfxStatement } from './ofx';
+export { parseQifStatement } from './qif';
+export { parseStatementAmount, parseStatementDate } from './common';
+
+/**
+ * Parse a bank statement file into mapped transactions
+ * Rows that cannot be parsed are returned as errors instead of failing the whole file
+ */
+export function parseStatement(
+  format: StatementFormat,
+  content: string,
+  options: StatementParseOptions
+): StatementParseResult {
+  switch (format) {
+    case 'csv':
+      if (!options.csvMapping) {
+        throw new Error('CSV import requires a column mapping');
+      }
+      return parseCsvStatement(content, options.csvMapping, options.accountId);
+    case 'ofx':
+      return parseOfxStatement(content, options.accountId);
+    case 'qif':
+      return parseQifStatement(content, options.accountId, options.dateFormat);
+  }
+}
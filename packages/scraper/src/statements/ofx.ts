@@ -0,0 +1,91 @@
+import type { MappedTransaction, StatementParseResult, StatementRowError } from '../types';
+import { toIsraelDate } from '../utils/dates';
+import {
+  assignStatementExternalIds,
+  buildStatementTransaction,
+  parseStatementAmount,
+} from './common';
+
+/**
+ * Read a tag value from an OFX block
+ * Works for both SGML (OFX 1.x, no closing tags) and XML (OFX 2.x)
+ */
+function readTag(block: string, tag: string): string | null {
+  const match = block.match(new RegExp(`<${tag}>([^<\\r\\n]*)`, 'i'));
+  return match?.[1]?.trim() || null;
+}
+
+/**
+ * Parse an OFX date (YYYYMMDD[HHMMSS[.XXX]][[TZ]])
+ */
+function parseOfxDate(raw: string): Date | null {
+  const match = raw.match(/^(\d{4})(\d{2})(\d{2})/);
+  if (!match) return null;
+  return toIsraelDate(Number(match[1]), Number(match[2]), Number(match[3]));
+}
+
+/**
+ * Parse an OFX/QFX bank or credit card statement
+ * FITID is used as the transaction's external ID when present
+ */
+export function parseOfxStatement(content: string, accountId: string): StatementParseResult {
+  const errors: StatementRowError[] = [];
+  const transactions: MappedTransaction[] = [];
+
+  const blocks = content.match(/<STMTTRN>[\s\S]*?(?=<\/STMTTRN>|<STMTTRN>|<\/BANKTRANLIST>)/gi);
+  if (!blocks) {
+    return {
+      transactions: [],
+      errors: [{ row: 0, raw: '', reason: 'No transactions found (missing <STMTTRN> entries)' }],
+    };
+  }
+
+  blocks.forEach((block, index) => {
+    const row = index + 1;
+    const raw = block.replace(/\s+/g, ' ').trim().substring(0, 200);
+
+    const postedRaw = readTag(block, 'DTPOSTED') ?? readTag(block, 'DTUSER');
+    const date = postedRaw ? parseOfxDate(postedRaw) : null;
+    if (!date) {
+      errors.push({ row, raw, reason: 'Missing or invalid DTPOSTED' });
+      return;
+    }
+
+    const amountRaw = readTag(block, 'TRNAMT');
+    const signedAmount = amountRaw ? parseStatementAmount(amountRaw) : null;
+    if (signedAmount === null || signedAmount === 0) {
+      errors.push({ row, raw, reason: 'Missing or invalid TRNAMT' });
+      return;
+    }
+
+    const name = readTag(block, 'NAME') ?? readTag(block, 'PAYEE');
+    const memo = readTag(block, 'MEMO');
+    const description = name ?? memo;
+    if (!description) {
+      errors.push({ row, raw, reason: 'Missing NAME/MEMO' });
+      return;
+    }
+
+    transactions.push(
+      buildStatementTransaction({
+        accountId,
+        date,
+        signedAmount,
+        description: decodeEntities(description),
+        memo: name && memo && memo !== name ? decodeEntities(memo) : null,
+        fileId: readTag(block, 'FITID'),
+      })
+    );
+  });
+
+  return { transactions: assignStatementExternalIds(transactions), errors };
+}
+
+function decodeEntities(value: string): string {
+  return value
+    .replace(/&lt;/g, '<')
+    .replace(/&gt;/g, '>')
+    .replace(/&quot;/g, '"')
+    .replace(/&apos;/g, "'")
+    .replace(/&amp;/g, '&');
+}
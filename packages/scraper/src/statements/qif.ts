@@ -0,0 +1,84 @@
+import type {
+  MappedTransaction,
+  StatementDateFormat,
+  StatementParseResult,
+  StatementRowError,
+} from '../types';
+import {
+  assignStatementExternalIds,
+  buildStatementTransaction,
+  parseStatementAmount,
+  parseStatementDate,
+} from './common';
+
+/**
+ * Parse a QIF bank or credit card statement
+ * Records are terminated by "^"; D = date, T/U = amount, P = payee, M = memo
+ */
+export function parseQifStatement(
+  content: string,
+  accountId: string,
+  dateFormat: StatementDateFormat = 'DD/MM/YYYY'
+): StatementParseResult {
+  const errors: StatementRowError[] = [];
+  const transactions: MappedTransaction[] = [];
+
+  const lines = content.replace(/^﻿/, '').split(/\r?\n/);
+  let record: Record<string, string> = {};
+  let recordLines: string[] = [];
+  let recordNumber = 0;
+
+  const flush = () => {
+    if (recordLines.length === 0) return;
+    recordNumber++;
+    const raw = recordLines.join(' | ');
+
+    const date = record.D ? parseStatementDate(record.D, dateFormat) : null;
+    const amountRaw = record.T ?? record.U;
+    const signedAmount = amountRaw ? parseStatementAmount(amountRaw) : null;
+    const description = record.P ?? record.M;
+
+    if (!date) {
+      errors.push({ row: recordNumber, raw, reason: `Invalid date "${record.D ?? ''}"` });
+    } else if (signedAmount === null || signedAmount === 0) {
+      errors.push({ row: recordNumber, raw, reason: 'Missing or invalid amount' });
+    } else if (!description) {
+      errors.push({ row: recordNumber, raw, reason: 'Missing payee/memo' });
+    } else {
+      transactions.push(
+        buildStatementTransaction({
+          accountId,
+          date,
+          signedAmount,
+          description,
+          memo: record.P && record.M ? record.M : null,
+        })
+      );
+    }
+
+    record = {};
+    recordLines = [];
+  };
+
+  for (const line of lines) {
+    const trimmed = line.trim();
+    if (!trimmed || trimmed.startsWith('!')) continue;
+
+    if (trimmed === '^') {
+      flush();
+      continue;
+    }
+
+    const code = trimmed[0]!;
+    // Keep the first value per code (split lines repeat S/E/$)
+    if (record[code] === undefined) {
+      record[code] = trimmed.substring(1).trim();
+    }
+    recordLines.push(trimmed);
+  }
+
+  // Files that omit the final "^"
+  flush();
+
+  return { transactions: assignStatementExternalIds(transactions), errors };
+}
@@ -4,9 +4,46 @@ import { z } from 'zod';
 // Provider Types
 // ============================================
 
-export type BankProvider = 'onezero' | 'isracard';
+export type BankProvider = 'onezero' | 'isracard' | 'leumi' | 'hapoalim' | 'max' | 'cal';
 
-export const bankProviderSchema = z.enum(['onezero', 'isracard']);
+export const bankProviderSchema = z.enum([
+  'onezero',
+  'isracard',
+  'leumi',
+  'hapoalim',
+  'max',
+  'cal',
+]);
+
+/**
+ * What a provider holds: bank accounts or credit cards
+ * Decides the type of the accounts created for its imported transactions
+ */
+export type ProviderKind = 'bank' | 'credit_card';
+
+/**
+ * One input of a provider's connection form
+ * The form is rendered from these; the adapter's credentials schema validates the result
+ */
+export interface CredentialField {
+  name: string;
+  label: string;
+  type: 'text' | 'password' | 'email' | 'tel';
+  placeholder?: string;
+  hint?: string;
+  maxLength?: number;
+}
+
+/**
+ * Serializable description of a provider, for listing and rendering forms
+ */
+export interface ProviderMetadata {
+  id: BankProvider;
+  name: string;
+  kind: ProviderKind;
+  requiresTwoFactor: boolean;
+  credentialFields: CredentialField[];
+}
 
 // ============================================
 // Credential Schemas
@@ -24,10 +61,40 @@ export const israCardCredentialsSchema = z.object({
   password: z.string().min(1),
 });
 
+export const leumiCredentialsSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const hapoalimCredentialsSchema = z.object({
+  userCode: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const maxCredentialsSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
+export const calCredentialsSchema = z.object({
+  username: z.string().min(1),
+  password: z.string().min(1),
+});
+
 export type OneZeroCredentials = z.infer<typeof oneZeroCredentialsSchema>;
 export type IsraCardCredentials = z.infer<typeof israCardCredentialsSchema>;
+export type LeumiCredentials = z.infer<typeof leumiCredentialsSchema>;
+export type HapoalimCredentials = z.infer<typeof hapoalimCredentialsSchema>;
+export type MaxCredentials = z.infer<typeof maxCredentialsSchema>;
+export type CalCredentials = z.infer<typeof calCredentialsSchema>;
 
-export type ProviderCredentials = OneZeroCredentials | IsraCardCredentials;
+export type ProviderCredentials =
+  | OneZeroCredentials
+  | IsraCardCredentials
+  | LeumiCredentials
+  | HapoalimCredentials
+  | MaxCredentials
+  | CalCredentials;
 
 // ============================================
 // Scraper Transaction (from israeli-bank-scrapers)
@@ -79,6 +146,89 @@ export interface MappedTransaction {
   notes: string | null;
   externalAccountId: string;
   externalCategory?: string; // Sector/category from bank (e.g., Isracard)
+  originalAmount?: number | null; // Absolute amount in the merchant's currency
+  originalCurrency?: string | null; // Set only when it differs from the charged currency
+  isPending?: boolean; // Not yet settled by the bank; may change amount or date
+  installment?: MappedInstallment | null; // Set for payments of an installment purchase
+}
+
+/**
+ * An account's balance as the bank reported it on a scrape
+ */
+export interface ScrapedBalance {
+  externalAccountId: string;
+  balance: number;
+}
+
+/**
+ * Installment info for one payment of a purchase paid in installments
+ * All payments of the same purchase share a planKey
+ */
+export interface MappedInstallment {
+  planKey: string;
+  number: number;
+  total: number;
+  totalAmount: number; // Total purchase amount
+  purchaseDate: Date;
+  firstPaymentDate: Date;
+}
+
+// ============================================
+// Statement Import Types (CSV / OFX / QIF files)
+// ============================================
+
+export type StatementFormat = 'csv' | 'ofx' | 'qif';
+
+export const statementFormatSchema = z.enum(['csv', 'ofx', 'qif']);
+
+export type StatementDateFormat = 'DD/MM/YYYY' | 'MM/DD/YYYY' | 'YYYY-MM-DD';
+
+export const statementDateFormatSchema = z.enum(['DD/MM/YYYY', 'MM/DD/YYYY', 'YYYY-MM-DD']);
+
+/**
+ * Column mapping for a bank's CSV export
+ * Columns are referenced by header name, or by 0-based index when the file has no header
+ */
+export const csvColumnMappingSchema = z
+  .object({
+    delimiter: z.string().length(1).default(','),
+    hasHeader: z.boolean().default(true),
+    skipRows: z.number().int().min(0).default(0), // Preamble lines before the header
+    dateFormat: statementDateFormatSchema.default('DD/MM/YYYY'),
+    date: z.union([z.string().min(1), z.number().int().min(0)]),
+    description: z.union([z.string().min(1), z.number().int().min(0)]),
+    // Either a signed amount column, or separate debit/credit columns
+    amount: z.union([z.string().min(1), z.number().int().min(0)]).optional(),
+    debit: z.union([z.string().min(1), z.number().int().min(0)]).optional(),
+    credit: z.union([z.string().min(1), z.number().int().min(0)]).optional(),
+    memo: z.union([z.string().min(1), z.number().int().min(0)]).optional(),
+    // Credit card exports list charges as positive numbers
+    invertAmounts: z.boolean().default(false),
+  })
+  .refine((m) => m.amount !== undefined || m.debit !== undefined || m.credit !== undefined, {
+    message: 'Map either an amount column or debit/credit columns',
+  });
+
+export type CsvColumnMapping = z.infer<typeof csvColumnMappingSchema>;
+
+export interface StatementParseOptions {
+  /** Used as externalAccountId for every parsed transaction */
+  accountId: string;
+  /** Required for CSV */
+  csvMapping?: CsvColumnMapping;
+  /** Date order for CSV and QIF (OFX dates are unambiguous) */
+  dateFormat?: StatementDateFormat;
+}
+
+export interface StatementRowError {
+  row: number; // 1-based line/record number in the file
+  raw: string;
+  reason: string;
+}
+
+export interface StatementParseResult {
+  transactions: MappedTransaction[];
+  errors: StatementRowError[];
 }
 
 // ============================================
@@ -87,11 +237,31 @@ export interface MappedTransaction {
 
 export type SyncStatus = 'pending' | 'running' | 'success' | 'error';
 
+/**
+ * Why a sync failed, each with its own way to recover
+ * - INVALID_CREDENTIALS: the bank rejected the login; the user updates the saved credentials
+ * - TOKEN_EXPIRED: the 2FA token is missing or expired; the user completes 2FA again
+ * - ACCOUNT_BLOCKED: the bank blocked the account; only the bank can unblock it
+ * - CHANGE_PASSWORD: the bank demands a new password before logging in
+ * - TIMEOUT: the bank's site didn't respond in time; retried automatically
+ * - GENERIC: anything else, e.g. the bank's site changed; retried automatically
+ */
+export const SYNC_ERROR_TYPES = [
+  'INVALID_CREDENTIALS',
+  'TOKEN_EXPIRED',
+  'ACCOUNT_BLOCKED',
+  'CHANGE_PASSWORD',
+  'TIMEOUT',
+  'GENERIC',
+] as const;
+
+export type SyncErrorType = (typeof SYNC_ERROR_TYPES)[number];
+
 export interface SyncResult {
   success: boolean;
   transactionsFound: number;
   transactionsNew: number;
-  errorType?: string;
+  errorType?: SyncErrorType;
   errorMessage?: string;
 }
 
@@ -110,3 +280,50 @@ export interface TwoFactorCompleteResult {
   longTermToken?: string;
   errorMessage?: string;
 }
+
+// ============================================
+// Scrape Fixture Types (record / replay)
+// ============================================
+
+const scrapedTransactionSchema = z.object({
+  type: z.enum(['normal', 'installments']),
+  identifier: z.union([z.string(), z.number()]).optional(),
+  date: z.string(),
+  processedDate: z.string(),
+  originalAmount: z.number(),
+  originalCurrency: z.string(),
+  chargedAmount: z.number(),
+  chargedCurrency: z.string().optional(),
+  description: z.string(),
+  memo: z.string().optional(),
+  category: z.string().optional(),
+  installments: z.object({ number: z.number(), total: z.number() }).optional(),
+  status: z.enum(['completed', 'pending']),
+});
+
+/**
+ * A recorded scrape, saved by a sync and replayed offline
+ * Account numbers and transaction identifiers are hashed; amounts and descriptions are kept
+ */
+export const scrapeFixtureSchema = z.object({
+  version: z.literal(1),
+  provider: bankProviderSchema,
+  recordedAt: z.string(),
+  startDate: z.string(),
+  result: z.object({
+    success: z.boolean(),
+    accounts: z
+      .array(
+        z.object({
+          accountNumber: z.string(),
+          txns: z.array(scrapedTransactionSchema),
+          balance: z.number().optional(),
+        })
+      )
+      .optional(),
+    errorType: z.string().optional(),
+    errorMessage: z.string().optional(),
+  }),
+});
+
+export type ScrapeFixture = z.infer<typeof scrapeFixtureSchema>;
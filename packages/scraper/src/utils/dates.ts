@@ -0,0 +1,43 @@
+const israelClock = new Intl.DateTimeFormat('en-US', {
+  timeZone: 'Asia/Jerusalem',
+  year: 'numeric',
+  month: 'numeric',
+  day: 'numeric',
+  hour: 'numeric',
+  minute: 'numeric',
+  hourCycle: 'h23',
+});
+
+/**
+ * Offset of Israel time from UTC at an instant, in milliseconds
+ * +02:00 in winter, +03:00 during daylight saving time
+ */
+function getIsraelOffset(instant: Date): number {
+  const parts = Object.fromEntries(
+    israelClock.formatToParts(instant).map((part) => [part.type, Number(part.value)])
+  );
+  const wallClock = Date.UTC(parts.year!, parts.month! - 1, parts.day!, parts.hour!, parts.minute!);
+  return wallClock - Math.floor(instant.getTime() / 60_000) * 60_000;
+}
+
+/**
+ * Create a date at midnight Israel time
+ * Bank rows carry a calendar day only; storing every source at the same local midnight keeps
+ * scraped, imported and manual rows for a day comparable
+ */
+export function toIsraelDate(year: number, month: number, day: number): Date | null {
+  const utcMidnight = Date.UTC(year, month - 1, day);
+  if (Number.isNaN(utcMidnight)) return null;
+
+  // Clocks change at 02:00 or later, so the offset two hours before UTC midnight is the
+  // one in force at local midnight
+  return new Date(utcMidnight - getIsraelOffset(new Date(utcMidnight - 2 * 60 * 60 * 1000)));
+}
+
+/**
+ * Midnight Israel time of a YYYY-MM-DD day (any time part is ignored)
+ */
+export function parseIsraelDay(value: string): Date {
+  const [year, month, day] = value.split('T')[0]!.split('-').map(Number);
+  return toIsraelDate(year!, month!, day!) ?? new Date(Number.NaN);
+}
@@ -0,0 +1,29 @@
+import type { SyncErrorType } from '../types';
+
+// israeli-bank-scrapers error types, plus AUTH_REQUIRED and EXCEPTION from our own adapters
+const SCRAPER_ERROR_TYPES: Record<string, SyncErrorType> = {
+  INVALID_PASSWORD: 'INVALID_CREDENTIALS',
+  CHANGE_PASSWORD: 'CHANGE_PASSWORD',
+  ACCOUNT_BLOCKED: 'ACCOUNT_BLOCKED',
+  TIMEOUT: 'TIMEOUT',
+  TWO_FACTOR_RETRIEVER_MISSING: 'TOKEN_EXPIRED',
+  AUTH_REQUIRED: 'TOKEN_EXPIRED',
+};
+
+const TOKEN_ERROR_HINTS = ['idToken', 'expired', 're-authenticate'];
+const TIMEOUT_ERROR_PATTERN = /timeout|timed out|ETIMEDOUT/i;
+
+/**
+ * Classify a failed scrape
+ * The scraper's error type wins; generic errors and exceptions fall back to hints in the message
+ */
+export function classifyScrapeError(errorType?: string, errorMessage?: string): SyncErrorType {
+  const classified = errorType ? SCRAPER_ERROR_TYPES[errorType] : undefined;
+  if (classified) return classified;
+
+  if (errorMessage) {
+    if (TOKEN_ERROR_HINTS.some((hint) => errorMessage.includes(hint))) return 'TOKEN_EXPIRED';
+    if (TIMEOUT_ERROR_PATTERN.test(errorMessage)) return 'TIMEOUT';
+  }
+  return 'GENERIC';
+}
@@ -0,0 +1,62 @@
+import crypto from 'crypto';
+import {
+  type BankProvider,
+  type ScrapeFixture,
+  type ScrapeResult,
+  scrapeFixtureSchema,
+} from '../types';
+
+/**
+ * Hash an identifier so fixtures can't be traced back to a real account
+ * Deterministic, so the same account or transaction keeps the same external ID across
+ * recordings. Hashed IDs match no real account mapping or stored transaction, so a fixture
+ * is only ever dry-run, never imported into a real connection.
+ */
+function hashIdentifier(value: string | number): string {
+  return crypto.createHash('sha256').update(`fixture:${value}`).digest('hex').substring(0, 12);
+}
+
+/**
+ * Strip identifying data from a scrape result
+ * Account numbers and transaction identifiers are hashed; dates, amounts, descriptions,
+ * memos and sectors are kept because mapping and import depend on them
+ */
+export function sanitizeScrapeResult(result: ScrapeResult): ScrapeResult {
+  return {
+    ...result,
+    accounts: result.accounts?.map((account) => ({
+      ...account,
+      accountNumber: hashIdentifier(account.accountNumber),
+      txns: account.txns.map((txn) => ({
+        ...txn,
+        identifier: txn.identifier !== undefined ? hashIdentifier(txn.identifier) : undefined,
+      })),
+    })),
+  };
+}
+
+/**
+ * Record a scrape as a sanitized fixture
+ */
+export function createScrapeFixture(
+  provider: BankProvider,
+  startDate: Date,
+  result: ScrapeResult,
+  recordedAt: Date = new Date()
+): ScrapeFixture {
+  return {
+    version: 1,
+    provider,
+    recordedAt: recordedAt.toISOString(),
+    startDate: startDate.toISOString(),
+    result: sanitizeScrapeResult(result),
+  };
+}
+
+/**
+ * Parse a fixture read from disk
+ * @throws if the JSON is not a scrape fixture
+ */
+export function parseScrapeFixture(json: string): ScrapeFixture {
+  return scrapeFixtureSchema.parse(JSON.parse(json));
+}
@@ -1,6 +1,8 @@
-export { mapTransaction, mapAccountTransactions } from './transaction-mapper';
+export { mapTransaction, mapAccountTransactions, mapAccountBalances } from './transaction-mapper';
 export {
   generateTransactionHash,
   filterNewTransactions,
   groupByAccount,
 } from './deduplication';
+export { sanitizeScrapeResult, createScrapeFixture, parseScrapeFixture } from './fixtures';
+export { classifyScrapeError } from './errors';
@@ -1,4 +1,11 @@
-import type { MappedTransaction, ScrapedAccount, ScrapedTransaction } from '../types';
+import type {
+  MappedInstallment,
+  MappedTransaction,
+  ScrapedAccount,
+  ScrapedBalance,
+  ScrapedTransaction,
+} from '../types';
+import { parseIsraelDay, toIsraelDate } from './dates';
 
 /**
  * Map a single scraped transaction to our app's transaction format
@@ -19,9 +26,10 @@ export function mapTransaction(
   if (txn.memo) {
     notesParts.push(txn.memo);
   }
-  if (txn.originalCurrency && txn.originalCurrency !== 'ILS') {
-    notesParts.push(`${txn.originalAmount} ${txn.originalCurrency}`);
-  }
+
+  // Keep the foreign amount of purchases abroad (charged in the account currency)
+  const isForeign =
+    Boolean(txn.originalCurrency) && txn.originalCurrency !== (txn.chargedCurrency ?? 'ILS');
 
   // Generate external ID for deduplication
   const externalId = generateExternalId(txn, externalAccountId);
@@ -29,8 +37,7 @@ export function mapTransaction(
   // Parse transaction date in Israel timezone to avoid timezone shifts
   // If txn.date is "2026-01-01", create it at midnight Israel time, not UTC
   // This ensures transaction dates are consistent regardless of where the scraper runs
-  const dateStr = txn.date.split('T')[0]!; // Extract date part (YYYY-MM-DD)
-  const date = new Date(dateStr + 'T00:00:00+02:00'); // Israel Standard Time (UTC+2)
+  const date = parseIsraelDay(txn.date);
 
   return {
     externalId,
@@ -42,9 +49,76 @@ export function mapTransaction(
     notes: notesParts.length > 0 ? notesParts.join(' | ') : null,
     externalAccountId,
     externalCategory: txn.category, // Pass through category/sector from bank (e.g., Isracard)
+    originalAmount: isForeign ? Math.abs(txn.originalAmount) : null,
+    originalCurrency: isForeign ? txn.originalCurrency : null,
+    isPending: txn.status === 'pending',
+    installment: mapInstallment(txn, externalAccountId, amount),
   };
 }
 
+/**
+ * Build installment plan info for a payment of an installment purchase
+ * The plan key only uses fields shared by every payment (purchase date, description,
+ * number of payments and deal amount), so all payments land on the same plan
+ */
+function mapInstallment(
+  txn: ScrapedTransaction,
+  accountNumber: string,
+  paymentAmount: number
+): MappedInstallment | null {
+  if (txn.type !== 'installments' || !txn.installments || txn.installments.total < 2) {
+    return null;
+  }
+
+  const { number, total } = txn.installments;
+  const purchaseDay = txn.date.split('T')[0]!;
+  const chargeDay = (txn.processedDate || txn.date).split('T')[0]!;
+
+  // For installment rows the bank reports the whole deal as the original amount
+  const dealAmount = Math.abs(txn.originalAmount);
+  const totalAmount =
+    txn.originalCurrency === (txn.chargedCurrency ?? 'ILS') && dealAmount > paymentAmount
+      ? dealAmount
+      : Math.round(paymentAmount * total * 100) / 100;
+
+  const planKey = `${accountNumber}_${hashString(
+    [accountNumber, purchaseDay, txn.description, total, dealAmount.toFixed(2)].join('|')
+  )}`;
+
+  return {
+    planKey,
+    number,
+    total,
+    totalAmount,
+    purchaseDate: parseIsraelDay(purchaseDay),
+    firstPaymentDate: shiftMonths(chargeDay, -(number - 1)),
+  };
+}
+
+/**
+ * Move a YYYY-MM-DD date by whole months (midnight Israel time)
+ * The day is clamped to the end of shorter months
+ */
+function shiftMonths(day: string, months: number): Date {
+  const [year, month, date] = day.split('-').map(Number);
+  const target = new Date(Date.UTC(year!, month! - 1 + months, 1));
+  const lastDay = new Date(
+    Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)
+  ).getUTCDate();
+  return toIsraelDate(target.getUTCFullYear(), target.getUTCMonth() + 1, Math.min(date!, lastDay))!;
+}
+
+/**
+ * Balances of the scraped accounts that reported one
+ */
+export function mapAccountBalances(accounts: ScrapedAccount[]): ScrapedBalance[] {
+  return accounts.flatMap((account) =>
+    account.balance !== undefined && Number.isFinite(account.balance)
+      ? [{ externalAccountId: account.accountNumber, balance: account.balance }]
+      : []
+  );
+}
+
 /**
  * Map all transactions from scraped accounts
  */
@@ -63,7 +137,7 @@ export function mapAccountTransactions(accounts: ScrapedAccount[]): MappedTransa
 
     for (const txn of account.txns) {
       // Include all transactions (both pending and completed)
-      // Users want to see pending transactions to get the most up-to-date view
+      // Pending rows are flagged and replaced by their settled version on a later sync
       transactions.push(mapTransaction(txn, account.accountNumber));
     }
   }
@@ -90,21 +164,27 @@ function generateExternalId(txn: ScrapedTransaction, accountNumber: string): str
     txn.installments ? `${txn.installments.number}/${txn.installments.total}` : '',
   ].join('|');
 
-  // Simple hash function
+  return `${accountNumber}_${hashString(data)}`;
+}
+
+/**
+ * Simple 32-bit string hash, as hex
+ */
+function hashString(data: string): string {
   let hash = 0;
   for (let i = 0; i < data.length; i++) {
     const char = data.charCodeAt(i);
     hash = (hash << 5) - hash + char;
     hash = hash & hash; // Convert to 32bit integer
   }
-  return `${accountNumber}_${Math.abs(hash).toString(16)}`;
+  return Math.abs(hash).toString(16);
 }
 
 /**
  * Extract merchant name from description
  * Common patterns in Israeli bank descriptions
  */
-function extractMerchant(description: string): string | null {
+export function extractMerchant(description: string): string | null {
   // Remove common prefixes
   let cleaned = description.replace(/^(חיוב|תשלום|העברה|הוראת קבע|משיכה)\s*/i, '').trim();
 